@@ -24,6 +24,9 @@ import {
 import { RateLimit } from '@nestjs/throttler'; // v2.0.0
 
 import { ConfigService } from '../../services/config.service';
+import { SelectorTester } from '../../scraper/drift';
+import { SelectorTestResult } from '../../interfaces/scraper.interface';
+import { AppError } from '../../utils/error.util';
 import { 
   DatabaseConfig, 
   ScraperConfig, 
@@ -45,7 +48,10 @@ import {
 @ApiSecurity('bearer')
 @RateLimit({ ttl: 60, limit: 10 })
 export class ConfigController {
-  constructor(private readonly configService: ConfigService) {}
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly selectorTester: SelectorTester = new SelectorTester()
+  ) {}
 
   /**
    * Retrieves scraper configuration with environment-specific settings
@@ -171,6 +177,53 @@ export class ConfigController {
     }
   }
 
+  /**
+   * Tests a URL configuration by fetching the page and counting matches for its selectors
+   */
+  @Post('url/test')
+  @ApiOperation({ summary: 'Test URL configuration selectors' })
+  @ApiResponse({ status: 200, description: 'URL configuration tested' })
+  @ApiResponse({ status: 401, description: 'Unauthorized' })
+  @ApiResponse({ status: 403, description: 'Forbidden' })
+  @UseGuards(authorize(['ADMIN', 'MANAGER']))
+  async testURLConfig(
+    @Body() config: { url: string; scraping?: { selectors?: Record<string, any> } }
+  ): Promise<SelectorTestResult> {
+    let url: URL;
+    try {
+      url = new URL(config.url);
+    } catch {
+      throw new Error(`Invalid URL: ${config.url}`);
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new Error(`Unsupported URL protocol: ${url.protocol}`);
+    }
+
+    try {
+      return await this.selectorTester.test(url.toString(), this.flattenSelectors(config.scraping?.selectors));
+    } catch (error) {
+      if (error instanceof AppError) {
+        // Hosts resolving to internal addresses are rejected as invalid input
+        throw error;
+      }
+      throw new Error(`Failed to test URL configuration: ${error.message}`);
+    }
+  }
+
+  /**
+   * Flattens the title, description, pagination and custom selectors of a URL
+   * configuration into one map, dropping blank entries
+   */
+  private flattenSelectors(selectors: Record<string, any> = {}): Record<string, string> {
+    const { custom, ...named } = selectors;
+    return Object.entries({ ...custom, ...named }).reduce((flat, [field, selector]) => {
+      if (typeof selector === 'string' && selector.trim()) {
+        flat[field] = selector.trim();
+      }
+      return flat;
+    }, {} as Record<string, string>);
+  }
+
   /**
    * Filters configuration based on user role
    */
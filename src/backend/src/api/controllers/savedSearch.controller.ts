@@ -0,0 +1,188 @@
+/**
+ * @fileoverview Controller for saved searches, their unsubscribe links and the in-app
+ * notification list their alerts are added to
+ * @version 1.0.0
+ */
+
+import { Request, Response } from 'express'; // ^4.18.0
+import { StatusCodes } from 'http-status-codes'; // ^2.2.0
+import { SavedSearchService } from '../../services/savedSearch.service';
+import { NotificationService } from '../../services/notification.service';
+import { createNotificationService, createSavedSearchService } from '../../services';
+import { IAuthPayload } from '../../interfaces/auth.interface';
+import { handleError } from '../../utils/error.util';
+import { API_VALIDATION_RULES } from '../../constants/validation.constants';
+
+/**
+ * Controller handling saved search and notification HTTP endpoints
+ */
+export class SavedSearchController {
+  private static instance: Promise<SavedSearchController> | null = null;
+
+  constructor(
+    private readonly savedSearchService: SavedSearchService,
+    private readonly notificationService: NotificationService
+  ) {}
+
+  /**
+   * Returns the shared controller, building its services on the first request so mounting
+   * the routes does not need the database. A failed build is retried on the next request.
+   */
+  public static getInstance(): Promise<SavedSearchController> {
+    if (!SavedSearchController.instance) {
+      SavedSearchController.instance = (async () => {
+        const notificationService = await createNotificationService();
+        return new SavedSearchController(await createSavedSearchService(notificationService), notificationService);
+      })().catch(error => {
+        SavedSearchController.instance = null;
+        throw error;
+      });
+    }
+    return SavedSearchController.instance;
+  }
+
+  /**
+   * Lists the user's saved searches
+   */
+  public async listSavedSearches(req: Request, res: Response): Promise<Response> {
+    try {
+      const savedSearches = await this.savedSearchService.list(this.user(req).userId);
+      return res.status(StatusCodes.OK).json({ success: true, data: savedSearches });
+    } catch (error) {
+      return this.sendError(res, error, 'listSavedSearches');
+    }
+  }
+
+  /**
+   * Saves a search for the user, alerting them at the address they are signed in with
+   */
+  public async createSavedSearch(req: Request, res: Response): Promise<Response> {
+    try {
+      const { userId, email } = this.user(req);
+      const savedSearch = await this.savedSearchService.create({ userId, email }, req.body || {});
+      return res.status(StatusCodes.CREATED).json({ success: true, data: savedSearch });
+    } catch (error) {
+      return this.sendError(res, error, 'createSavedSearch', { body: req.body });
+    }
+  }
+
+  /**
+   * Changes one of the user's saved searches
+   */
+  public async updateSavedSearch(req: Request, res: Response): Promise<Response> {
+    try {
+      const savedSearch = await this.savedSearchService.update(this.user(req).userId, req.params.id, req.body || {});
+      return res.status(StatusCodes.OK).json({ success: true, data: savedSearch });
+    } catch (error) {
+      return this.sendError(res, error, 'updateSavedSearch', { savedSearchId: req.params.id });
+    }
+  }
+
+  /**
+   * Deletes one of the user's saved searches
+   */
+  public async deleteSavedSearch(req: Request, res: Response): Promise<Response> {
+    try {
+      await this.savedSearchService.remove(this.user(req).userId, req.params.id);
+      return res.status(StatusCodes.NO_CONTENT).send();
+    } catch (error) {
+      return this.sendError(res, error, 'deleteSavedSearch', { savedSearchId: req.params.id });
+    }
+  }
+
+  /**
+   * Shows the page an unsubscribe link opens. Unsubscribing takes a POST, so link scanners
+   * that follow every URL in an email do not turn alerts off.
+   */
+  public async showUnsubscribe(_req: Request, res: Response): Promise<Response> {
+    return res.status(StatusCodes.OK)
+      .type('html')
+      .send(
+        '<p>Stop receiving alerts for this saved search?</p>' +
+        '<form method="post"><button type="submit">Unsubscribe</button></form>'
+      );
+  }
+
+  /**
+   * Turns off the alerts an unsubscribe link was sent for. Also serves one-click
+   * unsubscribing from mail clients.
+   */
+  public async unsubscribe(req: Request, res: Response): Promise<Response> {
+    try {
+      const { name } = await this.savedSearchService.unsubscribe(req.params.token);
+      return res.status(StatusCodes.OK)
+        .type('html')
+        .send(`<p>You will no longer receive alerts for "${escapeHtml(name)}".</p>`);
+    } catch (error) {
+      return this.sendError(res, error, 'unsubscribe');
+    }
+  }
+
+  /**
+   * Lists the user's notifications, newest first, with their unread count
+   */
+  public async listNotifications(req: Request, res: Response): Promise<Response> {
+    try {
+      const page = await this.notificationService.list(this.user(req).userId, {
+        limit: Math.min(
+          parseInt(req.query.limit as string) || API_VALIDATION_RULES.PAGINATION.defaultLimit,
+          API_VALIDATION_RULES.PAGINATION.maxLimit
+        ),
+        offset: Math.max(parseInt(req.query.offset as string) || 0, 0),
+        unreadOnly: req.query.unread === 'true'
+      });
+      return res.status(StatusCodes.OK).json({ success: true, data: page });
+    } catch (error) {
+      return this.sendError(res, error, 'listNotifications');
+    }
+  }
+
+  /**
+   * Marks one of the user's notifications as read
+   */
+  public async markNotificationRead(req: Request, res: Response): Promise<Response> {
+    try {
+      await this.notificationService.markRead(this.user(req).userId, req.params.id);
+      return res.status(StatusCodes.NO_CONTENT).send();
+    } catch (error) {
+      return this.sendError(res, error, 'markNotificationRead', { notificationId: req.params.id });
+    }
+  }
+
+  /**
+   * Marks all of the user's notifications as read
+   */
+  public async markAllNotificationsRead(req: Request, res: Response): Promise<Response> {
+    try {
+      const marked = await this.notificationService.markAllRead(this.user(req).userId);
+      return res.status(StatusCodes.OK).json({ success: true, data: { marked } });
+    } catch (error) {
+      return this.sendError(res, error, 'markAllNotificationsRead');
+    }
+  }
+
+  private user(req: Request): IAuthPayload {
+    return (req as Request & { user: IAuthPayload }).user;
+  }
+
+  private sendError(res: Response, error: unknown, method: string, details: Record<string, unknown> = {}): Response {
+    const handledError = handleError(error as Error, {
+      context: `SavedSearchController.${method}`,
+      ...details
+    });
+
+    return res.status(handledError.error.statusCode).json({
+      success: false,
+      error: handledError.error.message,
+      correlationId: handledError.error.correlationId
+    });
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -9,20 +9,37 @@ import { Request, Response } from 'express'; // v4.18.0
 import { Counter, Gauge, Histogram } from 'prometheus-client'; // v14.0.0
 
 import { ScraperService } from '../../services/scraper.service';
+import { SchedulerService } from '../../services/scheduler.service';
+import { DeadLetterService } from '../../services/deadLetter.service';
+import { SelectorDriftService } from '../../services/selectorDrift.service';
+import { SnapshotService } from '../../services/snapshot.service';
+import { BackfillService } from '../../services/backfill.service';
+import { ScrapeRunService } from '../../services/scrapeRun.service';
 import { 
   ScraperJob, 
   ScraperResult, 
   ScraperError, 
-  ScraperMetrics 
+  ScraperMetrics,
+  DeadLetterFilters,
+  BackfillScope,
+  ScrapeRunFilters,
+  ScrapeRunStatus,
+  InstitutionHealthStatus
 } from '../../interfaces/scraper.interface';
 import { 
   validateURLConfig, 
   validatePagination, 
   validateRateLimits 
 } from '../middleware/validation.middleware';
+import { isPdfCapture } from '../../scraper/snapshot';
+import { ProxyPool } from '../../scraper/proxy';
 import { logger } from '../../utils/logger.util';
 import { ERROR_TYPES } from '../../constants/error.constants';
 import { API_VALIDATION_RULES } from '../../constants/validation.constants';
+import { SCHEDULER_CONFIG, ROBOTS_CONFIG, DEAD_LETTER_CONFIG, RUN_HEALTH } from '../../constants/scraper.constants';
+
+const RUN_STATUSES: ScrapeRunStatus[] = ['running', 'completed', 'partial', 'failed'];
+const HEALTH_STATUSES: InstitutionHealthStatus[] = ['healthy', 'degraded', 'failing', 'unknown'];
 
 /**
  * Controller handling web scraping operations across 375+ institutions
@@ -37,7 +54,16 @@ export class ScraperController {
   private readonly errorRate: Counter;
   private readonly rateLimitHits: Counter;
 
-  constructor(private readonly scraperService: ScraperService) {
+  constructor(
+    private readonly scraperService: ScraperService,
+    private readonly schedulerService: SchedulerService,
+    private readonly deadLetterService: DeadLetterService,
+    private readonly selectorDriftService: SelectorDriftService,
+    private readonly snapshotService: SnapshotService,
+    private readonly backfillService: BackfillService,
+    private readonly scrapeRunService: ScrapeRunService,
+    private readonly proxyPool: ProxyPool = ProxyPool.getInstance()
+  ) {
     this.initializeMetrics();
   }
 
@@ -95,6 +121,10 @@ export class ScraperController {
         id: correlationId,
         url: req.body.url,
         institutionType: req.body.institution.type,
+        institutionId: req.body.institution.id,
+        engineType: req.body.scraperConfig?.engineType,
+        mode: req.body.mode,
+        crawlConfig: req.body.crawlConfig,
         config: req.body.scraperConfig,
         rateLimitConfig: req.body.rateLimitConfig,
         retryConfig: req.body.retryConfig,
@@ -275,6 +305,782 @@ export class ScraperController {
     }
   }
 
+  /**
+   * Handles GET request to list upcoming scheduled scrapes
+   * @route GET /api/scraper/schedule
+   */
+  public async getSchedule(req: Request, res: Response): Promise<Response> {
+    const hours = parseInt(req.query.hours as string) || SCHEDULER_CONFIG.UPCOMING_WINDOW_HOURS;
+    logger.setContext({ operation: 'getSchedule' });
+
+    try {
+      if (hours < 1 || hours > SCHEDULER_CONFIG.MAX_UPCOMING_WINDOW_HOURS) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            type: ERROR_TYPES.VALIDATION_ERROR,
+            message: `hours must be between 1 and ${SCHEDULER_CONFIG.MAX_UPCOMING_WINDOW_HOURS}`,
+            code: 400
+          }
+        });
+      }
+
+      const schedule = await this.schedulerService.getUpcomingSchedule(hours);
+
+      return res.status(200).json({
+        success: true,
+        hours,
+        data: schedule,
+        total: schedule.length
+      });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles POST request to pause an institution's scheduled scrapes
+   * @route POST /api/scraper/schedule/:institutionId/pause
+   */
+  public async pauseSchedule(req: Request, res: Response): Promise<Response> {
+    const { institutionId } = req.params;
+    logger.setContext({ operation: 'pauseSchedule', institutionId });
+
+    try {
+      const schedule = await this.schedulerService.pause(institutionId);
+      return res.status(200).json({ success: true, data: schedule });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles POST request to resume an institution's scheduled scrapes
+   * @route POST /api/scraper/schedule/:institutionId/resume
+   */
+  public async resumeSchedule(req: Request, res: Response): Promise<Response> {
+    const { institutionId } = req.params;
+    logger.setContext({ operation: 'resumeSchedule', institutionId });
+
+    try {
+      const schedule = await this.schedulerService.resume(institutionId);
+      return res.status(200).json({ success: true, data: schedule });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles PUT request to grant an institution a robots.txt override
+   * @route PUT /api/scraper/institutions/:institutionId/robots-override
+   */
+  public async setRobotsOverride(req: Request, res: Response): Promise<Response> {
+    const { institutionId } = req.params;
+    const { ignoreDisallow, crawlDelay, reason, expiresAt } = req.body || {};
+    logger.setContext({ operation: 'setRobotsOverride', institutionId });
+
+    try {
+      let validationMessage: string | null = null;
+      if (typeof reason !== 'string' || !reason.trim()) {
+        validationMessage = 'reason is required';
+      } else if (typeof ignoreDisallow !== 'boolean') {
+        validationMessage = 'ignoreDisallow must be a boolean';
+      } else if (
+        crawlDelay !== undefined && crawlDelay !== null &&
+        (typeof crawlDelay !== 'number' || crawlDelay < 0 || crawlDelay > ROBOTS_CONFIG.MAX_CRAWL_DELAY)
+      ) {
+        validationMessage = `crawlDelay must be between 0 and ${ROBOTS_CONFIG.MAX_CRAWL_DELAY} seconds`;
+      } else if (expiresAt && !(new Date(expiresAt).getTime() > Date.now())) {
+        validationMessage = 'expiresAt must be a future date';
+      }
+
+      if (validationMessage) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            type: ERROR_TYPES.VALIDATION_ERROR,
+            message: validationMessage,
+            code: 400
+          }
+        });
+      }
+
+      const institution = await this.scraperService.setRobotsOverride(
+        institutionId,
+        {
+          ignoreDisallow,
+          crawlDelay: crawlDelay ?? null,
+          reason: reason.trim(),
+          expiresAt: expiresAt ? new Date(expiresAt) : null
+        },
+        (req as any).user?.userId
+      );
+
+      return res.status(200).json({ success: true, data: institution.robotsOverride });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles DELETE request to remove an institution's robots.txt override
+   * @route DELETE /api/scraper/institutions/:institutionId/robots-override
+   */
+  public async clearRobotsOverride(req: Request, res: Response): Promise<Response> {
+    const { institutionId } = req.params;
+    const reason = (req.body?.reason as string) || 'Override removed';
+    logger.setContext({ operation: 'clearRobotsOverride', institutionId });
+
+    try {
+      await this.scraperService.clearRobotsOverride(institutionId, (req as any).user?.userId, reason);
+      return res.status(200).json({ success: true, data: null });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles GET request to list an institution's robots.txt override changes
+   * @route GET /api/scraper/institutions/:institutionId/robots-override/history
+   */
+  public async getRobotsOverrideHistory(req: Request, res: Response): Promise<Response> {
+    const { institutionId } = req.params;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    logger.setContext({ operation: 'getRobotsOverrideHistory', institutionId });
+
+    try {
+      const history = await this.scraperService.getRobotsOverrideHistory(institutionId, limit);
+      return res.status(200).json({ success: true, data: history, total: history.length });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles GET request to list dead-lettered jobs
+   * @route GET /api/scraper/dlq
+   */
+  public async listDeadLetters(req: Request, res: Response): Promise<Response> {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(
+      parseInt(req.query.limit as string) || DEAD_LETTER_CONFIG.DEFAULT_PAGE_SIZE,
+      DEAD_LETTER_CONFIG.MAX_PAGE_SIZE
+    );
+    logger.setContext({ operation: 'listDeadLetters' });
+
+    try {
+      const filters = this.parseDeadLetterFilters(req.query);
+      if (typeof filters === 'string') {
+        return this.validationError(res, filters);
+      }
+
+      const result = await this.deadLetterService.list(filters, page, limit);
+
+      return res.status(200).json({
+        success: true,
+        data: result.docs.map(entry => entry.toJSON()),
+        pagination: {
+          page,
+          limit,
+          total: result.total,
+          pages: result.pages
+        }
+      });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles GET request to retrieve a dead-lettered job
+   * @route GET /api/scraper/dlq/:entryId
+   */
+  public async getDeadLetter(req: Request, res: Response): Promise<Response> {
+    const { entryId } = req.params;
+    logger.setContext({ operation: 'getDeadLetter', entryId });
+
+    try {
+      const entry = await this.deadLetterService.get(entryId);
+      return res.status(200).json({ success: true, data: entry.toJSON() });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles POST request to replay a dead-lettered job, optionally with an edited config
+   * @route POST /api/scraper/dlq/:entryId/replay
+   */
+  public async replayDeadLetter(req: Request, res: Response): Promise<Response> {
+    const { entryId } = req.params;
+    const config = req.body?.config;
+    logger.setContext({ operation: 'replayDeadLetter', entryId });
+
+    try {
+      if (config !== undefined && (typeof config !== 'object' || config === null || Array.isArray(config))) {
+        return this.validationError(res, 'config must be an object');
+      }
+
+      await this.deadLetterService.get(entryId);
+      const result = await this.deadLetterService.replay([entryId], {
+        config,
+        actor: (req as any).user?.userId
+      });
+
+      if (result.failed.length > 0) {
+        return res.status(502).json({
+          success: false,
+          error: {
+            type: ERROR_TYPES.SERVICE_ERROR,
+            message: result.failed[0].reason,
+            code: 502
+          }
+        });
+      }
+
+      return res.status(202).json({ success: true, data: result });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles POST request to replay several dead-lettered jobs at once
+   * @route POST /api/scraper/dlq/replay
+   */
+  public async replayDeadLetters(req: Request, res: Response): Promise<Response> {
+    const { ids, config } = req.body || {};
+    logger.setContext({ operation: 'replayDeadLetters' });
+
+    try {
+      const validationMessage = this.validateEntryIds(ids);
+      if (validationMessage) {
+        return this.validationError(res, validationMessage);
+      }
+      if (config !== undefined && (typeof config !== 'object' || config === null || Array.isArray(config))) {
+        return this.validationError(res, 'config must be an object');
+      }
+
+      const result = await this.deadLetterService.replay(ids, {
+        config,
+        actor: (req as any).user?.userId
+      });
+
+      return res.status(202).json({ success: true, data: result });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles DELETE request to purge a dead-lettered job
+   * @route DELETE /api/scraper/dlq/:entryId
+   */
+  public async purgeDeadLetter(req: Request, res: Response): Promise<Response> {
+    const { entryId } = req.params;
+    logger.setContext({ operation: 'purgeDeadLetter', entryId });
+
+    try {
+      await this.deadLetterService.get(entryId);
+      const removed = await this.deadLetterService.purge([entryId], (req as any).user?.userId);
+      return res.status(200).json({ success: true, data: { removed } });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles POST request to purge dead-lettered jobs by id or by filter
+   * @route POST /api/scraper/dlq/purge
+   */
+  public async purgeDeadLetters(req: Request, res: Response): Promise<Response> {
+    const { ids, filters: rawFilters } = req.body || {};
+    const actor = (req as any).user?.userId;
+    logger.setContext({ operation: 'purgeDeadLetters' });
+
+    try {
+      if (ids !== undefined) {
+        const validationMessage = this.validateEntryIds(ids);
+        if (validationMessage) {
+          return this.validationError(res, validationMessage);
+        }
+        const removed = await this.deadLetterService.purge(ids, actor);
+        return res.status(200).json({ success: true, data: { removed } });
+      }
+
+      const filters = this.parseDeadLetterFilters(rawFilters || {});
+      if (typeof filters === 'string') {
+        return this.validationError(res, filters);
+      }
+      if (Object.keys(filters).length === 0) {
+        // Guard against wiping the whole store with an empty request
+        return this.validationError(res, 'ids or at least one filter is required');
+      }
+
+      const removed = await this.deadLetterService.purgeMatching(filters, actor);
+      return res.status(200).json({ success: true, data: { removed } });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles GET request listing institutions flagged for selector drift
+   * @route GET /api/scraper/drift
+   */
+  public async listSelectorDrift(_req: Request, res: Response): Promise<Response> {
+    logger.setContext({ operation: 'listSelectorDrift' });
+
+    try {
+      const flagged = await this.selectorDriftService.listFlagged();
+      return res.status(200).json({
+        success: true,
+        data: flagged.map(report => report.toJSON())
+      });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles POST request to dismiss an institution's selector drift flag
+   * @route POST /api/scraper/drift/:institutionId/dismiss
+   */
+  public async dismissSelectorDrift(req: Request, res: Response): Promise<Response> {
+    const { institutionId } = req.params;
+    logger.setContext({ operation: 'dismissSelectorDrift', institutionId });
+
+    try {
+      await this.selectorDriftService.dismiss(institutionId, (req as any).user?.userId);
+      return res.status(200).json({ success: true });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles GET request for archived snapshot metadata
+   * @route GET /api/scraper/snapshots/:snapshotId
+   */
+  public async getSnapshot(req: Request, res: Response): Promise<Response> {
+    const { snapshotId } = req.params;
+    logger.setContext({ operation: 'getSnapshot', snapshotId });
+
+    try {
+      const snapshot = await this.snapshotService.getSnapshot(snapshotId);
+      return res.status(200).json({
+        success: true,
+        data: snapshot.toJSON()
+      });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles GET request for the raw body of an archived snapshot. HTML is served as plain
+   * text so the scraped page is never rendered or run under this origin.
+   * @route GET /api/scraper/snapshots/:snapshotId/source
+   */
+  public async getSnapshotSource(req: Request, res: Response): Promise<Response> {
+    const { snapshotId } = req.params;
+    logger.setContext({ operation: 'getSnapshotSource', snapshotId });
+
+    try {
+      const { snapshot, body } = await this.snapshotService.getSource(snapshotId);
+      const pdf = isPdfCapture({ body, contentType: snapshot.contentType });
+
+      res.setHeader('Content-Type', pdf ? 'application/pdf' : 'text/plain; charset=utf-8');
+      res.setHeader(
+        'Content-Disposition',
+        `inline; filename="snapshot-${snapshot.sha256.slice(0, 12)}.${pdf ? 'pdf' : 'html'}"`
+      );
+      res.setHeader('Content-Security-Policy', 'sandbox');
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('X-Snapshot-Content-Type', snapshot.contentType);
+      return res.status(200).send(body);
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles POST request to run the current parsers over an archived snapshot,
+   * optionally with different selectors
+   * @route POST /api/scraper/snapshots/:snapshotId/reparse
+   */
+  public async reparseSnapshot(req: Request, res: Response): Promise<Response> {
+    const { snapshotId } = req.params;
+    logger.setContext({ operation: 'reparseSnapshot', snapshotId });
+
+    try {
+      const selectors = req.body?.selectors;
+      if (selectors !== undefined && (
+        typeof selectors !== 'object' || selectors === null || Array.isArray(selectors) ||
+        Object.values(selectors).some(selector => typeof selector !== 'string')
+      )) {
+        return res.status(400).json({
+          success: false,
+          error: {
+            type: ERROR_TYPES.VALIDATION_ERROR,
+            message: 'selectors must map field names to CSS selector strings',
+            code: 400
+          }
+        });
+      }
+
+      const reparsed = await this.snapshotService.reparse(snapshotId, selectors);
+      return res.status(200).json({
+        success: true,
+        data: reparsed
+      });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles POST request to replay archived snapshots for an institution set or date range.
+   * Runs are dry runs unless dryRun is false.
+   * @route POST /api/scraper/backfill
+   */
+  public async requestBackfill(req: Request, res: Response): Promise<Response> {
+    logger.setContext({ operation: 'requestBackfill' });
+
+    try {
+      const scope = this.parseBackfillScope(req.body || {});
+      if (typeof scope === 'string') {
+        return this.validationError(res, scope);
+      }
+      const { dryRun } = req.body;
+      if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+        return this.validationError(res, 'dryRun must be a boolean');
+      }
+
+      const run = await this.backfillService.request(scope, {
+        dryRun,
+        actor: (req as any).user?.userId
+      });
+
+      return res.status(202).json({ success: true, data: run.toJSON() });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles GET request for a backfill run and its change report
+   * @route GET /api/scraper/backfill/:runId
+   */
+  public async getBackfill(req: Request, res: Response): Promise<Response> {
+    const { runId } = req.params;
+    logger.setContext({ operation: 'getBackfill', runId });
+
+    try {
+      const run = await this.backfillService.get(runId);
+      return res.status(200).json({ success: true, data: run.toJSON() });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles POST request to apply a completed dry run
+   * @route POST /api/scraper/backfill/:runId/commit
+   */
+  public async commitBackfill(req: Request, res: Response): Promise<Response> {
+    const { runId } = req.params;
+    logger.setContext({ operation: 'commitBackfill', runId });
+
+    try {
+      const run = await this.backfillService.commit(runId, (req as any).user?.userId);
+      return res.status(202).json({ success: true, data: run.toJSON() });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles GET request to list scrape runs
+   * @route GET /api/scraper/runs
+   */
+  public async listRuns(req: Request, res: Response): Promise<Response> {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = Math.min(
+      parseInt(req.query.limit as string) || RUN_HEALTH.DEFAULT_PAGE_SIZE,
+      RUN_HEALTH.MAX_PAGE_SIZE
+    );
+    logger.setContext({ operation: 'listRuns' });
+
+    try {
+      const filters = this.parseRunFilters(req.query);
+      if (typeof filters === 'string') {
+        return this.validationError(res, filters);
+      }
+
+      const result = await this.scrapeRunService.list(filters, page, limit);
+
+      return res.status(200).json({
+        success: true,
+        data: result.docs.map(run => run.toJSON()),
+        pagination: {
+          page,
+          limit,
+          total: result.total,
+          pages: result.pages
+        }
+      });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles GET request for a scrape run with its jobs, item counts and errors
+   * @route GET /api/scraper/runs/:runId
+   */
+  public async getRun(req: Request, res: Response): Promise<Response> {
+    const { runId } = req.params;
+    logger.setContext({ operation: 'getRun', runId });
+
+    try {
+      const run = await this.scrapeRunService.get(runId);
+      return res.status(200).json({ success: true, data: run.toJSON() });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles GET request for the per-institution health scorecard, worst first
+   * @route GET /api/scraper/scorecard
+   */
+  public async getScorecard(req: Request, res: Response): Promise<Response> {
+    const status = req.query.status as string | undefined;
+    logger.setContext({ operation: 'getScorecard' });
+
+    try {
+      if (status && !HEALTH_STATUSES.includes(status as InstitutionHealthStatus)) {
+        return this.validationError(res, `status must be one of ${HEALTH_STATUSES.join(', ')}`);
+      }
+
+      const scorecard = await this.scrapeRunService.getScorecard(status as InstitutionHealthStatus | undefined);
+
+      return res.status(200).json({
+        success: true,
+        data: scorecard,
+        total: scorecard.length
+      });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Handles GET request for the health of the scraper proxy pool
+   * @route GET /api/scraper/proxies
+   */
+  public async getProxyHealth(req: Request, res: Response): Promise<Response> {
+    logger.setContext({ operation: 'getProxyHealth' });
+
+    try {
+      const health = await this.proxyPool.getHealth();
+
+      return res.status(200).json({
+        success: true,
+        data: health
+      });
+
+    } catch (error) {
+      return this.handleError(error, res);
+    } finally {
+      logger.clearContext();
+    }
+  }
+
+  /**
+   * Reads a backfill scope from a request body
+   * @returns Scope, or a validation message when a value is invalid
+   */
+  private parseBackfillScope(source: Record<string, unknown>): BackfillScope | string {
+    const { institutionIds = [], from, to } = source;
+    if (!Array.isArray(institutionIds) || institutionIds.some(id => typeof id !== 'string' || id === '')) {
+      return 'institutionIds must be an array of institution ids';
+    }
+
+    const dates: Record<string, Date | null> = { from: null, to: null };
+    for (const [key, value] of Object.entries({ from, to })) {
+      if (value === undefined || value === null || value === '') {
+        continue;
+      }
+      const date = typeof value === 'string' ? new Date(value) : null;
+      if (!date || isNaN(date.getTime())) {
+        return `${key} must be an ISO 8601 date`;
+      }
+      dates[key] = date;
+    }
+
+    if (dates.from && dates.to && dates.from > dates.to) {
+      return 'from must not be after to';
+    }
+    if (institutionIds.length === 0 && !dates.from && !dates.to) {
+      return 'Provide institutionIds or a from/to date range to backfill';
+    }
+
+    return { institutionIds, from: dates.from, to: dates.to };
+  }
+
+  /**
+   * Reads dead-letter filters from a query string or request body
+   * @returns Filters, or a validation message when a value is invalid
+   */
+  private parseDeadLetterFilters(source: Record<string, unknown>): DeadLetterFilters | string {
+    const filters: DeadLetterFilters = {};
+
+    for (const key of ['institutionId', 'institutionType', 'errorType'] as const) {
+      const value = source[key];
+      if (value === undefined || value === '') {
+        continue;
+      }
+      if (typeof value !== 'string') {
+        return `${key} must be a string`;
+      }
+      filters[key] = value;
+    }
+
+    const status = source.status;
+    if (status !== undefined && status !== '') {
+      if (status !== 'pending' && status !== 'replayed') {
+        return 'status must be pending or replayed';
+      }
+      filters.status = status;
+    }
+
+    return filters;
+  }
+
+  /**
+   * Reads scrape run filters from a query string
+   * @returns Filters, or a validation message when a value is invalid
+   */
+  private parseRunFilters(source: Record<string, unknown>): ScrapeRunFilters | string {
+    const filters: ScrapeRunFilters = {};
+
+    const { institutionId, status } = source;
+    if (institutionId !== undefined && institutionId !== '') {
+      if (typeof institutionId !== 'string') {
+        return 'institutionId must be a string';
+      }
+      filters.institutionId = institutionId;
+    }
+
+    if (status !== undefined && status !== '') {
+      if (!RUN_STATUSES.includes(status as ScrapeRunStatus)) {
+        return `status must be one of ${RUN_STATUSES.join(', ')}`;
+      }
+      filters.status = status as ScrapeRunStatus;
+    }
+
+    return filters;
+  }
+
+  /**
+   * Validates a list of dead-letter entry ids for a bulk operation
+   * @returns Validation message, or null when the ids are valid
+   */
+  private validateEntryIds(ids: unknown): string | null {
+    if (!Array.isArray(ids) || ids.length === 0 || ids.some(id => typeof id !== 'string')) {
+      return 'ids must be a non-empty array of entry ids';
+    }
+    if (ids.length > DEAD_LETTER_CONFIG.MAX_BULK_SIZE) {
+      return `at most ${DEAD_LETTER_CONFIG.MAX_BULK_SIZE} entries can be processed per request`;
+    }
+    return null;
+  }
+
+  /**
+   * Sends a 400 response in the controller's error format
+   */
+  private validationError(res: Response, message: string): Response {
+    return res.status(400).json({
+      success: false,
+      error: {
+        type: ERROR_TYPES.VALIDATION_ERROR,
+        message,
+        code: 400
+      }
+    });
+  }
+
   /**
    * Centralized error handling with metrics update
    */
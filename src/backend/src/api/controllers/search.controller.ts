@@ -16,12 +16,14 @@ import {
   SearchParams, 
   SearchResponse, 
   SearchFilters, 
-  SearchMetrics 
+  SearchMetrics,
+  SuggestionType
 } from '../../interfaces/search.interface';
 import { validateRequest } from '../middleware/validation.middleware';
 import { createError, handleError } from '../../utils/error.util';
 import { ERROR_TYPES } from '../../constants/error.constants';
 import { API_VALIDATION_RULES } from '../../constants/validation.constants';
+import { searchConfig } from '../../config/search.config';
 
 /**
  * Controller handling technology transfer search API endpoints
@@ -128,7 +130,10 @@ export class SearchController {
             parseInt(req.query.limit as string) || API_VALIDATION_RULES.PAGINATION.defaultLimit,
             API_VALIDATION_RULES.PAGINATION.maxLimit
           )
-        }
+        },
+        semanticWeight: req.query.semanticWeight !== undefined
+          ? parseFloat(req.query.semanticWeight as string)
+          : undefined
       };
 
       // Execute search through circuit breaker
@@ -170,6 +175,47 @@ export class SearchController {
     }
   }
 
+  /**
+   * Handles typeahead suggestion requests for a query prefix. An optional comma-separated
+   * types parameter limits the groups returned; unknown types are ignored.
+   * @param req Express request
+   * @param res Express response
+   */
+  public async getSuggestions(req: Request, res: Response): Promise<void> {
+    const startTime = Date.now();
+
+    try {
+      const query = typeof req.query.query === 'string' ? req.query.query : '';
+      const types = typeof req.query.types === 'string'
+        ? req.query.types.split(',')
+          .map(type => type.trim())
+          .filter((type): type is SuggestionType => (searchConfig.search.suggest.types as readonly string[]).includes(type))
+        : undefined;
+
+      const result = await this.searchService.suggest(query, types);
+
+      res.status(200)
+        .set({
+          'Cache-Control': 'private, max-age=60',
+          'X-Response-Time': `${Date.now() - startTime}ms`
+        })
+        .json(result);
+
+    } catch (error) {
+      const handledError = handleError(error, {
+        component: 'SearchController',
+        method: 'getSuggestions',
+        params: req.query
+      });
+
+      res.status(handledError.error.statusCode)
+        .json({
+          error: handledError.error.message,
+          correlationId: handledError.error.correlationId
+        });
+    }
+  }
+
   /**
    * Clears search cache with monitoring
    * @param req Express request
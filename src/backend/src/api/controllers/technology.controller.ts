@@ -8,10 +8,13 @@ import { injectable } from 'tsyringe'; // ^4.7.0
 import { Request, Response } from 'express'; // ^4.18.0
 import { StatusCodes } from 'http-status-codes'; // ^2.2.0
 import { TechnologyService } from '../../services/technology.service';
+import { ClassificationService } from '../../services/classification.service';
 import { validateRequest, validatePagination } from '../middleware/validation.middleware';
 import { Technology } from '../../db/models/technology.model';
 import { createError, handleError } from '../../utils/error.util';
 import { ERROR_TYPES } from '../../constants/error.constants';
+import { PERSON_ROLES, PersonRole } from '../../constants/scraper.constants';
+import { resolveTaxonomyId } from '../../utils/taxonomy.util';
 import { SearchParams } from '../../interfaces/search.interface';
 import { ScraperResult } from '../../interfaces/scraper.interface';
 
@@ -23,7 +26,10 @@ export class TechnologyController {
   private readonly CACHE_CONTROL = 'public, max-age=3600'; // 1 hour cache
   private readonly SEARCH_TIMEOUT = 2000; // 2 second timeout
 
-  constructor(private readonly technologyService: TechnologyService) {}
+  constructor(
+    private readonly technologyService: TechnologyService,
+    private readonly classificationService: ClassificationService
+  ) {}
 
   /**
    * Creates a new technology entry from scraper results
@@ -92,6 +98,363 @@ export class TechnologyController {
     }
   }
 
+  /**
+   * Retrieves the change log recorded for a technology across re-scrapes
+   * @param req Request with technology ID
+   * @param res Response object
+   */
+  @validateRequest()
+  public async getTechnologyChanges(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const changes = await this.technologyService.getChangeLog(id);
+
+      return res.status(StatusCodes.OK).json({
+        success: true,
+        data: changes
+      });
+    } catch (error) {
+      const handledError = handleError(error, {
+        context: 'TechnologyController.getTechnologyChanges',
+        technologyId: req.params.id
+      });
+
+      return res.status(handledError.error.statusCode).json({
+        success: false,
+        error: handledError.error.message,
+        correlationId: handledError.error.correlationId
+      });
+    }
+  }
+
+  /**
+   * Lists the technologies sharing a patent family with a technology, across institutions
+   * @param req Request with technology ID
+   * @param res Response object
+   */
+  @validateRequest()
+  public async getPatentFamily(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const family = await this.technologyService.getPatentFamily(id);
+
+      if (!family) {
+        throw createError(
+          ERROR_TYPES.NOT_FOUND_ERROR,
+          'Technology not found',
+          { technologyId: id }
+        );
+      }
+
+      return res.status(StatusCodes.OK).json({
+        success: true,
+        data: family
+      });
+    } catch (error) {
+      const handledError = handleError(error, {
+        context: 'TechnologyController.getPatentFamily',
+        technologyId: req.params.id
+      });
+
+      return res.status(handledError.error.statusCode).json({
+        success: false,
+        error: handledError.error.message,
+        correlationId: handledError.error.correlationId
+      });
+    }
+  }
+
+  /**
+   * Lists the controlled taxonomy with its categories and subcategories
+   * @param req Request object
+   * @param res Response object
+   */
+  @validateRequest()
+  public async getTaxonomy(_req: Request, res: Response): Promise<Response> {
+    try {
+      res.set('Cache-Control', this.CACHE_CONTROL);
+      return res.status(StatusCodes.OK).json({
+        success: true,
+        data: this.technologyService.getTaxonomy()
+      });
+    } catch (error) {
+      const handledError = handleError(error, {
+        context: 'TechnologyController.getTaxonomy'
+      });
+
+      return res.status(handledError.error.statusCode).json({
+        success: false,
+        error: handledError.error.message,
+        correlationId: handledError.error.correlationId
+      });
+    }
+  }
+
+  /**
+   * Places a technology in the taxonomy by hand, overriding automatic classification
+   * @param req Request with technology ID and a taxonomyId body field
+   * @param res Response object
+   */
+  @validateRequest()
+  public async overrideClassification(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const { taxonomyId } = req.body || {};
+      if (typeof taxonomyId !== 'string' || !resolveTaxonomyId(taxonomyId)) {
+        throw createError(
+          ERROR_TYPES.VALIDATION_ERROR,
+          'taxonomyId must be a category or subcategory id from the taxonomy',
+          { taxonomyId }
+        );
+      }
+
+      const technology = await this.technologyService.overrideClassification(
+        id,
+        taxonomyId,
+        (req as any).user?.userId
+      );
+      if (!technology) {
+        throw createError(
+          ERROR_TYPES.NOT_FOUND_ERROR,
+          'Technology not found',
+          { technologyId: id }
+        );
+      }
+
+      return res.status(StatusCodes.OK).json({
+        success: true,
+        data: technology
+      });
+    } catch (error) {
+      const handledError = handleError(error, {
+        context: 'TechnologyController.overrideClassification',
+        technologyId: req.params.id,
+        body: req.body
+      });
+
+      return res.status(handledError.error.statusCode).json({
+        success: false,
+        error: handledError.error.message,
+        correlationId: handledError.error.correlationId
+      });
+    }
+  }
+
+  /**
+   * Removes a manual taxonomy placement so the technology is classified automatically again
+   * @param req Request with technology ID
+   * @param res Response object
+   */
+  @validateRequest()
+  public async clearClassificationOverride(req: Request, res: Response): Promise<Response> {
+    try {
+      const { id } = req.params;
+      const technology = await this.technologyService.clearClassificationOverride(id);
+
+      if (!technology) {
+        throw createError(
+          ERROR_TYPES.NOT_FOUND_ERROR,
+          'Technology not found',
+          { technologyId: id }
+        );
+      }
+
+      return res.status(StatusCodes.OK).json({
+        success: true,
+        data: technology
+      });
+    } catch (error) {
+      const handledError = handleError(error, {
+        context: 'TechnologyController.clearClassificationOverride',
+        technologyId: req.params.id
+      });
+
+      return res.status(handledError.error.statusCode).json({
+        success: false,
+        error: handledError.error.message,
+        correlationId: handledError.error.correlationId
+      });
+    }
+  }
+
+  /**
+   * Queues a run re-classifying the whole catalog. Runs are dry runs unless dryRun is false.
+   * @param req Request with optional dryRun body field
+   * @param res Response object
+   */
+  @validateRequest()
+  public async requestClassificationRun(req: Request, res: Response): Promise<Response> {
+    try {
+      const { dryRun } = req.body || {};
+      if (dryRun !== undefined && typeof dryRun !== 'boolean') {
+        throw createError(
+          ERROR_TYPES.VALIDATION_ERROR,
+          'dryRun must be a boolean',
+          { dryRun }
+        );
+      }
+
+      const run = await this.classificationService.request({
+        dryRun,
+        actor: (req as any).user?.userId
+      });
+
+      return res.status(StatusCodes.ACCEPTED).json({
+        success: true,
+        data: run.toJSON()
+      });
+    } catch (error) {
+      const handledError = handleError(error, {
+        context: 'TechnologyController.requestClassificationRun',
+        body: req.body
+      });
+
+      return res.status(handledError.error.statusCode).json({
+        success: false,
+        error: handledError.error.message,
+        correlationId: handledError.error.correlationId
+      });
+    }
+  }
+
+  /**
+   * Retrieves a classification run and its report of re-classified technologies
+   * @param req Request with run ID
+   * @param res Response object
+   */
+  @validateRequest()
+  public async getClassificationRun(req: Request, res: Response): Promise<Response> {
+    try {
+      const run = await this.classificationService.get(req.params.runId);
+
+      return res.status(StatusCodes.OK).json({
+        success: true,
+        data: run.toJSON()
+      });
+    } catch (error) {
+      const handledError = handleError(error, {
+        context: 'TechnologyController.getClassificationRun',
+        runId: req.params.runId
+      });
+
+      return res.status(handledError.error.statusCode).json({
+        success: false,
+        error: handledError.error.message,
+        correlationId: handledError.error.correlationId
+      });
+    }
+  }
+
+  /**
+   * Searches the people directory of inventors and licensing contacts by name or email
+   * @param req Request with optional q, role, institution and limit query parameters
+   * @param res Response object
+   */
+  @validateRequest()
+  public async searchPeople(req: Request, res: Response): Promise<Response> {
+    try {
+      const role = this.parsePersonRole(req.query.role);
+      const people = await this.technologyService.searchPeople(req.query.q as string || '', {
+        role,
+        institution: req.query.institution as string || undefined,
+        limit: parseInt(req.query.limit as string) || undefined
+      });
+
+      return res.status(StatusCodes.OK).json({
+        success: true,
+        data: people
+      });
+    } catch (error) {
+      const handledError = handleError(error, {
+        context: 'TechnologyController.searchPeople',
+        query: req.query
+      });
+
+      return res.status(handledError.error.statusCode).json({
+        success: false,
+        error: handledError.error.message,
+        correlationId: handledError.error.correlationId
+      });
+    }
+  }
+
+  /**
+   * Lists the technologies a person invented or handles licensing for, across institutions
+   * @param req Request with person ID and optional role query parameter
+   * @param res Response object
+   */
+  @validateRequest()
+  public async getPersonTechnologies(req: Request, res: Response): Promise<Response> {
+    try {
+      const { personId } = req.params;
+      const result = await this.technologyService.getPersonTechnologies(
+        personId,
+        this.parsePersonRole(req.query.role)
+      );
+
+      if (!result) {
+        throw createError(
+          ERROR_TYPES.NOT_FOUND_ERROR,
+          'Person not found',
+          { personId }
+        );
+      }
+
+      return res.status(StatusCodes.OK).json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      const handledError = handleError(error, {
+        context: 'TechnologyController.getPersonTechnologies',
+        personId: req.params.personId
+      });
+
+      return res.status(handledError.error.statusCode).json({
+        success: false,
+        error: handledError.error.message,
+        correlationId: handledError.error.correlationId
+      });
+    }
+  }
+
+  /**
+   * Lists technologies new or updated within a recent window (default 7 days)
+   * @param req Request with optional days query parameter
+   * @param res Response object
+   */
+  @validateRequest()
+  public async getRecentActivity(req: Request, res: Response): Promise<Response> {
+    try {
+      const days = parseInt(req.query.days as string) || undefined;
+      if (days !== undefined && (days < 1 || days > 90)) {
+        throw createError(
+          ERROR_TYPES.VALIDATION_ERROR,
+          'days must be between 1 and 90',
+          { days }
+        );
+      }
+
+      const activity = await this.technologyService.getRecentActivity(days);
+
+      return res.status(StatusCodes.OK).json({
+        success: true,
+        data: activity
+      });
+    } catch (error) {
+      const handledError = handleError(error, {
+        context: 'TechnologyController.getRecentActivity',
+        query: req.query
+      });
+
+      return res.status(handledError.error.statusCode).json({
+        success: false,
+        error: handledError.error.message,
+        correlationId: handledError.error.correlationId
+      });
+    }
+  }
+
   /**
    * Performs optimized technology search with pagination and caching
    * Implements sub-2 second response time requirement
@@ -107,7 +470,12 @@ export class TechnologyController {
         filters: {
           institution: (req.query.institution as string || '').split(',').filter(Boolean),
           category: (req.query.category as string || '').split(',').filter(Boolean),
+          subcategory: (req.query.subcategory as string || '').split(',').filter(Boolean),
           country: (req.query.country as string || '').split(',').filter(Boolean),
+          patentStatus: (req.query.patentStatus as string || '').split(',').filter(Boolean),
+          inventor: (req.query.inventor as string || '').split(',').filter(Boolean),
+          licensingContact: (req.query.licensingContact as string || '').split(',').filter(Boolean),
+          includeWithdrawn: req.query.includeWithdrawn === 'true',
           dateRange: {
             start: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
             end: req.query.endDate ? new Date(req.query.endDate as string) : undefined
@@ -202,4 +570,24 @@ export class TechnologyController {
       });
     }
   }
+
+  /**
+   * Reads an optional person role query parameter
+   * @throws Validation error when the role is not a known person role
+   */
+  private parsePersonRole(value: unknown): PersonRole | undefined {
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+
+    const roles: readonly string[] = Object.values(PERSON_ROLES);
+    if (typeof value !== 'string' || !roles.includes(value)) {
+      throw createError(
+        ERROR_TYPES.VALIDATION_ERROR,
+        `role must be one of ${roles.join(', ')}`,
+        { role: value }
+      );
+    }
+    return value as PersonRole;
+  }
 }
\ No newline at end of file
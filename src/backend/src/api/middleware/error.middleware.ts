@@ -5,7 +5,7 @@
  */
 
 import { Request, Response, NextFunction } from 'express'; // ^4.18.0
-import { AppError, handleError } from '../../utils/error.util';
+import { AppError, AppErrorType, handleError } from '../../utils/error.util';
 import { logger } from '../../utils/logger.util';
 import { ERROR_TYPES, HTTP_STATUS_CODES } from '../../constants/error.constants';
 
@@ -17,7 +17,7 @@ interface ErrorResponse {
   code: number;
   message: string;
   correlationId: string;
-  type: ERROR_TYPES;
+  type: AppErrorType;
   retryAfter?: number;
   details?: Record<string, any>;
 }
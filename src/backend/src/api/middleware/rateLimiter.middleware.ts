@@ -48,6 +48,7 @@ export const createRateLimiter = (config: IRateLimitConfig) => {
     host: process.env.REDIS_HOST || 'localhost',
     port: parseInt(process.env.REDIS_PORT || '6379', 10),
     password: process.env.REDIS_PASSWORD,
+    ttl: 3600,
     keyPrefix: config.keyPrefix || RATE_LIMIT_PREFIX,
     cluster: process.env.REDIS_CLUSTER_ENABLED === 'true'
   });
@@ -5,7 +5,12 @@
  */
 
 import { Request, Response, NextFunction } from 'express'; // v4.18.0
-import { validateURL, validateInstitution, validateScraperConfig } from '../../utils/validation.util';
+import {
+  validateURL,
+  validateInstitution,
+  validateScraperConfig,
+  validateCrawlScope
+} from '../../utils/validation.util';
 import { ERROR_TYPES, ERROR_MESSAGES } from '../../constants/error.constants';
 import { AppError } from '../../utils/error.util';
 import { API_VALIDATION_RULES } from '../../constants/validation.constants';
@@ -89,7 +94,7 @@ export function validateRequest(schema: ValidationSchema) {
  */
 export function validateURLConfig(req: Request, res: Response, next: NextFunction): void {
   try {
-    const { url, institution, scraperConfig } = req.body;
+    const { url, institution, scraperConfig, crawlConfig } = req.body;
 
     // Validate URL with enhanced security checks
     const urlValidation = validateURL(url);
@@ -124,6 +129,17 @@ export function validateURLConfig(req: Request, res: Response, next: NextFunctio
       );
     }
 
+    // Validate crawl scope patterns before the job is queued
+    const crawlValidation = validateCrawlScope(crawlConfig?.scope);
+    if (!crawlValidation.isValid) {
+      throw new AppError(
+        'Invalid crawl configuration',
+        ERROR_TYPES.VALIDATION_ERROR,
+        400,
+        { errors: crawlValidation.errors }
+      );
+    }
+
     // Log validation metrics
     logValidationMetrics({
       url: urlValidation.metrics,
@@ -77,6 +77,21 @@ const authConfigSchema = {
   }
 };
 
+const urlTestSchema = {
+  type: 'object',
+  required: true,
+  properties: {
+    url: {
+      type: 'string',
+      required: true
+    },
+    scraping: {
+      type: 'object',
+      required: true
+    }
+  }
+};
+
 /**
  * Configures and returns Express router with secure configuration endpoints
  * @returns Configured Express router instance
@@ -261,6 +276,27 @@ export function configureRoutes(): Router {
     }
   );
 
+  // URL configuration test endpoint
+  router.post(
+    '/url/test',
+    authenticate,
+    authorize(['ADMIN', 'MANAGER']),
+    validateRequest(urlTestSchema),
+    async (req, res, next) => {
+      try {
+        logger.info('Testing URL configuration', {
+          userId: req.user?.id,
+          method: 'POST',
+          url: req.body.url
+        });
+        const result = await configController.testURLConfig(req.body);
+        res.json(result);
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   // Configuration version endpoint
   router.get(
     '/version',
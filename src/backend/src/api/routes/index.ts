@@ -14,6 +14,7 @@ import { authRouter } from './auth.routes';
 import { configRouter } from './config.routes';
 import { grantRouter } from './grant.routes';
 import { searchRouter } from './search.routes';
+import { notificationRouter } from './notification.routes';
 import { errorHandler } from '../middleware/error.middleware';
 
 // Rate limiting window and request limits
@@ -114,6 +115,9 @@ function configureRoutes(): Router {
   // Mount search routes
   mainRouter.use('/search', searchRouter);
 
+  // Mount in-app notification routes
+  mainRouter.use('/notifications', notificationRouter);
+
   // Health check endpoint
   mainRouter.get('/health', (req, res) => {
     res.json({
@@ -0,0 +1,53 @@
+/**
+ * @fileoverview Express router for the signed-in user's in-app notification list
+ * @version 1.0.0
+ */
+
+import { Router, Request, Response, NextFunction } from 'express'; // v4.18.0
+import { rateLimit } from 'express-rate-limit'; // v6.0.0
+import { SavedSearchController } from '../controllers/savedSearch.controller';
+import { authenticate } from '../middleware/auth.middleware';
+import { API_VALIDATION_RULES } from '../../constants/validation.constants';
+
+const notificationRouter = Router();
+
+const notificationRateLimit = rateLimit({
+  windowMs: API_VALIDATION_RULES.RATE_LIMITING.window,
+  max: API_VALIDATION_RULES.RATE_LIMITING.maxRequests.authenticated,
+  message: 'Too many notification requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+notificationRouter.use(notificationRateLimit, authenticate);
+
+// Newest first; ?unread=true leaves out notifications already read
+notificationRouter.get('/', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const savedSearchController = await SavedSearchController.getInstance();
+    await savedSearchController.listNotifications(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+notificationRouter.post('/read-all', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const savedSearchController = await SavedSearchController.getInstance();
+    await savedSearchController.markAllNotificationsRead(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+notificationRouter.post('/:id/read', async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const savedSearchController = await SavedSearchController.getInstance();
+    await savedSearchController.markNotificationRead(req, res);
+  } catch (error) {
+    next(error);
+  }
+});
+
+export { notificationRouter };
+export default notificationRouter;
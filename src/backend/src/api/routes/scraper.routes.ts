@@ -67,7 +67,9 @@ const initializeScraperRoutes = (controller: ScraperController): Router => {
             url: { type: 'string', required: true },
             institution: { type: 'object', required: true },
             scraperConfig: { type: 'object', required: true },
-            rateLimitConfig: { type: 'object', required: true }
+            rateLimitConfig: { type: 'object', required: true },
+            mode: { type: 'string', enum: ['single', 'crawl'] },
+            crawlConfig: { type: 'object' }
         }
     };
 
@@ -115,6 +117,184 @@ const initializeScraperRoutes = (controller: ScraperController): Router => {
         controller.getJobResults
     );
 
+    // Recurring scrape schedule endpoints
+    router.get('/schedule',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER, UserRole.ANALYST]),
+        rateLimiter,
+        controller.getSchedule
+    );
+
+    router.post('/schedule/:institutionId/pause',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER]),
+        rateLimiter,
+        controller.pauseSchedule
+    );
+
+    router.post('/schedule/:institutionId/resume',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER]),
+        rateLimiter,
+        controller.resumeSchedule
+    );
+
+    // robots.txt override endpoints; every change is written to the override audit trail
+    router.put('/institutions/:institutionId/robots-override',
+        authenticate,
+        authorize([UserRole.ADMIN]),
+        rateLimiter,
+        controller.setRobotsOverride
+    );
+
+    router.delete('/institutions/:institutionId/robots-override',
+        authenticate,
+        authorize([UserRole.ADMIN]),
+        rateLimiter,
+        controller.clearRobotsOverride
+    );
+
+    router.get('/institutions/:institutionId/robots-override/history',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER]),
+        rateLimiter,
+        controller.getRobotsOverrideHistory
+    );
+
+    // Dead-letter queue endpoints for inspecting, replaying and purging failed jobs
+    router.get('/dlq',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER, UserRole.ANALYST]),
+        validateRequest(paginationSchema),
+        rateLimiter,
+        controller.listDeadLetters
+    );
+
+    router.post('/dlq/replay',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER]),
+        rateLimiter,
+        controller.replayDeadLetters
+    );
+
+    router.post('/dlq/purge',
+        authenticate,
+        authorize([UserRole.ADMIN]),
+        rateLimiter,
+        controller.purgeDeadLetters
+    );
+
+    router.get('/dlq/:entryId',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER, UserRole.ANALYST]),
+        rateLimiter,
+        controller.getDeadLetter
+    );
+
+    router.post('/dlq/:entryId/replay',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER]),
+        rateLimiter,
+        controller.replayDeadLetter
+    );
+
+    router.delete('/dlq/:entryId',
+        authenticate,
+        authorize([UserRole.ADMIN]),
+        rateLimiter,
+        controller.purgeDeadLetter
+    );
+
+    // Selector drift flags raised from per-institution extraction yields
+    router.get('/drift',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER, UserRole.ANALYST]),
+        rateLimiter,
+        controller.listSelectorDrift
+    );
+
+    router.post('/drift/:institutionId/dismiss',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER]),
+        rateLimiter,
+        controller.dismissSelectorDrift
+    );
+
+    // Archived raw snapshots behind scrape results
+    router.get('/snapshots/:snapshotId',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER, UserRole.ANALYST]),
+        rateLimiter,
+        controller.getSnapshot
+    );
+
+    router.get('/snapshots/:snapshotId/source',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER, UserRole.ANALYST]),
+        rateLimiter,
+        controller.getSnapshotSource
+    );
+
+    router.post('/snapshots/:snapshotId/reparse',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER]),
+        rateLimiter,
+        controller.reparseSnapshot
+    );
+
+    // Backfills replaying archived snapshots through the current parsers
+    router.post('/backfill',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER]),
+        rateLimiter,
+        controller.requestBackfill
+    );
+
+    router.get('/backfill/:runId',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER, UserRole.ANALYST]),
+        rateLimiter,
+        controller.getBackfill
+    );
+
+    router.post('/backfill/:runId/commit',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER]),
+        rateLimiter,
+        controller.commitBackfill
+    );
+
+    // Scrape run history and the per-institution health scorecard
+    router.get('/runs',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER, UserRole.ANALYST]),
+        validateRequest(paginationSchema),
+        rateLimiter,
+        controller.listRuns
+    );
+
+    router.get('/runs/:runId',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER, UserRole.ANALYST]),
+        rateLimiter,
+        controller.getRun
+    );
+
+    router.get('/scorecard',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER, UserRole.ANALYST]),
+        rateLimiter,
+        controller.getScorecard
+    );
+
+    // Proxy pool health
+    router.get('/proxies',
+        authenticate,
+        authorize([UserRole.ADMIN, UserRole.MANAGER, UserRole.ANALYST]),
+        rateLimiter,
+        controller.getProxyHealth
+    );
+
     // Metrics endpoint (admin only)
     router.get('/metrics',
         authenticate,
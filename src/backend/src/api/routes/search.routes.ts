@@ -8,6 +8,7 @@
 import { Router, Request, Response, NextFunction } from 'express'; // v4.18.0
 import { rateLimit } from 'express-rate-limit'; // v6.0.0
 import { SearchController } from '../controllers/search.controller';
+import { SavedSearchController } from '../controllers/savedSearch.controller';
 import { validateRequest, validatePagination } from '../middleware/validation.middleware';
 import { authMiddleware, authorize } from '../middleware/auth.middleware';
 import { logger } from '../../utils/logger.util';
@@ -91,6 +92,24 @@ const searchRateLimit = rateLimit({
   legacyHeaders: false
 });
 
+// Typeahead sends a request per keystroke, so it gets a larger budget than full searches
+const suggestionRateLimit = rateLimit({
+  windowMs: API_VALIDATION_RULES.RATE_LIMITING.window,
+  max: API_VALIDATION_RULES.RATE_LIMITING.maxRequests.authenticated * 3,
+  message: 'Too many suggestion requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
+// Unsubscribe links are followed without signing in, so they are limited per address
+const unsubscribeRateLimit = rateLimit({
+  windowMs: API_VALIDATION_RULES.RATE_LIMITING.window,
+  max: API_VALIDATION_RULES.RATE_LIMITING.maxRequests.authenticated,
+  message: 'Too many unsubscribe requests, please try again later',
+  standardHeaders: true,
+  legacyHeaders: false
+});
+
 const adminRateLimit = rateLimit({
   windowMs: 300000, // 5 minutes
   max: 5,
@@ -129,6 +148,110 @@ searchRouter.get('/search',
   }
 );
 
+// Typeahead suggestions for a query prefix, grouped by type
+searchRouter.get('/suggestions',
+  correlationMiddleware,
+  requestLoggingMiddleware,
+  suggestionRateLimit,
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await searchController.getSuggestions(req, res);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Unsubscribe links sent in saved search alerts; the token identifies the saved search
+searchRouter.get('/saved/unsubscribe/:token',
+  correlationMiddleware,
+  unsubscribeRateLimit,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const savedSearchController = await SavedSearchController.getInstance();
+      await savedSearchController.showUnsubscribe(req, res);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+searchRouter.post('/saved/unsubscribe/:token',
+  correlationMiddleware,
+  requestLoggingMiddleware,
+  unsubscribeRateLimit,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const savedSearchController = await SavedSearchController.getInstance();
+      await savedSearchController.unsubscribe(req, res);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+// Saved searches of the signed-in user, alerted when new technologies match
+searchRouter.get('/saved',
+  correlationMiddleware,
+  requestLoggingMiddleware,
+  searchRateLimit,
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const savedSearchController = await SavedSearchController.getInstance();
+      await savedSearchController.listSavedSearches(req, res);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+searchRouter.post('/saved',
+  correlationMiddleware,
+  requestLoggingMiddleware,
+  searchRateLimit,
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const savedSearchController = await SavedSearchController.getInstance();
+      await savedSearchController.createSavedSearch(req, res);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+searchRouter.put('/saved/:id',
+  correlationMiddleware,
+  requestLoggingMiddleware,
+  searchRateLimit,
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const savedSearchController = await SavedSearchController.getInstance();
+      await savedSearchController.updateSavedSearch(req, res);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
+searchRouter.delete('/saved/:id',
+  correlationMiddleware,
+  requestLoggingMiddleware,
+  searchRateLimit,
+  authMiddleware,
+  async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const savedSearchController = await SavedSearchController.getInstance();
+      await savedSearchController.deleteSavedSearch(req, res);
+    } catch (error) {
+      next(error);
+    }
+  }
+);
+
 // Cache management endpoints (admin only)
 searchRouter.post('/clear-cache',
   correlationMiddleware,
@@ -76,6 +76,102 @@ export default function configureRoutes(): Router {
     }
   );
 
+  // New and updated technologies within a recent window
+  router.get('/activity',
+    authenticate,
+    authorize([UserRole.ANALYST, UserRole.MANAGER, UserRole.ADMIN]),
+    validateRequest(),
+    rateLimiters[UserRole.ANALYST],
+    async (req, res, next) => {
+      try {
+        const response = await technologyController.getRecentActivity(req, res);
+        return response;
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Controlled taxonomy technologies are classified into
+  router.get('/taxonomy',
+    authenticate,
+    authorize([UserRole.ANALYST, UserRole.MANAGER, UserRole.ADMIN]),
+    validateRequest(),
+    rateLimiters[UserRole.ANALYST],
+    async (req, res, next) => {
+      try {
+        const response = await technologyController.getTaxonomy(req, res);
+        return response;
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Batch re-classification of the whole catalog
+  router.post('/classification/runs',
+    authenticate,
+    authorize([UserRole.MANAGER, UserRole.ADMIN]),
+    validateRequest(),
+    rateLimiters[UserRole.MANAGER],
+    async (req, res, next) => {
+      try {
+        const response = await technologyController.requestClassificationRun(req, res);
+        return response;
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Classification run status and report
+  router.get('/classification/runs/:runId',
+    authenticate,
+    authorize([UserRole.MANAGER, UserRole.ADMIN]),
+    validateRequest(),
+    rateLimiters[UserRole.MANAGER],
+    async (req, res, next) => {
+      try {
+        const response = await technologyController.getClassificationRun(req, res);
+        return response;
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // People directory of inventors and licensing contacts
+  router.get('/people',
+    authenticate,
+    authorize([UserRole.ANALYST, UserRole.MANAGER, UserRole.ADMIN]),
+    validateRequest(),
+    rateLimiters[UserRole.ANALYST],
+    async (req, res, next) => {
+      try {
+        const response = await technologyController.searchPeople(req, res);
+        return response;
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Technologies a person invented or handles licensing for
+  router.get('/people/:personId/technologies',
+    authenticate,
+    authorize([UserRole.ANALYST, UserRole.MANAGER, UserRole.ADMIN]),
+    validateRequest(),
+    rateLimiters[UserRole.ANALYST],
+    async (req, res, next) => {
+      try {
+        const response = await technologyController.getPersonTechnologies(req, res);
+        return response;
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   // Get single technology by ID
   router.get('/:id',
     authenticate,
@@ -92,6 +188,70 @@ export default function configureRoutes(): Router {
     }
   );
 
+  // Change log for a technology across re-scrapes
+  router.get('/:id/changes',
+    authenticate,
+    authorize([UserRole.ANALYST, UserRole.MANAGER, UserRole.ADMIN]),
+    validateRequest(),
+    rateLimiters[UserRole.ANALYST],
+    async (req, res, next) => {
+      try {
+        const response = await technologyController.getTechnologyChanges(req, res);
+        return response;
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Technologies sharing a patent family across institutions
+  router.get('/:id/family',
+    authenticate,
+    authorize([UserRole.ANALYST, UserRole.MANAGER, UserRole.ADMIN]),
+    validateRequest(),
+    rateLimiters[UserRole.ANALYST],
+    async (req, res, next) => {
+      try {
+        const response = await technologyController.getPatentFamily(req, res);
+        return response;
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Manual taxonomy placement by a manager
+  router.put('/:id/classification',
+    authenticate,
+    authorize([UserRole.MANAGER, UserRole.ADMIN]),
+    validateRequest(),
+    rateLimiters[UserRole.MANAGER],
+    async (req, res, next) => {
+      try {
+        const response = await technologyController.overrideClassification(req, res);
+        return response;
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
+  // Return a technology to automatic classification
+  router.delete('/:id/classification',
+    authenticate,
+    authorize([UserRole.MANAGER, UserRole.ADMIN]),
+    validateRequest(),
+    rateLimiters[UserRole.MANAGER],
+    async (req, res, next) => {
+      try {
+        const response = await technologyController.clearClassificationOverride(req, res);
+        return response;
+      } catch (error) {
+        next(error);
+      }
+    }
+  );
+
   // Update technology
   router.put('/:id',
     authenticate,
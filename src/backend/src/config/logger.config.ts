@@ -5,11 +5,15 @@
  * @version 1.0.0
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import winston from 'winston'; // v3.8.0
-import DailyRotateFile from 'winston-daily-rotate-file'; // v4.7.0
-import { ElasticsearchTransport } from 'winston-elasticsearch'; // v0.17.0
 import { LOG_LEVELS } from '../constants/error.constants';
 
+declare global {
+  // Request-scoped store the HTTP layer installs for trace IDs and request metadata
+  var asyncLocalStorage: AsyncLocalStorage<Map<string, any>> | undefined;
+}
+
 // Environment variables with defaults
 const LOG_FILE_PATH = process.env.LOG_FILE_PATH || 'logs/app-%DATE%.log';
 const ELASTICSEARCH_NODE = process.env.ELASTICSEARCH_NODE || 'http://localhost:9200';
@@ -89,11 +93,12 @@ const getLogFormat = (): winston.Logform.Format => {
     })(),
     winston.format((info) => {
       // Mask sensitive data
-      if (info.metadata?.password) {
-        info.metadata.password = '***';
+      const metadata = info.metadata as Record<string, unknown> | undefined;
+      if (metadata?.password) {
+        metadata.password = '***';
       }
-      if (info.metadata?.token) {
-        info.metadata.token = '***';
+      if (metadata?.token) {
+        metadata.token = '***';
       }
       return info;
     })(),
@@ -44,6 +44,8 @@ interface WorkerConfig {
  */
 interface QueueDefinitions {
   scraper: QueueDefinition;
+  backfill: QueueDefinition;
+  classification: QueueDefinition;
   grant: QueueDefinition;
   search: QueueDefinition;
 }
@@ -53,6 +55,8 @@ interface QueueDefinitions {
  */
 interface WorkerConfigurations {
   scraper: WorkerConfig;
+  backfill: WorkerConfig;
+  classification: WorkerConfig;
   grant: WorkerConfig;
   search: WorkerConfig;
 }
@@ -73,7 +77,7 @@ export const queueConfig: QueueConfig = {
   connection: {
     protocol: 'amqp',
     hostname: process.env.RABBITMQ_HOST || 'localhost',
-    port: parseInt(process.env.RABBITMQ_PORT) || 5672,
+    port: parseInt(process.env.RABBITMQ_PORT || '5672', 10),
     username: process.env.RABBITMQ_USER || 'guest',
     password: process.env.RABBITMQ_PASS || 'guest',
     vhost: process.env.RABBITMQ_VHOST || '/',
@@ -100,6 +104,34 @@ export const queueConfig: QueueConfig = {
       priority: 5,
     },
 
+    backfill: {
+      name: 'scraper_backfill',
+      options: {
+        durable: true,
+        deadLetterExchange: 'scraper_backfill_dlx',
+        messageTtl: 86400000, // 24 hours
+        maxLength: 1000,
+      },
+      deadLetter: 'scraper_backfill_dlq',
+      retryDelay: 60000, // 1 minute
+      maxRetries: 0, // failures are recorded on the run instead of retried
+      priority: 1,
+    },
+
+    classification: {
+      name: 'technology_classification',
+      options: {
+        durable: true,
+        deadLetterExchange: 'technology_classification_dlx',
+        messageTtl: 86400000, // 24 hours
+        maxLength: 100,
+      },
+      deadLetter: 'technology_classification_dlq',
+      retryDelay: 60000, // 1 minute
+      maxRetries: 0, // failures are recorded on the run instead of retried
+      priority: 1,
+    },
+
     grant: {
       name: 'grant_jobs',
       options: {
@@ -139,6 +171,20 @@ export const queueConfig: QueueConfig = {
       idleTimeout: 300000, // 5 minutes
     },
 
+    backfill: {
+      concurrency: 1, // Replays share the catalog with live scrapes
+      prefetch: 1, // Process one run at a time
+      maxMemory: 512, // 512MB memory limit
+      idleTimeout: 3600000, // 1 hour
+    },
+
+    classification: {
+      concurrency: 1, // One pass over the catalog at a time
+      prefetch: 1, // Process one run at a time
+      maxMemory: 512, // 512MB memory limit
+      idleTimeout: 3600000, // 1 hour
+    },
+
     grant: {
       concurrency: 2, // 2 parallel workers
       prefetch: 1, // Process one message at a time
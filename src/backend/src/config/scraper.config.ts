@@ -73,7 +73,7 @@ export const scraperConfig = {
             middleware: ['robotsTxt', 'httpCompression', 'retry', 'cookies'],
             pipelines: ['validation', 'deduplication', 'storage'],
             settings: {
-                ROBOTSTXT_OBEY: true,
+                ROBOTSTXT_OBEY: false, // enforced per job by the shared RobotsPolicy
                 CONCURRENT_REQUESTS_PER_DOMAIN: 2,
                 DOWNLOAD_DELAY: 1
             }
@@ -6,11 +6,33 @@
  */
 
 import { config } from 'dotenv'; // v16.0.0
-import { SearchParams, SearchFilters, SearchResponse } from '../interfaces/search.interface';
+import { LANGUAGE_ANALYZERS } from '../constants/translation.constants';
+import { EMBEDDING_CONFIG } from '../constants/embedding.constants';
 
 // Load environment variables
 config();
 
+/**
+ * Non-English analyzers original titles and descriptions are indexed with. A technology's
+ * original text is indexed only under the analyzer of its language, e.g. localized.german.title
+ */
+const LANGUAGE_SUBFIELD_ANALYZERS = [...new Set<string>(Object.values(LANGUAGE_ANALYZERS))]
+  .filter(analyzer => analyzer !== LANGUAGE_ANALYZERS.en);
+
+const localizedText = Object.fromEntries(
+  LANGUAGE_SUBFIELD_ANALYZERS.map(analyzer => [analyzer, {
+    properties: {
+      title: { type: 'text', analyzer },
+      description: { type: 'text', analyzer }
+    }
+  }])
+);
+
+/**
+ * Length of technology embeddings, shared by the index mapping and the embedding provider
+ */
+const EMBEDDING_DIMENSIONS = parseInt(process.env.EMBEDDING_DIMENSIONS || String(EMBEDDING_CONFIG.DEFAULT_DIMENSIONS));
+
 /**
  * Comprehensive search configuration object with optimized settings
  * for high-performance technology transfer data search functionality
@@ -19,10 +41,13 @@ export const searchConfig = {
   elasticsearch: {
     // Connection settings
     node: process.env.ELASTICSEARCH_NODE || 'http://localhost:9200',
-    auth: {
-      username: process.env.ELASTICSEARCH_USERNAME,
-      password: process.env.ELASTICSEARCH_PASSWORD
-    },
+    // Basic auth only when credentials are configured
+    auth: process.env.ELASTICSEARCH_USERNAME
+      ? {
+          username: process.env.ELASTICSEARCH_USERNAME,
+          password: process.env.ELASTICSEARCH_PASSWORD || ''
+        }
+      : undefined,
     
     // Index configuration
     indices: {
@@ -60,27 +85,130 @@ export const searchConfig = {
             analyzer: 'english',
             boost: 1.0
           },
+          language: {
+            type: 'keyword' // ISO 639-1 code of the original text
+          },
+          localized: {
+            properties: localizedText // Original text under its own language's analyzer
+          },
+          translations: {
+            properties: {
+              title: {
+                type: 'text',
+                analyzer: 'english',
+                boost: 2.0
+              },
+              description: {
+                type: 'text',
+                analyzer: 'english'
+              },
+              sourceLanguage: {
+                type: 'keyword'
+              },
+              targetLanguage: {
+                type: 'keyword'
+              },
+              provider: {
+                type: 'keyword'
+              },
+              translatedAt: {
+                type: 'date'
+              }
+            }
+          },
           institution: {
             type: 'keyword',
             boost: 1.5 // Boost institution matches
           },
           category: {
+            type: 'keyword' // Top-level taxonomy category
+          },
+          subcategory: {
             type: 'keyword'
           },
+          taxonomyId: {
+            type: 'keyword' // e.g. energy.storage
+          },
+          sourceCategory: {
+            type: 'keyword' // Category as listed by the source site
+          },
           country: {
             type: 'keyword'
           },
+          patentNumbers: {
+            type: 'keyword' // Canonical identifiers, e.g. US10123456
+          },
+          patentStatus: {
+            type: 'keyword'
+          },
+          patentFamilyId: {
+            type: 'keyword'
+          },
+          inventorIds: {
+            type: 'keyword' // People directory ids, for technologies by inventor
+          },
+          inventorNames: {
+            type: 'text',
+            analyzer: 'standard'
+          },
+          licensingContactIds: {
+            type: 'keyword'
+          },
+          licensingContactNames: {
+            type: 'text',
+            analyzer: 'standard'
+          },
+          active: {
+            type: 'boolean' // False once the institution stopped listing the technology
+          },
+          withdrawnAt: {
+            type: 'date'
+          },
+          withdrawnReason: {
+            type: 'keyword'
+          },
           discoveredAt: {
             type: 'date'
           },
           updatedAt: {
             type: 'date'
+          },
+          digest: {
+            type: 'keyword',
+            index: false // Only read back by the consistency checker
+          },
+          embedding: {
+            type: 'dense_vector', // Semantic embedding of the title and description
+            dims: EMBEDDING_DIMENSIONS,
+            index: true,
+            similarity: 'cosine'
+          },
+          suggest: {
+            type: 'completion', // Typeahead over titles, institutions, categories and inventors
+            analyzer: 'simple',
+            max_input_length: 100,
+            contexts: [
+              { name: 'type', type: 'category' }
+            ]
           }
         }
       }
     }
   },
 
+  // Writing technologies from PostgreSQL into the index
+  indexing: {
+    batchSize: 500, // Queued changes sent per bulk request
+    pollInterval: 5000, // Milliseconds between queue checks when idle
+    leaseSeconds: 300, // How long a claimed batch stays hidden from other workers
+    retryBaseDelay: 30, // Seconds before the first retry of a failed change
+    retryMaxDelay: 3600, // Longest retry delay in seconds
+    maxAttempts: 10, // Failures before a change is reported as stuck
+    reindexBatchSize: 1000, // Technologies per bulk request during a full reindex
+    scrollKeepAlive: '2m',
+    driftSampleSize: 100 // Ids listed per drift kind in consistency reports
+  },
+
   // Redis cache configuration for search results
   cache: {
     enabled: true,
@@ -102,11 +230,30 @@ export const searchConfig = {
     maxResults: 100, // Maximum results per query
     defaultPageSize: 20,
     minScore: 0.3, // Minimum relevance score threshold
-    highlightFields: ['title', 'description'],
+    highlight: {
+      // Fragments returned per field; 0 returns the whole field highlighted. Any full-text
+      // field added to the mapping, such as text extracted from PDF one-pagers, is
+      // highlighted once it is listed here.
+      fields: {
+        title: 0,
+        description: 3,
+        'translations.title': 0,
+        'translations.description': 3,
+        inventorNames: 0,
+        licensingContactNames: 0
+      } as Record<string, number>,
+      fragmentSize: 160,
+      preTag: '<mark>',
+      postTag: '</mark>',
+      snippetLength: 240 // Longest snippet shown under a result
+    },
+    languageAnalyzers: LANGUAGE_SUBFIELD_ANALYZERS,
     facets: {
       maxCategories: 50,
       maxInstitutions: 100,
       maxCountries: 200,
+      maxPatentStatuses: 10,
+      maxSubcategories: 100,
       minDocCount: 1
     },
     weights: {
@@ -117,6 +264,28 @@ export const searchConfig = {
     timeout: {
       search: '2s', // Enforce sub-2 second response requirement
       suggest: '1s'
+    },
+    semantic: {
+      dimensions: EMBEDDING_DIMENSIONS,
+      // Share of the score from vector similarity when a query sets no weight; 0 is keyword only
+      defaultWeight: parseFloat(process.env.SEARCH_SEMANTIC_WEIGHT || '0.3'),
+      numCandidates: 100, // Nearest-neighbour candidates considered per shard
+      keywordScorePivot: 10 // Keyword score mapped to 0.5 when scaling it to the 0-1 range of vector scores
+    },
+    suggest: {
+      types: ['title', 'institution', 'category', 'inventor'] as const, // Group order in responses
+      minLength: 2, // Shortest prefix suggestions are looked up for
+      maxLength: 100,
+      size: 5, // Suggestions returned per type
+      candidates: 15, // Suggestions fetched per type before popularity re-ranking
+      fuzziness: 'AUTO', // Typo tolerance
+      fuzzyMinLength: 3, // Shorter prefixes must match exactly
+      fuzzyPrefixLength: 1, // Leading characters that must match exactly
+      titleSuffixes: 4, // Later words of a title that also start a suggestion
+      popularityWeight: 0.5, // Boost per log unit of searches for the suggested text
+      popularityWindowDays: 30, // Days of query logs counted towards popularity
+      queryLogPrefix: 'search:queries:{log}:', // Hash tag keeps a window's keys on one cluster slot
+      cacheTtl: 300
     }
   }
 };
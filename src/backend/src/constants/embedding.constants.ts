@@ -0,0 +1,54 @@
+/**
+ * @fileoverview Settings for the text embeddings behind semantic technology search
+ * @version 1.0.0
+ */
+
+/**
+ * Embedding stage configuration
+ */
+export const EMBEDDING_CONFIG = {
+    /**
+     * Vector length used when EMBEDDING_DIMENSIONS is not set. Changing it requires a full
+     * reindex, since the index mapping fixes the length.
+     */
+    DEFAULT_DIMENSIONS: 256,
+
+    /**
+     * Longest text embedded per technology; longer text is cut at a word boundary
+     */
+    MAX_TEXT_LENGTH: 4000,
+
+    /**
+     * Texts sent to a provider per request
+     */
+    BATCH_SIZE: 64,
+
+    /**
+     * Provider request timeout in milliseconds
+     */
+    REQUEST_TIMEOUT: 15000,
+
+    /**
+     * Model requested from OpenAI-compatible providers when EMBEDDING_MODEL is not set
+     */
+    DEFAULT_MODEL: 'text-embedding-3-small'
+} as const;
+
+/**
+ * Embedding providers selectable with EMBEDDING_PROVIDER
+ */
+export const EMBEDDING_PROVIDERS = {
+    LOCAL: 'local',
+    OPENAI: 'openai'
+} as const;
+
+/**
+ * Type definitions for embeddings
+ */
+export type EmbeddingProviderName = typeof EMBEDDING_PROVIDERS[keyof typeof EMBEDDING_PROVIDERS];
+
+/**
+ * Freeze objects to prevent runtime modifications
+ */
+Object.freeze(EMBEDDING_CONFIG);
+Object.freeze(EMBEDDING_PROVIDERS);
\ No newline at end of file
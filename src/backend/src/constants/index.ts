@@ -21,11 +21,76 @@ export {
   SCRAPER_ENGINES,
   SCRAPER_RATE_LIMITS,
   RETRY_CONFIG,
+  ENGINE_SELECTION,
+  CRAWL_DEFAULTS,
+  SCHEDULER_CONFIG,
+  ROBOTS_CONFIG,
+  DISTRIBUTED_RATE_LIMIT,
+  PROXY_POOL,
+  DEAD_LETTER_CONFIG,
+  SELECTOR_DRIFT,
+  SNAPSHOT_ARCHIVE,
+  BACKFILL_CONFIG,
+  RUN_HEALTH,
+  WITHDRAWAL,
+  STRUCTURED_DATA,
+  PDF_STRUCTURE,
+  PATENT_NUMBERS,
+  PATENT_STATUSES,
+  PERSON_ROLES,
+  WITHDRAWAL_REASONS,
+  PORTAL_VENDORS,
+  VENDOR_DETECTION,
   type ErrorType,
   type ScraperEngine,
-  type InstitutionType
+  type InstitutionType,
+  type PortalVendor,
+  type PatentStatus,
+  type PersonRole,
+  type WithdrawalReason
 } from './scraper.constants';
 
+// Technology taxonomy constants
+export {
+  TECHNOLOGY_TAXONOMY,
+  CLASSIFICATION_CONFIG,
+  CLASSIFICATION_SOURCES,
+  type TaxonomyCategoryKey,
+  type ClassificationSource
+} from './taxonomy.constants';
+
+// Translation constants
+export {
+  TRANSLATION_CONFIG,
+  TRANSLATION_PROVIDERS,
+  LANGUAGE_NAMES,
+  LANGUAGE_ANALYZERS,
+  type TranslatedField,
+  type TranslationProviderName,
+  type LanguageCode
+} from './translation.constants';
+
+// Embedding constants
+export {
+  EMBEDDING_CONFIG,
+  EMBEDDING_PROVIDERS,
+  type EmbeddingProviderName
+} from './embedding.constants';
+
+// Saved search constants
+export {
+  SAVED_SEARCH_FREQUENCIES,
+  SAVED_SEARCH_ALERTS,
+  type SavedSearchFrequency
+} from './savedSearch.constants';
+
+// Mail constants
+export {
+  MAIL_CONFIG,
+  MAIL_TRANSPORTS,
+  type MailTransportName
+} from './mail.constants';
+
 // Validation constants
 export {
   URL_VALIDATION_PATTERNS,
@@ -0,0 +1,43 @@
+/**
+ * @fileoverview Settings for outgoing email
+ * @version 1.0.0
+ */
+
+/**
+ * Outgoing email configuration
+ */
+export const MAIL_CONFIG = {
+    /**
+     * Sender used when MAIL_FROM is not set
+     */
+    DEFAULT_FROM: 'Tech Transfer Alerts <alerts@localhost>',
+
+    /**
+     * SMTP connection and send timeout in milliseconds
+     */
+    SEND_TIMEOUT: 30000,
+
+    /**
+     * Messages kept by the local transport before the oldest are dropped
+     */
+    LOCAL_OUTBOX_SIZE: 100
+} as const;
+
+/**
+ * Mail transports selectable with MAIL_TRANSPORT
+ */
+export const MAIL_TRANSPORTS = {
+    LOCAL: 'local',
+    SMTP: 'smtp'
+} as const;
+
+/**
+ * Type definitions for email
+ */
+export type MailTransportName = typeof MAIL_TRANSPORTS[keyof typeof MAIL_TRANSPORTS];
+
+/**
+ * Freeze objects to prevent runtime modifications
+ */
+Object.freeze(MAIL_CONFIG);
+Object.freeze(MAIL_TRANSPORTS);
@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Settings for saved searches and the new-match alerts sent for them
+ * @version 1.0.0
+ */
+
+/**
+ * How often a saved search's new matches are delivered
+ */
+export const SAVED_SEARCH_FREQUENCIES = {
+    /** After the indexing cycle that found them */
+    INSTANT: 'instant',
+    /** Once a day at DIGEST_HOUR_UTC */
+    DAILY: 'daily',
+    /** Once a week on WEEKLY_DIGEST_DAY at DIGEST_HOUR_UTC */
+    WEEKLY: 'weekly'
+} as const;
+
+/**
+ * Saved search alert configuration
+ */
+export const SAVED_SEARCH_ALERTS = {
+    /**
+     * Saved searches a user may keep
+     */
+    MAX_PER_USER: 50,
+
+    /**
+     * Longest saved search name in characters
+     */
+    MAX_NAME_LENGTH: 200,
+
+    /**
+     * Longest saved query in characters, as for searches
+     */
+    MAX_QUERY_LENGTH: 500,
+
+    /**
+     * Saved searches re-executed per batch of an alert run
+     */
+    BATCH_SIZE: 100,
+
+    /**
+     * Seconds a claimed saved search stays hidden from other workers if its run never settles
+     */
+    RUN_LEASE_SECONDS: 300,
+
+    /**
+     * New matches looked for per saved search and run; digests list at most this many
+     */
+    MAX_MATCHES_PER_RUN: 100,
+
+    /**
+     * Seconds before the previous run that are searched again, so technologies updated just
+     * before a run but indexed after it are not missed. Matches already found are skipped.
+     */
+    RUN_OVERLAP_SECONDS: 600,
+
+    /**
+     * Milliseconds between alert runs when no indexing cycle has triggered one, so daily and
+     * weekly digests go out on time
+     */
+    POLL_INTERVAL: 15 * 60 * 1000,
+
+    /**
+     * Hour of the day, in UTC, daily and weekly digests are sent
+     */
+    DIGEST_HOUR_UTC: 7,
+
+    /**
+     * Day of the week weekly digests are sent (0 = Sunday)
+     */
+    WEEKLY_DIGEST_DAY: 1,
+
+    /**
+     * Technologies listed in a digest email; the rest are summarized as a count
+     */
+    MAX_DIGEST_ITEMS: 20,
+
+    /**
+     * Bytes of randomness in unsubscribe tokens
+     */
+    UNSUBSCRIBE_TOKEN_BYTES: 24
+} as const;
+
+/**
+ * Type definitions for saved searches
+ */
+export type SavedSearchFrequency = typeof SAVED_SEARCH_FREQUENCIES[keyof typeof SAVED_SEARCH_FREQUENCIES];
+
+/**
+ * Freeze objects to prevent runtime modifications
+ */
+Object.freeze(SAVED_SEARCH_FREQUENCIES);
+Object.freeze(SAVED_SEARCH_ALERTS);
@@ -22,7 +22,11 @@ export enum ERROR_TYPES {
     RATE_LIMITED = 'rate_limited',
     PARSE_ERROR = 'parse_error',
     AUTHENTICATION_ERROR = 'auth_error',
-    VALIDATION_ERROR = 'validation_error'
+    VALIDATION_ERROR = 'validation_error',
+    ROBOTS_DISALLOWED = 'robots_disallowed',
+    QUEUE_REJECTED = 'queue_rejected',
+    CONTENT_ERROR = 'content_error',
+    SECURITY_ERROR = 'security_error'
 }
 
 /**
@@ -92,15 +96,732 @@ export const RETRY_CONFIG = {
     BACKOFF_FACTOR: 2
 } as const;
 
+/**
+ * Configuration for automatic engine selection based on static render probing
+ */
+export const ENGINE_SELECTION = {
+    /**
+     * Timeout for the static probe request in milliseconds
+     */
+    PROBE_TIMEOUT: 15000,
+
+    /**
+     * How long a probe decision is reused before re-probing, in milliseconds
+     */
+    DECISION_TTL: 6 * 60 * 60 * 1000,
+
+    /**
+     * Visible body text below this length is treated as an unrendered shell
+     */
+    MIN_TEXT_LENGTH: 500,
+
+    /**
+     * Markup patterns indicating a client-side rendered application
+     */
+    SPA_MARKERS: {
+        react_root: /<div[^>]+id=["'](root|app|__next)["'][^>]*>\s*<\/div>/i,
+        react_attr: /data-reactroot/i,
+        next_data: /<script[^>]+id=["']__NEXT_DATA__["']/i,
+        nuxt_state: /window\.__NUXT__/i,
+        angular_app: /\sng-app=|<app-root[\s>]/i,
+        vue_app: /\sdata-v-app|<div[^>]+id=["']vue-app["']/i,
+        noscript_warning: /<noscript>[^<]*(enable|requires?)\s+javascript/i
+    }
+} as const;
+
+/**
+ * Default caps for crawl mode jobs
+ */
+export const CRAWL_DEFAULTS = {
+    /**
+     * Maximum listing pages visited while walking pagination
+     */
+    MAX_PAGES: 50,
+
+    /**
+     * Maximum link hops from the listing page (1 = follow detail links)
+     */
+    MAX_DEPTH: 1,
+
+    /**
+     * Maximum technologies emitted per crawl
+     */
+    MAX_ITEMS: 1000,
+
+    /**
+     * Timeout for each page request in milliseconds
+     */
+    REQUEST_TIMEOUT: 30000
+} as const;
+
+/**
+ * Configuration for recurring scrapes scheduled from each institution's refresh interval
+ */
+export const SCHEDULER_CONFIG = {
+    /**
+     * Refresh interval in days for institutions without one configured
+     */
+    DEFAULT_REFRESH_INTERVAL_DAYS: 14,
+
+    /**
+     * How often the scheduler checks for due institutions in milliseconds
+     */
+    TICK_INTERVAL: 60 * 1000,
+
+    /**
+     * Maximum institutions loaded per scheduler tick
+     */
+    MAX_DUE_PER_TICK: 100,
+
+    /**
+     * How long a due institution stays claimed by the scheduler replica that loaded it,
+     * in seconds. Institutions deferred by a burst cap become due again once it expires.
+     */
+    CLAIM_LEASE_SECONDS: 60,
+
+    /**
+     * Window over which scheduled runs are spread, in milliseconds
+     */
+    SPREAD_WINDOW: 24 * 60 * 60 * 1000,
+
+    /**
+     * Default look-ahead for the upcoming schedule API in hours
+     */
+    UPCOMING_WINDOW_HOURS: 72,
+
+    /**
+     * Maximum look-ahead accepted by the upcoming schedule API in hours
+     */
+    MAX_UPCOMING_WINDOW_HOURS: 720
+} as const;
+
+/**
+ * robots.txt compliance settings shared by all scraper engines
+ */
+export const ROBOTS_CONFIG = {
+    /**
+     * Product token matched against robots.txt user-agent groups
+     */
+    USER_AGENT_TOKEN: 'TechTransfer-Scraper',
+
+    /**
+     * How long a fetched robots.txt is reused, in milliseconds
+     */
+    CACHE_TTL: 24 * 60 * 60 * 1000,
+
+    /**
+     * How long an unreachable robots.txt blocks the host before refetching, in milliseconds
+     */
+    ERROR_CACHE_TTL: 60 * 60 * 1000,
+
+    /**
+     * Timeout for robots.txt requests in milliseconds
+     */
+    FETCH_TIMEOUT: 10000,
+
+    /**
+     * Largest robots.txt body parsed, in bytes
+     */
+    MAX_SIZE: 500 * 1024,
+
+    /**
+     * Upper bound applied to Crawl-delay values, in seconds
+     */
+    MAX_CRAWL_DELAY: 120
+} as const;
+
+/**
+ * Settings for the Redis-backed rate limiter shared by all scraper workers
+ */
+export const DISTRIBUTED_RATE_LIMIT = {
+    /**
+     * Prefix for limiter state keys; the domain or institution key is hash-tagged after it
+     */
+    KEY_PREFIX: 'scraper:domainlimit:',
+
+    /**
+     * Strategy used when neither the job nor the engine configuration names one
+     */
+    DEFAULT_STRATEGY: 'token-bucket',
+
+    /**
+     * Longest a request waits for a permit before it is reported as rate limited, in milliseconds
+     */
+    MAX_WAIT: 60000,
+
+    /**
+     * How long idle limiter state is kept in Redis, in seconds
+     */
+    STATE_TTL: 60 * 60
+} as const;
+
+/**
+ * Settings for the proxy pool shared by scraper workers
+ */
+export const PROXY_POOL = {
+    /**
+     * Prefix for proxy stats and sticky session keys; a shared hash tag keeps every stats
+     * key in one cluster slot so the pool can be read in a single script
+     */
+    KEY_PREFIX: 'scraper:proxy:{pool}:',
+
+    /**
+     * How long a domain keeps the proxy it was assigned, in seconds, so sessions and
+     * cookies survive across requests
+     */
+    STICKY_SESSION_TTL: 30 * 60,
+
+    /**
+     * Consecutive failures after which a proxy is quarantined
+     */
+    QUARANTINE_AFTER_FAILURES: 3,
+
+    /**
+     * First quarantine length in seconds; each further failure before a success doubles it
+     */
+    QUARANTINE_BASE: 5 * 60,
+
+    /**
+     * Longest quarantine in seconds
+     */
+    QUARANTINE_MAX: 6 * 60 * 60,
+
+    /**
+     * Weight of the newest response time in the moving latency average
+     */
+    LATENCY_SMOOTHING: 0.2,
+
+    /**
+     * Responses that count against the proxy rather than the site: proxy authentication,
+     * and the blocks sites answer with when they reject the proxy's IP range
+     */
+    FAILURE_STATUS_CODES: [403, 407, 429],
+
+    /**
+     * How long stats of an unused proxy are kept in Redis, in seconds
+     */
+    STATS_TTL: 7 * 24 * 60 * 60
+} as const;
+
+/**
+ * Settings for inspecting and replaying dead-lettered scraper jobs
+ */
+export const DEAD_LETTER_CONFIG = {
+    /**
+     * Entries returned per page when listing the dead-letter queue
+     */
+    DEFAULT_PAGE_SIZE: 25,
+
+    /**
+     * Largest page size accepted when listing entries
+     */
+    MAX_PAGE_SIZE: 100,
+
+    /**
+     * Most entries a single bulk replay or purge request may name
+     */
+    MAX_BULK_SIZE: 100
+} as const;
+
+/**
+ * Thresholds for detecting selector drift from per-institution extraction yields
+ */
+export const SELECTOR_DRIFT = {
+    /**
+     * Selector fields whose yield is watched for drift
+     */
+    MONITORED_FIELDS: ['title', 'description'],
+
+    /**
+     * Previous runs the current yield is compared with
+     */
+    HISTORY_SIZE: 10,
+
+    /**
+     * Runs needed before a baseline is trusted
+     */
+    MIN_HISTORY: 3,
+
+    /**
+     * Flag a field when its yield falls below this share of the baseline
+     */
+    DROP_RATIO: 0.5,
+
+    /**
+     * Smallest baseline for which a partial drop is flagged; smaller baselines only flag
+     * when nothing matches at all
+     */
+    MIN_BASELINE_ITEMS: 4,
+
+    /**
+     * Replacement selectors proposed per drifted field
+     */
+    MAX_SUGGESTIONS: 3,
+
+    /**
+     * Largest last-good HTML snapshot stored, in characters
+     */
+    MAX_SNAPSHOT_SIZE: 1024 * 1024,
+
+    /**
+     * Timeout for fetching a page when testing selectors, in milliseconds
+     */
+    TEST_TIMEOUT: 15000,
+
+    /**
+     * Redirects followed when testing selectors; each target is checked before it is fetched
+     */
+    TEST_MAX_REDIRECTS: 5
+} as const;
+
+/**
+ * Raw page snapshot archive settings
+ */
+export const SNAPSHOT_ARCHIVE = {
+    /**
+     * Storage key prefix for archived snapshots, also used to scope their lifecycle rule
+     */
+    KEY_PREFIX: 'snapshots/',
+
+    /**
+     * Days an archived snapshot is kept before the lifecycle rule expires it
+     */
+    RETENTION_DAYS: 180,
+
+    /**
+     * Re-upload unchanged content once its stored copy is this old, so pages that never
+     * change are not expired while still being referenced
+     */
+    REFRESH_AFTER_DAYS: 30,
+
+    /**
+     * Largest response body archived, in bytes
+     */
+    MAX_BODY_SIZE: 25 * 1024 * 1024,
+
+    /**
+     * Response headers never written to the archive
+     */
+    EXCLUDED_HEADERS: ['set-cookie', 'cookie', 'authorization', 'proxy-authorization']
+} as const;
+
+/**
+ * Settings for replaying archived snapshots through the current parsers
+ */
+export const BACKFILL_CONFIG = {
+    /**
+     * Most snapshots a single backfill run replays
+     */
+    MAX_SNAPSHOTS: 5000,
+
+    /**
+     * Individual added, changed, removed and failed records kept on a run report;
+     * the summary counts always cover every record
+     */
+    MAX_REPORTED_CHANGES: 500
+} as const;
+
+/**
+ * Rolling health score computed per institution from its recent scrape runs
+ */
+export const RUN_HEALTH = {
+    /**
+     * Finished runs the score is computed over, newest first
+     */
+    WINDOW: 10,
+
+    /**
+     * Weight of each older run relative to the one after it, so recent runs count most
+     */
+    DECAY: 0.8,
+
+    /**
+     * Share of the score taken by run success, item yield against the institution's
+     * usual count, and attempts finishing without errors
+     */
+    WEIGHTS: {
+        reliability: 0.5,
+        yield: 0.3,
+        cleanliness: 0.2
+    },
+
+    /**
+     * Lowest score still reported as healthy
+     */
+    HEALTHY_SCORE: 80,
+
+    /**
+     * Lowest score reported as degraded; anything below is failing
+     */
+    DEGRADED_SCORE: 50,
+
+    /**
+     * Institutions without a finished run in this many days drop off the scorecard
+     */
+    SCORECARD_WINDOW_DAYS: 90,
+
+    /**
+     * Runs returned per page when listing run history
+     */
+    DEFAULT_PAGE_SIZE: 25,
+
+    /**
+     * Largest page size accepted when listing run history
+     */
+    MAX_PAGE_SIZE: 100
+} as const;
+
+/**
+ * Settings for withdrawing technologies that disappear from their institution's site
+ */
+export const WITHDRAWAL = {
+    /**
+     * Consecutive completed runs a technology may be missing from before it is withdrawn
+     */
+    MISSED_RUNS: parseInt(process.env.WITHDRAWAL_MISSED_RUNS || '3', 10),
+
+    /**
+     * Detail page responses that withdraw a missing technology without waiting for more runs
+     */
+    GONE_STATUS_CODES: [404, 410],
+
+    /**
+     * Timeout for checking a missing technology's detail page in milliseconds
+     */
+    CHECK_TIMEOUT: 10000,
+
+    /**
+     * Most detail pages checked after a single run; the rest wait for later runs
+     */
+    MAX_CHECKS_PER_RUN: 50,
+
+    /**
+     * Share of the previous completed run's item count a run must find to be reconciled.
+     * A sharper drop points at a broken listing rather than delisted technologies.
+     */
+    MIN_FOUND_RATIO: 0.5
+} as const;
+
+/**
+ * Settings for reading technology fields from embedded JSON-LD, microdata and OpenGraph
+ */
+export const STRUCTURED_DATA = {
+    /**
+     * Source order used to pick each field's value when none is configured
+     */
+    DEFAULT_PRECEDENCE: ['selectors', 'jsonLd', 'microdata', 'openGraph'],
+
+    /**
+     * schema.org types that describe the site or its people rather than a technology
+     */
+    IGNORED_TYPES: [
+        'Organization', 'CollegeOrUniversity', 'Person', 'WebSite', 'BreadcrumbList', 'ListItem',
+        'ItemList', 'SearchAction', 'SiteNavigationElement', 'ImageObject', 'Place', 'PostalAddress'
+    ],
+
+    /**
+     * schema.org page types used only when no more specific item describes the technology
+     */
+    PAGE_TYPES: ['WebPage', 'ItemPage', 'CollectionPage', 'AboutPage']
+} as const;
+
+/**
+ * Settings for segmenting technology one-pager PDFs into sections, patents, contacts
+ * and tables
+ */
+export const PDF_STRUCTURE = {
+    /**
+     * Heading wordings recognized for each section, compared lower-cased without punctuation
+     */
+    SECTION_HEADINGS: {
+        summary: [
+            'summary', 'abstract', 'executive summary', 'overview', 'technology overview',
+            'description', 'technology', 'technology description', 'invention', 'the invention',
+            'brief description', 'opportunity'
+        ],
+        background: ['background', 'problem', 'the problem', 'unmet need', 'need', 'challenge'],
+        advantages: [
+            'advantages', 'key advantages', 'benefits', 'key benefits', 'features',
+            'key features', 'features and benefits', 'advantages and benefits'
+        ],
+        applications: [
+            'applications', 'potential applications', 'market applications', 'uses',
+            'commercial applications', 'market opportunity'
+        ],
+        ipStatus: [
+            'ip status', 'intellectual property', 'intellectual property status', 'patent status',
+            'patents', 'patent information', 'ip', 'publications and patents'
+        ],
+        development: ['stage of development', 'development stage', 'development status'],
+        inventors: ['inventors', 'inventor', 'researchers', 'lead inventor', 'lead researcher'],
+        contact: [
+            'contact', 'contacts', 'contact information', 'for more information',
+            'licensing contact', 'licensing manager', 'for licensing information'
+        ]
+    },
+
+    /**
+     * Section keys tried in order for the technology description; 'other' holds the untitled
+     * text below the title and sections under unrecognized headings
+     */
+    DESCRIPTION_SECTIONS: ['summary', 'other', 'background', 'applications'],
+
+    /**
+     * Lines longer than this many words are never treated as formatted headings
+     */
+    MAX_HEADING_WORDS: 8,
+
+    /**
+     * Font size, relative to body text, from which a short line counts as a heading
+     */
+    HEADING_SIZE_RATIO: 1.15,
+
+    /**
+     * Vertical distance, in pdf2json page units, within which text runs share a line
+     */
+    LINE_TOLERANCE: 0.25,
+
+    /**
+     * Horizontal gap, in pdf2json page units, that separates two table cells
+     */
+    CELL_GAP: 1.2,
+
+    /**
+     * Horizontal distance, in pdf2json page units, within which cells share a column
+     */
+    COLUMN_TOLERANCE: 0.8,
+
+    /**
+     * Average character width as a fraction of the font size, used to estimate run widths
+     */
+    CHAR_WIDTH_EM: 0.5,
+
+    /**
+     * PDF points per pdf2json page unit
+     */
+    POINTS_PER_UNIT: 16,
+
+    /**
+     * Fewest rows, header included, that make an aligned block a table
+     */
+    MIN_TABLE_ROWS: 2
+} as const;
+
+/**
+ * Patent and application number formats recognized in scraped text, and the phrases that
+ * reveal an IP status when no number is given
+ */
+export const PATENT_NUMBERS = {
+    /**
+     * US grants, US publications and serials, PCT applications, and WO and EP publications
+     */
+    PATTERNS: [
+        /\bU\.?S\.?\s*(?:Pat(?:ent)?\.?\s*)?(?:No\.?\s*|Number\s*)?\d{1,2},?\d{3},?\d{3}(?:\s*[AB][12])?\b/gi,
+        /\bUS\s*20\d{2}\s*\/?\s*\d{7}(?:\s*A[129])?\b/gi,
+        /\b(?:U\.?S\.?\s*)?(?:Patent\s+)?(?:Application|Appl\.?)\s*(?:Serial\s*)?(?:No\.?|Number)?\s*\d{2}\/\d{3},?\d{3}\b/gi,
+        /\bPCT\s*\/?\s*[A-Z]{2}\s*\d{2,4}\s*\/\s*\d{5,6}\b/gi,
+        /\bWO\s*\d{4}\s*\/?\s*\d{5,6}(?:\s*A\d)?\b/gi,
+        /\bEP\s*\d(?:\s?\d{3}){2}(?:\s*[AB]\d)?\b/gi
+    ],
+
+    /**
+     * Phrases that mark a technology as patented when no grant number is listed
+     */
+    GRANTED_PHRASES: /\b(?:patent(?:s)?\s+(?:issued|granted)|issued\s+(?:us\s+)?patents?|granted\s+patents?)\b/i,
+
+    /**
+     * Phrases that mark protection as applied for but not granted
+     */
+    PENDING_PHRASES: /\b(?:patent[-\s]+pending|patents?\s+(?:applied\s+for|filed)|provisional\s+(?:patent\s+)?application|pct\s+application|application\s+(?:has\s+been\s+)?filed)\b/i,
+
+    /**
+     * Wording that puts a number in a description in IP context, such as "Patent No." or
+     * "U.S. Application" lead-ins or "protected by"
+     */
+    IP_CONTEXT: /\b(?:patent(?:s|ed)?|pat|pct|protected|intellectual\s+property|ip|issued|filed|licens(?:e|ed|ing)|application\s+(?:serial\s+)?(?:no|number))\b/i,
+
+    /**
+     * Wording that marks a sentence as citing prior art or related work rather than the
+     * technology's own protection
+     */
+    PRIOR_ART_CONTEXT: /\b(?:prior\s+art|improves?\s+(?:on|upon)|builds?\s+(?:on|upon)|unlike|compared\s+(?:to|with)|see\s+also|(?:described|disclosed|taught|cited)\s+in|known\s+from|conventional)\b/i
+} as const;
+
+/**
+ * IP status of a technology derived from its patent numbers and description
+ */
+export const PATENT_STATUSES = {
+    GRANTED: 'granted',
+    PENDING: 'pending',
+    UNKNOWN: 'unknown'
+} as const;
+
+/**
+ * Why a technology was withdrawn from the catalog
+ */
+export const WITHDRAWAL_REASONS = {
+    NOT_SEEN: 'not_seen',
+    PAGE_GONE: 'page_gone'
+} as const;
+
+/**
+ * Roles a person can hold on a technology
+ */
+export const PERSON_ROLES = {
+    INVENTOR: 'inventor',
+    LICENSING_CONTACT: 'licensing_contact'
+} as const;
+
+/**
+ * Licensing portal products shared by many institutions. Each lists the hosts it serves
+ * pages from, markup patterns that identify it on self-hosted domains, and the field and
+ * navigation selectors its pages use.
+ */
+export const PORTAL_VENDORS = {
+    INTEUM: {
+        /**
+         * Display name of the portal product
+         */
+        NAME: 'Inteum Sophia',
+
+        /**
+         * Hosts the vendor serves portal pages from
+         */
+        HOST_PATTERN: /(^|\.)inteum\.com$/i,
+
+        /**
+         * Markup patterns identifying the portal on any host
+         */
+        MARKERS: {
+            powered_by: /powered\s+by\s+(<[^>]+>\s*)*inteum/i,
+            inteum_asset: /<(?:script|link)[^>]+(?:src|href)=["'][^"']*inteum[^"']*["']/i,
+            sophia_markup: /class=["'][^"']*\bsophia-(?:technology|results|portal)/i
+        },
+
+        /**
+         * Default field, detail link and pagination selectors
+         */
+        SELECTORS: {
+            title: '.sophia-technology-title, .technology-header h1',
+            description: '.sophia-technology-description, .technology-abstract',
+            inventors: '.sophia-inventors li, .technology-inventors li',
+            patentNumbers: '.sophia-patents .patent-number, .technology-patents .patent-number',
+            categories: '.sophia-categories a, .technology-categories a',
+            links: '.sophia-results a.technology-link, .technology-list a.technology-title-link',
+            pagination: '.sophia-pagination a.next, .pagination a[rel="next"]'
+        }
+    },
+
+    FLINTBOX: {
+        NAME: 'Wellspring Flintbox',
+        HOST_PATTERN: /(^|\.)flintbox\.com$/i,
+        MARKERS: {
+            powered_by: /powered\s+by\s+(<[^>]+>\s*)*(wellspring\s+)?flintbox/i,
+            flintbox_asset: /<(?:script|link)[^>]+(?:src|href)=["'][^"']*flintbox\.com[^"']*["']/i,
+            flintbox_app: /id=["']flintbox[-_]app["']|data-flintbox-/i
+        },
+        SELECTORS: {
+            title: '.technology-title, h1.listing-title',
+            description: '.technology-abstract, .listing-description',
+            inventors: '.technology-researchers li, .researchers .researcher-name',
+            patentNumbers: '.technology-ip .patent-number',
+            categories: '.technology-tags a, .listing-tags .tag',
+            links: 'a.technology-card-link, .listing-card a[href*="/technologies/"]',
+            pagination: '.pagination .next a, a[rel="next"]'
+        }
+    },
+
+    TECHPUBLISHER: {
+        NAME: 'Technology Publisher',
+        HOST_PATTERN: /(^|\.)technologypublisher\.com$/i,
+        MARKERS: {
+            powered_by: /powered\s+by\s+(<[^>]+>\s*)*technology\s*publisher/i,
+            techpub_form: /id=["']formTechPub\d*["']/i,
+            techpub_asset: /technologypublisher\.com\/(?:files|scripts|css|images)\//i
+        },
+        SELECTORS: {
+            title: '#formTechPub1 h1, .tech-title h1',
+            description: '#formTechPub1 .description, #formTechPub1 #description',
+            inventors: '#formTechPub1 .inventors a, #formTechPub1 .inventor-list li',
+            patentNumbers: '#formTechPub1 .patents td.patent-number',
+            categories: '#formTechPub1 .categories a',
+            links: '#formTechPub1 a[href*="/technology/"]',
+            pagination: '#formTechPub1 a.next, .pagination a[rel="next"]'
+        }
+    },
+
+    FLC: {
+        NAME: 'Federal Labs Consortium',
+        HOST_PATTERN: /(^|\.)federallabs\.org$/i,
+        MARKERS: {
+            site_name: /Federal\s+Laboratory\s+Consortium/i,
+            flc_asset: /federallabs\.org\/(?:sites|themes)\//i
+        },
+        SELECTORS: {
+            title: 'h1.page-title, .field--name-title',
+            description: '.field--name-body, .field--name-field-description',
+            inventors: '.field--name-field-inventors .field__item',
+            patentNumbers: '.field--name-field-patent-number .field__item',
+            categories: '.field--name-field-technology-areas a',
+            links: '.view-content .views-row h3 a, .views-field-title a',
+            pagination: '.pager__item--next a'
+        }
+    }
+} as const;
+
+/**
+ * Scoring for identifying a page's licensing portal vendor
+ */
+export const VENDOR_DETECTION = {
+    /**
+     * Score for a page served from one of the vendor's own hosts
+     */
+    HOST_SCORE: 3,
+
+    /**
+     * Score for each of the vendor's markup patterns found on the page
+     */
+    MARKER_SCORE: 1,
+
+    /**
+     * Score a vendor needs before a page is attributed to it
+     */
+    MIN_SCORE: 2
+} as const;
+
 /**
  * Type definitions for error handling configurations
  */
 export type ErrorType = keyof typeof ERROR_TYPES;
 export type ScraperEngine = keyof typeof SCRAPER_ENGINES;
 export type InstitutionType = keyof Omit<typeof SCRAPER_RATE_LIMITS, 'DEFAULT'>;
+export type PortalVendor = keyof typeof PORTAL_VENDORS;
+export type PatentStatus = typeof PATENT_STATUSES[keyof typeof PATENT_STATUSES];
+export type PersonRole = typeof PERSON_ROLES[keyof typeof PERSON_ROLES];
+export type WithdrawalReason = typeof WITHDRAWAL_REASONS[keyof typeof WITHDRAWAL_REASONS];
 
 /**
  * Freeze objects to prevent runtime modifications
  */
 Object.freeze(SCRAPER_RATE_LIMITS);
-Object.freeze(RETRY_CONFIG);
\ No newline at end of file
+Object.freeze(RETRY_CONFIG);
+Object.freeze(ENGINE_SELECTION);
+Object.freeze(CRAWL_DEFAULTS);
+Object.freeze(SCHEDULER_CONFIG);
+Object.freeze(ROBOTS_CONFIG);
+Object.freeze(DISTRIBUTED_RATE_LIMIT);
+Object.freeze(PROXY_POOL);
+Object.freeze(DEAD_LETTER_CONFIG);
+Object.freeze(SELECTOR_DRIFT);
+Object.freeze(SNAPSHOT_ARCHIVE);
+Object.freeze(BACKFILL_CONFIG);
+Object.freeze(RUN_HEALTH);
+Object.freeze(WITHDRAWAL);
+Object.freeze(STRUCTURED_DATA);
+Object.freeze(PDF_STRUCTURE);
+Object.freeze(PATENT_NUMBERS);
+Object.freeze(PATENT_STATUSES);
+Object.freeze(PERSON_ROLES);
+Object.freeze(WITHDRAWAL_REASONS);
+Object.freeze(PORTAL_VENDORS);
+Object.freeze(VENDOR_DETECTION);
\ No newline at end of file
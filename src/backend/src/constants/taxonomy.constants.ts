@@ -0,0 +1,295 @@
+/**
+ * @fileoverview Controlled technology taxonomy and the settings used to classify scraped
+ * technologies into it. Each category lists the keywords and phrases that place a technology
+ * in it; subcategories refine their parent and count towards it.
+ * @version 1.0.0
+ */
+
+/**
+ * Two-level technology taxonomy. Keys form taxonomy ids, e.g. "therapeutics.small_molecules".
+ * Keywords match whole words case-insensitively, with an optional plural "s".
+ */
+export const TECHNOLOGY_TAXONOMY = {
+    therapeutics: {
+        LABEL: 'Therapeutics',
+        KEYWORDS: ['therapeutic', 'therapy', 'treatment', 'drug', 'pharmaceutical', 'disease', 'patient', 'clinical'],
+        CHILDREN: {
+            small_molecules: {
+                LABEL: 'Small Molecules',
+                KEYWORDS: ['small molecule', 'compound', 'inhibitor', 'agonist', 'antagonist', 'analog', 'medicinal chemistry', 'lead compound']
+            },
+            biologics: {
+                LABEL: 'Biologics',
+                KEYWORDS: ['antibody', 'monoclonal', 'protein therapeutic', 'peptide', 'biologic', 'fusion protein', 'nanobody']
+            },
+            gene_cell_therapy: {
+                LABEL: 'Gene & Cell Therapy',
+                KEYWORDS: ['gene therapy', 'cell therapy', 'car-t', 'crispr', 'aav', 'viral vector', 'gene editing', 'stem cell']
+            },
+            vaccines: {
+                LABEL: 'Vaccines',
+                KEYWORDS: ['vaccine', 'immunization', 'adjuvant', 'antigen', 'mrna vaccine']
+            },
+            drug_delivery: {
+                LABEL: 'Drug Delivery',
+                KEYWORDS: ['drug delivery', 'nanoparticle delivery', 'controlled release', 'formulation', 'liposome', 'transdermal']
+            }
+        }
+    },
+    diagnostics: {
+        LABEL: 'Diagnostics',
+        KEYWORDS: ['diagnostic', 'diagnosis', 'detection', 'screening', 'prognosis'],
+        CHILDREN: {
+            biomarkers: {
+                LABEL: 'Biomarkers & Assays',
+                KEYWORDS: ['biomarker', 'assay', 'immunoassay', 'pcr', 'sequencing', 'liquid biopsy', 'point-of-care']
+            },
+            imaging: {
+                LABEL: 'Imaging',
+                KEYWORDS: ['imaging', 'mri', 'ultrasound', 'tomography', 'x-ray', 'contrast agent', 'pet scan', 'microscopy']
+            }
+        }
+    },
+    medical_devices: {
+        LABEL: 'Medical Devices',
+        KEYWORDS: ['medical device', 'device', 'medical instrument', 'clinician'],
+        CHILDREN: {
+            surgical: {
+                LABEL: 'Surgical Tools',
+                KEYWORDS: ['surgical', 'surgery', 'minimally invasive', 'endoscope', 'laparoscopic', 'suture', 'stent', 'catheter']
+            },
+            implants: {
+                LABEL: 'Implants & Prosthetics',
+                KEYWORDS: ['implant', 'implantable', 'prosthesis', 'prosthetic', 'orthopedic', 'scaffold', 'tissue engineering']
+            },
+            monitoring: {
+                LABEL: 'Patient Monitoring',
+                KEYWORDS: ['wearable', 'patient monitoring', 'vital signs', 'ecg', 'glucose monitor', 'telemedicine']
+            }
+        }
+    },
+    research_tools: {
+        LABEL: 'Research Tools',
+        KEYWORDS: ['research tool', 'laboratory', 'research use', 'in vitro'],
+        CHILDREN: {
+            reagents: {
+                LABEL: 'Reagents & Cell Lines',
+                KEYWORDS: ['reagent', 'cell line', 'plasmid', 'antibody reagent', 'probe', 'kit']
+            },
+            animal_models: {
+                LABEL: 'Animal Models',
+                KEYWORDS: ['mouse model', 'animal model', 'transgenic', 'knockout mouse', 'zebrafish']
+            }
+        }
+    },
+    energy: {
+        LABEL: 'Energy',
+        KEYWORDS: ['energy', 'power', 'electricity', 'renewable'],
+        CHILDREN: {
+            storage: {
+                LABEL: 'Storage',
+                KEYWORDS: ['battery', 'batteries', 'lithium', 'electrolyte', 'anode', 'cathode', 'supercapacitor', 'energy storage']
+            },
+            solar: {
+                LABEL: 'Solar',
+                KEYWORDS: ['solar', 'photovoltaic', 'perovskite', 'solar cell']
+            },
+            fuels: {
+                LABEL: 'Fuels & Hydrogen',
+                KEYWORDS: ['fuel', 'biofuel', 'hydrogen', 'fuel cell', 'combustion', 'electrolysis']
+            },
+            grid: {
+                LABEL: 'Grid & Power Electronics',
+                KEYWORDS: ['power grid', 'smart grid', 'inverter', 'power electronics', 'transmission line', 'wind turbine']
+            }
+        }
+    },
+    materials: {
+        LABEL: 'Materials',
+        KEYWORDS: ['material', 'composite', 'alloy', 'ceramic'],
+        CHILDREN: {
+            polymers: {
+                LABEL: 'Polymers',
+                KEYWORDS: ['polymer', 'plastic', 'hydrogel', 'elastomer', 'resin', 'biodegradable']
+            },
+            nanomaterials: {
+                LABEL: 'Nanomaterials',
+                KEYWORDS: ['nanomaterial', 'nanoparticle', 'graphene', 'nanotube', 'quantum dot', 'nanostructure']
+            },
+            coatings: {
+                LABEL: 'Coatings & Surfaces',
+                KEYWORDS: ['coating', 'surface treatment', 'thin film', 'corrosion', 'adhesive']
+            }
+        }
+    },
+    computing: {
+        LABEL: 'Computing & Software',
+        KEYWORDS: ['algorithm', 'computing', 'computer', 'data', 'digital'],
+        CHILDREN: {
+            ai_ml: {
+                LABEL: 'AI & Machine Learning',
+                KEYWORDS: ['machine learning', 'artificial intelligence', 'neural network', 'deep learning', 'computer vision', 'natural language processing']
+            },
+            security: {
+                LABEL: 'Cybersecurity',
+                KEYWORDS: ['cybersecurity', 'encryption', 'cryptography', 'authentication', 'malware', 'privacy']
+            },
+            quantum: {
+                LABEL: 'Quantum',
+                KEYWORDS: ['quantum computing', 'qubit', 'quantum', 'quantum communication']
+            },
+            software_systems: {
+                LABEL: 'Software & Systems',
+                KEYWORDS: ['software', 'database', 'cloud', 'mobile app', 'blockchain']
+            }
+        }
+    },
+    electronics: {
+        LABEL: 'Electronics & Photonics',
+        KEYWORDS: ['electronic', 'electronics', 'circuit', 'optical'],
+        CHILDREN: {
+            semiconductors: {
+                LABEL: 'Semiconductors',
+                KEYWORDS: ['semiconductor', 'transistor', 'integrated circuit', 'chip', 'microelectronics', 'wafer']
+            },
+            sensors: {
+                LABEL: 'Sensors',
+                KEYWORDS: ['sensor', 'sensing', 'detector', 'mems', 'lidar']
+            },
+            photonics: {
+                LABEL: 'Photonics & Optics',
+                KEYWORDS: ['photonic', 'laser', 'optical fiber', 'lens', 'waveguide', 'metamaterial']
+            },
+            communications: {
+                LABEL: 'Communications',
+                KEYWORDS: ['wireless', 'antenna', '5g', 'radio frequency', 'telecommunication', 'network protocol']
+            }
+        }
+    },
+    agriculture: {
+        LABEL: 'Agriculture & Food',
+        KEYWORDS: ['agriculture', 'agricultural', 'farm', 'food'],
+        CHILDREN: {
+            crops: {
+                LABEL: 'Crops & Plants',
+                KEYWORDS: ['crop', 'plant', 'seed', 'yield', 'pesticide', 'fertilizer', 'soil']
+            },
+            animal_health: {
+                LABEL: 'Animal Health',
+                KEYWORDS: ['veterinary', 'livestock', 'poultry', 'aquaculture', 'animal health']
+            },
+            food_science: {
+                LABEL: 'Food Science',
+                KEYWORDS: ['food safety', 'food processing', 'nutrition', 'beverage', 'shelf life']
+            }
+        }
+    },
+    environment: {
+        LABEL: 'Environment',
+        KEYWORDS: ['environmental', 'pollution', 'sustainability', 'climate'],
+        CHILDREN: {
+            water: {
+                LABEL: 'Water',
+                KEYWORDS: ['water treatment', 'desalination', 'wastewater', 'filtration', 'membrane', 'drinking water']
+            },
+            carbon: {
+                LABEL: 'Carbon Capture',
+                KEYWORDS: ['carbon capture', 'co2', 'carbon dioxide', 'sequestration', 'greenhouse gas']
+            },
+            remediation: {
+                LABEL: 'Remediation & Recycling',
+                KEYWORDS: ['remediation', 'recycling', 'waste', 'contaminant', 'upcycling']
+            }
+        }
+    },
+    engineering: {
+        LABEL: 'Engineering & Manufacturing',
+        KEYWORDS: ['manufacturing', 'engineering', 'industrial', 'mechanical'],
+        CHILDREN: {
+            additive: {
+                LABEL: 'Additive Manufacturing',
+                KEYWORDS: ['3d printing', 'additive manufacturing', 'printed', 'printer']
+            },
+            robotics: {
+                LABEL: 'Robotics & Automation',
+                KEYWORDS: ['robot', 'robotic', 'automation', 'drone', 'autonomous', 'actuator']
+            },
+            transportation: {
+                LABEL: 'Transportation',
+                KEYWORDS: ['vehicle', 'automotive', 'aerospace', 'aircraft', 'engine', 'electric vehicle']
+            }
+        }
+    }
+} as const;
+
+/**
+ * Settings for classifying technologies into the taxonomy
+ */
+export const CLASSIFICATION_CONFIG = {
+    /**
+     * Taxonomy id and label given to technologies no rule or model could place
+     */
+    UNCLASSIFIED: {
+        ID: 'unclassified',
+        LABEL: 'Unclassified'
+    },
+
+    /**
+     * Weight of a keyword found in the title, relative to one found in the description
+     */
+    TITLE_WEIGHT: 3,
+
+    /**
+     * Weight of a keyword found in the category the source site assigned
+     */
+    SOURCE_CATEGORY_WEIGHT: 4,
+
+    /**
+     * Score a category needs from keyword rules before a technology is placed in it
+     */
+    MIN_RULE_SCORE: 3,
+
+    /**
+     * Score a subcategory needs from keyword rules before a technology is placed in it
+     */
+    MIN_SUBCATEGORY_SCORE: 1,
+
+    /**
+     * Probability the local model must assign before its prediction is used
+     */
+    MIN_MODEL_CONFIDENCE: 0.6,
+
+    /**
+     * Technologies loaded per page while a batch job re-classifies the catalog
+     */
+    BATCH_SIZE: 200,
+
+    /**
+     * Individual re-classifications kept on a batch run report; the summary counts always
+     * cover every technology
+     */
+    MAX_REPORTED_CHANGES: 500
+} as const;
+
+/**
+ * How a technology's taxonomy placement was decided
+ */
+export const CLASSIFICATION_SOURCES = {
+    RULES: 'rules',
+    MODEL: 'model',
+    MANUAL: 'manual',
+    NONE: 'none'
+} as const;
+
+/**
+ * Type definitions for the taxonomy
+ */
+export type TaxonomyCategoryKey = keyof typeof TECHNOLOGY_TAXONOMY;
+export type ClassificationSource = typeof CLASSIFICATION_SOURCES[keyof typeof CLASSIFICATION_SOURCES];
+
+/**
+ * Freeze objects to prevent runtime modifications
+ */
+Object.freeze(TECHNOLOGY_TAXONOMY);
+Object.freeze(CLASSIFICATION_CONFIG);
+Object.freeze(CLASSIFICATION_SOURCES);
\ No newline at end of file
@@ -0,0 +1,97 @@
+/**
+ * @fileoverview Settings for translating international technologies into English and the
+ * languages the adapters detect, with the Elasticsearch analyzer used for each
+ * @version 1.0.0
+ */
+
+/**
+ * Translation stage configuration
+ */
+export const TRANSLATION_CONFIG = {
+    /**
+     * Language analysts search in; technologies already in it are not translated
+     */
+    TARGET_LANGUAGE: 'en',
+
+    /**
+     * Technology fields translated and stored next to the original text
+     */
+    FIELDS: ['title', 'description'],
+
+    /**
+     * Longest text sent to a provider per field; longer descriptions are cut at a word boundary
+     */
+    MAX_FIELD_LENGTH: 5000,
+
+    /**
+     * Provider request timeout in milliseconds
+     */
+    REQUEST_TIMEOUT: 15000,
+
+    /**
+     * Shortest text whose language is detected when the page did not declare one
+     */
+    DETECTION_MIN_LENGTH: 20,
+
+    /**
+     * Lowest trigram match score accepted as a detected language
+     */
+    DETECTION_MIN_SCORE: 0.2,
+
+    /**
+     * Share of letters in CJK scripts above which text is taken to be Chinese, Japanese or Korean
+     */
+    DETECTION_CJK_RATIO: 0.3
+} as const;
+
+/**
+ * Translation providers selectable with TRANSLATION_PROVIDER
+ */
+export const TRANSLATION_PROVIDERS = {
+    LOCAL: 'local',
+    LIBRETRANSLATE: 'libretranslate'
+} as const;
+
+/**
+ * Display names of the languages the international adapter detects, keyed by ISO 639-1 code
+ */
+export const LANGUAGE_NAMES = {
+    en: 'English',
+    de: 'German',
+    fr: 'French',
+    es: 'Spanish',
+    it: 'Italian',
+    ja: 'Japanese',
+    zh: 'Chinese',
+    ko: 'Korean'
+} as const;
+
+/**
+ * Elasticsearch analyzer applied to original text in each language. CJK text has no word
+ * separators, so it is indexed with bigrams instead of a stemmer.
+ */
+export const LANGUAGE_ANALYZERS = {
+    en: 'english',
+    de: 'german',
+    fr: 'french',
+    es: 'spanish',
+    it: 'italian',
+    ja: 'cjk',
+    zh: 'cjk',
+    ko: 'cjk'
+} as const;
+
+/**
+ * Type definitions for translation
+ */
+export type TranslatedField = typeof TRANSLATION_CONFIG.FIELDS[number];
+export type TranslationProviderName = typeof TRANSLATION_PROVIDERS[keyof typeof TRANSLATION_PROVIDERS];
+export type LanguageCode = keyof typeof LANGUAGE_NAMES;
+
+/**
+ * Freeze objects to prevent runtime modifications
+ */
+Object.freeze(TRANSLATION_CONFIG);
+Object.freeze(TRANSLATION_PROVIDERS);
+Object.freeze(LANGUAGE_NAMES);
+Object.freeze(LANGUAGE_ANALYZERS);
\ No newline at end of file
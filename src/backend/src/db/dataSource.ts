@@ -0,0 +1,53 @@
+/**
+ * @fileoverview TypeORM data source for the PostgreSQL tables behind the technology catalog,
+ * its search index queue and saved searches. Connects once, on first use.
+ * @version 1.0.0
+ */
+
+import { DataSource } from 'typeorm'; // ^0.3.0
+import { postgresConfig } from '../config/database.config';
+import { Technology } from './models/technology.model';
+import { TechnologyChange } from './models/technologyChange.model';
+import { Person } from './models/person.model';
+import { TechnologyPerson } from './models/technologyPerson.model';
+import { SearchIndexEntry } from './models/searchIndexEntry.model';
+import { SavedSearchRecord } from './models/savedSearch.model';
+import { NotificationRecord } from './models/notification.model';
+
+export const dataSource = new DataSource({
+  type: 'postgres',
+  host: postgresConfig.host,
+  port: postgresConfig.port,
+  database: postgresConfig.database,
+  username: postgresConfig.username,
+  password: postgresConfig.password,
+  ssl: postgresConfig.ssl,
+  poolSize: postgresConfig.maxConnections,
+  connectTimeoutMS: postgresConfig.connectionTimeout,
+  entities: [
+    Technology,
+    TechnologyChange,
+    Person,
+    TechnologyPerson,
+    SearchIndexEntry,
+    SavedSearchRecord,
+    NotificationRecord
+  ],
+  migrations: [`${__dirname}/migrations/*.{ts,js}`]
+});
+
+let connecting: Promise<DataSource> | null = null;
+
+/**
+ * Returns the data source, connecting it first if needed. A failed connection is retried on
+ * the next call.
+ */
+export function getDataSource(): Promise<DataSource> {
+  if (!connecting) {
+    connecting = dataSource.initialize().catch(error => {
+      connecting = null;
+      throw error;
+    });
+  }
+  return connecting;
+}
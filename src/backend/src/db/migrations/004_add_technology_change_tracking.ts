@@ -0,0 +1,88 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddTechnologyChangeTracking1677123456792 implements MigrationInterface {
+    name = 'AddTechnologyChangeTracking1677123456792';
+
+    /**
+     * Adds canonical identity and content hash columns to technologies and creates the
+     * technology_changes log. Existing rows keep a NULL canonical_url and are adopted
+     * by URL the next time they are re-scraped.
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are applied
+     */
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "technologies"
+                ADD COLUMN IF NOT EXISTS "canonical_url" varchar,
+                ADD COLUMN IF NOT EXISTS "fingerprint" varchar(40),
+                ADD COLUMN IF NOT EXISTS "content_hash" varchar(64),
+                ADD COLUMN IF NOT EXISTS "content_changed_at" timestamptz,
+                ADD COLUMN IF NOT EXISTS "last_seen_at" timestamptz;
+        `);
+
+        // Unique identity per institution; partial so legacy rows without a canonical URL are allowed
+        await queryRunner.query(`
+            CREATE UNIQUE INDEX IF NOT EXISTS "idx_tech_institution_canonical_url"
+            ON "technologies" USING btree ("institution", "canonical_url")
+            WHERE "canonical_url" IS NOT NULL;
+        `);
+
+        // Fallback identity lookup for sites that change URLs
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_tech_institution_fingerprint"
+            ON "technologies" USING btree ("institution", "fingerprint");
+        `);
+
+        // B-tree index for "updated this week" queries
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_tech_content_changed_btree"
+            ON "technologies" USING btree ("content_changed_at");
+        `);
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "technology_changes" (
+                "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+                "technology_id" uuid NOT NULL REFERENCES "technologies"("id") ON DELETE CASCADE,
+                "institution" varchar NOT NULL,
+                "change_type" varchar(20) NOT NULL CHECK ("change_type" IN ('created', 'updated')),
+                "changed_fields" jsonb NOT NULL DEFAULT '{}',
+                "previous_hash" varchar(64),
+                "content_hash" varchar(64) NOT NULL,
+                "job_id" varchar,
+                "detected_at" timestamptz NOT NULL DEFAULT now()
+            );
+        `);
+
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_tech_changes_technology_detected"
+            ON "technology_changes" USING btree ("technology_id", "detected_at");
+        `);
+
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_tech_changes_type_detected"
+            ON "technology_changes" USING btree ("change_type", "detected_at");
+        `);
+    }
+
+    /**
+     * Drops the change log and identity columns in reverse order
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are reverted
+     */
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "technology_changes";`);
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_tech_content_changed_btree";`);
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_tech_institution_fingerprint";`);
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_tech_institution_canonical_url";`);
+        await queryRunner.query(`
+            ALTER TABLE "technologies"
+                DROP COLUMN IF EXISTS "last_seen_at",
+                DROP COLUMN IF EXISTS "content_changed_at",
+                DROP COLUMN IF EXISTS "content_hash",
+                DROP COLUMN IF EXISTS "fingerprint",
+                DROP COLUMN IF EXISTS "canonical_url";
+        `);
+    }
+}
\ No newline at end of file
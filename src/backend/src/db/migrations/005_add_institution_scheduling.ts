@@ -0,0 +1,44 @@
+// TypeORM v0.3.0
+import { MigrationInterface, QueryRunner, TableColumn, TableIndex } from "typeorm";
+
+const MIGRATION_NAME = "AddInstitutionScheduling1677123456793";
+
+export class AddInstitutionScheduling implements MigrationInterface {
+    name = MIGRATION_NAME;
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        // Add columns backing recurring scrape scheduling
+        await queryRunner.addColumns("institutions", [
+            new TableColumn({
+                name: "metadata",
+                type: "jsonb",
+                isNullable: true,
+                comment: "Contact details and refresh interval captured in the configuration UI"
+            }),
+            new TableColumn({
+                name: "next_scheduled_scrape",
+                type: "timestamptz",
+                isNullable: true,
+                comment: "Next time the scheduler enqueues a scrape for this institution"
+            }),
+            new TableColumn({
+                name: "schedule_paused",
+                type: "boolean",
+                default: false,
+                comment: "Excludes the institution from scheduled scrapes while true"
+            })
+        ]);
+
+        // Create partial index for the scheduler's due-institution lookup
+        await queryRunner.createIndex("institutions", new TableIndex({
+            name: "IDX_institutions_next_scheduled_scrape",
+            columnNames: ["next_scheduled_scrape"],
+            where: "active = true AND schedule_paused = false"
+        }));
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropIndex("institutions", "IDX_institutions_next_scheduled_scrape");
+        await queryRunner.dropColumns("institutions", ["schedule_paused", "next_scheduled_scrape", "metadata"]);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,51 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddRobotsOverride1677123456794 implements MigrationInterface {
+    name = 'AddRobotsOverride1677123456794';
+
+    /**
+     * Adds the per-institution robots.txt override column and the audit table that
+     * records every change to it
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are applied
+     */
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "institutions"
+                ADD COLUMN IF NOT EXISTS "robots_override" jsonb;
+        `);
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "robots_override_audits" (
+                "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+                "institution_id" uuid NOT NULL REFERENCES "institutions"("id") ON DELETE CASCADE,
+                "action" varchar(20) NOT NULL CHECK ("action" IN ('set', 'cleared')),
+                "previous" jsonb,
+                "current" jsonb,
+                "reason" text NOT NULL,
+                "actor" varchar NOT NULL,
+                "created_at" timestamptz NOT NULL DEFAULT now()
+            );
+        `);
+
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_robots_override_audits_institution_created"
+            ON "robots_override_audits" USING btree ("institution_id", "created_at");
+        `);
+    }
+
+    /**
+     * Drops the audit table and override column
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are reverted
+     */
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "robots_override_audits";`);
+        await queryRunner.query(`
+            ALTER TABLE "institutions"
+                DROP COLUMN IF EXISTS "robots_override";
+        `);
+    }
+}
\ No newline at end of file
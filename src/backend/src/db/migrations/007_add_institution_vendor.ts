@@ -0,0 +1,40 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddInstitutionVendor1677123456795 implements MigrationInterface {
+    name = 'AddInstitutionVendor1677123456795';
+
+    /**
+     * Adds the licensing portal vendor column, set by an operator or detected from the
+     * institution's pages, whose default selectors fill gaps in the institution's own
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are applied
+     */
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "institutions"
+                ADD COLUMN IF NOT EXISTS "vendor" varchar(32)
+                CHECK ("vendor" IN ('INTEUM', 'FLINTBOX', 'TECHPUBLISHER', 'FLC'));
+        `);
+
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_institutions_vendor"
+            ON "institutions" USING btree ("vendor")
+            WHERE "vendor" IS NOT NULL;
+        `);
+    }
+
+    /**
+     * Drops the vendor column and its index
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are reverted
+     */
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_institutions_vendor";`);
+        await queryRunner.query(`
+            ALTER TABLE "institutions"
+                DROP COLUMN IF EXISTS "vendor";
+        `);
+    }
+}
\ No newline at end of file
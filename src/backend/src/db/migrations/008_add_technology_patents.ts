@@ -0,0 +1,59 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddTechnologyPatents1677123456796 implements MigrationInterface {
+    name = 'AddTechnologyPatents1677123456796';
+
+    /**
+     * Adds canonical patent numbers, the derived IP status and the patent family shared with
+     * technologies at other institutions. Existing rows start with no patents and an unknown
+     * status, and gain them the next time they are re-scraped or backfilled.
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are applied
+     */
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "technologies"
+                ADD COLUMN IF NOT EXISTS "patent_numbers" varchar[] NOT NULL DEFAULT '{}',
+                ADD COLUMN IF NOT EXISTS "patent_status" varchar(16) NOT NULL DEFAULT 'unknown'
+                    CHECK ("patent_status" IN ('granted', 'pending', 'unknown')),
+                ADD COLUMN IF NOT EXISTS "patent_family_id" uuid;
+        `);
+
+        // GIN index for "shares any patent number" lookups when linking families
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_tech_patent_numbers_gin"
+            ON "technologies" USING gin ("patent_numbers");
+        `);
+
+        // B-tree index for the IP status facet and filter
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_tech_patent_status"
+            ON "technologies" USING btree ("patent_status");
+        `);
+
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_tech_patent_family"
+            ON "technologies" USING btree ("patent_family_id")
+            WHERE "patent_family_id" IS NOT NULL;
+        `);
+    }
+
+    /**
+     * Drops the patent indexes and columns in reverse order
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are reverted
+     */
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_tech_patent_family";`);
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_tech_patent_status";`);
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_tech_patent_numbers_gin";`);
+        await queryRunner.query(`
+            ALTER TABLE "technologies"
+                DROP COLUMN IF EXISTS "patent_family_id",
+                DROP COLUMN IF EXISTS "patent_status",
+                DROP COLUMN IF EXISTS "patent_numbers";
+        `);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,78 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddPeople1677123456797 implements MigrationInterface {
+    name = 'AddPeople1677123456797';
+
+    /**
+     * Creates the people directory and the technology_people links recording who invented
+     * or handles licensing for each technology. Existing technologies gain their people the
+     * next time they are re-scraped or backfilled.
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are applied
+     */
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "people" (
+                "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+                "name" varchar NOT NULL,
+                "name_key" varchar NOT NULL,
+                "institution" varchar NOT NULL,
+                "email" varchar,
+                "phone" varchar,
+                "created_at" timestamptz NOT NULL DEFAULT now(),
+                "updated_at" timestamptz NOT NULL DEFAULT now()
+            );
+        `);
+
+        // One person per email address, wherever they are named
+        await queryRunner.query(`
+            CREATE UNIQUE INDEX IF NOT EXISTS "idx_people_email"
+            ON "people" USING btree ("email")
+            WHERE "email" IS NOT NULL;
+        `);
+
+        // Name matching within an institution for people without a known email
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_people_institution_name_key"
+            ON "people" USING btree ("institution", "name_key");
+        `);
+
+        // Prefix lookups for the people directory
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_people_name_key"
+            ON "people" USING btree ("name_key" varchar_pattern_ops);
+        `);
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "technology_people" (
+                "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+                "technology_id" uuid NOT NULL REFERENCES "technologies"("id") ON DELETE CASCADE,
+                "person_id" uuid NOT NULL REFERENCES "people"("id") ON DELETE CASCADE,
+                "role" varchar(20) NOT NULL CHECK ("role" IN ('inventor', 'licensing_contact'))
+            );
+        `);
+
+        await queryRunner.query(`
+            CREATE UNIQUE INDEX IF NOT EXISTS "idx_technology_people_link"
+            ON "technology_people" USING btree ("technology_id", "person_id", "role");
+        `);
+
+        // Technologies by inventor or licensing contact
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_technology_people_person_role"
+            ON "technology_people" USING btree ("person_id", "role");
+        `);
+    }
+
+    /**
+     * Drops the links and the people directory in reverse order
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are reverted
+     */
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TABLE IF EXISTS "technology_people";`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "people";`);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddTechnologyTaxonomy1677123456798 implements MigrationInterface {
+    name = 'AddTechnologyTaxonomy1677123456798';
+
+    /**
+     * Adds the controlled taxonomy placement of each technology and keeps the category the
+     * source site listed in its own column. Existing rows keep their scraped category until a
+     * classification run re-classifies the catalog.
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are applied
+     */
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "technologies"
+                ADD COLUMN IF NOT EXISTS "source_category" varchar,
+                ADD COLUMN IF NOT EXISTS "subcategory" varchar,
+                ADD COLUMN IF NOT EXISTS "taxonomy_id" varchar(64) NOT NULL DEFAULT 'unclassified',
+                ADD COLUMN IF NOT EXISTS "classification_source" varchar(16) NOT NULL DEFAULT 'none'
+                    CHECK ("classification_source" IN ('rules', 'model', 'manual', 'none')),
+                ADD COLUMN IF NOT EXISTS "classification_confidence" double precision,
+                ADD COLUMN IF NOT EXISTS "classified_by" varchar;
+        `);
+
+        await queryRunner.query(`
+            UPDATE "technologies"
+            SET "source_category" = NULLIF(TRIM("category"), '')
+            WHERE "source_category" IS NULL;
+        `);
+
+        // B-tree index for taxonomy subtree filters, e.g. "energy" and "energy.%"
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_tech_taxonomy_id"
+            ON "technologies" USING btree ("taxonomy_id" varchar_pattern_ops);
+        `);
+
+        // B-tree index for the subcategory facet and filter
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_tech_subcategory"
+            ON "technologies" USING btree ("subcategory")
+            WHERE "subcategory" IS NOT NULL;
+        `);
+    }
+
+    /**
+     * Restores the scraped category, then drops the taxonomy indexes and columns in
+     * reverse order
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are reverted
+     */
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            UPDATE "technologies"
+            SET "category" = COALESCE("source_category", '')
+            WHERE "classification_source" != 'none';
+        `);
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_tech_subcategory";`);
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_tech_taxonomy_id";`);
+        await queryRunner.query(`
+            ALTER TABLE "technologies"
+                DROP COLUMN IF EXISTS "classified_by",
+                DROP COLUMN IF EXISTS "classification_confidence",
+                DROP COLUMN IF EXISTS "classification_source",
+                DROP COLUMN IF EXISTS "taxonomy_id",
+                DROP COLUMN IF EXISTS "subcategory",
+                DROP COLUMN IF EXISTS "source_category";
+        `);
+    }
+}
\ No newline at end of file
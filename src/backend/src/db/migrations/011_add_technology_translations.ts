@@ -0,0 +1,50 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddTechnologyTranslations1677123456799 implements MigrationInterface {
+    name = 'AddTechnologyTranslations1677123456799';
+
+    /**
+     * Adds the detected language of each technology and the English translations of its
+     * title and description. Existing rows take their language from the scraped metadata and
+     * are translated the next time they are scraped.
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are applied
+     */
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "technologies"
+                ADD COLUMN IF NOT EXISTS "language" varchar(8),
+                ADD COLUMN IF NOT EXISTS "translations" jsonb;
+        `);
+
+        await queryRunner.query(`
+            UPDATE "technologies"
+            SET "language" = LOWER(SPLIT_PART(SPLIT_PART("metadata"->>'language', '-', 1), '_', 1))
+            WHERE "language" IS NULL
+                AND COALESCE("metadata"->>'language', '') != '';
+        `);
+
+        // B-tree index for language filters and for finding untranslated technologies
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_tech_language"
+            ON "technologies" USING btree ("language")
+            WHERE "language" IS NOT NULL;
+        `);
+    }
+
+    /**
+     * Drops the language index and the language and translation columns
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are reverted
+     */
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_tech_language";`);
+        await queryRunner.query(`
+            ALTER TABLE "technologies"
+                DROP COLUMN IF EXISTS "translations",
+                DROP COLUMN IF EXISTS "language";
+        `);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,71 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddTechnologyWithdrawal1677123456800 implements MigrationInterface {
+    name = 'AddTechnologyWithdrawal1677123456800';
+
+    /**
+     * Adds when and why a technology was withdrawn from the catalog, and the count of
+     * consecutive completed runs of its institution that did not list it. Technologies
+     * already marked inactive keep no withdrawal details, since nothing recorded why. The
+     * change log gains withdrawn and reinstated entries.
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are applied
+     */
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "technologies"
+                ADD COLUMN IF NOT EXISTS "withdrawn_at" timestamptz,
+                ADD COLUMN IF NOT EXISTS "withdrawn_reason" varchar(16),
+                ADD COLUMN IF NOT EXISTS "missed_runs" integer NOT NULL DEFAULT 0;
+        `);
+
+        // Withdrawals and reinstatements are recorded in the change log
+        await queryRunner.query(`
+            ALTER TABLE "technology_changes"
+                DROP CONSTRAINT IF EXISTS "technology_changes_change_type_check",
+                ADD CONSTRAINT "technology_changes_change_type_check"
+                    CHECK ("change_type" IN ('created', 'updated', 'withdrawn', 'reinstated'));
+        `);
+
+        // Partial index for reconciling an institution's active catalog after each run
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_tech_active_institution"
+            ON "technologies" USING btree ("institution", "missed_runs")
+            WHERE "active" = true;
+        `);
+
+        // B-tree index for listing recent withdrawals
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_tech_withdrawn_at"
+            ON "technologies" USING btree ("withdrawn_at" DESC)
+            WHERE "withdrawn_at" IS NOT NULL;
+        `);
+    }
+
+    /**
+     * Drops the withdrawal indexes and columns and the withdrawal change log entries
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are reverted
+     */
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_tech_withdrawn_at";`);
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_tech_active_institution";`);
+        await queryRunner.query(`
+            DELETE FROM "technology_changes" WHERE "change_type" IN ('withdrawn', 'reinstated');
+        `);
+        await queryRunner.query(`
+            ALTER TABLE "technology_changes"
+                DROP CONSTRAINT IF EXISTS "technology_changes_change_type_check",
+                ADD CONSTRAINT "technology_changes_change_type_check"
+                    CHECK ("change_type" IN ('created', 'updated'));
+        `);
+        await queryRunner.query(`
+            ALTER TABLE "technologies"
+                DROP COLUMN IF EXISTS "missed_runs",
+                DROP COLUMN IF EXISTS "withdrawn_reason",
+                DROP COLUMN IF EXISTS "withdrawn_at";
+        `);
+    }
+}
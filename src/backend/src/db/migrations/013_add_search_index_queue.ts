@@ -0,0 +1,138 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddSearchIndexQueue1677123456801 implements MigrationInterface {
+    name = 'AddSearchIndexQueue1677123456801';
+
+    /**
+     * Creates the queue of technologies waiting to be written to the search index, and the
+     * triggers that fill it. A technology holds at most one queue entry, so repeated changes
+     * before the next batch are sent once. Updates that only record a technology being seen
+     * again are not queued. Existing technologies reach the index through a full reindex.
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are applied
+     */
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "search_index_queue" (
+                "technology_id" uuid PRIMARY KEY,
+                "operation" varchar(8) NOT NULL DEFAULT 'index'
+                    CHECK ("operation" IN ('index', 'delete')),
+                "version" integer NOT NULL DEFAULT 1,
+                "enqueued_at" timestamptz NOT NULL DEFAULT clock_timestamp(),
+                "available_at" timestamptz NOT NULL DEFAULT clock_timestamp(),
+                "attempts" integer NOT NULL DEFAULT 0,
+                "last_error" text
+            );
+        `);
+
+        // B-tree index for claiming the oldest available changes
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_search_index_queue_available"
+            ON "search_index_queue" USING btree ("available_at", "enqueued_at");
+        `);
+
+        // A new change replaces any queued one and is retried from scratch. The version
+        // lets a batch settle only the changes it sent.
+        await queryRunner.query(`
+            CREATE OR REPLACE FUNCTION enqueue_search_index(technology uuid, op varchar)
+            RETURNS void AS $$
+            BEGIN
+                INSERT INTO search_index_queue (technology_id, operation)
+                VALUES (technology, op)
+                ON CONFLICT (technology_id) DO UPDATE SET
+                    operation = EXCLUDED.operation,
+                    version = search_index_queue.version + 1,
+                    enqueued_at = clock_timestamp(),
+                    available_at = clock_timestamp(),
+                    attempts = 0,
+                    last_error = NULL;
+            END;
+            $$ LANGUAGE plpgsql;
+        `);
+
+        await queryRunner.query(`
+            CREATE OR REPLACE FUNCTION queue_technology_search_index()
+            RETURNS TRIGGER AS $$
+            BEGIN
+                IF TG_OP = 'DELETE' THEN
+                    PERFORM enqueue_search_index(OLD.id, 'delete');
+                    RETURN OLD;
+                END IF;
+
+                IF TG_OP = 'UPDATE' AND
+                    to_jsonb(NEW) - 'last_seen_at' - 'missed_runs' - 'updated_at' =
+                    to_jsonb(OLD) - 'last_seen_at' - 'missed_runs' - 'updated_at' THEN
+                    RETURN NEW;
+                END IF;
+
+                PERFORM enqueue_search_index(NEW.id, 'index');
+                RETURN NEW;
+            END;
+            $$ LANGUAGE plpgsql;
+        `);
+
+        // Inventor and licensing contact names are part of the indexed document
+        await queryRunner.query(`
+            CREATE OR REPLACE FUNCTION queue_technology_people_search_index()
+            RETURNS TRIGGER AS $$
+            BEGIN
+                IF TG_OP = 'DELETE' THEN
+                    PERFORM enqueue_search_index(OLD.technology_id, 'index');
+                    RETURN OLD;
+                END IF;
+
+                PERFORM enqueue_search_index(NEW.technology_id, 'index');
+                RETURN NEW;
+            END;
+            $$ LANGUAGE plpgsql;
+        `);
+
+        await queryRunner.query(`
+            CREATE OR REPLACE FUNCTION queue_person_search_index()
+            RETURNS TRIGGER AS $$
+            BEGIN
+                PERFORM enqueue_search_index(link.technology_id, 'index')
+                FROM (
+                    SELECT DISTINCT technology_id FROM technology_people WHERE person_id = NEW.id
+                ) AS link;
+                RETURN NEW;
+            END;
+            $$ LANGUAGE plpgsql;
+        `);
+
+        await queryRunner.query(`
+            CREATE TRIGGER technologies_search_index_trigger
+            AFTER INSERT OR UPDATE OR DELETE ON technologies
+            FOR EACH ROW EXECUTE FUNCTION queue_technology_search_index();
+        `);
+        await queryRunner.query(`
+            CREATE TRIGGER technology_people_search_index_trigger
+            AFTER INSERT OR UPDATE OR DELETE ON technology_people
+            FOR EACH ROW EXECUTE FUNCTION queue_technology_people_search_index();
+        `);
+        await queryRunner.query(`
+            CREATE TRIGGER people_search_index_trigger
+            AFTER UPDATE OF name ON people
+            FOR EACH ROW EXECUTE FUNCTION queue_person_search_index();
+        `);
+    }
+
+    /**
+     * Drops the search index triggers and the queue
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are reverted
+     */
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP TRIGGER IF EXISTS people_search_index_trigger ON people;`);
+        await queryRunner.query(`DROP TRIGGER IF EXISTS technology_people_search_index_trigger ON technology_people;`);
+        await queryRunner.query(`DROP TRIGGER IF EXISTS technologies_search_index_trigger ON technologies;`);
+        await queryRunner.query('DROP FUNCTION IF EXISTS queue_person_search_index();');
+        await queryRunner.query('DROP FUNCTION IF EXISTS queue_technology_people_search_index();');
+        await queryRunner.query('DROP FUNCTION IF EXISTS queue_technology_search_index();');
+        await queryRunner.query('DROP FUNCTION IF EXISTS enqueue_search_index(uuid, varchar);');
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_search_index_queue_available";`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "search_index_queue";`);
+    }
+}
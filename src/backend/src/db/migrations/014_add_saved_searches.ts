@@ -0,0 +1,106 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddSavedSearches1677123456802 implements MigrationInterface {
+    name = 'AddSavedSearches1677123456802';
+
+    /**
+     * Creates saved searches, the technologies each has matched, and the in-app notification
+     * list. Users live in MongoDB, so user ids are stored without a foreign key, alongside
+     * the address alerts are emailed to. A saved search starts its watermark at creation,
+     * so only technologies indexed afterwards raise alerts.
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are applied
+     */
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "saved_searches" (
+                "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+                "user_id" varchar(64) NOT NULL,
+                "email" varchar(255) NOT NULL,
+                "name" varchar(200) NOT NULL,
+                "query" text NOT NULL,
+                "filters" jsonb NOT NULL DEFAULT '{}'::jsonb,
+                "frequency" varchar(8) NOT NULL DEFAULT 'daily'
+                    CHECK ("frequency" IN ('instant', 'daily', 'weekly')),
+                "alerts_enabled" boolean NOT NULL DEFAULT true,
+                "unsubscribe_token" varchar(64) NOT NULL UNIQUE,
+                "last_run_at" timestamptz NOT NULL DEFAULT now(),
+                "run_lease_until" timestamptz,
+                "next_digest_at" timestamptz,
+                "last_notified_at" timestamptz,
+                "created_at" timestamptz NOT NULL DEFAULT now(),
+                "updated_at" timestamptz NOT NULL DEFAULT now()
+            );
+        `);
+
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_saved_searches_user"
+            ON "saved_searches" USING btree ("user_id", "created_at");
+        `);
+
+        // Partial index for claiming the searches an alert run has yet to re-execute
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_saved_searches_alerts"
+            ON "saved_searches" USING btree ("last_run_at")
+            WHERE "alerts_enabled";
+        `);
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "saved_search_matches" (
+                "saved_search_id" uuid NOT NULL REFERENCES "saved_searches"("id") ON DELETE CASCADE,
+                "technology_id" uuid NOT NULL REFERENCES "technologies"("id") ON DELETE CASCADE,
+                "matched_at" timestamptz NOT NULL DEFAULT now(),
+                "notified_at" timestamptz,
+                PRIMARY KEY ("saved_search_id", "technology_id")
+            );
+        `);
+
+        // Partial index for the matches still waiting for an alert
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_saved_search_matches_pending"
+            ON "saved_search_matches" USING btree ("saved_search_id", "matched_at")
+            WHERE "notified_at" IS NULL;
+        `);
+
+        await queryRunner.query(`
+            CREATE TABLE IF NOT EXISTS "notifications" (
+                "id" uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+                "user_id" varchar(64) NOT NULL,
+                "type" varchar(32) NOT NULL,
+                "title" varchar(255) NOT NULL,
+                "body" text NOT NULL,
+                "data" jsonb NOT NULL DEFAULT '{}'::jsonb,
+                "read_at" timestamptz,
+                "created_at" timestamptz NOT NULL DEFAULT now()
+            );
+        `);
+
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_notifications_user"
+            ON "notifications" USING btree ("user_id", "created_at" DESC);
+        `);
+        await queryRunner.query(`
+            CREATE INDEX IF NOT EXISTS "idx_notifications_unread"
+            ON "notifications" USING btree ("user_id")
+            WHERE "read_at" IS NULL;
+        `);
+    }
+
+    /**
+     * Drops notifications and saved searches with their matches
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are reverted
+     */
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_notifications_unread";`);
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_notifications_user";`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "notifications";`);
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_saved_search_matches_pending";`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "saved_search_matches";`);
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_saved_searches_alerts";`);
+        await queryRunner.query(`DROP INDEX IF EXISTS "idx_saved_searches_user";`);
+        await queryRunner.query(`DROP TABLE IF EXISTS "saved_searches";`);
+    }
+}
@@ -0,0 +1,32 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class AddInstitutionScheduleLease1677123456803 implements MigrationInterface {
+    name = 'AddInstitutionScheduleLease1677123456803';
+
+    /**
+     * Adds the lease a scheduler replica takes on a due institution, so replicas ticking at
+     * the same time each enqueue a different set of institutions
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are applied
+     */
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "institutions"
+                ADD COLUMN IF NOT EXISTS "schedule_lease_until" timestamptz;
+        `);
+    }
+
+    /**
+     * Drops the schedule lease column
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are reverted
+     */
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            ALTER TABLE "institutions"
+                DROP COLUMN IF EXISTS "schedule_lease_until";
+        `);
+    }
+}
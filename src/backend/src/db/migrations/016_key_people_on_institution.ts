@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from "typeorm";
+
+export class KeyPeopleOnInstitution1677123456804 implements MigrationInterface {
+    name = 'KeyPeopleOnInstitution1677123456804';
+
+    /**
+     * Keys people on institution, name key and email instead of email alone, so named
+     * contacts sharing an office mailbox stay distinct and concurrent scrapes can upsert
+     * the same person without a unique violation
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are applied
+     */
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            DROP INDEX IF EXISTS "idx_people_email";
+        `);
+
+        await queryRunner.query(`
+            CREATE UNIQUE INDEX IF NOT EXISTS "idx_people_identity"
+            ON "people" USING btree ("institution", "name_key", (COALESCE("email", '')));
+        `);
+    }
+
+    /**
+     * Restores the one-person-per-email index
+     *
+     * @param queryRunner - TypeORM query runner for executing database operations
+     * @returns Promise that resolves when the schema changes are reverted
+     */
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.query(`
+            DROP INDEX IF EXISTS "idx_people_identity";
+        `);
+
+        await queryRunner.query(`
+            CREATE UNIQUE INDEX IF NOT EXISTS "idx_people_email"
+            ON "people" USING btree ("email")
+            WHERE "email" IS NOT NULL;
+        `);
+    }
+}
@@ -0,0 +1,137 @@
+/**
+ * @fileoverview Defines the MongoDB schema and model for backfill runs, which replay archived
+ * snapshots through the current parsers and report how the catalog would change.
+ * @version 1.0.0
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import dayjs from 'dayjs'; // v1.10.0
+import {
+  BackfillScope,
+  BackfillStatus,
+  BackfillChange,
+  BackfillSummary
+} from '../../interfaces/scraper.interface';
+
+/**
+ * Interface for the backfill run document
+ */
+export interface IBackfillRun extends Document {
+  scope: BackfillScope;
+  dryRun: boolean;
+  status: BackfillStatus;
+  requestedBy: string | null;
+  sourceRunId: string | null;
+  committedRunId: string | null;
+  summary: BackfillSummary;
+  changes: BackfillChange[];
+  changesTruncated: boolean;
+  error: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema definition for backfill runs
+ */
+const BackfillRunSchema = new Schema<IBackfillRun>({
+  scope: {
+    institutionIds: {
+      type: [String],
+      default: []
+    },
+    from: {
+      type: Date,
+      default: null
+    },
+    to: {
+      type: Date,
+      default: null
+    }
+  },
+  dryRun: {
+    type: Boolean,
+    required: true,
+    default: true
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: ['queued', 'running', 'completed', 'failed'],
+    default: 'queued',
+    index: true
+  },
+  requestedBy: {
+    type: String,
+    default: null
+  },
+  sourceRunId: {
+    type: String,
+    default: null
+  },
+  committedRunId: {
+    type: String,
+    default: null
+  },
+  summary: {
+    snapshots: { type: Number, default: 0 },
+    added: { type: Number, default: 0 },
+    changed: { type: Number, default: 0 },
+    unchanged: { type: Number, default: 0 },
+    removed: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 }
+  },
+  changes: {
+    type: Schema.Types.Mixed,
+    default: []
+  },
+  changesTruncated: {
+    type: Boolean,
+    default: false
+  },
+  error: {
+    type: String,
+    default: null
+  },
+  startedAt: {
+    type: Date,
+    default: null
+  },
+  completedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true,
+  minimize: false
+});
+
+/**
+ * Transform method to format runs for API responses
+ */
+BackfillRunSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+
+  obj.id = obj._id.toString();
+  obj.scope.from = obj.scope.from ? dayjs(obj.scope.from).toISOString() : null;
+  obj.scope.to = obj.scope.to ? dayjs(obj.scope.to).toISOString() : null;
+  obj.startedAt = obj.startedAt ? dayjs(obj.startedAt).toISOString() : null;
+  obj.completedAt = obj.completedAt ? dayjs(obj.completedAt).toISOString() : null;
+  obj.createdAt = dayjs(obj.createdAt).toISOString();
+  obj.updatedAt = dayjs(obj.updatedAt).toISOString();
+
+  // Clean up internal Mongoose fields
+  delete obj.__v;
+  delete obj._id;
+
+  return obj;
+};
+
+// Create and export the model
+const BackfillRunModel: Model<IBackfillRun> = mongoose.model<IBackfillRun>(
+  'BackfillRun',
+  BackfillRunSchema
+);
+export default BackfillRunModel;
\ No newline at end of file
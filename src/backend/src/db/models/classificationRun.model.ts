@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Defines the MongoDB schema and model for classification runs, which re-place
+ * the whole technology catalog in the controlled taxonomy and report what moved.
+ * @version 1.0.0
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import dayjs from 'dayjs'; // v1.10.0
+import {
+  ClassificationRunStatus,
+  ClassificationChange,
+  ClassificationSummary
+} from '../../interfaces/taxonomy.interface';
+
+/**
+ * Interface for the classification run document
+ */
+export interface IClassificationRun extends Document {
+  dryRun: boolean;
+  status: ClassificationRunStatus;
+  requestedBy: string | null;
+  summary: ClassificationSummary;
+  changes: ClassificationChange[];
+  changesTruncated: boolean;
+  error: string | null;
+  startedAt: Date | null;
+  completedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema definition for classification runs
+ */
+const ClassificationRunSchema = new Schema<IClassificationRun>({
+  dryRun: {
+    type: Boolean,
+    required: true,
+    default: true
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: ['queued', 'running', 'completed', 'failed'],
+    default: 'queued',
+    index: true
+  },
+  requestedBy: {
+    type: String,
+    default: null
+  },
+  summary: {
+    technologies: { type: Number, default: 0 },
+    changed: { type: Number, default: 0 },
+    unchanged: { type: Number, default: 0 },
+    manual: { type: Number, default: 0 },
+    unclassified: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 }
+  },
+  changes: {
+    type: Schema.Types.Mixed,
+    default: []
+  },
+  changesTruncated: {
+    type: Boolean,
+    default: false
+  },
+  error: {
+    type: String,
+    default: null
+  },
+  startedAt: {
+    type: Date,
+    default: null
+  },
+  completedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true,
+  minimize: false
+});
+
+/**
+ * Transform method to format runs for API responses
+ */
+ClassificationRunSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+
+  obj.id = obj._id.toString();
+  obj.startedAt = obj.startedAt ? dayjs(obj.startedAt).toISOString() : null;
+  obj.completedAt = obj.completedAt ? dayjs(obj.completedAt).toISOString() : null;
+  obj.createdAt = dayjs(obj.createdAt).toISOString();
+  obj.updatedAt = dayjs(obj.updatedAt).toISOString();
+
+  // Clean up internal Mongoose fields
+  delete obj.__v;
+  delete obj._id;
+
+  return obj;
+};
+
+// Create and export the model
+const ClassificationRunModel: Model<IClassificationRun> = mongoose.model<IClassificationRun>(
+  'ClassificationRun',
+  ClassificationRunSchema
+);
+export default ClassificationRunModel;
\ No newline at end of file
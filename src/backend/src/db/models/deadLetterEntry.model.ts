@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Defines the MongoDB schema and model for scraper jobs drained from the
+ * dead-letter queue, kept so operators can inspect, replay and purge failed jobs.
+ * @version 1.0.0
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import dayjs from 'dayjs'; // v1.10.0
+import {
+  ScraperJob,
+  DeadLetterError,
+  DeadLetterSource,
+  DeadLetterStatus
+} from '../../interfaces/scraper.interface';
+import { ERROR_TYPES } from '../../constants/scraper.constants';
+
+/**
+ * Interface for the dead-letter entry document
+ */
+export interface IDeadLetterEntry extends Document {
+  jobId: string;
+  url: string;
+  institutionId?: string;
+  institutionType: string;
+  errorType: ERROR_TYPES;
+  error: DeadLetterError;
+  job: ScraperJob;
+  source: DeadLetterSource;
+  status: DeadLetterStatus;
+  replayCount: number;
+  lastReplayedAt: Date | null;
+  lastReplayedBy: string | null;
+  deadLetteredAt: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema definition for dead-lettered scraper jobs
+ */
+const DeadLetterEntrySchema = new Schema<IDeadLetterEntry>({
+  jobId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  url: {
+    type: String,
+    required: true
+  },
+  institutionId: {
+    type: String,
+    index: true
+  },
+  institutionType: {
+    type: String,
+    required: true,
+    index: true
+  },
+  errorType: {
+    type: String,
+    required: true,
+    index: true
+  },
+  error: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  job: {
+    type: Schema.Types.Mixed,
+    required: true
+  },
+  source: {
+    type: String,
+    required: true,
+    enum: ['service', 'worker', 'broker']
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: ['pending', 'replayed'],
+    default: 'pending',
+    index: true
+  },
+  replayCount: {
+    type: Number,
+    default: 0
+  },
+  lastReplayedAt: {
+    type: Date,
+    default: null
+  },
+  lastReplayedBy: {
+    type: String,
+    default: null
+  },
+  deadLetteredAt: {
+    type: Date,
+    default: Date.now,
+    index: true
+  }
+}, {
+  timestamps: true,
+  minimize: false
+});
+
+/**
+ * Transform method to format entries for API responses
+ */
+DeadLetterEntrySchema.methods.toJSON = function() {
+  const obj = this.toObject();
+
+  obj.id = obj._id.toString();
+  obj.deadLetteredAt = dayjs(obj.deadLetteredAt).toISOString();
+  obj.lastReplayedAt = obj.lastReplayedAt ? dayjs(obj.lastReplayedAt).toISOString() : null;
+  obj.createdAt = dayjs(obj.createdAt).toISOString();
+  obj.updatedAt = dayjs(obj.updatedAt).toISOString();
+
+  // Clean up internal Mongoose fields
+  delete obj.__v;
+  delete obj._id;
+
+  return obj;
+};
+
+// Create and export the model
+const DeadLetterEntryModel: Model<IDeadLetterEntry> = mongoose.model<IDeadLetterEntry>(
+  'DeadLetterEntry',
+  DeadLetterEntrySchema
+);
+export default DeadLetterEntryModel;
\ No newline at end of file
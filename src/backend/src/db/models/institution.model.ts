@@ -5,7 +5,7 @@
  */
 
 import {
-  Model,
+  BaseEntity,
   Column,
   Entity,
   Index,
@@ -18,11 +18,11 @@ import {
   ValidateNested,
   IsEnum,
   IsOptional,
-  Min,
-  Max
+  IsIn,
+  Min
 } from 'class-validator';
-import { SCRAPER_ENGINES } from '../../constants/scraper.constants';
-import { RateLimitConfig } from '../../interfaces/scraper.interface';
+import { SCRAPER_ENGINES, PORTAL_VENDORS, PortalVendor } from '../../constants/scraper.constants';
+import { RateLimitConfig, RobotsOverride } from '../../interfaces/scraper.interface';
 
 /**
  * Institution types supported by the system
@@ -37,13 +37,23 @@ export enum InstitutionType {
  * Selector configuration for HTML scraping
  */
 export interface SelectorConfig {
-  title: string;
+  title: string; // may be left blank when the institution's portal vendor provides one
   description: string;
   pagination?: string;
   links?: string[];
   metadata?: Record<string, string>;
 }
 
+/**
+ * Operational metadata captured in the institution configuration UI
+ */
+export interface InstitutionMetadata {
+  contactEmail?: string;
+  apiKeyEnv?: string;
+  refreshInterval?: number; // days between scheduled scrapes
+  proxyRegion?: string; // country code of the proxies to scrape through
+}
+
 /**
  * Database model representing a technology transfer institution
  * with comprehensive configuration and validation capabilities
@@ -52,50 +62,72 @@ export interface SelectorConfig {
 @Index(['name'], { unique: true })
 @Index(['baseUrl'], { unique: true })
 @Index(['type', 'country'], { unique: false })
-export class Institution extends Model {
+export class Institution extends BaseEntity {
   @Column('uuid', { primary: true, generated: 'uuid' })
-  id: string;
+  id!: string;
 
   @Column('varchar', { length: 255 })
   @IsNotEmpty()
-  name: string;
+  name!: string;
 
   @Column('varchar', { length: 100 })
   @IsNotEmpty()
-  country: string;
+  country!: string;
 
   @Column('enum', { enum: InstitutionType })
   @IsEnum(InstitutionType)
-  type: InstitutionType;
+  type!: InstitutionType;
 
   @Column('varchar', { length: 500 })
   @IsUrl()
   @IsNotEmpty()
-  baseUrl: string;
+  baseUrl!: string;
 
   @Column('enum', { enum: SCRAPER_ENGINES })
   @IsEnum(SCRAPER_ENGINES)
-  engineType: SCRAPER_ENGINES;
+  engineType!: SCRAPER_ENGINES;
 
   @Column('jsonb')
   @ValidateNested()
-  selectors: SelectorConfig;
+  selectors!: SelectorConfig;
 
   @Column('jsonb')
   @ValidateNested()
   rateLimit: RateLimitConfig;
 
   @Column('boolean', { default: true })
-  active: boolean;
+  active!: boolean;
+
+  @Column('timestamp with time zone', { nullable: true })
+  lastScraped!: Date | null;
+
+  @Column('jsonb', { nullable: true })
+  @IsOptional()
+  metadata!: InstitutionMetadata | null;
 
   @Column('timestamp with time zone', { nullable: true })
-  lastScraped: Date | null;
+  nextScheduledScrape!: Date | null;
+
+  @Column('boolean', { default: false })
+  schedulePaused!: boolean;
+
+  @Column('timestamp with time zone', { nullable: true })
+  scheduleLeaseUntil!: Date | null;
+
+  @Column('jsonb', { nullable: true })
+  @IsOptional()
+  robotsOverride!: RobotsOverride | null;
+
+  @Column('varchar', { length: 32, nullable: true })
+  @IsOptional()
+  @IsIn(Object.keys(PORTAL_VENDORS))
+  vendor!: PortalVendor | null;
 
   @Column('timestamp with time zone', { default: () => 'CURRENT_TIMESTAMP' })
-  createdAt: Date;
+  createdAt!: Date;
 
   @Column('timestamp with time zone', { default: () => 'CURRENT_TIMESTAMP' })
-  updatedAt: Date;
+  updatedAt!: Date;
 
   @Column('integer', { default: 0 })
   @Min(0)
@@ -125,7 +157,7 @@ export class Institution extends Model {
     this.rateLimit = this.getDefaultRateLimit();
 
     // Set default scraper engine if not specified
-    if (!this.engineType) {
+    if (!institutionData.engineType) {
       this.engineType = this.getDefaultEngine();
     }
 
@@ -213,25 +245,33 @@ export class Institution extends Model {
         return {
           requestsPerSecond: 2,
           burstLimit: 5,
-          cooldownPeriod: 60
+          cooldownPeriod: 60,
+          institutionOverrides: {},
+          burstHandling: { strategy: 'throttle' }
         };
       case InstitutionType.INTERNATIONAL_UNIVERSITY:
         return {
           requestsPerSecond: 1,
           burstLimit: 3,
-          cooldownPeriod: 120
+          cooldownPeriod: 120,
+          institutionOverrides: {},
+          burstHandling: { strategy: 'throttle' }
         };
       case InstitutionType.FEDERAL_LAB:
         return {
           requestsPerSecond: 5,
           burstLimit: 10,
-          cooldownPeriod: 30
+          cooldownPeriod: 30,
+          institutionOverrides: {},
+          burstHandling: { strategy: 'throttle' }
         };
       default:
         return {
           requestsPerSecond: 1,
           burstLimit: 2,
-          cooldownPeriod: 300
+          cooldownPeriod: 300,
+          institutionOverrides: {},
+          burstHandling: { strategy: 'throttle' }
         };
     }
   }
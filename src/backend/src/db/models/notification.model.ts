@@ -0,0 +1,54 @@
+/**
+ * @fileoverview TypeORM entity for an entry in a user's in-app notification list
+ * @version 1.0.0
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index
+} from 'typeorm'; // ^0.3.0
+import { NotificationType } from '../../interfaces/savedSearch.interface';
+
+/**
+ * In-app notification
+ */
+@Entity('notifications')
+@Index(['userId', 'createdAt'])
+export class NotificationRecord {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 64 })
+  userId!: string;
+
+  @Column({ type: 'varchar', length: 32 })
+  type!: NotificationType;
+
+  @Column({ type: 'varchar', length: 255 })
+  title!: string;
+
+  @Column('text')
+  body!: string;
+
+  @Column({ type: 'jsonb', default: {} })
+  data!: Record<string, unknown>;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  readAt!: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt!: Date;
+
+  /**
+   * Creates a notification
+   * @param data Optional partial notification data
+   */
+  constructor(data?: Partial<NotificationRecord>) {
+    if (data) {
+      Object.assign(this, data);
+    }
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * @fileoverview TypeORM entity for the people directory: inventors and licensing contacts
+ * deduplicated across the technologies that name them
+ * @version 1.0.0
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index
+} from 'typeorm'; // ^0.3.0
+
+/**
+ * Inventor or licensing contact named on one or more technologies. People are identified
+ * by institution, name key and email, so contacts sharing an office mailbox stay distinct.
+ * The identity index is on an expression TypeORM cannot declare; migration 016 owns it.
+ */
+@Entity('people')
+@Index(['institution', 'nameKey'])
+@Index('idx_people_identity', { synchronize: false })
+export class Person {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column()
+  name!: string;
+
+  @Column()
+  @Index()
+  nameKey!: string;
+
+  @Column()
+  institution!: string;
+
+  @Column({ type: 'varchar', nullable: true })
+  email!: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  phone!: string | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt!: Date;
+
+  /**
+   * Creates a person
+   * @param data Optional partial person data
+   */
+  constructor(data?: Partial<Person>) {
+    if (data) {
+      Object.assign(this, data);
+    }
+  }
+}
\ No newline at end of file
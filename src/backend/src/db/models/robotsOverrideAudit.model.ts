@@ -0,0 +1,63 @@
+/**
+ * @fileoverview TypeORM entity recording every change to an institution's robots.txt
+ * override, forming the audit trail required before ignoring a site's robots rules
+ * @version 1.0.0
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index
+} from 'typeorm'; // ^0.3.0
+import { RobotsOverride } from '../../interfaces/scraper.interface';
+
+/**
+ * Kind of override change recorded
+ */
+export enum RobotsOverrideAction {
+  SET = 'set',
+  CLEARED = 'cleared'
+}
+
+/**
+ * Audit entry capturing who changed an institution's robots.txt override and why
+ */
+@Entity('robots_override_audits')
+@Index(['institutionId', 'createdAt'])
+export class RobotsOverrideAudit {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column('uuid')
+  institutionId!: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  action!: RobotsOverrideAction;
+
+  @Column('jsonb', { nullable: true })
+  previous!: RobotsOverride | null;
+
+  @Column('jsonb', { nullable: true })
+  current!: RobotsOverride | null;
+
+  @Column('text')
+  reason!: string;
+
+  @Column()
+  actor!: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt!: Date;
+
+  /**
+   * Creates an audit entry
+   * @param data Optional partial audit data
+   */
+  constructor(data?: Partial<RobotsOverrideAudit>) {
+    if (data) {
+      Object.assign(this, data);
+    }
+  }
+}
\ No newline at end of file
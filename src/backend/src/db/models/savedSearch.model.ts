@@ -0,0 +1,78 @@
+/**
+ * @fileoverview TypeORM entity for a search a user saved to be alerted about new matches.
+ * The technologies each search has matched are kept in saved_search_matches.
+ * @version 1.0.0
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  UpdateDateColumn,
+  Index
+} from 'typeorm'; // ^0.3.0
+import { SavedSearchFilters } from '../../interfaces/savedSearch.interface';
+import { SavedSearchFrequency } from '../../constants/savedSearch.constants';
+
+/**
+ * Saved search with its alert schedule
+ */
+@Entity('saved_searches')
+@Index(['userId', 'createdAt'])
+export class SavedSearchRecord {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column({ type: 'varchar', length: 64 })
+  userId!: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  email!: string; // alerts go to the address the user had when saving
+
+  @Column({ type: 'varchar', length: 200 })
+  name!: string;
+
+  @Column('text')
+  query!: string;
+
+  @Column({ type: 'jsonb', default: {} })
+  filters!: SavedSearchFilters;
+
+  @Column({ type: 'varchar', length: 8, default: 'daily' })
+  frequency!: SavedSearchFrequency;
+
+  @Column({ default: true })
+  alertsEnabled!: boolean;
+
+  @Column({ type: 'varchar', length: 64, unique: true })
+  unsubscribeToken!: string;
+
+  @Column({ type: 'timestamptz' })
+  lastRunAt!: Date; // technologies indexed before this were already searched
+
+  @Column({ type: 'timestamptz', nullable: true })
+  runLeaseUntil!: Date | null; // hidden from other workers until then while an alert run holds it
+
+  @Column({ type: 'timestamptz', nullable: true })
+  nextDigestAt!: Date | null; // when pending matches of a daily or weekly search are sent
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastNotifiedAt!: Date | null;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  createdAt!: Date;
+
+  @UpdateDateColumn({ type: 'timestamptz' })
+  updatedAt!: Date;
+
+  /**
+   * Creates a saved search
+   * @param data Optional partial saved search data
+   */
+  constructor(data?: Partial<SavedSearchRecord>) {
+    if (data) {
+      Object.assign(this, data);
+    }
+  }
+}
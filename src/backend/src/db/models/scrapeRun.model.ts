@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Defines the MongoDB schema and model for scrape runs, which group every job
+ * of one institution refresh and record its item counts, errors and resulting health score.
+ * @version 1.0.0
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import dayjs from 'dayjs'; // v1.10.0
+import {
+  ScrapeRunStatus,
+  ScrapeRunJob,
+  ScrapeRunItems,
+  InstitutionHealth
+} from '../../interfaces/scraper.interface';
+
+/**
+ * Interface for the scrape run document
+ */
+export interface IScrapeRun extends Document {
+  runId: string;
+  institutionId: string;
+  institutionName: string | null;
+  institutionType: string;
+  status: ScrapeRunStatus;
+  jobs: ScrapeRunJob[];
+  attempts: number;
+  items: ScrapeRunItems;
+  errorCount: number;
+  errorsByType: Record<string, number>;
+  lastError: string | null;
+  seenTechnologyIds: string[];
+  health: InstitutionHealth | null;
+  startedAt: Date;
+  completedAt: Date | null;
+  durationMs: number | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Schema for a job within a run
+ */
+const ScrapeRunJobSchema = new Schema<ScrapeRunJob>({
+  jobId: { type: String, required: true },
+  url: { type: String, required: true },
+  status: {
+    type: String,
+    enum: ['running', 'completed', 'failed'],
+    default: 'running'
+  },
+  attempts: { type: Number, default: 1 },
+  itemsFound: { type: Number, default: 0 },
+  truncated: { type: Boolean, default: false },
+  listingComplete: { type: Boolean, default: false },
+  error: { type: String, default: null },
+  startedAt: { type: Date, default: Date.now },
+  completedAt: { type: Date, default: null }
+}, { _id: false });
+
+/**
+ * Mongoose schema definition for scrape runs
+ */
+const ScrapeRunSchema = new Schema<IScrapeRun>({
+  runId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  institutionId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  institutionName: {
+    type: String,
+    default: null
+  },
+  institutionType: {
+    type: String,
+    required: true
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: ['running', 'completed', 'partial', 'failed'],
+    default: 'running',
+    index: true
+  },
+  jobs: {
+    type: [ScrapeRunJobSchema],
+    default: []
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  items: {
+    found: { type: Number, default: 0 },
+    new: { type: Number, default: 0 },
+    updated: { type: Number, default: 0 },
+    unchanged: { type: Number, default: 0 },
+    removed: { type: Number, default: 0 },
+    withdrawn: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 }
+  },
+  errorCount: {
+    type: Number,
+    default: 0
+  },
+  errorsByType: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  lastError: {
+    type: String,
+    default: null
+  },
+  seenTechnologyIds: {
+    type: [String],
+    default: []
+  },
+  health: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now
+  },
+  completedAt: {
+    type: Date,
+    default: null
+  },
+  durationMs: {
+    type: Number,
+    default: null
+  }
+}, {
+  timestamps: true,
+  minimize: false
+});
+
+/**
+ * Indexes for run history and the scorecard
+ */
+ScrapeRunSchema.index({ institutionId: 1, completedAt: -1 });
+ScrapeRunSchema.index({ status: 1, startedAt: -1 });
+
+/**
+ * Transform method to format runs for API responses. Seen technology ids are kept for
+ * catalog reconciliation and reported only as a count.
+ */
+ScrapeRunSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+
+  obj.seenTechnologies = obj.seenTechnologyIds?.length ?? 0;
+  obj.jobs = (obj.jobs || []).map((job: ScrapeRunJob) => ({
+    ...job,
+    startedAt: dayjs(job.startedAt).toISOString(),
+    completedAt: job.completedAt ? dayjs(job.completedAt).toISOString() : null
+  }));
+  obj.startedAt = dayjs(obj.startedAt).toISOString();
+  obj.completedAt = obj.completedAt ? dayjs(obj.completedAt).toISOString() : null;
+  obj.createdAt = dayjs(obj.createdAt).toISOString();
+  obj.updatedAt = dayjs(obj.updatedAt).toISOString();
+
+  // Clean up internal Mongoose fields
+  delete obj.seenTechnologyIds;
+  delete obj.__v;
+  delete obj._id;
+
+  return obj;
+};
+
+// Create and export the model
+const ScrapeRunModel: Model<IScrapeRun> = mongoose.model<IScrapeRun>('ScrapeRun', ScrapeRunSchema);
+export default ScrapeRunModel;
@@ -0,0 +1,131 @@
+/**
+ * @fileoverview Defines the MongoDB schema and model for archived raw scrape snapshots. Each
+ * document records one fetch; the compressed body lives in object storage under a
+ * content-addressed key shared by every fetch that returned the same bytes.
+ * @version 1.0.0
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import dayjs from 'dayjs'; // v1.10.0
+
+/**
+ * Interface for the scrape snapshot document
+ */
+export interface IScrapeSnapshot extends Document {
+  jobId: string;
+  url: string;
+  institutionId: string | null;
+  institutionType: string;
+  selectors: Record<string, string>;
+  key: string;
+  sha256: string;
+  contentType: string;
+  headers: Record<string, string>;
+  statusCode: number | null;
+  size: number;
+  storedSize: number;
+  capturedAt: Date;
+  storedAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Mongoose schema definition for scrape snapshots
+ */
+const ScrapeSnapshotSchema = new Schema<IScrapeSnapshot>({
+  jobId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  url: {
+    type: String,
+    required: true
+  },
+  institutionId: {
+    type: String,
+    default: null
+  },
+  institutionType: {
+    type: String,
+    required: true
+  },
+  selectors: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  key: {
+    type: String,
+    required: true
+  },
+  sha256: {
+    type: String,
+    required: true
+  },
+  contentType: {
+    type: String,
+    required: true
+  },
+  headers: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  statusCode: {
+    type: Number,
+    default: null
+  },
+  size: {
+    type: Number,
+    required: true
+  },
+  storedSize: {
+    type: Number,
+    required: true
+  },
+  capturedAt: {
+    type: Date,
+    required: true
+  },
+  storedAt: {
+    type: Date,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  }
+}, {
+  minimize: false
+});
+
+// Indexes for per-institution history and content-address lookups
+ScrapeSnapshotSchema.index({ institutionId: 1, capturedAt: -1 });
+ScrapeSnapshotSchema.index({ sha256: 1, storedAt: -1 });
+
+// Records go when the lifecycle rule expires the object they point to
+ScrapeSnapshotSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+/**
+ * Transform method to format snapshot metadata for API responses
+ */
+ScrapeSnapshotSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+
+  obj.id = obj._id.toString();
+  obj.capturedAt = dayjs(obj.capturedAt).toISOString();
+  obj.expiresAt = dayjs(obj.expiresAt).toISOString();
+
+  // Clean up internal fields
+  delete obj.storedAt;
+  delete obj.__v;
+  delete obj._id;
+
+  return obj;
+};
+
+// Create and export the model
+const ScrapeSnapshotModel: Model<IScrapeSnapshot> = mongoose.model<IScrapeSnapshot>(
+  'ScrapeSnapshot',
+  ScrapeSnapshotSchema
+);
+export default ScrapeSnapshotModel;
\ No newline at end of file
@@ -0,0 +1,51 @@
+/**
+ * @fileoverview TypeORM entity for a technology waiting to be written to the search index.
+ * Entries are queued by database triggers whenever a technology or its people change.
+ * @version 1.0.0
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryColumn,
+  Index
+} from 'typeorm'; // ^0.3.0
+import { SearchIndexOperation } from '../../interfaces/search.interface';
+
+/**
+ * Queued search index write; a technology holds at most one
+ */
+@Entity('search_index_queue')
+@Index(['availableAt', 'enqueuedAt'])
+export class SearchIndexEntry {
+  @PrimaryColumn('uuid')
+  technologyId!: string;
+
+  @Column({ type: 'varchar', length: 8, default: 'index' })
+  operation!: SearchIndexOperation;
+
+  @Column({ default: 1 })
+  version!: number; // bumped by every newer change, so a batch only settles what it sent
+
+  @Column({ type: 'timestamptz' })
+  enqueuedAt!: Date;
+
+  @Column({ type: 'timestamptz' })
+  availableAt!: Date; // hidden from other workers until then while claimed or backing off
+
+  @Column({ default: 0 })
+  attempts!: number;
+
+  @Column('text', { nullable: true })
+  lastError!: string | null;
+
+  /**
+   * Creates a queue entry
+   * @param data Optional partial entry data
+   */
+  constructor(data?: Partial<SearchIndexEntry>) {
+    if (data) {
+      Object.assign(this, data);
+    }
+  }
+}
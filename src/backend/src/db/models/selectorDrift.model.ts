@@ -0,0 +1,126 @@
+/**
+ * @fileoverview Defines the MongoDB schema and model tracking selector health per institution:
+ * the last-good HTML snapshot used to propose replacement selectors, and any open drift flag.
+ * @version 1.0.0
+ */
+
+import mongoose, { Schema, Document, Model } from 'mongoose';
+import dayjs from 'dayjs'; // v1.10.0
+import { SelectorDriftField } from '../../interfaces/scraper.interface';
+
+/**
+ * Page captured on the last run where every monitored selector was healthy
+ */
+export interface ISelectorSnapshot {
+  url: string;
+  html: string;
+  selectors: Record<string, string>;
+  yields: Record<string, number>;
+  capturedAt: Date;
+}
+
+/**
+ * Interface for the selector drift document
+ */
+export interface ISelectorDrift extends Document {
+  institutionId: string;
+  institutionType: string;
+  url: string;
+  selectors: Record<string, string>;
+  status: 'healthy' | 'drifted';
+  fields: SelectorDriftField[];
+  lastGood: ISelectorSnapshot | null;
+  detectedAt: Date | null;
+  lastCheckedAt: Date;
+  dismissedBy: string | null;
+  dismissedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose schema definition for selector drift tracking
+ */
+const SelectorDriftSchema = new Schema<ISelectorDrift>({
+  institutionId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  institutionType: {
+    type: String,
+    required: true
+  },
+  url: {
+    type: String,
+    required: true
+  },
+  selectors: {
+    type: Schema.Types.Mixed,
+    default: {}
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: ['healthy', 'drifted'],
+    default: 'healthy',
+    index: true
+  },
+  fields: {
+    type: Schema.Types.Mixed,
+    default: []
+  },
+  lastGood: {
+    type: Schema.Types.Mixed,
+    default: null
+  },
+  detectedAt: {
+    type: Date,
+    default: null
+  },
+  lastCheckedAt: {
+    type: Date,
+    default: Date.now
+  },
+  dismissedBy: {
+    type: String,
+    default: null
+  },
+  dismissedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true,
+  minimize: false
+});
+
+/**
+ * Transform method to format drift reports for API responses. The snapshot HTML is
+ * internal and never leaves the service.
+ */
+SelectorDriftSchema.methods.toJSON = function() {
+  const obj = this.toObject();
+
+  obj.lastGoodAt = obj.lastGood ? dayjs(obj.lastGood.capturedAt).toISOString() : null;
+  obj.detectedAt = obj.detectedAt ? dayjs(obj.detectedAt).toISOString() : null;
+  obj.lastCheckedAt = dayjs(obj.lastCheckedAt).toISOString();
+
+  // Clean up internal fields
+  delete obj.lastGood;
+  delete obj.dismissedBy;
+  delete obj.dismissedAt;
+  delete obj.createdAt;
+  delete obj.updatedAt;
+  delete obj.__v;
+  delete obj._id;
+
+  return obj;
+};
+
+// Create and export the model
+const SelectorDriftModel: Model<ISelectorDrift> = mongoose.model<ISelectorDrift>(
+  'SelectorDrift',
+  SelectorDriftSchema
+);
+export default SelectorDriftModel;
\ No newline at end of file
@@ -14,7 +14,23 @@ import {
   Check 
 } from 'typeorm'; // ^0.3.0
 import { ScraperResult } from '../../interfaces/scraper.interface';
-import { SearchResult } from '../../interfaces/search.interface';
+import { SearchDocument, SearchDocumentPeople, SearchResult } from '../../interfaces/search.interface';
+import {
+  normalizeTechnologyUrl,
+  computeFingerprint,
+  computeContentHash
+} from '../../utils/fingerprint.util';
+import { collectPatentIdentifiers, derivePatentStatus } from '../../utils/patent.util';
+import {
+  PATENT_STATUSES,
+  PatentStatus,
+  WithdrawalReason
+} from '../../constants/scraper.constants';
+import { classifyTechnology, TaxonomyClassification, TaxonomyPredictor } from '../../utils/taxonomy.util';
+import { getLocalTaxonomyModel } from '../../lib/ai/taxonomy.model';
+import { CLASSIFICATION_SOURCES, ClassificationSource } from '../../constants/taxonomy.constants';
+import { TechnologyTranslations } from '../../interfaces/translation.interface';
+import { detectTextLanguage, getLanguageAnalyzer, normalizeLanguageCode } from '../../lib/translation';
 
 /**
  * Technology entity representing research commercialization opportunities
@@ -23,45 +39,109 @@ import { SearchResult } from '../../interfaces/search.interface';
 @Entity('technologies')
 @Index(['institution', 'category']) // Composite index for common filters
 @Index(['discoveredAt']) // Index for temporal queries
-@Index(['title', 'description'], { using: 'GiST' }) // Full-text search optimization
+@Index(['title', 'description']) // Full-text search; migration 002 builds the GiST index TypeORM cannot declare
+@Index(['institution', 'canonicalUrl'], { unique: true, where: '"canonical_url" IS NOT NULL' }) // Re-scrape identity
+@Index(['institution', 'fingerprint']) // Fallback identity for sites that change URLs
 export class Technology {
   @PrimaryGeneratedColumn('uuid')
-  id: string;
+  id!: string;
 
   @Column()
   @Index()
-  institution: string;
+  institution!: string;
 
   @Column()
   @Index()
-  title: string;
+  title!: string;
 
   @Column('text')
-  description: string;
+  description!: string;
 
   @Column()
   @Index()
-  category: string;
+  category!: string;
+
+  @Column({ nullable: true })
+  subcategory!: string | null;
+
+  @Column({ length: 64, default: 'unclassified' })
+  @Index()
+  taxonomyId!: string;
+
+  @Column({ nullable: true })
+  sourceCategory!: string | null;
+
+  @Column({ length: 16, default: CLASSIFICATION_SOURCES.NONE })
+  classificationSource!: ClassificationSource;
+
+  @Column('float', { nullable: true })
+  classificationConfidence!: number | null;
+
+  @Column({ nullable: true })
+  classifiedBy!: string | null;
+
+  @Column({ length: 8, nullable: true })
+  @Index()
+  language!: string | null;
+
+  @Column('jsonb', { nullable: true }) // English translations; the columns above keep the original
+  translations!: TechnologyTranslations | null;
 
   @Column()
-  country: string;
+  country!: string;
 
   @Column()
-  url: string;
+  url!: string;
+
+  @Column({ nullable: true })
+  canonicalUrl!: string;
+
+  @Column({ nullable: true })
+  fingerprint!: string;
+
+  @Column({ nullable: true })
+  contentHash!: string;
 
   @CreateDateColumn()
   @Index()
-  discoveredAt: Date;
+  discoveredAt!: Date;
 
   @UpdateDateColumn()
-  updatedAt: Date;
+  updatedAt!: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  @Index()
+  contentChangedAt!: Date;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  lastSeenAt!: Date;
 
   @Column('jsonb', { nullable: true })
-  metadata: Record<string, any>;
+  metadata!: Record<string, any>;
+
+  @Column('varchar', { array: true, default: () => "'{}'" }) // GIN-indexed in migration 008 for family lookups
+  patentNumbers!: string[];
+
+  @Column({ length: 16, default: PATENT_STATUSES.UNKNOWN })
+  @Index()
+  patentStatus!: PatentStatus;
+
+  @Column('uuid', { nullable: true })
+  @Index()
+  patentFamilyId!: string | null;
 
   @Column({ default: true })
   @Check('active IN (true, false)')
-  active: boolean;
+  active!: boolean;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  withdrawnAt!: Date | null;
+
+  @Column({ length: 16, nullable: true })
+  withdrawnReason!: WithdrawalReason | null;
+
+  @Column({ default: 0 }) // Consecutive completed runs of its institution that did not list it
+  missedRuns!: number;
 
   /**
    * Creates a new technology instance with validation
@@ -100,7 +180,10 @@ export class Technology {
       title: result.data.title.trim(),
       description: result.data.description.trim(),
       institution: result.data.institution,
-      category: result.data.category,
+      sourceCategory: result.data.category?.trim() || null,
+      // Pages that do not declare a language have it detected from their text
+      language: normalizeLanguageCode(result.data.metadata?.language)
+        ?? detectTextLanguage(`${result.data.title} ${result.data.description}`),
       country: result.data.country,
       url: result.url,
       metadata: {
@@ -116,9 +199,111 @@ export class Technology {
       throw new Error('Invalid metadata structure in scraper result');
     }
 
+    technology.refreshIdentity();
+    technology.refreshPatents(result.data.patentNumbers);
+    technology.refreshClassification();
+    technology.lastSeenAt = new Date(result.timestamp || Date.now());
+
     return technology;
   }
 
+  /**
+   * Recomputes the canonical URL, fuzzy fingerprint and content hash used to match
+   * re-scraped technologies against stored rows and detect real content changes
+   */
+  refreshIdentity(): void {
+    this.canonicalUrl = normalizeTechnologyUrl(this.url);
+    this.fingerprint = computeFingerprint(this.title, this.description);
+    this.contentHash = computeContentHash({
+      title: this.title,
+      description: this.description,
+      category: this.sourceCategory, // Taxonomy placements are derived, not scraped content
+      country: this.country,
+      url: this.canonicalUrl,
+      metadata: this.metadata
+    });
+  }
+
+  /**
+   * Normalizes patent numbers from scraped patent fields, PDF one-pager IP sections and the
+   * description's IP wording into canonical identifiers, and derives the IP status from them
+   * @param scraped Patent numbers extracted with selectors or structured data
+   */
+  refreshPatents(scraped: string | string[] = []): void {
+    const ipText = [this.description, this.metadata?.sections?.ipStatus || ''];
+    const identifiers = collectPatentIdentifiers(
+      [...([] as string[]).concat(scraped || []), ...(this.metadata?.patentNumbers || [])],
+      [this.description]
+    );
+
+    this.patentNumbers = identifiers.map(identifier => identifier.canonical);
+    this.patentStatus = derivePatentStatus(identifiers, ipText.join('\n'));
+  }
+
+  /**
+   * Places the technology in the controlled taxonomy from its title, description and the
+   * category the source site assigned, using the English translations when there are any.
+   * Manual placements are kept.
+   * @param model Local taxonomy model, when one is configured
+   */
+  refreshClassification(model: TaxonomyPredictor | null = getLocalTaxonomyModel()): void {
+    if (this.classificationSource === CLASSIFICATION_SOURCES.MANUAL) {
+      return;
+    }
+
+    this.applyClassification(classifyTechnology({
+      title: this.translations?.title || this.title,
+      description: this.translations?.description || this.description,
+      sourceCategory: this.sourceCategory
+    }, model));
+  }
+
+  /**
+   * Stores English translations of the title and description and re-classifies the
+   * technology from them
+   * @param translations Translations from the translation stage
+   */
+  applyTranslations(translations: TechnologyTranslations): void {
+    this.translations = translations;
+    this.refreshClassification();
+  }
+
+  /**
+   * Records a taxonomy placement on the technology
+   * @param classification Placement from rules, the model or a manager
+   * @param classifiedBy User who placed the technology manually
+   */
+  applyClassification(classification: TaxonomyClassification, classifiedBy: string | null = null): void {
+    this.taxonomyId = classification.taxonomyId;
+    this.category = classification.category;
+    this.subcategory = classification.subcategory;
+    this.classificationSource = classification.source;
+    this.classificationConfidence = classification.confidence;
+    this.classifiedBy = classifiedBy;
+  }
+
+  /**
+   * Takes the technology out of the active catalog, e.g. once it has been licensed and the
+   * institution stopped listing it
+   * @param reason Why the technology was withdrawn
+   * @param at When the withdrawal was detected
+   */
+  withdraw(reason: WithdrawalReason, at: Date = new Date()): void {
+    this.active = false;
+    this.withdrawnAt = at;
+    this.withdrawnReason = reason;
+  }
+
+  /**
+   * Returns the technology to the active catalog after its institution listed it again
+   */
+  reinstate(): void {
+    this.active = true;
+    this.withdrawnAt = null;
+    this.withdrawnReason = null;
+    this.missedRuns = 0;
+  }
+
   /**
    * Converts technology instance to optimized search result format
    * @param score Optional relevance score for search results
@@ -131,13 +316,64 @@ export class Technology {
       description: this.description,
       institution: this.institution,
       category: this.category,
+      subcategory: this.subcategory ?? null,
+      taxonomyId: this.taxonomyId,
+      sourceCategory: this.sourceCategory ?? null,
+      language: this.language ?? null,
+      translations: this.translations ?? null,
       country: this.country,
+      patentNumbers: this.patentNumbers || [],
+      patentStatus: this.patentStatus || PATENT_STATUSES.UNKNOWN,
+      active: this.active,
+      withdrawnAt: this.withdrawnAt ?? null,
+      withdrawnReason: this.withdrawnReason ?? null,
       discoveredAt: this.discoveredAt,
       updatedAt: this.updatedAt,
       score: score || 0
     };
   }
 
+  /**
+   * Builds the document stored in the search index for this technology
+   * @param people Inventors and licensing contacts linked to the technology
+   */
+  toSearchDocument(people?: SearchDocumentPeople): SearchDocument {
+    return {
+      title: this.title,
+      description: this.description,
+      institution: this.institution,
+      category: this.category,
+      subcategory: this.subcategory ?? null,
+      taxonomyId: this.taxonomyId,
+      sourceCategory: this.sourceCategory ?? null,
+      language: this.language ?? null,
+      localized: this.toLocalizedText(),
+      translations: this.translations ?? null,
+      country: this.country,
+      patentNumbers: this.patentNumbers || [],
+      patentStatus: this.patentStatus || PATENT_STATUSES.UNKNOWN,
+      patentFamilyId: this.patentFamilyId ?? null,
+      inventorIds: people?.inventorIds || [],
+      inventorNames: people?.inventorNames || [],
+      licensingContactIds: people?.licensingContactIds || [],
+      licensingContactNames: people?.licensingContactNames || [],
+      active: this.active,
+      withdrawnAt: this.withdrawnAt ?? null,
+      withdrawnReason: this.withdrawnReason ?? null,
+      discoveredAt: this.discoveredAt,
+      updatedAt: this.updatedAt
+    };
+  }
+
+  /**
+   * Places the original title and description under the analyzer of their language, so
+   * they are only analyzed as the language they are written in
+   */
+  private toLocalizedText(): SearchDocument['localized'] {
+    const analyzer = getLanguageAnalyzer(this.language);
+    return analyzer ? { [analyzer]: { title: this.title, description: this.description } } : null;
+  }
+
   /**
    * Validates and normalizes metadata structure
    * @param metadata Raw metadata object to validate
@@ -0,0 +1,70 @@
+/**
+ * @fileoverview TypeORM entity recording field-level changes detected when a technology
+ * is re-scraped, forming a per-technology change log
+ * @version 1.0.0
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  CreateDateColumn,
+  Index
+} from 'typeorm'; // ^0.3.0
+import { TechnologyFieldChanges } from '../../utils/fingerprint.util';
+
+/**
+ * Kind of change recorded for a technology
+ */
+export enum TechnologyChangeType {
+  CREATED = 'created',
+  UPDATED = 'updated',
+  WITHDRAWN = 'withdrawn',
+  REINSTATED = 'reinstated'
+}
+
+/**
+ * Change log entry capturing which tracked fields changed between two scrapes
+ */
+@Entity('technology_changes')
+@Index(['technologyId', 'detectedAt'])
+@Index(['changeType', 'detectedAt'])
+export class TechnologyChange {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column('uuid')
+  technologyId!: string;
+
+  @Column()
+  institution!: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  changeType!: TechnologyChangeType;
+
+  @Column('jsonb', { default: {} })
+  changedFields: TechnologyFieldChanges;
+
+  @Column({ nullable: true })
+  previousHash!: string;
+
+  @Column()
+  contentHash!: string;
+
+  @Column({ nullable: true })
+  jobId!: string;
+
+  @CreateDateColumn({ type: 'timestamptz' })
+  detectedAt!: Date;
+
+  /**
+   * Creates a change log entry
+   * @param data Optional partial change data
+   */
+  constructor(data?: Partial<TechnologyChange>) {
+    if (data) {
+      Object.assign(this, data);
+    }
+    this.changedFields = data?.changedFields ?? {};
+  }
+}
\ No newline at end of file
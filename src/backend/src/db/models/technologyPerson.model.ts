@@ -0,0 +1,43 @@
+/**
+ * @fileoverview TypeORM entity linking people to the technologies they invented or handle
+ * licensing for
+ * @version 1.0.0
+ */
+
+import {
+  Entity,
+  Column,
+  PrimaryGeneratedColumn,
+  Index
+} from 'typeorm'; // ^0.3.0
+import { PersonRole } from '../../constants/scraper.constants';
+
+/**
+ * Role a person holds on a technology
+ */
+@Entity('technology_people')
+@Index(['technologyId', 'personId', 'role'], { unique: true })
+@Index(['personId', 'role'])
+export class TechnologyPerson {
+  @PrimaryGeneratedColumn('uuid')
+  id!: string;
+
+  @Column('uuid')
+  technologyId!: string;
+
+  @Column('uuid')
+  personId!: string;
+
+  @Column({ type: 'varchar', length: 20 })
+  role!: PersonRole;
+
+  /**
+   * Creates a technology role link
+   * @param data Optional partial link data
+   */
+  constructor(data?: Partial<TechnologyPerson>) {
+    if (data) {
+      Object.assign(this, data);
+    }
+  }
+}
\ No newline at end of file
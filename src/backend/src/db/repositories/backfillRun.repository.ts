@@ -0,0 +1,60 @@
+/**
+ * @fileoverview Repository class for backfill runs and their change reports.
+ * @version 1.0.0
+ */
+
+import mongoose, { isValidObjectId } from 'mongoose'; // v6.0.0
+import BackfillRunModel, { IBackfillRun } from '../models/backfillRun.model';
+
+/**
+ * Repository class for managing backfill run records
+ */
+export class BackfillRunRepository {
+  private readonly model: mongoose.Model<IBackfillRun>;
+
+  constructor() {
+    this.model = BackfillRunModel;
+  }
+
+  /**
+   * Records a requested run
+   */
+  async create(run: Partial<IBackfillRun>): Promise<IBackfillRun> {
+    return this.model.create(run);
+  }
+
+  /**
+   * Finds a run by id, treating malformed ids as missing
+   */
+  async findById(id: string): Promise<IBackfillRun | null> {
+    if (!isValidObjectId(id)) {
+      return null;
+    }
+    return this.model.findById(id).exec();
+  }
+
+  /**
+   * Applies an update to a run and returns the updated record
+   */
+  async update(id: string, update: Partial<IBackfillRun>): Promise<IBackfillRun | null> {
+    return this.model
+      .findByIdAndUpdate(id, { $set: update }, { new: true })
+      .exec();
+  }
+
+  /**
+   * Links a completed dry run to the run committing it, unless another run already did
+   * @returns The dry run after linking, or null when it was already committed
+   */
+  async markCommitted(dryRunId: string, committedRunId: string): Promise<IBackfillRun | null> {
+    return this.model
+      .findOneAndUpdate(
+        { _id: dryRunId, committedRunId: null },
+        { $set: { committedRunId } },
+        { new: true }
+      )
+      .exec();
+  }
+}
+
+export default BackfillRunRepository;
\ No newline at end of file
@@ -0,0 +1,46 @@
+/**
+ * @fileoverview Repository class for classification runs and their change reports.
+ * @version 1.0.0
+ */
+
+import mongoose, { isValidObjectId } from 'mongoose'; // v6.0.0
+import ClassificationRunModel, { IClassificationRun } from '../models/classificationRun.model';
+
+/**
+ * Repository class for managing classification run records
+ */
+export class ClassificationRunRepository {
+  private readonly model: mongoose.Model<IClassificationRun>;
+
+  constructor() {
+    this.model = ClassificationRunModel;
+  }
+
+  /**
+   * Records a requested run
+   */
+  async create(run: Partial<IClassificationRun>): Promise<IClassificationRun> {
+    return this.model.create(run);
+  }
+
+  /**
+   * Finds a run by id, treating malformed ids as missing
+   */
+  async findById(id: string): Promise<IClassificationRun | null> {
+    if (!isValidObjectId(id)) {
+      return null;
+    }
+    return this.model.findById(id).exec();
+  }
+
+  /**
+   * Applies an update to a run and returns the updated record
+   */
+  async update(id: string, update: Partial<IClassificationRun>): Promise<IClassificationRun | null> {
+    return this.model
+      .findByIdAndUpdate(id, { $set: update }, { new: true })
+      .exec();
+  }
+}
+
+export default ClassificationRunRepository;
\ No newline at end of file
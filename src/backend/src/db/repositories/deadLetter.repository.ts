@@ -0,0 +1,150 @@
+/**
+ * @fileoverview Repository class for dead-lettered scraper jobs, supporting filtered listing,
+ * replay bookkeeping and purging of entries drained from the scraper dead-letter queue.
+ * @version 1.0.0
+ */
+
+import mongoose, { FilterQuery, isValidObjectId } from 'mongoose'; // v6.0.0
+import DeadLetterEntryModel, { IDeadLetterEntry } from '../models/deadLetterEntry.model';
+import { DeadLetterFilters } from '../../interfaces/scraper.interface';
+
+/**
+ * Interface for pagination options
+ */
+interface PaginationOptions {
+  page: number;
+  limit: number;
+}
+
+/**
+ * Page of dead-letter entries
+ */
+export interface DeadLetterPage {
+  docs: IDeadLetterEntry[];
+  total: number;
+  page: number;
+  pages: number;
+}
+
+/**
+ * Repository class for managing dead-letter entries
+ */
+export class DeadLetterRepository {
+  private readonly model: mongoose.Model<IDeadLetterEntry>;
+
+  constructor() {
+    this.model = DeadLetterEntryModel;
+    // Index creation waits for the connection; failing it only slows queries down
+    this.ensureIndexes().catch(error => console.error('Failed to create dead-letter indexes:', error));
+  }
+
+  /**
+   * Ensures compound indexes used by the operator views exist
+   */
+  private async ensureIndexes(): Promise<void> {
+    await this.model.collection.createIndex({ status: 1, deadLetteredAt: -1 });
+    await this.model.collection.createIndex({ institutionId: 1, errorType: 1, deadLetteredAt: -1 });
+  }
+
+  /**
+   * Stores a job drained from the dead-letter queue
+   */
+  async create(entry: Partial<IDeadLetterEntry>): Promise<IDeadLetterEntry> {
+    return this.model.create(entry);
+  }
+
+  /**
+   * Lists entries matching the filters, newest first
+   */
+  async findMany(filters: DeadLetterFilters, options: PaginationOptions): Promise<DeadLetterPage> {
+    const query = this.buildQuery(filters);
+    const { page, limit } = options;
+
+    const [docs, total] = await Promise.all([
+      this.model
+        .find(query)
+        .sort({ deadLetteredAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.model.countDocuments(query)
+    ]);
+
+    return {
+      docs,
+      total,
+      page,
+      pages: Math.ceil(total / limit)
+    };
+  }
+
+  /**
+   * Finds a single entry; unknown or malformed ids resolve to null
+   */
+  async findById(id: string): Promise<IDeadLetterEntry | null> {
+    if (!isValidObjectId(id)) {
+      return null;
+    }
+    return this.model.findById(id).exec();
+  }
+
+  /**
+   * Finds the entries among the given ids that exist
+   */
+  async findByIds(ids: string[]): Promise<IDeadLetterEntry[]> {
+    return this.model.find({ _id: { $in: ids.filter(id => isValidObjectId(id)) } }).exec();
+  }
+
+  /**
+   * Records that an entry was put back on the job queue
+   */
+  async markReplayed(id: string, actor: string | null): Promise<IDeadLetterEntry | null> {
+    return this.model.findByIdAndUpdate(
+      id,
+      {
+        $set: { status: 'replayed', lastReplayedAt: new Date(), lastReplayedBy: actor },
+        $inc: { replayCount: 1 }
+      },
+      { new: true }
+    ).exec();
+  }
+
+  /**
+   * Deletes the given entries
+   * @returns Number of entries removed
+   */
+  async deleteByIds(ids: string[]): Promise<number> {
+    const result = await this.model.deleteMany({ _id: { $in: ids.filter(id => isValidObjectId(id)) } });
+    return result.deletedCount ?? 0;
+  }
+
+  /**
+   * Deletes every entry matching the filters
+   * @returns Number of entries removed
+   */
+  async deleteMatching(filters: DeadLetterFilters): Promise<number> {
+    const result = await this.model.deleteMany(this.buildQuery(filters));
+    return result.deletedCount ?? 0;
+  }
+
+  private buildQuery(filters: DeadLetterFilters): FilterQuery<IDeadLetterEntry> {
+    const query: FilterQuery<IDeadLetterEntry> = {};
+
+    if (filters.institutionId) {
+      query.institutionId = filters.institutionId;
+    }
+    if (filters.institutionType) {
+      query.institutionType = filters.institutionType;
+    }
+    if (filters.errorType) {
+      query.errorType = filters.errorType;
+    }
+    if (filters.status) {
+      query.status = filters.status;
+    }
+
+    return query;
+  }
+}
+
+export default DeadLetterRepository;
\ No newline at end of file
@@ -7,18 +7,13 @@
 import {
   Repository,
   EntityRepository,
-  QueryRunner,
-  Transaction,
-  TransactionManager,
-  FindOptionsWhere,
-  ILike,
-  LessThan,
-  MoreThan
+  ILike
 } from 'typeorm';
-import { Logger } from 'winston';
+import * as winston from 'winston'; // v3.8.0
 import { Institution, InstitutionType } from '../models/institution.model';
-import { SCRAPER_ENGINES } from '../../constants/scraper.constants';
-import { RateLimitConfig } from '../../interfaces/scraper.interface';
+import { RobotsOverrideAudit, RobotsOverrideAction } from '../models/robotsOverrideAudit.model';
+import { SCRAPER_ENGINES, PortalVendor } from '../../constants/scraper.constants';
+import { RateLimitConfig, RobotsOverride } from '../../interfaces/scraper.interface';
 
 /**
  * Repository class for managing Institution entities with enhanced functionality
@@ -26,16 +21,13 @@ import { RateLimitConfig } from '../../interfaces/scraper.interface';
 @EntityRepository(Institution)
 export class InstitutionRepository extends Repository<Institution> {
   private readonly CACHE_TTL = 300; // 5 minutes cache
-  private readonly MAX_RETRY_ATTEMPTS = 3;
 
-  /**
-   * Creates a new InstitutionRepository instance
-   * @param logger Winston logger instance for operation tracking
-   */
-  constructor(private readonly logger: Logger) {
-    super();
-    this.logger.info('InstitutionRepository initialized');
-  }
+  // TypeORM constructs custom repositories itself, so the logger cannot be injected
+  private readonly logger = winston.createLogger({
+    level: 'info',
+    format: winston.format.combine(winston.format.timestamp(), winston.format.json()),
+    transports: [new winston.transports.Console()]
+  });
 
   /**
    * Finds an institution by name with case-insensitive search
@@ -62,8 +54,8 @@ export class InstitutionRepository extends Repository<Institution> {
     } catch (error) {
       this.logger.error('Error in findByName', {
         name,
-        error: error.message,
-        stack: error.stack
+        error: (error as Error).message,
+        stack: (error as Error).stack
       });
       throw error;
     }
@@ -92,7 +84,7 @@ export class InstitutionRepository extends Repository<Institution> {
     } catch (error) {
       this.logger.error('Error in findByUrl', {
         baseUrl,
-        error: error.message
+        error: (error as Error).message
       });
       throw error;
     }
@@ -143,7 +135,7 @@ export class InstitutionRepository extends Repository<Institution> {
     } catch (error) {
       this.logger.error('Error in findActiveInstitutions', {
         options,
-        error: error.message
+        error: (error as Error).message
       });
       throw error;
     }
@@ -155,11 +147,9 @@ export class InstitutionRepository extends Repository<Institution> {
    * @param rateLimit New rate limit configuration
    * @returns Promise resolving to updated institution
    */
-  @Transaction()
   async updateRateLimit(
     id: string,
-    rateLimit: RateLimitConfig,
-    @TransactionManager() manager?: QueryRunner
+    rateLimit: RateLimitConfig
   ): Promise<Institution> {
     try {
       // Validate rate limit configuration
@@ -176,7 +166,7 @@ export class InstitutionRepository extends Repository<Institution> {
       // Update rate limit configuration
       institution.rateLimit = rateLimit;
       
-      const updated = await manager?.manager.save(Institution, institution);
+      const updated = await this.manager.save(Institution, institution);
 
       this.logger.info('Rate limit configuration updated', {
         id,
@@ -189,7 +179,7 @@ export class InstitutionRepository extends Repository<Institution> {
       this.logger.error('Error updating rate limit', {
         id,
         rateLimit,
-        error: error.message
+        error: (error as Error).message
       });
       throw error;
     }
@@ -201,11 +191,9 @@ export class InstitutionRepository extends Repository<Institution> {
    * @param engineType New scraper engine type
    * @returns Promise resolving to updated institution
    */
-  @Transaction()
   async updateScraperEngine(
     id: string,
-    engineType: SCRAPER_ENGINES,
-    @TransactionManager() manager?: QueryRunner
+    engineType: SCRAPER_ENGINES
   ): Promise<Institution> {
     try {
       const institution = await this.findOne({ where: { id } });
@@ -219,7 +207,7 @@ export class InstitutionRepository extends Repository<Institution> {
       const previousEngine = institution.engineType;
       institution.engineType = engineType;
 
-      const updated = await manager?.manager.save(Institution, institution);
+      const updated = await this.manager.save(Institution, institution);
 
       this.logger.info('Scraper engine updated', {
         id,
@@ -232,7 +220,232 @@ export class InstitutionRepository extends Repository<Institution> {
       this.logger.error('Error updating scraper engine', {
         id,
         engineType,
-        error: error.message
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Claims active, unpaused institutions whose next scheduled scrape is due, hiding them
+   * from other scheduler replicas for the lease. Institutions never scheduled before are
+   * returned first.
+   * @param now Reference time for due checks
+   * @param limit Maximum institutions to claim
+   * @param leaseSeconds How long the institutions stay claimed
+   * @returns Promise resolving to claimed institutions ordered by scheduled time
+   */
+  async claimDueForScrape(now: Date, limit: number, leaseSeconds: number): Promise<Institution[]> {
+    try {
+      const rows: Array<{ id: string }> = await this.query(`
+        WITH claimed AS (
+          UPDATE institutions institution
+          SET schedule_lease_until = clock_timestamp() + make_interval(secs => $3::double precision)
+          FROM (
+            SELECT id FROM institutions
+            WHERE active = true
+              AND schedule_paused = false
+              AND (next_scheduled_scrape IS NULL OR next_scheduled_scrape <= $1)
+              AND (schedule_lease_until IS NULL OR schedule_lease_until <= clock_timestamp())
+            ORDER BY next_scheduled_scrape ASC NULLS FIRST
+            LIMIT $2
+            FOR UPDATE SKIP LOCKED
+          ) AS due
+          WHERE institution.id = due.id
+          RETURNING institution.id
+        )
+        SELECT id FROM claimed
+      `, [now, limit, leaseSeconds]);
+
+      if (rows.length === 0) {
+        return [];
+      }
+      return await this.createQueryBuilder('institution')
+        .where('institution.id IN (:...ids)', { ids: rows.map(row => row.id) })
+        .orderBy('institution.nextScheduledScrape', 'ASC', 'NULLS FIRST')
+        .getMany();
+    } catch (error) {
+      this.logger.error('Error in claimDueForScrape', {
+        now,
+        limit,
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists active institutions with a scheduled scrape before the given time,
+   * including paused institutions so they remain visible in the schedule
+   * @param until End of the schedule window
+   * @param limit Maximum institutions to return
+   * @returns Promise resolving to institutions ordered by scheduled time
+   */
+  async findScheduledBefore(until: Date, limit: number): Promise<Institution[]> {
+    try {
+      return await this.createQueryBuilder('institution')
+        .where('institution.active = :active', { active: true })
+        .andWhere(
+          '(institution.nextScheduledScrape IS NULL OR institution.nextScheduledScrape <= :until)',
+          { until }
+        )
+        .orderBy('institution.nextScheduledScrape', 'ASC', 'NULLS FIRST')
+        .take(limit)
+        .getMany();
+    } catch (error) {
+      this.logger.error('Error in findScheduledBefore', {
+        until,
+        limit,
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Updates scheduling state for an institution
+   * @param id Institution ID
+   * @param schedule Next scheduled scrape and/or paused flag
+   * @returns Promise resolving to updated institution
+   */
+  async updateSchedule(
+    id: string,
+    schedule: Partial<Pick<Institution, 'nextScheduledScrape' | 'schedulePaused'>>
+  ): Promise<Institution> {
+    try {
+      const institution = await this.findOne({ where: { id } });
+      if (!institution) {
+        throw new Error(`Institution not found with id: ${id}`);
+      }
+
+      Object.assign(institution, schedule);
+      const updated = await this.save(institution);
+
+      this.logger.info('Institution schedule updated', {
+        id,
+        nextScheduledScrape: updated.nextScheduledScrape,
+        schedulePaused: updated.schedulePaused
+      });
+
+      return updated;
+    } catch (error) {
+      this.logger.error('Error updating institution schedule', {
+        id,
+        schedule,
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Records the licensing portal vendor an institution's pages are built with
+   * @param id Institution ID
+   * @param vendor Portal vendor, or null when the institution uses a custom site
+   * @returns Promise resolving to updated institution
+   */
+  async updateVendor(id: string, vendor: PortalVendor | null): Promise<Institution> {
+    try {
+      const institution = await this.findOne({ where: { id } });
+      if (!institution) {
+        throw new Error(`Institution not found with id: ${id}`);
+      }
+
+      const previousVendor = institution.vendor;
+      institution.vendor = vendor;
+      const updated = await this.save(institution);
+
+      this.logger.info('Institution vendor updated', {
+        id,
+        previousVendor,
+        newVendor: vendor
+      });
+
+      return updated;
+    } catch (error) {
+      this.logger.error('Error updating institution vendor', {
+        id,
+        vendor,
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Sets or clears an institution's robots.txt override and records the change in the
+   * override audit trail within the same transaction
+   * @param id Institution ID
+   * @param override New override, or null to clear it
+   * @param actor User making the change
+   * @param reason Justification recorded with the change
+   * @returns Promise resolving to updated institution
+   */
+  async setRobotsOverride(
+    id: string,
+    override: RobotsOverride | null,
+    actor: string,
+    reason: string
+  ): Promise<Institution> {
+    try {
+      const institution = await this.findOne({ where: { id } });
+      if (!institution) {
+        throw new Error(`Institution not found with id: ${id}`);
+      }
+
+      const previous = institution.robotsOverride ?? null;
+      institution.robotsOverride = override;
+
+      const updated = await this.manager.transaction(async manager => {
+        const saved = await manager.save(Institution, institution);
+        await manager.save(RobotsOverrideAudit, new RobotsOverrideAudit({
+          institutionId: id,
+          action: override ? RobotsOverrideAction.SET : RobotsOverrideAction.CLEARED,
+          previous,
+          current: override,
+          reason,
+          actor
+        }));
+        return saved;
+      });
+
+      this.logger.info('Robots override updated', {
+        id,
+        actor,
+        ignoreDisallow: override?.ignoreDisallow ?? false,
+        crawlDelay: override?.crawlDelay ?? null,
+        cleared: !override
+      });
+
+      return updated;
+    } catch (error) {
+      this.logger.error('Error updating robots override', {
+        id,
+        actor,
+        error: (error as Error).message
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Lists robots.txt override changes for an institution, newest first
+   * @param id Institution ID
+   * @param limit Maximum entries to return
+   * @returns Promise resolving to audit entries
+   */
+  async getRobotsOverrideHistory(id: string, limit = 50): Promise<RobotsOverrideAudit[]> {
+    try {
+      return await this.manager.getRepository(RobotsOverrideAudit).find({
+        where: { institutionId: id },
+        order: { createdAt: 'DESC' },
+        take: limit
+      });
+    } catch (error) {
+      this.logger.error('Error in getRobotsOverrideHistory', {
+        id,
+        limit,
+        error: (error as Error).message
       });
       throw error;
     }
@@ -282,10 +495,11 @@ export class InstitutionRepository extends Repository<Institution> {
       throw new Error('Federal labs require Selenium scraper engine');
     }
 
-    // Verify Scrapy compatibility for paginated content
+    // Paginated content needs an engine that follows pagination links: Scrapy, or
+    // Selenium for client-rendered portals that escalate from Scrapy
     if (institution.selectors?.pagination &&
-        engineType !== SCRAPER_ENGINES.SCRAPY) {
-      throw new Error('Paginated content requires Scrapy scraper engine');
+        engineType === SCRAPER_ENGINES.BEAUTIFUL_SOUP) {
+      throw new Error('Paginated content requires Scrapy or Selenium scraper engine');
     }
   }
 }
\ No newline at end of file
@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Repository for users' in-app notification lists
+ * @version 1.0.0
+ */
+
+import { Repository, EntityRepository, IsNull } from 'typeorm'; // ^0.3.0
+import { NotificationRecord } from '../models/notification.model';
+
+/**
+ * Repository class for in-app notifications
+ */
+@EntityRepository(NotificationRecord)
+export class NotificationRepository extends Repository<NotificationRecord> {
+  /**
+   * Lists a user's notifications, newest first
+   * @param unreadOnly Leave out notifications already read
+   */
+  async findByUser(userId: string, limit: number, offset: number, unreadOnly = false): Promise<NotificationRecord[]> {
+    return this.find({
+      where: unreadOnly ? { userId, readAt: IsNull() } : { userId },
+      order: { createdAt: 'DESC' },
+      take: limit,
+      skip: offset
+    });
+  }
+
+  /**
+   * Counts a user's unread notifications
+   */
+  async countUnread(userId: string): Promise<number> {
+    return this.count({ where: { userId, readAt: IsNull() } });
+  }
+
+  /**
+   * Marks a user's notification as read
+   * @returns False when the user has no such notification
+   */
+  async markRead(id: string, userId: string): Promise<boolean> {
+    const [{ count }] = await this.query(`
+      WITH marked AS (
+        UPDATE notifications SET read_at = COALESCE(read_at, now())
+        WHERE id = $1 AND user_id = $2
+        RETURNING id
+      )
+      SELECT count(*)::int AS count FROM marked
+    `, [id, userId]);
+    return count > 0;
+  }
+
+  /**
+   * Marks all of a user's notifications as read
+   * @returns Number of notifications that were unread
+   */
+  async markAllRead(userId: string): Promise<number> {
+    const [{ count }] = await this.query(`
+      WITH marked AS (
+        UPDATE notifications SET read_at = now()
+        WHERE user_id = $1 AND read_at IS NULL
+        RETURNING id
+      )
+      SELECT count(*)::int AS count FROM marked
+    `, [userId]);
+    return count;
+  }
+}
+
+export default NotificationRepository;
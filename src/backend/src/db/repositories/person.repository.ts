@@ -0,0 +1,133 @@
+/**
+ * @fileoverview Repository class for the people directory: finding inventors and licensing
+ * contacts and the technologies they are named on
+ * @version 1.0.0
+ */
+
+import { Repository, EntityRepository, QueryRunner, In } from 'typeorm'; // ^0.3.0
+import { Person } from '../models/person.model';
+import { TechnologyPerson } from '../models/technologyPerson.model';
+import { Technology } from '../models/technology.model';
+import { personNameKey } from '../../utils/people.util';
+import { PERSON_ROLES, PersonRole } from '../../constants/scraper.constants';
+
+/**
+ * Person with the number of active technologies they hold each role on
+ */
+export interface PersonDirectoryEntry {
+  person: Person;
+  technologyCounts: Record<PersonRole, number>;
+}
+
+/**
+ * Options narrowing a people directory search
+ */
+export interface PersonSearchOptions {
+  role?: PersonRole;
+  institution?: string;
+  limit?: number;
+}
+
+/**
+ * Technology a person is named on, with the roles they hold on it
+ */
+export interface PersonTechnology {
+  technology: Technology;
+  roles: PersonRole[];
+}
+
+/**
+ * Repository class for people named on technologies
+ */
+@EntityRepository(Person)
+export class PersonRepository {
+  private repository: Repository<Person>;
+  private linkRepository: Repository<TechnologyPerson>;
+  private technologyRepository: Repository<Technology>;
+  private readonly DEFAULT_LIMIT = 50;
+
+  /**
+   * @param queryRunner Database connection the repository queries on
+   */
+  constructor(private readonly queryRunner: QueryRunner) {
+    this.repository = this.queryRunner.manager.getRepository(Person);
+    this.linkRepository = this.queryRunner.manager.getRepository(TechnologyPerson);
+    this.technologyRepository = this.queryRunner.manager.getRepository(Technology);
+  }
+
+  /**
+   * Searches the directory by name or email, ignoring case, accents, titles and middle names
+   * @param query Name fragment or email address; empty lists everyone
+   * @param options Role, institution and result limit
+   * @returns Matching people with their technology counts, by name
+   */
+  async search(query: string, options: PersonSearchOptions = {}): Promise<PersonDirectoryEntry[]> {
+    const builder = this.repository.createQueryBuilder('person')
+      .leftJoin(TechnologyPerson, 'link', 'link.personId = person.id')
+      .leftJoin(Technology, 'technology', 'technology.id = link.technologyId AND technology.active = true')
+      .addSelect('COUNT(technology.id) FILTER (WHERE link.role = :inventorRole)', 'inventor_count')
+      .addSelect('COUNT(technology.id) FILTER (WHERE link.role = :contactRole)', 'contact_count')
+      .setParameters({ inventorRole: PERSON_ROLES.INVENTOR, contactRole: PERSON_ROLES.LICENSING_CONTACT })
+      .groupBy('person.id')
+      .orderBy('person.name', 'ASC')
+      .limit(Math.min(options.limit || this.DEFAULT_LIMIT, 200));
+
+    const nameKey = personNameKey(query || '');
+    if (nameKey) {
+      builder.andWhere('(person.nameKey LIKE :nameKey OR person.email = :email)', {
+        nameKey: `%${nameKey}%`,
+        email: query.trim().toLowerCase()
+      });
+    }
+
+    if (options.institution) {
+      builder.andWhere('person.institution = :institution', { institution: options.institution });
+    }
+
+    if (options.role) {
+      builder.having('COUNT(technology.id) FILTER (WHERE link.role = :role) > 0', { role: options.role });
+    }
+
+    const { entities, raw } = await builder.getRawAndEntities();
+
+    return entities.map((person, index) => ({
+      person,
+      technologyCounts: {
+        [PERSON_ROLES.INVENTOR]: Number(raw[index]?.inventor_count || 0),
+        [PERSON_ROLES.LICENSING_CONTACT]: Number(raw[index]?.contact_count || 0)
+      }
+    }));
+  }
+
+  /**
+   * Finds a person by id
+   * @param id Person identifier
+   */
+  async findById(id: string): Promise<Person | null> {
+    return this.repository.findOne({ where: { id } });
+  }
+
+  /**
+   * Lists the active technologies a person is named on, newest first
+   * @param personId Person identifier
+   * @param role Only technologies where the person holds this role
+   */
+  async findTechnologies(personId: string, role?: PersonRole): Promise<PersonTechnology[]> {
+    const links = await this.linkRepository.find({
+      where: { personId, ...(role ? { role } : {}) }
+    });
+    if (links.length === 0) {
+      return [];
+    }
+
+    const technologies = await this.technologyRepository.find({
+      where: { id: In([...new Set(links.map(link => link.technologyId))]), active: true },
+      order: { discoveredAt: 'DESC' }
+    });
+
+    return technologies.map(technology => ({
+      technology,
+      roles: links.filter(link => link.technologyId === technology.id).map(link => link.role)
+    }));
+  }
+}
\ No newline at end of file
@@ -0,0 +1,173 @@
+/**
+ * @fileoverview Repository for saved searches and the technologies they have matched. Alert
+ * runs claim searches with a lease so several workers can re-execute them without alerting
+ * twice, and a match is recorded once per search so it is only ever alerted once.
+ * @version 1.0.0
+ */
+
+import { Repository, EntityRepository, In } from 'typeorm'; // ^0.3.0
+import { SavedSearchRecord } from '../models/savedSearch.model';
+
+/**
+ * Match waiting for an alert
+ */
+export interface PendingMatch {
+  technologyId: string;
+  matchedAt: Date;
+}
+
+/**
+ * Matches waiting for an alert
+ */
+export interface PendingMatches {
+  /** Oldest waiting matches, up to the requested limit */
+  matches: PendingMatch[];
+  total: number;
+  latestMatchedAt: Date | null;
+}
+
+/**
+ * Repository class for saved searches
+ */
+@EntityRepository(SavedSearchRecord)
+export class SavedSearchRepository extends Repository<SavedSearchRecord> {
+  /**
+   * Lists a user's saved searches, oldest first
+   */
+  async findByUser(userId: string): Promise<SavedSearchRecord[]> {
+    return this.find({ where: { userId }, order: { createdAt: 'ASC' } });
+  }
+
+  /**
+   * Finds a saved search owned by the given user
+   */
+  async findOwned(id: string, userId: string): Promise<SavedSearchRecord | null> {
+    return (await this.findOne({ where: { id, userId } })) || null;
+  }
+
+  /**
+   * Finds the saved search an unsubscribe link was sent for
+   */
+  async findByUnsubscribeToken(token: string): Promise<SavedSearchRecord | null> {
+    return (await this.findOne({ where: { unsubscribeToken: token } })) || null;
+  }
+
+  /**
+   * Claims saved searches with alerts on that were last run before the watermark, hiding
+   * them from other workers for the lease. Settling a run moves its watermark forward, so
+   * repeated claims work through every search once.
+   * @param watermark Time the run searches up to
+   * @param limit Largest number of searches to claim
+   * @param leaseSeconds How long the searches stay claimed if the run never settles
+   */
+  async claimForRun(watermark: Date, limit: number, leaseSeconds: number): Promise<SavedSearchRecord[]> {
+    const rows: Array<{ id: string }> = await this.query(`
+      WITH claimed AS (
+        UPDATE saved_searches saved
+        SET run_lease_until = clock_timestamp() + make_interval(secs => $3::double precision)
+        FROM (
+          SELECT id FROM saved_searches
+          WHERE alerts_enabled
+            AND last_run_at < $1
+            AND (run_lease_until IS NULL OR run_lease_until <= clock_timestamp())
+          ORDER BY last_run_at
+          LIMIT $2
+          FOR UPDATE SKIP LOCKED
+        ) AS next
+        WHERE saved.id = next.id
+        RETURNING saved.id
+      )
+      SELECT id FROM claimed
+    `, [watermark, limit, leaseSeconds]);
+
+    if (rows.length === 0) {
+      return [];
+    }
+    return this.find({ where: { id: In(rows.map(row => row.id)) }, order: { lastRunAt: 'ASC' } });
+  }
+
+  /**
+   * Releases a claimed search, recording the watermark its run searched up to
+   * @param nextDigestAt Next digest time, when the run sent or skipped a due digest
+   */
+  async completeRun(id: string, watermark: Date, nextDigestAt?: Date): Promise<void> {
+    await this.query(`
+      UPDATE saved_searches
+      SET last_run_at = GREATEST(last_run_at, $2),
+          next_digest_at = COALESCE($3, next_digest_at),
+          run_lease_until = NULL
+      WHERE id = $1
+    `, [id, watermark, nextDigestAt || null]);
+  }
+
+  /**
+   * Records technologies a search matched, skipping ones it matched before
+   * @returns Ids of the technologies matched for the first time
+   */
+  async recordMatches(savedSearchId: string, technologyIds: string[]): Promise<string[]> {
+    if (technologyIds.length === 0) {
+      return [];
+    }
+
+    const rows: Array<{ technology_id: string }> = await this.query(`
+      INSERT INTO saved_search_matches (saved_search_id, technology_id)
+      SELECT $1, id FROM unnest($2::uuid[]) AS id
+      ON CONFLICT (saved_search_id, technology_id) DO NOTHING
+      RETURNING technology_id
+    `, [savedSearchId, technologyIds]);
+    return rows.map(row => row.technology_id);
+  }
+
+  /**
+   * Returns the oldest matches waiting for an alert, with how many are waiting in total and
+   * when the newest of them was recorded
+   * @param limit Largest number of matches returned
+   */
+  async findPendingMatches(savedSearchId: string, limit: number): Promise<PendingMatches> {
+    const rows: Array<{ technology_id: string; matched_at: Date; total: number; latest: Date }> = await this.query(`
+      SELECT technology_id, matched_at, count(*) OVER ()::int AS total, max(matched_at) OVER () AS latest
+      FROM saved_search_matches
+      WHERE saved_search_id = $1 AND notified_at IS NULL
+      ORDER BY matched_at, technology_id
+      LIMIT $2
+    `, [savedSearchId, limit]);
+
+    return {
+      matches: rows.map(row => ({ technologyId: row.technology_id, matchedAt: new Date(row.matched_at) })),
+      total: rows.length > 0 ? Number(rows[0].total) : 0,
+      latestMatchedAt: rows.length > 0 ? new Date(rows[0].latest) : null
+    };
+  }
+
+  /**
+   * Counts matches waiting for an alert per saved search
+   */
+  async countPendingMatches(savedSearchIds: string[]): Promise<Map<string, number>> {
+    if (savedSearchIds.length === 0) {
+      return new Map();
+    }
+
+    const rows: Array<{ saved_search_id: string; count: number }> = await this.query(`
+      SELECT saved_search_id, count(*)::int AS count
+      FROM saved_search_matches
+      WHERE saved_search_id = ANY($1::uuid[]) AND notified_at IS NULL
+      GROUP BY saved_search_id
+    `, [savedSearchIds]);
+    return new Map(rows.map(row => [row.saved_search_id, Number(row.count)]));
+  }
+
+  /**
+   * Marks the matches recorded up to the given time as alerted
+   * @param upTo Newest match the alert covered; later ones wait for the next alert
+   */
+  async markNotified(savedSearchId: string, upTo: Date): Promise<void> {
+    await this.query(`
+      UPDATE saved_search_matches
+      SET notified_at = now()
+      WHERE saved_search_id = $1 AND notified_at IS NULL AND matched_at <= $2
+    `, [savedSearchId, upTo]);
+    await this.query('UPDATE saved_searches SET last_notified_at = now() WHERE id = $1', [savedSearchId]);
+  }
+}
+
+export default SavedSearchRepository;
@@ -4,10 +4,10 @@
  * @version 1.0.0
  */
 
-import mongoose, { Document, FilterQuery, PaginateOptions } from 'mongoose'; // v6.0.0
+import mongoose, { Document, FilterQuery } from 'mongoose'; // v6.0.0
 import dayjs from 'dayjs'; // v1.10.0
 import ScrapeLog, { createErrorLog, createSuccessLog } from '../models/scrapeLog.model';
-import { ScraperError, ScraperResult } from '../../interfaces/scraper.interface';
+import { ScraperError, ScraperResult, RobotsDecision } from '../../interfaces/scraper.interface';
 import { ERROR_TYPES } from '../../constants/scraper.constants';
 
 /**
@@ -53,7 +53,8 @@ export class ScrapeLogRepository {
 
   constructor() {
     this.model = ScrapeLog;
-    this.ensureIndexes();
+    // Index creation waits for the connection; failing it only slows queries down
+    this.ensureIndexes().catch(error => console.error('Failed to create scrape log indexes:', error));
   }
 
   /**
@@ -64,6 +65,7 @@ export class ScrapeLogRepository {
     await this.model.collection.createIndex({ url: 1, timestamp: -1 });
     await this.model.collection.createIndex({ errorType: 1, timestamp: -1 });
     await this.model.collection.createIndex({ 'performanceMetrics.startTime': 1 });
+    await this.model.collection.createIndex({ 'metadata.institutionId': 1, timestamp: -1 });
   }
 
   /**
@@ -94,6 +96,67 @@ export class ScrapeLogRepository {
     );
   }
 
+  /**
+   * Records a URL skipped because robots.txt disallows it
+   */
+  async logDisallowed(
+    decision: RobotsDecision,
+    context: { jobId: string; institutionType: string; institutionId?: string; userAgent: string }
+  ): Promise<Document> {
+    return this.model.create({
+      jobId: context.jobId,
+      url: decision.url,
+      level: 'error',
+      message: `Disallowed by robots.txt${decision.rule ? ` (${decision.rule})` : ''}`,
+      errorType: ERROR_TYPES.ROBOTS_DISALLOWED,
+      institutionType: context.institutionType,
+      timestamp: new Date(),
+      metadata: {
+        institutionId: context.institutionId,
+        robotsUrl: decision.robotsUrl,
+        rule: decision.rule,
+        userAgent: context.userAgent
+      }
+    });
+  }
+
+  /**
+   * Records how many elements each selector matched on a run, for drift detection
+   */
+  async logSelectorYield(
+    yields: Record<string, number>,
+    context: { jobId: string; url: string; institutionType: string; institutionId: string }
+  ): Promise<Document> {
+    return this.model.create({
+      jobId: context.jobId,
+      url: context.url,
+      level: 'info',
+      message: 'Selector yield recorded',
+      itemsProcessed: Math.max(0, ...Object.values(yields)),
+      institutionType: context.institutionType,
+      timestamp: new Date(),
+      metadata: {
+        institutionId: context.institutionId,
+        selectorYield: yields
+      }
+    });
+  }
+
+  /**
+   * Retrieves an institution's recent selector yields, newest first
+   */
+  async getSelectorYieldHistory(institutionId: string, limit: number): Promise<Array<Record<string, number>>> {
+    const logs = await this.model
+      .find({ 'metadata.institutionId': institutionId, 'metadata.selectorYield': { $exists: true } })
+      .select('metadata.selectorYield')
+      .sort({ timestamp: -1 })
+      .limit(limit)
+      .lean()
+      .exec();
+
+    return logs.map((log: any) => log.metadata.selectorYield);
+  }
+
   /**
    * Retrieves all logs for a specific job with pagination
    */
@@ -216,7 +279,7 @@ export class ScrapeLogRepository {
     };
 
     results.forEach((result: any) => {
-      const { errorType, date } = result._id;
+      const { errorType, date }: { errorType: ERROR_TYPES; date: string } = result._id;
       stats.totalErrors += result.count;
       stats.errorsByType[errorType] = (stats.errorsByType[errorType] || 0) + result.count;
       stats.retryAttempts += result.retryAttempts;
@@ -0,0 +1,258 @@
+/**
+ * @fileoverview Repository class for scrape runs: per-job bookkeeping while a run is open,
+ * run history, and the latest-run rollup behind the institution health scorecard.
+ * @version 1.0.0
+ */
+
+import mongoose, { FilterQuery } from 'mongoose'; // v6.0.0
+import ScrapeRunModel, { IScrapeRun } from '../models/scrapeRun.model';
+import { ScrapeRunFilters, ScrapeRunItems } from '../../interfaces/scraper.interface';
+
+/**
+ * Interface for pagination options
+ */
+interface PaginationOptions {
+  page: number;
+  limit: number;
+}
+
+/**
+ * Page of scrape runs
+ */
+export interface ScrapeRunPage {
+  docs: IScrapeRun[];
+  total: number;
+  page: number;
+  pages: number;
+}
+
+/**
+ * Run and job a scraper job attempt belongs to
+ */
+export interface RunJobContext {
+  runId: string;
+  institutionId: string;
+  institutionType: string;
+  jobId: string;
+  url: string;
+}
+
+/**
+ * Final state of a job within a run, with the item counts it contributes
+ */
+export interface RunJobOutcome {
+  status: 'completed' | 'failed';
+  items: Partial<ScrapeRunItems>;
+  error: string | null;
+  technologyIds: string[];
+  truncated?: boolean;
+  listingComplete?: boolean;
+}
+
+/**
+ * An institution's latest finished run with the score of the run before it
+ */
+export interface ScorecardRow {
+  latest: IScrapeRun;
+  previousScore: number | null;
+  lastSuccessAt: Date | null;
+}
+
+/**
+ * Repository class for managing scrape run records
+ */
+export class ScrapeRunRepository {
+  private readonly model: mongoose.Model<IScrapeRun>;
+
+  constructor() {
+    this.model = ScrapeRunModel;
+  }
+
+  /**
+   * Finds a run by its run id
+   */
+  async findByRunId(runId: string): Promise<IScrapeRun | null> {
+    return this.model.findOne({ runId }).select('-seenTechnologyIds').exec();
+  }
+
+  /**
+   * Opens the run if needed and records an attempt of one of its jobs. A job seen for
+   * the first time is added to the run; a retried job is marked running again.
+   */
+  async startJob(context: RunJobContext): Promise<void> {
+    const now = new Date();
+    await this.model.updateOne(
+      { runId: context.runId },
+      {
+        $setOnInsert: {
+          institutionId: context.institutionId,
+          institutionType: context.institutionType,
+          status: 'running',
+          startedAt: now
+        },
+        $inc: { attempts: 1 }
+      },
+      { upsert: true }
+    ).exec();
+
+    const added = await this.model.updateOne(
+      { runId: context.runId, 'jobs.jobId': { $ne: context.jobId } },
+      {
+        $push: {
+          jobs: {
+            jobId: context.jobId,
+            url: context.url,
+            status: 'running',
+            attempts: 1,
+            itemsFound: 0,
+            error: null,
+            startedAt: now,
+            completedAt: null
+          }
+        }
+      }
+    ).exec();
+
+    if (added.modifiedCount === 0) {
+      await this.model.updateOne(
+        { runId: context.runId, 'jobs.jobId': context.jobId },
+        { $set: { 'jobs.$.status': 'running' }, $inc: { 'jobs.$.attempts': 1 } }
+      ).exec();
+    }
+  }
+
+  /**
+   * Counts a failed attempt against the run
+   */
+  async recordError(runId: string, errorType: string, message: string): Promise<void> {
+    await this.model.updateOne(
+      { runId },
+      {
+        $inc: { errorCount: 1, [`errorsByType.${errorType}`]: 1 },
+        $set: { lastError: message }
+      }
+    ).exec();
+  }
+
+  /**
+   * Settles a job and adds its item counts and produced technologies to the run
+   * @returns The run after the update, or null when the job is not part of it
+   */
+  async settleJob(runId: string, jobId: string, outcome: RunJobOutcome): Promise<IScrapeRun | null> {
+    const increments: Record<string, number> = {};
+    for (const [key, value] of Object.entries(outcome.items)) {
+      if (value) {
+        increments[`items.${key}`] = value;
+      }
+    }
+
+    return this.model.findOneAndUpdate(
+      { runId, 'jobs.jobId': jobId },
+      {
+        $set: {
+          'jobs.$.status': outcome.status,
+          'jobs.$.itemsFound': outcome.items.found ?? 0,
+          'jobs.$.truncated': outcome.truncated ?? false,
+          'jobs.$.listingComplete': outcome.listingComplete ?? false,
+          'jobs.$.error': outcome.error,
+          'jobs.$.completedAt': new Date()
+        },
+        ...(Object.keys(increments).length > 0 ? { $inc: increments } : {}),
+        $addToSet: { seenTechnologyIds: { $each: outcome.technologyIds } }
+      },
+      { new: true }
+    ).exec();
+  }
+
+  /**
+   * Closes a running run, unless another job already closed it
+   * @returns The finished run, or null when it was no longer running
+   */
+  async finish(runId: string, update: Partial<IScrapeRun>): Promise<IScrapeRun | null> {
+    return this.model
+      .findOneAndUpdate({ runId, status: 'running' }, { $set: update }, { new: true })
+      .select('-seenTechnologyIds')
+      .exec();
+  }
+
+  /**
+   * Lists an institution's finished runs, newest first
+   */
+  async findRecentFinished(institutionId: string, limit: number): Promise<IScrapeRun[]> {
+    return this.model
+      .find({ institutionId, status: { $ne: 'running' } })
+      .select('-seenTechnologyIds -jobs')
+      .sort({ completedAt: -1 })
+      .limit(limit)
+      .exec();
+  }
+
+  /**
+   * Lists runs matching the filters, most recently started first
+   */
+  async findMany(filters: ScrapeRunFilters, options: PaginationOptions): Promise<ScrapeRunPage> {
+    const query: FilterQuery<IScrapeRun> = {};
+    if (filters.institutionId) {
+      query.institutionId = filters.institutionId;
+    }
+    if (filters.status) {
+      query.status = filters.status;
+    }
+    const { page, limit } = options;
+
+    const [docs, total] = await Promise.all([
+      this.model
+        .find(query)
+        .select('-seenTechnologyIds')
+        .sort({ startedAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .exec(),
+      this.model.countDocuments(query)
+    ]);
+
+    return {
+      docs,
+      total,
+      page,
+      pages: Math.ceil(total / limit)
+    };
+  }
+
+  /**
+   * Returns each institution's latest run finished since the given date, with the
+   * previous run's score for trend and the time of its last fully successful run
+   */
+  async getScorecard(since: Date): Promise<ScorecardRow[]> {
+    const rows = await this.model.aggregate([
+      { $match: { status: { $ne: 'running' }, completedAt: { $gte: since } } },
+      { $sort: { completedAt: -1 } },
+      {
+        $group: {
+          _id: '$institutionId',
+          latest: { $first: '$$ROOT' },
+          scores: { $push: '$health.score' },
+          lastSuccessAt: {
+            $max: { $cond: [{ $eq: ['$status', 'completed'] }, '$completedAt', null] }
+          }
+        }
+      },
+      {
+        $project: {
+          latest: 1,
+          lastSuccessAt: 1,
+          previousScore: { $ifNull: [{ $arrayElemAt: ['$scores', 1] }, null] }
+        }
+      },
+      { $unset: ['latest.seenTechnologyIds', 'latest.jobs'] }
+    ]);
+
+    return rows.map((row: any) => ({
+      latest: this.model.hydrate(row.latest),
+      previousScore: row.previousScore,
+      lastSuccessAt: row.lastSuccessAt ?? null
+    }));
+  }
+}
+
+export default ScrapeRunRepository;
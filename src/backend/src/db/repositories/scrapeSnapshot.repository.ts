@@ -0,0 +1,77 @@
+/**
+ * @fileoverview Repository class for archived raw scrape snapshot metadata.
+ * @version 1.0.0
+ */
+
+import mongoose, { isValidObjectId } from 'mongoose'; // v6.0.0
+import ScrapeSnapshotModel, { IScrapeSnapshot } from '../models/scrapeSnapshot.model';
+import { BackfillScope } from '../../interfaces/scraper.interface';
+
+/**
+ * Repository class for managing scrape snapshot records
+ */
+export class ScrapeSnapshotRepository {
+  private readonly model: mongoose.Model<IScrapeSnapshot>;
+
+  constructor() {
+    this.model = ScrapeSnapshotModel;
+  }
+
+  /**
+   * Records one archived fetch
+   */
+  async create(snapshot: Partial<IScrapeSnapshot>): Promise<IScrapeSnapshot> {
+    return this.model.create(snapshot);
+  }
+
+  /**
+   * Finds a snapshot record by id, treating malformed ids as missing
+   */
+  async findById(id: string): Promise<IScrapeSnapshot | null> {
+    if (!isValidObjectId(id)) {
+      return null;
+    }
+    return this.model.findById(id).exec();
+  }
+
+  /**
+   * Finds the record whose upload most recently wrote the given content
+   */
+  async findLatestByHash(sha256: string): Promise<IScrapeSnapshot | null> {
+    return this.model
+      .findOne({ sha256 })
+      .sort({ storedAt: -1 })
+      .exec();
+  }
+
+  /**
+   * Finds the most recent snapshot of each page an institution in scope fetched within
+   * the window, ordered by institution and URL
+   * @param scope Institutions and capture window; no institutions means all of them
+   * @param limit Most snapshots to return
+   */
+  async findLatestPerPage(scope: BackfillScope, limit: number): Promise<IScrapeSnapshot[]> {
+    const match: Record<string, any> = {
+      institutionId: scope.institutionIds.length > 0 ? { $in: scope.institutionIds } : { $ne: null }
+    };
+    if (scope.from || scope.to) {
+      match.capturedAt = {
+        ...(scope.from ? { $gte: scope.from } : {}),
+        ...(scope.to ? { $lte: scope.to } : {})
+      };
+    }
+
+    const latest = await this.model.aggregate([
+      { $match: match },
+      { $sort: { capturedAt: -1 } },
+      { $group: { _id: { institutionId: '$institutionId', url: '$url' }, snapshot: { $first: '$$ROOT' } } },
+      { $replaceRoot: { newRoot: '$snapshot' } },
+      { $sort: { institutionId: 1, url: 1 } },
+      { $limit: limit }
+    ]).allowDiskUse(true).exec();
+
+    return latest.map(snapshot => this.model.hydrate(snapshot));
+  }
+}
+
+export default ScrapeSnapshotRepository;
\ No newline at end of file
@@ -0,0 +1,167 @@
+/**
+ * @fileoverview Repository for the queue of technologies waiting to be written to the
+ * search index. Batches are claimed with a lease so several workers can drain the queue
+ * without sending the same change twice.
+ * @version 1.0.0
+ */
+
+import { Repository, EntityRepository } from 'typeorm'; // ^0.3.0
+import { SearchIndexEntry } from '../models/searchIndexEntry.model';
+import { SearchIndexOperation } from '../../interfaces/search.interface';
+
+/**
+ * Queued change claimed for a batch
+ */
+export interface ClaimedIndexChange {
+  technologyId: string;
+  operation: SearchIndexOperation;
+  version: number;
+  attempts: number;
+}
+
+/**
+ * Repository class for the search index change queue
+ */
+@EntityRepository(SearchIndexEntry)
+export class SearchIndexQueueRepository extends Repository<SearchIndexEntry> {
+  /**
+   * Claims the oldest available changes, hiding them from other workers for the lease
+   * @param limit Largest number of changes to claim
+   * @param leaseSeconds How long the changes stay claimed if the batch never settles
+   */
+  async claim(limit: number, leaseSeconds: number): Promise<ClaimedIndexChange[]> {
+    const rows: Array<{ technology_id: string; operation: SearchIndexOperation; version: number; attempts: number }> =
+      await this.query(`
+        WITH claimed AS (
+          UPDATE search_index_queue queue
+          SET available_at = clock_timestamp() + make_interval(secs => $2::double precision)
+          FROM (
+            SELECT technology_id FROM search_index_queue
+            WHERE available_at <= clock_timestamp()
+            ORDER BY enqueued_at
+            LIMIT $1
+            FOR UPDATE SKIP LOCKED
+          ) AS next
+          WHERE queue.technology_id = next.technology_id
+          RETURNING queue.technology_id, queue.operation, queue.version, queue.attempts
+        )
+        SELECT * FROM claimed
+      `, [limit, leaseSeconds]);
+
+    return rows.map(row => ({
+      technologyId: row.technology_id,
+      operation: row.operation,
+      version: Number(row.version),
+      attempts: Number(row.attempts)
+    }));
+  }
+
+  /**
+   * Removes changes that were written, unless a newer change replaced them meanwhile
+   */
+  async complete(changes: ClaimedIndexChange[]): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+
+    await this.query(`
+      DELETE FROM search_index_queue queue
+      USING unnest($1::uuid[], $2::integer[]) AS sent(technology_id, version)
+      WHERE queue.technology_id = sent.technology_id AND queue.version = sent.version
+    `, [changes.map(change => change.technologyId), changes.map(change => change.version)]);
+  }
+
+  /**
+   * Puts failed changes back with an exponential backoff, unless a newer change replaced them
+   * @param errors Error message per technology id
+   * @param baseDelay First retry delay in seconds
+   * @param maxDelay Longest retry delay in seconds
+   */
+  async fail(
+    changes: ClaimedIndexChange[],
+    errors: Map<string, string>,
+    baseDelay: number,
+    maxDelay: number
+  ): Promise<void> {
+    if (changes.length === 0) {
+      return;
+    }
+
+    await this.query(`
+      UPDATE search_index_queue queue
+      SET attempts = queue.attempts + 1,
+          last_error = failed.error,
+          available_at = clock_timestamp() + make_interval(secs => LEAST($4::double precision, $3 * power(2, queue.attempts)))
+      FROM unnest($1::uuid[], $2::integer[], $5::text[]) AS failed(technology_id, version, error)
+      WHERE queue.technology_id = failed.technology_id AND queue.version = failed.version
+    `, [
+      changes.map(change => change.technologyId),
+      changes.map(change => change.version),
+      baseDelay,
+      maxDelay,
+      changes.map(change => errors.get(change.technologyId) || 'Unknown error')
+    ]);
+  }
+
+  /**
+   * Queues technologies for indexing or removal
+   * @returns Number of changes queued
+   */
+  async enqueue(technologyIds: string[], operation: SearchIndexOperation): Promise<number> {
+    if (technologyIds.length === 0) {
+      return 0;
+    }
+
+    const [{ count }] = await this.query(`
+      WITH queued AS (
+        SELECT enqueue_search_index(id, $2) FROM unnest($1::uuid[]) AS id
+      )
+      SELECT count(*)::int AS count FROM queued
+    `, [technologyIds, operation]);
+    return count;
+  }
+
+  /**
+   * Queues every technology updated since the given time
+   * @returns Number of changes queued
+   */
+  async enqueueChangedSince(since: Date): Promise<number> {
+    const [{ count }] = await this.query(`
+      WITH queued AS (
+        SELECT enqueue_search_index(id, 'index') FROM technologies WHERE updated_at >= $1
+      )
+      SELECT count(*)::int AS count FROM queued
+    `, [since]);
+    return count;
+  }
+
+  /**
+   * Returns when the oldest change waiting for its first indexing attempt was made, or null
+   * when there is none. Technologies changed since then may not be searchable yet. Changes
+   * backing off after a failure are left out, so one failing document cannot hold back
+   * everything that waits on the index catching up.
+   */
+  async findOldestEnqueuedAt(): Promise<Date | null> {
+    const [{ oldest }] = await this.query(
+      'SELECT min(enqueued_at) AS oldest FROM search_index_queue WHERE attempts = 0'
+    );
+    return oldest ? new Date(oldest) : null;
+  }
+
+  /**
+   * Returns which of the given technologies have a change waiting in the queue
+   */
+  async findPending(technologyIds: string[]): Promise<Set<string>> {
+    if (technologyIds.length === 0) {
+      return new Set();
+    }
+
+    const rows: Array<{ technology_id: string }> = await this.query(
+      'SELECT technology_id FROM search_index_queue WHERE technology_id = ANY($1::uuid[])',
+      [technologyIds]
+    );
+    return new Set(rows.map(row => row.technology_id));
+  }
+}
+
+export default SearchIndexQueueRepository;
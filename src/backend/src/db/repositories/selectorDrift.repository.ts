@@ -0,0 +1,114 @@
+/**
+ * @fileoverview Repository class for per-institution selector health, holding the last-good
+ * HTML snapshot and the drift flags surfaced to operators.
+ * @version 1.0.0
+ */
+
+import mongoose from 'mongoose'; // v6.0.0
+import SelectorDriftModel, { ISelectorDrift, ISelectorSnapshot } from '../models/selectorDrift.model';
+import { SelectorDriftField } from '../../interfaces/scraper.interface';
+
+/**
+ * Institution and page a selector check ran against
+ */
+export interface SelectorCheckContext {
+  institutionId: string;
+  institutionType: string;
+  url: string;
+  selectors: Record<string, string>;
+}
+
+/**
+ * Repository class for managing selector drift records
+ */
+export class SelectorDriftRepository {
+  private readonly model: mongoose.Model<ISelectorDrift>;
+
+  constructor() {
+    this.model = SelectorDriftModel;
+  }
+
+  /**
+   * Finds the drift record for an institution, including its snapshot
+   */
+  async findByInstitution(institutionId: string): Promise<ISelectorDrift | null> {
+    return this.model.findOne({ institutionId }).exec();
+  }
+
+  /**
+   * Lists institutions with an open drift flag, most recently detected first
+   */
+  async findDrifted(): Promise<ISelectorDrift[]> {
+    return this.model
+      .find({ status: 'drifted' })
+      .select('-lastGood.html')
+      .sort({ detectedAt: -1 })
+      .exec();
+  }
+
+  /**
+   * Records a healthy run, replacing the last-good snapshot when one is given and
+   * clearing any open drift flag
+   */
+  async markHealthy(context: SelectorCheckContext, snapshot: ISelectorSnapshot | null): Promise<void> {
+    await this.model.updateOne(
+      { institutionId: context.institutionId },
+      {
+        $set: {
+          ...context,
+          status: 'healthy',
+          fields: [],
+          detectedAt: null,
+          lastCheckedAt: new Date(),
+          ...(snapshot ? { lastGood: snapshot } : {})
+        }
+      },
+      { upsert: true }
+    ).exec();
+  }
+
+  /**
+   * Opens or refreshes a drift flag, keeping the original detection time while the
+   * flag stays open
+   */
+  async markDrifted(context: SelectorCheckContext, fields: SelectorDriftField[]): Promise<void> {
+    const now = new Date();
+    await this.model.updateOne(
+      { institutionId: context.institutionId },
+      [{
+        $set: {
+          institutionType: context.institutionType,
+          url: context.url,
+          selectors: { $literal: context.selectors },
+          fields: { $literal: fields },
+          detectedAt: { $cond: [{ $eq: ['$status', 'drifted'] }, '$detectedAt', now] },
+          status: 'drifted',
+          lastCheckedAt: now
+        }
+      }],
+      { upsert: true }
+    ).exec();
+  }
+
+  /**
+   * Closes a drift flag without touching the snapshot
+   * @returns Whether an open flag was closed
+   */
+  async dismiss(institutionId: string, actor: string | null): Promise<boolean> {
+    const result = await this.model.updateOne(
+      { institutionId, status: 'drifted' },
+      {
+        $set: {
+          status: 'healthy',
+          fields: [],
+          detectedAt: null,
+          dismissedBy: actor,
+          dismissedAt: new Date()
+        }
+      }
+    ).exec();
+    return result.modifiedCount > 0;
+  }
+}
+
+export default SelectorDriftRepository;
\ No newline at end of file
@@ -4,26 +4,65 @@
  * @version 1.0.0
  */
 
-import { 
-  Repository, 
-  EntityRepository, 
-  QueryRunner, 
+import {
+  Repository,
+  EntityRepository,
+  QueryRunner,
   SelectQueryBuilder,
-  ILike, 
-  Between, 
-  In 
+  Between,
+  In,
+  IsNull,
+  MoreThanOrEqual,
+  LessThanOrEqual,
+  LessThan,
+  MoreThan
 } from 'typeorm'; // ^0.3.0
 import { Redis } from 'ioredis'; // ^5.0.0
+import { randomUUID } from 'crypto';
 import { Technology } from '../models/technology.model';
+import { TechnologyChange, TechnologyChangeType } from '../models/technologyChange.model';
+import { Person } from '../models/person.model';
+import { TechnologyPerson } from '../models/technologyPerson.model';
+import {
+  diffTrackedFields,
+  computeContentHash,
+  normalizeTechnologyUrl,
+  TechnologyFieldChanges
+} from '../../utils/fingerprint.util';
+import { collectPeople, ExtractedPerson } from '../../utils/people.util';
+import { PERSON_ROLES, PersonRole, WithdrawalReason } from '../../constants/scraper.constants';
+import { CLASSIFICATION_SOURCES } from '../../constants/taxonomy.constants';
 import { ScraperResult } from '../../interfaces/scraper.interface';
-import { 
-  SearchParams, 
-  SearchResponse, 
-  SearchResult, 
-  SearchFilters, 
-  PaginationParams 
+import {
+  SearchParams,
+  SearchResponse,
+  SearchFilters,
+  PaginationParams,
+  SearchDocumentPeople
 } from '../../interfaces/search.interface';
 
+/**
+ * Outcome of upserting a scraped technology against the stored catalog
+ */
+export interface TechnologyUpsertResult {
+  technology: Technology;
+  status: 'created' | 'updated' | 'unchanged';
+  changedFields: TechnologyFieldChanges;
+}
+
+/**
+ * Technologies first discovered or materially changed within a time window
+ */
+export interface TechnologyActivity {
+  since: Date;
+  created: Technology[];
+  updated: Technology[];
+  totals: {
+    created: number;
+    updated: number;
+  };
+}
+
 /**
  * Repository class for managing technology transfer opportunities with optimized performance
  * Implements caching strategies and query optimization for high-concurrency support
@@ -31,49 +70,616 @@ import {
 @EntityRepository(Technology)
 export class TechnologyRepository {
   private repository: Repository<Technology>;
-  private queryRunner: QueryRunner;
+  private changeRepository: Repository<TechnologyChange>;
+  private personRepository: Repository<Person>;
+  private technologyPersonRepository: Repository<TechnologyPerson>;
   private readonly CACHE_TTL = 3600; // 1 hour cache TTL
   private readonly SEARCH_TIMEOUT = 2000; // 2 second timeout for searches
 
   /**
    * Initialize repository with database and cache connections
    * @param cacheClient Redis client instance for caching
+   * @param queryRunner Database connection the repository queries and runs transactions on
    */
-  constructor(private readonly cacheClient: Redis) {
+  constructor(private readonly cacheClient: Redis, private readonly queryRunner: QueryRunner) {
     this.repository = this.queryRunner.manager.getRepository(Technology);
+    this.changeRepository = this.queryRunner.manager.getRepository(TechnologyChange);
+    this.personRepository = this.queryRunner.manager.getRepository(Person);
+    this.technologyPersonRepository = this.queryRunner.manager.getRepository(TechnologyPerson);
   }
 
   /**
-   * Creates a new technology entry from scraper result
-   * Implements transaction support and cache invalidation
+   * Stores a technology from scraper result, reusing the existing row on re-scrape
    * @param scraperResult Validated scraper result data
-   * @returns Newly created technology entity
+   * @returns Created or updated technology entity
    */
   async create(scraperResult: ScraperResult): Promise<Technology> {
-    // Start transaction for data consistency
-    await this.queryRunner.startTransaction();
+    const { technology } = await this.upsert(scraperResult);
+    return technology;
+  }
 
-    try {
-      // Create and validate technology entity
-      const technology = Technology.fromScraperResult(scraperResult);
-      
-      // Save to database with validation
-      const savedTechnology = await this.repository.save(technology);
+  /**
+   * Inserts or updates a technology keyed on its canonical identity, recording a
+   * change log entry whenever the content hash differs from the stored row
+   * Runs in a transaction on a query runner of its own, so concurrent upserts through the
+   * shared repository do not share one transaction
+   * @param scraperResult Validated scraper result data
+   * @param listedUrls Canonical URLs of every technology the same crawl listed, if known
+   * @returns Stored technology with the upsert outcome and changed fields
+   */
+  async upsert(scraperResult: ScraperResult, listedUrls?: ReadonlySet<string>): Promise<TechnologyUpsertResult> {
+    const queryRunner = this.queryRunner.connection.createQueryRunner();
+    await queryRunner.connect();
+    await queryRunner.startTransaction();
 
-      // Invalidate relevant caches
-      await this.invalidateRelatedCaches(savedTechnology);
-      
-      // Commit transaction
-      await this.queryRunner.commitTransaction();
-      
-      return savedTechnology;
+    try {
+      const result = await new TechnologyRepository(this.cacheClient, queryRunner)
+        .applyUpsert(scraperResult, listedUrls);
+      await queryRunner.commitTransaction();
+      return result;
     } catch (error) {
       // Rollback on error
-      await this.queryRunner.rollbackTransaction();
+      await queryRunner.rollbackTransaction();
       throw error;
+    } finally {
+      await queryRunner.release();
     }
   }
 
+  /**
+   * Applies an upsert on this repository's query runner, inside the caller's transaction
+   * with cache invalidation
+   */
+  private async applyUpsert(
+    scraperResult: ScraperResult,
+    listedUrls?: ReadonlySet<string>
+  ): Promise<TechnologyUpsertResult> {
+    // Create and validate technology entity
+    const candidate = Technology.fromScraperResult(scraperResult);
+    const people = collectPeople(scraperResult.data);
+    const existing = await this.findIdentityMatch(candidate, listedUrls);
+
+    if (!existing) {
+      const savedTechnology = await this.repository.save(
+        Object.assign(candidate, { contentChangedAt: candidate.lastSeenAt })
+      );
+      await this.linkPatentFamily(savedTechnology);
+      await this.linkPeople(savedTechnology, people);
+      await this.recordChange(savedTechnology, TechnologyChangeType.CREATED, {}, null, scraperResult.jobId);
+      await this.invalidateRelatedCaches(savedTechnology);
+
+      return { technology: savedTechnology, status: 'created', changedFields: {} };
+    }
+
+    if (!existing.contentHash) {
+      // Legacy rows predate content hashing; derive the hash from the stored fields
+      existing.refreshIdentity();
+    }
+
+    const previousHash = existing.contentHash;
+    const reinstated = !existing.active;
+    // Listed again, so any withdrawal is lifted and the missed run count starts over
+    existing.reinstate();
+
+    if (previousHash === candidate.contentHash) {
+      // Only bump the sighting timestamp so unchanged rows are not reported as updated
+      existing.lastSeenAt = candidate.lastSeenAt;
+      existing.canonicalUrl = candidate.canonicalUrl;
+      existing.fingerprint = candidate.fingerprint;
+      // Patent fields are derived, so rows scraped before they existed gain them here
+      existing.patentNumbers = candidate.patentNumbers;
+      existing.patentStatus = candidate.patentStatus;
+      // A scrape that could not tell the language keeps the one already known
+      existing.language = candidate.language ?? existing.language;
+      this.adoptClassification(existing, candidate);
+      const savedTechnology = await this.repository.save(existing);
+      await this.linkPatentFamily(savedTechnology);
+      await this.linkPeople(savedTechnology, people);
+      if (reinstated) {
+        await this.recordChange(savedTechnology, TechnologyChangeType.REINSTATED, {}, previousHash, scraperResult.jobId);
+        await this.invalidateRelatedCaches(savedTechnology);
+      }
+
+      return { technology: savedTechnology, status: 'unchanged', changedFields: {} };
+    }
+
+    const changedFields = diffTrackedFields(
+      { ...existing, category: existing.sourceCategory, url: existing.canonicalUrl || existing.url },
+      { ...candidate, category: candidate.sourceCategory, url: candidate.canonicalUrl }
+    );
+
+    Object.assign(existing, {
+      title: candidate.title,
+      description: candidate.description,
+      country: candidate.country,
+      url: candidate.url,
+      metadata: candidate.metadata,
+      patentNumbers: candidate.patentNumbers,
+      patentStatus: candidate.patentStatus,
+      canonicalUrl: candidate.canonicalUrl,
+      fingerprint: candidate.fingerprint,
+      contentHash: candidate.contentHash,
+      contentChangedAt: candidate.lastSeenAt,
+      lastSeenAt: candidate.lastSeenAt,
+      language: candidate.language ?? existing.language,
+      translations: null // Translated from the previous content; the translation stage redoes them
+    });
+    this.adoptClassification(existing, candidate);
+
+    const savedTechnology = await this.repository.save(existing);
+    await this.linkPatentFamily(savedTechnology);
+    await this.linkPeople(savedTechnology, people);
+    if (reinstated) {
+      await this.recordChange(savedTechnology, TechnologyChangeType.REINSTATED, {}, previousHash, scraperResult.jobId);
+    }
+    await this.recordChange(
+      savedTechnology,
+      TechnologyChangeType.UPDATED,
+      changedFields,
+      previousHash,
+      scraperResult.jobId
+    );
+
+    // Invalidate relevant caches
+    await this.invalidateRelatedCaches(savedTechnology);
+
+    return { technology: savedTechnology, status: 'updated', changedFields };
+  }
+
+  /**
+   * Reports what upserting a scraper result would do without writing anything
+   * @param scraperResult Validated scraper result data
+   * @returns Matched stored technology, or the unsaved candidate when it would be
+   * created, with the outcome and changed fields an upsert would record
+   */
+  async preview(scraperResult: ScraperResult): Promise<TechnologyUpsertResult> {
+    const candidate = Technology.fromScraperResult(scraperResult);
+    const existing = await this.findIdentityMatch(candidate);
+
+    if (!existing) {
+      return { technology: candidate, status: 'created', changedFields: {} };
+    }
+
+    const previousHash = existing.contentHash || computeContentHash({
+      ...existing,
+      category: existing.sourceCategory,
+      url: normalizeTechnologyUrl(existing.url)
+    });
+    if (previousHash === candidate.contentHash) {
+      return { technology: existing, status: 'unchanged', changedFields: {} };
+    }
+
+    const changedFields = diffTrackedFields(
+      { ...existing, category: existing.sourceCategory, url: existing.canonicalUrl || existing.url },
+      { ...candidate, category: candidate.sourceCategory, url: candidate.canonicalUrl }
+    );
+
+    return { technology: existing, status: 'updated', changedFields };
+  }
+
+  /**
+   * Lists an institution's active technologies, optionally only those last seen in a window
+   * @param institution Institution name as stored on technologies
+   * @param seenFrom Earliest last sighting to include
+   * @param seenTo Latest last sighting to include
+   * @returns Matching technologies
+   */
+  async findActiveByInstitution(institution: string, seenFrom?: Date, seenTo?: Date): Promise<Technology[]> {
+    let lastSeenAt;
+    if (seenFrom && seenTo) {
+      lastSeenAt = Between(seenFrom, seenTo);
+    } else if (seenFrom) {
+      lastSeenAt = MoreThanOrEqual(seenFrom);
+    } else if (seenTo) {
+      lastSeenAt = LessThanOrEqual(seenTo);
+    }
+
+    return this.repository.find({
+      where: { institution, active: true, ...(lastSeenAt ? { lastSeenAt } : {}) }
+    });
+  }
+
+  /**
+   * Counts a completed run against each of an institution's active technologies it did not
+   * list. Technologies the run did list had their count cleared when they were upserted.
+   * @param institution Institution name as stored on technologies
+   * @param seenIds Technologies the run produced
+   * @returns Technologies the run missed, with their updated missed run counts
+   */
+  async recordMissedRun(institution: string, seenIds: string[]): Promise<Technology[]> {
+    const seen = new Set(seenIds);
+    const active = await this.repository.find({ where: { institution, active: true } });
+    const missed = active.filter(technology => !seen.has(technology.id));
+    if (missed.length === 0) {
+      return [];
+    }
+
+    await this.repository.update(
+      { id: In(missed.map(technology => technology.id)) },
+      { missedRuns: () => '"missed_runs" + 1' }
+    );
+    missed.forEach(technology => {
+      technology.missedRuns = (technology.missedRuns || 0) + 1;
+    });
+
+    return missed;
+  }
+
+  /**
+   * Withdraws technologies from the active catalog and records the withdrawal in their
+   * change logs
+   * @param technologies Technologies to withdraw
+   * @param reason Why they were withdrawn
+   * @param at When the withdrawal was detected
+   */
+  async withdraw(technologies: Technology[], reason: WithdrawalReason, at: Date = new Date()): Promise<void> {
+    for (const technology of technologies) {
+      technology.withdraw(reason, at);
+      await this.repository.update(technology.id, {
+        active: false,
+        withdrawnAt: technology.withdrawnAt,
+        withdrawnReason: technology.withdrawnReason
+      });
+      await this.recordChange(technology, TechnologyChangeType.WITHDRAWN, {}, technology.contentHash);
+      await this.invalidateRelatedCaches(technology);
+    }
+  }
+
+  /**
+   * Retrieves the change log for a technology, newest first
+   * @param technologyId Technology identifier
+   * @param limit Maximum number of entries to return
+   * @returns Change log entries
+   */
+  async getChangeLog(technologyId: string, limit = 50): Promise<TechnologyChange[]> {
+    return this.changeRepository.find({
+      where: { technologyId },
+      order: { detectedAt: 'DESC' },
+      take: limit
+    });
+  }
+
+  /**
+   * Lists the active technologies sharing a patent family, across institutions
+   * @param patentFamilyId Family identifier assigned when technologies share patent numbers
+   * @returns Family members, oldest first
+   */
+  async findByPatentFamily(patentFamilyId: string): Promise<Technology[]> {
+    return this.repository.find({
+      where: { patentFamilyId, active: true },
+      order: { discoveredAt: 'ASC' }
+    });
+  }
+
+  /**
+   * Finds a technology by id
+   * @param id Technology identifier
+   */
+  async findById(id: string): Promise<Technology | null> {
+    return this.repository.findOne({ where: { id } });
+  }
+
+  /**
+   * Pages through the whole catalog in id order, for batch jobs that revisit every row
+   * @param afterId Last id of the previous page, or null for the first page
+   * @param limit Page size
+   * @returns Next page of technologies, empty once the catalog is exhausted
+   */
+  async findPageAfter(afterId: string | null, limit: number): Promise<Technology[]> {
+    return this.repository.find({
+      where: afterId ? { id: MoreThan(afterId) } : {},
+      order: { id: 'ASC' },
+      take: limit
+    });
+  }
+
+  /**
+   * Finds technologies by id, including withdrawn ones
+   * @param ids Technology identifiers
+   */
+  async findByIds(ids: string[]): Promise<Technology[]> {
+    if (ids.length === 0) {
+      return [];
+    }
+    return this.repository.find({ where: { id: In(ids) } });
+  }
+
+  /**
+   * Returns which of the given ids still have a technology row
+   * @param ids Technology identifiers
+   */
+  async findExistingIds(ids: string[]): Promise<Set<string>> {
+    if (ids.length === 0) {
+      return new Set();
+    }
+    const rows = await this.repository.find({ select: { id: true }, where: { id: In(ids) } });
+    return new Set(rows.map(row => row.id));
+  }
+
+  /**
+   * Collects the inventors and licensing contacts of technologies for their search documents
+   * @param ids Technology identifiers
+   * @returns People per technology id; technologies without people are omitted
+   */
+  async findSearchPeople(ids: string[]): Promise<Map<string, SearchDocumentPeople>> {
+    const people = new Map<string, SearchDocumentPeople>();
+    if (ids.length === 0) {
+      return people;
+    }
+
+    const rows: Array<{ technologyId: string; personId: string; name: string; role: PersonRole }> =
+      await this.technologyPersonRepository
+        .createQueryBuilder('link')
+        .innerJoin(Person, 'person', 'person.id = link.personId')
+        .select('link.technologyId', 'technologyId')
+        .addSelect('link.personId', 'personId')
+        .addSelect('person.name', 'name')
+        .addSelect('link.role', 'role')
+        .where('link.technologyId IN (:...ids)', { ids })
+        .orderBy('person.name', 'ASC')
+        .getRawMany();
+
+    for (const row of rows) {
+      const entry = people.get(row.technologyId) ?? {
+        inventorIds: [],
+        inventorNames: [],
+        licensingContactIds: [],
+        licensingContactNames: []
+      };
+      if (row.role === PERSON_ROLES.INVENTOR) {
+        entry.inventorIds.push(row.personId);
+        entry.inventorNames.push(row.name);
+      } else {
+        entry.licensingContactIds.push(row.personId);
+        entry.licensingContactNames.push(row.name);
+      }
+      people.set(row.technologyId, entry);
+    }
+
+    return people;
+  }
+
+  /**
+   * Stores a technology's taxonomy placement without touching its scraped content
+   * @param technology Technology carrying the new placement
+   * @returns The technology as saved
+   */
+  async saveClassification(technology: Technology): Promise<Technology> {
+    await this.repository.update(technology.id, {
+      taxonomyId: technology.taxonomyId,
+      category: technology.category,
+      subcategory: technology.subcategory,
+      classificationSource: technology.classificationSource,
+      classificationConfidence: technology.classificationConfidence,
+      classifiedBy: technology.classifiedBy
+    });
+    await this.invalidateRelatedCaches(technology);
+    return technology;
+  }
+
+  /**
+   * Stores a technology's English translations and the taxonomy placement derived from them
+   * @param technology Technology carrying the translations
+   * @returns The technology as saved
+   */
+  async saveTranslations(technology: Technology): Promise<Technology> {
+    await this.repository.update(technology.id, {
+      translations: technology.translations,
+      taxonomyId: technology.taxonomyId,
+      category: technology.category,
+      subcategory: technology.subcategory,
+      classificationSource: technology.classificationSource,
+      classificationConfidence: technology.classificationConfidence
+    });
+    await this.invalidateRelatedCaches(technology);
+    return technology;
+  }
+
+  /**
+   * Lists technologies discovered or materially changed since the given date
+   * @param since Start of the activity window
+   * @param limit Maximum technologies returned per list
+   * @returns New and updated technologies with totals
+   */
+  async getRecentActivity(since: Date, limit = 50): Promise<TechnologyActivity> {
+    const [[created, createdTotal], [updated, updatedTotal]] = await Promise.all([
+      this.repository.findAndCount({
+        where: { active: true, discoveredAt: MoreThanOrEqual(since) },
+        order: { discoveredAt: 'DESC' },
+        take: limit
+      }),
+      this.repository.findAndCount({
+        where: {
+          active: true,
+          discoveredAt: LessThan(since),
+          contentChangedAt: MoreThanOrEqual(since)
+        },
+        order: { contentChangedAt: 'DESC' },
+        take: limit
+      })
+    ]);
+
+    return {
+      since,
+      created,
+      updated,
+      totals: {
+        created: createdTotal,
+        updated: updatedTotal
+      }
+    };
+  }
+
+  /**
+   * Finds the stored row for a scraped technology. Matches on institution and
+   * canonical URL, then adopts legacy rows stored before canonical URLs existed,
+   * then falls back to the fuzzy fingerprint for sites that changed their URLs.
+   * The fingerprint only identifies a row when exactly one shares it and that row's
+   * URL is no longer listed, so near-identical listings never merge into one.
+   * @param candidate Technology built from the latest scrape
+   * @param listedUrls Canonical URLs the same crawl listed; without them a row counts
+   * as unlisted once it has missed a run or been deactivated
+   * @returns Matching stored technology, if any
+   */
+  private async findIdentityMatch(
+    candidate: Technology,
+    listedUrls?: ReadonlySet<string>
+  ): Promise<Technology | null> {
+    const byCanonicalUrl = await this.repository.findOne({
+      where: { institution: candidate.institution, canonicalUrl: candidate.canonicalUrl }
+    });
+    if (byCanonicalUrl) {
+      return byCanonicalUrl;
+    }
+
+    const legacy = await this.repository.findOne({
+      where: { institution: candidate.institution, url: candidate.url, canonicalUrl: IsNull() },
+      order: { discoveredAt: 'ASC' }
+    });
+    if (legacy) {
+      return legacy;
+    }
+
+    const byFingerprint = await this.repository.find({
+      where: { institution: candidate.institution, fingerprint: candidate.fingerprint },
+      order: { discoveredAt: 'ASC' },
+      take: 2
+    });
+    if (byFingerprint.length !== 1) {
+      return null;
+    }
+
+    const [match] = byFingerprint;
+    const stillListed = listedUrls
+      ? listedUrls.has(match.canonicalUrl || normalizeTechnologyUrl(match.url))
+      : match.active && !match.missedRuns;
+    return stillListed ? null : match;
+  }
+
+  /**
+   * Groups a saved technology with every technology sharing one of its patent numbers,
+   * whichever institution lists it. Families bridged by the technology merge into the
+   * lowest existing family id; a technology without linked peers starts its own family.
+   * @param technology Technology that was just saved
+   */
+  private async linkPatentFamily(technology: Technology): Promise<void> {
+    if (!technology.patentNumbers?.length) {
+      return;
+    }
+
+    const related = await this.repository.createQueryBuilder('technology')
+      .where('technology.patentNumbers && :patentNumbers', { patentNumbers: technology.patentNumbers })
+      .andWhere('technology.id != :id', { id: technology.id })
+      .getMany();
+
+    const familyIds = [...new Set(
+      [technology.patentFamilyId, ...related.map(peer => peer.patentFamilyId)]
+        .filter((familyId): familyId is string => Boolean(familyId))
+    )].sort();
+    const patentFamilyId = familyIds[0] || randomUUID();
+
+    const update = this.repository.createQueryBuilder()
+      .update(Technology)
+      .set({ patentFamilyId })
+      .where('id IN (:...ids)', { ids: [technology.id, ...related.map(peer => peer.id)] });
+    if (familyIds.length > 1) {
+      update.orWhere('patentFamilyId IN (:...familyIds)', { familyIds });
+    }
+    await update.execute();
+
+    technology.patentFamilyId = patentFamilyId;
+  }
+
+  /**
+   * Carries the source category and the derived taxonomy placement of a fresh scrape over
+   * to the stored row. Translated rows are re-classified from their stored translations
+   * instead, and placements made by a manager are kept.
+   */
+  private adoptClassification(existing: Technology, candidate: Technology): void {
+    existing.sourceCategory = candidate.sourceCategory;
+    if (existing.translations) {
+      existing.refreshClassification();
+    } else if (existing.classificationSource !== CLASSIFICATION_SOURCES.MANUAL) {
+      existing.applyClassification({
+        taxonomyId: candidate.taxonomyId,
+        category: candidate.category,
+        subcategory: candidate.subcategory,
+        source: candidate.classificationSource,
+        confidence: candidate.classificationConfidence
+      });
+    }
+  }
+
+  /**
+   * Records the inventors and licensing contacts named on a saved technology. Only links that
+   * changed are written, so a technology whose people are unchanged is not queued for
+   * reindexing, and people dropped from the listing no longer point at it.
+   * @param technology Technology that was just saved
+   * @param people People collected from the scraped data
+   */
+  private async linkPeople(technology: Technology, people: ExtractedPerson[]): Promise<void> {
+    const linkKey = (link: Pick<TechnologyPerson, 'personId' | 'role'>): string => `${link.personId}:${link.role}`;
+    const links = new Map<string, TechnologyPerson>();
+
+    for (const extracted of people) {
+      const link = new TechnologyPerson({
+        technologyId: technology.id,
+        personId: await this.upsertPerson(technology.institution, extracted),
+        role: extracted.role
+      });
+      links.set(linkKey(link), link);
+    }
+
+    const existing = await this.technologyPersonRepository.find({ where: { technologyId: technology.id } });
+    const removed = existing.filter(link => !links.has(linkKey(link)));
+    existing.forEach(link => links.delete(linkKey(link)));
+
+    if (removed.length > 0) {
+      await this.technologyPersonRepository.delete({ id: In(removed.map(link => link.id)) });
+    }
+    if (links.size > 0) {
+      await this.technologyPersonRepository.save([...links.values()]);
+    }
+  }
+
+  /**
+   * Inserts or updates the directory entry for a named person, keyed on institution, name
+   * key and email. Details the stored person lacks are filled in from the scrape.
+   * @returns Id of the stored person
+   */
+  private async upsertPerson(institution: string, extracted: ExtractedPerson): Promise<string> {
+    const [{ id }]: Array<{ id: string }> = await this.personRepository.query(`
+      INSERT INTO people (name, name_key, institution, email, phone)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (institution, name_key, (COALESCE(email, ''))) DO UPDATE SET
+        phone = COALESCE(people.phone, EXCLUDED.phone),
+        updated_at = now()
+      RETURNING id
+    `, [extracted.name, extracted.nameKey, institution, extracted.email, extracted.phone]);
+    return id;
+  }
+
+  /**
+   * Appends an entry to the technology change log
+   */
+  private async recordChange(
+    technology: Technology,
+    changeType: TechnologyChangeType,
+    changedFields: TechnologyFieldChanges,
+    previousHash: string | null,
+    jobId?: string
+  ): Promise<void> {
+    await this.changeRepository.save(new TechnologyChange({
+      technologyId: technology.id,
+      institution: technology.institution,
+      changeType,
+      changedFields,
+      previousHash: previousHash || undefined,
+      contentHash: technology.contentHash,
+      jobId
+    }));
+  }
+
   /**
    * Performs optimized search with caching and pagination
    * Implements sub-2 second response time requirement
@@ -95,7 +701,7 @@ export class TechnologyRepository {
     // Execute search with timeout
     const [results, total] = await Promise.race([
       query.getManyAndCount(),
-      new Promise((_, reject) => 
+      new Promise<never>((_, reject) => 
         setTimeout(() => reject(new Error('Search timeout')), this.SEARCH_TIMEOUT)
       )
     ]);
@@ -126,13 +732,19 @@ export class TechnologyRepository {
   private buildSearchQuery(params: SearchParams): SelectQueryBuilder<Technology> {
     const { query, filters, pagination } = params;
     
-    const queryBuilder = this.repository.createQueryBuilder('technology')
-      .where('technology.active = :active', { active: true });
+    const queryBuilder = this.repository.createQueryBuilder('technology');
+    if (!filters.includeWithdrawn) {
+      queryBuilder.where('technology.active = :active', { active: true });
+    }
 
     // Add full-text search if query provided
     if (query) {
       queryBuilder.andWhere(
-        '(technology.title ILIKE :query OR technology.description ILIKE :query)',
+        `(technology.title ILIKE :query OR technology.description ILIKE :query OR EXISTS (
+          SELECT 1 FROM technology_people link
+          INNER JOIN people person ON person.id = link.person_id
+          WHERE link.technology_id = technology.id AND person.name ILIKE :query
+        ))`,
         { query: `%${query}%` }
       );
     }
@@ -161,7 +773,16 @@ export class TechnologyRepository {
     queryBuilder: SelectQueryBuilder<Technology>,
     filters: SearchFilters
   ): void {
-    const { institution, category, country, dateRange } = filters;
+    const {
+      institution,
+      category,
+      subcategory,
+      country,
+      patentStatus,
+      inventor,
+      licensingContact,
+      dateRange
+    } = filters;
 
     if (institution?.length) {
       queryBuilder.andWhere({ institution: In(institution) });
@@ -171,10 +792,26 @@ export class TechnologyRepository {
       queryBuilder.andWhere({ category: In(category) });
     }
 
+    if (subcategory?.length) {
+      queryBuilder.andWhere({ subcategory: In(subcategory) });
+    }
+
     if (country?.length) {
       queryBuilder.andWhere({ country: In(country) });
     }
 
+    if (patentStatus?.length) {
+      queryBuilder.andWhere({ patentStatus: In(patentStatus) });
+    }
+
+    if (inventor?.length) {
+      this.applyPersonFilter(queryBuilder, 'inventor', PERSON_ROLES.INVENTOR, inventor);
+    }
+
+    if (licensingContact?.length) {
+      this.applyPersonFilter(queryBuilder, 'licensingContact', PERSON_ROLES.LICENSING_CONTACT, licensingContact);
+    }
+
     if (dateRange?.start && dateRange?.end) {
       queryBuilder.andWhere({
         discoveredAt: Between(dateRange.start, dateRange.end)
@@ -182,12 +819,36 @@ export class TechnologyRepository {
     }
   }
 
+  /**
+   * Restricts results to technologies linked to any of the given people in a role
+   * @param queryBuilder Active query builder
+   * @param alias Parameter prefix unique to the filter
+   * @param role Role the people must hold
+   * @param personIds Person identifiers from the people directory
+   */
+  private applyPersonFilter(
+    queryBuilder: SelectQueryBuilder<Technology>,
+    alias: string,
+    role: PersonRole,
+    personIds: string[]
+  ): void {
+    queryBuilder.andWhere(
+      `EXISTS (
+        SELECT 1 FROM technology_people ${alias}
+        WHERE ${alias}.technology_id = technology.id
+          AND ${alias}.role = :${alias}Role
+          AND ${alias}.person_id IN (:...${alias}Ids)
+      )`,
+      { [`${alias}Role`]: role, [`${alias}Ids`]: personIds }
+    );
+  }
+
   /**
    * Generates faceted search aggregations
    * @param filters Current search filters
    * @returns Facet counts for filtering
    */
-  private async generateFacets(filters: SearchFilters) {
+  private async generateFacets(_filters: SearchFilters) {
     const facetQueries = await Promise.all([
       this.repository.createQueryBuilder('technology')
         .select('technology.institution, COUNT(*) as count')
@@ -200,13 +861,24 @@ export class TechnologyRepository {
       this.repository.createQueryBuilder('technology')
         .select('technology.country, COUNT(*) as count')
         .groupBy('technology.country')
+        .getRawMany(),
+      this.repository.createQueryBuilder('technology')
+        .select('technology.patentStatus, COUNT(*) as count')
+        .groupBy('technology.patentStatus')
+        .getRawMany(),
+      this.repository.createQueryBuilder('technology')
+        .select('technology.subcategory, COUNT(*) as count')
+        .where('technology.subcategory IS NOT NULL')
+        .groupBy('technology.subcategory')
         .getRawMany()
     ]);
 
     return {
       institutions: facetQueries[0],
       categories: facetQueries[1],
-      countries: facetQueries[2]
+      countries: facetQueries[2],
+      patentStatuses: facetQueries[3],
+      subcategories: facetQueries[4]
     };
   }
 
@@ -0,0 +1,14 @@
+/**
+ * @fileoverview Interfaces for the text embeddings used by semantic technology search
+ * @version 1.0.0
+ */
+
+/**
+ * Text embedding backend. Implementations must return one vector of `dimensions` numbers
+ * per input text, in input order.
+ */
+export interface EmbeddingProvider {
+  readonly name: string;
+  readonly dimensions: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
@@ -50,6 +50,7 @@ export {
 export {
   ValidationRules,
   ValidationResults,
+  RateLimitStrategy,
   InstitutionRateLimit,
   BurstHandlingConfig,
   RateLimitConfig,
@@ -61,7 +62,50 @@ export {
   ScraperEngine,
   ScraperJob,
   ScraperResult,
-  ScraperError
+  ScraperError,
+  ParsingError,
+  CrawlScopeRules,
+  CrawlConfig,
+  CrawlResult,
+  RobotsOverride,
+  RobotsDecision,
+  ScheduledScrape,
+  DeadLetterSource,
+  DeadLetterStatus,
+  DeadLetterError,
+  DeadLetterEntry,
+  DeadLetterFilters,
+  DeadLetterReplayResult,
+  SelectorDriftReason,
+  SelectorSuggestion,
+  SelectorDriftField,
+  SelectorDriftReport,
+  SelectorTestResult,
+  VendorFingerprint,
+  RawPageCapture,
+  SnapshotReference,
+  BackfillScope,
+  BackfillStatus,
+  BackfillChangeType,
+  BackfillChange,
+  BackfillSummary,
+  ScrapeRunStatus,
+  ScrapeRunJob,
+  ScrapeRunItems,
+  DetailPageStatus,
+  CatalogReconciliation,
+  InstitutionHealthStatus,
+  InstitutionHealth,
+  ScrapeRunFilters,
+  InstitutionScorecardEntry,
+  ProxyEndpoint,
+  ProxyAssignment,
+  ProxyOutcome,
+  ProxyHealth,
+  ProxyPoolHealth,
+  StructuredDataSource,
+  FieldSource,
+  StructuredDataOptions
 } from './scraper.interface';
 
 // Search Functionality Interfaces
@@ -70,9 +114,59 @@ export {
   SearchFilters,
   SearchResponse,
   SearchResult,
+  SearchHighlights,
   SearchFacets,
   FacetCount,
   PaginationParams,
   PaginationInfo,
-  DateRange
-} from './search.interface';
\ No newline at end of file
+  DateRange,
+  SearchDocument,
+  SearchDocumentPeople,
+  SearchIndexOperation,
+  IndexingBatchResult,
+  ReindexResult,
+  IndexDrift,
+  IndexConsistencyReport,
+  SuggestionType,
+  SuggestInput,
+  Suggestion,
+  SuggestionGroup,
+  SuggestionResponse
+} from './search.interface';
+
+// Technology Taxonomy Interfaces
+export {
+  ClassificationRunStatus,
+  ClassificationChange,
+  ClassificationSummary
+} from './taxonomy.interface';
+
+// Translation Interfaces
+export {
+  TranslationProvider,
+  TechnologyTranslations
+} from './translation.interface';
+
+// Embedding Interfaces
+export {
+  EmbeddingProvider
+} from './embedding.interface';
+
+// Saved Search & Notification Interfaces
+export {
+  SavedSearchFilters,
+  SavedSearch,
+  SavedSearchInput,
+  SavedSearchUpdate,
+  SavedSearchMatch,
+  SavedSearchAlertResult,
+  NotificationType,
+  AppNotification,
+  NotificationPage
+} from './savedSearch.interface';
+
+// Mail Interfaces
+export {
+  MailMessage,
+  MailTransport
+} from './mail.interface';
@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Interfaces for outgoing email
+ * @version 1.0.0
+ */
+
+/**
+ * Email ready to send
+ */
+export interface MailMessage {
+  /** Recipient address */
+  to: string;
+  subject: string;
+  /** Plain text body */
+  text: string;
+  /** HTML body, sent as an alternative to the text */
+  html?: string;
+  /** Extra headers, e.g. List-Unsubscribe */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Email delivery backend. send rejects when the message was not accepted for delivery.
+ */
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,102 @@
+/**
+ * @fileoverview Interfaces for saved searches, the alerts sent when new technologies match
+ * them, and the in-app notification list
+ * @version 1.0.0
+ */
+
+import { SearchFilters } from './search.interface';
+import { SavedSearchFrequency } from '../constants/savedSearch.constants';
+
+/**
+ * Filters kept with a saved search; omitted dimensions are not filtered. Alerts are about
+ * newly indexed technologies, so discovery date ranges are not kept.
+ */
+export type SavedSearchFilters = Partial<Omit<SearchFilters, 'dateRange' | 'updatedSince'>>;
+
+/**
+ * Saved search as returned to its owner
+ */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  filters: SavedSearchFilters;
+  frequency: SavedSearchFrequency;
+  /** False once the owner turned alerts off or followed an unsubscribe link */
+  alertsEnabled: boolean;
+  /** Matches found since the last alert was sent */
+  pendingMatches: number;
+  lastNotifiedAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Fields accepted when saving a search
+ */
+export interface SavedSearchInput {
+  name: string;
+  query: string;
+  filters?: SavedSearchFilters;
+  /** Defaults to daily */
+  frequency?: SavedSearchFrequency;
+}
+
+/**
+ * Fields accepted when changing a saved search
+ */
+export interface SavedSearchUpdate extends Partial<SavedSearchInput> {
+  alertsEnabled?: boolean;
+}
+
+/**
+ * Technology listed in an alert
+ */
+export interface SavedSearchMatch {
+  technologyId: string;
+  title: string;
+  institution: string;
+  url: string;
+  matchedAt: Date;
+}
+
+/**
+ * Summary of one alert run over all saved searches
+ */
+export interface SavedSearchAlertResult {
+  /** Saved searches re-executed */
+  searched: number;
+  /** Technologies that matched a saved search for the first time */
+  newMatches: number;
+  /** Alerts delivered by email and in-app notification */
+  delivered: number;
+  /** Saved searches whose search or delivery failed; they are retried next run */
+  failed: number;
+}
+
+/**
+ * Kinds of in-app notification
+ */
+export type NotificationType = 'saved_search_matches';
+
+/**
+ * In-app notification as returned to its recipient
+ */
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  /** Type-specific details, e.g. the saved search and technologies of an alert */
+  data: Record<string, unknown>;
+  readAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Page of notifications with the recipient's unread count
+ */
+export interface NotificationPage {
+  notifications: AppNotification[];
+  unread: number;
+}
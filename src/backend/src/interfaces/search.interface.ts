@@ -4,6 +4,8 @@
  * filtering, pagination and performance optimization for sub-2 second response times
  */
 
+import { TechnologyTranslations } from './translation.interface';
+
 /**
  * Core search parameters interface for technology transfer searches
  * Combines query, filters and pagination for comprehensive search requests
@@ -15,6 +17,8 @@ export interface SearchParams {
   filters: SearchFilters;
   /** Pagination parameters for result set windowing */
   pagination: PaginationParams;
+  /** Share of the score from semantic similarity, 0 (keyword only) to 1 (semantic only) */
+  semanticWeight?: number;
 }
 
 /**
@@ -26,10 +30,22 @@ export interface SearchFilters {
   institution: string[];
   /** Array of technology categories to filter by */
   category: string[];
+  /** Taxonomy subcategories to filter by */
+  subcategory?: string[];
   /** Array of country codes to filter by */
   country: string[];
   /** Date range for temporal filtering */
   dateRange: DateRange;
+  /** IP statuses to filter by (granted, pending, unknown) */
+  patentStatus?: string[];
+  /** People directory ids of inventors to filter by */
+  inventor?: string[];
+  /** People directory ids of licensing contacts to filter by */
+  licensingContact?: string[];
+  /** Include technologies withdrawn from their institution's site (default: false) */
+  includeWithdrawn?: boolean;
+  /** Only technologies indexed with changes made at or after this time */
+  updatedSince?: Date;
 }
 
 /**
@@ -60,16 +76,50 @@ export interface SearchResult {
   description: string;
   /** Source institution name */
   institution: string;
-  /** Technology category */
+  /** Top-level taxonomy category */
   category: string;
+  /** Taxonomy subcategory, when the technology was placed that precisely */
+  subcategory?: string | null;
+  /** Taxonomy id, e.g. "energy.storage" */
+  taxonomyId?: string;
+  /** Category as listed by the source site */
+  sourceCategory?: string | null;
+  /** ISO 639-1 code of the original title and description */
+  language?: string | null;
+  /** English translations of the title and description, for non-English technologies */
+  translations?: TechnologyTranslations | null;
   /** Country of origin */
   country: string;
+  /** Canonical patent and application numbers */
+  patentNumbers: string[];
+  /** IP status derived from the patent numbers */
+  patentStatus: string;
+  /** Whether the institution still lists the technology */
+  active?: boolean;
+  /** When the technology was withdrawn, if it was */
+  withdrawnAt?: Date | null;
+  /** Why the technology was withdrawn (not_seen, page_gone) */
+  withdrawnReason?: string | null;
   /** Initial discovery timestamp */
   discoveredAt: Date;
   /** Last update timestamp */
   updatedAt: Date;
   /** Semantic relevance score (0-1) */
   score: number;
+  /** Matched terms per field, wrapped in highlight tags */
+  highlights?: SearchHighlights;
+  /** Best passage of the English description, with matched terms highlighted */
+  snippet?: string | null;
+}
+
+/**
+ * Highlight fragments per indexed field. Matches in localized text such as
+ * localized.german.title are reported under their base field.
+ */
+export interface SearchHighlights {
+  title: string[];
+  description: string[];
+  [field: string]: string[];
 }
 
 /**
@@ -81,8 +131,12 @@ export interface SearchFacets {
   institutions: FacetCount[];
   /** Category facet counts */
   categories: FacetCount[];
+  /** Taxonomy subcategory facet counts */
+  subcategories?: FacetCount[];
   /** Country facet counts */
   countries: FacetCount[];
+  /** IP status facet counts */
+  patentStatuses: FacetCount[];
 }
 
 /**
@@ -131,4 +185,166 @@ export interface DateRange {
   start: Date;
   /** End date of the range */
   end: Date;
-}
\ No newline at end of file
+}
+/**
+ * Technology as stored in the search index
+ * Fields shared with SearchResult carry the same meaning
+ */
+export interface SearchDocument {
+  title: string;
+  description: string;
+  institution: string;
+  category: string;
+  subcategory: string | null;
+  taxonomyId: string;
+  sourceCategory: string | null;
+  language: string | null;
+  /** Original title and description keyed by the analyzer of their language, when not English */
+  localized: Record<string, { title: string; description: string }> | null;
+  translations: TechnologyTranslations | null;
+  country: string;
+  patentNumbers: string[];
+  patentStatus: string;
+  /** Patent family shared with related technologies */
+  patentFamilyId: string | null;
+  /** People directory ids and names of the inventors */
+  inventorIds: string[];
+  inventorNames: string[];
+  /** People directory ids and names of the licensing contacts */
+  licensingContactIds: string[];
+  licensingContactNames: string[];
+  active: boolean;
+  withdrawnAt: Date | null;
+  withdrawnReason: string | null;
+  discoveredAt: Date;
+  updatedAt: Date;
+  /** Hash of the indexed fields, compared by the consistency checker */
+  digest?: string;
+  /** Semantic embedding of the title and description */
+  embedding?: number[];
+  /** Completion suggester inputs, one per suggestion type */
+  suggest?: SuggestInput[];
+}
+
+/**
+ * Kinds of typeahead suggestion, in the order they are grouped
+ */
+export type SuggestionType = 'title' | 'institution' | 'category' | 'inventor';
+
+/**
+ * Completion suggester input stored with a technology's search document
+ */
+export interface SuggestInput {
+  input: string[];
+  contexts: { type: SuggestionType[] };
+}
+
+/**
+ * Typeahead suggestion for a search query prefix
+ */
+export interface Suggestion {
+  type: SuggestionType;
+  /** Text shown and searched for when the suggestion is picked */
+  text: string;
+  /** Completion score boosted by how often the text was searched */
+  score: number;
+  /** Technology a title suggestion belongs to */
+  technologyId?: string;
+  /** Filter an institution, category or inventor suggestion can apply instead of a text search */
+  filter?: { field: keyof SearchFilters; value: string };
+}
+
+/**
+ * Suggestions of one type, best first
+ */
+export interface SuggestionGroup {
+  type: SuggestionType;
+  suggestions: Suggestion[];
+}
+
+/**
+ * Typeahead suggestions for a query prefix, grouped by type
+ */
+export interface SuggestionResponse {
+  query: string;
+  groups: SuggestionGroup[];
+}
+
+/**
+ * People linked to a technology, in the shape the search index stores them
+ */
+export interface SearchDocumentPeople {
+  inventorIds: string[];
+  inventorNames: string[];
+  licensingContactIds: string[];
+  licensingContactNames: string[];
+}
+
+/**
+ * Write queued for the search index: index the technology's current row, or delete it
+ */
+export type SearchIndexOperation = 'index' | 'delete';
+
+/**
+ * Outcome of sending one batch of queued changes to the search index
+ */
+export interface IndexingBatchResult {
+  /** Queued changes claimed for the batch */
+  claimed: number;
+  /** Documents written */
+  indexed: number;
+  /** Documents removed */
+  deleted: number;
+  /** Changes left queued for a retry */
+  failed: number;
+}
+
+/**
+ * Outcome of rebuilding the search index and moving the alias onto it
+ */
+export interface ReindexResult {
+  /** Alias searches and queued changes go through */
+  alias: string;
+  /** Index built by this reindex */
+  index: string;
+  /** Indices the alias pointed at before, now deleted */
+  previousIndices: string[];
+  /** Documents written to the new index */
+  documents: number;
+  /** Technologies that could not be written */
+  failed: number;
+  /** Technologies changed while the index was built, queued again */
+  requeued: number;
+  durationMs: number;
+}
+
+/**
+ * Technologies found in one kind of drift, with a capped sample of their ids
+ */
+export interface IndexDrift {
+  count: number;
+  sample: string[];
+}
+
+/**
+ * Differences between the technologies table and the search index
+ */
+export interface IndexConsistencyReport {
+  alias: string;
+  /** Indices behind the alias */
+  indices: string[];
+  checkedAt: Date;
+  databaseCount: number;
+  indexCount: number;
+  /** Changes waiting in the queue; their technologies are not reported as drift */
+  pending: number;
+  /** Technologies with no document */
+  missing: IndexDrift;
+  /** Documents that no longer match their technology */
+  stale: IndexDrift;
+  /** Documents whose technology no longer exists */
+  orphaned: IndexDrift;
+  consistent: boolean;
+  /** Changes queued to repair the drift, when a repair was requested */
+  repaired: number;
+}
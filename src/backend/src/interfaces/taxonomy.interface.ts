@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Interfaces for batch classification runs that re-place the technology
+ * catalog in the controlled taxonomy
+ * @version 1.0.0
+ */
+
+import { ClassificationSource } from '../constants/taxonomy.constants';
+
+/**
+ * Lifecycle of a classification run
+ */
+export type ClassificationRunStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+/**
+ * Technology a classification run moved, or would move, to another taxonomy placement
+ */
+export interface ClassificationChange {
+  technologyId: string;
+  title: string;
+  previousTaxonomyId: string;
+  taxonomyId: string;
+  source: ClassificationSource;
+  confidence: number | null;
+}
+
+/**
+ * Technology counts for a classification run
+ */
+export interface ClassificationSummary {
+  technologies: number;
+  changed: number;
+  unchanged: number;
+  manual: number;
+  unclassified: number;
+  failed: number;
+}
\ No newline at end of file
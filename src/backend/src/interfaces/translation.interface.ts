@@ -0,0 +1,27 @@
+/**
+ * @fileoverview Interfaces for translating international technologies into English while
+ * keeping the original text
+ * @version 1.0.0
+ */
+
+/**
+ * Machine translation backend. Implementations must return one translation per input text,
+ * in input order.
+ */
+export interface TranslationProvider {
+  readonly name: string;
+  translate(texts: string[], sourceLanguage: string, targetLanguage: string): Promise<string[]>;
+}
+
+/**
+ * Translations stored next to a technology's original title and description. Fields are
+ * null when the original was empty.
+ */
+export interface TechnologyTranslations {
+  sourceLanguage: string;
+  targetLanguage: string;
+  title: string | null;
+  description: string | null;
+  provider: string;
+  translatedAt: string;
+}
\ No newline at end of file
@@ -0,0 +1,89 @@
+/**
+ * @fileoverview Local taxonomy model: a bag-of-words linear classifier exported as JSON and
+ * run in-process, used when keyword rules cannot place a technology precisely
+ * @version 1.0.0
+ */
+
+import { readFileSync } from 'fs';
+import { TaxonomyPrediction, TaxonomyPredictor } from '../../utils/taxonomy.util';
+import { logger } from '../../utils/logger.util';
+
+/**
+ * Exported model weights: one weight per label for each token, plus optional label biases
+ */
+export interface TaxonomyModelWeights {
+  labels: string[];
+  weights: Record<string, number[]>;
+  bias?: number[];
+}
+
+let cachedModel: LocalTaxonomyModel | null | undefined;
+
+/**
+ * Linear classifier over lowercase word tokens, scored with a softmax across labels
+ */
+export class LocalTaxonomyModel implements TaxonomyPredictor {
+  constructor(private readonly model: TaxonomyModelWeights) {
+    const width = model.labels.length;
+    if (width === 0 || Object.values(model.weights).some(row => row.length !== width) ||
+        (model.bias && model.bias.length !== width)) {
+      throw new Error('Invalid taxonomy model: weight rows must have one entry per label');
+    }
+  }
+
+  /**
+   * Loads a model exported as JSON
+   * @param path Path to the exported weights
+   */
+  static fromFile(path: string): LocalTaxonomyModel {
+    return new LocalTaxonomyModel(JSON.parse(readFileSync(path, 'utf8')));
+  }
+
+  /**
+   * Scores every label for the text
+   * @param text Technology title, source category and description
+   * @returns Labels as taxonomy ids with their probabilities, best first
+   */
+  predict(text: string): TaxonomyPrediction[] {
+    const logits = this.model.labels.map((_, index) => this.model.bias?.[index] ?? 0);
+    const tokens = new Set(text.toLowerCase().match(/[a-z0-9]+(?:-[a-z0-9]+)*/g) || []);
+
+    for (const token of tokens) {
+      this.model.weights[token]?.forEach((weight, index) => {
+        logits[index] += weight;
+      });
+    }
+
+    const max = Math.max(...logits);
+    const exponents = logits.map(logit => Math.exp(logit - max));
+    const total = exponents.reduce((sum, value) => sum + value, 0);
+
+    return this.model.labels
+      .map((taxonomyId, index) => ({ taxonomyId, confidence: exponents[index] / total }))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+}
+
+/**
+ * Returns the model configured with TAXONOMY_MODEL_PATH, loading it once. Classification
+ * falls back to keyword rules alone when no model is configured or it cannot be loaded.
+ */
+export function getLocalTaxonomyModel(): LocalTaxonomyModel | null {
+  if (cachedModel === undefined) {
+    const path = process.env.TAXONOMY_MODEL_PATH;
+    cachedModel = null;
+
+    if (path) {
+      try {
+        cachedModel = LocalTaxonomyModel.fromFile(path);
+      } catch (error) {
+        logger.warn('Failed to load taxonomy model, classifying with keyword rules only', {
+          path,
+          error: (error as Error).message
+        });
+      }
+    }
+  }
+
+  return cachedModel;
+}
\ No newline at end of file
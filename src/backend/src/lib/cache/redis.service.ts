@@ -6,8 +6,8 @@
  */
 
 import Redis, { Cluster, ClusterOptions, RedisOptions } from 'ioredis'; // v5.0.0
-import { Counter, Gauge, register } from 'prom-client'; // v14.0.0
-import { RedisConfig } from '../../config/database.config';
+import { Counter, Gauge } from 'prom-client'; // v14.0.0
+import { RedisConfig } from '../../interfaces/config.interface';
 
 /**
  * Interface for cache metrics
@@ -28,7 +28,6 @@ export class RedisService {
   private static instance: RedisService;
   private client: Redis | Cluster;
   private readonly config: RedisConfig;
-  private readonly connectionPool: Map<string, Redis>;
   
   // Prometheus metrics
   private readonly metrics = {
@@ -56,7 +55,6 @@ export class RedisService {
    */
   private constructor(config: RedisConfig) {
     this.config = config;
-    this.connectionPool = new Map();
 
     const baseOptions: RedisOptions = {
       host: config.host,
@@ -178,6 +176,25 @@ export class RedisService {
     }
   }
 
+  /**
+   * Atomically runs a Lua script with monitoring
+   * @param script Lua script source
+   * @param keys Keys read or written by the script
+   * @param args Additional script arguments
+   * @returns Script reply
+   */
+  public async eval<T = unknown>(script: string, keys: string[], args: Array<string | number>): Promise<T> {
+    const startTime = Date.now();
+    try {
+      const result = await this.client.eval(script, keys.length, ...keys, ...args);
+      this.metrics.latency.set(Date.now() - startTime);
+      return result as T;
+    } catch (error) {
+      console.error(`Redis EVAL error for keys ${keys.join(', ')}:`, error);
+      throw error;
+    }
+  }
+
   /**
    * Safe cache clearing with monitoring
    */
@@ -201,7 +218,7 @@ export class RedisService {
     const metrics = {
       hits: parseInt(this.parseInfo(info, 'keyspace_hits') || '0'),
       misses: parseInt(this.parseInfo(info, 'keyspace_misses') || '0'),
-      latency: parseFloat(await this.metrics.latency.get()),
+      latency: (await this.metrics.latency.get()).values[0]?.value ?? 0,
       memoryUsage: parseInt(this.parseInfo(info, 'used_memory') || '0'),
       connectedClients: parseInt(this.parseInfo(info, 'connected_clients') || '0')
     };
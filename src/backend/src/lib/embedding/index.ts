@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Embedding stage for semantic search: selects the configured provider and
+ * turns technologies and search queries into vectors
+ * @version 1.0.0
+ */
+
+import { EmbeddingProvider } from '../../interfaces/embedding.interface';
+import { TechnologyTranslations } from '../../interfaces/translation.interface';
+import { EMBEDDING_CONFIG, EMBEDDING_PROVIDERS } from '../../constants/embedding.constants';
+import { LocalEmbeddingProvider } from './local.provider';
+import { OpenAIEmbeddingProvider } from './openai.provider';
+import { searchConfig } from '../../config/search.config';
+import { logger } from '../../utils/logger.util';
+
+export { LocalEmbeddingProvider, type EmbeddingLexicon } from './local.provider';
+export { OpenAIEmbeddingProvider } from './openai.provider';
+
+/**
+ * Technology fields that describe what it does
+ */
+export interface EmbeddableTechnology {
+  title: string;
+  description?: string | null;
+  translations?: TechnologyTranslations | null;
+}
+
+let cachedProvider: EmbeddingProvider | null | undefined;
+
+/**
+ * Returns the provider selected with EMBEDDING_PROVIDER, creating it once. Search stays
+ * keyword-only when no provider is configured.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider | null {
+  if (cachedProvider === undefined) {
+    const name = process.env.EMBEDDING_PROVIDER;
+    const dimensions = searchConfig.search.semantic.dimensions;
+    cachedProvider = null;
+
+    if (name === EMBEDDING_PROVIDERS.LOCAL) {
+      cachedProvider = new LocalEmbeddingProvider(dimensions);
+    } else if (name === EMBEDDING_PROVIDERS.OPENAI) {
+      if (process.env.EMBEDDING_API_KEY || process.env.EMBEDDING_API_URL) {
+        cachedProvider = new OpenAIEmbeddingProvider(
+          process.env.EMBEDDING_API_URL || 'https://api.openai.com/v1',
+          process.env.EMBEDDING_MODEL || EMBEDDING_CONFIG.DEFAULT_MODEL,
+          dimensions,
+          process.env.EMBEDDING_API_KEY || undefined
+        );
+      } else {
+        logger.warn('EMBEDDING_API_KEY is not set, search will not use embeddings', { provider: name });
+      }
+    } else if (name) {
+      logger.warn('Unknown embedding provider, search will not use embeddings', { provider: name });
+    }
+  }
+
+  return cachedProvider;
+}
+
+/**
+ * Text embedded for a technology: the English translation when there is one, followed by
+ * the original, so cross-language queries and original-language queries both match
+ */
+export function technologyEmbeddingText(technology: EmbeddableTechnology): string {
+  const parts = [
+    technology.translations?.title,
+    technology.translations?.description,
+    technology.title,
+    technology.description
+  ].filter((part): part is string => Boolean(part?.trim()));
+
+  return truncateText(parts.join('\n'), EMBEDDING_CONFIG.MAX_TEXT_LENGTH);
+}
+
+/**
+ * Embeds texts in provider-sized batches
+ * @returns One vector per text, or null for empty text and for vectors that cannot be
+ * indexed: a wrong length, or no magnitude for cosine similarity
+ */
+export async function embedTexts(texts: string[], provider: EmbeddingProvider): Promise<Array<number[] | null>> {
+  const vectors: Array<number[] | null> = texts.map(() => null);
+  const present = texts
+    .map((text, index) => ({ text: text.trim(), index }))
+    .filter(entry => entry.text.length > 0);
+
+  for (let start = 0; start < present.length; start += EMBEDDING_CONFIG.BATCH_SIZE) {
+    const batch = present.slice(start, start + EMBEDDING_CONFIG.BATCH_SIZE);
+    const embedded = await provider.embed(batch.map(entry => entry.text));
+    batch.forEach((entry, position) => {
+      const vector = embedded[position];
+      if (vector?.length === provider.dimensions && vector.some(value => value !== 0)) {
+        vectors[entry.index] = vector;
+      }
+    });
+  }
+
+  return vectors;
+}
+
+/**
+ * Cuts text to at most the given length, at the last word boundary when there is one
+ */
+function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.slice(0, maxLength);
+  const boundary = cut.search(/\s\S*$/);
+  return boundary > 0 ? cut.slice(0, boundary) : cut;
+}
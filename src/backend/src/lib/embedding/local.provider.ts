@@ -0,0 +1,151 @@
+/**
+ * @fileoverview Offline embedding provider that hashes words and known technology-transfer
+ * concepts into a fixed-length vector. Synonyms in the built-in lexicon share a feature, so
+ * "blood sugar sensing" lands near "glucose monitoring". It needs no network access and
+ * returns the same vector for the same text, so tests and local development can exercise
+ * semantic search deterministically; it is not meant for production ranking.
+ * @version 1.0.0
+ */
+
+import { EmbeddingProvider } from '../../interfaces/embedding.interface';
+import { EMBEDDING_CONFIG } from '../../constants/embedding.constants';
+
+/**
+ * Concepts and the words or phrases that express them, in lowercase
+ */
+export type EmbeddingLexicon = Record<string, string[]>;
+
+const DEFAULT_LEXICON: EmbeddingLexicon = {
+  glucose: ['glucose', 'blood sugar', 'glycemic', 'glycaemic', 'hyperglycemia', 'hypoglycemia'],
+  diabetes: ['diabetes', 'diabetic', 'insulin'],
+  noninvasive: ['noninvasive', 'non invasive', 'transdermal', 'needle free', 'needleless', 'through the skin'],
+  sensing: ['monitoring', 'monitor', 'sensing', 'sensor', 'detection', 'detect', 'measurement', 'measuring'],
+  cancer: ['cancer', 'tumor', 'tumour', 'oncology', 'carcinoma', 'neoplasm', 'malignant'],
+  cardiac: ['cardiac', 'heart', 'cardiovascular', 'coronary'],
+  neurology: ['brain', 'neurological', 'neurodegenerative', 'alzheimer', 'parkinson'],
+  imaging: ['imaging', 'mri', 'tomography', 'ultrasound', 'radiography'],
+  diagnostics: ['diagnostic', 'diagnosis', 'assay', 'biomarker', 'screening'],
+  drugDelivery: ['drug delivery', 'controlled release', 'nanocarrier', 'targeted delivery'],
+  vaccine: ['vaccine', 'vaccination', 'immunization', 'immunisation'],
+  antibody: ['antibody', 'antibodies', 'monoclonal', 'immunoglobulin'],
+  antimicrobial: ['antimicrobial', 'antibacterial', 'antibiotic', 'antifungal'],
+  geneEditing: ['crispr', 'gene editing', 'genome editing', 'cas9'],
+  battery: ['battery', 'batteries', 'energy storage', 'lithium ion', 'electrochemical cell', 'anode', 'cathode'],
+  solar: ['solar', 'photovoltaic', 'pv cell', 'perovskite'],
+  hydrogen: ['hydrogen', 'fuel cell', 'electrolyzer', 'electrolysis'],
+  water: ['water treatment', 'water purification', 'desalination', 'wastewater'],
+  catalysis: ['catalyst', 'catalytic', 'catalysis'],
+  semiconductor: ['semiconductor', 'transistor', 'microchip', 'integrated circuit'],
+  wireless: ['wireless', 'radio frequency', 'antenna', '5g'],
+  machineLearning: ['machine learning', 'deep learning', 'neural network', 'artificial intelligence', 'ai'],
+  robotics: ['robot', 'robotic', 'robotics', 'autonomous'],
+  vehicle: ['vehicle', 'automotive', 'car', 'electric vehicle'],
+  biodegradable: ['biodegradable', 'compostable', 'bioplastic'],
+  agriculture: ['agriculture', 'agricultural', 'crop', 'farming', 'plant breeding']
+};
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in', 'into', 'is',
+  'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'using', 'with', 'which'
+]);
+
+// Concepts count more than single words, so synonyms outweigh incidental vocabulary
+const CONCEPT_WEIGHT = 3;
+
+/**
+ * Embeds texts with feature hashing over words and lexicon concepts
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'local';
+  private readonly phrases: Array<[string, string]>;
+
+  /**
+   * @param dimensions Vector length
+   * @param lexicon Concepts to recognize; defaults to a small technology-transfer lexicon
+   */
+  constructor(
+    readonly dimensions: number = EMBEDDING_CONFIG.DEFAULT_DIMENSIONS,
+    lexicon: EmbeddingLexicon = DEFAULT_LEXICON
+  ) {
+    // Longest phrases first, so "electric vehicle" is matched before "vehicle"
+    this.phrases = Object.entries(lexicon)
+      .flatMap(([concept, terms]) => terms.map((term): [string, string] => [tokenize(term), concept]))
+      .sort(([a], [b]) => b.length - a.length);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    let remaining = ` ${tokenize(text)} `;
+
+    for (const [phrase, concept] of this.phrases) {
+      const pattern = ` ${phrase} `;
+      let position = remaining.indexOf(pattern);
+      while (position !== -1) {
+        this.addFeature(vector, `concept:${concept}`, CONCEPT_WEIGHT);
+        remaining = `${remaining.slice(0, position)} ${remaining.slice(position + pattern.length - 1)}`;
+        position = remaining.indexOf(pattern);
+      }
+    }
+
+    for (const word of remaining.split(' ')) {
+      if (word && !STOP_WORDS.has(word)) {
+        this.addFeature(vector, `word:${word}`, 1);
+      }
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  /**
+   * Adds a feature to its hashed dimension, with a hashed sign so collisions cancel out
+   */
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+    vector[hash % this.dimensions] += sign * weight;
+  }
+}
+
+/**
+ * Lowercases text, folds accents, splits hyphenated words and stems each word, returning
+ * single-spaced words
+ */
+function tokenize(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(stem)
+    .join(' ');
+}
+
+/**
+ * Strips common English suffixes so "sensors" and "sensor" share a feature
+ */
+function stem(word: string): string {
+  for (const suffix of ['ing', 'ies', 'es', 'ed', 's']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 4) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < value.length; index++) {
+    hash ^= value.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Embedding provider backed by an OpenAI-compatible /embeddings endpoint,
+ * which also covers self-hosted servers exposing the same API
+ * @version 1.0.0
+ */
+
+import axios, { AxiosInstance } from 'axios'; // v1.4.0
+import { EmbeddingProvider } from '../../interfaces/embedding.interface';
+import { EMBEDDING_CONFIG } from '../../constants/embedding.constants';
+
+/**
+ * Response body of the /embeddings endpoint
+ */
+interface EmbeddingsResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+/**
+ * Embeds batches of texts with a single /embeddings request
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai';
+  private readonly httpClient: AxiosInstance;
+
+  /**
+   * @param baseUrl API base URL, e.g. https://api.openai.com/v1
+   * @param model Embedding model name
+   * @param dimensions Vector length requested from the model
+   * @param apiKey API key, when the server requires one
+   * @param httpClient HTTP client override
+   */
+  constructor(
+    baseUrl: string,
+    private readonly model: string,
+    readonly dimensions: number,
+    apiKey?: string,
+    httpClient?: AxiosInstance
+  ) {
+    this.httpClient = httpClient || axios.create({
+      baseURL: baseUrl,
+      timeout: EMBEDDING_CONFIG.REQUEST_TIMEOUT,
+      headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : {}
+    });
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const { data } = await this.httpClient.post<EmbeddingsResponse>('/embeddings', {
+      model: this.model,
+      input: texts,
+      dimensions: this.dimensions
+    });
+
+    if (!Array.isArray(data?.data) || data.data.length !== texts.length) {
+      throw new Error('Embedding provider returned an unexpected number of embeddings');
+    }
+
+    return [...data.data]
+      .sort((a, b) => a.index - b.index)
+      .map(item => item.embedding);
+  }
+}
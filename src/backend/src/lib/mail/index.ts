@@ -0,0 +1,45 @@
+/**
+ * @fileoverview Outgoing email: selects the configured transport
+ * @version 1.0.0
+ */
+
+import { MailTransport } from '../../interfaces/mail.interface';
+import { MAIL_CONFIG, MAIL_TRANSPORTS } from '../../constants/mail.constants';
+import { LocalMailTransport } from './local.transport';
+import { SmtpMailTransport } from './smtp.transport';
+import { logger } from '../../utils/logger.util';
+
+export { LocalMailTransport } from './local.transport';
+export { SmtpMailTransport, type SmtpSettings } from './smtp.transport';
+
+let cachedTransport: MailTransport | undefined;
+
+/**
+ * Returns the transport selected with MAIL_TRANSPORT, creating it once. Without a usable
+ * SMTP configuration, mail is kept in the local outbox and only logged.
+ */
+export function getMailTransport(): MailTransport {
+  if (cachedTransport === undefined) {
+    const name = process.env.MAIL_TRANSPORT || MAIL_TRANSPORTS.LOCAL;
+    cachedTransport = new LocalMailTransport();
+
+    if (name === MAIL_TRANSPORTS.SMTP) {
+      if (process.env.SMTP_HOST) {
+        cachedTransport = new SmtpMailTransport({
+          host: process.env.SMTP_HOST,
+          port: parseInt(process.env.SMTP_PORT || '587'),
+          secure: process.env.SMTP_SECURE === 'true',
+          user: process.env.SMTP_USER || undefined,
+          password: process.env.SMTP_PASSWORD || undefined,
+          from: process.env.MAIL_FROM || MAIL_CONFIG.DEFAULT_FROM
+        });
+      } else {
+        logger.warn('SMTP_HOST is not set, email will only be logged', { transport: name });
+      }
+    } else if (name !== MAIL_TRANSPORTS.LOCAL) {
+      logger.warn('Unknown mail transport, email will only be logged', { transport: name });
+    }
+  }
+
+  return cachedTransport;
+}
@@ -0,0 +1,44 @@
+/**
+ * @fileoverview Mail transport that keeps messages in memory instead of sending them, so
+ * local development and tests can exercise alerts without an SMTP server
+ * @version 1.0.0
+ */
+
+import { MailMessage, MailTransport } from '../../interfaces/mail.interface';
+import { MAIL_CONFIG } from '../../constants/mail.constants';
+import { logger } from '../../utils/logger.util';
+
+/**
+ * Records sent messages in a bounded outbox, oldest first
+ */
+export class LocalMailTransport implements MailTransport {
+  readonly name = 'local';
+  private readonly sent: MailMessage[] = [];
+
+  /**
+   * @param outboxSize Messages kept before the oldest are dropped
+   */
+  constructor(private readonly outboxSize: number = MAIL_CONFIG.LOCAL_OUTBOX_SIZE) {}
+
+  async send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+    if (this.sent.length > this.outboxSize) {
+      this.sent.splice(0, this.sent.length - this.outboxSize);
+    }
+    logger.info('Email kept in local outbox', { to: message.to, subject: message.subject });
+  }
+
+  /**
+   * Messages sent so far, oldest first
+   */
+  get outbox(): readonly MailMessage[] {
+    return this.sent;
+  }
+
+  /**
+   * Empties the outbox
+   */
+  clear(): void {
+    this.sent.length = 0;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * @fileoverview Mail transport that delivers through an SMTP server
+ * @version 1.0.0
+ */
+
+import nodemailer, { Transporter } from 'nodemailer'; // ^6.9.1
+import { MailMessage, MailTransport } from '../../interfaces/mail.interface';
+import { MAIL_CONFIG } from '../../constants/mail.constants';
+
+/**
+ * SMTP server connection settings
+ */
+export interface SmtpSettings {
+  host: string;
+  port: number;
+  /** Use TLS from the start rather than upgrading with STARTTLS */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** Sender address, e.g. "Alerts <alerts@example.com>" */
+  from: string;
+}
+
+/**
+ * Sends messages over a pooled SMTP connection
+ */
+export class SmtpMailTransport implements MailTransport {
+  readonly name = 'smtp';
+  private readonly transporter: Transporter;
+
+  /**
+   * @param settings SMTP server connection settings
+   * @param transporter Nodemailer transporter override
+   */
+  constructor(private readonly settings: SmtpSettings, transporter?: Transporter) {
+    this.transporter = transporter || nodemailer.createTransport({
+      host: settings.host,
+      port: settings.port,
+      secure: settings.secure,
+      pool: true,
+      auth: settings.user ? { user: settings.user, pass: settings.password } : undefined,
+      connectionTimeout: MAIL_CONFIG.SEND_TIMEOUT,
+      socketTimeout: MAIL_CONFIG.SEND_TIMEOUT
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    const info = await this.transporter.sendMail({
+      from: this.settings.from,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      html: message.html,
+      headers: message.headers
+    });
+
+    if (info.rejected?.length) {
+      throw new Error(`SMTP server rejected recipient ${message.to}`);
+    }
+  }
+}
@@ -32,6 +32,7 @@ interface ConsumeOptions {
   exclusive?: boolean;
   consumerTag?: string;
   retryOnError?: boolean;
+  requeueOnError?: boolean; // put failed messages back on the same queue instead of dead-lettering them
 }
 
 /**
@@ -41,14 +42,14 @@ interface ConsumeOptions {
  */
 @injectable()
 export class RabbitMQService {
-  private connection: amqp.Connection;
-  private channel: amqp.Channel;
-  private logger: winston.Logger;
+  private connection!: amqp.ChannelModel;
+  private channel!: amqp.Channel;
+  private logger!: winston.Logger;
   private config: QueueConfig;
   private connectionRetryCount: number = 0;
-  private healthCheckInterval: NodeJS.Timer;
+  private healthCheckInterval!: NodeJS.Timeout;
   private channelPool: Map<string, amqp.Channel>;
-  private metrics: QueueMetrics;
+  private metrics!: QueueMetrics;
 
   constructor(config: QueueConfig) {
     this.config = config;
@@ -95,16 +96,15 @@ export class RabbitMQService {
     try {
       const { connection } = this.config;
       const connectionOptions: amqp.Options.Connect = {
-        protocol: connection.protocol,
+        // amqplib negotiates TLS from the protocol rather than a separate flag
+        protocol: connection.ssl ? 'amqps' : connection.protocol,
         hostname: connection.hostname,
         port: connection.port,
         username: connection.username,
         password: connection.password,
         vhost: connection.vhost,
         heartbeat: connection.heartbeat,
-        frameMax: connection.frameMax,
-        channelMax: connection.channelMax,
-        ssl: connection.ssl
+        frameMax: connection.frameMax
       };
 
       this.connection = await amqp.connect(connectionOptions);
@@ -123,7 +123,7 @@ export class RabbitMQService {
       this.logger.info('Successfully connected to RabbitMQ');
       this.connectionRetryCount = 0;
     } catch (error) {
-      this.handleConnectionError(error);
+      this.handleConnectionError(error as Error);
     }
   }
 
@@ -164,7 +164,7 @@ export class RabbitMQService {
       return published;
     } catch (error) {
       this.logger.error(`Error publishing to queue ${queueName}:`, error);
-      this.updateErrorMetrics(queueName, error);
+      this.updateErrorMetrics(queueName, error as Error);
       throw error;
     }
   }
@@ -182,7 +182,7 @@ export class RabbitMQService {
       const queueConfig = this.getQueueConfig(queueName);
 
       // Set channel prefetch
-      await channel.prefetch(this.config.workers[queueName].prefetch);
+      await channel.prefetch(this.config.workers[this.getQueueType(queueName)].prefetch);
 
       const consumeOptions: amqp.Options.Consume = {
         noAck: options.noAck ?? false,
@@ -199,12 +199,12 @@ export class RabbitMQService {
           channel.ack(msg);
           this.updateConsumeMetrics(queueName, Date.now() - startTime);
         } catch (error) {
-          this.handleConsumerError(channel, msg, error, queueConfig, options);
+          this.handleConsumerError(channel, msg, error as Error, queueConfig, options);
         }
       }, consumeOptions);
     } catch (error) {
       this.logger.error(`Error setting up consumer for queue ${queueName}:`, error);
-      this.updateErrorMetrics(queueName, error);
+      this.updateErrorMetrics(queueName, error as Error);
       throw error;
     }
   }
@@ -243,7 +243,7 @@ export class RabbitMQService {
    * Sets up queues and exchanges with dead letter handling
    */
   private async setupQueuesAndExchanges(): Promise<void> {
-    for (const [queueType, queueConfig] of Object.entries(this.config.queues)) {
+    for (const queueConfig of Object.values(this.config.queues)) {
       // Assert dead letter exchange
       await this.channel.assertExchange(queueConfig.options.deadLetterExchange, 'direct', {
         durable: true
@@ -326,6 +326,8 @@ export class RabbitMQService {
       });
 
       channel.ack(msg);
+    } else if (options.requeueOnError) {
+      channel.nack(msg, false, true);
     } else {
       // Send to dead letter queue
       channel.nack(msg, false, false);
@@ -343,7 +345,7 @@ export class RabbitMQService {
         this.metrics.lastHealthCheck = new Date();
       } catch (error) {
         this.logger.error('Health check failed:', error);
-        this.updateErrorMetrics('health_check', error);
+        this.updateErrorMetrics('health_check', error as Error);
       }
     }, 30000); // Every 30 seconds
   }
@@ -371,7 +373,7 @@ export class RabbitMQService {
   /**
    * Updates error metrics
    */
-  private updateErrorMetrics(queueName: string, error: Error): void {
+  private updateErrorMetrics(queueName: string, _error: Error): void {
     const current = this.metrics.errors.get(queueName) || 0;
     this.metrics.errors.set(queueName, current + 1);
   }
@@ -380,25 +382,33 @@ export class RabbitMQService {
    * Gets or creates a channel for the specified queue
    */
   private async getOrCreateChannel(queueName: string): Promise<amqp.Channel> {
-    if (!this.channelPool.has(queueName)) {
-      const channel = await this.connection.createChannel();
+    let channel = this.channelPool.get(queueName);
+    if (!channel) {
+      channel = await this.connection.createChannel();
       this.channelPool.set(queueName, channel);
     }
-    return this.channelPool.get(queueName);
+    return channel;
   }
 
   /**
    * Gets queue configuration by queue name
    */
   private getQueueConfig(queueName: string): any {
+    return this.config.queues[this.getQueueType(queueName)];
+  }
+
+  /**
+   * Resolves the queue type owning a job queue or its dead-letter queue
+   */
+  private getQueueType(queueName: string): keyof QueueConfig['queues'] {
     const queueType = Object.entries(this.config.queues)
-      .find(([_, config]) => config.name === queueName)?.[0];
+      .find(([_, config]) => config.name === queueName || config.deadLetter === queueName)?.[0];
     
     if (!queueType) {
       throw new Error(`Queue configuration not found for ${queueName}`);
     }
 
-    return this.config.queues[queueType];
+    return queueType as keyof QueueConfig['queues'];
   }
 
   /**
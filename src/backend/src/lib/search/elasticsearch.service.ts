@@ -5,11 +5,60 @@
  * @version 1.0.0
  */
 
-import { Client } from '@elastic/elasticsearch'; // v8.0.0
-import { Logger } from 'winston'; // v3.8.0
-import { SearchParams, SearchResponse, SearchResult, SearchFacets } from '../../interfaces/search.interface';
+import { Client, estypes } from '@elastic/elasticsearch'; // v8.0.0
+import * as winston from 'winston'; // v3.8.0
+import {
+  SearchParams,
+  SearchResponse,
+  SearchResult,
+  SearchHighlights,
+  SearchFacets,
+  SearchDocument,
+  SearchIndexOperation,
+  Suggestion,
+  SuggestionType
+} from '../../interfaces/search.interface';
 import { searchConfig } from '../../config/search.config';
+import { PATENT_STATUSES } from '../../constants/scraper.constants';
 import { RedisService } from '../cache/redis.service';
+import { EmbeddingProvider } from '../../interfaces/embedding.interface';
+import { embedTexts, getEmbeddingProvider } from '../embedding';
+import { generateSnippet } from '../../utils/snippet.util';
+
+/**
+ * Document write sent in a bulk request; index writes carry the document to store
+ */
+export type BulkWrite =
+  | { id: string; operation: Extract<SearchIndexOperation, 'index'>; document: SearchDocument }
+  | { id: string; operation: Extract<SearchIndexOperation, 'delete'> };
+
+/**
+ * Per-document outcome of a bulk request
+ */
+export interface BulkItemResult {
+  id: string;
+  status: number;
+  error?: string;
+}
+
+/**
+ * Technology fields a completion option carries for building its suggestion
+ */
+interface SuggestSource {
+  title?: string;
+  translations?: { title?: string };
+  category?: string;
+  subcategory?: string;
+  inventorIds?: string[];
+  inventorNames?: string[];
+}
+
+/**
+ * Search response of a request made only of completion suggesters
+ */
+interface CompletionSuggestResponse {
+  suggest?: Record<string, estypes.SearchCompletionSuggest<SuggestSource>[]>;
+}
 
 /**
  * High-performance Elasticsearch service implementing Singleton pattern
@@ -19,7 +68,8 @@ export class ElasticsearchService {
   private static instance: ElasticsearchService;
   private client: Client;
   private cacheService: RedisService;
-  private logger: Logger;
+  private embeddingProvider: EmbeddingProvider | null;
+  private logger: winston.Logger;
   private readonly metrics: {
     searchLatency: number;
     cacheHits: number;
@@ -35,7 +85,7 @@ export class ElasticsearchService {
     this.client = new Client({
       node: searchConfig.elasticsearch.node,
       auth: searchConfig.elasticsearch.auth,
-      ssl: {
+      tls: {
         rejectUnauthorized: process.env.NODE_ENV === 'production'
       },
       maxRetries: 3,
@@ -43,10 +93,7 @@ export class ElasticsearchService {
       compression: true,
       sniffOnStart: true,
       sniffInterval: 30000,
-      pool: {
-        maxRetries: 3,
-        resurrectStrategy: 'ping'
-      }
+      resurrectStrategy: 'ping'
     });
 
     // Initialize Redis cache service
@@ -55,9 +102,13 @@ export class ElasticsearchService {
       port: parseInt(process.env.REDIS_PORT || '6379'),
       password: process.env.REDIS_PASSWORD,
       ttl: searchConfig.cache.ttl,
-      keyPrefix: searchConfig.cache.keyPrefix
+      keyPrefix: searchConfig.cache.keyPrefix,
+      cluster: process.env.REDIS_CLUSTER_ENABLED === 'true'
     });
 
+    // Queries are embedded with the same provider as indexed technologies
+    this.embeddingProvider = getEmbeddingProvider();
+
     // Initialize metrics
     this.metrics = {
       searchLatency: 0,
@@ -67,12 +118,12 @@ export class ElasticsearchService {
     };
 
     // Initialize logger
-    this.logger = new Logger({
+    this.logger = winston.createLogger({
       level: 'info',
-      format: Logger.format.json(),
+      format: winston.format.json(),
       transports: [
-        new Logger.transports.Console(),
-        new Logger.transports.File({ filename: 'elasticsearch.log' })
+        new winston.transports.Console(),
+        new winston.transports.File({ filename: 'elasticsearch.log' })
       ]
     });
 
@@ -109,18 +160,20 @@ export class ElasticsearchService {
 
       this.metrics.cacheMisses++;
 
-      // Build optimized query
-      const query = this.buildQuery(params);
+      // Build optimized query, blending in semantic similarity when the query can be embedded
+      const semanticWeight = this.resolveSemanticWeight(params.semanticWeight);
+      const queryVector = semanticWeight > 0 ? await this.embedQuery(params.query) : null;
+      const query = this.buildQuery(params, queryVector, semanticWeight);
 
       // Execute search with timeout
-      const { body } = await this.client.search({
+      const results = await this.client.search({
         index: searchConfig.elasticsearch.indices.technology,
         body: query,
         timeout: searchConfig.search.timeout.search
       });
 
       // Process results
-      const response = this.processResults(body);
+      const response = this.processResults(results, params.query);
 
       // Cache results
       await this.cacheService.set(
@@ -141,36 +194,301 @@ export class ElasticsearchService {
   }
 
   /**
-   * Builds optimized Elasticsearch query with performance considerations
+   * Looks up typeahead suggestions for a query prefix with one fuzzy completion suggester
+   * per type, so a typo in the prefix still finds its matches
+   * @param prefix Query prefix
+   * @param types Suggestion types to look up
+   * @param size Suggestions fetched per type
+   * @returns Suggestions with their completion scores, not yet ranked across types
+   */
+  public async suggest(prefix: string, types: readonly SuggestionType[], size: number): Promise<Suggestion[]> {
+    const config = searchConfig.search.suggest;
+    const suggesters: Record<string, estypes.SearchFieldSuggester> = Object.fromEntries(types.map(type => [type, {
+      prefix,
+      completion: {
+        field: 'suggest',
+        size,
+        skip_duplicates: true,
+        fuzzy: {
+          fuzziness: config.fuzziness,
+          min_length: config.fuzzyMinLength,
+          prefix_length: config.fuzzyPrefixLength
+        },
+        contexts: { type: [type] }
+      }
+    }]));
+
+    const request: estypes.SearchRequest = {
+      index: searchConfig.elasticsearch.indices.technology,
+      _source: ['title', 'translations.title', 'category', 'subcategory', 'inventorIds', 'inventorNames'],
+      suggest: suggesters,
+      timeout: searchConfig.search.timeout.suggest
+    };
+    const response = await this.client.search<SuggestSource>(request, {
+      requestTimeout: searchConfig.search.timeout.suggest
+    }) as CompletionSuggestResponse;
+
+    return types.flatMap(type => {
+      const options = response.suggest?.[type]?.[0]?.options ?? [];
+      return (Array.isArray(options) ? options : [options])
+        .map(option => this.toSuggestion(type, option))
+        .filter((suggestion): suggestion is Suggestion => suggestion !== null);
+    });
+  }
+
+  /**
+   * Sends index and delete writes in a single bulk request
+   * @param index Index or alias written to
+   * @param writes Writes in the order they should be applied
+   * @returns Outcome per write, in the same order
+   */
+  public async bulk(index: string, writes: BulkWrite[]): Promise<BulkItemResult[]> {
+    if (writes.length === 0) {
+      return [];
+    }
+
+    const operations = writes.flatMap((write): Array<estypes.BulkOperationContainer | SearchDocument> =>
+      write.operation === 'delete'
+        ? [{ delete: { _index: index, _id: write.id } }]
+        : [{ index: { _index: index, _id: write.id } }, write.document]
+    );
+
+    const response: any = await this.client.bulk<SearchDocument>({ operations });
+
+    return response.items.map((item: any, position: number): BulkItemResult => {
+      const result = item.index || item.delete;
+      return {
+        id: writes[position].id,
+        status: result.status,
+        error: result.error ? `${result.error.type}: ${result.error.reason}` : undefined
+      };
+    });
+  }
+
+  /**
+   * Creates an empty technology index with the configured settings and mappings
+   * @param index Concrete index name
+   */
+  public async createTechnologyIndex(index: string): Promise<void> {
+    await this.client.indices.create({
+      index,
+      settings: searchConfig.elasticsearch.settings,
+      mappings: searchConfig.elasticsearch.mappings.technology
+    } as any);
+  }
+
+  /**
+   * Lists the concrete indices an alias points to. An index created under the alias name
+   * before aliases were used is returned as its own target.
+   * @param alias Alias name
+   */
+  public async getAliasTargets(alias: string): Promise<string[]> {
+    const isAlias = await this.client.indices.existsAlias({ name: alias });
+    if (isAlias) {
+      const response: any = await this.client.indices.getAlias({ name: alias });
+      return Object.keys(response);
+    }
+
+    const isIndex = await this.client.indices.exists({ index: alias });
+    return isIndex ? [alias] : [];
+  }
+
+  /**
+   * Points an alias at a new index in one atomic step, so searches never see an empty index
+   * @param alias Alias name
+   * @param index Index the alias should point to
+   * @param previous Indices the alias points to now
+   */
+  public async swapAlias(alias: string, index: string, previous: string[]): Promise<void> {
+    const actions: object[] = previous.map(target => target === alias
+      ? { remove_index: { index: target } }
+      : { remove: { index: target, alias } }
+    );
+    actions.push({ add: { index, alias } });
+
+    await this.client.indices.updateAliases({ actions } as any);
+  }
+
+  /**
+   * Deletes indices, ignoring ones that no longer exist
+   */
+  public async deleteIndices(indices: string[]): Promise<void> {
+    if (indices.length === 0) {
+      return;
+    }
+    await this.client.indices.delete({ index: indices, ignore_unavailable: true });
+  }
+
+  /**
+   * Refreshes an index and counts its documents
+   */
+  public async count(index: string): Promise<number> {
+    await this.client.indices.refresh({ index });
+    const response: any = await this.client.count({ index });
+    return response.count;
+  }
+
+  /**
+   * Reads the stored digests of documents
+   * @returns Digest per id; ids without a document are omitted
+   */
+  public async getDigests(index: string, ids: string[]): Promise<Map<string, string | null>> {
+    const digests = new Map<string, string | null>();
+    if (ids.length === 0) {
+      return digests;
+    }
+
+    const response: any = await this.client.mget({ index, ids, _source: ['digest'] } as any);
+    for (const doc of response.docs) {
+      if (doc.found) {
+        digests.set(doc._id, doc._source?.digest ?? null);
+      }
+    }
+    return digests;
+  }
+
+  /**
+   * Scrolls through every document id in an index
+   * @param onPage Called with each page of ids
+   */
+  public async scanIds(index: string, pageSize: number, onPage: (ids: string[]) => Promise<void>): Promise<void> {
+    let response: any = await this.client.search({
+      index,
+      scroll: searchConfig.indexing.scrollKeepAlive,
+      size: pageSize,
+      _source: false,
+      sort: ['_doc'],
+      query: { match_all: {} }
+    } as any);
+    let scrollId: string | undefined = response._scroll_id;
+
+    try {
+      while (response.hits.hits.length > 0) {
+        await onPage(response.hits.hits.map((hit: any) => hit._id));
+        response = await this.client.scroll({
+          scroll_id: scrollId as string,
+          scroll: searchConfig.indexing.scrollKeepAlive
+        });
+        scrollId = response._scroll_id;
+      }
+    } finally {
+      if (scrollId) {
+        await this.client.clearScroll({ scroll_id: scrollId }).catch(() => undefined);
+      }
+    }
+  }
+
+  /**
+   * Maps a completion option to a suggestion. A title matched from one of its later words
+   * is shown in full; other types carry the filter they can apply.
+   */
+  private toSuggestion(
+    type: SuggestionType,
+    option: estypes.SearchCompletionSuggestOption<SuggestSource>
+  ): Suggestion | null {
+    const source: SuggestSource = option._source || {};
+    const base = { type, score: option._score ?? 0 };
+
+    switch (type) {
+      case 'title': {
+        const title = [source.translations?.title, source.title]
+          .find((candidate: string | undefined) => candidate?.endsWith(option.text)) || source.title;
+        return title ? { ...base, text: title, technologyId: option._id } : null;
+      }
+      case 'institution':
+        return { ...base, text: option.text, filter: { field: 'institution', value: option.text } };
+      case 'category': {
+        const field = option.text === source.category ? 'category' : 'subcategory';
+        return { ...base, text: option.text, filter: { field, value: option.text } };
+      }
+      case 'inventor': {
+        const inventorId = source.inventorIds?.[(source.inventorNames || []).indexOf(option.text)];
+        return inventorId
+          ? { ...base, text: option.text, filter: { field: 'inventor', value: inventorId } }
+          : { ...base, text: option.text };
+      }
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Clamps a requested semantic weight to 0-1, falling back to the configured default
+   */
+  private resolveSemanticWeight(weight?: number): number {
+    const value = weight ?? searchConfig.search.semantic.defaultWeight;
+    if (!Number.isFinite(value)) {
+      return searchConfig.search.semantic.defaultWeight;
+    }
+    return Math.min(Math.max(value, 0), 1);
+  }
+
+  /**
+   * Embeds a search query. Returns null when no provider is configured or it fails, so the
+   * search falls back to keywords only.
+   */
+  private async embedQuery(query: string): Promise<number[] | null> {
+    if (!this.embeddingProvider) {
+      return null;
+    }
+
+    try {
+      const [vector] = await embedTexts([query], this.embeddingProvider);
+      return vector;
+    } catch (error) {
+      this.logger.warn('Query embedding failed, searching by keywords only', { error });
+      return null;
+    }
+  }
+
+  /**
+   * Builds optimized Elasticsearch query with performance considerations. With a query
+   * vector, keyword scores are scaled to 0-1 with _score / (_score + pivot) and added to
+   * the kNN similarity, each weighted by its share, so technologies that match by meaning
+   * but share no words with the query are found too.
    * @param params Search parameters
+   * @param queryVector Embedded query, or null for a keyword-only search
+   * @param semanticWeight Share of the score from vector similarity
    */
-  private buildQuery(params: SearchParams): object {
+  private buildQuery(params: SearchParams, queryVector: number[] | null = null, semanticWeight = 0): object {
     const { query, filters, pagination } = params;
+    const from = (pagination.page - 1) * pagination.limit;
+    const size = Math.min(pagination.limit, searchConfig.search.maxResults);
+    const filter = this.buildFilters(filters);
 
-    return {
-      from: (pagination.page - 1) * pagination.limit,
-      size: Math.min(pagination.limit, searchConfig.search.maxResults),
-      _source: true,
-      query: {
-        bool: {
-          must: [
-            {
-              multi_match: {
-                query,
-                fields: [
-                  'title^2',
-                  'description',
-                  'institution^1.5'
-                ],
-                type: 'best_fields',
-                tie_breaker: 0.3,
-                minimum_should_match: '75%'
-              }
+    const keywordQuery = {
+      bool: {
+        must: [
+          {
+            multi_match: {
+              query,
+              fields: [
+                'title^2',
+                'description',
+                'translations.title^2',
+                'translations.description',
+                ...searchConfig.search.languageAnalyzers.flatMap(analyzer => [
+                  `localized.${analyzer}.title^2`,
+                  `localized.${analyzer}.description`
+                ]),
+                'institution^1.5',
+                'inventorNames',
+                'licensingContactNames'
+              ],
+              type: 'best_fields',
+              tie_breaker: 0.3,
+              minimum_should_match: '75%'
             }
-          ],
-          filter: this.buildFilters(filters)
-        }
-      },
+          }
+        ],
+        filter
+      }
+    };
+
+    const body: Record<string, unknown> = {
+      from,
+      size,
+      _source: { excludes: ['embedding', 'suggest'] },
       aggs: {
         categories: {
           terms: {
@@ -189,23 +507,62 @@ export class ElasticsearchService {
             field: 'country',
             size: searchConfig.search.facets.maxCountries
           }
+        },
+        patentStatuses: {
+          terms: {
+            field: 'patentStatus',
+            size: searchConfig.search.facets.maxPatentStatuses
+          }
+        },
+        subcategories: {
+          terms: {
+            field: 'subcategory',
+            size: searchConfig.search.facets.maxSubcategories
+          }
         }
       },
-      highlight: {
-        fields: {
-          title: {},
-          description: {}
-        }
-      },
+      highlight: this.buildHighlight(),
       track_total_hits: true
     };
+
+    if (!queryVector) {
+      body.query = keywordQuery;
+      return body;
+    }
+
+    // Every result on the requested page must be among the nearest neighbours
+    const k = from + size;
+    body.knn = {
+      field: 'embedding',
+      query_vector: queryVector,
+      k,
+      num_candidates: Math.min(Math.max(k, searchConfig.search.semantic.numCandidates), 10000),
+      filter,
+      boost: semanticWeight
+    };
+
+    if (semanticWeight < 1) {
+      body.query = {
+        script_score: {
+          query: keywordQuery,
+          script: {
+            source: '_score / (_score + params.pivot)',
+            params: { pivot: searchConfig.search.semantic.keywordScorePivot }
+          },
+          boost: 1 - semanticWeight
+        }
+      };
+    }
+
+    return body;
   }
 
   /**
    * Processes raw Elasticsearch results into structured response
    * @param results Raw Elasticsearch results
+   * @param query Search query the results match
    */
-  private processResults(results: any): SearchResponse {
+  private processResults(results: any, query: string): SearchResponse {
     const hits = results.hits.hits;
     
     return {
@@ -215,10 +572,21 @@ export class ElasticsearchService {
         description: hit._source.description,
         institution: hit._source.institution,
         category: hit._source.category,
+        subcategory: hit._source.subcategory ?? null,
+        taxonomyId: hit._source.taxonomyId,
+        sourceCategory: hit._source.sourceCategory ?? null,
+        language: hit._source.language ?? null,
+        translations: hit._source.translations ?? null,
         country: hit._source.country,
+        patentNumbers: hit._source.patentNumbers || [],
+        patentStatus: hit._source.patentStatus || PATENT_STATUSES.UNKNOWN,
+        active: hit._source.active ?? true,
+        withdrawnAt: hit._source.withdrawnAt ? new Date(hit._source.withdrawnAt) : null,
+        withdrawnReason: hit._source.withdrawnReason ?? null,
         discoveredAt: new Date(hit._source.discoveredAt),
         updatedAt: new Date(hit._source.updatedAt),
-        score: hit._score
+        score: hit._score,
+        ...this.processHighlights(hit, query)
       })),
       total: results.hits.total.value,
       facets: this.processFacets(results.aggregations),
@@ -231,6 +599,58 @@ export class ElasticsearchService {
     };
   }
 
+  /**
+   * Requests highlights on the configured fields and on the localized title and description,
+   * since a German title matches through localized.german.title rather than title
+   */
+  private buildHighlight(): object {
+    const { highlight, languageAnalyzers } = searchConfig.search;
+    const fields: Record<string, object> = {};
+
+    for (const [field, fragments] of Object.entries(highlight.fields)) {
+      const options = { number_of_fragments: fragments, fragment_size: highlight.fragmentSize };
+      fields[field] = options;
+      if (field === 'title' || field === 'description') {
+        languageAnalyzers.forEach(analyzer => {
+          fields[`localized.${analyzer}.${field}`] = options;
+        });
+      }
+    }
+
+    return {
+      pre_tags: [highlight.preTag],
+      post_tags: [highlight.postTag],
+      fields
+    };
+  }
+
+  /**
+   * Collects a hit's highlight fragments under their base fields and picks its snippet from
+   * the English description
+   * @param hit Search hit
+   * @param query Search query, used to pick a passage when nothing was highlighted
+   */
+  private processHighlights(hit: any, query: string): Pick<SearchResult, 'highlights' | 'snippet'> {
+    const { highlight, languageAnalyzers } = searchConfig.search;
+    const highlights: SearchHighlights = { title: [], description: [] };
+
+    for (const [field, fragments] of Object.entries<string[]>(hit.highlight || {})) {
+      const [prefix, analyzer, localizedField] = field.split('.');
+      const baseField = prefix === 'localized' && languageAnalyzers.includes(analyzer) ? localizedField : field;
+      highlights[baseField] = [...new Set([...(highlights[baseField] || []), ...fragments])];
+    }
+
+    const translated = Boolean(hit._source.translations?.description);
+    const snippet = generateSnippet(
+      translated ? hit._source.translations.description : hit._source.description,
+      highlights[translated ? 'translations.description' : 'description'] || [],
+      query,
+      { maxLength: highlight.snippetLength, preTag: highlight.preTag, postTag: highlight.postTag }
+    );
+
+    return { highlights, snippet };
+  }
+
   /**
    * Processes aggregations into facets
    * @param aggregations Elasticsearch aggregations
@@ -248,6 +668,14 @@ export class ElasticsearchService {
       countries: aggregations.countries.buckets.map((bucket: any) => ({
         value: bucket.key,
         count: bucket.doc_count
+      })),
+      patentStatuses: (aggregations.patentStatuses?.buckets || []).map((bucket: any) => ({
+        value: bucket.key,
+        count: bucket.doc_count
+      })),
+      subcategories: (aggregations.subcategories?.buckets || []).map((bucket: any) => ({
+        value: bucket.key,
+        count: bucket.doc_count
       }))
     };
   }
@@ -259,6 +687,13 @@ export class ElasticsearchService {
   private buildFilters(filters: SearchParams['filters']): object[] {
     const filterClauses = [];
 
+    if (!filters.includeWithdrawn) {
+      // Documents indexed before withdrawal tracking carry no active flag and count as active
+      filterClauses.push({
+        bool: { must_not: { term: { active: false } } }
+      });
+    }
+
     if (filters.institution?.length) {
       filterClauses.push({
         terms: { institution: filters.institution }
@@ -271,12 +706,36 @@ export class ElasticsearchService {
       });
     }
 
+    if (filters.subcategory?.length) {
+      filterClauses.push({
+        terms: { subcategory: filters.subcategory }
+      });
+    }
+
     if (filters.country?.length) {
       filterClauses.push({
         terms: { country: filters.country }
       });
     }
 
+    if (filters.patentStatus?.length) {
+      filterClauses.push({
+        terms: { patentStatus: filters.patentStatus }
+      });
+    }
+
+    if (filters.inventor?.length) {
+      filterClauses.push({
+        terms: { inventorIds: filters.inventor }
+      });
+    }
+
+    if (filters.licensingContact?.length) {
+      filterClauses.push({
+        terms: { licensingContactIds: filters.licensingContact }
+      });
+    }
+
     if (filters.dateRange) {
       filterClauses.push({
         range: {
@@ -288,6 +747,12 @@ export class ElasticsearchService {
       });
     }
 
+    if (filters.updatedSince) {
+      filterClauses.push({
+        range: { updatedAt: { gte: filters.updatedSince } }
+      });
+    }
+
     return filterClauses;
   }
 
@@ -300,22 +765,18 @@ export class ElasticsearchService {
   }
 
   /**
-   * Initializes Elasticsearch indices with optimized mappings
+   * Initializes Elasticsearch indices with optimized mappings. The technology index name is
+   * an alias over a timestamped index, so a full reindex can swap it without downtime.
    */
   private async initializeIndices(): Promise<void> {
     try {
-      const exists = await this.client.indices.exists({
-        index: searchConfig.elasticsearch.indices.technology
-      });
+      const alias = searchConfig.elasticsearch.indices.technology;
+      const exists = await this.client.indices.exists({ index: alias });
 
       if (!exists) {
-        await this.client.indices.create({
-          index: searchConfig.elasticsearch.indices.technology,
-          body: {
-            settings: searchConfig.elasticsearch.settings,
-            mappings: searchConfig.elasticsearch.mappings.technology
-          }
-        });
+        const index = `${alias}_${Date.now()}`;
+        await this.createTechnologyIndex(index);
+        await this.swapAlias(alias, index, []);
       }
     } catch (error) {
       this.logger.error('Index initialization error', { error });
@@ -0,0 +1,122 @@
+/**
+ * @fileoverview Log of searched query texts, counted per day in Redis sorted sets. Typeahead
+ * suggestions are boosted by how often their text was searched over the recent window, so
+ * what users actually look for rises above rarely searched matches.
+ * @version 1.0.0
+ */
+
+import { RedisService } from '../cache/redis.service';
+import { searchConfig } from '../../config/search.config';
+import { normalizeQueryText } from '../../utils/suggestion.util';
+import { logger } from '../../utils/logger.util';
+
+/**
+ * Counts a search and keeps the day's set for the popularity window.
+ * KEYS[1] is the day key. ARGV: query text, TTL in seconds.
+ */
+const RECORD_QUERY = `
+redis.call('ZINCRBY', KEYS[1], 1, ARGV[1])
+redis.call('EXPIRE', KEYS[1], tonumber(ARGV[2]))
+return 1
+`;
+
+/**
+ * Sums the searches of each text across the window.
+ * KEYS are the day keys; ARGV are the texts. Replies with one count per text.
+ */
+const READ_POPULARITY = `
+local reply = {}
+for i, text in ipairs(ARGV) do
+  local total = 0
+  for _, key in ipairs(KEYS) do
+    total = total + (tonumber(redis.call('ZSCORE', key, text)) or 0)
+  end
+  reply[i] = total
+end
+return reply
+`;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Daily search counts per normalized query text
+ */
+export class SearchQueryLog {
+  private static instance: SearchQueryLog | null = null;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly now: () => Date = () => new Date()
+  ) {}
+
+  /**
+   * Returns the process-wide query log backed by the shared Redis connection
+   */
+  public static getInstance(): SearchQueryLog {
+    if (!SearchQueryLog.instance) {
+      SearchQueryLog.instance = new SearchQueryLog(RedisService.getInstance({
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379', 10),
+        password: process.env.REDIS_PASSWORD,
+        ttl: 3600,
+        cluster: process.env.REDIS_CLUSTER_ENABLED === 'true'
+      }));
+    }
+    return SearchQueryLog.instance;
+  }
+
+  /**
+   * Counts a search. Failures are logged and ignored, since searching must not depend on it.
+   * @param query Query text as typed
+   */
+  public async record(query: string): Promise<void> {
+    const text = normalizeQueryText(query);
+    if (text.length < searchConfig.search.suggest.minLength) {
+      return;
+    }
+
+    try {
+      const ttl = (searchConfig.search.suggest.popularityWindowDays + 1) * DAY_MS / 1000;
+      await this.redisService.eval(RECORD_QUERY, [this.dayKey(0)], [text, ttl]);
+    } catch (error) {
+      logger.warn('Failed to record search query', { error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Reads how often each text was searched over the popularity window
+   * @param texts Suggestion texts
+   * @returns Searches per normalized text; empty when the log cannot be read
+   */
+  public async getPopularity(texts: string[]): Promise<Map<string, number>> {
+    const popularity = new Map<string, number>();
+    const unique = [...new Set(texts.map(normalizeQueryText).filter(Boolean))];
+    if (unique.length === 0) {
+      return popularity;
+    }
+
+    const keys = Array.from({ length: searchConfig.search.suggest.popularityWindowDays }, (_, day) => this.dayKey(day));
+
+    try {
+      const counts = await this.redisService.eval<Array<number | string>>(READ_POPULARITY, keys, unique);
+      unique.forEach((text, index) => {
+        const count = Number(counts[index]) || 0;
+        if (count > 0) {
+          popularity.set(text, count);
+        }
+      });
+    } catch (error) {
+      logger.warn('Failed to read search query popularity', { error: (error as Error).message });
+    }
+
+    return popularity;
+  }
+
+  /**
+   * Key of the UTC day a number of days before today
+   */
+  private dayKey(daysAgo: number): string {
+    const day = new Date(this.now().getTime() - daysAgo * DAY_MS).toISOString().slice(0, 10);
+    return `${searchConfig.search.suggest.queryLogPrefix}${day}`;
+  }
+}
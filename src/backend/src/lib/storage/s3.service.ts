@@ -9,8 +9,6 @@ import {
   S3Client,
   GetObjectCommand,
   PutObjectCommand,
-  DeleteObjectCommand,
-  ListObjectsV2Command,
   PutBucketLifecycleConfigurationCommand,
   PutBucketEncryptionCommand,
   S3ServiceException,
@@ -21,12 +19,13 @@ import {
 import { getSignedUrl } from '@aws-sdk/s3-request-presigner'; // ^3.0.0
 import { CloudFrontClient, CreateInvalidationCommand } from '@aws-sdk/client-cloudfront'; // ^3.0.0
 import { DatabaseConfig } from '../../interfaces/config.interface';
+import { SNAPSHOT_ARCHIVE } from '../../constants/scraper.constants';
 import { Readable } from 'stream';
 
 /**
  * Interface for file upload options
  */
-interface UploadOptions {
+export interface UploadOptions {
   metadata?: Record<string, string>;
   tags?: Record<string, string>;
   storageClass?: StorageClass;
@@ -39,7 +38,7 @@ interface UploadOptions {
 /**
  * Interface for multipart upload options
  */
-interface MultipartUploadOptions extends UploadOptions {
+export interface MultipartUploadOptions extends UploadOptions {
   partSize: number;
   concurrency: number;
 }
@@ -125,13 +124,35 @@ export class S3StorageService {
     }
   }
 
+  /**
+   * Download file contents from S3
+   */
+  async downloadFile(key: string): Promise<Buffer> {
+    try {
+      const command = new GetObjectCommand({
+        Bucket: this.bucketName,
+        Key: key
+      });
+
+      const response = await this.s3Client.send(command);
+      if (!response.Body) {
+        throw new Error(`Empty response body for ${key}`);
+      }
+
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error) {
+      console.error('Failed to download file:', error);
+      throw this.handleS3Error(error as S3ServiceException);
+    }
+  }
+
   /**
    * Upload large file using multipart upload
    */
   async uploadLargeFile(
-    key: string,
-    fileStream: Readable,
-    options: MultipartUploadOptions
+    _key: string,
+    _fileStream: Readable,
+    _options: MultipartUploadOptions
   ): Promise<{ url: string; versionId: string }> {
     try {
       // Implementation of multipart upload logic would go here
@@ -230,6 +251,18 @@ export class S3StorageService {
             StorageClass: StorageClass.INTELLIGENT_TIERING
           }
         ]
+      },
+      {
+        // Raw scrape snapshots are only kept for the retention window
+        ID: 'snapshot-retention-rule',
+        Status: 'Enabled',
+        Filter: { Prefix: SNAPSHOT_ARCHIVE.KEY_PREFIX },
+        Expiration: {
+          Days: SNAPSHOT_ARCHIVE.RETENTION_DAYS
+        },
+        NoncurrentVersionExpiration: {
+          NoncurrentDays: 1
+        }
       }
     ]);
   }
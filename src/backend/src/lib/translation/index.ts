@@ -0,0 +1,159 @@
+/**
+ * @fileoverview Translation stage for international technologies: selects the configured
+ * provider and translates a technology's searchable fields into English
+ * @version 1.0.0
+ */
+
+import LanguageDetect from 'languagedetect'; // ^2.0.0
+import { TechnologyTranslations, TranslationProvider } from '../../interfaces/translation.interface';
+import {
+  TRANSLATION_CONFIG,
+  TRANSLATION_PROVIDERS,
+  LANGUAGE_ANALYZERS,
+  LanguageCode,
+  TranslatedField
+} from '../../constants/translation.constants';
+import { LocalTranslationProvider } from './local.provider';
+import { LibreTranslateProvider } from './libretranslate.provider';
+import { logger } from '../../utils/logger.util';
+
+export { LocalTranslationProvider, type TranslationGlossary } from './local.provider';
+export { LibreTranslateProvider } from './libretranslate.provider';
+
+let cachedProvider: TranslationProvider | null | undefined;
+let languageDetector: LanguageDetect | null = null;
+
+/**
+ * Returns the provider selected with TRANSLATION_PROVIDER, creating it once. Technologies
+ * keep only their original text when no provider is configured.
+ */
+export function getTranslationProvider(): TranslationProvider | null {
+  if (cachedProvider === undefined) {
+    const name = process.env.TRANSLATION_PROVIDER;
+    cachedProvider = null;
+
+    if (name === TRANSLATION_PROVIDERS.LOCAL) {
+      cachedProvider = new LocalTranslationProvider();
+    } else if (name === TRANSLATION_PROVIDERS.LIBRETRANSLATE) {
+      if (process.env.TRANSLATION_API_URL) {
+        cachedProvider = new LibreTranslateProvider(
+          process.env.TRANSLATION_API_URL,
+          process.env.TRANSLATION_API_KEY || undefined
+        );
+      } else {
+        logger.warn('TRANSLATION_API_URL is not set, technologies will not be translated', { provider: name });
+      }
+    } else if (name) {
+      logger.warn('Unknown translation provider, technologies will not be translated', { provider: name });
+    }
+  }
+
+  return cachedProvider;
+}
+
+/**
+ * Reduces a detected language tag such as "de-DE" to its ISO 639-1 code
+ * @returns Lowercase code, or null when no language was detected
+ */
+export function normalizeLanguageCode(language?: string | null): string | null {
+  const code = language?.trim().split(/[-_]/)[0].toLowerCase();
+  return code || null;
+}
+
+/**
+ * Detects the language of a technology's text for pages that do not declare one. CJK text
+ * is told apart by its scripts; other text is matched against letter trigram profiles.
+ * @param text Title and description
+ * @returns ISO 639-1 code of a language the catalog analyzes, or null when unsure
+ */
+export function detectTextLanguage(text: string): LanguageCode | null {
+  const sample = text.trim();
+  if (sample.length < TRANSLATION_CONFIG.DETECTION_MIN_LENGTH) {
+    return null;
+  }
+
+  const letters = sample.match(/\p{L}/gu)?.length || 1;
+  const cjk = sample.match(/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu)?.length || 0;
+  if (cjk / letters > TRANSLATION_CONFIG.DETECTION_CJK_RATIO) {
+    if (/[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(sample)) {
+      return 'ja';
+    }
+    return /\p{Script=Hangul}/u.test(sample) ? 'ko' : 'zh';
+  }
+
+  if (!languageDetector) {
+    languageDetector = new LanguageDetect();
+    languageDetector.setLanguageType('iso2');
+  }
+  const [best] = languageDetector.detect(sample, 1);
+  if (!best || best[1] < TRANSLATION_CONFIG.DETECTION_MIN_SCORE) {
+    return null;
+  }
+  return best[0] in LANGUAGE_ANALYZERS ? best[0] as LanguageCode : null;
+}
+
+/**
+ * Gets the analyzer original text in the language is indexed with, besides English
+ * @returns Analyzer name, or null for English and languages without one
+ */
+export function getLanguageAnalyzer(language?: string | null): string | null {
+  const code = normalizeLanguageCode(language);
+  if (!code || code === TRANSLATION_CONFIG.TARGET_LANGUAGE || !(code in LANGUAGE_ANALYZERS)) {
+    return null;
+  }
+  return LANGUAGE_ANALYZERS[code as LanguageCode];
+}
+
+/**
+ * Whether text in the language needs translating for English-speaking analysts
+ */
+export function isTranslatable(language?: string | null): language is string {
+  const code = normalizeLanguageCode(language);
+  return code !== null && code !== TRANSLATION_CONFIG.TARGET_LANGUAGE;
+}
+
+/**
+ * Translates the searchable fields of a technology in one provider request
+ * @param fields Original title and description
+ * @param sourceLanguage ISO 639-1 code of the original text
+ * @param provider Translation backend
+ * @returns English translations with the provider that produced them
+ */
+export async function translateFields(
+  fields: Record<TranslatedField, string | null | undefined>,
+  sourceLanguage: string,
+  provider: TranslationProvider
+): Promise<TechnologyTranslations> {
+  const targetLanguage = TRANSLATION_CONFIG.TARGET_LANGUAGE;
+  const present = TRANSLATION_CONFIG.FIELDS.filter(field => fields[field]?.trim());
+  const texts = present.map(field => truncateText(fields[field]!.trim(), TRANSLATION_CONFIG.MAX_FIELD_LENGTH));
+  const translated = texts.length > 0
+    ? await provider.translate(texts, sourceLanguage, targetLanguage)
+    : [];
+
+  const translations: TechnologyTranslations = {
+    sourceLanguage,
+    targetLanguage,
+    title: null,
+    description: null,
+    provider: provider.name,
+    translatedAt: new Date().toISOString()
+  };
+  present.forEach((field, index) => {
+    translations[field] = translated[index]?.trim() || null;
+  });
+
+  return translations;
+}
+
+/**
+ * Cuts text to at most the given length, at the last word boundary when there is one
+ */
+function truncateText(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.slice(0, maxLength);
+  const boundary = cut.search(/\s\S*$/);
+  return boundary > 0 ? cut.slice(0, boundary) : cut;
+}
\ No newline at end of file
@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Translation provider backed by a LibreTranslate server, which can be
+ * self-hosted so scraped content does not leave our infrastructure
+ * @version 1.0.0
+ */
+
+import axios, { AxiosInstance } from 'axios'; // v1.4.0
+import { TranslationProvider } from '../../interfaces/translation.interface';
+import { TRANSLATION_CONFIG } from '../../constants/translation.constants';
+
+/**
+ * Response body of LibreTranslate's /translate endpoint for a batch of texts
+ */
+interface LibreTranslateResponse {
+  translatedText: string[];
+}
+
+/**
+ * Translates batches of texts with a single LibreTranslate request
+ */
+export class LibreTranslateProvider implements TranslationProvider {
+  readonly name = 'libretranslate';
+  private readonly httpClient: AxiosInstance;
+
+  /**
+   * @param baseUrl LibreTranslate server URL
+   * @param apiKey API key, when the server requires one
+   * @param httpClient HTTP client override
+   */
+  constructor(baseUrl: string, private readonly apiKey?: string, httpClient?: AxiosInstance) {
+    this.httpClient = httpClient || axios.create({
+      baseURL: baseUrl,
+      timeout: TRANSLATION_CONFIG.REQUEST_TIMEOUT
+    });
+  }
+
+  async translate(texts: string[], sourceLanguage: string, targetLanguage: string): Promise<string[]> {
+    const { data } = await this.httpClient.post<LibreTranslateResponse>('/translate', {
+      q: texts,
+      source: sourceLanguage,
+      target: targetLanguage,
+      format: 'text',
+      ...(this.apiKey ? { api_key: this.apiKey } : {})
+    });
+
+    if (!Array.isArray(data?.translatedText) || data.translatedText.length !== texts.length) {
+      throw new Error('LibreTranslate returned an unexpected number of translations');
+    }
+
+    return data.translatedText;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Offline translation provider that swaps known technology-transfer terms
+ * using a built-in glossary. It needs no network access, so tests and local development can
+ * exercise the translation stage deterministically; it is not meant for production text.
+ * @version 1.0.0
+ */
+
+import { TranslationProvider } from '../../interfaces/translation.interface';
+
+/**
+ * Source-language terms and their English equivalents, keyed by ISO 639-1 code
+ */
+export type TranslationGlossary = Record<string, Record<string, string>>;
+
+const DEFAULT_GLOSSARY: TranslationGlossary = {
+  de: {
+    'verfahren': 'method',
+    'vorrichtung': 'device',
+    'neuartige': 'novel',
+    'neuartiges': 'novel',
+    'neuer': 'new',
+    'neues': 'new',
+    'für': 'for',
+    'und': 'and',
+    'zur': 'for',
+    'batterie': 'battery',
+    'krebs': 'cancer',
+    'therapie': 'therapy',
+    'sensor': 'sensor',
+    'lizenzierung': 'licensing'
+  },
+  fr: {
+    'procédé': 'process',
+    'dispositif': 'device',
+    'nouveau': 'new',
+    'nouvelle': 'new',
+    'pour': 'for',
+    'et': 'and',
+    'batterie': 'battery',
+    'cancer': 'cancer',
+    'thérapie': 'therapy',
+    'capteur': 'sensor',
+    'licence': 'licensing'
+  },
+  es: {
+    'método': 'method',
+    'dispositivo': 'device',
+    'nuevo': 'new',
+    'nueva': 'new',
+    'para': 'for',
+    'y': 'and',
+    'batería': 'battery',
+    'cáncer': 'cancer',
+    'terapia': 'therapy',
+    'sensor': 'sensor',
+    'licencia': 'licensing'
+  },
+  it: {
+    'metodo': 'method',
+    'dispositivo': 'device',
+    'nuovo': 'new',
+    'nuova': 'new',
+    'per': 'for',
+    'e': 'and',
+    'batteria': 'battery',
+    'cancro': 'cancer',
+    'terapia': 'therapy',
+    'sensore': 'sensor',
+    'licenza': 'licensing'
+  }
+};
+
+/**
+ * Word-for-word glossary translation. Words missing from the glossary, and languages
+ * without one, are returned unchanged.
+ */
+export class LocalTranslationProvider implements TranslationProvider {
+  readonly name = 'local';
+
+  constructor(private readonly glossary: TranslationGlossary = DEFAULT_GLOSSARY) {}
+
+  async translate(texts: string[], sourceLanguage: string, _targetLanguage: string): Promise<string[]> {
+    const terms = this.glossary[sourceLanguage] || {};
+
+    return texts.map(text => text.replace(/[\p{L}\p{N}]+/gu, word => {
+      const translated = terms[word.toLowerCase()];
+      if (!translated) {
+        return word;
+      }
+      return word[0] === word[0].toUpperCase() && word[0] !== word[0].toLowerCase()
+        ? translated[0].toUpperCase() + translated.slice(1)
+        : translated;
+    }));
+  }
+}
\ No newline at end of file
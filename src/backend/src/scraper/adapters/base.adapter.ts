@@ -5,45 +5,94 @@
  * @version 1.0.0
  */
 
-import { 
-  ScraperEngine, 
-  ScraperJob, 
-  ScraperResult, 
-  ScraperError,
+import {
+  ScraperEngine,
+  ScraperJob,
+  ScraperResult,
   RateLimitConfig,
-  MetricsCollector,
   RateLimitMetrics,
   PerformanceMetrics
 } from '../../interfaces/scraper.interface';
 
 import {
-  SCRAPER_ENGINES,
   ERROR_TYPES,
-  SCRAPER_RATE_LIMITS,
-  RETRY_CONFIG
+  SCRAPER_RATE_LIMITS
 } from '../../constants/scraper.constants';
 
 import {
   AppError,
-  handleError,
-  isRetryable,
-  getRetryDelay
+  handleError
 } from '../../utils/error.util';
 
-import * as Bottleneck from 'bottleneck'; // v2.19.5
 import * as prometheus from 'prom-client'; // v14.0.1
 
+import { DistributedRateLimiter } from '../rateLimit';
+
+/**
+ * Prometheus metrics shared by every adapter instance, registered when the first adapter is
+ * built; a metric name can only be registered once per process
+ */
+let adapterMetrics: {
+  scrapeCounter: prometheus.Counter;
+  scrapeDurationHistogram: prometheus.Histogram;
+  errorCounter: prometheus.Counter;
+  rateLimitCounter: prometheus.Counter;
+} | null = null;
+
+function getAdapterMetrics(): NonNullable<typeof adapterMetrics> {
+  if (!adapterMetrics) {
+    adapterMetrics = {
+      scrapeCounter: new prometheus.Counter({
+        name: 'scraper_requests_total',
+        help: 'Total number of scrape requests',
+        labelNames: ['institution', 'status']
+      }),
+      scrapeDurationHistogram: new prometheus.Histogram({
+        name: 'scraper_request_duration_seconds',
+        help: 'Scraping request duration in seconds',
+        labelNames: ['institution']
+      }),
+      errorCounter: new prometheus.Counter({
+        name: 'scraper_errors_total',
+        help: 'Total number of scraping errors',
+        labelNames: ['institution', 'error_type']
+      }),
+      rateLimitCounter: new prometheus.Counter({
+        name: 'scraper_rate_limits_total',
+        help: 'Total number of rate limit hits',
+        labelNames: ['institution']
+      })
+    };
+  }
+  return adapterMetrics;
+}
+
+/**
+ * Completes a partial rate limit configuration with an institution type's limits
+ * @param rateLimitConfig Limits and overrides replacing the defaults
+ * @param limits Request rate, burst and cooldown defaults
+ */
+export function withRateLimitDefaults(
+  rateLimitConfig?: Partial<RateLimitConfig>,
+  limits = SCRAPER_RATE_LIMITS.DEFAULT
+): RateLimitConfig {
+  return {
+    ...limits,
+    ...rateLimitConfig,
+    institutionOverrides: { ...rateLimitConfig?.institutionOverrides },
+    burstHandling: { strategy: 'throttle', ...rateLimitConfig?.burstHandling }
+  };
+}
+
 /**
  * Abstract base class providing comprehensive functionality for all scraper adapters
  */
 export abstract class BaseAdapter {
   protected engine: ScraperEngine;
   protected rateLimitConfig: RateLimitConfig;
-  protected limiter: Bottleneck;
   protected retryCount: number;
-  protected metricsCollector: MetricsCollector;
-  private performanceMetrics: PerformanceMetrics;
-  private rateLimitMetrics: RateLimitMetrics;
+  protected performanceMetrics!: PerformanceMetrics;
+  protected rateLimitMetrics!: RateLimitMetrics;
 
   // Prometheus metrics
   private readonly scrapeCounter: prometheus.Counter;
@@ -57,46 +106,18 @@ export abstract class BaseAdapter {
   constructor(
     engine: ScraperEngine,
     rateLimitConfig: RateLimitConfig,
-    metricsCollector: MetricsCollector
+    protected readonly rateLimiter: DistributedRateLimiter = DistributedRateLimiter.getInstance()
   ) {
     this.engine = engine;
     this.rateLimitConfig = rateLimitConfig;
-    this.metricsCollector = metricsCollector;
     this.retryCount = 0;
 
-    // Initialize rate limiter with dynamic adjustment
-    this.limiter = new Bottleneck({
-      minTime: 1000 / this.rateLimitConfig.requestsPerSecond,
-      maxConcurrent: this.rateLimitConfig.burstLimit,
-      reservoir: this.rateLimitConfig.burstLimit,
-      reservoirRefreshAmount: this.rateLimitConfig.burstLimit,
-      reservoirRefreshInterval: this.rateLimitConfig.cooldownPeriod * 1000
-    });
-
-    // Initialize Prometheus metrics
-    this.scrapeCounter = new prometheus.Counter({
-      name: 'scraper_requests_total',
-      help: 'Total number of scrape requests',
-      labelNames: ['institution', 'status']
-    });
-
-    this.scrapeDurationHistogram = new prometheus.Histogram({
-      name: 'scraper_request_duration_seconds',
-      help: 'Scraping request duration in seconds',
-      labelNames: ['institution']
-    });
-
-    this.errorCounter = new prometheus.Counter({
-      name: 'scraper_errors_total',
-      help: 'Total number of scraping errors',
-      labelNames: ['institution', 'error_type']
-    });
-
-    this.rateLimitCounter = new prometheus.Counter({
-      name: 'scraper_rate_limits_total',
-      help: 'Total number of rate limit hits',
-      labelNames: ['institution']
-    });
+    // Share the Prometheus metrics registered once for all adapters
+    const metrics = getAdapterMetrics();
+    this.scrapeCounter = metrics.scrapeCounter;
+    this.scrapeDurationHistogram = metrics.scrapeDurationHistogram;
+    this.errorCounter = metrics.errorCounter;
+    this.rateLimitCounter = metrics.rateLimitCounter;
 
     // Initialize metrics
     this.resetMetrics();
@@ -116,8 +137,10 @@ export abstract class BaseAdapter {
       // Increment scrape counter
       this.scrapeCounter.inc({ institution: job.institutionType });
 
-      // Execute rate-limited scraping
-      const data = await this.limiter.schedule(() => this.executeScrape(job));
+      // Execute rate-limited scraping; the distributed permit is the only limit on the
+      // request rate to the domain, shared by every worker
+      await this.acquirePermit(job);
+      const data = await this.executeScrape(job);
 
       // Record success metrics
       const duration = Date.now() - startTime;
@@ -146,6 +169,16 @@ export abstract class BaseAdapter {
     }
   }
 
+  /**
+   * Applies adapter-specific post-processing to extracted data. Runs after live scrapes
+   * and when archived snapshots are replayed, so it must not fetch anything.
+   * @param data Fields extracted from the page, with the page HTML under `html` when available
+   * @param _job Job the data was extracted for
+   */
+  public async normalize(data: Record<string, any>, _job: ScraperJob): Promise<Record<string, any>> {
+    return data;
+  }
+
   /**
    * Execute the actual scraping operation with monitoring
    */
@@ -157,7 +190,7 @@ export abstract class BaseAdapter {
       await this.engine.initialize(job.config);
 
       // Execute scraping
-      const data = await this.engine.scrape(job.url);
+      const { data } = await this.engine.scrape(job);
 
       // Update performance metrics
       const [seconds, nanoseconds] = process.hrtime(startTime);
@@ -171,6 +204,25 @@ export abstract class BaseAdapter {
     }
   }
 
+  /**
+   * Waits for a permit from the rate limiter shared by all workers for the job's domain
+   */
+  protected async acquirePermit(job: ScraperJob): Promise<void> {
+    const status = await this.rateLimiter.waitForPermit(
+      DistributedRateLimiter.keyFor(job.url, job.institutionId),
+      DistributedRateLimiter.resolveLimits(job, this.rateLimitConfig)
+    );
+
+    if (status.isLimited) {
+      throw new AppError(
+        `Rate limit exceeded for ${job.url}`,
+        ERROR_TYPES.RATE_LIMITED,
+        429,
+        { rateLimitStatus: status }
+      );
+    }
+  }
+
   /**
    * Enhanced error handling with monitoring integration
    */
@@ -192,7 +244,7 @@ export abstract class BaseAdapter {
     // Handle rate limiting specifically
     if (appError.type === ERROR_TYPES.RATE_LIMITED) {
       this.rateLimitCounter.inc({ institution: job.institutionType });
-      await this.handleRateLimit(job);
+      await this.handleRateLimit();
     }
 
     // Attempt retry if applicable
@@ -224,20 +276,12 @@ export abstract class BaseAdapter {
   }
 
   /**
-   * Handle rate limiting with dynamic adjustment
+   * Handle rate limiting; the retry waits for the next distributed permit
    */
-  private async handleRateLimit(job: ScraperJob): Promise<void> {
+  private async handleRateLimit(): Promise<void> {
     // Update rate limit metrics
     this.rateLimitMetrics.throttledRequests++;
-    
-    // Adjust rate limiter settings
-    const newMinTime = this.limiter.currentReservoir
-      ? (1000 / this.rateLimitConfig.requestsPerSecond) * 1.5
-      : this.limiter.minTime;
-
-    await this.limiter.updateSettings({
-      minTime: newMinTime
-    });
+    this.rateLimitMetrics.cooldownPeriods++;
 
     // Wait for cooldown period
     await new Promise(resolve => 
@@ -248,7 +292,7 @@ export abstract class BaseAdapter {
   /**
    * Validate job parameters
    */
-  private validateJob(job: ScraperJob): void {
+  protected validateJob(job: ScraperJob): void {
     if (!job.url || !job.id || !job.institutionType) {
       throw new AppError(
         'Invalid job parameters',
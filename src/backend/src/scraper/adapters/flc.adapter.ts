@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Adapter for Federal Labs Consortium technology listings, whose page titles
+ * carry the consortium's site name.
+ * @version 1.0.0
+ */
+
+import { VendorAdapter } from './vendor.adapter';
+import { ScraperJob } from '../../interfaces/scraper.interface';
+
+/**
+ * Site name suffix such as " | Federal Labs Consortium"
+ */
+const SITE_SUFFIX = /\s*[|–—-]\s*(?:FLC|Federal\s+Lab(?:oratory|s)\s+Consortium)(?:\s+for\s+Technology\s+Transfer)?\s*$/i;
+
+/**
+ * Adapter for Federal Labs Consortium listings
+ */
+export class FlcAdapter extends VendorAdapter {
+  public readonly vendor = 'FLC' as const;
+
+  /**
+   * Removes the consortium's site name from titles
+   */
+  public async normalize(data: Record<string, any>, job: ScraperJob): Promise<Record<string, any>> {
+    const normalized = await super.normalize(data, job);
+
+    if (typeof normalized.title === 'string') {
+      normalized.title = normalized.title.replace(SITE_SUFFIX, '').trim();
+    }
+
+    return normalized;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,36 @@
+/**
+ * @fileoverview Adapter for Wellspring Flintbox licensing portals, which list researchers
+ * with their role and tags with a leading hash.
+ * @version 1.0.0
+ */
+
+import { VendorAdapter } from './vendor.adapter';
+import { ScraperJob } from '../../interfaces/scraper.interface';
+
+/**
+ * Adapter for Wellspring Flintbox portals
+ */
+export class FlintboxAdapter extends VendorAdapter {
+  public readonly vendor = 'FLINTBOX' as const;
+
+  /**
+   * Strips researcher roles such as "(Principal Investigator)" and tag hashes
+   */
+  public async normalize(data: Record<string, any>, job: ScraperJob): Promise<Record<string, any>> {
+    const normalized = await super.normalize(data, job);
+
+    if (Array.isArray(normalized.inventors)) {
+      normalized.inventors = normalized.inventors
+        .map((name: string) => name.replace(/\s*\([^)]*\)\s*$/, '').trim())
+        .filter(Boolean);
+    }
+
+    if (Array.isArray(normalized.categories)) {
+      normalized.categories = normalized.categories
+        .map((tag: string) => tag.replace(/^#/, '').trim())
+        .filter(Boolean);
+    }
+
+    return normalized;
+  }
+}
\ No newline at end of file
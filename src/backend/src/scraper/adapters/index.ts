@@ -1,21 +1,24 @@
 /**
  * @fileoverview Main entry point for scraper adapters that exports specialized adapters
- * for different institution types and provides a factory method for creating appropriate
- * adapters based on institution type. Implements comprehensive adapter lifecycle management,
- * error handling, performance optimization, and monitoring integration.
+ * for different institution types and licensing portal vendors, and provides factory methods
+ * for creating appropriate adapters based on institution type or vendor. Implements
+ * comprehensive adapter lifecycle management, error handling, performance optimization,
+ * and monitoring integration.
  * @version 1.0.0
  */
 
-import { BaseAdapter } from './base.adapter';
+import { BaseAdapter, withRateLimitDefaults } from './base.adapter';
 import { UniversityAdapter } from './university.adapter';
 import { FederalAdapter } from './federal.adapter';
 import { InternationalAdapter } from './international.adapter';
-import {
-  ScraperEngine,
-  InstitutionType,
-  RateLimitConfig
-} from '../../interfaces/scraper.interface';
-import { SCRAPER_RATE_LIMITS } from '../../constants/scraper.constants';
+import { VendorAdapter } from './vendor.adapter';
+import { InteumAdapter } from './inteum.adapter';
+import { FlintboxAdapter } from './flintbox.adapter';
+import { TechPublisherAdapter } from './techPublisher.adapter';
+import { FlcAdapter } from './flc.adapter';
+import { detectVendor, resolveVendorSelectors } from './vendor.detector';
+import { ScraperEngine, RateLimitConfig } from '../../interfaces/scraper.interface';
+import { InstitutionType, PortalVendor } from '../../constants/scraper.constants';
 
 // Cache for adapter instances to optimize resource usage
 const adapterCache = new Map<string, BaseAdapter>();
@@ -38,18 +41,7 @@ export function createAdapter(
   }
 
   // Merge provided rate limit config with defaults
-  const finalRateLimitConfig: RateLimitConfig = {
-    ...SCRAPER_RATE_LIMITS.DEFAULT,
-    ...rateLimitConfig,
-    institutionOverrides: {
-      ...SCRAPER_RATE_LIMITS.DEFAULT.institutionOverrides,
-      ...rateLimitConfig?.institutionOverrides
-    },
-    burstHandling: {
-      ...SCRAPER_RATE_LIMITS.DEFAULT.burstHandling,
-      ...rateLimitConfig?.burstHandling
-    }
-  };
+  const finalRateLimitConfig = withRateLimitDefaults(rateLimitConfig);
 
   let adapter: BaseAdapter;
 
@@ -59,7 +51,10 @@ export function createAdapter(
       adapter = new UniversityAdapter(
         engine,
         finalRateLimitConfig,
-        { type: 'US', dataValidation: { required: ['title', 'description'], patterns: {} } }
+        {
+          type: 'US',
+          dataValidation: { required: ['title', 'description'], patterns: {}, customValidators: {}, dataTypes: {} }
+        }
       );
       break;
 
@@ -90,6 +85,71 @@ export function createAdapter(
   return adapter;
 }
 
+/**
+ * Creates the adapter for an institution's licensing portal vendor. Vendor adapters take
+ * precedence over the institution type's adapter since the portal decides the markup.
+ */
+export function createVendorAdapter(
+  vendor: PortalVendor,
+  engine: ScraperEngine,
+  rateLimitConfig?: Partial<RateLimitConfig>
+): VendorAdapter {
+  const cacheKey = `${vendor}-${engine.type}`;
+
+  if (adapterCache.has(cacheKey)) {
+    return adapterCache.get(cacheKey) as VendorAdapter;
+  }
+
+  const finalRateLimitConfig = withRateLimitDefaults(rateLimitConfig);
+  let adapter: VendorAdapter;
+
+  switch (vendor) {
+    case 'INTEUM':
+      adapter = new InteumAdapter(engine, finalRateLimitConfig);
+      break;
+
+    case 'FLINTBOX':
+      adapter = new FlintboxAdapter(engine, finalRateLimitConfig);
+      break;
+
+    case 'TECHPUBLISHER':
+      adapter = new TechPublisherAdapter(engine, finalRateLimitConfig);
+      break;
+
+    case 'FLC':
+      adapter = new FlcAdapter(engine, finalRateLimitConfig);
+      break;
+
+    default:
+      throw new Error(`Unsupported portal vendor: ${vendor}`);
+  }
+
+  adapterCache.set(cacheKey, adapter);
+
+  return adapter;
+}
+
+/**
+ * Engine behind adapters used only to normalize scraped and archived pages; it never fetches
+ */
+const normalizingEngine: ScraperEngine = {
+  type: 'normalize',
+  initialize: async () => undefined,
+  scrape: async (url: string) => {
+    throw new Error(`Normalizing adapters do not fetch pages: ${url}`);
+  },
+  cleanup: async () => undefined,
+  handleRateLimit: async () => undefined
+} as unknown as ScraperEngine;
+
+/**
+ * Gets the adapter whose normalize step is applied to scraped pages and to archived
+ * snapshots when they are replayed
+ */
+export function getNormalizingAdapter(type: InstitutionType, vendor?: PortalVendor | null): BaseAdapter {
+  return vendor ? createVendorAdapter(vendor, normalizingEngine) : createAdapter(type, normalizingEngine);
+}
+
 /**
  * Clears adapter cache and performs cleanup
  */
@@ -112,7 +172,14 @@ export {
   BaseAdapter,
   UniversityAdapter,
   FederalAdapter,
-  InternationalAdapter
+  InternationalAdapter,
+  VendorAdapter,
+  InteumAdapter,
+  FlintboxAdapter,
+  TechPublisherAdapter,
+  FlcAdapter,
+  detectVendor,
+  resolveVendorSelectors
 };
 
 // Export factory function as default
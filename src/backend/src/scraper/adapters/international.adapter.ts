@@ -4,18 +4,18 @@
  * @version 1.0.0
  */
 
-import { BaseAdapter } from './base.adapter';
+import { BaseAdapter, withRateLimitDefaults } from './base.adapter';
 import {
   ScraperEngine,
   ScraperJob,
   ScraperResult,
-  RateLimitConfig,
   ValidationResults
 } from '../../interfaces/scraper.interface';
 import { SCRAPER_RATE_LIMITS } from '../../constants/scraper.constants';
-import { AppError, handleError } from '../../utils/error.util';
+import { handleError } from '../../utils/error.util';
+import { detectTextLanguage } from '../../lib/translation';
+import { DistributedRateLimiter } from '../rateLimit';
 import * as cheerio from 'cheerio'; // v1.0.0
-import * as languageDetect from 'language-detect'; // v1.1.0
 
 /**
  * Specialized adapter for international institution scraping with enhanced language
@@ -30,16 +30,11 @@ export class InternationalAdapter extends BaseAdapter {
   /**
    * Initialize the international adapter with enhanced configurations
    */
-  constructor(engine: ScraperEngine) {
+  constructor(engine: ScraperEngine, rateLimiter?: DistributedRateLimiter) {
     super(
       engine,
-      SCRAPER_RATE_LIMITS.INTERNATIONAL_UNIVERSITIES,
-      {
-        scrapeCounter: null,
-        scrapeDurationHistogram: null,
-        errorCounter: null,
-        rateLimitCounter: null
-      }
+      withRateLimitDefaults(undefined, SCRAPER_RATE_LIMITS.INTERNATIONAL_UNIVERSITIES),
+      rateLimiter
     );
 
     // Initialize language mapping
@@ -81,10 +76,7 @@ export class InternationalAdapter extends BaseAdapter {
    * Enhanced validation for international institution-specific job parameters
    */
   protected validateJob(job: ScraperJob): ValidationResults {
-    const baseValidation = super.validateJob(job);
-    if (!baseValidation.isValid) {
-      return baseValidation;
-    }
+    super.validateJob(job);
 
     const errors: Array<{ field: string; rule: string; message: string }> = [];
     const warnings: Array<{ field: string; message: string }> = [];
@@ -132,7 +124,7 @@ export class InternationalAdapter extends BaseAdapter {
 
       if (result.success) {
         // Post-process international data
-        const enhancedData = await this.processInternationalData(result.data, job);
+        const enhancedData = await this.normalize(result.data, job);
         return {
           ...result,
           data: enhancedData
@@ -141,11 +133,18 @@ export class InternationalAdapter extends BaseAdapter {
 
       return result;
     } catch (error) {
-      const handledError = await this.handleInternationalError(error, job);
+      const handledError = await this.handleInternationalError(error as Error, job);
       return handledError;
     }
   }
 
+  /**
+   * Adds language, region and encoding metadata and normalizes dates and text
+   */
+  public async normalize(data: Record<string, any>, job: ScraperJob): Promise<Record<string, any>> {
+    return this.processInternationalData(data, job);
+  }
+
   /**
    * Enhances job configuration with international-specific settings
    */
@@ -155,12 +154,13 @@ export class InternationalAdapter extends BaseAdapter {
     // Set default headers if not specified
     job.config.headers = {
       'Accept-Language': '*',
-      'Accept-Charset': this.characterSetMap.get('default'),
+      'Accept-Charset': this.getCharacterSet('default'),
       ...job.config.headers
     };
 
     // Set region-specific rate limits
     job.rateLimitConfig = {
+      ...job.rateLimitConfig,
       ...SCRAPER_RATE_LIMITS.INTERNATIONAL_UNIVERSITIES,
       cooldownPeriod: this.getRegionalCooldown(region)
     };
@@ -173,7 +173,7 @@ export class InternationalAdapter extends BaseAdapter {
     data: Record<string, any>,
     job: ScraperJob
   ): Promise<Record<string, any>> {
-    const $ = cheerio.load(data.html);
+    const $ = cheerio.load(data.html || '');
     const detectedLanguage = await this.detectLanguage($);
     
     return {
@@ -207,15 +207,14 @@ export class InternationalAdapter extends BaseAdapter {
 
     // Use language detection on content
     const text = $('body').text().slice(0, 1000);
-    const detected = await languageDetect.detect(text);
-    return detected?.iso6391 || 'en';
+    return detectTextLanguage(text) || 'en';
   }
 
   /**
    * Detects region from URL and institutional patterns
    */
   private detectRegion(url: string): string {
-    const tld = new URL(url).hostname.split('.').pop();
+    const tld = new URL(url).hostname.split('.').pop() || '';
     const regionMap: Record<string, string> = {
       uk: 'eu',
       de: 'eu',
@@ -233,7 +232,7 @@ export class InternationalAdapter extends BaseAdapter {
    * Gets region-specific character set
    */
   private getCharacterSet(language: string): string {
-    return this.characterSetMap.get(language) || this.characterSetMap.get('default');
+    return this.characterSetMap.get(language) || this.characterSetMap.get('default') || 'utf-8';
   }
 
   /**
@@ -262,13 +261,13 @@ export class InternationalAdapter extends BaseAdapter {
    * Normalizes international content with regional considerations
    */
   private normalizeInternationalContent(
-    content: Record<string, any>,
+    content: Record<string, any> = {},
     language: string
   ): Record<string, any> {
     return {
       ...content,
-      dates: this.normalizeDates(content.dates, language),
-      text: this.normalizeText(content.text, language)
+      dates: Array.isArray(content.dates) ? this.normalizeDates(content.dates, language) : [],
+      text: typeof content.text === 'string' ? this.normalizeText(content.text, language) : ''
     };
   }
 
@@ -280,7 +279,7 @@ export class InternationalAdapter extends BaseAdapter {
     job: ScraperJob
   ): Promise<ScraperResult> {
     const region = this.detectRegion(job.url);
-    const { error: handledError, retryable } = handleError(error, {
+    const { error: handledError } = handleError(error, {
       region,
       language: await this.detectLanguage(cheerio.load('')),
       ...job
@@ -309,9 +308,9 @@ export class InternationalAdapter extends BaseAdapter {
   /**
    * Normalizes dates to ISO format considering regional formats
    */
-  private normalizeDates(dates: string[], language: string): string[] {
+  private normalizeDates(dates: string[], _language: string): string[] {
     return dates.map(date => {
-      for (const [region, format] of this.regionalDateFormats) {
+      for (const format of this.regionalDateFormats.values()) {
         if (format.test(date)) {
           const matches = date.match(format);
           if (matches) {
@@ -331,7 +330,7 @@ export class InternationalAdapter extends BaseAdapter {
   /**
    * Normalizes text content considering language-specific patterns
    */
-  private normalizeText(text: string, language: string): string {
+  private normalizeText(text: string, _language: string): string {
     // Remove language-specific punctuation and normalize spaces
     return text
       .replace(/[\u3000-\u303F]/g, ' ') // CJK punctuation
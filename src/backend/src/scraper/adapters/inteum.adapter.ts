@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Adapter for Inteum Sophia licensing portals, which prefix technology
+ * titles with the office's case number.
+ * @version 1.0.0
+ */
+
+import { VendorAdapter } from './vendor.adapter';
+import { ScraperJob } from '../../interfaces/scraper.interface';
+
+/**
+ * Case number prefix such as "Case No. 2019-123: " or "Tech ID UCLA-2019-123 - "
+ */
+const CASE_PREFIX = /^(?:case|tech(?:nology)?\s*id)\s*(?:no\.?|#|number)?\s*[:#]?\s*([\w./-]*\d[\w./-]*)\s*[:–—-]\s*/i;
+
+/**
+ * Adapter for Inteum Sophia portals
+ */
+export class InteumAdapter extends VendorAdapter {
+  public readonly vendor = 'INTEUM' as const;
+
+  /**
+   * Moves a case number prefix out of the title into its own field
+   */
+  public async normalize(data: Record<string, any>, job: ScraperJob): Promise<Record<string, any>> {
+    const normalized = await super.normalize(data, job);
+
+    const match = typeof normalized.title === 'string' ? normalized.title.match(CASE_PREFIX) : null;
+    if (match) {
+      normalized.caseNumber = normalized.caseNumber || match[1];
+      normalized.title = normalized.title.slice(match[0].length).trim();
+    }
+
+    return normalized;
+  }
+}
\ No newline at end of file
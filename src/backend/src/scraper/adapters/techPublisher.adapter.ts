@@ -0,0 +1,35 @@
+/**
+ * @fileoverview Adapter for Technology Publisher licensing portals, whose patent tables
+ * pair each number with its filing status.
+ * @version 1.0.0
+ */
+
+import { VendorAdapter } from './vendor.adapter';
+import { ScraperJob } from '../../interfaces/scraper.interface';
+
+/**
+ * Filing status appended to a patent number, e.g. "US 10,123,456 (Issued)"
+ */
+const PATENT_STATUS = /\s*\((?:issued|granted|pending|published|filed|abandoned|expired)[^)]*\)\s*$/i;
+
+/**
+ * Adapter for Technology Publisher portals
+ */
+export class TechPublisherAdapter extends VendorAdapter {
+  public readonly vendor = 'TECHPUBLISHER' as const;
+
+  /**
+   * Drops filing statuses and table header cells from patent numbers
+   */
+  public async normalize(data: Record<string, any>, job: ScraperJob): Promise<Record<string, any>> {
+    const normalized = await super.normalize(data, job);
+
+    if (Array.isArray(normalized.patentNumbers)) {
+      normalized.patentNumbers = normalized.patentNumbers
+        .map((number: string) => number.replace(PATENT_STATUS, '').trim())
+        .filter((number: string) => /\d/.test(number));
+    }
+
+    return normalized;
+  }
+}
\ No newline at end of file
@@ -14,13 +14,13 @@ import {
   ValidationResults
 } from '../../interfaces/scraper.interface';
 import {
-  SCRAPER_ENGINES,
   ERROR_TYPES,
   SCRAPER_RATE_LIMITS
 } from '../../constants/scraper.constants';
 import { AppError } from '../../utils/error.util';
+import { findContacts } from '../../utils/people.util';
 import * as cheerio from 'cheerio'; // v1.0.0-rc.12
-import * as LanguageDetect from 'languagedetect'; // v2.1.1
+import LanguageDetect from 'languagedetect'; // v2.0.0
 
 /**
  * Interface for university-specific configuration
@@ -28,9 +28,11 @@ import * as LanguageDetect from 'languagedetect'; // v2.1.1
 interface UniversityConfig {
   type: 'US' | 'INTERNATIONAL';
   language?: string;
-  selectors: {
+  // Layered over the adapter's default selectors
+  selectors?: {
     title: string;
     description: string;
+    inventors?: string;
     contact?: string;
     licensing?: string;
     pagination?: string;
@@ -71,6 +73,7 @@ export class UniversityAdapter extends BaseAdapter {
     this.defaultSelectors = {
       title: '.technology-title, .tech-title, h1',
       description: '.technology-description, .tech-description, .content',
+      inventors: '.technology-inventors li, .inventor-list li, .inventors li',
       contact: '.contact-info, .contact',
       licensing: '.licensing-info, .license',
       pagination: '.pagination, .pager, nav.pages'
@@ -132,10 +135,9 @@ export class UniversityAdapter extends BaseAdapter {
     }
 
     // Validate required selectors
-    const requiredSelectors = ['title', 'description'];
-    const missingSelectors = requiredSelectors.filter(
-      selector => !this.universityConfig.selectors[selector]
-    );
+    const selectors = { ...this.defaultSelectors, ...this.universityConfig.selectors };
+    const requiredSelectors = ['title', 'description'] as const;
+    const missingSelectors = requiredSelectors.filter(selector => !selectors[selector]);
 
     if (missingSelectors.length > 0) {
       throw new AppError(
@@ -157,7 +159,11 @@ export class UniversityAdapter extends BaseAdapter {
     const processedData = {
       title: $(selectors.title).first().text().trim(),
       description: $(selectors.description).first().text().trim(),
+      inventors: selectors.inventors
+        ? $(selectors.inventors).map((_, element) => $(element).text().trim()).get().filter(Boolean)
+        : undefined,
       contactInfo: selectors.contact ? $(selectors.contact).text().trim() : undefined,
+      contacts: selectors.contact ? findContacts(this.readBlockLines($, selectors.contact)) : undefined,
       licensingDetails: selectors.licensing ? $(selectors.licensing).text().trim() : undefined,
       metadata: {
         university: this.universityConfig.type,
@@ -177,6 +183,29 @@ export class UniversityAdapter extends BaseAdapter {
     }, {} as Record<string, any>);
   }
 
+  /**
+   * Reads matched elements as the lines a browser would render, so names, titles, emails
+   * and phone numbers in a contact block stay apart. Mail links whose text is not the
+   * address contribute the address from their href.
+   */
+  private readBlockLines($: cheerio.CheerioAPI, selector: string): string[] {
+    return $(selector).toArray().flatMap(element => {
+      const block = $(element).clone();
+      block.find('a[href^="mailto:"]').each((_, link) => {
+        const address = ($(link).attr('href') || '').replace(/^mailto:/i, '').split('?')[0];
+        if (address && !$(link).text().includes(address)) {
+          $(link).append(` ${address}`);
+        }
+      });
+      block.find('br').replaceWith('\n');
+      block.find('p, div, li, tr, dt, dd, h1, h2, h3, h4, h5, h6').each((_, child) => {
+        $(child).append('\n');
+      });
+
+      return block.text().split('\n').map(line => line.trim()).filter(Boolean);
+    });
+  }
+
   /**
    * Validate processed university data
    */
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Base adapter for licensing portal products used by many institutions.
+ * Vendor adapters scrape with the vendor's default selectors under any the job configures
+ * and clean up markup conventions shared by every portal of that vendor.
+ * @version 1.0.0
+ */
+
+import { BaseAdapter } from './base.adapter';
+import {
+  ScraperEngine,
+  ScraperJob,
+  ScraperResult,
+  RateLimitConfig
+} from '../../interfaces/scraper.interface';
+import { PORTAL_VENDORS, PortalVendor } from '../../constants/scraper.constants';
+import { DistributedRateLimiter } from '../rateLimit';
+
+/**
+ * Fields portals list as several values that may arrive as one delimited string
+ */
+const LIST_FIELDS = ['inventors', 'patentNumbers', 'categories'];
+
+/**
+ * Base adapter for licensing portal vendors
+ */
+export abstract class VendorAdapter extends BaseAdapter {
+  public abstract readonly vendor: PortalVendor;
+
+  /**
+   * Initialize the vendor adapter with the institution's rate limits
+   */
+  constructor(
+    engine: ScraperEngine,
+    rateLimitConfig: RateLimitConfig,
+    rateLimiter: DistributedRateLimiter = DistributedRateLimiter.getInstance()
+  ) {
+    super(
+      engine,
+      rateLimitConfig,
+      rateLimiter
+    );
+  }
+
+  /**
+   * Field, detail link and pagination selectors shared by every portal of this vendor
+   */
+  public get defaultSelectors(): Record<string, string> {
+    return { ...PORTAL_VENDORS[this.vendor].SELECTORS };
+  }
+
+  /**
+   * Scrapes with the vendor's field selectors filling any the job leaves out
+   */
+  public async scrape(job: ScraperJob): Promise<ScraperResult> {
+    const { links: _links, pagination: _pagination, ...fieldSelectors } = this.defaultSelectors;
+    const result = await super.scrape({
+      ...job,
+      config: { ...job.config, selectors: { ...fieldSelectors, ...job.config.selectors } }
+    });
+
+    if (result.success) {
+      result.data = await this.normalize(result.data, job);
+    }
+
+    return result;
+  }
+
+  /**
+   * Splits delimited list fields into arrays and drops blank entries
+   */
+  public async normalize(data: Record<string, any>, _job: ScraperJob): Promise<Record<string, any>> {
+    const normalized = { ...data };
+
+    for (const field of LIST_FIELDS) {
+      const value = normalized[field];
+      if (typeof value === 'string') {
+        normalized[field] = this.splitList(value);
+      } else if (Array.isArray(value)) {
+        normalized[field] = value.map(item => String(item).trim()).filter(Boolean);
+      }
+    }
+
+    return normalized;
+  }
+
+  /**
+   * Splits a list given as one string on semicolons, pipes or line breaks
+   */
+  protected splitList(value: string): string[] {
+    return value
+      .split(/\s*(?:;|\||\r?\n)\s*/)
+      .map(item => item.trim())
+      .filter(Boolean);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Identifies the licensing portal product a page was built with from its host
+ * and markup, and layers the vendor's default selectors under an institution's own, so an
+ * institution on a known portal needs only its vendor and base URL.
+ * @version 1.0.0
+ */
+
+import { VendorFingerprint } from '../../interfaces/scraper.interface';
+import { SelectorConfig } from '../../db/models/institution.model';
+import {
+  PORTAL_VENDORS,
+  VENDOR_DETECTION,
+  PortalVendor
+} from '../../constants/scraper.constants';
+
+/**
+ * Scores the page against every known vendor and returns the best match
+ * @param html Page markup
+ * @param url Address the page was fetched from
+ * @returns Best scoring vendor, or null when none reaches the minimum score
+ */
+export function detectVendor(html: string, url: string): VendorFingerprint | null {
+  let host = '';
+  try {
+    host = new URL(url).hostname;
+  } catch {
+    // Score markup only
+  }
+
+  const candidates = (Object.keys(PORTAL_VENDORS) as PortalVendor[]).map(vendor => {
+    const profile = PORTAL_VENDORS[vendor];
+    const signals: string[] = [];
+    let score = 0;
+
+    if (host && profile.HOST_PATTERN.test(host)) {
+      signals.push('host');
+      score += VENDOR_DETECTION.HOST_SCORE;
+    }
+
+    for (const [name, pattern] of Object.entries(profile.MARKERS)) {
+      if (pattern.test(html)) {
+        signals.push(name);
+        score += VENDOR_DETECTION.MARKER_SCORE;
+      }
+    }
+
+    return { vendor, score, signals, selectors: { ...profile.SELECTORS } };
+  });
+
+  return candidates
+    .filter(candidate => candidate.score >= VENDOR_DETECTION.MIN_SCORE)
+    .sort((a, b) => b.score - a.score)[0] || null;
+}
+
+/**
+ * Fills selectors an institution leaves blank from its vendor's defaults. Selectors the
+ * institution configures always win.
+ * @param selectors Institution selector configuration
+ * @param vendor Institution's portal vendor, if any
+ * @returns Selector configuration to scrape with
+ */
+export function resolveVendorSelectors(
+  selectors: Partial<SelectorConfig> | null | undefined,
+  vendor?: PortalVendor | null
+): SelectorConfig {
+  const configured = selectors || {};
+  if (!vendor || !PORTAL_VENDORS[vendor]) {
+    return configured as SelectorConfig;
+  }
+
+  const { title, description, pagination, links, ...fields } = PORTAL_VENDORS[vendor].SELECTORS;
+  return {
+    ...configured,
+    title: configured.title || title,
+    description: configured.description || description,
+    pagination: configured.pagination || pagination,
+    links: configured.links?.length ? configured.links : [links],
+    metadata: { ...fields, ...configured.metadata }
+  };
+}
\ No newline at end of file
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Checks whether technologies missing from a run still have a detail page,
+ * so licensed or retired technologies whose pages now return 404/410 are withdrawn
+ * without waiting for further runs.
+ * @version 1.0.0
+ */
+
+import axios, { AxiosInstance } from 'axios'; // v1.4.0
+
+import { DetailPageStatus } from '../../interfaces/scraper.interface';
+import { WITHDRAWAL } from '../../constants/scraper.constants';
+import { RobotsPolicy } from '../robots';
+
+/**
+ * Requests technology detail pages and reports whether they are gone
+ */
+export class DetailPageChecker {
+  private readonly httpClient: AxiosInstance;
+
+  constructor(
+    httpClient?: AxiosInstance,
+    private readonly robotsPolicy: RobotsPolicy = RobotsPolicy.getInstance()
+  ) {
+    this.httpClient = httpClient || axios.create({
+      timeout: WITHDRAWAL.CHECK_TIMEOUT,
+      maxRedirects: 5,
+      validateStatus: () => true,
+      headers: {
+        'User-Agent': 'TechTransfer-Scraper/1.0',
+        'Accept': 'text/html,application/xhtml+xml'
+      }
+    });
+  }
+
+  /**
+   * Requests a detail page, honoring robots.txt. HEAD is tried first; servers that reject
+   * it are asked again with GET. Pages that cannot be reached are never reported gone.
+   * @param url Detail page of the technology
+   * @returns Response status, or null when the page was not requested or did not answer
+   */
+  public async check(url: string): Promise<DetailPageStatus> {
+    const robots = await this.robotsPolicy.check(url);
+    if (!robots.allowed) {
+      return { url, statusCode: null, gone: false };
+    }
+    await this.robotsPolicy.waitForTurn(url, robots);
+
+    try {
+      let response = await this.httpClient.head(url);
+      if (response.status === 405 || response.status === 501) {
+        response = await this.httpClient.get(url, { responseType: 'stream' });
+        response.data?.destroy?.();
+      }
+
+      return {
+        url,
+        statusCode: response.status,
+        gone: (WITHDRAWAL.GONE_STATUS_CODES as readonly number[]).includes(response.status)
+      };
+    } catch {
+      return { url, statusCode: null, gone: false };
+    }
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * @fileoverview Entry point for crawl-mode scraping of paginated technology listings and
+ * detail page liveness checks.
+ * @version 1.0.0
+ */
+
+export { ListingCrawler, NAVIGATION_SELECTOR_KEYS } from './listing.crawler';
+export { DetailPageChecker } from './detail.checker';
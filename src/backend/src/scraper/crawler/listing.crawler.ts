@@ -0,0 +1,461 @@
+/**
+ * @fileoverview Crawl-mode implementation that walks paginated technology listings and
+ * follows detail links, emitting one scraper result per technology with visited-URL
+ * deduplication, URL scope rules and page/item/depth caps.
+ * @version 1.0.0
+ */
+
+import axios, { AxiosInstance } from 'axios'; // v1.4.0
+import * as cheerio from 'cheerio'; // v1.0.0-rc.12
+
+import {
+  ScraperJob,
+  ScraperResult,
+  CrawlConfig,
+  CrawlResult,
+  CrawlSkipReason,
+  RawPageCapture
+} from '../../interfaces/scraper.interface';
+import { CRAWL_DEFAULTS } from '../../constants/scraper.constants';
+import { HTMLParser, ParsedHTMLResult } from '../parsers/html.parser';
+import { RobotsPolicy, RobotsDisallowedError } from '../robots';
+import { DistributedRateLimiter } from '../rateLimit';
+import { ProxyPool } from '../proxy';
+import { captureResponse, captureText } from '../snapshot';
+import { logger } from '../../utils/logger.util';
+
+/**
+ * Selector keys that drive navigation rather than technology field extraction
+ */
+export const NAVIGATION_SELECTOR_KEYS = ['links', 'pagination', 'detailLink', 'listingItem'];
+
+/**
+ * Page awaiting a visit in the crawl frontier
+ */
+interface CrawlTarget {
+  url: string;
+  depth: number;
+  listingUrl: string;
+  isListing: boolean;
+}
+
+/**
+ * Crawls listing pages breadth-first, following pagination at the same depth and
+ * detail links one level deeper
+ */
+export class ListingCrawler {
+  private readonly httpClient: AxiosInstance;
+
+  constructor(
+    httpClient?: AxiosInstance,
+    private readonly robotsPolicy: RobotsPolicy = RobotsPolicy.getInstance(),
+    private readonly rateLimiter: DistributedRateLimiter = DistributedRateLimiter.getInstance(),
+    private readonly proxyPool: ProxyPool = ProxyPool.getInstance()
+  ) {
+    this.httpClient = httpClient || axios.create({
+      timeout: CRAWL_DEFAULTS.REQUEST_TIMEOUT,
+      headers: {
+        'User-Agent': 'TechTransfer-Scraper/1.0',
+        'Accept': 'text/html,application/xhtml+xml'
+      }
+    });
+  }
+
+  /**
+   * Runs a crawl for the job starting at its URL
+   * @param job Scraper job in crawl mode
+   * @returns Per-technology results together with crawl statistics
+   */
+  public async crawl(job: ScraperJob): Promise<CrawlResult> {
+    const config = ListingCrawler.resolveConfig(job);
+    const fieldSelectors = this.getFieldSelectors(job);
+    const limits = DistributedRateLimiter.resolveLimits(job);
+    const startUrl = this.normalizeUrl(job.url, job.url);
+
+    const crawlResult: CrawlResult = {
+      jobId: job.id,
+      startUrl: startUrl || job.url,
+      results: [],
+      listingPagesVisited: 0,
+      detailPagesVisited: 0,
+      skipped: [],
+      truncated: false,
+      listingComplete: true
+    };
+
+    if (!startUrl) {
+      throw new Error(`Invalid crawl start URL: ${job.url}`);
+    }
+
+    const visited = new Set<string>([startUrl]);
+    const frontier: CrawlTarget[] = [{ url: startUrl, depth: 0, listingUrl: startUrl, isListing: true }];
+
+    while (frontier.length > 0) {
+      if (crawlResult.results.length >= config.maxItems) {
+        crawlResult.truncated = true;
+        frontier.forEach(target => crawlResult.skipped.push({ url: target.url, reason: 'item_cap' }));
+        break;
+      }
+
+      const target = frontier.shift() as CrawlTarget;
+
+      if (target.isListing && crawlResult.listingPagesVisited >= config.maxPages) {
+        crawlResult.truncated = true;
+        crawlResult.skipped.push({ url: target.url, reason: 'page_cap' });
+        continue;
+      }
+
+      let page: RawPageCapture;
+      try {
+        await this.robotsPolicy.enforce(job, target.url);
+
+        // Pages are paced by the limiter shared with every other worker hitting this domain
+        const permit = await this.rateLimiter.waitForPermit(
+          DistributedRateLimiter.keyFor(target.url, job.institutionId),
+          limits
+        );
+        if (permit.isLimited) {
+          this.skipPage(crawlResult, target, 'rate_limited');
+          continue;
+        }
+
+        page = await this.fetchPage(target.url, job.proxyRegion);
+      } catch (error) {
+        if (error instanceof RobotsDisallowedError) {
+          this.skipPage(crawlResult, target, 'robots_disallowed');
+          continue;
+        }
+
+        logger.warn('Crawl page fetch failed', {
+          jobId: job.id,
+          url: target.url,
+          error: (error as Error).message
+        });
+        this.skipPage(crawlResult, target, 'fetch_failed');
+        continue;
+      }
+
+      const html = captureText(page);
+      const $ = cheerio.load(html);
+
+      if (target.isListing) {
+        crawlResult.listingPagesVisited++;
+
+        if (config.maxDepth < 1) {
+          try {
+            await this.extractListingItems($, page, target, config, fieldSelectors, job, crawlResult);
+          } catch (error) {
+            this.logParseFailure(job, target, error as Error);
+            this.skipPage(crawlResult, target, 'parse_failed');
+          }
+        }
+
+        // Numbered pagination lists several pages at once; the visited set drops the ones
+        // already queued from an earlier page
+        const pageLinks = config.paginationSelector
+          ? this.collectLinks($, config.paginationSelector, target.url)
+          : [];
+        for (const pageUrl of pageLinks) {
+          this.enqueue(frontier, visited, crawlResult, config, startUrl, {
+            url: pageUrl,
+            depth: target.depth,
+            listingUrl: pageUrl,
+            isListing: true
+          });
+        }
+      } else {
+        crawlResult.detailPagesVisited++;
+        const result = await this.extractDetail(html, page, target, fieldSelectors, job);
+        if (result) {
+          crawlResult.results.push(result);
+        } else {
+          this.skipPage(crawlResult, target, 'parse_failed');
+        }
+      }
+
+      const childDepth = target.depth + 1;
+      if (childDepth > config.maxDepth) {
+        continue;
+      }
+
+      for (const link of this.collectLinks($, config.detailLinkSelector, target.url)) {
+        this.enqueue(frontier, visited, crawlResult, config, startUrl, {
+          url: link,
+          depth: childDepth,
+          listingUrl: target.isListing ? target.url : target.listingUrl,
+          isListing: false
+        });
+      }
+    }
+
+    logger.info('Crawl completed', {
+      jobId: job.id,
+      startUrl,
+      items: crawlResult.results.length,
+      listingPagesVisited: crawlResult.listingPagesVisited,
+      detailPagesVisited: crawlResult.detailPagesVisited,
+      skipped: crawlResult.skipped.length,
+      truncated: crawlResult.truncated,
+      listingComplete: crawlResult.listingComplete
+    });
+
+    return crawlResult;
+  }
+
+  /**
+   * Merges the job's crawl settings with navigation selectors from its scraper config
+   * and the crawl defaults
+   * @param job Scraper job in crawl mode
+   * @returns Fully populated crawl configuration
+   */
+  public static resolveConfig(job: ScraperJob): CrawlConfig {
+    const overrides = job.crawlConfig || {};
+    const selectors = job.config?.selectors || {};
+
+    const detailLinkSelector = overrides.detailLinkSelector || selectors.detailLink || selectors.links;
+    if (!detailLinkSelector) {
+      throw new Error('Crawl mode requires a detail link selector');
+    }
+
+    return {
+      detailLinkSelector,
+      paginationSelector: overrides.paginationSelector || selectors.pagination,
+      listingItemSelector: overrides.listingItemSelector || selectors.listingItem,
+      maxPages: overrides.maxPages ?? CRAWL_DEFAULTS.MAX_PAGES,
+      maxDepth: overrides.maxDepth ?? CRAWL_DEFAULTS.MAX_DEPTH,
+      maxItems: overrides.maxItems ?? CRAWL_DEFAULTS.MAX_ITEMS,
+      scope: {
+        sameHostOnly: true,
+        ...overrides.scope
+      }
+    };
+  }
+
+  /**
+   * Adds a target to the frontier unless it was already seen or is out of scope
+   */
+  private enqueue(
+    frontier: CrawlTarget[],
+    visited: Set<string>,
+    crawlResult: CrawlResult,
+    config: CrawlConfig,
+    startUrl: string,
+    target: CrawlTarget
+  ): void {
+    if (visited.has(target.url)) {
+      return;
+    }
+    visited.add(target.url);
+
+    if (!this.isInScope(target.url, startUrl, config)) {
+      crawlResult.skipped.push({ url: target.url, reason: 'out_of_scope' });
+      return;
+    }
+
+    frontier.push(target);
+  }
+
+  /**
+   * Records a page the crawl could not use. A listing page skipped this way may list
+   * technologies the crawl never saw, so the crawl no longer covers the whole listing.
+   */
+  private skipPage(crawlResult: CrawlResult, target: CrawlTarget, reason: CrawlSkipReason): void {
+    crawlResult.skipped.push({ url: target.url, reason });
+    if (target.isListing) {
+      crawlResult.listingComplete = false;
+    }
+  }
+
+  private logParseFailure(job: ScraperJob, target: CrawlTarget, error: Error): void {
+    logger.warn('Crawl page parse failed', {
+      jobId: job.id,
+      url: target.url,
+      error: error.message
+    });
+  }
+
+  /**
+   * Parses a detail page into a single technology result
+   * @returns Null when the page yields no fields or cannot be parsed
+   */
+  private async extractDetail(
+    html: string,
+    page: RawPageCapture,
+    target: CrawlTarget,
+    fieldSelectors: Record<string, string>,
+    job: ScraperJob
+  ): Promise<ScraperResult | null> {
+    const startTime = new Date();
+    let parsed: ParsedHTMLResult;
+    try {
+      const parser = new HTMLParser({ selectors: fieldSelectors, validateSelectors: false });
+      parsed = await parser.parse(html);
+    } catch (error) {
+      this.logParseFailure(job, target, error as Error);
+      return null;
+    }
+
+    if (Object.keys(parsed.data).length === 0) {
+      return null;
+    }
+
+    return this.buildResult(job, target.url, parsed.data, page, target, startTime);
+  }
+
+  /**
+   * Parses each listing item in place when detail pages are not followed
+   */
+  private async extractListingItems(
+    $: cheerio.CheerioAPI,
+    page: RawPageCapture,
+    target: CrawlTarget,
+    config: CrawlConfig,
+    fieldSelectors: Record<string, string>,
+    job: ScraperJob,
+    crawlResult: CrawlResult
+  ): Promise<void> {
+    if (!config.listingItemSelector) {
+      return;
+    }
+
+    const parser = new HTMLParser({ selectors: fieldSelectors, validateSelectors: false });
+    const items = $(config.listingItemSelector).toArray();
+
+    for (const item of items) {
+      if (crawlResult.results.length >= config.maxItems) {
+        crawlResult.truncated = true;
+        return;
+      }
+
+      const startTime = new Date();
+      const parsed = await parser.parse($.html(item));
+      if (Object.keys(parsed.data).length === 0) {
+        continue;
+      }
+
+      const href = $(item).find(config.detailLinkSelector).first().attr('href');
+      const itemUrl = (href && this.normalizeUrl(href, target.url)) || target.url;
+      crawlResult.results.push(this.buildResult(job, itemUrl, parsed.data, page, target, startTime));
+    }
+  }
+
+  private buildResult(
+    job: ScraperJob,
+    url: string,
+    data: Record<string, any>,
+    page: RawPageCapture,
+    target: CrawlTarget,
+    startTime: Date
+  ): ScraperResult {
+    const endTime = new Date();
+    return {
+      jobId: job.id,
+      url,
+      data: {
+        ...data,
+        crawl: {
+          listingUrl: target.listingUrl,
+          depth: target.depth
+        }
+      },
+      timestamp: endTime,
+      success: true,
+      rateLimitMetrics: {
+        requestCount: 1,
+        burstCount: 0,
+        throttledRequests: 0,
+        queuedRequests: 0,
+        cooldownPeriods: 0,
+        averageRequestTime: 0
+      },
+      performanceMetrics: {
+        startTime,
+        endTime,
+        totalDuration: endTime.getTime() - startTime.getTime(),
+        networkTime: 0,
+        processingTime: endTime.getTime() - startTime.getTime(),
+        memoryUsage: process.memoryUsage().heapUsed,
+        cpuUsage: 0
+      },
+      validationResults: {
+        isValid: true,
+        errors: [],
+        warnings: []
+      },
+      rawPage: page
+    };
+  }
+
+  private async fetchPage(url: string, region?: string | null): Promise<RawPageCapture> {
+    const response = await this.proxyPool.request(url, region, config =>
+      this.httpClient.get(url, { ...config, responseType: 'arraybuffer' }));
+    return captureResponse(response);
+  }
+
+  /**
+   * Resolves every href matched by the selector against the page URL
+   */
+  private collectLinks($: cheerio.CheerioAPI, selector: string, baseUrl: string): string[] {
+    const links: string[] = [];
+    $(selector).each((_, element) => {
+      const node = $(element);
+      const href = node.attr('href') || node.find('a[href]').first().attr('href');
+      const url = href ? this.normalizeUrl(href, baseUrl) : null;
+      if (url && !links.includes(url)) {
+        links.push(url);
+      }
+    });
+    return links;
+  }
+
+  /**
+   * Resolves relative links and drops fragments so equivalent URLs dedupe
+   */
+  private normalizeUrl(href: string, baseUrl: string): string | null {
+    try {
+      const url = new URL(href.trim(), baseUrl);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        return null;
+      }
+      url.hash = '';
+      return url.toString();
+    } catch {
+      return null;
+    }
+  }
+
+  private isInScope(url: string, startUrl: string, config: CrawlConfig): boolean {
+    const { scope } = config;
+    const hostname = new URL(url).hostname;
+
+    if (scope.allowedDomains?.length) {
+      const allowed = scope.allowedDomains.some(domain =>
+        hostname === domain || hostname.endsWith(`.${domain}`)
+      );
+      if (!allowed) {
+        return false;
+      }
+    } else if (scope.sameHostOnly && hostname !== new URL(startUrl).hostname) {
+      return false;
+    }
+
+    if (scope.excludePatterns?.some(pattern => new RegExp(pattern).test(url))) {
+      return false;
+    }
+
+    if (scope.includePatterns?.length) {
+      return scope.includePatterns.some(pattern => new RegExp(pattern).test(url));
+    }
+
+    return true;
+  }
+
+  private getFieldSelectors(job: ScraperJob): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(job.config?.selectors || {})
+        .filter(([key]) => !NAVIGATION_SELECTOR_KEYS.includes(key))
+    );
+  }
+}
+
+export default ListingCrawler;
\ No newline at end of file
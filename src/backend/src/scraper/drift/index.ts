@@ -0,0 +1,7 @@
+/**
+ * @fileoverview Entry point for selector drift detection and selector testing.
+ * @version 1.0.0
+ */
+
+export { SelectorDriftDetector } from './selector.drift';
+export { SelectorTester } from './selector.tester';
\ No newline at end of file
@@ -0,0 +1,241 @@
+/**
+ * @fileoverview Selector drift detection. Compares how many elements each monitored selector
+ * matched on the latest run with the institution's recent history, and proposes replacement
+ * selectors by locating the content a selector used to extract in the new DOM.
+ * @version 1.0.0
+ */
+
+import * as cheerio from 'cheerio'; // v1.0.0-rc.12
+import { AnyNode, isTag } from 'domhandler'; // v5.0.3
+
+import { SelectorDriftField, SelectorSuggestion } from '../../interfaces/scraper.interface';
+import { SELECTOR_DRIFT } from '../../constants/scraper.constants';
+
+/**
+ * Class names that can be used in a selector without escaping
+ */
+const SAFE_CLASS = /^-?[A-Za-z_][\w-]*$/;
+
+/**
+ * Elements sampled from each side when comparing snapshots
+ */
+const SAMPLE_SIZE = 50;
+
+/**
+ * Detects selector fields whose yield collapsed and suggests replacements
+ */
+export class SelectorDriftDetector {
+  /**
+   * Counts the elements each selector matches; invalid selectors count as zero
+   */
+  public countMatches(html: string, selectors: Record<string, string>): Record<string, number> {
+    const $ = cheerio.load(html);
+    const counts: Record<string, number> = {};
+
+    for (const [field, selector] of Object.entries(selectors)) {
+      try {
+        counts[field] = selector ? $(selector).length : 0;
+      } catch {
+        counts[field] = 0;
+      }
+    }
+
+    return counts;
+  }
+
+  /**
+   * Flags monitored fields whose current yield fell well below the median of previous runs.
+   * Returns nothing until enough history exists to trust the baseline.
+   * @param selectors Selectors used on the current run
+   * @param current Matches per field on the current run
+   * @param history Matches per field on previous runs, newest first
+   */
+  public evaluate(
+    selectors: Record<string, string>,
+    current: Record<string, number>,
+    history: Array<Record<string, number>>
+  ): SelectorDriftField[] {
+    const drifted: SelectorDriftField[] = [];
+
+    for (const field of SELECTOR_DRIFT.MONITORED_FIELDS) {
+      if (!selectors[field]) {
+        continue;
+      }
+
+      const previous = history
+        .map(yields => yields[field])
+        .filter((count): count is number => typeof count === 'number');
+      if (previous.length < SELECTOR_DRIFT.MIN_HISTORY) {
+        continue;
+      }
+
+      const baseline = this.median(previous);
+      const count = current[field] ?? 0;
+      const reason = this.classify(baseline, count);
+      if (reason) {
+        drifted.push({ field, selector: selectors[field], reason, baseline, current: count, suggestions: [] });
+      }
+    }
+
+    return drifted;
+  }
+
+  /**
+   * Whether a yield has recovered against a previously flagged baseline
+   */
+  public hasRecovered(baseline: number, current: number): boolean {
+    return this.classify(baseline, current) === null;
+  }
+
+  /**
+   * Proposes replacement selectors for a drifted field. Candidates come from elements in the
+   * new DOM that still carry text the old selector extracted from the last-good snapshot, and
+   * from the tag, class and microdata shape of the old matches. Each candidate is scored by how
+   * much known text it matches and how close its match count is to the baseline.
+   * @param lastGoodHtml Snapshot from the last run where the selector was healthy
+   * @param selector Selector that has drifted
+   * @param currentHtml Page fetched on the current run
+   * @param expected Baseline match count for the field
+   */
+  public suggest(
+    lastGoodHtml: string,
+    selector: string,
+    currentHtml: string,
+    expected: number
+  ): SelectorSuggestion[] {
+    const previous = cheerio.load(lastGoodHtml);
+    const current = cheerio.load(currentHtml);
+
+    let reference: cheerio.Cheerio<AnyNode>;
+    try {
+      reference = previous(selector);
+    } catch {
+      return [];
+    }
+    if (reference.length === 0) {
+      return [];
+    }
+
+    const knownTexts = new Set(
+      reference.slice(0, SAMPLE_SIZE)
+        .map((_, el) => this.cleanText(previous(el).text()))
+        .get()
+        .filter(Boolean)
+    );
+
+    const candidates = new Set<string>();
+
+    // Where the old content now lives is the strongest signal
+    if (knownTexts.size > 0) {
+      current('body *').each((_, el) => {
+        if (knownTexts.has(this.cleanText(current(el).text()))) {
+          this.describe(current, el).forEach(candidate => candidates.add(candidate));
+        }
+      });
+    }
+
+    // Markup shape of the old matches, for pages whose content changed along with the DOM
+    reference.slice(0, SAMPLE_SIZE).each((_, el) => {
+      this.describe(previous, el).forEach(candidate => candidates.add(candidate));
+    });
+    candidates.delete(selector);
+
+    const suggestions: SelectorSuggestion[] = [];
+    for (const candidate of candidates) {
+      let matches: cheerio.Cheerio<AnyNode>;
+      try {
+        matches = current(candidate);
+      } catch {
+        continue;
+      }
+      if (matches.length === 0) {
+        continue;
+      }
+
+      const sampled = matches.slice(0, SAMPLE_SIZE).map((_, el) => this.cleanText(current(el).text())).get();
+      const known = sampled.filter(text => knownTexts.has(text)).length;
+      const overlap = knownTexts.size > 0 ? known / Math.min(sampled.length, knownTexts.size) : 0;
+      const countFit = 1 - Math.abs(matches.length - expected) / Math.max(matches.length, expected, 1);
+
+      suggestions.push({
+        selector: candidate,
+        matches: matches.length,
+        score: Math.round((0.6 * Math.min(overlap, 1) + 0.4 * countFit) * 100) / 100
+      });
+    }
+
+    return suggestions
+      .sort((a, b) => b.score - a.score || a.selector.length - b.selector.length)
+      .slice(0, SELECTOR_DRIFT.MAX_SUGGESTIONS);
+  }
+
+  /**
+   * A field has drifted when nothing matches any more, or when a meaningful baseline
+   * dropped below the configured ratio
+   */
+  private classify(baseline: number, current: number): SelectorDriftField['reason'] | null {
+    if (baseline <= 0) {
+      return null;
+    }
+    if (current === 0) {
+      return 'missing';
+    }
+    if (baseline >= SELECTOR_DRIFT.MIN_BASELINE_ITEMS && current < baseline * SELECTOR_DRIFT.DROP_RATIO) {
+      return 'dropped';
+    }
+    return null;
+  }
+
+  /**
+   * Builds selectors describing an element by tag, classes, microdata and parent
+   */
+  private describe($: cheerio.CheerioAPI, el: AnyNode): string[] {
+    if (!isTag(el)) {
+      return [];
+    }
+
+    const node = $(el);
+    const tag = el.tagName.toLowerCase();
+    if (tag === 'body' || tag === 'html') {
+      return [];
+    }
+
+    const selectors: string[] = [];
+    const classes = (node.attr('class') || '').split(/\s+/).filter(name => SAFE_CLASS.test(name));
+    if (classes.length > 0) {
+      selectors.push(`${tag}.${classes.join('.')}`);
+      classes.forEach(name => selectors.push(`.${name}`, `${tag}.${name}`));
+    }
+
+    const itemprop = node.attr('itemprop');
+    if (itemprop && SAFE_CLASS.test(itemprop)) {
+      selectors.push(`[itemprop="${itemprop}"]`);
+    }
+
+    const parent = node.parent();
+    const parentTag = parent.get(0)?.tagName?.toLowerCase();
+    if (parentTag && parentTag !== 'html') {
+      const parentClass = (parent.attr('class') || '').split(/\s+/).find(name => SAFE_CLASS.test(name));
+      const parentId = parent.attr('id');
+      if (parentId && SAFE_CLASS.test(parentId)) {
+        selectors.push(`#${parentId} > ${tag}`);
+      } else if (parentClass) {
+        selectors.push(`${parentTag}.${parentClass} > ${tag}`);
+      }
+    }
+
+    return selectors;
+  }
+
+  private median(values: number[]): number {
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+  }
+
+  private cleanText(text: string): string {
+    return text.trim().replace(/\s+/g, ' ');
+  }
+}
+
+export default SelectorDriftDetector;
\ No newline at end of file
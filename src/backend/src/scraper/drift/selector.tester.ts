@@ -0,0 +1,112 @@
+/**
+ * @fileoverview Fetches a page the way the static engine would and reports how many elements
+ * each selector matches, so operators can try selector changes before saving them.
+ * @version 1.0.0
+ */
+
+import axios, { AxiosInstance } from 'axios'; // v1.4.0
+
+import { SelectorTestResult } from '../../interfaces/scraper.interface';
+import { SELECTOR_DRIFT } from '../../constants/scraper.constants';
+import { RobotsPolicy } from '../robots';
+import { SelectorDriftDetector } from './selector.drift';
+import { detectVendor } from '../adapters';
+import { assertPublicUrl } from '../../utils/network.util';
+
+/**
+ * Tests selectors against the live page
+ */
+export class SelectorTester {
+  private readonly httpClient: AxiosInstance;
+
+  constructor(
+    httpClient?: AxiosInstance,
+    private readonly robotsPolicy: RobotsPolicy = RobotsPolicy.getInstance(),
+    private readonly detector: SelectorDriftDetector = new SelectorDriftDetector()
+  ) {
+    this.httpClient = httpClient || axios.create({
+      timeout: SELECTOR_DRIFT.TEST_TIMEOUT,
+      responseType: 'text',
+      maxRedirects: 0,
+      headers: {
+        'User-Agent': 'TechTransfer-Scraper/1.0',
+        'Accept': 'text/html,application/xhtml+xml'
+      }
+    });
+  }
+
+  /**
+   * Fetches the URL, honoring robots.txt, and counts matches for every selector. The URL
+   * and every redirect target must resolve to public addresses.
+   * @param url Page to test
+   * @param selectors Selectors keyed by field
+   * @returns Reachability, timing, per-field match counts and the detected portal vendor
+   * @throws AppError when the URL's host resolves to a non-public address
+   */
+  public async test(url: string, selectors: Record<string, string>): Promise<SelectorTestResult> {
+    await assertPublicUrl(url);
+
+    const result: SelectorTestResult = {
+      accessible: false,
+      responseTime: 0,
+      validSelectors: false,
+      selectorMatches: {},
+      errors: [],
+      warnings: []
+    };
+
+    const robots = await this.robotsPolicy.check(url);
+    if (!robots.allowed) {
+      result.errors.push(`Disallowed by robots.txt${robots.rule ? ` (${robots.rule})` : ''}`);
+      return result;
+    }
+    await this.robotsPolicy.waitForTurn(url, robots);
+
+    const startTime = Date.now();
+    let html: string;
+    try {
+      html = await this.fetchPublicPage(url);
+      result.accessible = true;
+    } catch (error) {
+      result.errors.push(`Failed to fetch page: ${(error as Error).message}`);
+      return result;
+    } finally {
+      result.responseTime = Date.now() - startTime;
+    }
+
+    result.vendor = detectVendor(html, url);
+    result.selectorMatches = this.detector.countMatches(html, selectors);
+    for (const [field, count] of Object.entries(result.selectorMatches)) {
+      if (count === 0) {
+        result.errors.push(`Selector ${field} found no elements`);
+      }
+    }
+    result.validSelectors = Object.keys(selectors).length > 0 && result.errors.length === 0;
+
+    return result;
+  }
+
+  /**
+   * Fetches a page, following redirects only to hosts that resolve to public addresses
+   */
+  private async fetchPublicPage(url: string): Promise<string> {
+    let target = url;
+    for (let redirects = 0; ; redirects++) {
+      const response = await this.httpClient.get<string>(target, {
+        validateStatus: status => status >= 200 && status < 400
+      });
+      const location = response.headers?.location;
+      if (response.status < 300 || !location) {
+        return String(response.data || '');
+      }
+      if (redirects >= SELECTOR_DRIFT.TEST_MAX_REDIRECTS) {
+        throw new Error(`Too many redirects from ${url}`);
+      }
+
+      target = new URL(String(location), target).toString();
+      await assertPublicUrl(target);
+    }
+  }
+}
+
+export default SelectorTester;
\ No newline at end of file
@@ -17,13 +17,13 @@ import {
   RateLimitConfig,
   RateLimitStatus,
   PerformanceMetrics,
-  ValidationResults
+  ValidationResults,
+  StructuredDataSource
 } from '../../interfaces/scraper.interface';
 
 import {
   SCRAPER_ENGINES,
   ERROR_TYPES,
-  SCRAPER_RATE_LIMITS,
   RETRY_CONFIG
 } from '../../constants/scraper.constants';
 
@@ -35,6 +35,19 @@ import {
   getRetryDelay
 } from '../../utils/error.util';
 
+import { RobotsPolicy, RobotsDisallowedError } from '../robots';
+import { DistributedRateLimiter } from '../rateLimit';
+import { ProxyPool } from '../proxy';
+import { captureResponse, captureText, isPdfCapture } from '../snapshot';
+import {
+  extractStructuredData,
+  mergeFieldSources,
+  hasFieldValue,
+  toTechnologyData,
+  PDFParser,
+  StructuredFields
+} from '../parsers';
+
 /**
  * BeautifulSoup scraping engine implementation with enhanced capabilities
  */
@@ -42,13 +55,14 @@ export class BeautifulSoupEngine implements ScraperEngine {
   public readonly type = SCRAPER_ENGINES.BEAUTIFUL_SOUP;
   private httpClient: AxiosInstance;
   private rateLimitConfig: RateLimitConfig;
-  private retryCounters: Map<string, number>;
-  private cooldownTimers: Map<string, number>;
 
-  constructor(rateLimitConfig: RateLimitConfig) {
+  constructor(
+    rateLimitConfig: RateLimitConfig,
+    private readonly robotsPolicy: RobotsPolicy = RobotsPolicy.getInstance(),
+    private readonly rateLimiter: DistributedRateLimiter = DistributedRateLimiter.getInstance(),
+    private readonly proxyPool: ProxyPool = ProxyPool.getInstance()
+  ) {
     this.rateLimitConfig = rateLimitConfig;
-    this.retryCounters = new Map();
-    this.cooldownTimers = new Map();
     this.initializeHttpClient();
   }
 
@@ -109,12 +123,21 @@ export class BeautifulSoupEngine implements ScraperEngine {
         );
       }
 
-      // Make HTTP request
-      const response = await this.httpClient.get(job.url);
-      const $ = cheerio.load(response.data);
+      // Honor robots.txt rules and Crawl-delay for the target host
+      await this.robotsPolicy.enforce(job);
+
+      // Make HTTP request through the domain's proxy, keeping the raw bytes so PDFs and
+      // encodings survive archiving
+      const response = await this.proxyPool.request(job.url, job.proxyRegion, config =>
+        this.httpClient.get(job.url, { ...config, responseType: 'arraybuffer' }));
+      const rawPage = captureResponse(response);
+
+      // One-pager PDFs are segmented into fields; pages are extracted with selectors
+      const extractedData = isPdfCapture(rawPage)
+        ? await this.extractPdfData(rawPage.body)
+        : await this.extractPageData(cheerio.load(captureText(rawPage)), job);
 
-      // Extract and validate data
-      const extractedData = await this.extractData($, job.config.selectors);
+      // Validate data
       const validationResults = this.validateData(extractedData, job.validationRules);
 
       // Update performance metrics
@@ -128,10 +151,15 @@ export class BeautifulSoupEngine implements ScraperEngine {
         success: true,
         rateLimitMetrics: this.getRateLimitMetrics(),
         performanceMetrics,
-        validationResults
+        validationResults,
+        rawPage
       };
 
     } catch (error) {
+      if (error instanceof RobotsDisallowedError) {
+        throw error;
+      }
+
       const handledError = await this.handleScrapingError(error, job);
       performanceMetrics = this.finalizePerformanceMetrics(performanceMetrics);
 
@@ -147,11 +175,40 @@ export class BeautifulSoupEngine implements ScraperEngine {
   }
 
   /**
-   * Extracts data using configured selectors
+   * Extracts page data with selectors, filling gaps from JSON-LD, microdata and OpenGraph
+   */
+  private async extractPageData($: cheerio.CheerioAPI, job: ScraperJob): Promise<Record<string, any>> {
+    const structured = job.config.structuredData?.enabled === false ? null : extractStructuredData($);
+    const selectorData = await this.extractData($, job.config.selectors, structured?.fields);
+    return structured
+      ? mergeFieldSources(selectorData, structured.fields, job.config.structuredData).data
+      : selectorData;
+  }
+
+  /**
+   * Extracts technology fields from a one-pager PDF by its sections, falling back to the
+   * document title when no title line stands out
+   */
+  private async extractPdfData(body: Buffer): Promise<Record<string, any>> {
+    const parsed = await new PDFParser().parse(body);
+    if (!parsed.success || !parsed.structure) {
+      throw createError(
+        ERROR_TYPES.PARSE_ERROR,
+        `Failed to parse PDF: ${parsed.errors[0]?.message || 'no content'}`,
+        { errors: parsed.errors }
+      );
+    }
+    return toTechnologyData(parsed.structure, parsed.metadata?.title);
+  }
+
+  /**
+   * Extracts data using configured selectors. A selector matching nothing is only an
+   * error when no structured-data source on the page carries that field either.
    */
   private async extractData(
     $: cheerio.CheerioAPI,
-    selectors: Record<string, string>
+    selectors: Record<string, string>,
+    structured: Partial<Record<StructuredDataSource, StructuredFields>> = {}
   ): Promise<Record<string, any>> {
     const extracted: Record<string, any> = {};
 
@@ -159,6 +216,9 @@ export class BeautifulSoupEngine implements ScraperEngine {
       try {
         const elements = $(selector);
         if (elements.length === 0) {
+          if (Object.values(structured).some(fields => hasFieldValue((fields as Record<string, unknown>)[field]))) {
+            continue;
+          }
           throw createError(
             ERROR_TYPES.PARSE_ERROR,
             `No elements found for selector: ${selector}`,
@@ -198,6 +258,11 @@ export class BeautifulSoupEngine implements ScraperEngine {
 
     if (axios.isAxiosError(error)) {
       const errorType = this.classifyAxiosError(error);
+      if (error.response?.status === 429) {
+        // The site pushed back; cool the domain down for every worker, not just this one
+        const limits = DistributedRateLimiter.resolveLimits(job, this.rateLimitConfig);
+        await this.rateLimiter.penalize(DistributedRateLimiter.keyFor(job.url, job.institutionId), limits.cooldownPeriod);
+      }
       const enhancedError = createError(errorType, error.message, errorContext);
       return handleError(enhancedError, errorContext);
     }
@@ -237,44 +302,13 @@ export class BeautifulSoupEngine implements ScraperEngine {
   }
 
   /**
-   * Checks rate limits and cooldown periods
+   * Waits for a permit from the rate limiter shared by all workers for the job's domain
    */
   private async checkRateLimits(job: ScraperJob): Promise<RateLimitStatus> {
-    const institutionLimits = this.rateLimitConfig.institutionOverrides[job.institutionType] 
-      || SCRAPER_RATE_LIMITS.DEFAULT;
-
-    const currentRequests = this.retryCounters.get(job.institutionType) || 0;
-    const cooldownUntil = this.cooldownTimers.get(job.institutionType) || 0;
-
-    const status: RateLimitStatus = {
-      isLimited: false,
-      remainingRequests: institutionLimits.requestsPerSecond - currentRequests,
-      resetTime: new Date(cooldownUntil),
-      currentBurst: currentRequests,
-      inCooldown: Date.now() < cooldownUntil
-    };
-
-    if (status.inCooldown || currentRequests >= institutionLimits.burstLimit) {
-      status.isLimited = true;
-    } else {
-      this.retryCounters.set(job.institutionType, currentRequests + 1);
-      this.scheduleCooldownReset(job.institutionType, institutionLimits.cooldownPeriod);
-    }
-
-    return status;
-  }
-
-  /**
-   * Schedules cooldown period reset
-   */
-  private scheduleCooldownReset(institutionType: string, cooldownPeriod: number): void {
-    const resetTime = Date.now() + (cooldownPeriod * 1000);
-    this.cooldownTimers.set(institutionType, resetTime);
-
-    setTimeout(() => {
-      this.retryCounters.set(institutionType, 0);
-      this.cooldownTimers.delete(institutionType);
-    }, cooldownPeriod * 1000);
+    return this.rateLimiter.waitForPermit(
+      DistributedRateLimiter.keyFor(job.url, job.institutionId),
+      DistributedRateLimiter.resolveLimits(job, this.rateLimitConfig)
+    );
   }
 
   /**
@@ -0,0 +1,226 @@
+/**
+ * @fileoverview Engine selection strategy that honors institution configuration and
+ * escalates JavaScript-rendered listing pages to the Selenium engine based on a
+ * lightweight static render probe.
+ * @version 1.0.0
+ */
+
+import axios, { AxiosInstance } from 'axios'; // v1.4.0
+import * as cheerio from 'cheerio'; // v1.0.0-rc.12
+
+import { ScraperJob } from '../../interfaces/scraper.interface';
+import { Institution } from '../../db/models/institution.model';
+import { SCRAPER_ENGINES, ENGINE_SELECTION } from '../../constants/scraper.constants';
+import { logger } from '../../utils/logger.util';
+import { RobotsPolicy } from '../robots';
+
+/**
+ * Outcome of statically fetching a page and inspecting its markup
+ */
+export interface RenderProbeResult {
+  requiresJavaScript: boolean;
+  matchedSelectors: string[];
+  emptySelectors: string[];
+  spaMarkers: string[];
+  textLength: number;
+  scriptCount: number;
+}
+
+/**
+ * Reason an engine was chosen for a job
+ */
+export type EngineSelectionReason =
+  | 'job_override'
+  | 'institution_config'
+  | 'render_probe'
+  | 'empty_result'
+  | 'default';
+
+/**
+ * Engine chosen for a job along with the evidence behind the choice
+ */
+export interface EngineSelection {
+  engineType: SCRAPER_ENGINES;
+  reason: EngineSelectionReason;
+  escalated: boolean;
+  probe?: RenderProbeResult;
+}
+
+/**
+ * Selects the scraper engine for a job, caching probe decisions per institution
+ */
+export class EngineSelector {
+  private readonly httpClient: AxiosInstance;
+  private readonly decisionCache: Map<string, { selection: EngineSelection; expiresAt: number }>;
+
+  constructor(
+    httpClient?: AxiosInstance,
+    private readonly robotsPolicy: RobotsPolicy = RobotsPolicy.getInstance()
+  ) {
+    this.httpClient = httpClient || axios.create({
+      timeout: ENGINE_SELECTION.PROBE_TIMEOUT,
+      headers: {
+        'User-Agent': 'TechTransfer-Scraper/1.0',
+        'Accept': 'text/html,application/xhtml+xml'
+      }
+    });
+    this.decisionCache = new Map();
+  }
+
+  /**
+   * Chooses an engine for the job. Precedence: explicit job override, an institution
+   * already configured for Selenium, a cached decision, then a fresh render probe.
+   */
+  public async select(job: ScraperJob, institution?: Institution | null): Promise<EngineSelection> {
+    if (job.engineType) {
+      return { engineType: job.engineType, reason: 'job_override', escalated: false };
+    }
+
+    const configured = institution?.engineType;
+    if (configured === SCRAPER_ENGINES.SELENIUM) {
+      return { engineType: configured, reason: 'institution_config', escalated: false };
+    }
+
+    const cacheKey = this.getCacheKey(job);
+    const cached = this.decisionCache.get(cacheKey);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.selection;
+    }
+
+    const fallback: EngineSelection = {
+      engineType: configured || SCRAPER_ENGINES.BEAUTIFUL_SOUP,
+      reason: configured ? 'institution_config' : 'default',
+      escalated: false
+    };
+
+    let selection = fallback;
+    try {
+      // The probe is a real request, so it follows robots.txt too; the engine records disallowed URLs
+      const robots = await this.robotsPolicy.check(job.url, job.robotsOverride);
+      if (!robots.allowed) {
+        return fallback;
+      }
+      await this.robotsPolicy.waitForTurn(job.url, robots);
+
+      const probe = await this.probe(job.url, job.config?.selectors || {});
+      selection = probe.requiresJavaScript
+        ? { engineType: SCRAPER_ENGINES.SELENIUM, reason: 'render_probe', escalated: true, probe }
+        : { ...fallback, probe };
+    } catch (error) {
+      // A failed probe says nothing about rendering; let the configured engine surface the error
+      logger.warn('Render probe failed, using configured engine', {
+        jobId: job.id,
+        url: job.url,
+        error: (error as Error).message
+      });
+      return fallback;
+    }
+
+    this.decisionCache.set(cacheKey, {
+      selection,
+      expiresAt: Date.now() + ENGINE_SELECTION.DECISION_TTL
+    });
+
+    logger.info('Engine selected for job', {
+      jobId: job.id,
+      engineType: selection.engineType,
+      reason: selection.reason,
+      spaMarkers: selection.probe?.spaMarkers
+    });
+
+    return selection;
+  }
+
+  /**
+   * Records that a static engine returned no data for the job and escalates to Selenium
+   */
+  public escalate(job: ScraperJob): EngineSelection {
+    const selection: EngineSelection = {
+      engineType: SCRAPER_ENGINES.SELENIUM,
+      reason: 'empty_result',
+      escalated: true
+    };
+
+    this.decisionCache.set(this.getCacheKey(job), {
+      selection,
+      expiresAt: Date.now() + ENGINE_SELECTION.DECISION_TTL
+    });
+
+    return selection;
+  }
+
+  /**
+   * Fetches the page without executing scripts and inspects the markup
+   */
+  public async probe(url: string, selectors: Record<string, string>): Promise<RenderProbeResult> {
+    const response = await this.httpClient.get<string>(url, { responseType: 'text' });
+    return this.analyzeHtml(String(response.data || ''), selectors);
+  }
+
+  /**
+   * Decides whether statically served markup needs a browser to render its content.
+   * Empty selector matches alone may indicate selector drift, so they only trigger
+   * escalation together with SPA markers or an essentially empty document body.
+   */
+  public analyzeHtml(html: string, selectors: Record<string, string>): RenderProbeResult {
+    const $ = cheerio.load(html);
+
+    const matchedSelectors: string[] = [];
+    const emptySelectors: string[] = [];
+    for (const [field, selector] of Object.entries(selectors)) {
+      try {
+        ($(selector).length > 0 ? matchedSelectors : emptySelectors).push(field);
+      } catch {
+        emptySelectors.push(field);
+      }
+    }
+
+    const spaMarkers = Object.entries(ENGINE_SELECTION.SPA_MARKERS)
+      .filter(([, pattern]) => pattern.test(html))
+      .map(([name]) => name);
+
+    const scriptCount = $('script').length;
+    $('script, style, noscript, template').remove();
+    const textLength = $('body').text().replace(/\s+/g, ' ').trim().length;
+
+    const hasSelectors = Object.keys(selectors).length > 0;
+    const selectorsMissing = hasSelectors && matchedSelectors.length === 0;
+    const thinContent = textLength < ENGINE_SELECTION.MIN_TEXT_LENGTH;
+
+    const requiresJavaScript =
+      (spaMarkers.length > 0 && (selectorsMissing || (!hasSelectors && thinContent))) ||
+      (selectorsMissing && thinContent && scriptCount > 0);
+
+    return {
+      requiresJavaScript,
+      matchedSelectors,
+      emptySelectors,
+      spaMarkers,
+      textLength,
+      scriptCount
+    };
+  }
+
+  /**
+   * Drops a cached decision, forcing the next job to re-probe
+   */
+  public invalidate(job: ScraperJob): void {
+    this.decisionCache.delete(this.getCacheKey(job));
+  }
+
+  /**
+   * Decisions are shared per institution, falling back to the URL host
+   */
+  private getCacheKey(job: ScraperJob): string {
+    if (job.institutionId) {
+      return `institution:${job.institutionId}`;
+    }
+    try {
+      return `host:${new URL(job.url).hostname}`;
+    } catch {
+      return `url:${job.url}`;
+    }
+  }
+}
+
+export default EngineSelector;
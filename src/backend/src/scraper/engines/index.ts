@@ -250,4 +250,7 @@ export class ScraperEngineFactory {
       this.engineMetrics.set(engineType, metrics);
     }
   }
-}
\ No newline at end of file
+}
+
+export { EngineSelector } from './engine.selector';
+export type { EngineSelection, EngineSelectionReason, RenderProbeResult } from './engine.selector';
@@ -16,7 +16,8 @@ import {
   RateLimitConfig,
   RateLimitMetrics,
   RateLimitStatus,
-  PerformanceMetrics
+  PerformanceMetrics,
+  ProxyAssignment
 } from '../../interfaces/scraper.interface';
 
 import {
@@ -27,6 +28,8 @@ import {
 } from '../../constants/scraper.constants';
 
 import { logger } from '../../utils/logger.util';
+import { RobotsPolicy, RobotsDisallowedError } from '../robots';
+import { ProxyPool } from '../proxy';
 
 /**
  * Interface for tracking rate limit metrics per institution
@@ -49,7 +52,9 @@ export class ScrapyEngine implements ScraperEngine {
 
   constructor(
     private readonly rateLimitConfig: RateLimitConfig,
-    private readonly scrapyInstance: typeof scrapy
+    private readonly scrapyInstance: typeof scrapy,
+    private readonly robotsPolicy: RobotsPolicy = RobotsPolicy.getInstance(),
+    private readonly proxyPool: ProxyPool = ProxyPool.getInstance()
   ) {
     this.rateLimitTracker = new Map();
     this.errorSubject = new Subject();
@@ -73,7 +78,7 @@ export class ScrapyEngine implements ScraperEngine {
       await this.scrapyInstance.settings.update({
         CONCURRENT_REQUESTS: this.rateLimitConfig.burstLimit,
         DOWNLOAD_DELAY: 1 / this.rateLimitConfig.requestsPerSecond,
-        ROBOTSTXT_OBEY: true,
+        ROBOTSTXT_OBEY: false, // enforced per job by RobotsPolicy so institution overrides apply
         USER_AGENT: 'TechTransfer-Bot/1.0 (+http://example.com/bot)',
         COOKIES_ENABLED: true,
         RETRY_ENABLED: true,
@@ -99,11 +104,12 @@ export class ScrapyEngine implements ScraperEngine {
       // Check rate limits before proceeding
       await this.checkRateLimits(job.institutionType);
 
-      // Create observable for scraping operation
-      const scrapeObservable = this.createScrapeObservable(job);
+      // Honor robots.txt rules and Crawl-delay for the target host
+      await this.robotsPolicy.enforce(job);
 
-      // Execute scraping with retry logic
-      const data = await this.executeScrapeWithRetry(scrapeObservable, job);
+      // Execute scraping with retry logic through the proxy assigned to the domain
+      const data = await this.proxyPool.withProxy(job.url, job.proxyRegion, assignment =>
+        this.executeScrapeWithRetry(this.createScrapeObservable(job, assignment), job));
 
       // Process and validate results
       const result = await this.processResults(data, job);
@@ -113,6 +119,10 @@ export class ScrapyEngine implements ScraperEngine {
 
       return result;
     } catch (error) {
+      if (error instanceof RobotsDisallowedError) {
+        throw error;
+      }
+
       const scrapingError = this.handleError(error as Error, job);
       throw scrapingError;
     }
@@ -149,12 +159,13 @@ export class ScrapyEngine implements ScraperEngine {
   /**
    * Creates an observable for the scraping operation
    */
-  private createScrapeObservable(job: ScraperJob): Observable<any> {
+  private createScrapeObservable(job: ScraperJob, assignment: ProxyAssignment | null): Observable<any> {
     return from(this.scrapyInstance.request({
       url: job.url,
       callback: this.parseResponse.bind(this),
       errback: this.handleRequestError.bind(this),
-      meta: { jobId: job.id }
+      // Scrapy's proxy middleware reads the proxy, credentials included, from the request meta
+      meta: { jobId: job.id, ...(assignment ? { proxy: assignment.proxy.url } : {}) }
     })).pipe(
       retryWhen(errors => 
         errors.pipe(
@@ -6,6 +6,7 @@
 
 import { Builder, By, until, WebDriver } from 'selenium-webdriver'; // v4.0.0
 import chrome from 'selenium-webdriver/chrome'; // v4.0.0
+import * as cheerio from 'cheerio'; // v1.0.0-rc.12
 import {
   ScraperEngine,
   ScraperJob,
@@ -14,7 +15,8 @@ import {
   RateLimitConfig,
   RateLimitStatus,
   PerformanceMetrics,
-  ValidationResults
+  ValidationResults,
+  ProxyAssignment
 } from '../../interfaces/scraper.interface';
 import {
   SCRAPER_ENGINES,
@@ -22,13 +24,16 @@ import {
   SCRAPER_RATE_LIMITS,
   RETRY_CONFIG
 } from '../../constants/scraper.constants';
+import { RobotsPolicy, RobotsDisallowedError } from '../robots';
+import { captureHtml, captureText } from '../snapshot';
+import { extractStructuredData, mergeFieldSources } from '../parsers';
+import { ProxyPool } from '../proxy';
 
 /**
  * Implements a Selenium-based scraping engine with comprehensive error handling
  * and rate limiting capabilities for 375+ institutions.
  */
 export class SeleniumEngine implements ScraperEngine {
-  private driver: WebDriver | null = null;
   private readonly type = SCRAPER_ENGINES.SELENIUM;
   private readonly connectionPool: Map<string, WebDriver> = new Map();
   private readonly institutionConfigs: Map<string, RateLimitConfig> = new Map();
@@ -38,7 +43,11 @@ export class SeleniumEngine implements ScraperEngine {
     cooldownUntil: number;
   }> = new Map();
 
-  constructor(config: Record<string, any>) {
+  constructor(
+    config: Record<string, any>,
+    private readonly robotsPolicy: RobotsPolicy = RobotsPolicy.getInstance(),
+    private readonly proxyPool: ProxyPool = ProxyPool.getInstance()
+  ) {
     this.initializeRateLimiters();
     this.setupMemoryMonitoring();
   }
@@ -70,13 +79,22 @@ export class SeleniumEngine implements ScraperEngine {
       if (used.heapUsed > 1024 * 1024 * 512) { // 512MB threshold
         this.cleanupIdleConnections();
       }
-    }, 60000); // Check every minute
+    }, 60000).unref(); // Check every minute without keeping the process alive
   }
 
   /**
-   * Initializes the Selenium WebDriver with optimized configuration
+   * Browsers are launched per job once its proxy is assigned, so there is nothing to
+   * start up front
    */
   public async initialize(): Promise<void> {
+    return;
+  }
+
+  /**
+   * Launches a browser with optimized configuration, sending its traffic through the
+   * assigned proxy if there is one
+   */
+  private async launchDriver(assignment: ProxyAssignment | null): Promise<WebDriver> {
     const options = new chrome.Options()
       .headless()
       .addArguments('--no-sandbox')
@@ -86,17 +104,21 @@ export class SeleniumEngine implements ScraperEngine {
       .setUserPreferences({
         'profile.managed_default_content_settings.images': 2
       });
+    if (assignment) {
+      options.addArguments(ProxyPool.browserProxyArgument(assignment));
+    }
 
-    this.driver = await new Builder()
+    const driver = await new Builder()
       .forBrowser('chrome')
       .setChromeOptions(options)
       .build();
 
-    await this.driver.manage().setTimeouts({
+    await driver.manage().setTimeouts({
       implicit: 10000,
       pageLoad: 30000,
       script: 30000
     });
+    return driver;
   }
 
   /**
@@ -108,7 +130,10 @@ export class SeleniumEngine implements ScraperEngine {
 
     try {
       await this.handleRateLimit(job.institutionType);
-      driver = await this.getOrCreateDriver(job.id);
+      await this.robotsPolicy.enforce(job);
+      if (!this.proxyPool.supportsBrowsers) {
+        throw new Error('Selenium cannot authenticate to proxies; PROXY_POOL entries must not carry credentials');
+      }
 
       const performanceMetrics: PerformanceMetrics = {
         startTime,
@@ -120,10 +145,25 @@ export class SeleniumEngine implements ScraperEngine {
         cpuUsage: 0
       };
 
-      await driver.get(job.url);
-      await this.waitForPageLoad(driver);
+      // Launch the browser through the assigned proxy; the page load is the outcome recorded for it
+      driver = await this.proxyPool.withProxy(job.url, job.proxyRegion, async assignment => {
+        const assigned = await this.getOrCreateDriver(job.id, assignment);
+        await assigned.get(job.url);
+        await this.waitForPageLoad(assigned);
+        return assigned;
+      });
 
-      const data = await this.extractData(driver, job.config.selectors);
+      const selectorData = await this.extractData(driver, job.config.selectors);
+      const rawPage = captureHtml(await driver.getPageSource());
+
+      // Fill fields the selectors missed from the rendered page's structured data
+      const data = job.config.structuredData?.enabled === false
+        ? selectorData
+        : mergeFieldSources(
+          selectorData,
+          extractStructuredData(cheerio.load(captureText(rawPage))).fields,
+          job.config.structuredData
+        ).data;
       const validationResults = await this.validateData(data, job.validationRules);
 
       performanceMetrics.endTime = new Date();
@@ -138,10 +178,15 @@ export class SeleniumEngine implements ScraperEngine {
         success: true,
         rateLimitMetrics: this.getRateLimitMetrics(job.institutionType),
         performanceMetrics,
-        validationResults
+        validationResults,
+        rawPage
       };
 
     } catch (error) {
+      if (error instanceof RobotsDisallowedError) {
+        throw error;
+      }
+
       const scraperError = this.handleError(error, job);
       if (scraperError.type === ERROR_TYPES.RATE_LIMITED) {
         await this.handleRateLimit(job.institutionType);
@@ -253,12 +298,13 @@ export class SeleniumEngine implements ScraperEngine {
   /**
    * Additional private helper methods...
    */
-  private async getOrCreateDriver(jobId: string): Promise<WebDriver> {
-    if (!this.connectionPool.has(jobId)) {
-      await this.initialize();
-      this.connectionPool.set(jobId, this.driver!);
+  private async getOrCreateDriver(jobId: string, assignment: ProxyAssignment | null): Promise<WebDriver> {
+    // A browser is bound to the proxy it was launched with
+    const key = `${jobId}:${assignment?.proxy.id ?? 'direct'}`;
+    if (!this.connectionPool.has(key)) {
+      this.connectionPool.set(key, await this.launchDriver(assignment));
     }
-    return this.connectionPool.get(jobId)!;
+    return this.connectionPool.get(key)!;
   }
 
   private async waitForPageLoad(driver: WebDriver): Promise<void> {
@@ -315,6 +361,23 @@ export class SeleniumEngine implements ScraperEngine {
         'Review data requirements',
         'Update validation rules',
         'Check data transformation logic'
+      ],
+      [ERROR_TYPES.ROBOTS_DISALLOWED]: [
+        'Confirm the path is excluded in robots.txt',
+        'Request permission from the institution',
+        'Record an approved robots.txt override for the institution'
+      ],
+      [ERROR_TYPES.QUEUE_REJECTED]: [
+        'Check the worker logs for the rejection cause',
+        'Replay the job from the dead-letter queue'
+      ],
+      [ERROR_TYPES.CONTENT_ERROR]: [
+        'Confirm the page still lists the expected content',
+        'Update selector patterns'
+      ],
+      [ERROR_TYPES.SECURITY_ERROR]: [
+        'Inspect the document for embedded scripts or links',
+        'Skip the document if it cannot be verified'
       ]
     };
     return suggestions[errorType] || ['Contact system administrator'];
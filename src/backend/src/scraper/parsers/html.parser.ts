@@ -1,13 +1,16 @@
 /**
  * @fileoverview Advanced HTML parser implementation for extracting structured data from web pages
- * using CSS selectors. Provides comprehensive validation, error handling, and performance monitoring
- * for HTML content parsing across 375+ institutions.
+ * using CSS selectors and embedded JSON-LD, microdata and OpenGraph. Provides comprehensive
+ * validation, error handling, and performance monitoring for HTML content parsing across
+ * 375+ institutions.
  * @version 1.0.0
  */
 
 import * as cheerio from 'cheerio'; // v1.0.0-rc.12
+import { AnyNode } from 'domhandler'; // v5.0.3
 import { ERROR_TYPES } from '../../constants/scraper.constants';
-import { ScraperError } from '../../interfaces/scraper.interface';
+import { ParsingError, FieldSource, StructuredDataOptions } from '../../interfaces/scraper.interface';
+import { extractStructuredData, mergeFieldSources } from './structured.data';
 
 /**
  * Enhanced configuration options for HTML parser with institution-specific settings
@@ -19,6 +22,7 @@ export interface HTMLParserOptions {
   maxRetries?: number;
   institutionSpecificRules?: Record<string, any>;
   collectMetrics?: boolean;
+  structuredData?: StructuredDataOptions;
 }
 
 /**
@@ -26,13 +30,14 @@ export interface HTMLParserOptions {
  */
 export interface ParsedHTMLResult {
   data: Record<string, string | string[]>;
+  sources: Record<string, FieldSource>;
   success: boolean;
-  errors: ScraperError[];
+  errors: ParsingError[];
   metrics: Record<string, number>;
   validationResults: {
     invalidSelectors: string[];
     emptyResults: string[];
-    validationErrors: ScraperError[];
+    validationErrors: ParsingError[];
   };
 }
 
@@ -44,8 +49,8 @@ export class HTMLParser {
   private readonly selectors: Record<string, string>;
   private readonly validateSelectors: boolean;
   private readonly throwOnError: boolean;
-  private readonly maxRetries: number;
   private readonly institutionRules: Record<string, any>;
+  private readonly structuredData: StructuredDataOptions;
   private readonly metrics: Record<string, number>;
 
   /**
@@ -57,8 +62,8 @@ export class HTMLParser {
     this.selectors = options.selectors;
     this.validateSelectors = options.validateSelectors ?? true;
     this.throwOnError = options.throwOnError ?? false;
-    this.maxRetries = options.maxRetries ?? 3;
     this.institutionRules = options.institutionSpecificRules ?? {};
+    this.structuredData = options.structuredData ?? {};
     this.metrics = {
       parseStartTime: 0,
       parseEndTime: 0,
@@ -76,9 +81,10 @@ export class HTMLParser {
    */
   public async parse(html: string): Promise<ParsedHTMLResult> {
     this.metrics.parseStartTime = Date.now();
-    const errors: ScraperError[] = [];
+    const errors: ParsingError[] = [];
     const result: ParsedHTMLResult = {
       data: {},
+      sources: {},
       success: false,
       errors: [],
       metrics: {},
@@ -96,11 +102,7 @@ export class HTMLParser {
       }
 
       // Load HTML content into cheerio
-      const $ = cheerio.load(html, {
-        decodeEntities: true,
-        xmlMode: false,
-        lowerCaseTags: true,
-      });
+      const $ = cheerio.load(html);
 
       // Validate selectors if enabled
       if (this.validateSelectors) {
@@ -130,19 +132,30 @@ export class HTMLParser {
           this.metrics.failedExtractions++;
           errors.push(this.createError(
             ERROR_TYPES.PARSE_ERROR,
-            `Failed to extract ${key}: ${error.message}`,
+            `Failed to extract ${key}: ${(error as Error).message}`,
             { selector, key }
           ));
         }
       }
 
+      // Fill fields from embedded JSON-LD, microdata and OpenGraph by source precedence
+      if (this.structuredData.enabled !== false) {
+        const structured = extractStructuredData($);
+        structured.errors.forEach(message => result.validationResults.validationErrors.push(
+          this.createError(ERROR_TYPES.PARSE_ERROR, message)
+        ));
+        Object.assign(result, mergeFieldSources(result.data, structured.fields, this.structuredData));
+      } else {
+        result.sources = Object.fromEntries(Object.keys(result.data).map(key => [key, 'selectors']));
+      }
+
       // Update success status
       result.success = this.metrics.failedExtractions === 0;
 
     } catch (error) {
       errors.push(this.createError(
         ERROR_TYPES.PARSE_ERROR,
-        `HTML parsing failed: ${error.message}`
+        `HTML parsing failed: ${(error as Error).message}`
       ));
     } finally {
       // Finalize metrics
@@ -150,7 +163,9 @@ export class HTMLParser {
       result.metrics = {
         ...this.metrics,
         totalDuration: this.metrics.parseEndTime - this.metrics.parseStartTime,
-        successRate: (this.metrics.successfulExtractions / this.metrics.totalElements) * 100,
+        successRate: this.metrics.totalElements > 0
+          ? (this.metrics.successfulExtractions / this.metrics.totalElements) * 100
+          : 100,
       };
       result.errors = errors;
     }
@@ -163,8 +178,8 @@ export class HTMLParser {
    * @param $ Cheerio instance
    * @returns Array of validation errors
    */
-  private validateSelectorsWithCheerio($: cheerio.CheerioAPI): ScraperError[] {
-    const errors: ScraperError[] = [];
+  private validateSelectorsWithCheerio($: cheerio.CheerioAPI): ParsingError[] {
+    const errors: ParsingError[] = [];
 
     for (const [key, selector] of Object.entries(this.selectors)) {
       try {
@@ -202,7 +217,7 @@ export class HTMLParser {
       } catch (error) {
         errors.push(this.createError(
           ERROR_TYPES.VALIDATION_ERROR,
-          `Selector validation failed for ${key}: ${error.message}`,
+          `Selector validation failed for ${key}: ${(error as Error).message}`,
           { selector }
         ));
       }
@@ -220,7 +235,7 @@ export class HTMLParser {
    */
   private applyInstitutionRules(
     key: string,
-    elements: cheerio.Cheerio,
+    elements: cheerio.Cheerio<AnyNode>,
     $: cheerio.CheerioAPI
   ): string | string[] {
     const rules = this.institutionRules[key];
@@ -252,8 +267,8 @@ export class HTMLParser {
       throw new Error('Selectors configuration is required');
     }
 
-    if (Object.keys(options.selectors).length === 0) {
-      throw new Error('At least one selector must be specified');
+    if (Object.keys(options.selectors).length === 0 && options.structuredData?.enabled === false) {
+      throw new Error('At least one selector must be specified when structured data is disabled');
     }
   }
 
@@ -268,7 +283,7 @@ export class HTMLParser {
     type: ERROR_TYPES,
     message: string,
     context: Record<string, any> = {}
-  ): ScraperError {
+  ): ParsingError {
     return {
       type,
       message,
@@ -7,8 +7,30 @@
 
 import { HTMLParser, HTMLParserOptions, ParsedHTMLResult } from './html.parser';
 import PDFParser, { PDFParserOptions, ParsedPDFResult } from './pdf.parser';
+import {
+    extractStructuredData,
+    mergeFieldSources,
+    hasFieldValue,
+    STRUCTURED_FIELDS,
+    StructuredField,
+    StructuredFields,
+    StructuredDataResult,
+    MergedFields
+} from './structured.data';
+import {
+    analyzeDocument,
+    readTextLines,
+    readPlainLines,
+    toTechnologyData,
+    PDFStructure,
+    PDFSection,
+    PDFSectionKey,
+    PDFContact,
+    PDFTable,
+    PDFTextLine
+} from './pdf.structure';
 import { ERROR_TYPES } from '../../constants/scraper.constants';
-import { ScraperError } from '../../interfaces/scraper.interface';
+import { ParsingError, ScraperError } from '../../interfaces/scraper.interface';
 
 /**
  * Enum defining supported parser types
@@ -56,7 +78,7 @@ export class ParserError extends Error {
  */
 export function getParser(
     type: ParserType,
-    options: HTMLParserOptions | PDFParserOptions & BaseParserOptions
+    options: (HTMLParserOptions | PDFParserOptions) & BaseParserOptions
 ): HTMLParser | PDFParser {
     try {
         validateParserOptions(type, options);
@@ -79,7 +101,7 @@ export function getParser(
         }
         throw new ParserError(
             ERROR_TYPES.VALIDATION_ERROR,
-            `Parser initialization failed: ${error.message}`,
+            `Parser initialization failed: ${(error as Error).message}`,
             { type, options }
         );
     }
@@ -93,7 +115,7 @@ export function getParser(
  */
 function validateParserOptions(
     type: ParserType,
-    options: HTMLParserOptions | PDFParserOptions & BaseParserOptions
+    options: (HTMLParserOptions | PDFParserOptions) & BaseParserOptions
 ): void {
     if (!options || typeof options !== 'object') {
         throw new ParserError(
@@ -145,10 +167,10 @@ function validateHTMLOptions(options: HTMLParserOptions): void {
         );
     }
 
-    if (Object.keys(options.selectors).length === 0) {
+    if (Object.keys(options.selectors).length === 0 && options.structuredData?.enabled === false) {
         throw new ParserError(
             ERROR_TYPES.VALIDATION_ERROR,
-            'At least one selector must be specified',
+            'At least one selector must be specified when structured data is disabled',
             { selectors: options.selectors }
         );
     }
@@ -204,5 +226,24 @@ export {
     PDFParser,
     PDFParserOptions,
     ParsedPDFResult,
-    ScraperError
+    ScraperError,
+    ParsingError,
+    extractStructuredData,
+    mergeFieldSources,
+    hasFieldValue,
+    STRUCTURED_FIELDS,
+    StructuredField,
+    StructuredFields,
+    StructuredDataResult,
+    MergedFields,
+    analyzeDocument,
+    readTextLines,
+    readPlainLines,
+    toTechnologyData,
+    PDFStructure,
+    PDFSection,
+    PDFSectionKey,
+    PDFContact,
+    PDFTable,
+    PDFTextLine
 };
\ No newline at end of file
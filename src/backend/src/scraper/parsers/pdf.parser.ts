@@ -5,16 +5,17 @@
  */
 
 import { ERROR_TYPES } from '../../constants/scraper.constants';
-import { ScraperError } from '../../interfaces/scraper.interface';
-import * as pdfParse from 'pdf-parse'; // v1.1.1
-import * as PDF2Json from 'pdf2json'; // v2.0.1
-import { ReadableStream } from 'memory-streams'; // v0.1.3
+import { ParsingError } from '../../interfaces/scraper.interface';
+import pdfParse from 'pdf-parse'; // v1.1.1
+import PDF2Json from 'pdf2json'; // v2.0.1
+import { PDFStructure, analyzeDocument, readTextLines, readPlainLines } from './pdf.structure';
 
 /**
  * Interface for PDF parser configuration options
  */
 export interface PDFParserOptions {
     extractMetadata: boolean;
+    extractStructure: boolean;
     throwOnError: boolean;
     pageRange?: string[];
     timeout: number;
@@ -45,7 +46,7 @@ interface PDFMetrics {
  */
 interface PDFValidation {
     isValid: boolean;
-    errors: ScraperError[];
+    errors: ParsingError[];
     warnings: string[];
     securityChecks: {
         isEncrypted: boolean;
@@ -75,9 +76,10 @@ export interface PDFMetadata {
  */
 export interface ParsedPDFResult {
     text: string;
-    metadata: PDFMetadata;
+    metadata: PDFMetadata | null;
+    structure: PDFStructure | null;
     success: boolean;
-    errors: ScraperError[];
+    errors: ParsingError[];
     metrics: PDFMetrics;
     validation: PDFValidation;
 }
@@ -93,6 +95,7 @@ export class PDFParser {
     constructor(options: Partial<PDFParserOptions> = {}) {
         this.options = {
             extractMetadata: true,
+            extractStructure: true,
             throwOnError: false,
             timeout: 30000,
             maxFileSize: 50 * 1024 * 1024, // 50MB
@@ -143,32 +146,31 @@ export class PDFParser {
                 );
             }
 
-            // Initialize streaming if enabled
-            const dataStream = this.options.enableStreaming
-                ? new ReadableStream(pdfBuffer)
-                : null;
-
-            // Perform security checks
-            await this.performSecurityChecks(pdfBuffer);
+            // Perform security checks, keeping the layout for structure extraction
+            const layout = await this.performSecurityChecks(pdfBuffer);
 
             // Parse PDF content
             const parseOptions = {
                 pagerender: this.options.pageRange ? this.createPageRenderer() : undefined,
-                max: this.options.securityOptions.maxPages,
-                timeout: this.options.timeout
+                max: this.options.securityOptions.maxPages
             };
 
-            const pdfData = await pdfParse(dataStream || pdfBuffer, parseOptions);
+            const pdfData = await pdfParse(pdfBuffer, parseOptions);
             
             // Extract metadata if enabled
             const metadata = this.options.extractMetadata
                 ? await this.extractMetadata(pdfBuffer)
                 : null;
 
+            // Segment sections, patents, contacts and tables, from plain text if the layout has none
+            const structure = this.options.extractStructure
+                ? this.extractStructure(layout, pdfData.text)
+                : null;
+
             this.metrics.pageCount = pdfData.numpages;
             this.validation.isValid = true;
 
-            return this.createResult(pdfData.text, metadata);
+            return this.createResult(pdfData.text, metadata, structure);
 
         } catch (error) {
             const scraperError = this.handleError(error);
@@ -193,7 +195,7 @@ export class PDFParser {
                     title: pdfData.info.Title || '',
                     author: pdfData.info.Author || '',
                     subject: pdfData.info.Subject || '',
-                    keywords: (pdfData.info.Keywords || '').split(',').map(k => k.trim()),
+                    keywords: (pdfData.info.Keywords || '').split(',').map((k: string) => k.trim()),
                     creationDate: new Date(pdfData.info.CreationDate),
                     modificationDate: new Date(pdfData.info.ModDate),
                     pageCount: pdfData.pages.length,
@@ -215,10 +217,19 @@ export class PDFParser {
         });
     }
 
+    /**
+     * Extract sections, patent numbers, contacts and tables from the page layout
+     */
+    private extractStructure(layout: any, text: string): PDFStructure {
+        const lines = readTextLines(layout);
+        return analyzeDocument(lines.length > 0 ? lines : readPlainLines(text));
+    }
+
     /**
      * Perform security checks on PDF content
+     * @returns The pdf2json document, reused for structure extraction
      */
-    private async performSecurityChecks(pdfBuffer: Buffer): Promise<void> {
+    private async performSecurityChecks(pdfBuffer: Buffer): Promise<any> {
         const pdfParser = new PDF2Json();
         
         return new Promise((resolve, reject) => {
@@ -245,7 +256,14 @@ export class PDFParser {
                     ));
                 }
 
-                resolve();
+                resolve(pdfData);
+            });
+
+            pdfParser.on('pdfParser_dataError', (error: Error) => {
+                reject(this.createError(
+                    ERROR_TYPES.PARSE_ERROR,
+                    `Security check failed: ${error.message}`
+                ));
             });
 
             pdfParser.parseBuffer(pdfBuffer);
@@ -279,7 +297,7 @@ export class PDFParser {
     /**
      * Detect JavaScript content in PDF
      */
-    private detectJavaScript(pdfData: any): boolean {
+    private detectJavaScript(_pdfData: any): boolean {
         // Implementation of JavaScript detection in PDF
         return false; // Simplified for example
     }
@@ -287,7 +305,7 @@ export class PDFParser {
     /**
      * Detect external links in PDF
      */
-    private detectExternalLinks(pdfData: any): boolean {
+    private detectExternalLinks(_pdfData: any): boolean {
         // Implementation of external link detection in PDF
         return false; // Simplified for example
     }
@@ -295,11 +313,11 @@ export class PDFParser {
     /**
      * Create standardized error object
      */
-    private createError(type: ERROR_TYPES, message: string): ScraperError {
+    private createError(type: ERROR_TYPES, message: string): ParsingError {
         return {
             type,
             message,
-            details: {
+            context: {
                 timestamp: new Date(),
                 metrics: this.metrics,
                 validation: this.validation
@@ -310,7 +328,7 @@ export class PDFParser {
     /**
      * Handle and standardize errors
      */
-    private handleError(error: any): ScraperError {
+    private handleError(error: any): ParsingError {
         if (error.type && Object.values(ERROR_TYPES).includes(error.type)) {
             return error;
         }
@@ -323,10 +341,11 @@ export class PDFParser {
     /**
      * Create successful result object
      */
-    private createResult(text: string, metadata?: PDFMetadata): ParsedPDFResult {
+    private createResult(text: string, metadata: PDFMetadata | null = null, structure: PDFStructure | null = null): ParsedPDFResult {
         return {
             text,
             metadata,
+            structure,
             success: true,
             errors: [],
             metrics: this.metrics,
@@ -337,10 +356,11 @@ export class PDFParser {
     /**
      * Create error result object
      */
-    private createErrorResult(error: ScraperError): ParsedPDFResult {
+    private createErrorResult(error: ParsingError): ParsedPDFResult {
         return {
             text: '',
             metadata: null,
+            structure: null,
             success: false,
             errors: [error],
             metrics: this.metrics,
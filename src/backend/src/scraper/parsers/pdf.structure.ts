@@ -0,0 +1,483 @@
+/**
+ * @fileoverview Structure extraction for technology one-pager PDFs. Rebuilds text lines from
+ * pdf2json coordinates, splits them into sections by heading detection, and pulls out patent
+ * numbers, licensing contacts and simple tables so a one-pager populates technology fields
+ * and metadata rather than a single blob of text.
+ * @version 1.0.0
+ */
+
+import { PDF_STRUCTURE } from '../../constants/scraper.constants';
+import { findPatentNumbers } from '../../utils/patent.util';
+import { findContacts, splitPersonNames } from '../../utils/people.util';
+
+/**
+ * Canonical section of a one-pager, or 'other' for unrecognized headings and the preamble
+ */
+export type PDFSectionKey = keyof typeof PDF_STRUCTURE.SECTION_HEADINGS | 'other';
+
+/**
+ * Run of text sharing a table column, positioned in pdf2json page units
+ */
+export interface PDFTextCell {
+    x: number;
+    text: string;
+}
+
+/**
+ * One visual line of a page with the font properties used for heading detection
+ */
+export interface PDFTextLine {
+    page: number;
+    y: number;
+    text: string;
+    fontSize: number;
+    bold: boolean;
+    cells: PDFTextCell[];
+}
+
+/**
+ * Section of a one-pager with its body text
+ */
+export interface PDFSection {
+    heading: string;
+    key: PDFSectionKey;
+    page: number;
+    text: string;
+}
+
+/**
+ * Licensing contact found next to an email address
+ */
+export interface PDFContact {
+    name: string | null;
+    email: string;
+    phone: string | null;
+}
+
+/**
+ * Table rebuilt from column-aligned lines, with the first row as headers
+ */
+export interface PDFTable {
+    page: number;
+    headers: string[];
+    rows: string[][];
+}
+
+/**
+ * Structured content of a one-pager
+ */
+export interface PDFStructure {
+    title: string | null;
+    sections: PDFSection[];
+    patentNumbers: string[];
+    contacts: PDFContact[];
+    tables: PDFTable[];
+}
+
+const BULLET_PATTERN = /^[•▪◦‣·*\-–]\s*/;
+
+/**
+ * Rebuilds text lines from a pdf2json document. Runs within LINE_TOLERANCE vertically share
+ * a line, and runs separated by more than CELL_GAP horizontally start a new cell.
+ */
+export function readTextLines(pdfData: any): PDFTextLine[] {
+    const pages: any[] = pdfData?.Pages || pdfData?.formImage?.Pages || pdfData?.pages || [];
+    const lines: PDFTextLine[] = [];
+
+    pages.forEach((page, pageIndex) => {
+        const runs = (page?.Texts || [])
+            .map((entry: any) => readRun(entry))
+            .filter((run: TextRun | null): run is TextRun => run !== null)
+            .sort((a: TextRun, b: TextRun) => a.y - b.y || a.x - b.x);
+
+        const pageLines: TextRun[][] = [];
+        for (const run of runs) {
+            const line = pageLines[pageLines.length - 1];
+            if (line && Math.abs(line[0].y - run.y) <= PDF_STRUCTURE.LINE_TOLERANCE) {
+                line.push(run);
+            } else {
+                pageLines.push([run]);
+            }
+        }
+
+        for (const lineRuns of pageLines) {
+            lines.push(buildLine(pageIndex + 1, lineRuns.sort((a, b) => a.x - b.x)));
+        }
+    });
+
+    return lines.filter(line => line.text !== '');
+}
+
+/**
+ * Builds lines from plain extracted text when no pdf2json layout is available. Tabs and
+ * runs of three or more spaces separate cells, whose x is their ordinal column.
+ */
+export function readPlainLines(text: string): PDFTextLine[] {
+    const lines: PDFTextLine[] = [];
+
+    text.split('\f').forEach((pageText, pageIndex) => {
+        pageText.split(/\r?\n/).forEach((raw, lineIndex) => {
+            const cells = raw
+                .split(/\t+| {3,}/)
+                .map(cell => cleanText(cell))
+                .filter(Boolean)
+                .map((cell, column) => ({ x: column, text: cell }));
+            if (cells.length > 0) {
+                lines.push({
+                    page: pageIndex + 1,
+                    y: lineIndex,
+                    text: cells.map(cell => cell.text).join(' '),
+                    fontSize: 0,
+                    bold: false,
+                    cells
+                });
+            }
+        });
+    });
+
+    return lines;
+}
+
+/**
+ * Segments lines into a title and sections, and extracts patent numbers, contacts and tables
+ */
+export function analyzeDocument(lines: PDFTextLine[]): PDFStructure {
+    const bodySize = mostCommon(lines.map(line => line.fontSize).filter(size => size > 0));
+    const titleLines = findTitleLines(lines, bodySize);
+    const sections: PDFSection[] = [];
+    let current: { section: PDFSection; lines: string[] } | null = null;
+
+    const open = (heading: string, key: PDFSectionKey, page: number, firstLine?: string): void => {
+        current = { section: { heading, key, page, text: '' }, lines: firstLine ? [firstLine] : [] };
+        sections.push(current.section);
+    };
+
+    lines.forEach((line, index) => {
+        if (titleLines.has(index)) {
+            return;
+        }
+
+        const heading = detectHeading(line, bodySize);
+        if (heading) {
+            open(heading.heading, heading.key, line.page, heading.rest);
+        } else {
+            if (!current) {
+                open('', 'other', line.page);
+            }
+            current!.lines.push(line.text);
+        }
+        current!.section.text = joinParagraph(current!.lines);
+    });
+
+    // Only the IP section lists the technology's own patents; other sections cite prior art
+    const ipText = sections.filter(section => section.key === 'ipStatus').map(section => section.text).join('\n');
+
+    return {
+        title: titleLines.size > 0
+            ? cleanText([...titleLines].sort((a, b) => a - b).map(index => lines[index].text).join(' '))
+            : null,
+        sections: sections.filter(section => section.text !== '' || section.key !== 'other'),
+        patentNumbers: findPatentNumbers(ipText),
+        contacts: extractContacts(lines, sections),
+        tables: extractTables(lines)
+    };
+}
+
+/**
+ * Maps a one-pager's structure onto technology fields. Section text, patents, contacts and
+ * tables go into metadata; title, description and inventors become fields when found.
+ * @param structure Structure extracted from the document
+ * @param fallbackTitle Title to use when the document has no distinct title line
+ */
+export function toTechnologyData(structure: PDFStructure, fallbackTitle = ''): Record<string, any> {
+    const sectionText = (key: PDFSectionKey): string =>
+        structure.sections.filter(section => section.key === key).map(section => section.text).join('\n').trim();
+
+    const descriptionKeys = PDF_STRUCTURE.DESCRIPTION_SECTIONS as readonly PDFSectionKey[];
+    const description = descriptionKeys.map(sectionText).find(Boolean) || '';
+    const inventors = splitPersonNames(sectionText('inventors'));
+
+    const data: Record<string, any> = {
+        title: structure.title || fallbackTitle,
+        description,
+        metadata: {
+            sections: Object.fromEntries(
+                structure.sections
+                    .filter(section => section.key !== 'other' && section.text !== '')
+                    .map(section => [section.key, sectionText(section.key)])
+            ),
+            patentNumbers: structure.patentNumbers,
+            contacts: structure.contacts,
+            tables: structure.tables
+        }
+    };
+
+    if (inventors.length > 0) {
+        data.inventors = inventors;
+    }
+    if (structure.patentNumbers.length > 0) {
+        data.patentNumbers = structure.patentNumbers;
+    }
+
+    return data;
+}
+
+interface TextRun {
+    x: number;
+    y: number;
+    width: number;
+    text: string;
+    fontSize: number;
+    bold: boolean;
+}
+
+/**
+ * Reads a pdf2json text entry. Widths reported by pdf2json are unreliable, so run width
+ * is estimated from the character count and font size.
+ */
+function readRun(entry: any): TextRun | null {
+    const runs: any[] = entry?.R || [];
+    const text = runs.map(run => decodeText(run?.T)).join('');
+    if (typeof entry?.x !== 'number' || typeof entry?.y !== 'number' || text.trim() === '') {
+        return null;
+    }
+
+    const style: any[] = runs[0]?.TS || [];
+    const fontSize = typeof style[1] === 'number' ? style[1] : 0;
+
+    return {
+        x: entry.x,
+        y: entry.y,
+        width: text.length * (fontSize || 12) * PDF_STRUCTURE.CHAR_WIDTH_EM / PDF_STRUCTURE.POINTS_PER_UNIT,
+        text,
+        fontSize,
+        bold: style[2] === 1
+    };
+}
+
+function buildLine(page: number, runs: TextRun[]): PDFTextLine {
+    const cells: PDFTextCell[] = [];
+    let cellEnd = -Infinity;
+
+    for (const run of runs) {
+        const cell = cells[cells.length - 1];
+        if (cell && run.x - cellEnd <= PDF_STRUCTURE.CELL_GAP) {
+            cell.text += run.x - cellEnd > 0.05 && !/\s$/.test(cell.text) ? ` ${run.text}` : run.text;
+        } else {
+            cells.push({ x: run.x, text: run.text });
+        }
+        cellEnd = Math.max(cellEnd, run.x + run.width);
+    }
+
+    const cleaned = cells
+        .map(cell => ({ x: cell.x, text: cleanText(cell.text) }))
+        .filter(cell => cell.text !== '');
+
+    return {
+        page,
+        y: runs[0].y,
+        text: cleaned.map(cell => cell.text).join(' '),
+        fontSize: Math.max(...runs.map(run => run.fontSize)),
+        bold: runs.every(run => run.bold),
+        cells: cleaned
+    };
+}
+
+/**
+ * Title lines: the largest text on the first page above the first heading, continued over
+ * following lines of the same size. Without font sizes, the first line that is not a heading.
+ */
+function findTitleLines(lines: PDFTextLine[], bodySize: number): Set<number> {
+    const firstPage = lines
+        .map((line, index) => ({ line, index }))
+        .filter(({ line }) => line.page === 1);
+    const headingIndex = firstPage.findIndex(({ line }) => line.cells.length === 1 && matchHeadingPhrase(line.text) !== null);
+    const candidates = headingIndex === -1 ? firstPage : firstPage.slice(0, headingIndex);
+
+    if (candidates.length === 0) {
+        return new Set();
+    }
+
+    if (bodySize === 0) {
+        return new Set([candidates[0].index]);
+    }
+
+    const largest = Math.max(...candidates.map(({ line }) => line.fontSize));
+    if (largest <= bodySize) {
+        return new Set();
+    }
+
+    const start = candidates.findIndex(({ line }) => line.fontSize === largest);
+    const title = new Set<number>();
+    for (let i = start; i < candidates.length && candidates[i].line.fontSize === largest; i++) {
+        title.add(candidates[i].index);
+    }
+    return title;
+}
+
+/**
+ * Recognizes a heading by its wording, including "Heading: text" lead-ins, or by being a
+ * short bold or enlarged line without closing punctuation
+ */
+function detectHeading(
+    line: PDFTextLine,
+    bodySize: number
+): { heading: string; key: PDFSectionKey; rest?: string } | null {
+    // Table rows such as "Patent | Status" read like headings once joined
+    if (line.cells.length > 1) {
+        return null;
+    }
+
+    const key = matchHeadingPhrase(line.text);
+    if (key) {
+        return { heading: line.text.replace(/[:\s]+$/, ''), key };
+    }
+
+    const leadIn = line.text.match(/^([^:]{2,60}):\s*(.+)$/);
+    const leadKey = leadIn ? matchHeadingPhrase(leadIn[1]) : null;
+    if (leadIn && leadKey) {
+        return { heading: leadIn[1].trim(), key: leadKey, rest: leadIn[2] };
+    }
+
+    const words = line.text.split(/\s+/).length;
+    const emphasized = line.bold || (bodySize > 0 && line.fontSize >= bodySize * PDF_STRUCTURE.HEADING_SIZE_RATIO);
+    if (
+        emphasized &&
+        bodySize > 0 &&
+        words <= PDF_STRUCTURE.MAX_HEADING_WORDS &&
+        /[A-Za-z]/.test(line.text) &&
+        !/[.,;]$/.test(line.text) &&
+        !BULLET_PATTERN.test(line.text)
+    ) {
+        return { heading: line.text.replace(/[:\s]+$/, ''), key: 'other' };
+    }
+
+    return null;
+}
+
+function matchHeadingPhrase(text: string): Exclude<PDFSectionKey, 'other'> | null {
+    const normalized = text.toLowerCase().replace(/[^a-z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+    if (normalized === '') {
+        return null;
+    }
+
+    for (const [key, phrases] of Object.entries(PDF_STRUCTURE.SECTION_HEADINGS)) {
+        if ((phrases as readonly string[]).includes(normalized)) {
+            return key as Exclude<PDFSectionKey, 'other'>;
+        }
+    }
+    return null;
+}
+
+/**
+ * Contacts anchored on email addresses, with those named in the contact section first
+ */
+function extractContacts(lines: PDFTextLine[], sections: PDFSection[]): PDFContact[] {
+    const contacts = findContacts(lines.map(line => line.text), text => matchHeadingPhrase(text) !== null);
+
+    const contactText = sections.filter(section => section.key === 'contact').map(section => section.text).join(' ');
+    return contacts.sort((a, b) =>
+        Number(contactText.includes(b.email)) - Number(contactText.includes(a.email)));
+}
+
+/**
+ * Tables from runs of consecutive multi-cell lines whose cells line up with the first
+ * line's columns
+ */
+function extractTables(lines: PDFTextLine[]): PDFTable[] {
+    const tables: PDFTable[] = [];
+    let index = 0;
+
+    while (index < lines.length) {
+        const header = lines[index];
+        if (header.cells.length < 2) {
+            index++;
+            continue;
+        }
+
+        const columns = header.cells.map(cell => cell.x);
+        const rows: string[][] = [];
+        let next = index + 1;
+
+        while (next < lines.length && lines[next].page === header.page && lines[next].cells.length >= 2) {
+            const row = alignRow(lines[next].cells, columns);
+            if (!row) {
+                break;
+            }
+            rows.push(row);
+            next++;
+        }
+
+        if (rows.length + 1 >= PDF_STRUCTURE.MIN_TABLE_ROWS) {
+            tables.push({ page: header.page, headers: header.cells.map(cell => cell.text), rows });
+            index = next;
+        } else {
+            index++;
+        }
+    }
+
+    return tables;
+}
+
+function alignRow(cells: PDFTextCell[], columns: number[]): string[] | null {
+    const row = columns.map(() => '');
+
+    for (const cell of cells) {
+        const column = columns.findIndex(x => Math.abs(x - cell.x) <= PDF_STRUCTURE.COLUMN_TOLERANCE);
+        if (column === -1) {
+            return null;
+        }
+        row[column] = row[column] ? `${row[column]} ${cell.text}` : cell.text;
+    }
+
+    return row;
+}
+
+/**
+ * Joins wrapped lines into paragraphs, keeping bulleted items on their own lines
+ */
+function joinParagraph(lines: string[]): string {
+    return lines
+        .reduce<string[]>((paragraphs, line) => {
+            if (paragraphs.length === 0 || BULLET_PATTERN.test(line)) {
+                paragraphs.push(line);
+            } else if (/-$/.test(paragraphs[paragraphs.length - 1])) {
+                paragraphs[paragraphs.length - 1] = paragraphs[paragraphs.length - 1].slice(0, -1) + line;
+            } else {
+                paragraphs[paragraphs.length - 1] += ` ${line}`;
+            }
+            return paragraphs;
+        }, [])
+        .map(cleanText)
+        .join('\n')
+        .trim();
+}
+
+function decodeText(value: unknown): string {
+    if (typeof value !== 'string') {
+        return '';
+    }
+    try {
+        return decodeURIComponent(value);
+    } catch {
+        return value;
+    }
+}
+
+function mostCommon(values: number[]): number {
+    const counts = new Map<number, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+    let best = 0;
+    let bestCount = 0;
+    counts.forEach((count, value) => {
+        if (count > bestCount) {
+            best = value;
+            bestCount = count;
+        }
+    });
+    return best;
+}
+
+function cleanText(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+}
\ No newline at end of file
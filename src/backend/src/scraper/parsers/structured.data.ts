@@ -0,0 +1,353 @@
+/**
+ * @fileoverview Reads technology fields from schema.org JSON-LD, microdata and OpenGraph
+ * blocks embedded in a page, and merges them with selector output by source precedence.
+ * Platforms such as Inteum, Wellspring and Flintbox describe each technology this way, so
+ * their pages parse without any selector configuration.
+ * @version 1.0.0
+ */
+
+import * as cheerio from 'cheerio'; // v1.0.0-rc.12
+import {
+  FieldSource,
+  StructuredDataSource,
+  StructuredDataOptions
+} from '../../interfaces/scraper.interface';
+import { STRUCTURED_DATA } from '../../constants/scraper.constants';
+
+/**
+ * Technology fields mapped from structured data
+ */
+export const STRUCTURED_FIELDS = ['title', 'description', 'inventors', 'patentNumbers', 'categories'] as const;
+
+export type StructuredField = typeof STRUCTURED_FIELDS[number];
+
+/**
+ * Field values found in one structured-data format
+ */
+export type StructuredFields = Partial<Record<StructuredField, string | string[]>>;
+
+/**
+ * Fields found in each structured-data format on a page
+ */
+export interface StructuredDataResult {
+  fields: Record<StructuredDataSource, StructuredFields>;
+  errors: string[];
+}
+
+/**
+ * Field values picked across sources, with the source each value came from
+ */
+export interface MergedFields {
+  data: Record<string, string | string[]>;
+  sources: Record<string, FieldSource>;
+}
+
+/**
+ * Identifiers that look like patent or application numbers, e.g. "US 10,123,456 B2"
+ */
+const PATENT_NUMBER_PATTERN = /^(US|EP|WO|JP|CN|KR|DE|GB|FR|CA|AU|PCT)[\s/-]?[\d,./-]{5,}/i;
+
+/**
+ * Extracts technology fields from every structured-data format on the page
+ */
+export function extractStructuredData($: cheerio.CheerioAPI): StructuredDataResult {
+  const errors: string[] = [];
+
+  const jsonLdNodes: Record<string, any>[] = [];
+  $('script[type="application/ld+json"]').each((index, script) => {
+    try {
+      collectNodes(JSON.parse($(script).contents().text()), jsonLdNodes);
+    } catch (error) {
+      errors.push(`Invalid JSON-LD block ${index + 1}: ${(error as Error).message}`);
+    }
+  });
+
+  const microdataNodes = $('[itemscope]')
+    .filter((_, element) => $(element).attr('itemprop') === undefined)
+    .map((_, element) => readMicrodataItem($, element))
+    .get() as Record<string, any>[];
+
+  return {
+    fields: {
+      jsonLd: mapSchemaNode(selectTechnologyNode(jsonLdNodes)),
+      microdata: mapSchemaNode(selectTechnologyNode(microdataNodes.flatMap(node => collectNodes(node, [])))),
+      openGraph: readOpenGraph($)
+    },
+    errors
+  };
+}
+
+/**
+ * Picks each field's value from the first source in precedence order that has one
+ * @param selectorData Fields extracted with CSS selectors
+ * @param structured Fields found in each structured-data format
+ * @param options Source precedence, overall and per field
+ */
+export function mergeFieldSources(
+  selectorData: Record<string, any>,
+  structured: Record<StructuredDataSource, StructuredFields>,
+  options: StructuredDataOptions = {}
+): MergedFields {
+  const sources: Partial<Record<FieldSource, Record<string, any>>> = { selectors: selectorData, ...structured };
+  const precedence = options.precedence || (STRUCTURED_DATA.DEFAULT_PRECEDENCE as readonly FieldSource[]);
+  const fields = new Set(Object.values(sources).flatMap(values => Object.keys(values || {})));
+  const merged: MergedFields = { data: {}, sources: {} };
+
+  for (const field of fields) {
+    const order = options.fieldPrecedence?.[field] || precedence;
+    const source = order.find(candidate => hasFieldValue(sources[candidate]?.[field]));
+    if (source) {
+      merged.data[field] = sources[source]![field];
+      merged.sources[field] = source;
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Whether a field value carries any content
+ */
+export function hasFieldValue(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.some(item => hasFieldValue(item));
+  }
+  return typeof value === 'string' ? value.trim() !== '' : value !== null && value !== undefined;
+}
+
+/**
+ * Flattens a JSON-LD document into its nodes, following @graph and mainEntity
+ */
+function collectNodes(value: unknown, nodes: Record<string, any>[]): Record<string, any>[] {
+  if (Array.isArray(value)) {
+    value.forEach(item => collectNodes(item, nodes));
+  } else if (value && typeof value === 'object') {
+    const node = value as Record<string, any>;
+    nodes.push(node);
+    collectNodes(node['@graph'], nodes);
+    collectNodes(node.mainEntity, nodes);
+  }
+  return nodes;
+}
+
+/**
+ * Picks the node describing the technology: the first titled node of a specific type,
+ * else the first titled page node
+ */
+function selectTechnologyNode(nodes: Record<string, any>[]): Record<string, any> | null {
+  const ignored: readonly string[] = STRUCTURED_DATA.IGNORED_TYPES;
+  const pageTypes: readonly string[] = STRUCTURED_DATA.PAGE_TYPES;
+
+  const candidates = nodes.filter(node => {
+    const types = typesOf(node);
+    return firstText(node.name, node.headline) !== '' &&
+      (types.length === 0 || types.some(type => !ignored.includes(type)));
+  });
+
+  return candidates.find(node => !typesOf(node).some(type => pageTypes.includes(type))) ||
+    candidates[0] ||
+    null;
+}
+
+/**
+ * Maps a schema.org node onto technology fields
+ */
+function mapSchemaNode(node: Record<string, any> | null): StructuredFields {
+  if (!node) {
+    return {};
+  }
+
+  const fields: StructuredFields = {
+    title: firstText(node.name, node.headline, node.alternateName),
+    description: firstText(node.description, node.abstract, node.disambiguatingDescription),
+    inventors: unique([node.inventor, node.creator, node.author].flatMap(names)),
+    patentNumbers: unique(patentNumbers(node)),
+    categories: unique([
+      ...names(node.category),
+      ...keywords(node.keywords),
+      ...names(node.about),
+      ...names(node.genre)
+    ])
+  };
+
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => hasFieldValue(value))
+  ) as StructuredFields;
+}
+
+/**
+ * Reads the OpenGraph title, description and article tags
+ */
+function readOpenGraph($: cheerio.CheerioAPI): StructuredFields {
+  const content = (property: string): string[] =>
+    $(`meta[property="${property}"], meta[name="${property}"]`)
+      .map((_, meta) => cleanText($(meta).attr('content') || ''))
+      .get()
+      .filter((value: string) => value !== '');
+
+  const fields: StructuredFields = {
+    title: content('og:title')[0] || '',
+    description: content('og:description')[0] || '',
+    categories: unique([...content('article:section'), ...content('article:tag')])
+  };
+
+  return Object.fromEntries(
+    Object.entries(fields).filter(([, value]) => hasFieldValue(value))
+  ) as StructuredFields;
+}
+
+/**
+ * Reads a microdata item into a JSON-LD shaped node. Properties of nested items belong
+ * to the nested item, not to this one.
+ */
+function readMicrodataItem($: cheerio.CheerioAPI, element: any): Record<string, any> {
+  const item: Record<string, any> = {
+    '@type': ($(element).attr('itemtype') || '')
+      .split(/\s+/)
+      .filter(Boolean)
+  };
+
+  $(element).find('[itemprop]').each((_, property) => {
+    if ($(property).parent().closest('[itemscope]').get(0) !== element) {
+      return;
+    }
+
+    const value = $(property).attr('itemscope') !== undefined
+      ? readMicrodataItem($, property)
+      : microdataValue($, property);
+
+    for (const name of ($(property).attr('itemprop') || '').split(/\s+/).filter(Boolean)) {
+      item[name] = item[name] === undefined ? value : ([] as unknown[]).concat(item[name], value);
+    }
+  });
+
+  return item;
+}
+
+/**
+ * Reads a microdata property value from the attribute its element carries it in
+ */
+function microdataValue($: cheerio.CheerioAPI, element: any): string {
+  const node = $(element);
+  const tag = (element.tagName || element.name || '').toLowerCase();
+
+  switch (tag) {
+    case 'meta':
+      return cleanText(node.attr('content') || '');
+    case 'a':
+    case 'link':
+    case 'area':
+      return node.attr('href') || '';
+    case 'img':
+    case 'audio':
+    case 'video':
+    case 'source':
+    case 'iframe':
+    case 'embed':
+      return node.attr('src') || '';
+    case 'object':
+      return node.attr('data') || '';
+    case 'time':
+      return node.attr('datetime') || cleanText(node.text());
+    case 'data':
+    case 'meter':
+      return node.attr('value') || cleanText(node.text());
+    default:
+      return cleanText(node.text());
+  }
+}
+
+/**
+ * Patent numbers from explicit patent properties, patent-like identifiers and cited patents
+ */
+function patentNumbers(node: Record<string, any>): string[] {
+  const numbers = [node.patentNumber, node.patent].flatMap(texts);
+
+  for (const identifier of asArray(node.identifier).concat(asArray(node.additionalProperty))) {
+    if (identifier && typeof identifier === 'object') {
+      const label = `${identifier.propertyID || ''} ${identifier.name || ''}`;
+      if (/patent/i.test(label)) {
+        numbers.push(...texts(identifier.value));
+      }
+    } else {
+      numbers.push(...texts(identifier).filter(value => PATENT_NUMBER_PATTERN.test(value)));
+    }
+  }
+
+  for (const cited of asArray(node.isBasedOn).concat(asArray(node.citation))) {
+    if (cited && typeof cited === 'object' && typesOf(cited).includes('Patent')) {
+      numbers.push(firstText(cited.identifier, cited.name));
+    }
+  }
+
+  return numbers.filter(Boolean);
+}
+
+/**
+ * Person or thing names from strings, named nodes, or given and family names
+ */
+function names(value: unknown): string[] {
+  return asArray(value).map(item => {
+    if (item && typeof item === 'object') {
+      const node = item as Record<string, any>;
+      return firstText(node.name) ||
+        cleanText([firstText(node.givenName), firstText(node.familyName)].join(' '));
+    }
+    return firstText(item);
+  }).filter(Boolean);
+}
+
+/**
+ * Keywords given as an array or a comma-separated string
+ */
+function keywords(value: unknown): string[] {
+  return asArray(value).flatMap(item =>
+    typeof item === 'string' ? item.split(',').map(cleanText) : names(item)
+  ).filter(Boolean);
+}
+
+/**
+ * First non-empty text among the values, reading language-tagged @value objects
+ */
+function firstText(...values: unknown[]): string {
+  for (const value of values) {
+    const [text] = texts(value);
+    if (text) {
+      return text;
+    }
+  }
+  return '';
+}
+
+function texts(value: unknown): string[] {
+  return asArray(value).map(item => {
+    if (typeof item === 'string' || typeof item === 'number') {
+      return cleanText(String(item));
+    }
+    if (item && typeof item === 'object' && '@value' in item) {
+      return cleanText(String((item as Record<string, unknown>)['@value']));
+    }
+    return '';
+  }).filter(Boolean);
+}
+
+function typesOf(node: Record<string, any>): string[] {
+  return asArray(node['@type'])
+    .filter((type): type is string => typeof type === 'string')
+    .map(type => type.replace(/\/+$/, '').split(/[/#:]/).pop() as string);
+}
+
+function asArray(value: unknown): any[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+function unique(values: string[]): string[] {
+  return [...new Set(values)];
+}
+
+function cleanText(text: string): string {
+  return text.replace(/<\/?[a-z][^>]*>/gi, ' ').replace(/\s+/g, ' ').trim();
+}
\ No newline at end of file
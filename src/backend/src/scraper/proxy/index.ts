@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Entry point for the proxy pool shared by scraper workers.
+ * @version 1.0.0
+ */
+
+export { ProxyPool } from './proxy.pool';
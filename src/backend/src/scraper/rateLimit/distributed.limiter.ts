@@ -0,0 +1,342 @@
+/**
+ * @fileoverview Redis-backed rate limiter shared by every scraper worker so limits hold per
+ * target domain across replicas. Token-bucket, leaky-bucket and fixed-window strategies run
+ * as atomic Lua scripts against Redis time, and a shared cooldown backs all workers off a
+ * domain that answered 429.
+ * @version 1.0.0
+ */
+
+import { RedisService } from '../../lib/cache/redis.service';
+import {
+  ScraperJob,
+  RateLimitConfig,
+  RateLimitStatus,
+  RateLimitStrategy,
+  InstitutionRateLimit
+} from '../../interfaces/scraper.interface';
+import { SCRAPER_RATE_LIMITS, DISTRIBUTED_RATE_LIMIT } from '../../constants/scraper.constants';
+import { logger } from '../../utils/logger.util';
+
+/**
+ * Outcome of asking the limiter for a request permit
+ */
+export interface RateLimitDecision extends RateLimitStatus {
+  key: string;
+  strategy: RateLimitStrategy;
+  waitMs: number; // delay before the request may be sent, or until a permit frees up when limited
+}
+
+/**
+ * Shared prelude: reads Redis time, limiter arguments and any active cooldown.
+ * KEYS[1] holds strategy state, KEYS[2] the cooldown marker.
+ * ARGV: requests per second, burst capacity, state TTL in seconds, '1' to consume a permit.
+ * Every script replies {allowed, remaining, waitMs, resetMs, currentBurst, inCooldown}.
+ */
+const PRELUDE = `
+if redis.replicate_commands then redis.replicate_commands() end
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local rate = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+local ttl = tonumber(ARGV[3])
+local consume = ARGV[4] == '1'
+local cooldown = redis.call('PTTL', KEYS[2])
+if cooldown < 0 then cooldown = 0 end
+local inCooldown = 0
+if cooldown > 0 then inCooldown = 1 end
+`;
+
+/**
+ * Tokens refill continuously at the request rate up to the burst capacity
+ */
+const TOKEN_BUCKET = `${PRELUDE}
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(state[1]) or capacity
+local ts = tonumber(state[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * rate / 1000)
+
+local allowed = 0
+local wait = 0
+if cooldown > 0 then
+  wait = cooldown
+elseif tokens >= 1 then
+  allowed = 1
+  if consume then tokens = tokens - 1 end
+else
+  wait = math.ceil((1 - tokens) * 1000 / rate)
+end
+
+if consume then
+  redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', now)
+  redis.call('EXPIRE', KEYS[1], ttl)
+end
+
+local reset = math.max(cooldown, math.ceil((capacity - tokens) * 1000 / rate))
+return {allowed, math.floor(tokens), wait, reset, capacity - math.floor(tokens), inCooldown}
+`;
+
+/**
+ * Requests queue in a bucket of the burst capacity and leave it at a constant rate, so
+ * granted requests are spaced evenly and may be told to wait for their slot
+ */
+const LEAKY_BUCKET = `${PRELUDE}
+local interval = 1000 / rate
+local nextFree = tonumber(redis.call('GET', KEYS[1])) or now
+if nextFree < now then nextFree = now end
+local level = (nextFree - now) / interval
+
+local allowed = 0
+local wait = 0
+if cooldown > 0 then
+  wait = cooldown
+elseif level + 1 <= capacity then
+  allowed = 1
+  wait = nextFree - now
+  if consume then
+    nextFree = nextFree + interval
+    level = level + 1
+    redis.call('SET', KEYS[1], tostring(nextFree), 'EX', ttl)
+  end
+else
+  wait = (level + 1 - capacity) * interval
+end
+
+local reset = math.max(cooldown, math.ceil(nextFree - now))
+return {allowed, math.floor(capacity - level), math.ceil(wait), reset, math.ceil(level), inCooldown}
+`;
+
+/**
+ * Counts requests in aligned windows sized so the burst capacity matches the average rate
+ */
+const FIXED_WINDOW = `${PRELUDE}
+local window = math.ceil(capacity * 1000 / rate)
+local windowStart = now - (now % window)
+local state = redis.call('HMGET', KEYS[1], 'start', 'count')
+local count = 0
+if tonumber(state[1]) == windowStart then count = tonumber(state[2]) or 0 end
+local remainingWindow = windowStart + window - now
+
+local allowed = 0
+local wait = 0
+if cooldown > 0 then
+  wait = cooldown
+elseif count < capacity then
+  allowed = 1
+  if consume then
+    count = count + 1
+    redis.call('HSET', KEYS[1], 'start', windowStart, 'count', count)
+    redis.call('PEXPIRE', KEYS[1], remainingWindow)
+  end
+else
+  wait = remainingWindow
+end
+
+return {allowed, capacity - count, wait, math.max(cooldown, remainingWindow), count, inCooldown}
+`;
+
+const SCRIPTS: Record<RateLimitStrategy, string> = {
+  'token-bucket': TOKEN_BUCKET,
+  'leaky-bucket': LEAKY_BUCKET,
+  'fixed-window': FIXED_WINDOW
+};
+
+/**
+ * Distributed rate limiter keyed by target domain, shared by engines, adapters and the crawler
+ */
+export class DistributedRateLimiter {
+  private static instance: DistributedRateLimiter | null = null;
+
+  constructor(
+    private readonly redisService: RedisService,
+    private readonly defaultStrategy: RateLimitStrategy = DISTRIBUTED_RATE_LIMIT.DEFAULT_STRATEGY
+  ) {}
+
+  /**
+   * Returns the process-wide limiter backed by the shared Redis connection
+   */
+  public static getInstance(): DistributedRateLimiter {
+    if (!DistributedRateLimiter.instance) {
+      DistributedRateLimiter.instance = new DistributedRateLimiter(RedisService.getInstance({
+        host: process.env.REDIS_HOST || 'localhost',
+        port: parseInt(process.env.REDIS_PORT || '6379', 10),
+        password: process.env.REDIS_PASSWORD,
+        ttl: 3600,
+        cluster: process.env.REDIS_CLUSTER_ENABLED === 'true'
+      }));
+    }
+    return DistributedRateLimiter.instance;
+  }
+
+  /**
+   * Builds the limiter key for a request. Limits are shared per domain so institutions
+   * hosted on the same site draw from one budget; unparseable URLs fall back to the institution.
+   * @param url URL about to be requested
+   * @param institutionId Institution issuing the request
+   * @returns Limiter key
+   */
+  public static keyFor(url: string, institutionId?: string): string {
+    try {
+      return `domain:${new URL(url).hostname.toLowerCase()}`;
+    } catch {
+      return institutionId ? `institution:${institutionId}` : `url:${url}`;
+    }
+  }
+
+  /**
+   * Resolves the limits for a job: the job's own rate limit (set from the institution),
+   * then an engine override for the institution type, then the institution type defaults
+   * @param job Job issuing requests
+   * @param config Engine rate limit configuration
+   * @returns Limits including the configured strategy
+   */
+  public static resolveLimits(job: ScraperJob, config?: RateLimitConfig): InstitutionRateLimit {
+    const jobLimits = (job.rateLimitConfig?.requestsPerSecond ?? 0) > 0 ? job.rateLimitConfig : undefined;
+    const base: InstitutionRateLimit = jobLimits
+      || config?.institutionOverrides?.[job.institutionType]
+      || SCRAPER_RATE_LIMITS[job.institutionType as keyof typeof SCRAPER_RATE_LIMITS]
+      || SCRAPER_RATE_LIMITS.DEFAULT;
+
+    return {
+      requestsPerSecond: base.requestsPerSecond,
+      burstLimit: base.burstLimit,
+      cooldownPeriod: base.cooldownPeriod,
+      strategy: base.strategy || job.rateLimitConfig?.rateLimitingStrategy || config?.rateLimitingStrategy
+    };
+  }
+
+  /**
+   * Takes a permit if one is available without waiting
+   * @param key Limiter key from keyFor
+   * @param limits Limits to enforce
+   * @returns Decision; isLimited is false when a permit was taken
+   */
+  public async acquire(key: string, limits: InstitutionRateLimit): Promise<RateLimitDecision> {
+    return this.run(key, limits, true);
+  }
+
+  /**
+   * Waits for a permit, sleeping until the limiter expects one to free up. Gives up once
+   * the next permit lies beyond maxWait and returns the limited decision.
+   * @param key Limiter key from keyFor
+   * @param limits Limits to enforce
+   * @param maxWait Longest time to wait in milliseconds
+   * @returns Decision for the permit that was taken, or the last limited decision
+   */
+  public async waitForPermit(
+    key: string,
+    limits: InstitutionRateLimit,
+    maxWait: number = DISTRIBUTED_RATE_LIMIT.MAX_WAIT
+  ): Promise<RateLimitDecision> {
+    const deadline = Date.now() + maxWait;
+
+    for (;;) {
+      const decision = await this.acquire(key, limits);
+      if (!decision.isLimited) {
+        if (decision.waitMs > 0) {
+          await this.sleep(decision.waitMs);
+        }
+        return decision;
+      }
+
+      const retryAt = Date.now() + Math.max(decision.waitMs, 1);
+      if (retryAt > deadline) {
+        return decision;
+      }
+      await this.sleep(retryAt - Date.now());
+    }
+  }
+
+  /**
+   * Reads the current limiter state without taking a permit
+   * @param key Limiter key from keyFor
+   * @param limits Limits to report against
+   * @returns Live rate limit status
+   */
+  public async getStatus(key: string, limits: InstitutionRateLimit): Promise<RateLimitDecision> {
+    return this.run(key, limits, false);
+  }
+
+  /**
+   * Puts a key into cooldown for every worker, typically after the site answered 429
+   * @param key Limiter key from keyFor
+   * @param seconds Cooldown length
+   */
+  public async penalize(key: string, seconds: number): Promise<void> {
+    logger.warn('Rate limit cooldown started', { key, seconds });
+    await this.redisService.set(this.cooldownKey(key), Date.now() + seconds * 1000, Math.max(1, Math.ceil(seconds)));
+  }
+
+  /**
+   * Drops limiter state and any cooldown for a key
+   */
+  public async reset(key: string): Promise<void> {
+    await Promise.all([
+      this.redisService.delete(this.stateKey(key)),
+      this.redisService.delete(this.cooldownKey(key))
+    ]);
+  }
+
+  /**
+   * Runs the strategy script. Redis failures fail open so an outage does not halt scraping,
+   * falling back to the per-process throttling each engine already applies.
+   */
+  private async run(key: string, limits: InstitutionRateLimit, consume: boolean): Promise<RateLimitDecision> {
+    const strategy = limits.strategy || this.defaultStrategy;
+    const rate = Math.max(limits.requestsPerSecond, 0.001);
+    const capacity = Math.max(1, Math.floor(limits.burstLimit));
+
+    try {
+      const reply = await this.redisService.eval<Array<number | string>>(
+        SCRIPTS[strategy],
+        [this.stateKey(key), this.cooldownKey(key)],
+        [rate, capacity, DISTRIBUTED_RATE_LIMIT.STATE_TTL, consume ? '1' : '0']
+      );
+      const [allowed, remaining, waitMs, resetMs, currentBurst, inCooldown] = reply.map(Number);
+
+      return {
+        key,
+        strategy,
+        isLimited: allowed !== 1,
+        remainingRequests: Math.max(0, remaining),
+        resetTime: new Date(Date.now() + resetMs),
+        currentBurst,
+        inCooldown: inCooldown === 1,
+        waitMs: Math.max(0, waitMs)
+      };
+    } catch (error) {
+      logger.warn('Distributed rate limiter unavailable, allowing request', {
+        key,
+        strategy,
+        error: (error as Error).message
+      });
+
+      return {
+        key,
+        strategy,
+        isLimited: false,
+        remainingRequests: capacity,
+        resetTime: new Date(),
+        currentBurst: 0,
+        inCooldown: false,
+        waitMs: 0
+      };
+    }
+  }
+
+  /**
+   * Hash-tagged so both keys of a limiter land in the same cluster slot
+   */
+  private stateKey(key: string): string {
+    return `${DISTRIBUTED_RATE_LIMIT.KEY_PREFIX}{${key}}`;
+  }
+
+  private cooldownKey(key: string): string {
+    return `${DISTRIBUTED_RATE_LIMIT.KEY_PREFIX}{${key}}:cooldown`;
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise(resolve => setTimeout(resolve, ms));
+  }
+}
+
+export default DistributedRateLimiter;
\ No newline at end of file
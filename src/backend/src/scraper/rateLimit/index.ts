@@ -0,0 +1,7 @@
+/**
+ * @fileoverview Entry point for the distributed rate limiter shared by scraper workers.
+ * @version 1.0.0
+ */
+
+export { DistributedRateLimiter } from './distributed.limiter';
+export type { RateLimitDecision } from './distributed.limiter';
\ No newline at end of file
@@ -0,0 +1,8 @@
+/**
+ * @fileoverview Entry point for robots.txt parsing and compliance shared by scraper engines.
+ * @version 1.0.0
+ */
+
+export { RobotsPolicy, RobotsDisallowedError } from './robots.policy';
+export { parseRobotsTxt, matchRobotsRules } from './robots.parser';
+export type { RobotsRule, RobotsRuleSet, RobotsMatch } from './robots.parser';
\ No newline at end of file
@@ -0,0 +1,152 @@
+/**
+ * @fileoverview robots.txt parser following RFC 9309 group and rule matching, including
+ * wildcard patterns and the non-standard Crawl-delay directive.
+ * @version 1.0.0
+ */
+
+/**
+ * Single allow or disallow rule from a robots.txt group
+ */
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+  pattern: RegExp;
+}
+
+/**
+ * Rules from robots.txt that apply to one user agent
+ */
+export interface RobotsRuleSet {
+  rules: RobotsRule[];
+  crawlDelay: number | null; // seconds
+}
+
+/**
+ * Outcome of matching a URL path against a rule set
+ */
+export interface RobotsMatch {
+  allowed: boolean;
+  rule?: string;
+}
+
+interface RobotsGroup {
+  userAgents: string[];
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+/**
+ * Parses robots.txt content and keeps the groups that apply to the user agent token.
+ * Groups naming the token take precedence over the wildcard group; when several groups
+ * match, their rules are combined.
+ * @param content Raw robots.txt body
+ * @param userAgentToken Product token of the crawler
+ * @returns Rules applying to the user agent
+ */
+export function parseRobotsTxt(content: string, userAgentToken: string): RobotsRuleSet {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let collectingAgents = false;
+
+  for (const rawLine of content.split(/\r\n|\r|\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 1) {
+      continue;
+    }
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === 'user-agent') {
+      if (!current || !collectingAgents) {
+        current = { userAgents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.userAgents.push(value.toLowerCase());
+      collectingAgents = true;
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+    collectingAgents = false;
+
+    if ((key === 'allow' || key === 'disallow') && value) {
+      current.rules.push({ allow: key === 'allow', path: value, pattern: compilePattern(value) });
+    } else if (key === 'crawl-delay') {
+      const delay = parseFloat(value);
+      if (Number.isFinite(delay) && delay >= 0) {
+        current.crawlDelay = Math.max(current.crawlDelay ?? 0, delay);
+      }
+    }
+  }
+
+  const token = userAgentToken.toLowerCase();
+  const named = groups.filter(group =>
+    group.userAgents.some(agent => agent !== '*' && token.startsWith(agent))
+  );
+  const applicable = named.length > 0
+    ? named
+    : groups.filter(group => group.userAgents.includes('*'));
+
+  const delays = applicable
+    .map(group => group.crawlDelay)
+    .filter((delay): delay is number => delay !== null);
+
+  return {
+    rules: applicable.flatMap(group => group.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : null
+  };
+}
+
+/**
+ * Matches a URL path (with query string) against the rule set. The longest matching
+ * rule wins and allow wins ties; paths no rule matches are allowed.
+ * @param ruleSet Parsed rules for the user agent
+ * @param path URL path and query
+ * @returns Whether the path may be fetched and the deciding rule
+ */
+export function matchRobotsRules(ruleSet: RobotsRuleSet, path: string): RobotsMatch {
+  if (path === '/robots.txt') {
+    return { allowed: true };
+  }
+
+  let best: RobotsRule | null = null;
+  for (const rule of ruleSet.rules) {
+    if (!rule.pattern.test(path)) {
+      continue;
+    }
+    if (
+      !best ||
+      rule.path.length > best.path.length ||
+      (rule.path.length === best.path.length && rule.allow && !best.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  if (!best) {
+    return { allowed: true };
+  }
+
+  return {
+    allowed: best.allow,
+    rule: `${best.allow ? 'Allow' : 'Disallow'}: ${best.path}`
+  };
+}
+
+/**
+ * Compiles a robots.txt path pattern, supporting `*` wildcards and a trailing `$` anchor
+ */
+function compilePattern(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const body = anchored ? path.slice(0, -1) : path;
+  const source = body
+    .split('*')
+    .map(part => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${source}${anchored ? '$' : ''}`);
+}
\ No newline at end of file
@@ -0,0 +1,267 @@
+/**
+ * @fileoverview Shared robots.txt compliance layer consulted by every scraper engine and the
+ * crawler before a request. Caches robots.txt per origin, spaces requests to honor
+ * Crawl-delay, applies per-institution overrides and records disallowed URLs.
+ * @version 1.0.0
+ */
+
+import axios, { AxiosInstance } from 'axios'; // v1.4.0
+
+import {
+  ScraperJob,
+  RobotsDecision,
+  RobotsOverride
+} from '../../interfaces/scraper.interface';
+import { ERROR_TYPES, ROBOTS_CONFIG } from '../../constants/scraper.constants';
+import { ScrapeLogRepository } from '../../db/repositories/scrapeLog.repository';
+import { parseRobotsTxt, matchRobotsRules, RobotsRuleSet } from './robots.parser';
+import { logger } from '../../utils/logger.util';
+
+/**
+ * Cached robots.txt state for one origin
+ */
+interface CachedRobots {
+  ruleSet: RobotsRuleSet | null; // null blocks the whole origin
+  blockedReason?: string;
+  expiresAt: number;
+}
+
+/**
+ * Thrown when robots.txt disallows a URL; never retried
+ */
+export class RobotsDisallowedError extends Error {
+  public readonly type = ERROR_TYPES.ROBOTS_DISALLOWED;
+
+  constructor(public readonly decision: RobotsDecision) {
+    super(`Disallowed by robots.txt: ${decision.url}${decision.rule ? ` (${decision.rule})` : ''}`);
+    this.name = 'RobotsDisallowedError';
+  }
+}
+
+/**
+ * robots.txt fetcher, cache and Crawl-delay scheduler shared across engines
+ */
+export class RobotsPolicy {
+  private static instance: RobotsPolicy | null = null;
+
+  private readonly httpClient: AxiosInstance;
+  private readonly cache = new Map<string, CachedRobots>();
+  private readonly pending = new Map<string, Promise<CachedRobots>>();
+  private readonly nextRequestAt = new Map<string, number>();
+
+  constructor(
+    private readonly scrapeLogRepository?: ScrapeLogRepository,
+    httpClient?: AxiosInstance,
+    private readonly userAgentToken: string = ROBOTS_CONFIG.USER_AGENT_TOKEN
+  ) {
+    this.httpClient = httpClient || axios.create({
+      timeout: ROBOTS_CONFIG.FETCH_TIMEOUT,
+      maxRedirects: 5,
+      maxContentLength: ROBOTS_CONFIG.MAX_SIZE,
+      responseType: 'text',
+      headers: {
+        'User-Agent': `${userAgentToken}/1.0`,
+        'Accept': 'text/plain'
+      }
+    });
+  }
+
+  /**
+   * Returns the process-wide policy so every engine shares one robots.txt cache
+   */
+  public static getInstance(): RobotsPolicy {
+    if (!RobotsPolicy.instance) {
+      RobotsPolicy.instance = new RobotsPolicy(new ScrapeLogRepository());
+    }
+    return RobotsPolicy.instance;
+  }
+
+  /**
+   * Decides whether a URL may be fetched without waiting or recording anything
+   * @param url URL about to be requested
+   * @param override Institution override, ignored once expired
+   * @returns robots.txt verdict and effective crawl delay
+   */
+  public async check(url: string, override?: RobotsOverride | null): Promise<RobotsDecision> {
+    const target = new URL(url);
+    const robotsUrl = `${target.origin}/robots.txt`;
+    const robots = await this.getRobots(target.origin);
+    const activeOverride = this.isOverrideActive(override) ? override : null;
+
+    const match = robots.ruleSet
+      ? matchRobotsRules(robots.ruleSet, `${target.pathname}${target.search}`)
+      : { allowed: false, rule: robots.blockedReason };
+    const ignoresDisallow = !match.allowed && Boolean(activeOverride?.ignoreDisallow);
+    const overrideDelay = activeOverride?.crawlDelay ?? null;
+
+    return {
+      url,
+      robotsUrl,
+      allowed: match.allowed || ignoresDisallow,
+      rule: match.rule,
+      crawlDelay: overrideDelay ?? robots.ruleSet?.crawlDelay ?? null,
+      overridden: ignoresDisallow || overrideDelay !== null
+    };
+  }
+
+  /**
+   * Checks a job's URL before a request. Disallowed URLs are recorded in the scrape log
+   * and rejected; allowed requests wait until the origin's Crawl-delay has elapsed.
+   * @param job Job issuing the request
+   * @param url URL about to be requested, defaults to the job URL
+   * @returns robots.txt verdict for the URL
+   * @throws RobotsDisallowedError when robots.txt disallows the URL
+   */
+  public async enforce(job: ScraperJob, url: string = job.url): Promise<RobotsDecision> {
+    const decision = await this.check(url, job.robotsOverride);
+
+    if (!decision.allowed) {
+      await this.recordDisallowed(job, decision);
+      throw new RobotsDisallowedError(decision);
+    }
+
+    if (decision.overridden) {
+      logger.info('robots.txt override applied', {
+        jobId: job.id,
+        institutionId: job.institutionId,
+        url,
+        rule: decision.rule,
+        crawlDelay: decision.crawlDelay
+      });
+    }
+
+    await this.waitForTurn(url, decision);
+    return decision;
+  }
+
+  /**
+   * Waits until the origin's Crawl-delay has elapsed since the previous request. Slots
+   * are reserved before waiting so concurrent requests to one origin queue up.
+   * @param url URL about to be requested
+   * @param decision Verdict carrying the effective crawl delay
+   */
+  public async waitForTurn(url: string, decision: RobotsDecision): Promise<void> {
+    if (!decision.crawlDelay) {
+      return;
+    }
+
+    const origin = new URL(url).origin;
+    const delayMs = Math.min(decision.crawlDelay, ROBOTS_CONFIG.MAX_CRAWL_DELAY) * 1000;
+    const now = Date.now();
+    const slot = Math.max(now, this.nextRequestAt.get(origin) ?? 0);
+    this.nextRequestAt.set(origin, slot + delayMs);
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now));
+    }
+  }
+
+  /**
+   * Drops cached robots.txt files and request slots
+   */
+  public clear(): void {
+    this.cache.clear();
+    this.pending.clear();
+    this.nextRequestAt.clear();
+  }
+
+  /**
+   * Returns the cached robots.txt for an origin, fetching it once when missing or expired
+   */
+  private async getRobots(origin: string): Promise<CachedRobots> {
+    const cached = this.cache.get(origin);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached;
+    }
+
+    let request = this.pending.get(origin);
+    if (!request) {
+      request = this.fetchRobots(origin, cached)
+        .finally(() => this.pending.delete(origin));
+      this.pending.set(origin, request);
+    }
+
+    const robots = await request;
+    this.cache.set(origin, robots);
+    return robots;
+  }
+
+  /**
+   * Fetches and parses robots.txt. A 4xx response means no restrictions; a 5xx or
+   * network failure blocks the origin for a short period unless a previous copy exists.
+   */
+  private async fetchRobots(origin: string, stale?: CachedRobots): Promise<CachedRobots> {
+    const robotsUrl = `${origin}/robots.txt`;
+
+    try {
+      const response = await this.httpClient.get<string>(robotsUrl, {
+        validateStatus: () => true
+      });
+
+      if (response.status >= 200 && response.status < 300) {
+        return {
+          ruleSet: parseRobotsTxt(String(response.data ?? ''), this.userAgentToken),
+          expiresAt: Date.now() + ROBOTS_CONFIG.CACHE_TTL
+        };
+      }
+
+      if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+        return {
+          ruleSet: { rules: [], crawlDelay: null },
+          expiresAt: Date.now() + ROBOTS_CONFIG.CACHE_TTL
+        };
+      }
+
+      return this.unreachable(robotsUrl, `robots.txt returned HTTP ${response.status}`, stale);
+    } catch (error) {
+      return this.unreachable(robotsUrl, `robots.txt unreachable: ${(error as Error).message}`, stale);
+    }
+  }
+
+  private unreachable(robotsUrl: string, reason: string, stale?: CachedRobots): CachedRobots {
+    logger.warn('Failed to fetch robots.txt', { robotsUrl, reason, usingStaleCopy: Boolean(stale?.ruleSet) });
+
+    return {
+      ruleSet: stale?.ruleSet ?? null,
+      blockedReason: stale?.ruleSet ? undefined : reason,
+      expiresAt: Date.now() + ROBOTS_CONFIG.ERROR_CACHE_TTL
+    };
+  }
+
+  private isOverrideActive(override?: RobotsOverride | null): override is RobotsOverride {
+    if (!override) {
+      return false;
+    }
+    return !override.expiresAt || new Date(override.expiresAt).getTime() > Date.now();
+  }
+
+  private async recordDisallowed(job: ScraperJob, decision: RobotsDecision): Promise<void> {
+    logger.warn('URL disallowed by robots.txt', {
+      jobId: job.id,
+      institutionId: job.institutionId,
+      url: decision.url,
+      rule: decision.rule
+    });
+
+    if (!this.scrapeLogRepository) {
+      return;
+    }
+
+    try {
+      await this.scrapeLogRepository.logDisallowed(decision, {
+        jobId: job.id,
+        institutionType: job.institutionType,
+        institutionId: job.institutionId,
+        userAgent: this.userAgentToken
+      });
+    } catch (error) {
+      logger.warn('Failed to record disallowed URL', {
+        jobId: job.id,
+        url: decision.url,
+        error: (error as Error).message
+      });
+    }
+  }
+}
+
+export default RobotsPolicy;
\ No newline at end of file
@@ -0,0 +1,6 @@
+/**
+ * @fileoverview Entry point for raw page capture helpers used by the snapshot archive.
+ * @version 1.0.0
+ */
+
+export { captureResponse, captureHtml, isPdfCapture, captureText } from './raw.page';
\ No newline at end of file
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Helpers for capturing fetched responses byte-for-byte so they can be archived
+ * and parsed again later without refetching the page.
+ * @version 1.0.0
+ */
+
+import { AxiosResponse } from 'axios'; // v1.4.0
+
+import { RawPageCapture } from '../../interfaces/scraper.interface';
+import { SNAPSHOT_ARCHIVE } from '../../constants/scraper.constants';
+
+const PDF_SIGNATURE = '%PDF-';
+
+/**
+ * Captures an axios response fetched with `responseType: 'arraybuffer'`. String bodies are
+ * accepted too, for clients that decode responses themselves.
+ */
+export function captureResponse(response: AxiosResponse): RawPageCapture {
+  const data = response.data;
+  const body = Buffer.isBuffer(data)
+    ? data
+    : data instanceof ArrayBuffer
+      ? Buffer.from(new Uint8Array(data))
+      : Buffer.from(String(data ?? ''), 'utf8');
+
+  const headers = normalizeHeaders(response.headers);
+  return {
+    body,
+    contentType: resolveContentType(headers['content-type'], body),
+    headers,
+    statusCode: response.status
+  };
+}
+
+/**
+ * Captures markup rendered by a browser, where the original response is not available
+ */
+export function captureHtml(html: string): RawPageCapture {
+  return {
+    body: Buffer.from(html, 'utf8'),
+    contentType: 'text/html',
+    headers: {}
+  };
+}
+
+/**
+ * Whether a captured body is a PDF, by declared type or file signature
+ */
+export function isPdfCapture(capture: Pick<RawPageCapture, 'body' | 'contentType'>): boolean {
+  return capture.contentType === 'application/pdf' ||
+    capture.body.subarray(0, PDF_SIGNATURE.length).toString('latin1') === PDF_SIGNATURE;
+}
+
+/**
+ * Decodes a captured body as text for HTML parsing
+ */
+export function captureText(capture: Pick<RawPageCapture, 'body'>): string {
+  return capture.body.toString('utf8');
+}
+
+/**
+ * Lower-cases header names, joins repeated values and drops credentials
+ */
+function normalizeHeaders(raw: unknown): Record<string, string> {
+  const source = raw && typeof (raw as { toJSON?: unknown }).toJSON === 'function'
+    ? (raw as { toJSON(): Record<string, unknown> }).toJSON()
+    : (raw as Record<string, unknown>) || {};
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(source)) {
+    const key = name.toLowerCase();
+    if (value === undefined || value === null || (SNAPSHOT_ARCHIVE.EXCLUDED_HEADERS as readonly string[]).includes(key)) {
+      continue;
+    }
+    headers[key] = Array.isArray(value) ? value.join(', ') : String(value);
+  }
+  return headers;
+}
+
+function resolveContentType(declared: string | undefined, body: Buffer): string {
+  const mimeType = (declared || '').split(';')[0].trim().toLowerCase();
+  if (mimeType) {
+    return mimeType;
+  }
+  return isPdfCapture({ body, contentType: '' }) ? 'application/pdf' : 'text/html';
+}
\ No newline at end of file
@@ -0,0 +1,44 @@
+/**
+ * @fileoverview Command line entry point for search index maintenance.
+ *
+ *   search:reindex           Rebuild the index and swap the alias onto it
+ *   search:check [--repair]  Report drift between the technologies table and the index,
+ *                            optionally queueing fixes; exits 1 when drift is found
+ * @version 1.0.0
+ */
+
+import { createSearchIndexService } from '../services';
+import { logger } from '../utils/logger.util';
+
+const USAGE = 'Usage: searchIndex <reindex | check [--repair]>';
+
+/**
+ * Runs the requested command and returns the process exit code
+ */
+async function main(args: string[]): Promise<number> {
+  const [command, ...flags] = args;
+  const searchIndex = await createSearchIndexService();
+
+  switch (command) {
+    case 'reindex': {
+      const result = await searchIndex.reindex();
+      console.log(JSON.stringify(result, null, 2));
+      return result.failed > 0 ? 1 : 0;
+    }
+    case 'check': {
+      const report = await searchIndex.checkConsistency({ repair: flags.includes('--repair') });
+      console.log(JSON.stringify(report, null, 2));
+      return report.consistent ? 0 : 1;
+    }
+    default:
+      console.error(USAGE);
+      return 2;
+  }
+}
+
+main(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    logger.error('Search index command failed', error);
+    process.exit(1);
+  });
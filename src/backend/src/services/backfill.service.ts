@@ -0,0 +1,478 @@
+/**
+ * @fileoverview Service that replays archived snapshots through the current parsers and
+ * adapters, so selector and normalization fixes reach the catalog without re-scraping.
+ * Dry runs report what would be added, changed and removed; committed runs write through
+ * the normal technology upsert path.
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify'; // v6.0.1
+import * as winston from 'winston'; // v3.8.0
+
+import {
+  ScraperJob,
+  ScraperResult,
+  ValidationResults,
+  BackfillScope,
+  BackfillChange,
+  BackfillSummary
+} from '../interfaces/scraper.interface';
+import { RabbitMQService } from '../lib/queue/rabbitmq.service';
+import { SnapshotService } from './snapshot.service';
+import { TechnologyService } from './technology.service';
+import { InstitutionRepository } from '../db/repositories/institution.repository';
+import { BackfillRunRepository } from '../db/repositories/backfillRun.repository';
+import { ScrapeSnapshotRepository } from '../db/repositories/scrapeSnapshot.repository';
+import { IBackfillRun } from '../db/models/backfillRun.model';
+import { IScrapeSnapshot } from '../db/models/scrapeSnapshot.model';
+import { Institution } from '../db/models/institution.model';
+import { HTMLParser, PDFParser, toTechnologyData } from '../scraper/parsers';
+import { isPdfCapture, captureText } from '../scraper/snapshot';
+import { NAVIGATION_SELECTOR_KEYS } from '../scraper/crawler';
+import { getNormalizingAdapter, resolveVendorSelectors, BaseAdapter } from '../scraper/adapters';
+import { BACKFILL_CONFIG, InstitutionType, PortalVendor } from '../constants/scraper.constants';
+import { ERROR_TYPES as APP_ERROR_TYPES } from '../constants/error.constants';
+import { AppError } from '../utils/error.util';
+import { queueConfig } from '../config/queue.config';
+
+/**
+ * Message published to the backfill queue for each requested run
+ */
+export interface BackfillMessage {
+  type: 'backfill';
+  runId: string;
+}
+
+/**
+ * Options for requesting a backfill run
+ */
+export interface BackfillRequestOptions {
+  dryRun?: boolean;
+  actor?: string;
+}
+
+/**
+ * Summary and capped change list collected while a run replays snapshots
+ */
+interface BackfillReport {
+  summary: BackfillSummary;
+  changes: BackfillChange[];
+  changesTruncated: boolean;
+}
+
+/**
+ * Queues, executes and commits backfill runs over archived snapshots
+ */
+@injectable()
+export class BackfillService {
+  private readonly logger: winston.Logger;
+
+  constructor(
+    private readonly queueService: RabbitMQService,
+    private readonly snapshotService: SnapshotService,
+    private readonly technologyService: TechnologyService,
+    private readonly institutionRepository: InstitutionRepository,
+    private readonly runRepository: BackfillRunRepository = new BackfillRunRepository(),
+    private readonly snapshotRepository: ScrapeSnapshotRepository = new ScrapeSnapshotRepository()
+  ) {
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+      ),
+      transports: [
+        new winston.transports.Console(),
+        new winston.transports.File({ filename: 'backfill-error.log', level: 'error' })
+      ]
+    });
+  }
+
+  /**
+   * Records a backfill run and queues it for a scraper worker
+   * @param scope Institutions and capture window to replay
+   * @param options Whether to only report changes, and the operator requesting the run
+   */
+  public async request(scope: BackfillScope, options: BackfillRequestOptions = {}): Promise<IBackfillRun> {
+    const run = await this.runRepository.create({
+      scope,
+      dryRun: options.dryRun ?? true,
+      status: 'queued',
+      requestedBy: options.actor ?? null
+    });
+
+    await this.enqueue(run);
+    return run;
+  }
+
+  /**
+   * Queues a committed run over the scope of a completed dry run
+   * @throws AppError when the run is not a completed dry run or was already committed
+   */
+  public async commit(runId: string, actor?: string): Promise<IBackfillRun> {
+    const dryRun = await this.get(runId);
+    if (!dryRun.dryRun || dryRun.status !== 'completed') {
+      throw new AppError(
+        'Only completed dry runs can be committed',
+        APP_ERROR_TYPES.CONFLICT_ERROR,
+        409
+      );
+    }
+    if (dryRun.committedRunId) {
+      throw new AppError(
+        `Backfill run already committed as ${dryRun.committedRunId}`,
+        APP_ERROR_TYPES.CONFLICT_ERROR,
+        409
+      );
+    }
+
+    const run = await this.runRepository.create({
+      scope: dryRun.scope,
+      dryRun: false,
+      status: 'queued',
+      requestedBy: actor ?? null,
+      sourceRunId: runId
+    });
+
+    // Two commits racing on the same dry run: only the first one to link itself is queued
+    if (!await this.runRepository.markCommitted(runId, run.id)) {
+      await this.runRepository.update(run.id, {
+        status: 'failed',
+        error: 'Dry run was committed by another request',
+        completedAt: new Date()
+      });
+      throw new AppError('Backfill run already committed', APP_ERROR_TYPES.CONFLICT_ERROR, 409);
+    }
+
+    await this.enqueue(run);
+    return run;
+  }
+
+  /**
+   * Returns a backfill run with its report
+   * @throws AppError when the run does not exist
+   */
+  public async get(runId: string): Promise<IBackfillRun> {
+    const run = await this.runRepository.findById(runId);
+    if (!run) {
+      throw new AppError(`Backfill run not found: ${runId}`, APP_ERROR_TYPES.NOT_FOUND_ERROR, 404);
+    }
+    return run;
+  }
+
+  /**
+   * Replays the latest snapshot of every page in the run's scope and stores the report.
+   * Failures are recorded on the run rather than thrown, so the message is never retried.
+   */
+  public async execute(runId: string): Promise<IBackfillRun | null> {
+    const run = await this.get(runId);
+    if (run.status !== 'queued') {
+      this.logger.warn('Skipping backfill run that is not queued', { runId, status: run.status });
+      return run;
+    }
+
+    await this.runRepository.update(runId, { status: 'running', startedAt: new Date() });
+    this.logger.info('Starting backfill run', { runId, dryRun: run.dryRun, scope: run.scope });
+
+    try {
+      const report = await this.replay(run);
+      this.logger.info('Backfill run completed', { runId, dryRun: run.dryRun, summary: report.summary });
+
+      return this.runRepository.update(runId, {
+        ...report,
+        status: 'completed',
+        completedAt: new Date()
+      });
+    } catch (error) {
+      this.logger.error('Backfill run failed', { runId, error: (error as Error).message });
+
+      return this.runRepository.update(runId, {
+        status: 'failed',
+        error: (error as Error).message,
+        completedAt: new Date()
+      });
+    }
+  }
+
+  /**
+   * Publishes a run to the backfill queue
+   */
+  private async enqueue(run: IBackfillRun): Promise<void> {
+    const message: BackfillMessage = { type: 'backfill', runId: run.id };
+    await this.queueService.publishToQueue(queueConfig.queues.backfill.name, message);
+  }
+
+  /**
+   * Replays snapshots institution by institution. Technologies an institution still has
+   * that were last seen within the replayed window, but that no replayed page produced,
+   * are reported as removed; backfills never deactivate them.
+   */
+  private async replay(run: IBackfillRun): Promise<BackfillReport> {
+    const report: BackfillReport = {
+      summary: { snapshots: 0, added: 0, changed: 0, unchanged: 0, removed: 0, failed: 0 },
+      changes: [],
+      changesTruncated: false
+    };
+    const adapters = new Map<string, BaseAdapter | null>();
+
+    const snapshots = await this.snapshotRepository.findLatestPerPage(run.scope, BACKFILL_CONFIG.MAX_SNAPSHOTS);
+    if (snapshots.length === BACKFILL_CONFIG.MAX_SNAPSHOTS) {
+      this.logger.warn('Backfill scope truncated to the snapshot limit', {
+        runId: run.id,
+        limit: BACKFILL_CONFIG.MAX_SNAPSHOTS
+      });
+    }
+
+    const byInstitution = new Map<string, IScrapeSnapshot[]>();
+    for (const snapshot of snapshots) {
+      const pages = byInstitution.get(snapshot.institutionId as string) || [];
+      pages.push(snapshot);
+      byInstitution.set(snapshot.institutionId as string, pages);
+    }
+
+    for (const [institutionId, pages] of byInstitution) {
+      report.summary.snapshots += pages.length;
+
+      const institution = await this.institutionRepository.findOne({ where: { id: institutionId } });
+      if (!institution) {
+        pages.forEach(snapshot => this.record(report, {
+          type: 'failed',
+          institutionId,
+          url: snapshot.url,
+          snapshotId: snapshot.id,
+          reason: 'Institution no longer exists'
+        }));
+        continue;
+      }
+
+      const produced = new Set<string>();
+      for (const snapshot of pages) {
+        try {
+          const result = await this.replaySnapshot(run, snapshot, institution, adapters);
+          const outcome = run.dryRun
+            ? await this.technologyService.previewFromScraper(result)
+            : await this.technologyService.upsertFromScraper(result);
+
+          if (outcome.technology.id) {
+            produced.add(outcome.technology.id);
+          }
+
+          if (outcome.status === 'unchanged') {
+            report.summary.unchanged++;
+            continue;
+          }
+
+          this.record(report, {
+            type: outcome.status === 'created' ? 'added' : 'changed',
+            institutionId,
+            url: snapshot.url,
+            title: outcome.technology.title,
+            technologyId: outcome.technology.id,
+            snapshotId: snapshot.id,
+            ...(outcome.status === 'updated' ? { changedFields: outcome.changedFields } : {})
+          });
+        } catch (error) {
+          this.record(report, {
+            type: 'failed',
+            institutionId,
+            url: snapshot.url,
+            snapshotId: snapshot.id,
+            reason: (error as Error).message
+          });
+        }
+      }
+
+      const captured = pages.map(snapshot => snapshot.capturedAt.getTime());
+      const stored = await this.technologyService.listActiveByInstitution(
+        institution.name,
+        run.scope.from ?? new Date(Math.min(...captured)),
+        run.scope.to ?? new Date(Math.max(...captured))
+      );
+      stored
+        .filter(technology => !produced.has(technology.id))
+        .forEach(technology => this.record(report, {
+          type: 'removed',
+          institutionId,
+          url: technology.url,
+          title: technology.title,
+          technologyId: technology.id
+        }));
+    }
+
+    return report;
+  }
+
+  /**
+   * Parses one archived page with the institution's current selectors and adapter
+   */
+  private async replaySnapshot(
+    run: IBackfillRun,
+    snapshot: IScrapeSnapshot,
+    institution: Institution,
+    adapters: Map<string, BaseAdapter | null>
+  ): Promise<ScraperResult> {
+    const body = await this.snapshotService.readBody(snapshot);
+    if (isPdfCapture({ body, contentType: snapshot.contentType })) {
+      return this.replayPdfSnapshot(run, snapshot, institution, body);
+    }
+
+    const selectors = this.buildSelectors(institution, snapshot);
+    const html = captureText({ body });
+    const parsed = await new HTMLParser({ selectors, validateSelectors: false }).parse(html);
+
+    // Match the engines' text cleanup so unchanged pages hash the same as when scraped live
+    const fields = Object.fromEntries(Object.entries(parsed.data).map(([field, value]) => [
+      field,
+      Array.isArray(value) ? value.map(item => this.cleanText(item)) : this.cleanText(value)
+    ]));
+
+    const job = {
+      id: `backfill-${run.id}`,
+      url: snapshot.url,
+      institutionType: snapshot.institutionType,
+      institutionId: institution.id,
+      config: { selectors }
+    } as ScraperJob;
+
+    const adapter = this.resolveAdapter(snapshot.institutionType, institution.vendor, adapters);
+    const { html: _html, ...data } = adapter
+      ? await adapter.normalize({ ...fields, html }, job)
+      : fields;
+
+    return this.toReplayResult(run, snapshot, { ...data, institution: institution.name }, {
+      isValid: parsed.success,
+      errors: parsed.errors.map(error => ({ field: 'parsing', rule: 'extraction', message: error.message })),
+      warnings: parsed.validationResults.emptyResults.map(field => ({
+        field,
+        message: `No elements found for selector: ${selectors[field]}`
+      }))
+    }, parsed.metrics.totalDuration || 0);
+  }
+
+  /**
+   * Segments an archived one-pager PDF into technology fields the way the scraping engine
+   * does; PDFs have no field selectors, so the institution's selectors do not apply
+   */
+  private async replayPdfSnapshot(
+    run: IBackfillRun,
+    snapshot: IScrapeSnapshot,
+    institution: Institution,
+    body: Buffer
+  ): Promise<ScraperResult> {
+    const parsed = await new PDFParser().parse(body);
+    if (!parsed.success || !parsed.structure) {
+      throw new Error(`PDF snapshot could not be parsed: ${parsed.errors[0]?.message || 'no content'}`);
+    }
+
+    const data = toTechnologyData(parsed.structure, parsed.metadata?.title);
+    return this.toReplayResult(run, snapshot, { ...data, institution: institution.name }, {
+      isValid: true,
+      errors: [],
+      warnings: []
+    }, parsed.metrics.processingTime);
+  }
+
+  /**
+   * Wraps replayed fields in a scraper result stamped with the snapshot's capture time
+   */
+  private toReplayResult(
+    run: IBackfillRun,
+    snapshot: IScrapeSnapshot,
+    data: Record<string, any>,
+    validationResults: ValidationResults,
+    processingTime: number
+  ): ScraperResult {
+    return {
+      jobId: `backfill-${run.id}`,
+      url: snapshot.url,
+      data,
+      timestamp: snapshot.capturedAt,
+      success: validationResults.isValid,
+      rateLimitMetrics: {
+        requestCount: 0,
+        burstCount: 0,
+        throttledRequests: 0,
+        queuedRequests: 0,
+        cooldownPeriods: 0,
+        averageRequestTime: 0
+      },
+      performanceMetrics: {
+        startTime: snapshot.capturedAt,
+        endTime: snapshot.capturedAt,
+        totalDuration: 0,
+        networkTime: 0,
+        processingTime,
+        memoryUsage: 0,
+        cpuUsage: 0
+      },
+      validationResults,
+      snapshot: {
+        id: snapshot.id,
+        key: snapshot.key,
+        sha256: snapshot.sha256,
+        contentType: snapshot.contentType,
+        size: snapshot.size,
+        capturedAt: snapshot.capturedAt
+      }
+    };
+  }
+
+  /**
+   * Flattens the institution's current field selectors, with its vendor's defaults, the way
+   * scheduled jobs do, falling back to the selectors the snapshot was scraped with
+   */
+  private buildSelectors(institution: Institution, snapshot: IScrapeSnapshot): Record<string, string> {
+    const { links: _links, metadata, ...fieldSelectors } =
+      resolveVendorSelectors(institution.selectors, institution.vendor);
+    const current = { ...fieldSelectors, ...metadata } as Record<string, string>;
+    const selectors = Object.keys(current).length > 0 ? current : snapshot.selectors;
+
+    return Object.fromEntries(
+      Object.entries(selectors || {})
+        .filter(([key, selector]) => selector && !NAVIGATION_SELECTOR_KEYS.includes(key))
+    );
+  }
+
+  /**
+   * Gets the replay adapter for an institution's portal vendor or type, warning once per
+   * run for adapters that cannot be built and replaying those without normalization
+   */
+  private resolveAdapter(
+    institutionType: string,
+    vendor: PortalVendor | null | undefined,
+    adapters: Map<string, BaseAdapter | null>
+  ): BaseAdapter | null {
+    const key = vendor || institutionType;
+    if (!adapters.has(key)) {
+      try {
+        adapters.set(key, getNormalizingAdapter(institutionType as InstitutionType, vendor));
+      } catch (error) {
+        this.logger.warn('No replay adapter for institution type; skipping normalization', {
+          institutionType,
+          vendor,
+          error: (error as Error).message
+        });
+        adapters.set(key, null);
+      }
+    }
+    return adapters.get(key) ?? null;
+  }
+
+  /**
+   * Counts a change and keeps it on the report until the cap is reached
+   */
+  private record(report: BackfillReport, change: BackfillChange): void {
+    report.summary[change.type]++;
+    if (report.changes.length < BACKFILL_CONFIG.MAX_REPORTED_CHANGES) {
+      report.changes.push(change);
+    } else {
+      report.changesTruncated = true;
+    }
+  }
+
+  private cleanText(text: string): string {
+    return text.trim().replace(/\s+/g, ' ');
+  }
+}
+
+export default BackfillService;
\ No newline at end of file
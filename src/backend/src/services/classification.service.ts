@@ -0,0 +1,233 @@
+/**
+ * @fileoverview Service that re-classifies the whole technology catalog into the controlled
+ * taxonomy, so keyword rule and model changes reach technologies that are not re-scraped.
+ * Dry runs report which technologies would move; other runs store the new placements.
+ * Manual placements are never changed.
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify'; // v6.0.1
+import * as winston from 'winston'; // v3.8.0
+
+import {
+  ClassificationChange,
+  ClassificationSummary
+} from '../interfaces/taxonomy.interface';
+import { RabbitMQService } from '../lib/queue/rabbitmq.service';
+import { getLocalTaxonomyModel } from '../lib/ai/taxonomy.model';
+import { TaxonomyPredictor } from '../utils/taxonomy.util';
+import { TechnologyService } from './technology.service';
+import { ClassificationRunRepository } from '../db/repositories/classificationRun.repository';
+import { IClassificationRun } from '../db/models/classificationRun.model';
+import { Technology } from '../db/models/technology.model';
+import { CLASSIFICATION_CONFIG, CLASSIFICATION_SOURCES } from '../constants/taxonomy.constants';
+import { ERROR_TYPES as APP_ERROR_TYPES } from '../constants/error.constants';
+import { AppError } from '../utils/error.util';
+import { queueConfig } from '../config/queue.config';
+
+/**
+ * Message published to the classification queue for each requested run
+ */
+export interface ClassificationMessage {
+  type: 'classification';
+  runId: string;
+}
+
+/**
+ * Options for requesting a classification run
+ */
+export interface ClassificationRequestOptions {
+  dryRun?: boolean;
+  actor?: string;
+}
+
+/**
+ * Summary and capped change list collected while a run re-classifies the catalog
+ */
+interface ClassificationReport {
+  summary: ClassificationSummary;
+  changes: ClassificationChange[];
+  changesTruncated: boolean;
+}
+
+/**
+ * Queues and executes catalog-wide classification runs
+ */
+@injectable()
+export class ClassificationService {
+  private readonly logger: winston.Logger;
+
+  constructor(
+    private readonly queueService: RabbitMQService,
+    private readonly technologyService: TechnologyService,
+    private readonly runRepository: ClassificationRunRepository = new ClassificationRunRepository()
+  ) {
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+      ),
+      transports: [
+        new winston.transports.Console(),
+        new winston.transports.File({ filename: 'classification-error.log', level: 'error' })
+      ]
+    });
+  }
+
+  /**
+   * Records a classification run and queues it for a worker
+   * @param options Whether to only report changes, and the operator requesting the run
+   */
+  public async request(options: ClassificationRequestOptions = {}): Promise<IClassificationRun> {
+    const run = await this.runRepository.create({
+      dryRun: options.dryRun ?? true,
+      status: 'queued',
+      requestedBy: options.actor ?? null
+    });
+
+    const message: ClassificationMessage = { type: 'classification', runId: run.id };
+    await this.queueService.publishToQueue(queueConfig.queues.classification.name, message);
+    return run;
+  }
+
+  /**
+   * Returns a classification run with its report
+   * @throws AppError when the run does not exist
+   */
+  public async get(runId: string): Promise<IClassificationRun> {
+    const run = await this.runRepository.findById(runId);
+    if (!run) {
+      throw new AppError(`Classification run not found: ${runId}`, APP_ERROR_TYPES.NOT_FOUND_ERROR, 404);
+    }
+    return run;
+  }
+
+  /**
+   * Re-classifies every technology in the catalog and stores the report. Failures are
+   * recorded on the run rather than thrown, so the message is never retried.
+   */
+  public async execute(runId: string): Promise<IClassificationRun | null> {
+    const run = await this.get(runId);
+    if (run.status !== 'queued') {
+      this.logger.warn('Skipping classification run that is not queued', { runId, status: run.status });
+      return run;
+    }
+
+    await this.runRepository.update(runId, { status: 'running', startedAt: new Date() });
+    this.logger.info('Starting classification run', { runId, dryRun: run.dryRun });
+
+    try {
+      const report = await this.classifyCatalog(run);
+      this.logger.info('Classification run completed', { runId, dryRun: run.dryRun, summary: report.summary });
+
+      return this.runRepository.update(runId, {
+        ...report,
+        status: 'completed',
+        completedAt: new Date()
+      });
+    } catch (error) {
+      this.logger.error('Classification run failed', { runId, error: (error as Error).message });
+
+      return this.runRepository.update(runId, {
+        status: 'failed',
+        error: (error as Error).message,
+        completedAt: new Date()
+      });
+    }
+  }
+
+  /**
+   * Pages through the catalog in id order so technologies scraped during the run are
+   * neither skipped nor visited twice
+   */
+  private async classifyCatalog(run: IClassificationRun): Promise<ClassificationReport> {
+    const report: ClassificationReport = {
+      summary: { technologies: 0, changed: 0, unchanged: 0, manual: 0, unclassified: 0, failed: 0 },
+      changes: [],
+      changesTruncated: false
+    };
+    const model = getLocalTaxonomyModel();
+    let afterId: string | null = null;
+
+    for (;;) {
+      const page: Technology[] = await this.technologyService.listCatalogPage(afterId, CLASSIFICATION_CONFIG.BATCH_SIZE);
+      if (page.length === 0) {
+        break;
+      }
+      afterId = page[page.length - 1].id;
+
+      for (const technology of page) {
+        report.summary.technologies++;
+        if (technology.classificationSource === CLASSIFICATION_SOURCES.MANUAL) {
+          report.summary.manual++;
+          continue;
+        }
+
+        try {
+          await this.classify(run, technology, model, report);
+        } catch (error) {
+          report.summary.failed++;
+          this.logger.warn('Failed to classify technology', {
+            runId: run.id,
+            technologyId: technology.id,
+            error: (error as Error).message
+          });
+        }
+      }
+    }
+
+    return report;
+  }
+
+  /**
+   * Re-classifies one technology, storing the placement unless the run is a dry run
+   */
+  private async classify(
+    run: IClassificationRun,
+    technology: Technology,
+    model: TaxonomyPredictor | null,
+    report: ClassificationReport
+  ): Promise<void> {
+    const previous = {
+      taxonomyId: technology.taxonomyId,
+      category: technology.category,
+      source: technology.classificationSource,
+      confidence: technology.classificationConfidence
+    };
+    technology.refreshClassification(model);
+
+    if (technology.taxonomyId === CLASSIFICATION_CONFIG.UNCLASSIFIED.ID) {
+      report.summary.unclassified++;
+    }
+
+    const moved = technology.taxonomyId !== previous.taxonomyId || technology.category !== previous.category;
+    const rescored = technology.classificationSource !== previous.source ||
+      technology.classificationConfidence !== previous.confidence;
+    if ((moved || rescored) && !run.dryRun) {
+      await this.technologyService.saveClassification(technology);
+    }
+
+    // Placements that only changed source or confidence are stored but not reported
+    if (!moved) {
+      report.summary.unchanged++;
+      return;
+    }
+
+    report.summary.changed++;
+    if (report.changes.length < CLASSIFICATION_CONFIG.MAX_REPORTED_CHANGES) {
+      report.changes.push({
+        technologyId: technology.id,
+        title: technology.title,
+        previousTaxonomyId: previous.taxonomyId,
+        taxonomyId: technology.taxonomyId,
+        source: technology.classificationSource,
+        confidence: technology.classificationConfidence
+      });
+    } else {
+      report.changesTruncated = true;
+    }
+  }
+}
+
+export default ClassificationService;
\ No newline at end of file
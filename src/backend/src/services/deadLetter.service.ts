@@ -0,0 +1,267 @@
+/**
+ * @fileoverview Service that drains the scraper dead-letter queue into a store operators can
+ * inspect, and replays or purges failed jobs on request.
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify'; // v6.0.1
+import * as winston from 'winston'; // v3.8.0
+import { ConsumeMessage } from 'amqplib'; // ^0.10.0
+
+import {
+  ScraperJob,
+  ScraperConfig,
+  DeadLetterError,
+  DeadLetterFilters,
+  DeadLetterReplayResult
+} from '../interfaces/scraper.interface';
+import { RabbitMQService } from '../lib/queue/rabbitmq.service';
+import { DeadLetterRepository, DeadLetterPage } from '../db/repositories/deadLetter.repository';
+import { IDeadLetterEntry } from '../db/models/deadLetterEntry.model';
+import { ERROR_TYPES } from '../constants/scraper.constants';
+import { ERROR_TYPES as APP_ERROR_TYPES } from '../constants/error.constants';
+import { AppError } from '../utils/error.util';
+import { queueConfig } from '../config/queue.config';
+
+/**
+ * Recovery suggestions for jobs the broker dead-lettered, keyed by x-death reason
+ */
+const BROKER_RECOVERY_SUGGESTIONS: Record<string, string[]> = {
+  rejected: ['Check the worker logs for the rejection cause', 'Replay the job once the cause is fixed'],
+  expired: ['Check that scraper workers are consuming the job queue', 'Replay the job'],
+  maxlen: ['Scale scraper workers or reduce scheduling volume', 'Replay the job']
+};
+
+/**
+ * Options applied when replaying dead-lettered jobs
+ */
+export interface DeadLetterReplayOptions {
+  config?: Partial<ScraperConfig>;
+  actor?: string;
+}
+
+/**
+ * Captures dead-lettered scraper jobs and puts them back on the job queue on request
+ */
+@injectable()
+export class DeadLetterService {
+  private readonly logger: winston.Logger;
+
+  constructor(
+    private readonly deadLetterRepository: DeadLetterRepository,
+    private readonly queueService: RabbitMQService
+  ) {
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+      ),
+      transports: [
+        new winston.transports.Console(),
+        new winston.transports.File({ filename: 'dead-letter-error.log', level: 'error' })
+      ]
+    });
+  }
+
+  /**
+   * Starts draining the scraper dead-letter queue into the entry store
+   */
+  public async start(): Promise<void> {
+    await this.queueService.consume(
+      queueConfig.queues.scraper.deadLetter,
+      this.capture.bind(this),
+      // The dead-letter queue has no further fallback, so keep messages until they are stored
+      { noAck: false, requeueOnError: true }
+    );
+
+    this.logger.info('Draining scraper dead-letter queue', { queue: queueConfig.queues.scraper.deadLetter });
+  }
+
+  /**
+   * Lists dead-letter entries matching the filters, newest first
+   */
+  public async list(filters: DeadLetterFilters, page: number, limit: number): Promise<DeadLetterPage> {
+    return this.deadLetterRepository.findMany(filters, { page, limit });
+  }
+
+  /**
+   * Returns a single dead-letter entry
+   * @throws AppError when the entry does not exist
+   */
+  public async get(id: string): Promise<IDeadLetterEntry> {
+    const entry = await this.deadLetterRepository.findById(id);
+    if (!entry) {
+      throw new AppError(`Dead-letter entry not found: ${id}`, APP_ERROR_TYPES.NOT_FOUND_ERROR, 404);
+    }
+    return entry;
+  }
+
+  /**
+   * Publishes dead-lettered jobs back onto the scraper job queue with a fresh retry budget.
+   * Entries are replayed independently, so one failure does not stop the rest.
+   * @param ids Entries to replay
+   * @param options Config edits merged into each job, and the operator replaying them
+   * @returns Entries replayed and entries that could not be replayed
+   */
+  public async replay(ids: string[], options: DeadLetterReplayOptions = {}): Promise<DeadLetterReplayResult> {
+    const entries = await this.deadLetterRepository.findByIds(ids);
+    const byId = new Map(entries.map(entry => [entry.id as string, entry]));
+    const result: DeadLetterReplayResult = { replayed: [], failed: [] };
+
+    for (const id of ids) {
+      const entry = byId.get(id);
+      if (!entry) {
+        result.failed.push({ id, reason: 'Entry not found' });
+        continue;
+      }
+
+      try {
+        const job = this.buildReplayJob(entry.job, options.config);
+        const published = await this.queueService.publishToQueue(
+          queueConfig.queues.scraper.name,
+          job,
+          { headers: { replayOf: id, replayedBy: options.actor } }
+        );
+        if (!published) {
+          throw new Error('Job queue is not accepting messages');
+        }
+
+        await this.deadLetterRepository.markReplayed(id, options.actor ?? null);
+        result.replayed.push(id);
+      } catch (error) {
+        result.failed.push({ id, reason: (error as Error).message });
+      }
+    }
+
+    this.logger.info('Replayed dead-letter entries', {
+      actor: options.actor,
+      configEdited: Boolean(options.config),
+      replayed: result.replayed.length,
+      failed: result.failed.length
+    });
+
+    return result;
+  }
+
+  /**
+   * Deletes the given dead-letter entries
+   * @returns Number of entries removed
+   */
+  public async purge(ids: string[], actor?: string): Promise<number> {
+    const removed = await this.deadLetterRepository.deleteByIds(ids);
+    this.logger.info('Purged dead-letter entries', { actor, requested: ids.length, removed });
+    return removed;
+  }
+
+  /**
+   * Deletes every dead-letter entry matching the filters
+   * @returns Number of entries removed
+   */
+  public async purgeMatching(filters: DeadLetterFilters, actor?: string): Promise<number> {
+    const removed = await this.deadLetterRepository.deleteMatching(filters);
+    this.logger.info('Purged dead-letter entries by filter', { actor, filters, removed });
+    return removed;
+  }
+
+  /**
+   * Stores one dead-lettered message. Messages that are not scraper jobs are logged and
+   * acknowledged so they cannot block the queue.
+   */
+  private async capture(msg: ConsumeMessage): Promise<void> {
+    let payload: unknown;
+    try {
+      payload = JSON.parse(msg.content.toString());
+    } catch {
+      this.logger.error('Discarding unparseable dead-letter message', { size: msg.content.length });
+      return;
+    }
+
+    const entry = this.toEntry(payload, msg.properties.headers || {});
+    if (!entry) {
+      this.logger.error('Discarding dead-letter message without a scraper job', { payload });
+      return;
+    }
+
+    await this.deadLetterRepository.create(entry);
+    this.logger.warn('Captured dead-lettered scraper job', {
+      jobId: entry.jobId,
+      errorType: entry.errorType,
+      source: entry.source
+    });
+  }
+
+  /**
+   * Normalizes the message shapes found on the dead-letter queue: `{ job, error }` envelopes
+   * published by the service and worker, and bare jobs dead-lettered by the broker
+   */
+  private toEntry(payload: any, headers: Record<string, any>): Partial<IDeadLetterEntry> | null {
+    const enveloped = Boolean(payload?.job && payload?.error);
+    const job: ScraperJob | undefined = enveloped ? payload.job : payload;
+    if (!job?.id || !job?.url) {
+      return null;
+    }
+
+    const error: DeadLetterError = enveloped
+      ? {
+        ...payload.error,
+        recoverySuggestions: payload.error.recoverySuggestions || [],
+        retryAttempt: payload.error.retryAttempt ?? job.retryCount ?? 0
+      }
+      : this.brokerError(job, headers);
+
+    return {
+      jobId: job.id,
+      url: job.url,
+      institutionId: job.institutionId,
+      institutionType: job.institutionType || 'UNKNOWN',
+      errorType: error.type,
+      error,
+      job,
+      source: enveloped ? (payload.source || 'service') : 'broker',
+      status: 'pending',
+      deadLetteredAt: payload?.timestamp ? new Date(payload.timestamp) : new Date()
+    };
+  }
+
+  /**
+   * Describes a job the broker dead-lettered from its x-death header
+   */
+  private brokerError(job: ScraperJob, headers: Record<string, any>): DeadLetterError {
+    const death = Array.isArray(headers['x-death']) ? headers['x-death'][0] : undefined;
+    const reason: string = death?.reason || 'rejected';
+
+    return {
+      type: ERROR_TYPES.QUEUE_REJECTED,
+      message: headers.error
+        ? `Dead-lettered by the broker (${reason}): ${headers.error}`
+        : `Dead-lettered by the broker (${reason})`,
+      jobId: job.id,
+      url: job.url,
+      timestamp: new Date(),
+      stack: '',
+      retryAttempt: headers.retryCount ?? job.retryCount ?? 0,
+      recoverySuggestions: BROKER_RECOVERY_SUGGESTIONS[reason] || BROKER_RECOVERY_SUGGESTIONS.rejected
+    };
+  }
+
+  /**
+   * Resets the job for another run, merging any edited config over the original
+   */
+  private buildReplayJob(job: ScraperJob, config?: Partial<ScraperConfig>): ScraperJob {
+    return {
+      ...job,
+      config: config
+        ? {
+          ...job.config,
+          ...config,
+          selectors: { ...job.config?.selectors, ...config.selectors }
+        }
+        : job.config,
+      status: 'pending',
+      retryCount: 0
+    };
+  }
+}
+
+export default DeadLetterService;
\ No newline at end of file
@@ -5,10 +5,40 @@
  */
 
 // Import core service classes with their configurations
+import Redis from 'ioredis'; // ^5.0.0
+import * as winston from 'winston'; // v3.8.0
 import { AuthService } from './auth.service';
 import { ConfigService } from './config.service';
 import { GrantService } from './grant.service';
 import { ScraperService } from './scraper.service';
+import { SearchIndexService } from './searchIndex.service';
+import { SavedSearchService } from './savedSearch.service';
+import { NotificationService } from './notification.service';
+import { TechnologyService } from './technology.service';
+import { ScrapeRunService } from './scrapeRun.service';
+import { SelectorDriftService } from './selectorDrift.service';
+import { SnapshotService } from './snapshot.service';
+import { SchedulerService } from './scheduler.service';
+import { BackfillService } from './backfill.service';
+import { DeadLetterService } from './deadLetter.service';
+import { ClassificationService } from './classification.service';
+import { TechnologyRepository } from '../db/repositories/technology.repository';
+import { SearchIndexQueueRepository } from '../db/repositories/searchIndexQueue.repository';
+import { SavedSearchRepository } from '../db/repositories/savedSearch.repository';
+import { NotificationRepository } from '../db/repositories/notification.repository';
+import { InstitutionRepository } from '../db/repositories/institution.repository';
+import { PersonRepository } from '../db/repositories/person.repository';
+import { ScrapeLogRepository } from '../db/repositories/scrapeLog.repository';
+import { SelectorDriftRepository } from '../db/repositories/selectorDrift.repository';
+import { DeadLetterRepository } from '../db/repositories/deadLetter.repository';
+import { getDataSource } from '../db/dataSource';
+import { ScraperEngineFactory } from '../scraper/engines';
+import { DistributedRateLimiter } from '../scraper/rateLimit';
+import { RabbitMQService } from '../lib/queue/rabbitmq.service';
+import { S3StorageService } from '../lib/storage';
+import { postgresConfig, redisConfig } from '../config/database.config';
+import { queueConfig } from '../config/queue.config';
+import { ERROR_TYPES, RETRY_CONFIG, SCRAPER_RATE_LIMITS } from '../constants/scraper.constants';
 
 // Re-export service classes and their configurations
 export {
@@ -41,15 +71,163 @@ export {
  * Initializes core services with default configurations
  * @returns Object containing initialized service instances
  */
-export function initializeServices() {
+export async function initializeServices() {
   return {
     authService: new AuthService(),
     configService: new ConfigService(),
     grantService: new GrantService(),
-    scraperService: new ScraperService()
+    scraperService: await createScraperService()
   };
 }
 
+// Cache connection shared by the technology repositories built here
+let technologyCache: Redis | null = null;
+
+/**
+ * Builds a technology repository on the database and the technology cache
+ */
+async function createTechnologyRepository(): Promise<TechnologyRepository> {
+  const dataSource = await getDataSource();
+  if (!technologyCache) {
+    technologyCache = new Redis({
+      host: redisConfig.host,
+      port: redisConfig.port,
+      password: redisConfig.password,
+      db: redisConfig.db,
+      keyPrefix: redisConfig.keyPrefix
+    });
+  }
+  return new TechnologyRepository(technologyCache, dataSource.createQueryRunner());
+}
+
+/**
+ * Builds the service that writes queued technology changes to the search index
+ */
+export async function createSearchIndexService(): Promise<SearchIndexService> {
+  const dataSource = await getDataSource();
+  return new SearchIndexService(
+    await createTechnologyRepository(),
+    dataSource.manager.getCustomRepository(SearchIndexQueueRepository)
+  );
+}
+
+/**
+ * Builds the service for users' in-app notification lists
+ */
+export async function createNotificationService(): Promise<NotificationService> {
+  const dataSource = await getDataSource();
+  return new NotificationService(dataSource.manager.getCustomRepository(NotificationRepository));
+}
+
+/**
+ * Builds the saved search service, alerting through the given notification service or a
+ * new one
+ */
+export async function createSavedSearchService(notificationService?: NotificationService): Promise<SavedSearchService> {
+  const dataSource = await getDataSource();
+  return new SavedSearchService(
+    dataSource.manager.getCustomRepository(SavedSearchRepository),
+    await createTechnologyRepository(),
+    dataSource.manager.getCustomRepository(SearchIndexQueueRepository),
+    notificationService ?? await createNotificationService()
+  );
+}
+
+/**
+ * Builds a technology service on the technology repository and the people directory
+ */
+async function createTechnologyService(): Promise<TechnologyService> {
+  const dataSource = await getDataSource();
+  return new TechnologyService(
+    await createTechnologyRepository(),
+    new PersonRepository(dataSource.createQueryRunner()),
+    technologyCache,
+    winston.createLogger({
+      level: 'info',
+      format: winston.format.combine(winston.format.timestamp(), winston.format.json()),
+      transports: [new winston.transports.Console()]
+    })
+  );
+}
+
+/**
+ * Builds the service archiving raw pages to object storage
+ */
+function createSnapshotService(): SnapshotService {
+  return new SnapshotService(new S3StorageService(postgresConfig));
+}
+
+/**
+ * Builds the scraper service with run tracking, selector drift checks and page snapshots,
+ * publishing follow-up jobs through the given queue service or a new one
+ */
+export async function createScraperService(queueService?: RabbitMQService): Promise<ScraperService> {
+  const dataSource = await getDataSource();
+  const institutionRepository = dataSource.manager.getCustomRepository(InstitutionRepository);
+  const technologyService = await createTechnologyService();
+
+  return new ScraperService(
+    new ScraperEngineFactory({
+      requestsPerSecond: SCRAPER_RATE_LIMITS.DEFAULT.requestsPerSecond,
+      burstLimit: SCRAPER_RATE_LIMITS.DEFAULT.burstLimit,
+      cooldownPeriod: SCRAPER_RATE_LIMITS.DEFAULT.cooldownPeriod,
+      institutionOverrides: {},
+      burstHandling: { strategy: 'throttle' }
+    }, {
+      maxRetries: RETRY_CONFIG.MAX_RETRIES,
+      initialDelay: RETRY_CONFIG.INITIAL_DELAY,
+      maxDelay: RETRY_CONFIG.MAX_DELAY,
+      backoffFactor: RETRY_CONFIG.BACKOFF_FACTOR,
+      retryableErrors: [ERROR_TYPES.NETWORK_TIMEOUT, ERROR_TYPES.RATE_LIMITED]
+    }),
+    queueService ?? new RabbitMQService(queueConfig),
+    institutionRepository,
+    DistributedRateLimiter.getInstance(),
+    new SelectorDriftService(new ScrapeLogRepository(), new SelectorDriftRepository()),
+    createSnapshotService(),
+    new ScrapeRunService(technologyService, institutionRepository)
+  );
+}
+
+/**
+ * Builds the scheduler that enqueues recurring institution scrapes through the given queue
+ * service
+ */
+export async function createSchedulerService(queueService: RabbitMQService): Promise<SchedulerService> {
+  const dataSource = await getDataSource();
+  return new SchedulerService(dataSource.manager.getCustomRepository(InstitutionRepository), queueService);
+}
+
+/**
+ * Builds the service that replays archived snapshots for backfill runs published through the
+ * given queue service
+ */
+export async function createBackfillService(queueService: RabbitMQService): Promise<BackfillService> {
+  const dataSource = await getDataSource();
+  return new BackfillService(
+    queueService,
+    createSnapshotService(),
+    await createTechnologyService(),
+    dataSource.manager.getCustomRepository(InstitutionRepository)
+  );
+}
+
+/**
+ * Builds the service that stores jobs from the scraper dead-letter queue and replays them
+ * through the given queue service
+ */
+export function createDeadLetterService(queueService: RabbitMQService): DeadLetterService {
+  return new DeadLetterService(new DeadLetterRepository(), queueService);
+}
+
+/**
+ * Builds the service that re-classifies the stored catalog for classification runs published
+ * through the given queue service
+ */
+export async function createClassificationService(queueService: RabbitMQService): Promise<ClassificationService> {
+  return new ClassificationService(queueService, await createTechnologyService());
+}
+
 /**
  * Default export of all core services
  */
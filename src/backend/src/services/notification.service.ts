@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Service for users' in-app notification lists
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify'; // v6.0.1
+
+import {
+  AppNotification,
+  NotificationPage,
+  NotificationType
+} from '../interfaces/savedSearch.interface';
+import { NotificationRepository } from '../db/repositories/notification.repository';
+import { NotificationRecord } from '../db/models/notification.model';
+import { ERROR_TYPES as APP_ERROR_TYPES } from '../constants/error.constants';
+import { AppError } from '../utils/error.util';
+
+/**
+ * Options for listing notifications
+ */
+export interface NotificationListOptions {
+  limit: number;
+  offset: number;
+  unreadOnly?: boolean;
+}
+
+/**
+ * Adds to, lists and marks read the notifications shown to a user in the app
+ */
+@injectable()
+export class NotificationService {
+  constructor(private readonly notificationRepository: NotificationRepository) {}
+
+  /**
+   * Adds a notification to a user's list
+   */
+  public async notify(
+    userId: string,
+    type: NotificationType,
+    content: { title: string; body: string },
+    data: Record<string, unknown> = {}
+  ): Promise<AppNotification> {
+    const record = await this.notificationRepository.save(new NotificationRecord({
+      userId,
+      type,
+      title: content.title,
+      body: content.body,
+      data,
+      readAt: null
+    }));
+    return this.toNotification(record);
+  }
+
+  /**
+   * Lists a user's notifications, newest first, with their unread count
+   */
+  public async list(userId: string, options: NotificationListOptions): Promise<NotificationPage> {
+    const [records, unread] = await Promise.all([
+      this.notificationRepository.findByUser(userId, options.limit, options.offset, options.unreadOnly),
+      this.notificationRepository.countUnread(userId)
+    ]);
+    return { notifications: records.map(record => this.toNotification(record)), unread };
+  }
+
+  /**
+   * Marks one of a user's notifications as read
+   * @throws AppError when the user has no such notification
+   */
+  public async markRead(userId: string, id: string): Promise<void> {
+    if (!await this.notificationRepository.markRead(id, userId)) {
+      throw new AppError(`Notification not found: ${id}`, APP_ERROR_TYPES.NOT_FOUND_ERROR, 404);
+    }
+  }
+
+  /**
+   * Marks all of a user's notifications as read
+   * @returns Number of notifications that were unread
+   */
+  public async markAllRead(userId: string): Promise<number> {
+    return this.notificationRepository.markAllRead(userId);
+  }
+
+  private toNotification(record: NotificationRecord): AppNotification {
+    return {
+      id: record.id,
+      type: record.type,
+      title: record.title,
+      body: record.body,
+      data: record.data,
+      readAt: record.readAt,
+      createdAt: record.createdAt
+    };
+  }
+}
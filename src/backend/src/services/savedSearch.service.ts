@@ -0,0 +1,444 @@
+/**
+ * @fileoverview Service for saved searches and their new-match alerts. After indexing
+ * cycles, alert runs re-execute every saved search over the technologies indexed since its
+ * previous run and record the ones it matches for the first time. Instant searches are
+ * alerted right away; daily and weekly ones collect matches into a digest sent on schedule.
+ * Alerts go out by email and to the in-app notification list.
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify'; // v6.0.1
+import * as winston from 'winston'; // v3.8.0
+import { randomBytes } from 'crypto';
+
+import {
+  SavedSearch,
+  SavedSearchAlertResult,
+  SavedSearchFilters,
+  SavedSearchInput,
+  SavedSearchMatch,
+  SavedSearchUpdate
+} from '../interfaces/savedSearch.interface';
+import { SearchFilters } from '../interfaces/search.interface';
+import { MailTransport } from '../interfaces/mail.interface';
+import { SavedSearchRepository } from '../db/repositories/savedSearch.repository';
+import { SearchIndexQueueRepository } from '../db/repositories/searchIndexQueue.repository';
+import { TechnologyRepository } from '../db/repositories/technology.repository';
+import { SavedSearchRecord } from '../db/models/savedSearch.model';
+import { NotificationService } from './notification.service';
+import { ElasticsearchService } from '../lib/search/elasticsearch.service';
+import { getMailTransport } from '../lib/mail';
+import {
+  SAVED_SEARCH_ALERTS,
+  SAVED_SEARCH_FREQUENCIES,
+  SavedSearchFrequency
+} from '../constants/savedSearch.constants';
+import { ERROR_TYPES as APP_ERROR_TYPES } from '../constants/error.constants';
+import { AppError } from '../utils/error.util';
+import { AlertContent, describeAlert, nextDigestAt, renderAlertEmail } from '../utils/savedSearch.util';
+
+// Filters kept as lists of values
+const LIST_FILTERS = [
+  'institution',
+  'category',
+  'subcategory',
+  'country',
+  'patentStatus',
+  'inventor',
+  'licensingContact'
+] as const;
+
+const FREQUENCIES = Object.values(SAVED_SEARCH_FREQUENCIES) as SavedSearchFrequency[];
+
+/**
+ * User a search is saved for
+ */
+export interface SavedSearchOwner {
+  userId: string;
+  /** Address alerts are emailed to */
+  email: string;
+}
+
+/**
+ * Saves searches for users and alerts them when new technologies match
+ */
+@injectable()
+export class SavedSearchService {
+  private readonly logger: winston.Logger;
+
+  /**
+   * @param publicApiUrl Public base URL of the API, for unsubscribe links
+   */
+  constructor(
+    private readonly savedSearchRepository: SavedSearchRepository,
+    private readonly technologyRepository: TechnologyRepository,
+    private readonly queueRepository: SearchIndexQueueRepository,
+    private readonly notificationService: NotificationService,
+    private readonly elasticsearch: ElasticsearchService = ElasticsearchService.getInstance(),
+    private readonly mailTransport: MailTransport = getMailTransport(),
+    private readonly publicApiUrl: string = process.env.PUBLIC_API_URL || 'http://localhost:3000/api/v1'
+  ) {
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+      ),
+      transports: [
+        new winston.transports.Console(),
+        new winston.transports.File({ filename: 'saved-search-error.log', level: 'error' })
+      ]
+    });
+  }
+
+  /**
+   * Lists a user's saved searches, oldest first
+   */
+  public async list(userId: string): Promise<SavedSearch[]> {
+    const records = await this.savedSearchRepository.findByUser(userId);
+    const pending = await this.savedSearchRepository.countPendingMatches(records.map(record => record.id));
+    return records.map(record => this.toSavedSearch(record, pending.get(record.id) || 0));
+  }
+
+  /**
+   * Saves a search. Only technologies indexed from now on raise alerts for it.
+   * @throws AppError when the input is invalid or the user keeps too many saved searches
+   */
+  public async create(owner: SavedSearchOwner, input: SavedSearchInput, now: Date = new Date()): Promise<SavedSearch> {
+    const name = this.validateText(input.name, 'Name', SAVED_SEARCH_ALERTS.MAX_NAME_LENGTH);
+    const query = this.validateText(input.query, 'Query', SAVED_SEARCH_ALERTS.MAX_QUERY_LENGTH);
+    const frequency = this.validateFrequency(input.frequency ?? SAVED_SEARCH_FREQUENCIES.DAILY);
+    const filters = this.normalizeFilters(input.filters);
+
+    const count = await this.savedSearchRepository.count({ where: { userId: owner.userId } });
+    if (count >= SAVED_SEARCH_ALERTS.MAX_PER_USER) {
+      throw new AppError(
+        `A user may keep at most ${SAVED_SEARCH_ALERTS.MAX_PER_USER} saved searches`,
+        APP_ERROR_TYPES.CONFLICT_ERROR,
+        409
+      );
+    }
+
+    const record = await this.savedSearchRepository.save(new SavedSearchRecord({
+      userId: owner.userId,
+      email: owner.email,
+      name,
+      query,
+      filters,
+      frequency,
+      alertsEnabled: true,
+      unsubscribeToken: randomBytes(SAVED_SEARCH_ALERTS.UNSUBSCRIBE_TOKEN_BYTES).toString('base64url'),
+      lastRunAt: now,
+      runLeaseUntil: null,
+      nextDigestAt: nextDigestAt(frequency, now),
+      lastNotifiedAt: null
+    }));
+
+    this.logger.info('Search saved', { savedSearchId: record.id, userId: owner.userId, frequency });
+    return this.toSavedSearch(record, 0);
+  }
+
+  /**
+   * Changes a user's saved search. Changing what it searches for, or turning alerts back
+   * on, restarts it from now so technologies indexed before are not alerted.
+   * @throws AppError when the input is invalid or the user has no such saved search
+   */
+  public async update(
+    userId: string,
+    id: string,
+    changes: SavedSearchUpdate,
+    now: Date = new Date()
+  ): Promise<SavedSearch> {
+    const record = await this.getOwned(userId, id);
+    let restart = false;
+
+    if (changes.name !== undefined) {
+      record.name = this.validateText(changes.name, 'Name', SAVED_SEARCH_ALERTS.MAX_NAME_LENGTH);
+    }
+    if (changes.query !== undefined) {
+      const query = this.validateText(changes.query, 'Query', SAVED_SEARCH_ALERTS.MAX_QUERY_LENGTH);
+      restart = restart || query !== record.query;
+      record.query = query;
+    }
+    if (changes.filters !== undefined) {
+      record.filters = this.normalizeFilters(changes.filters);
+      restart = true;
+    }
+    if (changes.frequency !== undefined) {
+      record.frequency = this.validateFrequency(changes.frequency);
+      record.nextDigestAt = nextDigestAt(record.frequency, now);
+    }
+    if (changes.alertsEnabled !== undefined) {
+      if (typeof changes.alertsEnabled !== 'boolean') {
+        throw new AppError('alertsEnabled must be a boolean', APP_ERROR_TYPES.VALIDATION_ERROR, 400);
+      }
+      restart = restart || (changes.alertsEnabled && !record.alertsEnabled);
+      record.alertsEnabled = changes.alertsEnabled;
+    }
+    if (restart) {
+      record.lastRunAt = now;
+    }
+
+    const saved = await this.savedSearchRepository.save(record);
+    const pending = await this.savedSearchRepository.countPendingMatches([saved.id]);
+    return this.toSavedSearch(saved, pending.get(saved.id) || 0);
+  }
+
+  /**
+   * Deletes a user's saved search with its recorded matches
+   * @throws AppError when the user has no such saved search
+   */
+  public async remove(userId: string, id: string): Promise<void> {
+    const record = await this.getOwned(userId, id);
+    await this.savedSearchRepository.delete(record.id);
+    this.logger.info('Saved search deleted', { savedSearchId: record.id, userId });
+  }
+
+  /**
+   * Turns off alerts for the saved search an unsubscribe link was sent for
+   * @returns Name of the saved search
+   * @throws AppError when the token matches no saved search
+   */
+  public async unsubscribe(token: string): Promise<{ name: string }> {
+    const record = await this.savedSearchRepository.findByUnsubscribeToken(token);
+    if (!record) {
+      throw new AppError('Unsubscribe link is invalid or expired', APP_ERROR_TYPES.NOT_FOUND_ERROR, 404);
+    }
+
+    if (record.alertsEnabled) {
+      record.alertsEnabled = false;
+      await this.savedSearchRepository.save(record);
+      this.logger.info('Saved search alerts unsubscribed', { savedSearchId: record.id, userId: record.userId });
+    }
+    return { name: record.name };
+  }
+
+  /**
+   * Re-executes every saved search with alerts on over the technologies indexed since its
+   * previous run, then sends instant alerts and digests that are due. Technologies waiting
+   * in the index queue are not searchable yet, so the run only searches up to the oldest
+   * queued change; the next run picks them up. A search that fails is left claimed until
+   * its lease runs out and retried by a later run.
+   */
+  public async runAlerts(now: Date = new Date()): Promise<SavedSearchAlertResult> {
+    const result: SavedSearchAlertResult = { searched: 0, newMatches: 0, delivered: 0, failed: 0 };
+    const oldestQueued = await this.queueRepository.findOldestEnqueuedAt();
+    const watermark = oldestQueued && oldestQueued < now ? oldestQueued : now;
+
+    let batch: SavedSearchRecord[];
+    do {
+      batch = await this.savedSearchRepository.claimForRun(
+        watermark,
+        SAVED_SEARCH_ALERTS.BATCH_SIZE,
+        SAVED_SEARCH_ALERTS.RUN_LEASE_SECONDS
+      );
+      for (const search of batch) {
+        await this.runSearch(search, watermark, now, result);
+      }
+    } while (batch.length === SAVED_SEARCH_ALERTS.BATCH_SIZE);
+
+    if (result.searched > 0 || result.failed > 0) {
+      this.logger.info('Saved search alert run completed', { result, watermark });
+    }
+    return result;
+  }
+
+  /**
+   * Records a claimed search's new matches, delivers its alert when one is due and settles
+   * the run
+   */
+  private async runSearch(
+    search: SavedSearchRecord,
+    watermark: Date,
+    now: Date,
+    result: SavedSearchAlertResult
+  ): Promise<void> {
+    try {
+      const newMatches = await this.savedSearchRepository.recordMatches(
+        search.id,
+        await this.findMatches(search)
+      );
+      result.searched++;
+      result.newMatches += newMatches.length;
+
+      const instant = search.frequency === SAVED_SEARCH_FREQUENCIES.INSTANT;
+      const digestDue = !instant && search.nextDigestAt !== null && search.nextDigestAt <= now;
+      if ((instant || digestDue) && await this.deliver(search)) {
+        result.delivered++;
+      }
+
+      // Digests due now, or never scheduled, move on to the next slot
+      const reschedule = !instant && (digestDue || search.nextDigestAt === null);
+      await this.savedSearchRepository.completeRun(
+        search.id,
+        watermark,
+        reschedule ? nextDigestAt(search.frequency, now) ?? undefined : undefined
+      );
+    } catch (error) {
+      result.failed++;
+      this.logger.error('Saved search alert failed', {
+        savedSearchId: search.id,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Searches for technologies matching a saved search that were indexed with changes since
+   * shortly before its previous run. Semantic similarity always finds a nearest technology,
+   * so alerts match on keywords only.
+   * @returns Ids of the matching technologies, best first
+   */
+  private async findMatches(search: SavedSearchRecord): Promise<string[]> {
+    const filters = {
+      institution: [],
+      category: [],
+      country: [],
+      ...search.filters,
+      updatedSince: new Date(search.lastRunAt.getTime() - SAVED_SEARCH_ALERTS.RUN_OVERLAP_SECONDS * 1000)
+    } as SearchFilters;
+
+    const response = await this.elasticsearch.search({
+      query: search.query,
+      filters,
+      pagination: { page: 1, limit: SAVED_SEARCH_ALERTS.MAX_MATCHES_PER_RUN },
+      semanticWeight: 0
+    });
+    return response.results.map(result => result.id);
+  }
+
+  /**
+   * Emails the matches waiting for an alert and adds them to the in-app notification list
+   * @returns False when no matches were waiting
+   */
+  private async deliver(search: SavedSearchRecord): Promise<boolean> {
+    const pending = await this.savedSearchRepository.findPendingMatches(
+      search.id,
+      SAVED_SEARCH_ALERTS.MAX_DIGEST_ITEMS
+    );
+    if (pending.total === 0 || !pending.latestMatchedAt) {
+      return false;
+    }
+
+    const technologies = new Map(
+      (await this.technologyRepository.findByIds(pending.matches.map(match => match.technologyId)))
+        .map(technology => [technology.id, technology])
+    );
+    const matches: SavedSearchMatch[] = pending.matches.flatMap(match => {
+      const technology = technologies.get(match.technologyId);
+      return technology
+        ? [{
+          technologyId: technology.id,
+          title: technology.title,
+          institution: technology.institution,
+          url: technology.url,
+          matchedAt: match.matchedAt
+        }]
+        : [];
+    });
+
+    const content: AlertContent = {
+      name: search.name,
+      query: search.query,
+      matches,
+      total: pending.total,
+      unsubscribeUrl: `${this.publicApiUrl.replace(/\/+$/, '')}/search/saved/unsubscribe/${search.unsubscribeToken}`
+    };
+
+    await this.mailTransport.send({ to: search.email, ...renderAlertEmail(content) });
+    await this.notificationService.notify(search.userId, 'saved_search_matches', describeAlert(content), {
+      savedSearchId: search.id,
+      technologyIds: matches.map(match => match.technologyId),
+      total: pending.total
+    });
+    await this.savedSearchRepository.markNotified(search.id, pending.latestMatchedAt);
+
+    this.logger.info('Saved search alert sent', {
+      savedSearchId: search.id,
+      matches: pending.total,
+      transport: this.mailTransport.name
+    });
+    return true;
+  }
+
+  /**
+   * @throws AppError when the user has no such saved search
+   */
+  private async getOwned(userId: string, id: string): Promise<SavedSearchRecord> {
+    const record = await this.savedSearchRepository.findOwned(id, userId);
+    if (!record) {
+      throw new AppError(`Saved search not found: ${id}`, APP_ERROR_TYPES.NOT_FOUND_ERROR, 404);
+    }
+    return record;
+  }
+
+  private validateText(value: unknown, field: string, maxLength: number): string {
+    const text = typeof value === 'string' ? value.trim() : '';
+    if (!text || text.length > maxLength) {
+      throw new AppError(
+        `${field} must be between 1 and ${maxLength} characters`,
+        APP_ERROR_TYPES.VALIDATION_ERROR,
+        400
+      );
+    }
+    return text;
+  }
+
+  private validateFrequency(value: unknown): SavedSearchFrequency {
+    if (!FREQUENCIES.includes(value as SavedSearchFrequency)) {
+      throw new AppError(
+        `Frequency must be one of ${FREQUENCIES.join(', ')}`,
+        APP_ERROR_TYPES.VALIDATION_ERROR,
+        400
+      );
+    }
+    return value as SavedSearchFrequency;
+  }
+
+  /**
+   * Keeps the known filters, dropping empty lists
+   * @throws AppError when a filter has the wrong shape
+   */
+  private normalizeFilters(filters: unknown): SavedSearchFilters {
+    if (filters === undefined || filters === null) {
+      return {};
+    }
+    if (typeof filters !== 'object' || Array.isArray(filters)) {
+      throw new AppError('Filters must be an object', APP_ERROR_TYPES.VALIDATION_ERROR, 400);
+    }
+
+    const source = filters as Record<string, unknown>;
+    const normalized: SavedSearchFilters = {};
+    for (const key of LIST_FILTERS) {
+      const values = source[key];
+      if (values === undefined) {
+        continue;
+      }
+      if (!Array.isArray(values) || values.some(value => typeof value !== 'string')) {
+        throw new AppError(`Filter ${key} must be a list of strings`, APP_ERROR_TYPES.VALIDATION_ERROR, 400);
+      }
+      if (values.length > 0) {
+        normalized[key] = [...new Set(values as string[])];
+      }
+    }
+    if (source.includeWithdrawn === true) {
+      normalized.includeWithdrawn = true;
+    }
+    return normalized;
+  }
+
+  private toSavedSearch(record: SavedSearchRecord, pendingMatches: number): SavedSearch {
+    return {
+      id: record.id,
+      name: record.name,
+      query: record.query,
+      filters: record.filters,
+      frequency: record.frequency,
+      alertsEnabled: record.alertsEnabled,
+      pendingMatches,
+      lastNotifiedAt: record.lastNotifiedAt,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt
+    };
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * @fileoverview Scheduler for recurring institution scrapes that computes next-run times from
+ * each institution's refresh interval, spreads runs across the day and enqueues scraper jobs.
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify'; // v6.0.1
+import * as winston from 'winston'; // v3.8.0
+import { randomUUID, createHash } from 'crypto';
+
+import { ScraperJob, ScheduledScrape } from '../interfaces/scraper.interface';
+import { RabbitMQService } from '../lib/queue/rabbitmq.service';
+import { InstitutionRepository } from '../db/repositories/institution.repository';
+import { Institution, InstitutionType } from '../db/models/institution.model';
+import { resolveVendorSelectors } from '../scraper/adapters';
+import {
+  ERROR_TYPES,
+  RETRY_CONFIG,
+  SCHEDULER_CONFIG,
+  SCRAPER_RATE_LIMITS,
+  InstitutionType as RateLimitKey
+} from '../constants/scraper.constants';
+import { queueConfig } from '../config/queue.config';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Maps institution types onto their rate limit profiles
+ */
+const RATE_LIMIT_KEYS: Record<InstitutionType, RateLimitKey> = {
+  [InstitutionType.US_UNIVERSITY]: 'US_UNIVERSITIES',
+  [InstitutionType.INTERNATIONAL_UNIVERSITY]: 'INTERNATIONAL_UNIVERSITIES',
+  [InstitutionType.FEDERAL_LAB]: 'FEDERAL_LABS'
+};
+
+/**
+ * Schedules recurring scrapes per institution and publishes due jobs to the scraper queue
+ */
+@injectable()
+export class SchedulerService {
+  private readonly logger: winston.Logger;
+  private timer: NodeJS.Timeout | null = null;
+  private isTicking = false;
+
+  constructor(
+    private readonly institutionRepository: InstitutionRepository,
+    private readonly queueService: RabbitMQService
+  ) {
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+      ),
+      transports: [
+        new winston.transports.Console(),
+        new winston.transports.File({ filename: 'scheduler-error.log', level: 'error' })
+      ]
+    });
+  }
+
+  /**
+   * Starts periodic scheduling ticks
+   */
+  public start(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => {
+        this.logger.error('Scheduler tick failed', { error: (error as Error).message });
+      });
+    }, SCHEDULER_CONFIG.TICK_INTERVAL);
+
+    this.logger.info('Scrape scheduler started', { tickInterval: SCHEDULER_CONFIG.TICK_INTERVAL });
+  }
+
+  /**
+   * Stops periodic scheduling ticks
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.logger.info('Scrape scheduler stopped');
+    }
+  }
+
+  /**
+   * Enqueues scrapes for due institutions. Institutions without a schedule are assigned
+   * one instead of being enqueued immediately, and each rate limit profile enqueues at
+   * most its burst limit per tick so bursts spill over to later ticks. Due institutions are
+   * claimed first, so replicas ticking at the same time never enqueue the same institution.
+   * @param now Reference time for the tick
+   * @returns Number of jobs enqueued
+   */
+  public async tick(now: Date = new Date()): Promise<number> {
+    if (this.isTicking) {
+      return 0;
+    }
+    this.isTicking = true;
+
+    try {
+      const due = await this.institutionRepository.claimDueForScrape(
+        now,
+        SCHEDULER_CONFIG.MAX_DUE_PER_TICK,
+        SCHEDULER_CONFIG.CLAIM_LEASE_SECONDS
+      );
+      const enqueuedPerProfile = new Map<RateLimitKey | 'DEFAULT', number>();
+      let enqueued = 0;
+
+      for (const institution of due) {
+        if (!institution.nextScheduledScrape) {
+          await this.institutionRepository.updateSchedule(institution.id, {
+            nextScheduledScrape: this.computeInitialRun(institution, now)
+          });
+          continue;
+        }
+
+        const profile = this.getRateLimitKey(institution);
+        const count = enqueuedPerProfile.get(profile) || 0;
+        if (count >= SCRAPER_RATE_LIMITS[profile].burstLimit) {
+          continue;
+        }
+
+        try {
+          await this.queueService.publishToQueue(queueConfig.queues.scraper.name, this.buildJob(institution, profile));
+        } catch (error) {
+          this.logger.error('Failed to enqueue scheduled scrape', {
+            institutionId: institution.id,
+            error: (error as Error).message
+          });
+          continue;
+        }
+
+        enqueuedPerProfile.set(profile, count + 1);
+        enqueued++;
+
+        await this.institutionRepository.updateSchedule(institution.id, {
+          nextScheduledScrape: this.computeNextRun(institution, now)
+        });
+      }
+
+      if (enqueued > 0 || due.length > 0) {
+        this.logger.info('Scheduler tick completed', {
+          due: due.length,
+          enqueued,
+          deferred: due.filter(i => i.nextScheduledScrape).length - enqueued
+        });
+      }
+
+      return enqueued;
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Computes the next run one refresh interval after the given time, aligned to the
+   * institution's fixed slot in the spread window so runs stay evenly distributed
+   * @param institution Institution to schedule
+   * @param from Time of the previous run
+   * @returns Next scheduled run time
+   */
+  public computeNextRun(institution: Institution, from: Date): Date {
+    const earliest = from.getTime() + this.getRefreshIntervalDays(institution) * DAY_MS;
+    return this.alignToSlot(institution, earliest);
+  }
+
+  /**
+   * Excludes an institution from scheduled scrapes
+   * @param institutionId Institution ID
+   * @returns Updated schedule entry
+   */
+  public async pause(institutionId: string): Promise<ScheduledScrape> {
+    const institution = await this.institutionRepository.updateSchedule(institutionId, {
+      schedulePaused: true
+    });
+
+    this.logger.info('Institution schedule paused', { institutionId });
+    return this.toScheduledScrape(institution, new Date());
+  }
+
+  /**
+   * Resumes scheduled scrapes for an institution. An overdue institution is moved to
+   * its next slot rather than run immediately.
+   * @param institutionId Institution ID
+   * @returns Updated schedule entry
+   */
+  public async resume(institutionId: string): Promise<ScheduledScrape> {
+    const now = new Date();
+    const existing = await this.institutionRepository.findOne({ where: { id: institutionId } });
+    if (!existing) {
+      throw new Error(`Institution not found with id: ${institutionId}`);
+    }
+
+    const institution = await this.institutionRepository.updateSchedule(institutionId, {
+      schedulePaused: false,
+      nextScheduledScrape: this.computeInitialRun(existing, now)
+    });
+
+    this.logger.info('Institution schedule resumed', {
+      institutionId,
+      nextScheduledScrape: institution.nextScheduledScrape
+    });
+    return this.toScheduledScrape(institution, now);
+  }
+
+  /**
+   * Lists scheduled scrapes within the look-ahead window, soonest first
+   * @param hours Look-ahead window in hours
+   * @param limit Maximum entries to return
+   * @returns Upcoming schedule entries
+   */
+  public async getUpcomingSchedule(
+    hours: number = SCHEDULER_CONFIG.UPCOMING_WINDOW_HOURS,
+    limit = 200
+  ): Promise<ScheduledScrape[]> {
+    const now = new Date();
+    const until = new Date(now.getTime() + hours * 60 * 60 * 1000);
+    const institutions = await this.institutionRepository.findScheduledBefore(until, limit);
+
+    return institutions
+      .map(institution => this.toScheduledScrape(institution, now))
+      .filter(entry => entry.nextRunAt.getTime() <= until.getTime())
+      .sort((a, b) => a.nextRunAt.getTime() - b.nextRunAt.getTime());
+  }
+
+  /**
+   * First run for an institution without a schedule: one interval after its last
+   * scrape, or its next slot when it has never been scraped or is already overdue
+   */
+  private computeInitialRun(institution: Institution, now: Date): Date {
+    if (institution.lastScraped) {
+      const next = this.computeNextRun(institution, institution.lastScraped);
+      if (next.getTime() > now.getTime()) {
+        return next;
+      }
+    }
+    return this.alignToSlot(institution, now.getTime());
+  }
+
+  /**
+   * Moves a time forward to the institution's slot in the spread window. Slots are
+   * derived from a hash of the institution ID so they are stable across restarts.
+   */
+  private alignToSlot(institution: Institution, earliest: number): Date {
+    const window = SCHEDULER_CONFIG.SPREAD_WINDOW;
+    const digest = createHash('md5').update(institution.id).digest();
+    const offset = digest.readUInt32BE(0) % window;
+
+    let slot = Math.floor(earliest / window) * window + offset;
+    if (slot < earliest) {
+      slot += window;
+    }
+    return new Date(slot);
+  }
+
+  private getRefreshIntervalDays(institution: Institution): number {
+    const interval = Number(institution.metadata?.refreshInterval);
+    return Number.isFinite(interval) && interval > 0
+      ? interval
+      : SCHEDULER_CONFIG.DEFAULT_REFRESH_INTERVAL_DAYS;
+  }
+
+  private getRateLimitKey(institution: Institution): RateLimitKey | 'DEFAULT' {
+    return RATE_LIMIT_KEYS[institution.type] || 'DEFAULT';
+  }
+
+  private toScheduledScrape(institution: Institution, now: Date): ScheduledScrape {
+    const nextRunAt = institution.nextScheduledScrape
+      ? new Date(institution.nextScheduledScrape)
+      : this.computeInitialRun(institution, now);
+
+    return {
+      institutionId: institution.id,
+      institutionName: institution.name,
+      institutionType: institution.type,
+      refreshIntervalDays: this.getRefreshIntervalDays(institution),
+      lastScraped: institution.lastScraped,
+      nextRunAt,
+      paused: institution.schedulePaused,
+      overdue: !institution.schedulePaused && nextRunAt.getTime() < now.getTime()
+    };
+  }
+
+  /**
+   * Builds the scraper job for a scheduled run from the institution's configuration, with
+   * its portal vendor's default selectors filling any it leaves blank
+   */
+  private buildJob(institution: Institution, profile: RateLimitKey | 'DEFAULT'): ScraperJob {
+    const { links, metadata, ...fieldSelectors } = resolveVendorSelectors(institution.selectors, institution.vendor);
+    const selectors: Record<string, string> = { ...fieldSelectors, ...metadata } as Record<string, string>;
+    if (links?.length) {
+      selectors.links = links.join(', ');
+    }
+
+    const rateLimit = institution.rateLimit || SCRAPER_RATE_LIMITS[profile];
+
+    return {
+      id: randomUUID(),
+      url: institution.baseUrl,
+      institutionType: profile,
+      institutionId: institution.id,
+      mode: links?.length ? 'crawl' : 'single',
+      config: {
+        selectors,
+        timeout: 30000,
+        userAgent: 'TechTransfer-Scraper/1.0',
+        followRedirects: true,
+        maxRedirects: 5,
+        validateSSL: true
+      },
+      rateLimitConfig: {
+        requestsPerSecond: rateLimit.requestsPerSecond,
+        burstLimit: rateLimit.burstLimit,
+        cooldownPeriod: rateLimit.cooldownPeriod,
+        institutionOverrides: {},
+        burstHandling: { strategy: 'throttle' }
+      },
+      retryConfig: {
+        maxRetries: RETRY_CONFIG.MAX_RETRIES,
+        initialDelay: RETRY_CONFIG.INITIAL_DELAY,
+        maxDelay: RETRY_CONFIG.MAX_DELAY,
+        backoffFactor: RETRY_CONFIG.BACKOFF_FACTOR,
+        retryableErrors: [ERROR_TYPES.NETWORK_TIMEOUT, ERROR_TYPES.RATE_LIMITED]
+      },
+      status: 'pending',
+      retryCount: 0,
+      robotsOverride: institution.robotsOverride ?? null,
+      vendor: institution.vendor ?? null,
+      validationRules: {
+        required: ['title', 'description'],
+        patterns: {},
+        customValidators: {},
+        dataTypes: {}
+      }
+    };
+  }
+}
+
+export default SchedulerService;
\ No newline at end of file
@@ -0,0 +1,332 @@
+/**
+ * @fileoverview Service that groups scraper jobs into runs per institution refresh, stores
+ * the technologies each run produces, withdraws the ones completed runs stop listing, and
+ * scores institution health from run history for the monitoring scorecard.
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify'; // v6.0.1
+import * as winston from 'winston'; // v3.8.0
+import { randomUUID } from 'crypto';
+
+import {
+  ScraperJob,
+  ScraperResult,
+  ScraperError,
+  ScrapeRunFilters,
+  ScrapeRunItems,
+  ScrapeRunStatus,
+  CatalogReconciliation,
+  InstitutionHealthStatus,
+  InstitutionScorecardEntry
+} from '../interfaces/scraper.interface';
+import { TechnologyService } from './technology.service';
+import { InstitutionRepository } from '../db/repositories/institution.repository';
+import { ScrapeRunRepository, ScrapeRunPage, RunJobOutcome } from '../db/repositories/scrapeRun.repository';
+import { IScrapeRun } from '../db/models/scrapeRun.model';
+import { computeInstitutionHealth } from '../utils/scrapeHealth.util';
+import { normalizeTechnologyUrl } from '../utils/fingerprint.util';
+import { RUN_HEALTH, WITHDRAWAL } from '../constants/scraper.constants';
+import { ERROR_TYPES as APP_ERROR_TYPES } from '../constants/error.constants';
+import { AppError } from '../utils/error.util';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Tracks scrape runs and rolls them up into per-institution health
+ */
+@injectable()
+export class ScrapeRunService {
+  private readonly logger: winston.Logger;
+
+  constructor(
+    private readonly technologyService: TechnologyService,
+    private readonly institutionRepository: InstitutionRepository,
+    private readonly runRepository: ScrapeRunRepository = new ScrapeRunRepository()
+  ) {
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+      ),
+      transports: [
+        new winston.transports.Console(),
+        new winston.transports.File({ filename: 'scrape-run-error.log', level: 'error' })
+      ]
+    });
+  }
+
+  /**
+   * Records an attempt of a job in its run, opening the run on the first attempt. A job
+   * whose run already finished, such as a replayed dead letter, starts a new run.
+   * @returns Run id the job's later outcomes are recorded under, or null for jobs that
+   * are not tied to an institution
+   */
+  public async startJob(job: ScraperJob): Promise<string | null> {
+    if (!job.institutionId) {
+      return null;
+    }
+
+    let runId = job.runId || job.id;
+    const existing = await this.runRepository.findByRunId(runId);
+    if (existing && existing.status !== 'running') {
+      runId = randomUUID();
+    }
+
+    await this.runRepository.startJob({
+      runId,
+      institutionId: job.institutionId,
+      institutionType: job.institutionType,
+      jobId: job.id,
+      url: job.url
+    });
+
+    return runId;
+  }
+
+  /**
+   * Stores the technologies a job produced and settles the job in its run
+   * @param job Job carrying the run id returned by startJob
+   * @param results Per-technology results of the job
+   * @param truncated Whether the job stopped at a page or item cap, leaving technologies unlisted
+   * @param listingComplete Whether the crawl fetched and parsed every listing page. Only crawl
+   * jobs see the whole listing; a single-page job never does.
+   */
+  public async completeJob(
+    job: ScraperJob,
+    results: ScraperResult[],
+    truncated = false,
+    listingComplete = false
+  ): Promise<IScrapeRun | null> {
+    if (!job.runId) {
+      return null;
+    }
+
+    const items: ScrapeRunItems = {
+      found: results.length,
+      new: 0,
+      updated: 0,
+      unchanged: 0,
+      removed: 0,
+      withdrawn: 0,
+      failed: 0
+    };
+    const technologyIds: string[] = [];
+    const listedUrls = new Set(results.map(result => normalizeTechnologyUrl(result.url)));
+
+    for (const result of results) {
+      try {
+        const outcome = await this.technologyService.upsertFromScraper(result, listedUrls);
+        technologyIds.push(outcome.technology.id);
+        if (outcome.status === 'created') {
+          items.new++;
+        } else if (outcome.status === 'updated') {
+          items.updated++;
+        } else {
+          items.unchanged++;
+        }
+      } catch (error) {
+        items.failed++;
+        this.logger.warn('Failed to store scraped technology', {
+          runId: job.runId,
+          jobId: job.id,
+          url: result.url,
+          error: (error as Error).message
+        });
+      }
+    }
+
+    return this.settle(job, {
+      status: 'completed',
+      items,
+      error: null,
+      technologyIds,
+      truncated,
+      listingComplete: job.mode === 'crawl' && listingComplete
+    });
+  }
+
+  /**
+   * Counts a failed attempt that will be retried; the job stays open in its run
+   */
+  public async recordAttemptError(job: ScraperJob, error: ScraperError): Promise<void> {
+    if (!job.runId) {
+      return;
+    }
+    await this.runRepository.recordError(job.runId, error.type, error.message);
+  }
+
+  /**
+   * Counts the final failed attempt of a job and settles it as failed
+   */
+  public async failJob(job: ScraperJob, error: ScraperError): Promise<IScrapeRun | null> {
+    if (!job.runId) {
+      return null;
+    }
+
+    await this.runRepository.recordError(job.runId, error.type, error.message);
+    return this.settle(job, { status: 'failed', items: {}, error: error.message, technologyIds: [] });
+  }
+
+  /**
+   * Returns a run with its jobs and counts
+   * @throws AppError when the run does not exist
+   */
+  public async get(runId: string): Promise<IScrapeRun> {
+    const run = await this.runRepository.findByRunId(runId);
+    if (!run) {
+      throw new AppError(`Scrape run not found: ${runId}`, APP_ERROR_TYPES.NOT_FOUND_ERROR, 404);
+    }
+    return run;
+  }
+
+  /**
+   * Lists runs matching the filters, most recently started first
+   */
+  public async list(filters: ScrapeRunFilters, page: number, limit: number): Promise<ScrapeRunPage> {
+    return this.runRepository.findMany(filters, { page, limit });
+  }
+
+  /**
+   * Builds the institution health scorecard from each institution's latest finished run,
+   * worst score first
+   * @param status Only return institutions in this health band
+   */
+  public async getScorecard(status?: InstitutionHealthStatus): Promise<InstitutionScorecardEntry[]> {
+    const since = new Date(Date.now() - RUN_HEALTH.SCORECARD_WINDOW_DAYS * DAY_MS);
+    const rows = await this.runRepository.getScorecard(since);
+
+    return rows
+      .map(({ latest, previousScore, lastSuccessAt }): InstitutionScorecardEntry => ({
+        institutionId: latest.institutionId,
+        institutionName: latest.institutionName,
+        institutionType: latest.institutionType,
+        health: latest.health || computeInstitutionHealth([]),
+        previousScore,
+        lastRunId: latest.runId,
+        lastRunStatus: latest.status,
+        lastRunAt: latest.completedAt as Date,
+        lastSuccessAt,
+        items: latest.items,
+        durationMs: latest.durationMs ?? 0,
+        errorsByType: latest.errorsByType || {}
+      }))
+      .filter(entry => !status || entry.health.status === status)
+      .sort((a, b) => a.health.score - b.health.score);
+  }
+
+  /**
+   * Settles a job and finishes its run once no job in it is still running
+   */
+  private async settle(job: ScraperJob, outcome: RunJobOutcome): Promise<IScrapeRun | null> {
+    const run = await this.runRepository.settleJob(job.runId!, job.id, outcome);
+    if (!run || run.status !== 'running' || run.jobs.some(entry => entry.status === 'running')) {
+      return run;
+    }
+    return this.finish(run);
+  }
+
+  /**
+   * Closes a run: reconciles the institution's catalog against a completed run, withdrawing
+   * technologies that stopped being listed, and scores the institution over this and its
+   * earlier runs. Partial and failed runs never count as missing a technology, nor do runs
+   * that may not have seen the whole listing.
+   */
+  private async finish(run: IScrapeRun): Promise<IScrapeRun | null> {
+    const completedAt = new Date();
+    const status = this.resolveStatus(run);
+    const institution = await this.institutionRepository.findOne({ where: { id: run.institutionId } });
+    const history = await this.runRepository.findRecentFinished(run.institutionId, RUN_HEALTH.WINDOW - 1);
+
+    let reconciliation: CatalogReconciliation = { missed: 0, withdrawn: 0, pagesGone: 0 };
+    const incomplete = status === 'completed' ? this.incompleteListingReason(run, history) : null;
+    if (incomplete) {
+      this.logger.warn('Skipping catalog reconciliation', {
+        runId: run.runId,
+        institutionId: run.institutionId,
+        reason: incomplete
+      });
+    } else if (institution && status === 'completed') {
+      try {
+        reconciliation = await this.technologyService.reconcileInstitution(institution.name, run.seenTechnologyIds);
+      } catch (error) {
+        this.logger.warn('Catalog reconciliation failed', {
+          runId: run.runId,
+          institution: institution.name,
+          error: (error as Error).message
+        });
+      }
+    }
+
+    const health = computeInstitutionHealth([
+      { status, itemsFound: run.items.found, attempts: run.attempts, errorCount: run.errorCount },
+      ...history.map(previous => ({
+        status: previous.status,
+        itemsFound: previous.items.found,
+        attempts: previous.attempts,
+        errorCount: previous.errorCount
+      }))
+    ]);
+
+    const finished = await this.runRepository.finish(run.runId, {
+      status,
+      institutionName: institution?.name ?? null,
+      items: { ...run.items, removed: reconciliation.missed, withdrawn: reconciliation.withdrawn },
+      health,
+      completedAt,
+      durationMs: completedAt.getTime() - run.startedAt.getTime()
+    });
+
+    if (finished) {
+      this.logger.info('Scrape run finished', {
+        runId: run.runId,
+        institutionId: run.institutionId,
+        status,
+        items: finished.items,
+        errorCount: run.errorCount,
+        score: health.score,
+        health: health.status
+      });
+    }
+
+    return finished;
+  }
+
+  /**
+   * Explains why a completed run may have missed technologies the institution still lists,
+   * so that reconciling against it would withdraw them
+   * @param history The institution's earlier finished runs, newest first
+   * @returns Null when the run saw the whole listing
+   */
+  private incompleteListingReason(run: IScrapeRun, history: IScrapeRun[]): string | null {
+    if (run.jobs.some(job => job.truncated)) {
+      return 'crawl stopped at a page or item cap';
+    }
+    if (run.jobs.some(job => !job.listingComplete)) {
+      return 'a job did not crawl every listing page';
+    }
+    if (run.items.found === 0) {
+      return 'no technologies found';
+    }
+    if (run.items.failed > 0) {
+      return 'technologies failed to store';
+    }
+
+    const previous = history.find(entry => entry.status === 'completed');
+    if (previous && run.items.found < previous.items.found * WITHDRAWAL.MIN_FOUND_RATIO) {
+      return `found ${run.items.found} technologies after ${previous.items.found} in the previous run`;
+    }
+    return null;
+  }
+
+  private resolveStatus(run: IScrapeRun): ScrapeRunStatus {
+    const completed = run.jobs.filter(job => job.status === 'completed').length;
+    if (completed === run.jobs.length) {
+      return 'completed';
+    }
+    return completed > 0 ? 'partial' : 'failed';
+  }
+}
+
+export default ScrapeRunService;
@@ -14,12 +14,25 @@ import {
   ScraperResult,
   ScraperError,
   RateLimitConfig,
-  RateLimitStatus
+  CrawlResult,
+  RobotsOverride
 } from '../interfaces/scraper.interface';
 
-import { ScraperEngineFactory } from '../scraper/engines';
+import { ScraperEngineFactory, EngineSelector, EngineSelection } from '../scraper/engines';
+import { ListingCrawler } from '../scraper/crawler';
+import { RobotsDisallowedError } from '../scraper/robots';
+import { isPdfCapture, captureText } from '../scraper/snapshot';
+import { DistributedRateLimiter, RateLimitDecision } from '../scraper/rateLimit';
+import { detectVendor, resolveVendorSelectors, getNormalizingAdapter } from '../scraper/adapters';
+import { SelectorDriftService } from './selectorDrift.service';
+import { SnapshotService } from './snapshot.service';
+import { ScrapeRunService } from './scrapeRun.service';
 import { RabbitMQService } from '../lib/queue/rabbitmq.service';
-import { SCRAPER_ENGINES, ERROR_TYPES, SCRAPER_RATE_LIMITS } from '../constants/scraper.constants';
+import { InstitutionRepository } from '../db/repositories/institution.repository';
+import { Institution, InstitutionType } from '../db/models/institution.model';
+import { RobotsOverrideAudit } from '../db/models/robotsOverrideAudit.model';
+import { SCRAPER_ENGINES, ERROR_TYPES, InstitutionType as InstitutionTypeKey } from '../constants/scraper.constants';
+import { validateCrawlScope } from '../utils/validation.util';
 
 /**
  * Core service for managing web scraping operations with enhanced reliability and monitoring
@@ -30,13 +43,24 @@ export class ScraperService {
   private readonly activeJobs: Map<string, ScraperJob>;
   private readonly rateLimits: Map<string, RateLimitConfig>;
   private readonly breaker: any;
+  private readonly engineSelector: EngineSelector;
+  private readonly crawler: ListingCrawler;
+  private readonly jobResults: Map<string, ScraperResult[]>;
 
   constructor(
     private readonly engineFactory: ScraperEngineFactory,
-    private readonly queueService: RabbitMQService
+    private readonly queueService: RabbitMQService,
+    private readonly institutionRepository: InstitutionRepository,
+    private readonly rateLimiter: DistributedRateLimiter = DistributedRateLimiter.getInstance(),
+    private readonly selectorDrift?: SelectorDriftService,
+    private readonly snapshots?: SnapshotService,
+    private readonly scrapeRuns?: ScrapeRunService
   ) {
     this.activeJobs = new Map();
     this.rateLimits = new Map();
+    this.engineSelector = new EngineSelector();
+    this.crawler = new ListingCrawler();
+    this.jobResults = new Map();
     this.initializeLogger();
     this.initializeCircuitBreaker();
     this.setupQueueConsumer();
@@ -119,9 +143,12 @@ export class ScraperService {
         return;
       }
 
+      // Group this attempt with the other jobs of the institution's refresh
+      job = await this.startRun(job);
+
       // Store job in active jobs map
       this.activeJobs.set(job.id, {
-        ...job,
+        ...(await this.withInstitutionSettings(job)),
         status: 'pending',
         retryCount: 0
       });
@@ -133,6 +160,11 @@ export class ScraperService {
         throw new Error(result.error);
       }
 
+      const truncated = result.data?.truncated === true;
+      const listingComplete = result.data?.listingComplete === true;
+      await this.recordRun(job, runs =>
+        runs.completeJob(job, this.jobResults.get(job.id) || [], truncated, listingComplete));
+
       this.logger.info('Job completed successfully', { jobId: job.id });
     } catch (error) {
       await this.handleError(error as Error, job);
@@ -148,17 +180,45 @@ export class ScraperService {
       throw new Error(`Job ${jobId} not found`);
     }
 
-    this.logger.info('Processing job', { jobId, url: job.url });
+    this.logger.info('Processing job', { jobId, url: job.url, mode: job.mode || 'single' });
 
     try {
+      if (job.mode === 'crawl') {
+        const result = await this.processCrawlJob(job);
+        job.status = 'completed';
+        this.activeJobs.set(jobId, job);
+        return result;
+      }
+
       // Get appropriate scraper engine
-      const engine = await this.engineFactory.getEngine(
-        this.determineEngineType(job),
-        job
-      );
+      const selection = await this.determineEngineType(job);
+      const engine = await this.engineFactory.getEngine(selection.engineType, job);
+
+      // Execute scraping, escalating to a headless browser when static extraction comes back empty
+      let result: ScraperResult;
+      try {
+        result = await engine.scrape(job);
+      } catch (error) {
+        if (!this.canEscalate(selection, error as Error)) {
+          throw error;
+        }
+        result = await this.scrapeWithBrowser(job);
+      }
+
+      if (this.isEmptyExtraction(result) && selection.engineType !== SCRAPER_ENGINES.SELENIUM) {
+        result = await this.scrapeWithBrowser(job);
+      }
 
-      // Execute scraping
-      const result = await engine.scrape(job);
+      result = await this.normalizeResult(job, result);
+      const { rawPage } = result;
+      result = await this.archiveSnapshot(job, result);
+      if (rawPage && !isPdfCapture(rawPage)) {
+        const html = captureText(rawPage);
+        await this.checkSelectorDrift(job, html);
+        await this.detectPortalVendor(job, html);
+      }
+
+      this.jobResults.set(jobId, [result]);
 
       // Update job status
       job.status = 'completed';
@@ -172,6 +232,89 @@ export class ScraperService {
     }
   }
 
+  /**
+   * Crawls the job's listing pages and follows detail links, storing one result per
+   * technology. Navigation selectors fall back to the institution's configured
+   * pagination and link selectors.
+   */
+  private async processCrawlJob(job: ScraperJob): Promise<ScraperResult> {
+    const startTime = new Date();
+    const crawlJob = await this.withInstitutionCrawlSelectors(job);
+    const crawl: CrawlResult = await this.crawler.crawl(crawlJob);
+
+    const firstPage = crawl.results.find(result => result.rawPage && !isPdfCapture(result.rawPage))?.rawPage;
+    if (firstPage) {
+      await this.detectPortalVendor(job, captureText(firstPage));
+    }
+
+    const results: ScraperResult[] = [];
+    for (const result of crawl.results) {
+      results.push(await this.archiveSnapshot(job, await this.normalizeResult(job, result)));
+    }
+    this.jobResults.set(job.id, results);
+
+    const endTime = new Date();
+    return {
+      jobId: job.id,
+      url: crawl.startUrl,
+      data: {
+        itemCount: crawl.results.length,
+        listingPagesVisited: crawl.listingPagesVisited,
+        detailPagesVisited: crawl.detailPagesVisited,
+        skipped: crawl.skipped,
+        truncated: crawl.truncated,
+        listingComplete: crawl.listingComplete
+      },
+      timestamp: endTime,
+      success: crawl.results.length > 0,
+      rateLimitMetrics: {
+        requestCount: crawl.listingPagesVisited + crawl.detailPagesVisited,
+        burstCount: 0,
+        throttledRequests: 0,
+        queuedRequests: 0,
+        cooldownPeriods: 0,
+        averageRequestTime: 0
+      },
+      performanceMetrics: {
+        startTime,
+        endTime,
+        totalDuration: endTime.getTime() - startTime.getTime(),
+        networkTime: 0,
+        processingTime: 0,
+        memoryUsage: process.memoryUsage().heapUsed,
+        cpuUsage: 0
+      },
+      validationResults: {
+        isValid: crawl.results.length > 0,
+        errors: [],
+        warnings: [
+          ...(crawl.truncated ? [{ field: 'crawl', message: 'Crawl stopped at a page or item cap' }] : []),
+          ...(crawl.listingComplete ? [] : [{ field: 'crawl', message: 'Crawl skipped listing pages it could not fetch or parse' }])
+        ]
+      }
+    };
+  }
+
+  /**
+   * Retrieves a page of stored results for a completed job
+   */
+  public async getJobResults(
+    jobId: string,
+    page: number,
+    limit: number
+  ): Promise<{ data: ScraperResult[]; total: number }> {
+    const results = this.jobResults.get(jobId);
+    if (!results) {
+      throw new Error(`Results for job ${jobId} not found`);
+    }
+
+    const offset = (page - 1) * limit;
+    return {
+      data: results.slice(offset, offset + limit),
+      total: results.length
+    };
+  }
+
   /**
    * Handles errors with classification and recovery
    */
@@ -186,19 +329,81 @@ export class ScraperService {
       timestamp: new Date(),
       stack: error.stack || '',
       retryAttempt: job.retryCount,
-      rateLimitStatus: await this.getRateLimitStatus(job.institutionType),
+      rateLimitStatus: await this.getRateLimitStatus(job),
       recoverySuggestions: this.getRecoverySuggestions(errorType)
     };
 
+    if (errorType === ERROR_TYPES.ROBOTS_DISALLOWED) {
+      // Already recorded in the scrape log; retrying cannot succeed until robots.txt changes
+      this.logger.warn('Job skipped by robots.txt', { jobId: job.id, url: job.url });
+      await this.recordRun(job, runs => runs.failJob(job, scraperError));
+      return;
+    }
+
     this.logger.error('Job processing failed', scraperError);
 
     if (this.shouldRetry(job, errorType)) {
+      await this.recordRun(job, runs => runs.recordAttemptError(job, scraperError));
       await this.retryJob(job);
     } else {
+      await this.recordRun(job, runs => runs.failJob(job, scraperError));
       await this.moveToDeadLetter(job, scraperError);
     }
   }
 
+  /**
+   * Grants an institution a robots.txt override, recording who granted it and why
+   * @param institutionId Institution receiving the override
+   * @param override Override settings without the audit fields
+   * @param actor User granting the override
+   * @returns Updated institution
+   */
+  public async setRobotsOverride(
+    institutionId: string,
+    override: Pick<RobotsOverride, 'ignoreDisallow' | 'crawlDelay' | 'reason' | 'expiresAt'>,
+    actor: string
+  ): Promise<Institution> {
+    const robotsOverride: RobotsOverride = {
+      ignoreDisallow: override.ignoreDisallow,
+      crawlDelay: override.crawlDelay ?? null,
+      reason: override.reason,
+      grantedBy: actor,
+      grantedAt: new Date(),
+      expiresAt: override.expiresAt ?? null
+    };
+
+    this.logger.warn('Granting robots.txt override', { institutionId, actor, ...robotsOverride });
+    return this.institutionRepository.setRobotsOverride(institutionId, robotsOverride, actor, override.reason);
+  }
+
+  /**
+   * Removes an institution's robots.txt override so its robots.txt applies in full again
+   */
+  public async clearRobotsOverride(institutionId: string, actor: string, reason: string): Promise<Institution> {
+    this.logger.info('Clearing robots.txt override', { institutionId, actor });
+    return this.institutionRepository.setRobotsOverride(institutionId, null, actor, reason);
+  }
+
+  /**
+   * Returns the audit trail of robots.txt override changes for an institution
+   */
+  public async getRobotsOverrideHistory(institutionId: string, limit = 50): Promise<RobotsOverrideAudit[]> {
+    return this.institutionRepository.getRobotsOverrideHistory(institutionId, limit);
+  }
+
+  /**
+   * Returns the live status of the rate limiter shared by all workers for the job's domain
+   * without consuming a permit
+   * @param job Job whose domain and limits are checked
+   * @returns Current rate limit status
+   */
+  public async getRateLimitStatus(job: ScraperJob): Promise<RateLimitDecision> {
+    return this.rateLimiter.getStatus(
+      DistributedRateLimiter.keyFor(job.url, job.institutionId),
+      DistributedRateLimiter.resolveLimits(job)
+    );
+  }
+
   /**
    * Performs cleanup of resources and stale jobs
    */
@@ -216,6 +421,7 @@ export class ScraperService {
       for (const [id, job] of staleJobs) {
         this.logger.warn('Cleaning up stale job', { jobId: id, status: job.status });
         this.activeJobs.delete(id);
+        this.jobResults.delete(id);
       }
 
       this.logger.info('Cleanup completed successfully');
@@ -232,25 +438,317 @@ export class ScraperService {
     if (!job.id || !job.url || !job.institutionType) {
       throw new Error('Invalid job configuration');
     }
+
+    const scopeValidation = validateCrawlScope(job.crawlConfig?.scope);
+    if (!scopeValidation.isValid) {
+      throw new Error(`Invalid crawl scope: ${scopeValidation.errors.map(error => error.message).join('; ')}`);
+    }
   }
 
-  private determineEngineType(job: ScraperJob): SCRAPER_ENGINES {
-    // Logic to select appropriate engine based on institution type
-    return SCRAPER_ENGINES.BEAUTIFUL_SOUP;
+  /**
+   * Selects the engine from the job override, the institution's configured engine and a
+   * static render probe, persisting any escalation to Selenium back to the institution
+   */
+  private async determineEngineType(job: ScraperJob): Promise<EngineSelection> {
+    const institution = job.institutionId
+      ? await this.institutionRepository.findOne({ where: { id: job.institutionId } })
+      : null;
+
+    const selection = await this.engineSelector.select(job, institution);
+    if (selection.escalated) {
+      await this.persistEngineChoice(job, selection);
+    }
+
+    return selection;
   }
 
-  private async checkRateLimits(job: ScraperJob): Promise<RateLimitStatus> {
-    const limits = SCRAPER_RATE_LIMITS[job.institutionType] || SCRAPER_RATE_LIMITS.DEFAULT;
-    // Implementation of rate limit checking logic
-    return { isLimited: false, remainingRequests: limits.requestsPerSecond, resetTime: new Date(), currentBurst: 0, inCooldown: false };
+  /**
+   * Fills missing crawl navigation selectors from the institution's selector config and
+   * its portal vendor's defaults
+   */
+  private async withInstitutionCrawlSelectors(job: ScraperJob): Promise<ScraperJob> {
+    if (!job.institutionId || job.crawlConfig?.detailLinkSelector || job.config?.selectors?.links) {
+      return job;
+    }
+
+    const institution = await this.institutionRepository.findOne({ where: { id: job.institutionId } });
+    const selectors = institution ? resolveVendorSelectors(institution.selectors, institution.vendor) : null;
+    if (!selectors?.links?.length) {
+      return job;
+    }
+
+    return {
+      ...job,
+      crawlConfig: {
+        ...job.crawlConfig,
+        detailLinkSelector: selectors.links.join(', '),
+        paginationSelector: job.crawlConfig?.paginationSelector || selectors.pagination
+      }
+    };
   }
 
-  private async getRateLimitStatus(institutionType: string): Promise<RateLimitStatus> {
-    // Implementation of getting current rate limit status
-    return { isLimited: false, remainingRequests: 0, resetTime: new Date(), currentBurst: 0, inCooldown: false };
+  /**
+   * Attaches the institution's robots.txt override and proxy region to jobs that do not
+   * carry them. International institutions are pinned to proxies in their own country
+   * unless their metadata names another region.
+   */
+  private async withInstitutionSettings(job: ScraperJob): Promise<ScraperJob> {
+    if (!job.institutionId || (job.robotsOverride !== undefined && job.proxyRegion !== undefined)) {
+      return job;
+    }
+
+    const institution = await this.institutionRepository.findOne({ where: { id: job.institutionId } });
+    return {
+      ...job,
+      robotsOverride: job.robotsOverride !== undefined ? job.robotsOverride : institution?.robotsOverride ?? null,
+      proxyRegion: job.proxyRegion !== undefined ? job.proxyRegion : this.proxyRegionFor(institution)
+    };
+  }
+
+  private proxyRegionFor(institution: Institution | null): string | null {
+    if (institution?.metadata?.proxyRegion) {
+      return institution.metadata.proxyRegion.toUpperCase();
+    }
+    if (institution?.type === InstitutionType.INTERNATIONAL_UNIVERSITY && /^[a-z]{2}$/i.test(institution.country)) {
+      return institution.country.toUpperCase();
+    }
+    return null;
+  }
+
+  /**
+   * Re-runs a job on the Selenium engine after a static engine found nothing
+   */
+  private async scrapeWithBrowser(job: ScraperJob): Promise<ScraperResult> {
+    const selection = this.engineSelector.escalate(job);
+    this.logger.warn('Static extraction returned no data, escalating to Selenium', {
+      jobId: job.id,
+      url: job.url
+    });
+
+    await this.persistEngineChoice(job, selection);
+
+    const engine = await this.engineFactory.getEngine(selection.engineType, job);
+    return engine.scrape(job);
+  }
+
+  /**
+   * Stores a learned engine choice on the institution so later runs skip the probe
+   */
+  private async persistEngineChoice(job: ScraperJob, selection: EngineSelection): Promise<void> {
+    if (!job.institutionId || job.engineType) {
+      return;
+    }
+
+    try {
+      await this.institutionRepository.updateScraperEngine(job.institutionId, selection.engineType);
+      this.logger.info('Persisted learned scraper engine', {
+        institutionId: job.institutionId,
+        engineType: selection.engineType,
+        reason: selection.reason
+      });
+    } catch (error) {
+      // The selection still applies to this run even if it cannot be stored
+      this.logger.warn('Failed to persist learned scraper engine', {
+        institutionId: job.institutionId,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Applies the normalize step of the job's portal vendor adapter, or of its institution
+   * type's adapter, to a scraped result; backfill replays apply the same step to archived
+   * pages. Results are kept as extracted when no adapter applies or normalizing fails.
+   */
+  private async normalizeResult(job: ScraperJob, result: ScraperResult): Promise<ScraperResult> {
+    if (!result.success || !result.data) {
+      return result;
+    }
+
+    try {
+      const adapter = getNormalizingAdapter(job.institutionType as InstitutionTypeKey, job.vendor);
+      const html = result.rawPage && !isPdfCapture(result.rawPage) ? captureText(result.rawPage) : undefined;
+      const { html: _html, ...data } = await adapter.normalize({ ...result.data, html }, job);
+      return { ...result, data };
+    } catch (error) {
+      this.logger.warn('Result normalization failed; storing extracted fields', {
+        jobId: job.id,
+        institutionType: job.institutionType,
+        vendor: job.vendor,
+        error: (error as Error).message
+      });
+      return result;
+    }
+  }
+
+  /**
+   * Archives the raw page behind a result and swaps the in-memory capture for a reference
+   * to the snapshot. Archiving never fails the job it records.
+   */
+  private async archiveSnapshot(job: ScraperJob, result: ScraperResult): Promise<ScraperResult> {
+    const { rawPage, ...stored } = result;
+    if (!rawPage || !this.snapshots) {
+      return stored;
+    }
+
+    try {
+      const snapshot = await this.snapshots.archive(job, rawPage, result.url);
+      return snapshot ? { ...stored, snapshot } : stored;
+    } catch (error) {
+      this.logger.warn('Snapshot archiving failed', {
+        jobId: job.id,
+        url: result.url,
+        error: (error as Error).message
+      });
+      return stored;
+    }
+  }
+
+  /**
+   * Records the licensing portal vendor of an institution without one when the scraped
+   * page identifies it, so later runs use the vendor's selectors and adapter
+   */
+  private async detectPortalVendor(job: ScraperJob, html: string): Promise<void> {
+    if (!job.institutionId || job.vendor) {
+      return;
+    }
+
+    const fingerprint = detectVendor(html, job.url);
+    if (!fingerprint) {
+      return;
+    }
+
+    try {
+      const institution = await this.institutionRepository.findOne({ where: { id: job.institutionId } });
+      if (!institution || institution.vendor) {
+        return;
+      }
+
+      await this.institutionRepository.updateVendor(job.institutionId, fingerprint.vendor);
+      this.logger.info('Detected institution portal vendor', {
+        institutionId: job.institutionId,
+        vendor: fingerprint.vendor,
+        signals: fingerprint.signals
+      });
+    } catch (error) {
+      this.logger.warn('Failed to record detected portal vendor', {
+        jobId: job.id,
+        institutionId: job.institutionId,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Compares the run's selector yield with the institution's history. Drift tracking never
+   * fails the job it observes.
+   */
+  private async checkSelectorDrift(job: ScraperJob, html: string): Promise<void> {
+    if (!this.selectorDrift || !job.institutionId) {
+      return;
+    }
+
+    try {
+      await this.selectorDrift.record(job, html);
+    } catch (error) {
+      this.logger.warn('Selector drift check failed', {
+        jobId: job.id,
+        institutionId: job.institutionId,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Opens or joins the job's scrape run and stamps the run id on the job, so retries and
+   * later outcomes land in the same run
+   */
+  private async startRun(job: ScraperJob): Promise<ScraperJob> {
+    if (!this.scrapeRuns || !job.institutionId) {
+      return job;
+    }
+
+    try {
+      const runId = await this.scrapeRuns.startJob(job);
+      return runId ? { ...job, runId } : job;
+    } catch (error) {
+      this.logger.warn('Failed to open scrape run', {
+        jobId: job.id,
+        institutionId: job.institutionId,
+        error: (error as Error).message
+      });
+      return job;
+    }
+  }
+
+  /**
+   * Records a job outcome on its scrape run. Run tracking never fails the job it observes.
+   */
+  private async recordRun(job: ScraperJob, record: (runs: ScrapeRunService) => Promise<unknown>): Promise<void> {
+    if (!this.scrapeRuns || !job.runId) {
+      return;
+    }
+
+    try {
+      await record(this.scrapeRuns);
+    } catch (error) {
+      this.logger.warn('Failed to record scrape run outcome', {
+        jobId: job.id,
+        runId: job.runId,
+        error: (error as Error).message
+      });
+    }
+  }
+
+  /**
+   * Only parse failures from a static engine are worth retrying in a browser
+   */
+  private canEscalate(selection: EngineSelection, error: Error): boolean {
+    return selection.engineType !== SCRAPER_ENGINES.SELENIUM &&
+      this.hasErrorType(error) &&
+      error.type === ERROR_TYPES.PARSE_ERROR;
+  }
+
+  /**
+   * Checks whether an error was raised with a scraper error type
+   */
+  private hasErrorType(error: Error): error is Error & Pick<ScraperError, 'type'> {
+    return 'type' in error && typeof error.type === 'string';
+  }
+
+  private isEmptyExtraction(result: ScraperResult): boolean {
+    return Object.values(result.data || {}).every(value =>
+      value === null ||
+      value === undefined ||
+      value === '' ||
+      (Array.isArray(value) && value.length === 0)
+    );
+  }
+
+  private async checkRateLimits(job: ScraperJob): Promise<RateLimitDecision> {
+    return this.getRateLimitStatus(job);
+  }
+
+  /**
+   * Defers a job until the shared rate limiter expects a permit for its domain to free up
+   */
+  private async handleRateLimit(job: ScraperJob, status: RateLimitDecision): Promise<void> {
+    this.logger.warn('Rate limit reached, deferring job', {
+      jobId: job.id,
+      key: status.key,
+      delay: status.waitMs,
+      inCooldown: status.inCooldown
+    });
+
+    setTimeout(() => {
+      void this.scheduleJob(job);
+    }, status.waitMs);
   }
 
   private classifyError(error: Error): ERROR_TYPES {
+    if (error instanceof RobotsDisallowedError) {
+      return ERROR_TYPES.ROBOTS_DISALLOWED;
+    }
     // Implementation of error classification logic
     return ERROR_TYPES.INTERNAL_ERROR;
   }
@@ -268,7 +766,7 @@ export class ScraperService {
   }
 
   private async retryJob(job: ScraperJob): Promise<void> {
-    const updatedJob = {
+    const updatedJob: ScraperJob = {
       ...job,
       retryCount: job.retryCount + 1,
       status: 'pending'
@@ -280,6 +778,7 @@ export class ScraperService {
     await this.queueService.publishToQueue('scraper_dlq', {
       job,
       error,
+      source: 'service',
       timestamp: new Date()
     });
   }
@@ -11,10 +11,15 @@ import CircuitBreaker from 'opossum'; // v6.0.0
 import { 
   SearchParams, 
   SearchResponse, 
-  SearchMetrics 
+  SearchMetrics,
+  SuggestionResponse,
+  SuggestionType
 } from '../interfaces/search.interface';
 import { ElasticsearchService } from '../lib/search/elasticsearch.service';
+import { SearchQueryLog } from '../lib/search/queryLog';
 import { RedisService } from '../lib/cache/redis.service';
+import { searchConfig } from '../config/search.config';
+import { normalizeQueryText, rankSuggestions } from '../utils/suggestion.util';
 
 /**
  * High-performance search service implementing singleton pattern
@@ -24,6 +29,7 @@ export class SearchService {
   private static instance: SearchService;
   private elasticsearchService: ElasticsearchService;
   private cacheService: RedisService;
+  private queryLog: SearchQueryLog;
   private logger: Logger;
   private circuitBreaker: CircuitBreaker;
   private metrics: SearchMetrics;
@@ -41,9 +47,13 @@ export class SearchService {
       port: parseInt(process.env.REDIS_PORT || '6379'),
       password: process.env.REDIS_PASSWORD,
       ttl: 3600,
-      keyPrefix: 'search:'
+      keyPrefix: 'search:',
+      cluster: process.env.REDIS_CLUSTER_ENABLED === 'true'
     });
 
+    // Searched texts boost matching typeahead suggestions
+    this.queryLog = SearchQueryLog.getInstance();
+
     // Configure advanced logging
     this.logger = new Logger({
       level: 'info',
@@ -105,6 +115,11 @@ export class SearchService {
       this.validateSearchParams(params);
       const normalizedParams = this.normalizeSearchParams(params);
       
+      // Count first-page searches towards suggestion popularity
+      if (normalizedParams.pagination.page === 1) {
+        void this.queryLog.record(normalizedParams.query);
+      }
+
       // Generate cache key
       const cacheKey = this.generateCacheKey(normalizedParams);
 
@@ -135,6 +150,48 @@ export class SearchService {
     }
   }
 
+  /**
+   * Returns typeahead suggestions for a query prefix, grouped by type and ranked by their
+   * completion score boosted by how often each text was searched
+   * @param query Query prefix as typed
+   * @param types Suggestion types to return; defaults to all
+   */
+  public async suggest(query: string, types?: SuggestionType[]): Promise<SuggestionResponse> {
+    const config = searchConfig.search.suggest;
+    const prefix = normalizeQueryText(query).slice(0, config.maxLength);
+    const requestedTypes = config.types.filter(type => !types?.length || types.includes(type));
+
+    if (prefix.length < config.minLength || requestedTypes.length === 0) {
+      return { query: prefix, groups: [] };
+    }
+
+    const cacheKey = `suggest:${requestedTypes.join(',')}:${prefix}`;
+
+    try {
+      const cachedResult = await this.cacheService.get<SuggestionResponse>(cacheKey);
+      if (cachedResult) {
+        return cachedResult;
+      }
+
+      const suggestions = await this.elasticsearchService.suggest(prefix, requestedTypes, config.candidates);
+      const popularity = await this.queryLog.getPopularity(suggestions.map(suggestion => suggestion.text));
+      const response: SuggestionResponse = {
+        query: prefix,
+        groups: rankSuggestions(suggestions, popularity, {
+          types: requestedTypes,
+          size: config.size,
+          popularityWeight: config.popularityWeight
+        })
+      };
+
+      await this.cacheService.set(cacheKey, response, config.cacheTtl);
+      return response;
+    } catch (error) {
+      this.logger.error('Suggestion error', { error, query: prefix });
+      throw error;
+    }
+  }
+
   /**
    * Returns current search performance metrics
    */
@@ -197,7 +254,8 @@ export class SearchService {
       pagination: {
         page: params.pagination?.page || 1,
         limit: Math.min(params.pagination?.limit || 20, 100)
-      }
+      },
+      semanticWeight: params.semanticWeight
     };
   }
 
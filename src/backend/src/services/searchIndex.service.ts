@@ -0,0 +1,387 @@
+/**
+ * @fileoverview Service that keeps the Elasticsearch technology index in step with the
+ * technologies table. Database triggers queue every insert, update, withdrawal and delete;
+ * workers drain the queue in bulk batches. A full reindex builds a fresh index behind the
+ * alias and swaps it in, and the consistency checker reports drift between the two stores.
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify'; // v6.0.1
+import * as winston from 'winston'; // v3.8.0
+import { createHash } from 'crypto';
+
+import {
+  IndexConsistencyReport,
+  IndexDrift,
+  IndexingBatchResult,
+  ReindexResult,
+  SearchDocument,
+  SearchDocumentPeople
+} from '../interfaces/search.interface';
+import { TechnologyRepository } from '../db/repositories/technology.repository';
+import {
+  ClaimedIndexChange,
+  SearchIndexQueueRepository
+} from '../db/repositories/searchIndexQueue.repository';
+import { Technology } from '../db/models/technology.model';
+import { BulkWrite, ElasticsearchService } from '../lib/search/elasticsearch.service';
+import { embedTexts, getEmbeddingProvider, technologyEmbeddingText } from '../lib/embedding';
+import { EmbeddingProvider } from '../interfaces/embedding.interface';
+import { searchConfig } from '../config/search.config';
+import { buildSuggestInputs } from '../utils/suggestion.util';
+
+/**
+ * Options for a consistency check
+ */
+export interface ConsistencyCheckOptions {
+  /** Queue fixes for every drifted document */
+  repair?: boolean;
+}
+
+/**
+ * Drift found while comparing the table with the index, with samples capped
+ */
+class DriftCollector {
+  public readonly drift: IndexDrift = { count: 0, sample: [] };
+  public readonly ids: string[] = [];
+
+  constructor(private readonly sampleSize: number, private readonly keepIds: boolean) {}
+
+  add(id: string): void {
+    this.drift.count++;
+    if (this.drift.sample.length < this.sampleSize) {
+      this.drift.sample.push(id);
+    }
+    if (this.keepIds) {
+      this.ids.push(id);
+    }
+  }
+}
+
+/**
+ * Writes queued technology changes to the search index and rebuilds or audits the index
+ */
+@injectable()
+export class SearchIndexService {
+  private readonly logger: winston.Logger;
+  private readonly config = searchConfig.indexing;
+  private readonly alias = searchConfig.elasticsearch.indices.technology;
+
+  constructor(
+    private readonly technologyRepository: TechnologyRepository,
+    private readonly queueRepository: SearchIndexQueueRepository,
+    private readonly elasticsearch: ElasticsearchService = ElasticsearchService.getInstance(),
+    private readonly embeddingProvider: EmbeddingProvider | null = getEmbeddingProvider()
+  ) {
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+      ),
+      transports: [
+        new winston.transports.Console(),
+        new winston.transports.File({ filename: 'search-index-error.log', level: 'error' })
+      ]
+    });
+  }
+
+  /**
+   * Hash of a document's indexed fields. The update time is left out so re-saving an
+   * unchanged row does not count as drift, and the embedding and suggester inputs since they
+   * are derived from the hashed fields.
+   */
+  public static digest(document: SearchDocument): string {
+    const { updatedAt, digest, embedding, suggest, ...fields } = document;
+    return createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+  }
+
+  /**
+   * Claims one batch of queued changes and writes it to the index. Changes that fail are
+   * left queued with a backoff; an unreachable cluster or embedding provider fails the whole
+   * batch without throwing.
+   */
+  public async processQueue(): Promise<IndexingBatchResult> {
+    const changes = await this.queueRepository.claim(this.config.batchSize, this.config.leaseSeconds);
+    const result: IndexingBatchResult = { claimed: changes.length, indexed: 0, deleted: 0, failed: 0 };
+    if (changes.length === 0) {
+      return result;
+    }
+
+    const errors = new Map<string, string>();
+    const succeeded: ClaimedIndexChange[] = [];
+    const failed: ClaimedIndexChange[] = [];
+
+    try {
+      const writes = await this.buildWrites(changes);
+      const items = await this.elasticsearch.bulk(this.alias, writes);
+      items.forEach((item, position) => {
+        const write = writes[position];
+        const ok = (item.status >= 200 && item.status < 300) ||
+          (write.operation === 'delete' && item.status === 404);
+        if (ok) {
+          succeeded.push(changes[position]);
+          if (write.operation === 'delete') {
+            result.deleted++;
+          } else {
+            result.indexed++;
+          }
+        } else {
+          failed.push(changes[position]);
+          errors.set(item.id, item.error || `HTTP ${item.status}`);
+        }
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.logger.warn('Indexing batch failed', { error: message, changes: changes.length });
+      failed.push(...changes);
+      changes.forEach(change => errors.set(change.technologyId, message));
+    }
+
+    await this.queueRepository.complete(succeeded);
+    await this.queueRepository.fail(failed, errors, this.config.retryBaseDelay, this.config.retryMaxDelay);
+    result.failed = failed.length;
+
+    const stuck = failed.filter(change => change.attempts + 1 >= this.config.maxAttempts);
+    if (stuck.length > 0) {
+      this.logger.error('Technologies repeatedly failed to index', {
+        technologyIds: stuck.map(change => change.technologyId),
+        errors: stuck.map(change => errors.get(change.technologyId))
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Processes batches until no queued change is available
+   */
+  public async drainQueue(): Promise<IndexingBatchResult> {
+    const total: IndexingBatchResult = { claimed: 0, indexed: 0, deleted: 0, failed: 0 };
+
+    for (;;) {
+      const batch = await this.processQueue();
+      total.claimed += batch.claimed;
+      total.indexed += batch.indexed;
+      total.deleted += batch.deleted;
+      total.failed += batch.failed;
+
+      // A batch with failures would be claimed again only after its backoff
+      if (batch.claimed < this.config.batchSize || batch.failed === batch.claimed) {
+        return total;
+      }
+    }
+  }
+
+  /**
+   * Rebuilds the index from the whole catalog into a new index and moves the alias onto it.
+   * Searches keep using the old index until the swap. Technologies changed while the copy
+   * ran, or that failed to copy, are queued again afterwards; technologies deleted meanwhile
+   * are caught by a consistency check with repair.
+   */
+  public async reindex(): Promise<ReindexResult> {
+    const started = Date.now();
+    const startedAt = new Date(started);
+    const index = `${this.alias}_${started}`;
+    const previousIndices = await this.elasticsearch.getAliasTargets(this.alias);
+
+    this.logger.info('Starting search reindex', { alias: this.alias, index, previousIndices });
+    await this.elasticsearch.createTechnologyIndex(index);
+
+    let documents = 0;
+    const failedIds: string[] = [];
+    try {
+      let afterId: string | null = null;
+      for (;;) {
+        const page: Technology[] = await this.technologyRepository.findPageAfter(afterId, this.config.reindexBatchSize);
+        if (page.length === 0) {
+          break;
+        }
+
+        const people = await this.technologyRepository.findSearchPeople(page.map(technology => technology.id));
+        const embedded = await this.embedDocuments(
+          page,
+          page.map(technology => this.toDocument(technology, people.get(technology.id)))
+        );
+        const items = await this.elasticsearch.bulk(index, page.map((technology, position) => ({
+          id: technology.id,
+          operation: 'index' as const,
+          document: embedded[position]
+        })));
+
+        for (const item of items) {
+          if (item.status >= 200 && item.status < 300) {
+            documents++;
+          } else {
+            failedIds.push(item.id);
+            this.logger.warn('Technology failed to reindex', { technologyId: item.id, error: item.error });
+          }
+        }
+        afterId = page[page.length - 1].id;
+      }
+
+      await this.elasticsearch.swapAlias(this.alias, index, previousIndices);
+    } catch (error) {
+      this.logger.error('Search reindex failed, keeping the current index', { index, error });
+      await this.elasticsearch.deleteIndices([index]);
+      throw error;
+    }
+
+    await this.elasticsearch.deleteIndices(previousIndices.filter(previous => previous !== this.alias));
+    const requeued = await this.queueRepository.enqueueChangedSince(startedAt) +
+      await this.queueRepository.enqueue(failedIds, 'index');
+
+    const result: ReindexResult = {
+      alias: this.alias,
+      index,
+      previousIndices,
+      documents,
+      failed: failedIds.length,
+      requeued,
+      durationMs: Date.now() - started
+    };
+    this.logger.info('Search reindex completed', result);
+    return result;
+  }
+
+  /**
+   * Compares the technologies table with the index. Technologies with a change still queued
+   * are skipped, since the queue is about to settle them.
+   * @param options Whether to queue fixes for the drift found
+   */
+  public async checkConsistency(options: ConsistencyCheckOptions = {}): Promise<IndexConsistencyReport> {
+    const repair = options.repair ?? false;
+    const sampleSize = this.config.driftSampleSize;
+    const indices = await this.elasticsearch.getAliasTargets(this.alias);
+    const missing = new DriftCollector(sampleSize, repair);
+    const stale = new DriftCollector(sampleSize, repair);
+    const orphaned = new DriftCollector(sampleSize, repair);
+    let databaseCount = 0;
+    let pending = 0;
+
+    let afterId: string | null = null;
+    for (;;) {
+      const page: Technology[] = await this.technologyRepository.findPageAfter(afterId, this.config.reindexBatchSize);
+      if (page.length === 0) {
+        break;
+      }
+      databaseCount += page.length;
+
+      const ids = page.map(technology => technology.id);
+      const [queued, people, digests] = await Promise.all([
+        this.queueRepository.findPending(ids),
+        this.technologyRepository.findSearchPeople(ids),
+        this.elasticsearch.getDigests(this.alias, ids)
+      ]);
+
+      for (const technology of page) {
+        if (queued.has(technology.id)) {
+          pending++;
+        } else if (!digests.has(technology.id)) {
+          missing.add(technology.id);
+        } else if (digests.get(technology.id) !== this.toDocument(technology, people.get(technology.id)).digest) {
+          stale.add(technology.id);
+        }
+      }
+      afterId = page[page.length - 1].id;
+    }
+
+    await this.elasticsearch.scanIds(this.alias, this.config.reindexBatchSize, async ids => {
+      const [existing, queued] = await Promise.all([
+        this.technologyRepository.findExistingIds(ids),
+        this.queueRepository.findPending(ids)
+      ]);
+      ids.filter(id => !existing.has(id) && !queued.has(id)).forEach(id => orphaned.add(id));
+    });
+
+    const indexCount = await this.elasticsearch.count(this.alias);
+    const consistent = missing.drift.count === 0 && stale.drift.count === 0 && orphaned.drift.count === 0;
+
+    let repaired = 0;
+    if (repair && !consistent) {
+      repaired += await this.queueRepository.enqueue([...missing.ids, ...stale.ids], 'index');
+      repaired += await this.queueRepository.enqueue(orphaned.ids, 'delete');
+    }
+
+    const report: IndexConsistencyReport = {
+      alias: this.alias,
+      indices,
+      checkedAt: new Date(),
+      databaseCount,
+      indexCount,
+      pending,
+      missing: missing.drift,
+      stale: stale.drift,
+      orphaned: orphaned.drift,
+      consistent,
+      repaired
+    };
+
+    if (!consistent) {
+      this.logger.warn('Search index drift detected', {
+        missing: missing.drift.count,
+        stale: stale.drift.count,
+        orphaned: orphaned.drift.count,
+        repaired
+      });
+    }
+    return report;
+  }
+
+  /**
+   * Loads the current rows for a batch of changes. A technology queued for indexing whose
+   * row is gone by now is removed from the index instead.
+   */
+  private async buildWrites(changes: ClaimedIndexChange[]): Promise<BulkWrite[]> {
+    const indexIds = changes
+      .filter(change => change.operation === 'index')
+      .map(change => change.technologyId);
+    const [technologies, people] = await Promise.all([
+      this.technologyRepository.findByIds(indexIds),
+      this.technologyRepository.findSearchPeople(indexIds)
+    ]);
+    const documents = await this.embedDocuments(
+      technologies,
+      technologies.map(technology => this.toDocument(technology, people.get(technology.id)))
+    );
+    const byId = new Map(technologies.map((technology, position) => [technology.id, documents[position]]));
+
+    return changes.map((change): BulkWrite => {
+      const document = change.operation === 'index' ? byId.get(change.technologyId) : undefined;
+      if (!document) {
+        return { id: change.technologyId, operation: 'delete' };
+      }
+      return { id: change.technologyId, operation: 'index', document };
+    });
+  }
+
+  /**
+   * Adds semantic embeddings to technologies' documents when a provider is configured.
+   * Technologies without text to embed are indexed without one.
+   */
+  private async embedDocuments(technologies: Technology[], documents: SearchDocument[]): Promise<SearchDocument[]> {
+    if (!this.embeddingProvider) {
+      return documents;
+    }
+
+    const vectors = await embedTexts(technologies.map(technologyEmbeddingText), this.embeddingProvider);
+    return documents.map((document, position) => {
+      const embedding = vectors[position];
+      return embedding ? { ...document, embedding } : document;
+    });
+  }
+
+  /**
+   * Builds a technology's search document with its digest and typeahead inputs
+   */
+  private toDocument(technology: Technology, people?: SearchDocumentPeople): SearchDocument {
+    const document = technology.toSearchDocument(people);
+    return {
+      ...document,
+      digest: SearchIndexService.digest(document),
+      suggest: buildSuggestInputs(document, searchConfig.search.suggest.titleSuffixes)
+    };
+  }
+}
+
+export default SearchIndexService;
@@ -0,0 +1,180 @@
+/**
+ * @fileoverview Service that tracks selector yields per institution, flags institutions whose
+ * title or description selectors stop matching, and proposes replacement selectors from the
+ * last-good HTML snapshot.
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify'; // v6.0.1
+import * as winston from 'winston'; // v3.8.0
+
+import { ScraperJob, SelectorDriftField } from '../interfaces/scraper.interface';
+import { SelectorDriftDetector } from '../scraper/drift';
+import { ScrapeLogRepository } from '../db/repositories/scrapeLog.repository';
+import { SelectorDriftRepository, SelectorCheckContext } from '../db/repositories/selectorDrift.repository';
+import { ISelectorDrift, ISelectorSnapshot } from '../db/models/selectorDrift.model';
+import { SELECTOR_DRIFT } from '../constants/scraper.constants';
+import { ERROR_TYPES as APP_ERROR_TYPES } from '../constants/error.constants';
+import { AppError } from '../utils/error.util';
+
+/**
+ * Detects selector drift from extraction yields and keeps the flags operators act on
+ */
+@injectable()
+export class SelectorDriftService {
+  private readonly logger: winston.Logger;
+
+  constructor(
+    private readonly scrapeLogRepository: ScrapeLogRepository,
+    private readonly selectorDriftRepository: SelectorDriftRepository,
+    private readonly detector: SelectorDriftDetector = new SelectorDriftDetector()
+  ) {
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+      ),
+      transports: [
+        new winston.transports.Console(),
+        new winston.transports.File({ filename: 'selector-drift-error.log', level: 'error' })
+      ]
+    });
+  }
+
+  /**
+   * Records the selector yield of a run against the page it fetched and updates the
+   * institution's drift flag
+   * @param job Job that produced the page
+   * @param html Page the job's selectors ran against
+   * @returns Fields currently flagged as drifted
+   */
+  public async record(job: ScraperJob, html: string): Promise<SelectorDriftField[]> {
+    if (!job.institutionId) {
+      return [];
+    }
+
+    const selectors = job.config?.selectors || {};
+    const yields = this.detector.countMatches(html, selectors);
+    const context: SelectorCheckContext = {
+      institutionId: job.institutionId,
+      institutionType: job.institutionType,
+      url: job.url,
+      selectors
+    };
+
+    // Read history before logging this run so the baseline only holds previous runs
+    const history = await this.scrapeLogRepository.getSelectorYieldHistory(
+      job.institutionId,
+      SELECTOR_DRIFT.HISTORY_SIZE
+    );
+    await this.scrapeLogRepository.logSelectorYield(yields, {
+      jobId: job.id,
+      url: job.url,
+      institutionType: job.institutionType,
+      institutionId: job.institutionId
+    });
+
+    const record = await this.selectorDriftRepository.findByInstitution(job.institutionId);
+    const drifted = this.detector.evaluate(selectors, yields, history);
+
+    // Open flags keep their baseline until the yield recovers, so drift outlasting the
+    // history window is not forgotten
+    if (record?.status === 'drifted') {
+      for (const open of record.fields) {
+        const current = yields[open.field] ?? 0;
+        if (!drifted.some(field => field.field === open.field) && !this.detector.hasRecovered(open.baseline, current)) {
+          drifted.push({ ...open, selector: selectors[open.field] || open.selector, current, suggestions: [] });
+        }
+      }
+    }
+
+    if (drifted.length === 0) {
+      await this.selectorDriftRepository.markHealthy(context, this.toSnapshot(job, html, selectors, yields));
+      return [];
+    }
+
+    const fields = drifted.map(field => ({
+      ...field,
+      suggestions: this.suggestFor(field, record?.lastGood ?? null, html)
+    }));
+    await this.selectorDriftRepository.markDrifted(context, fields);
+
+    this.logger.warn('Selector drift detected', {
+      institutionId: job.institutionId,
+      jobId: job.id,
+      fields: fields.map(({ field, baseline, current, reason }) => ({ field, baseline, current, reason }))
+    });
+
+    return fields;
+  }
+
+  /**
+   * Lists institutions with an open drift flag
+   */
+  public async listFlagged(): Promise<ISelectorDrift[]> {
+    return this.selectorDriftRepository.findDrifted();
+  }
+
+  /**
+   * Closes an institution's drift flag. The next run flags it again if its selectors
+   * still come up short.
+   * @throws AppError when the institution has no open flag
+   */
+  public async dismiss(institutionId: string, actor?: string): Promise<void> {
+    const dismissed = await this.selectorDriftRepository.dismiss(institutionId, actor ?? null);
+    if (!dismissed) {
+      throw new AppError(
+        `No open selector drift for institution: ${institutionId}`,
+        APP_ERROR_TYPES.NOT_FOUND_ERROR,
+        404
+      );
+    }
+
+    this.logger.info('Dismissed selector drift', { institutionId, actor });
+  }
+
+  /**
+   * Proposes replacements by comparing the selector that worked on the snapshot with the new page
+   */
+  private suggestFor(field: SelectorDriftField, lastGood: ISelectorSnapshot | null, html: string): SelectorDriftField['suggestions'] {
+    if (!lastGood?.html) {
+      return [];
+    }
+
+    try {
+      return this.detector.suggest(
+        lastGood.html,
+        lastGood.selectors[field.field] || field.selector,
+        html,
+        field.baseline
+      );
+    } catch (error) {
+      this.logger.error('Failed to build selector suggestions', {
+        field: field.field,
+        error: (error as Error).message
+      });
+      return [];
+    }
+  }
+
+  /**
+   * A page becomes the last-good snapshot only when every monitored selector matched
+   */
+  private toSnapshot(
+    job: ScraperJob,
+    html: string,
+    selectors: Record<string, string>,
+    yields: Record<string, number>
+  ): ISelectorSnapshot | null {
+    const monitored = SELECTOR_DRIFT.MONITORED_FIELDS.filter(field => selectors[field]);
+    const healthy = monitored.length > 0 && monitored.every(field => yields[field] > 0);
+    if (!healthy || html.length > SELECTOR_DRIFT.MAX_SNAPSHOT_SIZE) {
+      return null;
+    }
+
+    return { url: job.url, html, selectors, yields, capturedAt: new Date() };
+  }
+}
+
+export default SelectorDriftService;
\ No newline at end of file
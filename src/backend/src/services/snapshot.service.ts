@@ -0,0 +1,191 @@
+/**
+ * @fileoverview Service that archives the raw response behind every scrape result as a
+ * compressed, content-addressed snapshot, and serves or re-parses archived snapshots
+ * without contacting the institution again.
+ * @version 1.0.0
+ */
+
+import { injectable } from 'inversify'; // v6.0.1
+import * as winston from 'winston'; // v3.8.0
+import dayjs from 'dayjs'; // v1.10.0
+import { createHash } from 'crypto';
+import { gzip, gunzip } from 'zlib';
+import { promisify } from 'util';
+
+import { ScraperJob, RawPageCapture, SnapshotReference } from '../interfaces/scraper.interface';
+import { S3StorageService } from '../lib/storage';
+import { ScrapeSnapshotRepository } from '../db/repositories/scrapeSnapshot.repository';
+import { IScrapeSnapshot } from '../db/models/scrapeSnapshot.model';
+import { HTMLParser, PDFParser, ParserType, ParsedHTMLResult, ParsedPDFResult } from '../scraper/parsers';
+import { isPdfCapture, captureText } from '../scraper/snapshot';
+import { SNAPSHOT_ARCHIVE } from '../constants/scraper.constants';
+import { ERROR_TYPES as APP_ERROR_TYPES } from '../constants/error.constants';
+import { AppError } from '../utils/error.util';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/**
+ * Archived snapshot together with its decompressed body
+ */
+export interface SnapshotSource {
+  snapshot: IScrapeSnapshot;
+  body: Buffer;
+}
+
+/**
+ * Outcome of running the current parsers over an archived snapshot
+ */
+export interface SnapshotReparseResult {
+  snapshotId: string;
+  parser: ParserType;
+  selectors?: Record<string, string>;
+  result: ParsedHTMLResult | ParsedPDFResult;
+}
+
+/**
+ * Archives raw scrape responses and replays them through the parsers
+ */
+@injectable()
+export class SnapshotService {
+  private readonly logger: winston.Logger;
+
+  constructor(
+    private readonly storage: S3StorageService,
+    private readonly snapshotRepository: ScrapeSnapshotRepository = new ScrapeSnapshotRepository()
+  ) {
+    this.logger = winston.createLogger({
+      level: 'info',
+      format: winston.format.combine(
+        winston.format.timestamp(),
+        winston.format.json()
+      ),
+      transports: [
+        new winston.transports.Console(),
+        new winston.transports.File({ filename: 'snapshot-error.log', level: 'error' })
+      ]
+    });
+  }
+
+  /**
+   * Archives a fetched response. Identical bodies share one stored object; it is written
+   * again once it nears expiry so content that never changes stays available.
+   * @param job Job that fetched the page
+   * @param page Response as fetched
+   * @param url Page URL when it differs from the job URL, as for crawled detail pages
+   * @returns Reference to store with the scrape result, or null when the body is too large
+   */
+  public async archive(job: ScraperJob, page: RawPageCapture, url: string = job.url): Promise<SnapshotReference | null> {
+    if (page.body.length > SNAPSHOT_ARCHIVE.MAX_BODY_SIZE) {
+      this.logger.warn('Response too large to archive', { jobId: job.id, url, size: page.body.length });
+      return null;
+    }
+
+    const sha256 = createHash('sha256').update(page.body).digest('hex');
+    const key = `${SNAPSHOT_ARCHIVE.KEY_PREFIX}${sha256.slice(0, 2)}/${sha256}.gz`;
+    const now = new Date();
+
+    const stored = await this.snapshotRepository.findLatestByHash(sha256);
+    let storedAt: Date;
+    let storedSize: number;
+    if (stored && dayjs(now).diff(stored.storedAt, 'day') < SNAPSHOT_ARCHIVE.REFRESH_AFTER_DAYS) {
+      storedAt = stored.storedAt;
+      storedSize = stored.storedSize;
+    } else {
+      const compressed = await gzipAsync(page.body);
+      await this.storage.uploadFile(key, compressed, {
+        metadata: { 'content-type': page.contentType, sha256 },
+        tags: { type: 'scrape-snapshot' }
+      });
+      storedAt = now;
+      storedSize = compressed.length;
+    }
+
+    const snapshot = await this.snapshotRepository.create({
+      jobId: job.id,
+      url,
+      institutionId: job.institutionId ?? null,
+      institutionType: job.institutionType,
+      selectors: job.config?.selectors || {},
+      key,
+      sha256,
+      contentType: page.contentType,
+      headers: page.headers,
+      statusCode: page.statusCode ?? null,
+      size: page.body.length,
+      storedSize,
+      capturedAt: now,
+      storedAt,
+      expiresAt: dayjs(storedAt).add(SNAPSHOT_ARCHIVE.RETENTION_DAYS, 'day').toDate()
+    });
+
+    return {
+      id: snapshot.id,
+      key,
+      sha256,
+      contentType: page.contentType,
+      size: page.body.length,
+      capturedAt: now
+    };
+  }
+
+  /**
+   * Retrieves snapshot metadata
+   * @throws AppError when the snapshot does not exist or has expired
+   */
+  public async getSnapshot(snapshotId: string): Promise<IScrapeSnapshot> {
+    const snapshot = await this.snapshotRepository.findById(snapshotId);
+    if (!snapshot) {
+      throw new AppError(
+        `Snapshot not found: ${snapshotId}`,
+        APP_ERROR_TYPES.NOT_FOUND_ERROR,
+        404
+      );
+    }
+    return snapshot;
+  }
+
+  /**
+   * Retrieves a snapshot with its body exactly as it was fetched
+   */
+  public async getSource(snapshotId: string): Promise<SnapshotSource> {
+    const snapshot = await this.getSnapshot(snapshotId);
+    return { snapshot, body: await this.readBody(snapshot) };
+  }
+
+  /**
+   * Downloads and decompresses the body behind a snapshot record
+   */
+  public async readBody(snapshot: Pick<IScrapeSnapshot, 'key'>): Promise<Buffer> {
+    return gunzipAsync(await this.storage.downloadFile(snapshot.key));
+  }
+
+  /**
+   * Runs the current HTML or PDF parser over an archived snapshot
+   * @param snapshotId Snapshot to parse
+   * @param selectors Selectors to try instead of the ones the original job used
+   */
+  public async reparse(snapshotId: string, selectors?: Record<string, string>): Promise<SnapshotReparseResult> {
+    const { snapshot, body } = await this.getSource(snapshotId);
+
+    if (isPdfCapture({ body, contentType: snapshot.contentType })) {
+      const result = await new PDFParser().parse(body);
+      return { snapshotId, parser: ParserType.PDF, result };
+    }
+
+    // Pages without selectors still parse from their JSON-LD, microdata and OpenGraph
+    const parserSelectors = selectors || snapshot.selectors || {};
+    const parser = new HTMLParser({ selectors: parserSelectors, validateSelectors: false });
+    const result = await parser.parse(captureText({ body }));
+
+    this.logger.info('Re-parsed snapshot', {
+      snapshotId,
+      institutionId: snapshot.institutionId,
+      success: result.success
+    });
+
+    return { snapshotId, parser: ParserType.HTML, selectors: parserSelectors, result };
+  }
+}
+
+export default SnapshotService;
\ No newline at end of file
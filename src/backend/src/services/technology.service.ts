@@ -6,14 +6,35 @@
 
 import { injectable, singleton } from 'tsyringe'; // ^4.7.0
 import { Logger } from 'winston'; // ^3.8.0
-import { CircuitBreaker } from 'opossum'; // ^6.0.0
+import CircuitBreaker from 'opossum'; // ^6.0.0
 import { validate } from 'class-validator'; // ^0.13.0
 import { Technology } from '../db/models/technology.model';
-import { TechnologyRepository } from '../db/repositories/technology.repository';
+import {
+  TechnologyRepository,
+  TechnologyUpsertResult,
+  TechnologyActivity
+} from '../db/repositories/technology.repository';
+import { TechnologyChange } from '../db/models/technologyChange.model';
+import { Person } from '../db/models/person.model';
+import {
+  PersonRepository,
+  PersonDirectoryEntry,
+  PersonSearchOptions,
+  PersonTechnology
+} from '../db/repositories/person.repository';
+import {
+  PersonRole,
+  WITHDRAWAL,
+  WITHDRAWAL_REASONS
+} from '../constants/scraper.constants';
+import { CLASSIFICATION_SOURCES } from '../constants/taxonomy.constants';
+import { listTaxonomy, resolveTaxonomyId, TaxonomyNode } from '../utils/taxonomy.util';
 import { ElasticsearchService } from '../lib/search/elasticsearch.service';
-import { CacheService } from 'redis'; // ^4.0.0
+import { getTranslationProvider, isTranslatable, translateFields } from '../lib/translation';
+import { Redis } from 'ioredis'; // ^5.0.0
 import { SearchParams, SearchResponse } from '../interfaces/search.interface';
-import { ScraperResult } from '../interfaces/scraper.interface';
+import { ScraperResult, CatalogReconciliation } from '../interfaces/scraper.interface';
+import { DetailPageChecker } from '../scraper/crawler';
 
 /**
  * Service class for managing technology transfer opportunities
@@ -22,17 +43,20 @@ import { ScraperResult } from '../interfaces/scraper.interface';
 @injectable()
 @singleton()
 export class TechnologyService {
-  private readonly searchCircuitBreaker: CircuitBreaker;
+  private readonly searchCircuitBreaker: CircuitBreaker<[SearchParams], SearchResponse>;
   private readonly CACHE_TTL = 3600; // 1 hour cache TTL
   private readonly SEARCH_TIMEOUT = 2000; // 2 second timeout
+  private readonly DEFAULT_ACTIVITY_DAYS = 7;
 
   /**
    * Initialize service with required dependencies and circuit breaker configuration
    */
   constructor(
     private readonly repository: TechnologyRepository,
-    private readonly cacheService: CacheService,
-    private readonly logger: Logger
+    private readonly personRepository: PersonRepository,
+    private readonly cacheService: Redis,
+    private readonly logger: Logger,
+    private readonly detailPageChecker: DetailPageChecker = new DetailPageChecker()
   ) {
     // Initialize circuit breaker for search operations
     this.searchCircuitBreaker = new CircuitBreaker(
@@ -49,40 +73,267 @@ export class TechnologyService {
   }
 
   /**
-   * Creates a new technology entry from scraper results
+   * Creates or updates a technology entry from scraper results
+   * Re-scraped technologies are matched on their canonical identity instead of duplicated
    * Implements validation and error handling
    * @param scraperResult Validated scraper result data
-   * @returns Newly created technology entity
+   * @returns Stored technology entity
    */
   public async createFromScraper(scraperResult: ScraperResult): Promise<Technology> {
-    try {
-      // Create technology entity from scraper result
-      const technology = Technology.fromScraperResult(scraperResult);
+    const { technology } = await this.upsertFromScraper(scraperResult);
+    return technology;
+  }
 
-      // Validate entity
-      const errors = await validate(technology);
+  /**
+   * Upserts a technology from scraper results and reports whether it was new,
+   * changed or unchanged since the previous scrape
+   * @param scraperResult Validated scraper result data
+   * @param listedUrls Canonical URLs of every technology the same crawl listed, if known
+   * @returns Stored technology with the upsert outcome
+   */
+  public async upsertFromScraper(
+    scraperResult: ScraperResult,
+    listedUrls?: ReadonlySet<string>
+  ): Promise<TechnologyUpsertResult> {
+    try {
+      // Validate entity before touching the catalog
+      const errors = await validate(Technology.fromScraperResult(scraperResult));
       if (errors.length > 0) {
         throw new Error(`Validation failed: ${JSON.stringify(errors)}`);
       }
 
-      // Save to database
-      const savedTechnology = await this.repository.create(technology);
+      const result = await this.repository.upsert(scraperResult, listedUrls);
+      const translated = await this.translateIfNeeded(result.technology);
 
-      // Invalidate relevant caches
-      await this.invalidateRelatedCaches(savedTechnology);
+      if (result.status !== 'unchanged' || translated) {
+        // Invalidate relevant caches
+        await this.invalidateRelatedCaches(result.technology);
+      }
 
-      this.logger.info('Technology created successfully', {
-        id: savedTechnology.id,
-        institution: savedTechnology.institution
+      this.logger.info(`Technology ${result.status}`, {
+        id: result.technology.id,
+        institution: result.technology.institution,
+        changedFields: Object.keys(result.changedFields)
       });
 
-      return savedTechnology;
+      return result;
     } catch (error) {
-      this.logger.error('Error creating technology:', error);
+      this.logger.error('Error storing technology:', error);
       throw error;
     }
   }
 
+  /**
+   * Reports what upserting scraper results would do to the catalog without writing
+   * @param scraperResult Validated scraper result data
+   * @returns Matched or candidate technology with the upsert outcome
+   */
+  public async previewFromScraper(scraperResult: ScraperResult): Promise<TechnologyUpsertResult> {
+    const errors = await validate(Technology.fromScraperResult(scraperResult));
+    if (errors.length > 0) {
+      throw new Error(`Validation failed: ${JSON.stringify(errors)}`);
+    }
+
+    return this.repository.preview(scraperResult);
+  }
+
+  /**
+   * Lists an institution's active technologies, optionally only those last seen in a window
+   * @param institution Institution name as stored on technologies
+   * @param seenFrom Earliest last sighting to include
+   * @param seenTo Latest last sighting to include
+   */
+  public async listActiveByInstitution(institution: string, seenFrom?: Date, seenTo?: Date): Promise<Technology[]> {
+    return this.repository.findActiveByInstitution(institution, seenFrom, seenTo);
+  }
+
+  /**
+   * Reconciles an institution's catalog against a completed run. Active technologies the
+   * run did not list are withdrawn once they have been missing for WITHDRAWAL.MISSED_RUNS
+   * consecutive runs, or straight away when their detail page returns 404/410.
+   * @param institution Institution name as stored on technologies
+   * @param seenIds Technologies the run produced
+   * @returns Counts of missed and withdrawn technologies
+   */
+  public async reconcileInstitution(institution: string, seenIds: string[]): Promise<CatalogReconciliation> {
+    const missed = await this.repository.recordMissedRun(institution, seenIds);
+    const notSeen = missed.filter(technology => technology.missedRuns >= WITHDRAWAL.MISSED_RUNS);
+
+    // Pages missing the longest are checked first; the rest are checked after later runs
+    const pageGone: Technology[] = [];
+    const toCheck = missed
+      .filter(technology => technology.missedRuns < WITHDRAWAL.MISSED_RUNS && technology.url)
+      .sort((a, b) => b.missedRuns - a.missedRuns)
+      .slice(0, WITHDRAWAL.MAX_CHECKS_PER_RUN);
+    for (const technology of toCheck) {
+      const status = await this.detailPageChecker.check(technology.url);
+      if (status.gone) {
+        pageGone.push(technology);
+      }
+    }
+
+    const now = new Date();
+    await this.repository.withdraw(notSeen, WITHDRAWAL_REASONS.NOT_SEEN, now);
+    await this.repository.withdraw(pageGone, WITHDRAWAL_REASONS.PAGE_GONE, now);
+
+    if (notSeen.length > 0 || pageGone.length > 0) {
+      this.logger.info('Technologies withdrawn', {
+        institution,
+        missed: missed.length,
+        notSeen: notSeen.map(technology => technology.id),
+        pageGone: pageGone.map(technology => technology.id)
+      });
+    }
+
+    return {
+      missed: missed.length,
+      withdrawn: notSeen.length + pageGone.length,
+      pagesGone: pageGone.length
+    };
+  }
+
+  /**
+   * Finds a technology by id
+   * @param id Technology identifier
+   */
+  public async findById(id: string): Promise<Technology | null> {
+    return this.repository.findById(id);
+  }
+
+  /**
+   * Lists the technologies sharing a patent family with the given one, across institutions
+   * @param id Technology identifier
+   * @returns Family members including the technology itself, or null when it does not exist
+   */
+  public async getPatentFamily(id: string): Promise<Technology[] | null> {
+    const technology = await this.repository.findById(id);
+    if (!technology) {
+      return null;
+    }
+    if (!technology.patentFamilyId) {
+      return [technology];
+    }
+    return this.repository.findByPatentFamily(technology.patentFamilyId);
+  }
+
+  /**
+   * Lists the controlled taxonomy technologies are classified into
+   * @returns Categories with their subcategories
+   */
+  public getTaxonomy(): TaxonomyNode[] {
+    return listTaxonomy();
+  }
+
+  /**
+   * Places a technology in the taxonomy by hand. Manual placements survive re-scrapes and
+   * classification runs until cleared.
+   * @param id Technology identifier
+   * @param taxonomyId Category or subcategory id, e.g. "energy.storage"
+   * @param actor User making the placement
+   * @returns Updated technology, or null when it does not exist
+   * @throws Error when the taxonomy id is not in the taxonomy
+   */
+  public async overrideClassification(id: string, taxonomyId: string, actor?: string): Promise<Technology | null> {
+    const classification = resolveTaxonomyId(taxonomyId, CLASSIFICATION_SOURCES.MANUAL);
+    if (!classification) {
+      throw new Error(`Unknown taxonomy id: ${taxonomyId}`);
+    }
+
+    const technology = await this.repository.findById(id);
+    if (!technology) {
+      return null;
+    }
+
+    technology.applyClassification(classification, actor ?? null);
+    await this.repository.saveClassification(technology);
+    await this.invalidateRelatedCaches(technology);
+
+    this.logger.info('Technology classification overridden', { id, taxonomyId, actor });
+    return technology;
+  }
+
+  /**
+   * Removes a manual placement and re-classifies the technology automatically
+   * @param id Technology identifier
+   * @returns Updated technology, or null when it does not exist
+   */
+  public async clearClassificationOverride(id: string): Promise<Technology | null> {
+    const technology = await this.repository.findById(id);
+    if (!technology) {
+      return null;
+    }
+
+    technology.classificationSource = CLASSIFICATION_SOURCES.NONE;
+    technology.refreshClassification();
+    await this.repository.saveClassification(technology);
+    await this.invalidateRelatedCaches(technology);
+
+    return technology;
+  }
+
+  /**
+   * Pages through the whole catalog in id order
+   * @param afterId Last id of the previous page, or null for the first page
+   * @param limit Page size
+   */
+  public async listCatalogPage(afterId: string | null, limit: number): Promise<Technology[]> {
+    return this.repository.findPageAfter(afterId, limit);
+  }
+
+  /**
+   * Stores a technology's re-computed taxonomy placement
+   * @param technology Technology carrying the new placement
+   */
+  public async saveClassification(technology: Technology): Promise<Technology> {
+    return this.repository.saveClassification(technology);
+  }
+
+  /**
+   * Searches the people directory of inventors and licensing contacts
+   * @param query Name fragment or email address
+   * @param options Role, institution and result limit
+   * @returns Matching people with their technology counts
+   */
+  public async searchPeople(query: string, options: PersonSearchOptions = {}): Promise<PersonDirectoryEntry[]> {
+    return this.personRepository.search(query, options);
+  }
+
+  /**
+   * Lists the technologies a person invented or handles licensing for, across the catalog
+   * @param personId Person identifier
+   * @param role Only technologies where the person holds this role
+   * @returns The person and their technologies, or null when the person does not exist
+   */
+  public async getPersonTechnologies(
+    personId: string,
+    role?: PersonRole
+  ): Promise<{ person: Person; technologies: PersonTechnology[] } | null> {
+    const person = await this.personRepository.findById(personId);
+    if (!person) {
+      return null;
+    }
+    return { person, technologies: await this.personRepository.findTechnologies(personId, role) };
+  }
+
+  /**
+   * Retrieves the field-level change log for a technology
+   * @param id Technology identifier
+   * @returns Change log entries, newest first
+   */
+  public async getChangeLog(id: string): Promise<TechnologyChange[]> {
+    return this.repository.getChangeLog(id);
+  }
+
+  /**
+   * Lists technologies new or updated within the last given number of days
+   * @param days Size of the activity window in days
+   * @returns New and updated technologies with totals
+   */
+  public async getRecentActivity(days: number = this.DEFAULT_ACTIVITY_DAYS): Promise<TechnologyActivity> {
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    return this.repository.getRecentActivity(since);
+  }
+
   /**
    * Performs optimized semantic search with caching and circuit breaker
    * Implements sub-2 second response time requirement
@@ -143,6 +394,38 @@ export class TechnologyService {
     };
   }
 
+  /**
+   * Translates a non-English technology's title and description into English when it has
+   * none yet, and re-classifies it from the translations. Failures are logged and leave the
+   * original text in place, so a provider outage never blocks scraping.
+   * @param technology Stored technology
+   * @returns Whether translations were stored
+   */
+  private async translateIfNeeded(technology: Technology): Promise<boolean> {
+    const provider = getTranslationProvider();
+    if (!provider || technology.translations || !isTranslatable(technology.language)) {
+      return false;
+    }
+
+    try {
+      technology.applyTranslations(await translateFields(
+        { title: technology.title, description: technology.description },
+        technology.language,
+        provider
+      ));
+      await this.repository.saveTranslations(technology);
+      return true;
+    } catch (error) {
+      this.logger.warn('Technology translation failed', {
+        id: technology.id,
+        language: technology.language,
+        provider: provider.name,
+        error: (error as Error).message
+      });
+      return false;
+    }
+  }
+
   /**
    * Generates cache key for search results
    * @param params Search parameters
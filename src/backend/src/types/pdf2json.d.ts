@@ -0,0 +1,18 @@
+/**
+ * @fileoverview Type declarations for pdf2json 2.x, which ships without typings. Covers the
+ * parser events the PDF parser listens for; documents are left untyped as pdf2json emits them.
+ * @version 1.0.0
+ */
+
+declare module 'pdf2json' {
+  import { EventEmitter } from 'events';
+
+  class PDFParser extends EventEmitter {
+    constructor(context?: unknown, needRawText?: boolean, password?: string);
+    parseBuffer(pdfBuffer: Buffer): void;
+    on(event: 'pdfParser_dataReady', listener: (pdfData: any) => void): this;
+    on(event: 'pdfParser_dataError', listener: (error: Error) => void): this;
+  }
+
+  export = PDFParser;
+}
@@ -13,12 +13,18 @@ import {
   ALERT_THRESHOLDS,
   LOG_LEVELS
 } from '../constants/error.constants';
+import { ERROR_TYPES as SCRAPER_ERROR_TYPES } from '../constants/scraper.constants';
+
+/**
+ * Error type of an AppError; scraper adapters raise the scraper's own error types
+ */
+export type AppErrorType = ERROR_TYPES | SCRAPER_ERROR_TYPES;
 
 /**
  * Enhanced custom error class with monitoring and tracking capabilities
  */
 export class AppError extends Error {
-  public readonly type: ERROR_TYPES;
+  public readonly type: AppErrorType;
   public readonly statusCode: number;
   public readonly metadata: Record<string, any>;
   public readonly timestamp: Date;
@@ -28,7 +34,7 @@ export class AppError extends Error {
 
   constructor(
     message: string,
-    type: ERROR_TYPES,
+    type: AppErrorType,
     statusCode: number,
     metadata: Record<string, any> = {}
   ) {
@@ -119,11 +125,9 @@ export function handleError(
     : createError(ERROR_TYPES.INTERNAL_ERROR, error.message, {}, context);
 
   // Enhance with distributed tracing context
-  appError.context = {
-    ...appError.context,
-    ...context,
+  Object.assign(appError.context, context, {
     handledAt: new Date().toISOString()
-  };
+  });
 
   const retryCount = context.retryCount || 0;
   const retryable = isRetryable(appError, retryCount, context);
@@ -150,7 +154,7 @@ export function isRetryable(
   retryCount: number,
   context: Record<string, any> = {}
 ): boolean {
-  const strategy = RETRY_STRATEGIES[error.type];
+  const strategy = RETRY_STRATEGIES[error.type as keyof typeof RETRY_STRATEGIES];
   if (!strategy) {
     return false;
   }
@@ -185,7 +189,7 @@ export function getRetryDelay(
   retryCount: number,
   context: Record<string, any> = {}
 ): number {
-  const strategy = RETRY_STRATEGIES[error.type];
+  const strategy = RETRY_STRATEGIES[error.type as keyof typeof RETRY_STRATEGIES];
   if (!strategy) {
     return 0;
   }
@@ -263,7 +267,7 @@ function logError(error: AppError): void {
 /**
  * Updates error metrics for monitoring
  */
-function updateErrorMetrics(error: AppError): void {
+function updateErrorMetrics(_error: AppError): void {
   // Implementation would integrate with monitoring system
   // Example: increment error counters, update error rates, etc.
 }
@@ -272,7 +276,7 @@ function updateErrorMetrics(error: AppError): void {
  * Checks if error frequency exceeds alert thresholds
  */
 function checkAlertThresholds(error: AppError): boolean {
-  const threshold = ALERT_THRESHOLDS[error.type];
+  const threshold = ALERT_THRESHOLDS[error.type as keyof typeof ALERT_THRESHOLDS];
   if (!threshold) {
     return false;
   }
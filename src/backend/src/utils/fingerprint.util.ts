@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Canonical identity helpers for scraped technologies: URL normalization,
+ * fuzzy title/description fingerprints and content hashing for change detection
+ * @version 1.0.0
+ */
+
+import * as crypto from 'crypto';
+
+/**
+ * Query parameters that never identify a listing and vary between visits
+ */
+const VOLATILE_QUERY_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|sessionid|jsessionid|phpsessid|sid|_ga)$/i;
+
+/**
+ * Words ignored when fingerprinting so minor copy edits do not change identity
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into', 'is',
+  'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'with', 'which', 'its', 'can'
+]);
+
+/**
+ * Number of leading description tokens included in the fingerprint
+ */
+const FINGERPRINT_DESCRIPTION_TOKENS = 40;
+
+/**
+ * Technology fields compared when detecting content changes between scrapes
+ */
+export const TRACKED_TECHNOLOGY_FIELDS = ['title', 'description', 'category', 'country', 'url', 'metadata'] as const;
+
+/**
+ * Metadata keys that change on every scrape and are excluded from content hashing
+ */
+const VOLATILE_METADATA_KEYS = ['scrapedAt', 'validationResults', 'performanceMetrics', 'crawl'];
+
+export type TrackedTechnologyField = typeof TRACKED_TECHNOLOGY_FIELDS[number];
+
+/**
+ * Before/after values for each field that changed between two scrapes
+ */
+export type TechnologyFieldChanges = Partial<Record<TrackedTechnologyField, {
+  previous: unknown;
+  current: unknown;
+}>>;
+
+/**
+ * Normalizes a technology URL so the same listing always maps to the same identity.
+ * Lower-cases the host, drops "www.", fragments, tracking parameters and trailing
+ * slashes, and sorts the remaining query parameters.
+ * @param url Raw technology URL
+ * @returns Canonical URL, or the trimmed input if it cannot be parsed
+ */
+export function normalizeTechnologyUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    parsed.hash = '';
+    parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+    parsed.protocol = 'https:';
+
+    const params = Array.from(parsed.searchParams.entries())
+      .filter(([key]) => !VOLATILE_QUERY_PARAMS.test(key))
+      .sort(([a], [b]) => a.localeCompare(b));
+    parsed.search = new URLSearchParams(params).toString();
+
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/';
+    return parsed.toString().replace(/\/(\?|$)/, '$1');
+  } catch {
+    return url.trim();
+  }
+}
+
+/**
+ * Computes a fuzzy fingerprint from the title and the opening of the description.
+ * Tokens are case-folded, stripped of punctuation and stop words, and sorted so
+ * reformatting or reordered phrases still produce the same fingerprint.
+ * @param title Technology title
+ * @param description Technology description
+ * @returns Hex SHA-1 fingerprint
+ */
+export function computeFingerprint(title: string, description: string): string {
+  const tokenize = (text: string): string[] => (text || '')
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+
+  const tokens = new Set([
+    ...tokenize(title),
+    ...tokenize(description).slice(0, FINGERPRINT_DESCRIPTION_TOKENS)
+  ]);
+
+  return crypto
+    .createHash('sha1')
+    .update(Array.from(tokens).sort().join(' '))
+    .digest('hex');
+}
+
+/**
+ * Hashes the tracked fields of a technology, ignoring per-scrape metadata
+ * @param fields Tracked technology fields
+ * @returns Hex SHA-256 content hash
+ */
+export function computeContentHash(fields: Partial<Record<TrackedTechnologyField, unknown>>): string {
+  const snapshot = TRACKED_TECHNOLOGY_FIELDS.reduce((acc, field) => {
+    acc[field] = field === 'metadata'
+      ? stripVolatileMetadata(fields.metadata as Record<string, any>)
+      : fields[field] ?? null;
+    return acc;
+  }, {} as Record<string, unknown>);
+
+  return crypto
+    .createHash('sha256')
+    .update(stableStringify(snapshot))
+    .digest('hex');
+}
+
+/**
+ * Lists tracked fields whose values differ between two versions of a technology
+ * @param previous Stored technology values
+ * @param current Freshly scraped values
+ * @returns Changed fields with before/after values
+ */
+export function diffTrackedFields(
+  previous: Partial<Record<TrackedTechnologyField, unknown>>,
+  current: Partial<Record<TrackedTechnologyField, unknown>>
+): TechnologyFieldChanges {
+  const changes: TechnologyFieldChanges = {};
+
+  for (const field of TRACKED_TECHNOLOGY_FIELDS) {
+    const before = field === 'metadata'
+      ? stripVolatileMetadata(previous.metadata as Record<string, any>)
+      : previous[field] ?? null;
+    const after = field === 'metadata'
+      ? stripVolatileMetadata(current.metadata as Record<string, any>)
+      : current[field] ?? null;
+
+    if (stableStringify(before) !== stableStringify(after)) {
+      changes[field] = { previous: before, current: after };
+    }
+  }
+
+  return changes;
+}
+
+function stripVolatileMetadata(metadata?: Record<string, any> | null): Record<string, any> {
+  return Object.fromEntries(
+    Object.entries(metadata || {}).filter(([key]) => !VOLATILE_METADATA_KEYS.includes(key))
+  );
+}
+
+/**
+ * JSON serialization with sorted object keys so equal values always hash identically
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value instanceof Date) {
+    return JSON.stringify(value.toISOString());
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as Record<string, unknown>)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
\ No newline at end of file
@@ -225,58 +225,3 @@ class Logger {
 
 // Export singleton logger instance
 export const logger = Logger.getInstance();
-```
-
-This implementation provides a robust logging utility with the following key features:
-
-1. **Singleton Pattern**: Ensures a single logger instance throughout the application.
-
-2. **Multiple Transports**:
-   - Console logging with colorization
-   - File logging with daily rotation
-   - Elasticsearch integration for production environments
-
-3. **Structured Logging**:
-   - Consistent log format across all transports
-   - Timestamp and trace ID inclusion
-   - Context preservation across requests
-
-4. **Security Features**:
-   - Sensitive data masking
-   - Configurable patterns for identifying sensitive fields
-   - Production-specific security controls
-
-5. **Error Handling**:
-   - Comprehensive error tracking
-   - Threshold-based alerting
-   - Global error handlers for uncaught exceptions
-
-6. **Request Tracing**:
-   - Unique trace ID generation
-   - Context preservation
-   - Request metadata inclusion
-
-7. **Type Safety**:
-   - Full TypeScript support
-   - Interface definitions for metadata
-   - Type-safe method signatures
-
-8. **Production Ready**:
-   - Environment-specific configuration
-   - Error recovery mechanisms
-   - Performance optimizations
-
-The logger can be used throughout the application by importing the singleton instance:
-
-```typescript
-import { logger } from './utils/logger.util';
-
-// Set request context
-logger.setContext({ requestId: '123', userId: '456' });
-
-// Log messages
-logger.info('Operation successful', { operation: 'data_sync' });
-logger.error('Operation failed', new Error('Database connection failed'));
-
-// Clear context after request
-logger.clearContext();
\ No newline at end of file
@@ -0,0 +1,95 @@
+/**
+ * @fileoverview Guards for fetching operator-supplied URLs from inside the cluster: a URL
+ * may only be fetched when every address its host resolves to is publicly routable
+ * @version 1.0.0
+ */
+
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+
+import { AppError } from './error.util';
+import { ERROR_TYPES } from '../constants/error.constants';
+
+/**
+ * Private, loopback, link-local and other non-routable ranges
+ */
+const NON_PUBLIC_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+].forEach(([network, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128],
+  ['::1', 128],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+].forEach(([network, prefix]) => NON_PUBLIC_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+/**
+ * Checks whether an IP address is publicly routable. IPv4-mapped IPv6 addresses are
+ * judged by the IPv4 address they carry.
+ * @param address IPv4 or IPv6 address
+ * @returns True when the address is not private, loopback, link-local or reserved
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+  return !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolves the URL's host and rejects it unless every address is publicly routable
+ * @param url Absolute URL about to be fetched
+ * @throws AppError when the URL is not http(s) or its host cannot be resolved or resolves
+ * to a non-public address
+ */
+export async function assertPublicUrl(url: string): Promise<void> {
+  const parsed = new URL(url);
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw new AppError(
+      `Unsupported URL protocol: ${parsed.protocol}`,
+      ERROR_TYPES.VALIDATION_ERROR,
+      400,
+      { url }
+    );
+  }
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = (await dns.lookup(hostname, { all: true })).map(entry => entry.address);
+    } catch (error) {
+      throw new AppError(
+        `Cannot resolve host ${hostname}`,
+        ERROR_TYPES.VALIDATION_ERROR,
+        400,
+        { url, error: (error as Error).message }
+      );
+    }
+  }
+
+  const blocked = addresses.filter(address => !isPublicAddress(address));
+  if (addresses.length === 0 || blocked.length > 0) {
+    throw new AppError(
+      `Refusing to fetch ${url}: ${hostname} resolves to a non-public address`,
+      ERROR_TYPES.VALIDATION_ERROR,
+      400,
+      { url, addresses: blocked }
+    );
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * @fileoverview Patent identifier helpers: detection of patent and application numbers in
+ * scraped text, normalization to one canonical form per document, and IP status derivation
+ * @version 1.0.0
+ */
+
+import { PATENT_NUMBERS, PATENT_STATUSES, PatentStatus } from '../constants/scraper.constants';
+
+/**
+ * Kind of patent document an identifier refers to
+ */
+export type PatentDocumentType = 'grant' | 'application' | 'publication' | 'pct';
+
+/**
+ * Patent identifier in canonical form, e.g. "US10123456", "US16/123456", "US2020/0123456",
+ * "PCT/US2020/012345", "WO2021/123456" or "EP3123456". Kind codes are kept apart so
+ * "US 10,123,456 B2" and "U.S. Patent No. 10123456" compare equal.
+ */
+export interface PatentIdentifier {
+  canonical: string;
+  jurisdiction: string;
+  type: PatentDocumentType;
+  kindCode: string | null;
+}
+
+/**
+ * Finds patent and application numbers in text, in order of appearance and without
+ * repeats of the same number written differently
+ * @param text Scraped description, section or one-pager text
+ * @returns Numbers as written in the text
+ */
+export function findPatentNumbers(text: string): string[] {
+  const found: { index: number; value: string }[] = [];
+
+  for (const pattern of PATENT_NUMBERS.PATTERNS) {
+    for (const match of text.matchAll(new RegExp(pattern.source, pattern.flags))) {
+      found.push({ index: match.index ?? 0, value: match[0].replace(/\s+/g, ' ').trim() });
+    }
+  }
+
+  const seen = new Set<string>();
+  return found
+    .sort((a, b) => a.index - b.index)
+    .map(entry => entry.value)
+    .filter(value => {
+      const key = normalizePatentNumber(value)?.canonical ?? value.toUpperCase();
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+}
+
+/**
+ * Finds the technology's own patent and application numbers in a description: numbers in
+ * sentences with IP wording, skipping sentences that cite prior art or related patents
+ * @param text Scraped description
+ * @returns Numbers as written in the text
+ */
+export function findOwnPatentNumbers(text: string): string[] {
+  return findPatentNumbers(
+    ipSentences(text).filter(sentence => PATENT_NUMBERS.IP_CONTEXT.test(sentence)).join('\n')
+  );
+}
+
+/**
+ * Normalizes a patent or application number to its canonical identifier
+ * @param raw Number as scraped, with or without country prefix, punctuation or kind code
+ * @returns Canonical identifier, or null when the input is not a recognized format
+ */
+export function normalizePatentNumber(raw: string): PatentIdentifier | null {
+  const value = raw
+    .toUpperCase()
+    .replace(/U\.\s*S\.?/g, 'US')
+    .replace(/\b(?:PATENT|PAT|NO|NUMBER|SERIAL)\b\.?/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  const pct = value.match(/PCT\s*\/?\s*([A-Z]{2})\s*(\d{2}|\d{4})\s*\/\s*(\d{5,6})/);
+  if (pct) {
+    const year = pct[2].length === 2 ? expandYear(pct[2]) : pct[2];
+    return identifier(`PCT/${pct[1]}${year}/${pct[3].padStart(6, '0')}`, 'PCT', 'pct', null);
+  }
+
+  const wo = value.match(/WO\s*(\d{4})\s*\/?\s*(\d{5,6})(?:\s*(A\d))?/);
+  if (wo) {
+    return identifier(`WO${wo[1]}/${wo[2].padStart(6, '0')}`, 'WO', 'publication', wo[3] || null);
+  }
+
+  const ep = value.match(/EP\s*(\d(?:\s?\d{3}){2})(?:\s*([AB]\d))?/);
+  if (ep) {
+    const kindCode = ep[2] || null;
+    return identifier(`EP${ep[1].replace(/\s/g, '')}`, 'EP', kindCode?.startsWith('B') ? 'grant' : 'publication', kindCode);
+  }
+
+  const application = value.match(/(?:APPLICATION|APPL)\.?\s*(\d{2})\/(\d{3}),?(\d{3})/) ||
+    value.match(/^(?:US\s*)?(\d{2})\/(\d{3}),?(\d{3})$/);
+  if (application) {
+    return identifier(`US${application[1]}/${application[2]}${application[3]}`, 'US', 'application', null);
+  }
+
+  const publication = value.match(/US\s*(20\d{2})\s*\/?\s*(\d{7})(?:\s*(A[129]))?/);
+  if (publication) {
+    return identifier(`US${publication[1]}/${publication[2]}`, 'US', 'publication', publication[3] || null);
+  }
+
+  const grant = value.match(/US\s*(\d{1,2},?\d{3},?\d{3})(?:\s*([AB][12]))?\b/);
+  if (grant) {
+    return identifier(`US${grant[1].replace(/,/g, '')}`, 'US', 'grant', grant[2] || null);
+  }
+
+  return null;
+}
+
+/**
+ * Normalizes scraped patent numbers and those a description gives in IP context into
+ * unique canonical identifiers, keeping first-seen order
+ * @param numbers Numbers from patent selectors, structured data or PDF IP sections
+ * @param texts Descriptions to scan for the technology's own numbers
+ */
+export function collectPatentIdentifiers(numbers: string[], texts: string[] = []): PatentIdentifier[] {
+  const identifiers = new Map<string, PatentIdentifier>();
+
+  for (const raw of [...numbers, ...texts.flatMap(text => findOwnPatentNumbers(text))]) {
+    const normalized = normalizePatentNumber(raw);
+    if (normalized && !identifiers.has(normalized.canonical)) {
+      identifiers.set(normalized.canonical, normalized);
+    }
+  }
+
+  return [...identifiers.values()];
+}
+
+/**
+ * Derives a technology's IP status: granted when any number is a grant or the text says a
+ * patent issued, pending when only applications or publications are known or the text says
+ * protection was applied for, else unknown. Wording in sentences citing prior art is ignored.
+ * @param identifiers Canonical identifiers of the technology
+ * @param text Description and IP section text
+ */
+export function derivePatentStatus(identifiers: PatentIdentifier[], text = ''): PatentStatus {
+  const ipText = ipSentences(text).join('\n');
+
+  if (identifiers.some(identifier => identifier.type === 'grant') || PATENT_NUMBERS.GRANTED_PHRASES.test(ipText)) {
+    return PATENT_STATUSES.GRANTED;
+  }
+  if (identifiers.length > 0 || PATENT_NUMBERS.PENDING_PHRASES.test(ipText)) {
+    return PATENT_STATUSES.PENDING;
+  }
+  return PATENT_STATUSES.UNKNOWN;
+}
+
+function identifier(
+  canonical: string,
+  jurisdiction: string,
+  type: PatentDocumentType,
+  kindCode: string | null
+): PatentIdentifier {
+  return { canonical, jurisdiction, type, kindCode };
+}
+
+/**
+ * Splits text into sentences and drops those citing prior art. Periods in abbreviations such
+ * as "U.S." and "No." do not end a sentence.
+ */
+function ipSentences(text: string): string[] {
+  return text
+    .split(/(?<!\b(?:U\.S|Nos?|Pat|Appl|Ser|e\.g|i\.e|vs))[.;!?]\s+(?=[A-Z])|\n+/)
+    .filter(sentence => !PATENT_NUMBERS.PRIOR_ART_CONTEXT.test(sentence));
+}
+
+/**
+ * Expands two-digit PCT filing years; PCT filings began in 1978
+ */
+function expandYear(year: string): string {
+  return Number(year) >= 78 ? `19${year}` : `20${year}`;
+}
\ No newline at end of file
@@ -0,0 +1,217 @@
+/**
+ * @fileoverview Person helpers: reading inventors and licensing contacts from scraped fields,
+ * contact blocks and one-pager text, and normalizing names into the keys used to deduplicate
+ * people across technologies
+ * @version 1.0.0
+ */
+
+import { PERSON_ROLES, PersonRole } from '../constants/scraper.constants';
+
+/**
+ * Contact found next to an email address
+ */
+export interface ContactDetails {
+  name: string | null;
+  email: string;
+  phone: string | null;
+}
+
+/**
+ * Person named on a technology, with the name key used to match stored people
+ */
+export interface ExtractedPerson {
+  name: string;
+  nameKey: string;
+  email: string | null;
+  phone: string | null;
+  role: PersonRole;
+}
+
+const EMAIL_PATTERN = /[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi;
+const PHONE_PATTERN = /(?:\+?1[\s.-]?)?\(?\d{3}\)?[\s.-]?\d{3}[\s.-]\d{4}(?:\s*(?:x|ext\.?)\s*\d+)?/i;
+const PERSON_NAME_PATTERN = /^\p{Lu}[\p{L}'-]+(?:\s+\p{Lu}[\p{L}'-]*\.?){1,3}$/u;
+const CONTACT_LABEL_PATTERN = /\b(?:contact|e-?mail|phone|tel|telephone|fax|office|direct)\s*:?/gi;
+const JOB_TITLE_PATTERN = /\b(?:manager|officer|director|associate|specialist|analyst|coordinator|licensing|technology|transfer|commercialization|innovation|ventures|office|department|university|institute|center|centre)\b/i;
+const HONORIFIC_PATTERN = /^(?:Dr|Prof|Professor|Mr|Mrs|Ms|Mx)\.?\s+/i;
+const CREDENTIAL_PATTERN = /^(?:Ph\.?\s?D\.?|M\.?D\.?|M\.?S\.?|M\.?B\.?A\.?|B\.?S\.?|J\.?D\.?|P\.?E\.?|Jr\.?|Sr\.?|II|III|Professor|Prof\.?)$/i;
+const BULLET_PATTERN = /^[•▪◦‣·*\-–]\s*/;
+
+/**
+ * Finds contacts anchored on email addresses. The name is read from the email's line or the
+ * two lines above it, and the phone from the nearest of the two lines either side, without
+ * crossing a line that belongs to another email address.
+ * @param lines Lines of a contact block, page or document
+ * @param isLabel Lines that can never hold a name, such as section headings
+ */
+export function findContacts(lines: string[], isLabel: (line: string) => boolean = () => false): ContactDetails[] {
+  const contacts = new Map<string, ContactDetails>();
+  const emailsOf = (line: string): string[] => (line.match(EMAIL_PATTERN) || []).map(email => email.toLowerCase());
+
+  lines.forEach((line, index) => {
+    for (const email of emailsOf(line)) {
+      if (contacts.has(email)) {
+        continue;
+      }
+
+      const belongsHere = (candidate: string): boolean => emailsOf(candidate).every(other => other === email);
+      const window: string[] = [line];
+      for (let i = index - 1; i >= Math.max(0, index - 2) && belongsHere(lines[i]); i--) {
+        window.unshift(lines[i]);
+      }
+      const above = window.length - 1;
+      for (let i = index + 1; i <= Math.min(lines.length - 1, index + 2) && belongsHere(lines[i]); i++) {
+        window.push(lines[i]);
+      }
+
+      let name: string | null = null;
+      for (let i = above; i >= 0 && !name; i--) {
+        name = isLabel(window[i]) ? null : readPersonName(window[i]);
+      }
+      // Phones on the email's own line win, then those below it, then those above
+      const phone = [...window.slice(above), ...window.slice(0, above).reverse()]
+        .map(candidate => candidate.match(PHONE_PATTERN)?.[0])
+        .find(Boolean);
+
+      contacts.set(email, { name, email, phone: phone ? cleanText(phone) : null });
+    }
+  });
+
+  return [...contacts.values()];
+}
+
+/**
+ * Reads a person's name from a contact line, ignoring emails, phone numbers, field labels,
+ * job titles and anything after the first comma or bar
+ * @param text Contact line such as "Contact: Dr. Jane Doe, PhD | jdoe@example.edu"
+ * @returns Normalized name, or null when the line does not hold one
+ */
+export function readPersonName(text: string): string | null {
+  const stripped = cleanText(
+    text
+      .replace(EMAIL_PATTERN, ' ')
+      .replace(new RegExp(PHONE_PATTERN.source, 'gi'), ' ')
+      .replace(CONTACT_LABEL_PATTERN, ' ')
+      .replace(/^[^:]*:/, '')
+      .split(/[,|]/)[0]
+      .replace(HONORIFIC_PATTERN, '')
+  );
+  return PERSON_NAME_PATTERN.test(stripped) && !JOB_TITLE_PATTERN.test(stripped) ? stripped : null;
+}
+
+/**
+ * Splits an inventor list into names. Lists separated by semicolons or lines may write
+ * each name as "Last, First"; other lists are split on commas, "and" and ampersands.
+ * Titles and degrees are dropped.
+ * @param text Inventor field or section text
+ */
+export function splitPersonNames(text: string): string[] {
+  const parts = text
+    .split(/[;\n]/)
+    .flatMap(part => isInvertedName(part) ? [part] : part.split(/,\s*(?:and\s+)?|\s+and\s+|\s*&\s*/));
+
+  return [...new Set(
+    parts
+      .map(part => normalizePersonName(part))
+      .filter(part => part !== '' && !CREDENTIAL_PATTERN.test(part))
+  )];
+}
+
+/**
+ * Normalizes a name for display: drops bullets, honorifics and trailing degrees, and turns
+ * "Doe, Jane" into "Jane Doe"
+ * @param name Name as scraped
+ */
+export function normalizePersonName(name: string): string {
+  let normalized = cleanText(name.replace(BULLET_PATTERN, '')).replace(HONORIFIC_PATTERN, '');
+
+  let parts = normalized.split(/\s*,\s*/);
+  while (parts.length > 1 && CREDENTIAL_PATTERN.test(parts[parts.length - 1])) {
+    parts = parts.slice(0, -1);
+  }
+  normalized = parts.length === 2 && !/\s/.test(parts[0]) ? `${parts[1]} ${parts[0]}` : parts.join(', ');
+
+  return cleanText(normalized.replace(HONORIFIC_PATTERN, ''));
+}
+
+/**
+ * Key matching the ways one person's name is written: lowercase first and last name without
+ * accents, so "Dr. José A. García" and "Garcia, Jose" share the key "jose garcia"
+ * @param name Name as scraped
+ */
+export function personNameKey(name: string): string {
+  const tokens = normalizePersonName(name)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .split(/[\s-]+/)
+    .filter(Boolean);
+
+  return tokens.length > 1 ? `${tokens[0]} ${tokens[tokens.length - 1]}` : tokens.join('');
+}
+
+/**
+ * Collects the inventors and licensing contacts named in scraped technology data: inventor
+ * fields, structured contacts from adapters and one-pagers, and plain contact blocks.
+ * Contacts without a name, such as shared office mailboxes, are left out.
+ * @param data Scraped technology data
+ * @returns People deduplicated per role by email, else by name key
+ */
+export function collectPeople(data: Record<string, any>): ExtractedPerson[] {
+  const people: ExtractedPerson[] = [];
+
+  const add = (role: PersonRole, rawName: string | null, email: string | null, phone: string | null): void => {
+    const name = rawName ? normalizePersonName(rawName) : '';
+    const nameKey = personNameKey(name);
+    if (!nameKey) {
+      return;
+    }
+
+    const existing = people.find(person =>
+      person.role === role && ((email && person.email === email) || person.nameKey === nameKey));
+    if (existing) {
+      existing.email = existing.email || email;
+      existing.phone = existing.phone || phone;
+      return;
+    }
+    people.push({ name, nameKey, email, phone, role });
+  };
+
+  for (const inventor of ([] as unknown[]).concat(data.inventors || [])) {
+    if (typeof inventor === 'string') {
+      splitPersonNames(inventor).forEach(name => add(PERSON_ROLES.INVENTOR, name, null, null));
+    } else if (inventor && typeof inventor === 'object') {
+      const { name, email, phone } = inventor as Record<string, any>;
+      add(PERSON_ROLES.INVENTOR, name || null, email ? String(email).toLowerCase() : null, phone || null);
+    }
+  }
+
+  const blocks = [data.contactInfo, data.contact]
+    .filter((block): block is string => typeof block === 'string' && block.trim() !== '');
+  const contacts: ContactDetails[] = [
+    ...([] as ContactDetails[]).concat(data.contacts || []),
+    ...([] as ContactDetails[]).concat(data.metadata?.contacts || []),
+    ...blocks.flatMap(block => findContacts(block.split(/\r?\n|\s*[|;]\s*/)))
+  ];
+  for (const contact of contacts) {
+    if (contact && typeof contact === 'object') {
+      add(PERSON_ROLES.LICENSING_CONTACT, contact.name, contact.email?.toLowerCase() || null, contact.phone || null);
+    }
+  }
+
+  return people;
+}
+
+/**
+ * Whether a list entry is a single name written "Last, First"
+ */
+function isInvertedName(part: string): boolean {
+  const match = cleanText(part.replace(BULLET_PATTERN, '')).match(/^([\p{L}'-]+),\s*(.+)$/u);
+  return match !== null &&
+    !CREDENTIAL_PATTERN.test(match[2]) &&
+    /^\p{Lu}[\p{L}'-]*\.?(?:\s+\p{Lu}[\p{L}'-]*\.?)*$/u.test(match[2]);
+}
+
+function cleanText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
\ No newline at end of file
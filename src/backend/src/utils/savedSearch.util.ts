@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Scheduling and wording of saved search alerts: when a daily or weekly digest
+ * is next due, and the email and in-app notification listing a search's new matches
+ * @version 1.0.0
+ */
+
+import { MailMessage } from '../interfaces/mail.interface';
+import { SavedSearchMatch } from '../interfaces/savedSearch.interface';
+import {
+  SAVED_SEARCH_ALERTS,
+  SAVED_SEARCH_FREQUENCIES,
+  SavedSearchFrequency
+} from '../constants/savedSearch.constants';
+
+/**
+ * What an alert says about a saved search's new matches
+ */
+export interface AlertContent {
+  name: string;
+  query: string;
+  /** Matches listed in the alert */
+  matches: SavedSearchMatch[];
+  /** All new matches, including those beyond the listed ones */
+  total: number;
+  unsubscribeUrl: string;
+}
+
+/**
+ * Returns when the next digest of a saved search is due after the given time: daily at
+ * DIGEST_HOUR_UTC, weekly on WEEKLY_DIGEST_DAY at that hour
+ * @returns Null for instant alerts, which are not batched into digests
+ */
+export function nextDigestAt(frequency: SavedSearchFrequency, from: Date): Date | null {
+  if (frequency === SAVED_SEARCH_FREQUENCIES.INSTANT) {
+    return null;
+  }
+
+  const weekly = frequency === SAVED_SEARCH_FREQUENCIES.WEEKLY;
+  const next = new Date(Date.UTC(
+    from.getUTCFullYear(),
+    from.getUTCMonth(),
+    from.getUTCDate(),
+    SAVED_SEARCH_ALERTS.DIGEST_HOUR_UTC
+  ));
+  if (weekly) {
+    next.setUTCDate(next.getUTCDate() + (SAVED_SEARCH_ALERTS.WEEKLY_DIGEST_DAY - next.getUTCDay() + 7) % 7);
+  }
+  if (next <= from) {
+    next.setUTCDate(next.getUTCDate() + (weekly ? 7 : 1));
+  }
+  return next;
+}
+
+/**
+ * Renders the alert email, without its recipient. The List-Unsubscribe headers let mail
+ * clients offer one-click unsubscribing.
+ */
+export function renderAlertEmail(content: AlertContent): Omit<MailMessage, 'to'> {
+  const listed = content.matches.slice(0, SAVED_SEARCH_ALERTS.MAX_DIGEST_ITEMS);
+  const more = content.total - listed.length;
+  const intro = `${countMatches(content.total)} your saved search "${content.name}" (${content.query}).`;
+
+  const text = [
+    intro,
+    '',
+    ...listed.map(match => `- ${match.title} (${match.institution})\n  ${match.url}`),
+    ...(more > 0 ? ['', `...and ${more} more.`] : []),
+    '',
+    `Unsubscribe from these alerts: ${content.unsubscribeUrl}`
+  ].join('\n');
+
+  const html = [
+    `<p>${escapeHtml(intro)}</p>`,
+    '<ul>',
+    ...listed.map(match =>
+      `<li><a href="${escapeHtml(match.url)}">${escapeHtml(match.title)}</a> (${escapeHtml(match.institution)})</li>`),
+    '</ul>',
+    ...(more > 0 ? [`<p>...and ${more} more.</p>`] : []),
+    `<p><a href="${escapeHtml(content.unsubscribeUrl)}">Unsubscribe from these alerts</a></p>`
+  ].join('\n');
+
+  return {
+    subject: `${countMatches(content.total)} "${content.name}"`,
+    text,
+    html,
+    headers: {
+      'List-Unsubscribe': `<${content.unsubscribeUrl}>`,
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+    }
+  };
+}
+
+/**
+ * Words the in-app notification for an alert
+ */
+export function describeAlert(content: AlertContent): { title: string; body: string } {
+  const titles = content.matches.slice(0, 3).map(match => match.title);
+  const more = content.total - titles.length;
+
+  return {
+    title: `New matches for "${content.name}"`,
+    body: `${countMatches(content.total)} your saved search: ${titles.join(', ')}${more > 0 ? ` and ${more} more` : ''}.`
+  };
+}
+
+/**
+ * "1 new technology matches" or "3 new technologies match"
+ */
+function countMatches(total: number): string {
+  return total === 1 ? '1 new technology matches' : `${total} new technologies match`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,110 @@
+/**
+ * @fileoverview Institution health scoring: rolls an institution's recent scrape runs up into
+ * a 0-100 score from run success, item yield against its usual count, and error-free attempts
+ * @version 1.0.0
+ */
+
+import { RUN_HEALTH } from '../constants/scraper.constants';
+import {
+  InstitutionHealth,
+  InstitutionHealthStatus,
+  ScrapeRunStatus
+} from '../interfaces/scraper.interface';
+
+/**
+ * Parts of a finished run the health score is computed from
+ */
+export interface RunHealthSample {
+  status: ScrapeRunStatus;
+  itemsFound: number;
+  attempts: number;
+  errorCount: number;
+}
+
+const RUN_SUCCESS: Record<ScrapeRunStatus, number> = {
+  completed: 1,
+  partial: 0.5,
+  failed: 0,
+  running: 0
+};
+
+/**
+ * Computes an institution's rolling health from its finished runs, newest first. Recent
+ * runs weigh more than older ones, and yield compares the latest run that produced
+ * anything with the median of the runs before it, so a single failed run lowers
+ * reliability without also counting as a yield collapse.
+ * @param runs Finished runs, newest first; only the first RUN_HEALTH.WINDOW are used
+ */
+export function computeInstitutionHealth(runs: RunHealthSample[]): InstitutionHealth {
+  const window = runs.slice(0, RUN_HEALTH.WINDOW);
+  if (window.length === 0) {
+    return { score: 0, status: 'unknown', reliability: 0, yieldRatio: 0, cleanliness: 0, runs: 0 };
+  }
+
+  const weights = window.map((_, index) => Math.pow(RUN_HEALTH.DECAY, index));
+  const weighted = (values: number[]): number =>
+    values.reduce((sum, value, index) => sum + value * weights[index], 0) /
+    weights.reduce((sum, weight) => sum + weight, 0);
+
+  const reliability = weighted(window.map(run => RUN_SUCCESS[run.status]));
+  const cleanliness = weighted(window.map(run =>
+    run.attempts > 0 ? 1 - Math.min(1, run.errorCount / run.attempts) : 0
+  ));
+  const yieldRatio = computeYieldRatio(window);
+
+  const score = Math.round(100 * (
+    RUN_HEALTH.WEIGHTS.reliability * reliability +
+    RUN_HEALTH.WEIGHTS.yield * yieldRatio +
+    RUN_HEALTH.WEIGHTS.cleanliness * cleanliness
+  ));
+
+  return {
+    score,
+    status: toHealthStatus(score),
+    reliability: round(reliability),
+    yieldRatio: round(yieldRatio),
+    cleanliness: round(cleanliness),
+    runs: window.length
+  };
+}
+
+/**
+ * Bands a health score into the status shown on the scorecard
+ */
+export function toHealthStatus(score: number): InstitutionHealthStatus {
+  if (score >= RUN_HEALTH.HEALTHY_SCORE) {
+    return 'healthy';
+  }
+  return score >= RUN_HEALTH.DEGRADED_SCORE ? 'degraded' : 'failing';
+}
+
+/**
+ * Latest productive run's item count as a share of the median of earlier productive
+ * runs, capped at 1. Institutions with no earlier baseline are not penalized.
+ */
+function computeYieldRatio(runs: RunHealthSample[]): number {
+  const productive = runs.filter(run => run.status !== 'failed');
+  if (productive.length === 0) {
+    return 0;
+  }
+
+  const [latest, ...previous] = productive;
+  const baseline = median(previous.map(run => run.itemsFound));
+  if (!baseline) {
+    return latest.itemsFound > 0 || previous.length === 0 ? 1 : 0;
+  }
+  return Math.min(1, latest.itemsFound / baseline);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,162 @@
+/**
+ * @fileoverview Picks the passage of a long description shown under a search result, with
+ * the matched terms wrapped in highlight tags
+ * @version 1.0.0
+ */
+
+/**
+ * Options for generating a snippet
+ */
+export interface SnippetOptions {
+  /** Longest snippet in characters, not counting tags and ellipses */
+  maxLength: number;
+  /** Tag opening a highlighted term */
+  preTag: string;
+  /** Tag closing a highlighted term */
+  postTag: string;
+}
+
+const ELLIPSIS = '…';
+
+// Query words shorter than this are too common to choose a passage by
+const MIN_TERM_LENGTH = 3;
+
+/**
+ * Picks the best passage of a text. Highlight fragments from the search engine are
+ * preferred, taking the one that matched the most distinct terms; without them, e.g. for a
+ * result found by meaning alone, the sentences mentioning the most query words are chosen
+ * and those words highlighted. Falls back to the start of the text.
+ * @param text Full text the passage is taken from
+ * @param fragments Highlight fragments of the text
+ * @param query Search query
+ * @returns Snippet with ellipses where the text was cut, or null for empty text
+ */
+export function generateSnippet(
+  text: string | null | undefined,
+  fragments: string[],
+  query: string,
+  options: SnippetOptions
+): string | null {
+  const source = text?.replace(/\s+/g, ' ').trim();
+  if (!source) {
+    return null;
+  }
+
+  const best = fragments
+    .map(fragment => ({ fragment: fragment.replace(/\s+/g, ' ').trim(), terms: markedTerms(fragment, options).size }))
+    .reduce<{ fragment: string; terms: number } | null>((top, candidate) =>
+      candidate.fragment && (!top || candidate.terms > top.terms) ? candidate : top, null);
+
+  if (best) {
+    return withEllipses(source, best.fragment, stripTags(best.fragment, options));
+  }
+
+  const terms = queryTerms(query);
+  const passage = bestPassage(source, terms, options.maxLength);
+  return withEllipses(source, highlightTerms(passage, terms, options), passage);
+}
+
+/**
+ * Removes highlight tags from a fragment
+ */
+export function stripTags(fragment: string, options: Pick<SnippetOptions, 'preTag' | 'postTag'>): string {
+  return fragment.split(options.preTag).join('').split(options.postTag).join('');
+}
+
+/**
+ * Distinct lowercased terms wrapped in highlight tags
+ */
+function markedTerms(fragment: string, options: SnippetOptions): Set<string> {
+  const terms = new Set<string>();
+  for (const part of fragment.split(options.preTag).slice(1)) {
+    const end = part.indexOf(options.postTag);
+    if (end > 0) {
+      terms.add(part.slice(0, end).toLowerCase());
+    }
+  }
+  return terms;
+}
+
+/**
+ * Distinct lowercased query words long enough to choose a passage by
+ */
+function queryTerms(query: string): string[] {
+  const words = query.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(word => word.length >= MIN_TERM_LENGTH);
+  return [...new Set(words)];
+}
+
+/**
+ * Matches words starting with any of the terms, so "sensor" also finds "sensors"
+ */
+function termPattern(terms: string[]): RegExp | null {
+  if (terms.length === 0) {
+    return null;
+  }
+  const alternatives = terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})[\\p{L}\\p{N}]*`, 'giu');
+}
+
+/**
+ * Joins consecutive sentences up to the length limit and keeps the run mentioning the most
+ * distinct terms. A single sentence over the limit is cut around its first match.
+ */
+function bestPassage(text: string, terms: string[], maxLength: number): string {
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  const pattern = termPattern(terms);
+  let best = { passage: sentences[0], score: -1 };
+
+  for (let start = 0; start < sentences.length; start++) {
+    let passage = sentences[start];
+    for (let end = start + 1; end < sentences.length && passage.length + sentences[end].length < maxLength; end++) {
+      passage = `${passage} ${sentences[end]}`;
+    }
+
+    const score = pattern
+      ? new Set((passage.match(pattern) || []).map(match => terms.find(term => match.toLowerCase().startsWith(term)))).size
+      : 0;
+    if (score > best.score) {
+      best = { passage, score };
+    }
+  }
+
+  if (best.passage.length <= maxLength) {
+    return best.passage;
+  }
+
+  // Start a third of the way before the first match, so it has context on both sides
+  const firstMatch = pattern ? best.passage.search(pattern) : -1;
+  const from = firstMatch > maxLength / 3 ? best.passage.indexOf(' ', firstMatch - Math.floor(maxLength / 3)) + 1 : 0;
+  return cutAtWord(best.passage.slice(from), maxLength);
+}
+
+/**
+ * Shortens text to at most maxLength characters, ending at a word boundary when possible
+ */
+function cutAtWord(text: string, maxLength: number): string {
+  if (text.length <= maxLength) {
+    return text;
+  }
+  const cut = text.slice(0, maxLength);
+  const lastSpace = cut.lastIndexOf(' ');
+  return (lastSpace > maxLength / 2 ? cut.slice(0, lastSpace) : cut).replace(/[\s,;:]+$/, '');
+}
+
+/**
+ * Wraps words starting with a query term in highlight tags
+ */
+function highlightTerms(passage: string, terms: string[], options: SnippetOptions): string {
+  const pattern = termPattern(terms);
+  return pattern ? passage.replace(pattern, match => `${options.preTag}${match}${options.postTag}`) : passage;
+}
+
+/**
+ * Adds ellipses where the passage does not reach the start or end of the text
+ * @param text Full text
+ * @param snippet Passage as returned, possibly with highlight tags
+ * @param plain Passage without tags, compared with the text
+ */
+function withEllipses(text: string, snippet: string, plain: string): string {
+  const lead = text.startsWith(plain) ? '' : ELLIPSIS;
+  const trail = text.endsWith(plain) ? '' : ELLIPSIS;
+  return `${lead}${snippet}${trail}`;
+}
@@ -0,0 +1,115 @@
+/**
+ * @fileoverview Typeahead suggestion helpers: building the completion suggester inputs
+ * stored with each technology, normalizing query text for the query log, and re-ranking
+ * suggestions by how often their text was searched
+ * @version 1.0.0
+ */
+
+import {
+  SearchDocument,
+  SuggestInput,
+  Suggestion,
+  SuggestionGroup,
+  SuggestionType
+} from '../interfaces/search.interface';
+import { CLASSIFICATION_CONFIG } from '../constants/taxonomy.constants';
+
+/**
+ * Options for ranking suggestions
+ */
+export interface SuggestionRankingOptions {
+  /** Types in the order their groups are returned */
+  types: readonly SuggestionType[];
+  /** Suggestions kept per type */
+  size: number;
+  /** Boost per log unit of searches */
+  popularityWeight: number;
+}
+
+const MAX_QUERY_LENGTH = 100;
+
+/**
+ * Lowercases, trims and collapses whitespace, so the query log counts the same search once
+ * however it was typed
+ */
+export function normalizeQueryText(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim().slice(0, MAX_QUERY_LENGTH);
+}
+
+/**
+ * Builds the completion inputs for a technology. Titles also start from a few of their later
+ * words, so "glucose" suggests "Non-invasive glucose monitor". Withdrawn technologies keep
+ * their institution, category and inventor inputs but no longer suggest their title.
+ * @param document Search document of the technology
+ * @param titleSuffixes Later title words that also start a title input
+ */
+export function buildSuggestInputs(document: SearchDocument, titleSuffixes: number): SuggestInput[] {
+  const inputs: SuggestInput[] = [];
+  const add = (type: SuggestionType, values: Array<string | null | undefined>) => {
+    const unique = [...new Set(values.map(value => value?.trim()).filter((value): value is string => Boolean(value)))];
+    if (unique.length > 0) {
+      inputs.push({ input: unique, contexts: { type: [type] } });
+    }
+  };
+
+  if (document.active) {
+    const titles = [document.title, document.translations?.title];
+    add('title', titles.flatMap(title => (title ? [title, ...titleSuffixesOf(title, titleSuffixes)] : [])));
+  }
+  add('institution', [document.institution]);
+  add('category', [document.category, document.subcategory].filter(label => label !== CLASSIFICATION_CONFIG.UNCLASSIFIED.LABEL));
+  add('inventor', document.inventorNames);
+
+  return inputs;
+}
+
+/**
+ * Orders suggestions within each type by their completion score boosted by popularity, drops
+ * repeated texts and groups them by type
+ * @param suggestions Suggestions from the completion suggester
+ * @param popularity Searches per normalized text
+ */
+export function rankSuggestions(
+  suggestions: Suggestion[],
+  popularity: Map<string, number>,
+  options: SuggestionRankingOptions
+): SuggestionGroup[] {
+  return options.types
+    .map(type => {
+      const seen = new Set<string>();
+      const ranked = suggestions
+        .filter(suggestion => suggestion.type === type)
+        .map(suggestion => ({
+          ...suggestion,
+          score: suggestion.score *
+            (1 + options.popularityWeight * Math.log1p(popularity.get(normalizeQueryText(suggestion.text)) || 0))
+        }))
+        .sort((a, b) => b.score - a.score || a.text.localeCompare(b.text))
+        .filter(suggestion => {
+          const key = normalizeQueryText(suggestion.text);
+          if (seen.has(key)) {
+            return false;
+          }
+          seen.add(key);
+          return true;
+        })
+        .slice(0, options.size);
+
+      return { type, suggestions: ranked };
+    })
+    .filter(group => group.suggestions.length > 0);
+}
+
+/**
+ * Title text starting from each of its next few words, skipping words too short to type
+ */
+function titleSuffixesOf(title: string, count: number): string[] {
+  const words = title.split(/\s+/);
+  const suffixes: string[] = [];
+  for (let index = 1; index < words.length && suffixes.length < count; index++) {
+    if (words[index].length >= 3) {
+      suffixes.push(words.slice(index).join(' '));
+    }
+  }
+  return suffixes;
+}
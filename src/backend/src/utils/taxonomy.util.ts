@@ -0,0 +1,217 @@
+/**
+ * @fileoverview Taxonomy helpers: navigating the controlled technology taxonomy, keyword rule
+ * classification, and combining rules with an optional local model's predictions
+ * @version 1.0.0
+ */
+
+import {
+  TECHNOLOGY_TAXONOMY,
+  CLASSIFICATION_CONFIG,
+  CLASSIFICATION_SOURCES,
+  ClassificationSource
+} from '../constants/taxonomy.constants';
+
+/**
+ * Category or subcategory of the taxonomy
+ */
+export interface TaxonomyNode {
+  id: string;
+  label: string;
+  parentId: string | null;
+  children: TaxonomyNode[];
+}
+
+/**
+ * Fields a technology is classified from
+ */
+export interface TaxonomyInput {
+  title: string;
+  description: string;
+  sourceCategory?: string | null;
+}
+
+/**
+ * Taxonomy id scored by a model, with the probability it assigns
+ */
+export interface TaxonomyPrediction {
+  taxonomyId: string;
+  confidence: number;
+}
+
+/**
+ * Model predicting taxonomy ids from technology text, best first
+ */
+export interface TaxonomyPredictor {
+  predict(text: string): TaxonomyPrediction[];
+}
+
+/**
+ * Placement of a technology in the taxonomy. The category label is always set; the
+ * subcategory only when the technology could be placed that precisely.
+ */
+export interface TaxonomyClassification {
+  taxonomyId: string;
+  category: string;
+  subcategory: string | null;
+  source: ClassificationSource;
+  confidence: number | null;
+}
+
+type TaxonomyEntry = {
+  LABEL: string;
+  KEYWORDS: readonly string[];
+  CHILDREN?: Record<string, TaxonomyEntry>;
+};
+
+const KEYWORD_PATTERNS = new Map<string, RegExp>();
+
+/**
+ * Lists the taxonomy as a tree of categories and their subcategories
+ */
+export function listTaxonomy(): TaxonomyNode[] {
+  return Object.entries(TECHNOLOGY_TAXONOMY as Record<string, TaxonomyEntry>).map(([key, entry]) => ({
+    id: key,
+    label: entry.LABEL,
+    parentId: null,
+    children: Object.entries(entry.CHILDREN || {}).map(([childKey, child]) => ({
+      id: `${key}.${childKey}`,
+      label: child.LABEL,
+      parentId: key,
+      children: []
+    }))
+  }));
+}
+
+/**
+ * Resolves a taxonomy id to its category and subcategory labels
+ * @param taxonomyId Category id such as "energy" or subcategory id such as "energy.storage"
+ * @param source How the placement was decided
+ * @param confidence Confidence of the placement, when scored
+ * @returns The placement, or null when the id is not in the taxonomy
+ */
+export function resolveTaxonomyId(
+  taxonomyId: string,
+  source: ClassificationSource = CLASSIFICATION_SOURCES.MANUAL,
+  confidence: number | null = null
+): TaxonomyClassification | null {
+  const [categoryKey, childKey, ...rest] = taxonomyId.split('.');
+  const category = (TECHNOLOGY_TAXONOMY as Record<string, TaxonomyEntry>)[categoryKey];
+  const child = childKey ? category?.CHILDREN?.[childKey] : undefined;
+
+  if (!category || rest.length > 0 || (childKey && !child)) {
+    return null;
+  }
+
+  return {
+    taxonomyId,
+    category: category.LABEL,
+    subcategory: child?.LABEL ?? null,
+    source,
+    confidence
+  };
+}
+
+/**
+ * Placement given to technologies that could not be classified
+ */
+export function unclassified(): TaxonomyClassification {
+  return {
+    taxonomyId: CLASSIFICATION_CONFIG.UNCLASSIFIED.ID,
+    category: CLASSIFICATION_CONFIG.UNCLASSIFIED.LABEL,
+    subcategory: null,
+    source: CLASSIFICATION_SOURCES.NONE,
+    confidence: null
+  };
+}
+
+/**
+ * Classifies a technology with keyword rules. Each keyword found scores once per field:
+ * more in the title and the source site's category than in the description. A category
+ * scores its own keywords plus its subcategories', and the best subcategory is kept when
+ * it scores at all.
+ * @param input Title, description and source category
+ * @returns The best placement, or null when no category reaches the minimum score
+ */
+export function classifyByKeywords(input: TaxonomyInput): TaxonomyClassification | null {
+  const fields = {
+    title: input.title || '',
+    description: input.description || '',
+    sourceCategory: input.sourceCategory || ''
+  };
+
+  const scored = Object.entries(TECHNOLOGY_TAXONOMY as Record<string, TaxonomyEntry>).map(([key, entry]) => {
+    const children = Object.entries(entry.CHILDREN || {})
+      .map(([childKey, child]) => ({ id: `${key}.${childKey}`, score: scoreKeywords(child.KEYWORDS, fields) }))
+      .sort((a, b) => b.score - a.score);
+    const score = scoreKeywords(entry.KEYWORDS, fields) + children.reduce((sum, child) => sum + child.score, 0);
+    return { id: key, score, bestChild: children[0] };
+  }).sort((a, b) => b.score - a.score);
+
+  const best = scored[0];
+  if (!best || best.score < CLASSIFICATION_CONFIG.MIN_RULE_SCORE) {
+    return null;
+  }
+
+  const total = scored.reduce((sum, category) => sum + category.score, 0);
+  const taxonomyId = best.bestChild && best.bestChild.score >= CLASSIFICATION_CONFIG.MIN_SUBCATEGORY_SCORE
+    ? best.bestChild.id
+    : best.id;
+
+  return resolveTaxonomyId(taxonomyId, CLASSIFICATION_SOURCES.RULES, round(best.score / total));
+}
+
+/**
+ * Classifies a technology with keyword rules, consulting the model when the rules cannot
+ * place it in a subcategory. The model's prediction is used when it is confident enough
+ * and, if the rules found a category, agrees with it.
+ * @param input Title, description and source category
+ * @param model Local model, when one is configured
+ */
+export function classifyTechnology(input: TaxonomyInput, model: TaxonomyPredictor | null = null): TaxonomyClassification {
+  const byRules = classifyByKeywords(input);
+  if (byRules?.subcategory || !model) {
+    return byRules || unclassified();
+  }
+
+  const text = [input.title, input.sourceCategory, input.description].filter(Boolean).join('\n');
+  const prediction = model.predict(text)
+    .map(candidate => resolveTaxonomyId(candidate.taxonomyId, CLASSIFICATION_SOURCES.MODEL, round(candidate.confidence)))
+    .find((candidate): candidate is TaxonomyClassification => candidate !== null);
+
+  if (
+    prediction &&
+    (prediction.confidence ?? 0) >= CLASSIFICATION_CONFIG.MIN_MODEL_CONFIDENCE &&
+    (!byRules || prediction.category === byRules.category)
+  ) {
+    return prediction;
+  }
+
+  return byRules || unclassified();
+}
+
+function scoreKeywords(keywords: readonly string[], fields: Record<'title' | 'description' | 'sourceCategory', string>): number {
+  return keywords.reduce((score, keyword) => {
+    const pattern = keywordPattern(keyword);
+    return score +
+      (pattern.test(fields.title) ? CLASSIFICATION_CONFIG.TITLE_WEIGHT : 0) +
+      (pattern.test(fields.description) ? 1 : 0) +
+      (pattern.test(fields.sourceCategory) ? CLASSIFICATION_CONFIG.SOURCE_CATEGORY_WEIGHT : 0);
+  }, 0);
+}
+
+/**
+ * Whole-word, case-insensitive pattern for a keyword, allowing a plural "s"
+ */
+function keywordPattern(keyword: string): RegExp {
+  let pattern = KEYWORD_PATTERNS.get(keyword);
+  if (!pattern) {
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '[\\s-]+');
+    pattern = new RegExp(`(?<![\\w-])${escaped}s?(?![\\w-])`, 'i');
+    KEYWORD_PATTERNS.set(keyword, pattern);
+  }
+  return pattern;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
\ No newline at end of file
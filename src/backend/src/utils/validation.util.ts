@@ -10,6 +10,7 @@ import {
   INSTITUTION_VALIDATION_RULES,
   SCRAPER_VALIDATION_RULES
 } from '../constants/validation.constants';
+import { CrawlScopeRules } from '../interfaces/scraper.interface';
 
 /**
  * Interface for validation performance metrics
@@ -302,6 +303,52 @@ export function validateScraperConfig(scraperConfig: ScraperConfig): ValidationR
   }
 }
 
+/**
+ * Validates the include and exclude patterns of a crawl scope, so a pattern that does
+ * not compile rejects the job up front instead of failing the crawl on its first link
+ * @param scope - Crawl scope rules from the job's crawl config
+ * @returns ValidationResult object with validation status and details
+ */
+export function validateCrawlScope(scope?: Partial<CrawlScopeRules>): ValidationResult {
+  const startTime = performance.now();
+  const errors: ValidationError[] = [];
+
+  for (const field of ['includePatterns', 'excludePatterns'] as const) {
+    const patterns: unknown = scope?.[field];
+    if (patterns === undefined) {
+      continue;
+    }
+
+    if (!Array.isArray(patterns)) {
+      errors.push({
+        code: ERROR_TYPES.VALIDATION_ERROR,
+        message: 'Scope patterns must be an array of regular expressions',
+        field: `scope.${field}`,
+        value: patterns
+      });
+      continue;
+    }
+
+    patterns.forEach((pattern: unknown, index) => {
+      try {
+        if (typeof pattern !== 'string') {
+          throw new Error('pattern must be a string');
+        }
+        new RegExp(pattern);
+      } catch (error) {
+        errors.push({
+          code: ERROR_TYPES.VALIDATION_ERROR,
+          message: `Invalid scope pattern: ${(error as Error).message}`,
+          field: `scope.${field}[${index}]`,
+          value: pattern
+        });
+      }
+    });
+  }
+
+  return createValidationResult(errors.length === 0, errors, startTime);
+}
+
 /**
  * Helper function to create a validation result with performance metrics
  * @param isValid - Validation status
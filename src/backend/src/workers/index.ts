@@ -11,6 +11,17 @@ import { Counter, Gauge } from 'prom-client'; // ^14.0.0
 import { GrantWorker } from './grant.worker';
 import { ScraperWorker } from './scraper.worker';
 import { SearchWorker } from './search.worker';
+import {
+  createBackfillService,
+  createClassificationService,
+  createDeadLetterService,
+  createSavedSearchService,
+  createSchedulerService,
+  createScraperService,
+  createSearchIndexService
+} from '../services';
+import { RabbitMQService } from '../lib/queue/rabbitmq.service';
+import { queueConfig } from '../config/queue.config';
 
 /**
  * Interface for worker configuration
@@ -104,8 +115,22 @@ export async function initializeWorkers(config: Partial<WorkerConfig> = {}): Pro
     // Initialize workers with circuit breaker protection
     const initPromises = [
       initializeWorker('grant', () => new GrantWorker()),
-      initializeWorker('scraper', () => new ScraperWorker()),
-      initializeWorker('search', () => new SearchWorker())
+      initializeWorker('scraper', async () => {
+        const queueService = new RabbitMQService(queueConfig);
+        // The worker stops the scheduler when it shuts down
+        return new ScraperWorker(
+          await createScraperService(queueService),
+          queueService,
+          await createSchedulerService(queueService),
+          createDeadLetterService(queueService),
+          await createBackfillService(queueService),
+          await createClassificationService(queueService)
+        );
+      }),
+      initializeWorker('search', async () => new SearchWorker(
+        await createSearchIndexService(),
+        await createSavedSearchService()
+      ))
     ];
 
     await Promise.all(initPromises);
@@ -146,7 +171,7 @@ function initializeCircuitBreakers(config: WorkerConfig['circuitBreaker']): void
  */
 async function initializeWorker(
   type: string,
-  factory: () => GrantWorker | ScraperWorker | SearchWorker
+  factory: () => GrantWorker | ScraperWorker | SearchWorker | Promise<ScraperWorker | SearchWorker>
 ): Promise<void> {
   const breaker = circuitBreakers.get(type);
   if (!breaker) {
@@ -155,7 +180,7 @@ async function initializeWorker(
 
   try {
     const worker = await breaker.execute(async () => {
-      const instance = factory();
+      const instance = await factory();
       await instance.start();
       return instance;
     });
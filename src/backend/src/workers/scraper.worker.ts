@@ -9,6 +9,11 @@ import * as winston from 'winston'; // v3.8.0
 import circuitBreaker from 'opossum'; // v6.0.0
 
 import { ScraperService } from '../services/scraper.service';
+import { SchedulerService } from '../services/scheduler.service';
+import { DeadLetterService } from '../services/deadLetter.service';
+import { BackfillService, BackfillMessage } from '../services/backfill.service';
+import { ClassificationService, ClassificationMessage } from '../services/classification.service';
+import { RateLimitDecision } from '../scraper/rateLimit';
 import { RabbitMQService } from '../lib/queue/rabbitmq.service';
 import { ErrorUtils } from '../utils/error.util';
 import { queueConfig } from '../config/queue.config';
@@ -23,8 +28,7 @@ import {
 
 import {
   ERROR_TYPES,
-  RETRY_CONFIG,
-  SCRAPER_RATE_LIMITS
+  RETRY_CONFIG
 } from '../constants/scraper.constants';
 
 /**
@@ -42,7 +46,11 @@ export class ScraperWorker {
 
   constructor(
     private readonly scraperService: ScraperService,
-    private readonly queueService: RabbitMQService
+    private readonly queueService: RabbitMQService,
+    private readonly scheduler?: SchedulerService,
+    private readonly deadLetters?: DeadLetterService,
+    private readonly backfills?: BackfillService,
+    private readonly classifications?: ClassificationService
   ) {
     this.initializeLogger();
     this.retryCountMap = new Map();
@@ -112,6 +120,31 @@ export class ScraperWorker {
         }
       );
 
+      // Replay archived snapshots on their own queue so backfills never wait behind live scrapes
+      if (this.backfills) {
+        await this.queueService.consume(
+          queueConfig.queues.backfill.name,
+          this.processBackfillMessage.bind(this),
+          { noAck: false }
+        );
+      }
+
+      // Re-classify the stored catalog when an operator requests a classification run
+      if (this.classifications) {
+        await this.queueService.consume(
+          queueConfig.queues.classification.name,
+          this.processClassificationMessage.bind(this),
+          { noAck: false }
+        );
+      }
+
+      // Start recurring institution scrapes once the queue is available; replicas claim due
+      // institutions from the database, so each one is enqueued by a single replica
+      this.scheduler?.start();
+
+      // Keep failed jobs visible to operators instead of leaving them on the dead-letter queue
+      await this.deadLetters?.start();
+
       // Register shutdown handlers
       this.registerShutdownHandlers();
 
@@ -135,7 +168,7 @@ export class ScraperWorker {
       this.validateJob(job);
 
       // Check rate limits
-      const rateLimitStatus = await this.checkRateLimits(job.institutionType);
+      const rateLimitStatus = await this.checkRateLimits(job);
       if (rateLimitStatus.isLimited) {
         await this.handleRateLimit(job, rateLimitStatus);
         return;
@@ -166,6 +199,37 @@ export class ScraperWorker {
     }
   }
 
+  /**
+   * Runs a backfill job. Backfills fetch nothing, so they bypass rate limits and the
+   * circuit breaker; the service records failures on the run, and the consumer
+   * acknowledges the message once this returns.
+   */
+  private async processBackfillMessage(message: any): Promise<void> {
+    const payload: BackfillMessage = JSON.parse(message.content.toString());
+    if (payload.type !== 'backfill' || !payload.runId) {
+      this.logger.error('Discarding invalid backfill message', { payload });
+      return;
+    }
+
+    const run = await this.backfills!.execute(payload.runId);
+    this.logger.info('Backfill job finished', { runId: payload.runId, status: run?.status });
+  }
+
+  /**
+   * Runs a classification job over the stored catalog. The service records failures on
+   * the run, and the consumer acknowledges the message once this returns.
+   */
+  private async processClassificationMessage(message: any): Promise<void> {
+    const payload: ClassificationMessage = JSON.parse(message.content.toString());
+    if (payload.type !== 'classification' || !payload.runId) {
+      this.logger.error('Discarding invalid classification message', { payload });
+      return;
+    }
+
+    const run = await this.classifications!.execute(payload.runId);
+    this.logger.info('Classification job finished', { runId: payload.runId, status: run?.status });
+  }
+
   /**
    * Processes a scraping job with error handling and retries
    */
@@ -228,10 +292,11 @@ export class ScraperWorker {
         delay
       });
     } else {
-      // Move to dead letter queue
+      // Move to dead letter queue; a later replay starts with a fresh retry budget
+      this.retryCountMap.delete(job.id);
       await this.queueService.publishToQueue(
         queueConfig.queues.scraper.deadLetter,
-        { job, error: scraperError }
+        { job, error: scraperError, source: 'worker', timestamp: new Date() }
       );
 
       this.logger.error('Moving job to DLQ', {
@@ -245,18 +310,11 @@ export class ScraperWorker {
   }
 
   /**
-   * Checks rate limits for institution type
+   * Checks the rate limiter shared by all workers for the job's domain
    */
-  private async checkRateLimits(institutionType: string): Promise<RateLimitStatus> {
-    const limits = SCRAPER_RATE_LIMITS[institutionType] || SCRAPER_RATE_LIMITS.DEFAULT;
-    const status = this.rateLimitMap.get(institutionType) || {
-      isLimited: false,
-      remainingRequests: limits.requestsPerSecond,
-      resetTime: new Date(),
-      currentBurst: 0,
-      inCooldown: false
-    };
-
+  private async checkRateLimits(job: ScraperJob): Promise<RateLimitDecision> {
+    const status = await this.scraperService.getRateLimitStatus(job);
+    this.rateLimitMap.set(job.institutionType, status);
     return status;
   }
 
@@ -265,9 +323,9 @@ export class ScraperWorker {
    */
   private async handleRateLimit(
     job: ScraperJob,
-    status: RateLimitStatus
+    status: RateLimitDecision
   ): Promise<void> {
-    const delay = status.resetTime.getTime() - Date.now();
+    const delay = status.waitMs;
     
     this.logger.warn('Rate limit exceeded', {
       jobId: job.id,
@@ -352,7 +410,8 @@ export class ScraperWorker {
     this.logger.info('Stopping scraper worker');
 
     try {
-      // Stop accepting new jobs
+      // Stop scheduling and accepting new jobs
+      this.scheduler?.stop();
       await this.queueService.close();
 
       // Clean up resources
@@ -9,8 +9,13 @@ import { ConsumeMessage } from 'amqplib'; // ^0.10.0
 import { SearchParams, SearchResponse } from '../interfaces/search.interface';
 import { RabbitMQService } from '../lib/queue/rabbitmq.service';
 import { ElasticsearchService } from '../lib/search/elasticsearch.service';
+import { SearchIndexService } from '../services/searchIndex.service';
+import { SavedSearchService } from '../services/savedSearch.service';
+import { searchConfig } from '../config/search.config';
+import { queueConfig } from '../config/queue.config';
 import { logger } from '../utils/logger.util';
 import { ERROR_TYPES, RETRY_STRATEGIES } from '../constants/error.constants';
+import { SAVED_SEARCH_ALERTS } from '../constants/savedSearch.constants';
 
 // Queue configuration constants
 const SEARCH_QUEUE = 'search_jobs';
@@ -51,20 +56,25 @@ export class SearchWorker {
   private searchCache: Map<string, SearchResponse>;
   private metrics: SearchMetrics;
   private circuitBreaker: CircuitBreaker;
+  private indexTimer?: NodeJS.Timeout;
+  private lastAlertRun = 0;
+  private isShuttingDown = false;
 
-  constructor() {
-    // Initialize services
+  /**
+   * @param searchIndex Writes queued technology changes to the index; without it the
+   * worker only serves search requests
+   * @param savedSearches Alerts users to new matches of their saved searches after
+   * indexing cycles
+   */
+  constructor(
+    private readonly searchIndex?: SearchIndexService,
+    private readonly savedSearches?: SavedSearchService
+  ) {
+    // Initialize services; the search queue keeps its own settings, the rest are shared
     this.queueService = new RabbitMQService({
-      connection: {
-        protocol: 'amqp',
-        hostname: process.env.RABBITMQ_HOST || 'localhost',
-        port: parseInt(process.env.RABBITMQ_PORT || '5672'),
-        username: process.env.RABBITMQ_USER || 'guest',
-        password: process.env.RABBITMQ_PASS || 'guest',
-        vhost: '/',
-        heartbeat: 60
-      },
+      connection: queueConfig.connection,
       queues: {
+        ...queueConfig.queues,
         search: {
           name: SEARCH_QUEUE,
           options: {
@@ -78,6 +88,7 @@ export class SearchWorker {
         }
       },
       workers: {
+        ...queueConfig.workers,
         search: {
           concurrency: 3,
           prefetch: 1,
@@ -131,6 +142,9 @@ export class SearchWorker {
 
       // Start metrics collection
       this.startMetricsCollection();
+
+      // Start draining the search index queue
+      this.scheduleIndexing(0);
       
       logger.info('Search worker started successfully');
     } catch (error) {
@@ -139,6 +153,59 @@ export class SearchWorker {
     }
   }
 
+  /**
+   * Stops indexing and consuming search requests
+   */
+  public async stop(): Promise<void> {
+    if (this.isShuttingDown) return;
+    this.isShuttingDown = true;
+
+    logger.info('Stopping search worker');
+    clearTimeout(this.indexTimer);
+    await this.queueService.close();
+  }
+
+  /**
+   * Drains the search index queue after the given delay, then schedules the next pass
+   */
+  private scheduleIndexing(delay: number): void {
+    if (!this.searchIndex || this.isShuttingDown) {
+      return;
+    }
+
+    this.indexTimer = setTimeout(async () => {
+      try {
+        const result = await this.searchIndex!.drainQueue();
+        if (result.claimed > 0) {
+          logger.info('Search index queue drained', { result });
+        }
+        await this.runSavedSearchAlerts(result.indexed + result.deleted > 0);
+      } catch (error) {
+        logger.error('Search index queue processing failed', error as Error);
+      } finally {
+        this.scheduleIndexing(searchConfig.indexing.pollInterval);
+      }
+    }, delay);
+  }
+
+  /**
+   * Runs saved search alerts after a cycle that changed the index, and otherwise every
+   * poll interval so digests go out on schedule
+   */
+  private async runSavedSearchAlerts(indexChanged: boolean): Promise<void> {
+    if (!this.savedSearches ||
+      (!indexChanged && Date.now() - this.lastAlertRun < SAVED_SEARCH_ALERTS.POLL_INTERVAL)) {
+      return;
+    }
+
+    this.lastAlertRun = Date.now();
+    try {
+      await this.savedSearches.runAlerts();
+    } catch (error) {
+      logger.error('Saved search alert run failed', error as Error);
+    }
+  }
+
   /**
    * Handles incoming search request messages
    */
@@ -0,0 +1,64 @@
+/**
+ * @fileoverview Scraper job fixture shared by the suites: a complete job that each suite
+ * adjusts with the fields its cases exercise
+ * @version 1.0.0
+ */
+
+import { ScraperConfig, ScraperJob } from '../../src/interfaces/scraper.interface';
+import { ERROR_TYPES, RETRY_CONFIG } from '../../src/constants/scraper.constants';
+
+/**
+ * Job fields a suite overrides. `config` is merged over the default config, so suites set
+ * only the selectors or options they care about.
+ */
+export type ScraperJobOverrides = Omit<Partial<ScraperJob>, 'config'> & {
+  config?: Partial<ScraperConfig>;
+};
+
+/**
+ * Creates a pending scraper job for a Stanford listing page
+ * @param overrides Fields replacing the defaults
+ */
+export const createScraperJob = (overrides: ScraperJobOverrides = {}): ScraperJob => {
+  const { config, ...job } = overrides;
+
+  return {
+    id: 'job-1',
+    url: 'https://techfinder.stanford.edu/technologies',
+    institutionType: 'US_UNIVERSITIES',
+    institutionId: 'institution-1',
+    config: {
+      selectors: { title: '.tech-title', description: '.tech-description' },
+      timeout: 30000,
+      userAgent: 'TechTransfer-Scraper/1.0',
+      followRedirects: true,
+      maxRedirects: 5,
+      validateSSL: true,
+      ...config
+    },
+    // No job-specific limit, so the institution type's limits apply
+    rateLimitConfig: {
+      requestsPerSecond: 0,
+      burstLimit: 0,
+      cooldownPeriod: 0,
+      institutionOverrides: {},
+      burstHandling: { strategy: 'throttle' }
+    },
+    retryConfig: {
+      maxRetries: RETRY_CONFIG.MAX_RETRIES,
+      initialDelay: RETRY_CONFIG.INITIAL_DELAY,
+      maxDelay: RETRY_CONFIG.MAX_DELAY,
+      backoffFactor: RETRY_CONFIG.BACKOFF_FACTOR,
+      retryableErrors: [ERROR_TYPES.NETWORK_TIMEOUT, ERROR_TYPES.RATE_LIMITED]
+    },
+    status: 'pending',
+    retryCount: 0,
+    validationRules: {
+      required: ['title', 'description'],
+      patterns: {},
+      customValidators: {},
+      dataTypes: {}
+    },
+    ...job
+  };
+};
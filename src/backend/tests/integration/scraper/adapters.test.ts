@@ -8,15 +8,19 @@ import { describe, test, expect, beforeAll, afterAll, beforeEach, jest } from '@
 import nock from 'nock'; // v13.0.0
 import { UniversityAdapter } from '../../../src/scraper/adapters/university.adapter';
 import { FederalAdapter } from '../../../src/scraper/adapters/federal.adapter';
+import { TechPublisherAdapter } from '../../../src/scraper/adapters/techPublisher.adapter';
+import { detectVendor, resolveVendorSelectors } from '../../../src/scraper/adapters/vendor.detector';
+import { DistributedRateLimiter } from '../../../src/scraper/rateLimit';
 import {
   SCRAPER_ENGINES,
   ERROR_TYPES,
-  SCRAPER_RATE_LIMITS
+  SCRAPER_RATE_LIMITS,
+  PORTAL_VENDORS
 } from '../../../src/constants/scraper.constants';
 import {
   ScraperEngine,
   ScraperJob,
-  ScraperResult
+  RateLimitConfig
 } from '../../../src/interfaces/scraper.interface';
 
 // Mock the scraper engine
@@ -25,6 +29,15 @@ jest.mock('../../../src/scraper/engines/index.ts');
 // Extend test timeout for rate limit tests
 jest.setTimeout(30000);
 
+/**
+ * Completes an institution type's limits into a job or adapter rate limit configuration
+ */
+const rateLimitsOf = (limits: typeof SCRAPER_RATE_LIMITS.DEFAULT): RateLimitConfig => ({
+  ...limits,
+  institutionOverrides: {},
+  burstHandling: { strategy: 'throttle' }
+});
+
 describe('Scraper Adapters Integration Tests', () => {
   let mockEngine: ScraperEngine;
   let universityAdapter: UniversityAdapter;
@@ -37,10 +50,10 @@ describe('Scraper Adapters Integration Tests', () => {
     // Initialize mock engine
     mockEngine = {
       type: SCRAPER_ENGINES.BEAUTIFUL_SOUP,
-      initialize: jest.fn().mockResolvedValue(undefined),
-      scrape: jest.fn(),
-      cleanup: jest.fn().mockResolvedValue(undefined),
-      handleRateLimit: jest.fn().mockResolvedValue(undefined)
+      initialize: jest.fn<ScraperEngine['initialize']>().mockResolvedValue(undefined),
+      scrape: jest.fn<ScraperEngine['scrape']>(),
+      cleanup: jest.fn<ScraperEngine['cleanup']>().mockResolvedValue(undefined),
+      handleRateLimit: jest.fn<ScraperEngine['handleRateLimit']>().mockResolvedValue(undefined)
     };
   });
 
@@ -57,7 +70,7 @@ describe('Scraper Adapters Integration Tests', () => {
     // Initialize fresh adapter instances
     universityAdapter = new UniversityAdapter(
       mockEngine,
-      SCRAPER_RATE_LIMITS.US_UNIVERSITIES,
+      rateLimitsOf(SCRAPER_RATE_LIMITS.US_UNIVERSITIES),
       {
         type: 'US',
         selectors: {
@@ -88,10 +101,9 @@ describe('Scraper Adapters Integration Tests', () => {
   describe('UniversityAdapter', () => {
     test('should respect rate limits for US universities', async () => {
       const mockUrl = 'https://test.edu/technologies';
-      const mockData = { title: 'Test Tech', description: 'Test Description' };
-      
+
       // Mock successful scraping response
-      mockEngine.scrape.mockResolvedValue({ html: '<div>Test</div>' });
+      (mockEngine.scrape as jest.Mock).mockResolvedValue({ data: { html: '<div>Test</div>' } } as never);
 
       // Create multiple concurrent scraping jobs
       const jobs: ScraperJob[] = Array(5).fill(null).map((_, i) => ({
@@ -106,7 +118,7 @@ describe('Scraper Adapters Integration Tests', () => {
           maxRedirects: 3,
           validateSSL: true
         },
-        rateLimitConfig: SCRAPER_RATE_LIMITS.US_UNIVERSITIES,
+        rateLimitConfig: rateLimitsOf(SCRAPER_RATE_LIMITS.US_UNIVERSITIES),
         retryConfig: { maxRetries: 3, initialDelay: 1000, maxDelay: 5000, backoffFactor: 2, retryableErrors: [] },
         status: 'pending',
         retryCount: 0,
@@ -133,7 +145,7 @@ describe('Scraper Adapters Integration Tests', () => {
         <div class="tech-description">国际技术描述</div>
       `;
 
-      mockEngine.scrape.mockResolvedValue({ html: mockHtml });
+      (mockEngine.scrape as jest.Mock).mockResolvedValue({ data: { html: mockHtml } } as never);
 
       const job: ScraperJob = {
         id: 'intl-job',
@@ -148,7 +160,7 @@ describe('Scraper Adapters Integration Tests', () => {
           validateSSL: true,
           headers: { 'Accept-Language': 'en,zh' }
         },
-        rateLimitConfig: SCRAPER_RATE_LIMITS.INTERNATIONAL_UNIVERSITIES,
+        rateLimitConfig: rateLimitsOf(SCRAPER_RATE_LIMITS.INTERNATIONAL_UNIVERSITIES),
         retryConfig: { maxRetries: 3, initialDelay: 1000, maxDelay: 5000, backoffFactor: 2, retryableErrors: [] },
         status: 'pending',
         retryCount: 0,
@@ -182,6 +194,7 @@ describe('Scraper Adapters Integration Tests', () => {
         url: mockUrl,
         institutionType: 'FEDERAL_LAB',
         config: {
+          selectors: {},
           timeout: 5000,
           userAgent: 'test-agent',
           followRedirects: true,
@@ -189,7 +202,7 @@ describe('Scraper Adapters Integration Tests', () => {
           validateSSL: true,
           headers: { 'X-API-Key': 'test-api-key' }
         },
-        rateLimitConfig: SCRAPER_RATE_LIMITS.FEDERAL_LABS,
+        rateLimitConfig: rateLimitsOf(SCRAPER_RATE_LIMITS.FEDERAL_LABS),
         retryConfig: { maxRetries: 3, initialDelay: 1000, maxDelay: 5000, backoffFactor: 2, retryableErrors: [] },
         status: 'pending',
         retryCount: 0,
@@ -223,6 +236,7 @@ describe('Scraper Adapters Integration Tests', () => {
         url: mockUrl,
         institutionType: 'FEDERAL_LAB',
         config: {
+          selectors: {},
           timeout: 5000,
           userAgent: 'test-agent',
           followRedirects: true,
@@ -230,7 +244,7 @@ describe('Scraper Adapters Integration Tests', () => {
           validateSSL: true,
           headers: { 'X-API-Key': 'test-api-key' }
         },
-        rateLimitConfig: SCRAPER_RATE_LIMITS.FEDERAL_LABS,
+        rateLimitConfig: rateLimitsOf(SCRAPER_RATE_LIMITS.FEDERAL_LABS),
         retryConfig: { maxRetries: 3, initialDelay: 1000, maxDelay: 5000, backoffFactor: 2, retryableErrors: [] },
         status: 'pending',
         retryCount: 0,
@@ -264,6 +278,7 @@ describe('Scraper Adapters Integration Tests', () => {
         url: mockUrl,
         institutionType: 'FEDERAL_LAB',
         config: {
+          selectors: {},
           timeout: 5000,
           userAgent: 'test-agent',
           followRedirects: true,
@@ -271,7 +286,7 @@ describe('Scraper Adapters Integration Tests', () => {
           validateSSL: true,
           headers: { 'X-API-Key': 'test-api-key' }
         },
-        rateLimitConfig: SCRAPER_RATE_LIMITS.FEDERAL_LABS,
+        rateLimitConfig: rateLimitsOf(SCRAPER_RATE_LIMITS.FEDERAL_LABS),
         retryConfig: { maxRetries: 3, initialDelay: 1000, maxDelay: 5000, backoffFactor: 2, retryableErrors: [ERROR_TYPES.RATE_LIMITED] },
         status: 'pending',
         retryCount: 0,
@@ -288,4 +303,82 @@ describe('Scraper Adapters Integration Tests', () => {
       expect(nock.isDone()).toBe(true);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('Portal Vendor Adapters', () => {
+  const rateLimitConfig = rateLimitsOf(SCRAPER_RATE_LIMITS.DEFAULT);
+  let mockEngine: ScraperEngine;
+
+  beforeEach(() => {
+    mockEngine = {
+      type: SCRAPER_ENGINES.BEAUTIFUL_SOUP,
+      initialize: jest.fn<ScraperEngine['initialize']>().mockResolvedValue(undefined),
+      scrape: jest.fn<ScraperEngine['scrape']>(),
+      cleanup: jest.fn<ScraperEngine['cleanup']>().mockResolvedValue(undefined),
+      handleRateLimit: jest.fn<ScraperEngine['handleRateLimit']>().mockResolvedValue(undefined)
+    };
+  });
+
+  test('should fingerprint a vendor from its host or from its markup', () => {
+    const hosted = detectVendor('<html><body></body></html>', 'https://mit.technologypublisher.com/');
+    const selfHosted = detectVendor(
+      '<form id="formTechPub1"></form><footer>Powered by <a>Technology Publisher</a></footer>',
+      'https://licensing.example.edu/'
+    );
+
+    expect(hosted).toMatchObject({ vendor: 'TECHPUBLISHER', signals: ['host'] });
+    expect(selfHosted).toMatchObject({ vendor: 'TECHPUBLISHER', signals: ['powered_by', 'techpub_form'] });
+    expect(detectVendor('<p>Powered by Technology Publisher</p>', 'https://example.edu/')).toBeNull();
+  });
+
+  test('should layer institution selectors over vendor defaults', () => {
+    const selectors = resolveVendorSelectors({ title: '.custom-title', description: '' }, 'FLC');
+
+    expect(selectors).toMatchObject({
+      title: '.custom-title',
+      description: PORTAL_VENDORS.FLC.SELECTORS.description,
+      pagination: PORTAL_VENDORS.FLC.SELECTORS.pagination,
+      links: [PORTAL_VENDORS.FLC.SELECTORS.links]
+    });
+    expect(selectors.metadata).toHaveProperty('inventors', PORTAL_VENDORS.FLC.SELECTORS.inventors);
+  });
+
+  test('should scrape with vendor default selectors and normalize vendor markup', async () => {
+    const adapter = new TechPublisherAdapter(
+      mockEngine,
+      rateLimitConfig,
+      new DistributedRateLimiter({ eval: jest.fn().mockResolvedValue([1, 1, 0, 0, 0, 0] as never) } as any)
+    );
+    (mockEngine.scrape as jest.Mock).mockResolvedValue({
+      data: {
+        title: 'Solid-state battery electrolyte',
+        inventors: 'Ada Chen; Raj Patel',
+        patentNumbers: ['Patent Number', 'US 10,123,456 (Issued)']
+      }
+    } as never);
+
+    const result = await adapter.scrape({
+      id: 'vendor-job',
+      url: 'https://mit.technologypublisher.com/technology/1',
+      institutionType: 'US_UNIVERSITIES',
+      config: { selectors: { title: '.custom-title' } },
+      rateLimitConfig,
+      retryConfig: { maxRetries: 0, initialDelay: 1000, maxDelay: 5000, backoffFactor: 2, retryableErrors: [] },
+      status: 'pending',
+      retryCount: 0,
+      validationRules: { required: ['title'], patterns: {}, customValidators: {}, dataTypes: {} }
+    } as unknown as ScraperJob);
+
+    expect(mockEngine.initialize).toHaveBeenCalledWith(expect.objectContaining({
+      selectors: expect.objectContaining({
+        title: '.custom-title',
+        inventors: PORTAL_VENDORS.TECHPUBLISHER.SELECTORS.inventors
+      })
+    }));
+    expect(result.data).toEqual({
+      title: 'Solid-state battery electrolyte',
+      inventors: ['Ada Chen', 'Raj Patel'],
+      patentNumbers: ['US 10,123,456']
+    });
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview Integration tests for crawl mode verifying pagination walking, detail
+ * page following, visited-URL deduplication, scope rules and crawl caps.
+ * @version 1.0.0
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import nock from 'nock'; // v13.0.0
+import { ListingCrawler } from '../../../src/scraper/crawler';
+import { RobotsPolicy } from '../../../src/scraper/robots';
+import { DistributedRateLimiter } from '../../../src/scraper/rateLimit';
+import { ProxyPool } from '../../../src/scraper/proxy';
+import { HTMLParser } from '../../../src/scraper/parsers/html.parser';
+import { ScraperJob } from '../../../src/interfaces/scraper.interface';
+import { createScraperJob, ScraperJobOverrides } from '../../fixtures/scraperJob';
+
+const BASE_URL = 'https://tto.example.edu';
+
+const listingPage = (links: string[], next?: string): string => `
+  <html><body>
+    <ul class="techs">
+      ${links.map(link => `<li class="tech"><a class="tech-link" href="${link}">Tech</a></li>`).join('')}
+    </ul>
+    ${next ? `<a class="next" href="${next}">Next</a>` : ''}
+  </body></html>`;
+
+const detailPage = (title: string): string => `
+  <html><body>
+    <h1 class="title">${title}</h1>
+    <div class="description">${title} description</div>
+  </body></html>`;
+
+const createJob = (overrides: ScraperJobOverrides = {}): ScraperJob => createScraperJob({
+  id: 'crawl-job-1',
+  url: `${BASE_URL}/technologies`,
+  mode: 'crawl',
+  config: {
+    selectors: {
+      title: '.title',
+      description: '.description',
+      links: 'a.tech-link',
+      pagination: 'a.next'
+    }
+  },
+  ...overrides
+});
+
+describe('Listing Crawler Integration Tests', () => {
+  let crawler: ListingCrawler;
+
+  beforeAll(() => {
+    nock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+    nock.cleanAll();
+  });
+
+  beforeEach(() => {
+    nock.cleanAll();
+    nock(BASE_URL).get('/robots.txt').reply(404);
+    crawler = new ListingCrawler(
+      undefined,
+      new RobotsPolicy(),
+      new DistributedRateLimiter({ eval: jest.fn().mockResolvedValue([1, 1, 0, 0, 0, 0] as never) } as any),
+      new ProxyPool([], {} as any)
+    );
+  });
+
+  test('should walk pagination and emit one result per detail page', async () => {
+    // Arrange
+    nock(BASE_URL)
+      .get('/technologies').reply(200, listingPage(['/tech/1', '/tech/2'], '/technologies?page=2'))
+      .get('/technologies?page=2').reply(200, listingPage(['/tech/2', '/tech/3#overview']))
+      .get('/tech/1').reply(200, detailPage('Solar Cell'))
+      .get('/tech/2').reply(200, detailPage('Gene Therapy'))
+      .get('/tech/3').reply(200, detailPage('Quantum Sensor'));
+
+    // Act
+    const result = await crawler.crawl(createJob());
+
+    // Assert
+    expect(result.listingPagesVisited).toBe(2);
+    expect(result.detailPagesVisited).toBe(3);
+    expect(result.truncated).toBe(false);
+    expect(result.listingComplete).toBe(true);
+    expect(result.results.map(item => item.url)).toEqual([
+      `${BASE_URL}/tech/1`,
+      `${BASE_URL}/tech/2`,
+      `${BASE_URL}/tech/3`
+    ]);
+    expect(result.results[0].data.title).toBe('Solar Cell');
+    expect(result.results[0].data.links).toBeUndefined();
+    expect(result.results[2].data.crawl.listingUrl).toBe(`${BASE_URL}/technologies?page=2`);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  test('should follow every page of numbered pagination once', async () => {
+    // Arrange
+    const numberedListing = (links: string[]): string => listingPage(links).replace('</body>', `
+      <a class="page" href="/technologies">1</a>
+      <a class="page" href="/technologies?page=2">2</a>
+      <a class="page" href="/technologies?page=3">3</a>
+    </body>`);
+    nock(BASE_URL)
+      .get('/technologies').reply(200, numberedListing(['/tech/1']))
+      .get('/technologies?page=2').reply(200, numberedListing(['/tech/2']))
+      .get('/technologies?page=3').reply(200, numberedListing(['/tech/3']))
+      .get('/tech/1').reply(200, detailPage('Solar Cell'))
+      .get('/tech/2').reply(200, detailPage('Gene Therapy'))
+      .get('/tech/3').reply(200, detailPage('Quantum Sensor'));
+
+    // Act
+    const result = await crawler.crawl(createJob({
+      crawlConfig: { paginationSelector: 'a.page' }
+    }));
+
+    // Assert
+    expect(result.listingPagesVisited).toBe(3);
+    expect(result.results.map(item => item.url)).toEqual([
+      `${BASE_URL}/tech/1`,
+      `${BASE_URL}/tech/2`,
+      `${BASE_URL}/tech/3`
+    ]);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  test('should skip out-of-scope links and stop at caps', async () => {
+    // Arrange
+    nock(BASE_URL)
+      .get('/technologies')
+      .reply(200, listingPage(['/tech/1', 'https://other.example.com/tech/9', '/tech/2'], '/technologies?page=2'))
+      .get('/tech/1').reply(200, detailPage('Solar Cell'));
+
+    // Act
+    const result = await crawler.crawl(createJob({
+      crawlConfig: { maxPages: 1, maxItems: 1 }
+    }));
+
+    // Assert
+    expect(result.results).toHaveLength(1);
+    expect(result.truncated).toBe(true);
+    expect(result.skipped).toEqual(expect.arrayContaining([
+      { url: 'https://other.example.com/tech/9', reason: 'out_of_scope' },
+      { url: `${BASE_URL}/technologies?page=2`, reason: 'page_cap' },
+      { url: `${BASE_URL}/tech/2`, reason: 'item_cap' }
+    ]));
+  });
+
+  test('should skip detail pages disallowed by robots.txt', async () => {
+    // Arrange
+    nock.cleanAll();
+    nock(BASE_URL)
+      .get('/robots.txt').reply(200, 'User-agent: *\nDisallow: /tech/2\n')
+      .get('/technologies').reply(200, listingPage(['/tech/1', '/tech/2']))
+      .get('/tech/1').reply(200, detailPage('Solar Cell'));
+
+    // Act
+    const result = await crawler.crawl(createJob());
+
+    // Assert
+    expect(result.results).toHaveLength(1);
+    expect(result.skipped).toContainEqual({ url: `${BASE_URL}/tech/2`, reason: 'robots_disallowed' });
+    expect(result.listingComplete).toBe(true);
+    expect(nock.isDone()).toBe(true);
+  });
+
+  test('should record a page that fails to parse and keep crawling', async () => {
+    // Arrange
+    nock(BASE_URL)
+      .get('/technologies').reply(200, listingPage(['/tech/1', '/tech/2']))
+      .get('/tech/1').reply(200, detailPage('Solar Cell'))
+      .get('/tech/2').reply(200, detailPage('Gene Therapy'));
+    const parse = jest.spyOn(HTMLParser.prototype, 'parse')
+      .mockRejectedValueOnce(new Error('Unexpected markup') as never);
+
+    // Act
+    const result = await crawler.crawl(createJob());
+    parse.mockRestore();
+
+    // Assert
+    expect(result.results.map(item => item.data.title)).toEqual(['Gene Therapy']);
+    expect(result.skipped).toContainEqual({ url: `${BASE_URL}/tech/1`, reason: 'parse_failed' });
+    expect(result.listingComplete).toBe(true);
+  });
+
+  test('should mark the listing incomplete when a listing page cannot be fetched', async () => {
+    // Arrange
+    nock(BASE_URL)
+      .get('/technologies').reply(200, listingPage(['/tech/1'], '/technologies?page=2'))
+      .get('/technologies?page=2').reply(500)
+      .get('/tech/1').reply(200, detailPage('Solar Cell'));
+
+    // Act
+    const result = await crawler.crawl(createJob());
+
+    // Assert
+    expect(result.results).toHaveLength(1);
+    expect(result.truncated).toBe(false);
+    expect(result.skipped).toContainEqual({ url: `${BASE_URL}/technologies?page=2`, reason: 'fetch_failed' });
+    expect(result.listingComplete).toBe(false);
+  });
+
+  test('should require a detail link selector', async () => {
+    // Arrange
+    const job = createJob({
+      config: { selectors: { title: '.title' } }
+    });
+
+    // Act & Assert
+    await expect(crawler.crawl(job)).rejects.toThrow('Crawl mode requires a detail link selector');
+  });
+});
@@ -4,9 +4,15 @@
  * @version 1.0.0
  */
 
-import { HTMLParser } from '../../src/scraper/parsers/html.parser';
-import { PDFParser } from '../../src/scraper/parsers/pdf.parser';
-import { ERROR_TYPES } from '../../src/constants/scraper.constants';
+import { HTMLParser } from '../../../src/scraper/parsers/html.parser';
+import { PDFParser } from '../../../src/scraper/parsers/pdf.parser';
+import {
+  readTextLines,
+  readPlainLines,
+  analyzeDocument,
+  toTechnologyData
+} from '../../../src/scraper/parsers/pdf.structure';
+import { ERROR_TYPES } from '../../../src/constants/scraper.constants';
 import { promises as fs } from 'fs'; // v18.0.0
 import * as path from 'path'; // v18.0.0
 import now from 'performance-now'; // v2.1.0
@@ -102,6 +108,80 @@ describe('HTML Parser Integration Tests', () => {
   });
 });
 
+describe('HTML Parser Structured Data Tests', () => {
+  const structuredHTML = `
+    <html><head>
+      <meta property="og:title" content="Graph title">
+      <meta property="og:description" content="Described by OpenGraph">
+      <script type="application/ld+json">
+        {
+          "@context": "https://schema.org",
+          "@graph": [
+            { "@type": "Organization", "name": "Office of Technology Licensing" },
+            {
+              "@type": "CreativeWork",
+              "name": "Solid-state battery electrolyte",
+              "inventor": [{ "@type": "Person", "givenName": "Ada", "familyName": "Chen" }, "Raj Patel"],
+              "identifier": { "@type": "PropertyValue", "propertyID": "Patent", "value": "US 10,123,456 B2" },
+              "keywords": "energy storage, batteries"
+            }
+          ]
+        }
+      </script>
+    </head><body>
+      <h1 class="tech-title">Selector title</h1>
+      <div itemscope itemtype="https://schema.org/CreativeWork">
+        <span itemprop="name">Microdata title</span>
+        <p itemprop="description">Described by microdata</p>
+      </div>
+    </body></html>`;
+
+  test('should extract technology fields with no selectors configured', async () => {
+    const structuredParser = new HTMLParser({ selectors: {} });
+
+    const result = await structuredParser.parse(structuredHTML);
+    expect(result.success).toBe(true);
+    expect(result.data).toEqual({
+      title: 'Solid-state battery electrolyte',
+      description: 'Described by microdata',
+      inventors: ['Ada Chen', 'Raj Patel'],
+      patentNumbers: ['US 10,123,456 B2'],
+      categories: ['energy storage', 'batteries']
+    });
+    expect(result.sources).toMatchObject({ title: 'jsonLd', description: 'microdata' });
+  });
+
+  test('should merge selector output by configured precedence', async () => {
+    const structuredParser = new HTMLParser({
+      selectors: { title: '.tech-title' },
+      structuredData: {
+        precedence: ['openGraph', 'selectors', 'jsonLd', 'microdata'],
+        fieldPrecedence: { title: ['selectors'] }
+      }
+    });
+
+    const result = await structuredParser.parse(structuredHTML);
+    expect(result.data.title).toBe('Selector title');
+    expect(result.data.description).toBe('Described by OpenGraph');
+    expect(result.sources).toMatchObject({ title: 'selectors', description: 'openGraph' });
+  });
+
+  test('should report malformed JSON-LD without failing the parse', async () => {
+    const structuredParser = new HTMLParser({ selectors: { title: '.tech-title' } });
+
+    const result = await structuredParser.parse(
+      '<script type="application/ld+json">{ "name": </script><h1 class="tech-title">Title</h1>'
+    );
+    expect(result.success).toBe(true);
+    expect(result.data.title).toBe('Title');
+    expect(result.validationResults.validationErrors[0].type).toBe(ERROR_TYPES.PARSE_ERROR);
+  });
+
+  test('should require selectors when structured data is disabled', () => {
+    expect(() => new HTMLParser({ selectors: {}, structuredData: { enabled: false } })).toThrow();
+  });
+});
+
 describe('PDF Parser Integration Tests', () => {
   let parser: PDFParser;
   let samplePDF: Buffer;
@@ -135,9 +215,9 @@ describe('PDF Parser Integration Tests', () => {
       
       expect(result.success).toBe(true);
       expect(result.text).toBeTruthy();
-      expect(result.metadata).toBeDefined();
-      expect(result.metadata.title).toBeTruthy();
-      expect(result.metadata.pageCount).toBeGreaterThan(0);
+      expect(result.metadata).not.toBeNull();
+      expect(result.metadata?.title).toBeTruthy();
+      expect(result.metadata?.pageCount).toBeGreaterThan(0);
     });
 
     test('should handle streaming parse for large PDFs', async () => {
@@ -195,4 +275,94 @@ describe('PDF Parser Integration Tests', () => {
       expect(result.errors[0].message).toContain('timeout');
     });
   });
-});
\ No newline at end of file
+});
+
+describe('PDF One-Pager Structure Tests', () => {
+  // pdf2json text entries: x/y in page units, T URI-encoded, TS = [face, size, bold, italic]
+  const text = (x: number, y: number, value: string, size = 10, bold = 0) => ({
+    x, y, w: 0, R: [{ T: encodeURIComponent(value), TS: [0, size, bold, 0] }]
+  });
+
+  const layout = {
+    Pages: [{
+      Texts: [
+        text(2, 2, 'Self-Healing Polymer Coating', 18, 1),
+        text(2, 3.5, 'A coating that repairs scratches at room temperature.'),
+        text(2, 5, 'Background', 12, 1),
+        text(2, 6, 'Protective coatings crack under thermal cycling and lose their barrier'),
+        text(2, 6.8, 'properties within months.'),
+        text(2, 8, 'Key Advantages', 12, 1),
+        text(2, 9, '• Repairs in under an hour'),
+        text(2, 9.8, '• No external heat required'),
+        text(2, 11, 'Patent Status', 12, 1),
+        text(2, 12, 'Patent'),
+        text(14, 12, 'Status'),
+        text(2, 12.8, 'US 10,123,456 B2'),
+        text(14, 12.8, 'Issued'),
+        text(2, 13.6, 'PCT/US2021/054321'),
+        text(14, 13.6, 'Pending'),
+        text(2, 15, 'Inventors: Dr. Jane Doe, PhD; John Smith'),
+        text(2, 16.5, 'Contact Information', 12, 1),
+        text(2, 17.5, 'Alex Kim, Licensing Manager'),
+        text(2, 18.3, 'akim@university.edu'),
+        text(2, 19.1, 'Phone: (555) 123-4567')
+      ]
+    }]
+  };
+
+  test('should segment sections and pick the title by font size', () => {
+    const structure = analyzeDocument(readTextLines(layout));
+
+    expect(structure.title).toBe('Self-Healing Polymer Coating');
+    expect(structure.sections.map(section => section.key)).toEqual(
+      ['other', 'background', 'advantages', 'ipStatus', 'inventors', 'contact']
+    );
+    expect(structure.sections[1].text).toBe(
+      'Protective coatings crack under thermal cycling and lose their barrier properties within months.'
+    );
+    expect(structure.sections[2].text).toBe('• Repairs in under an hour\n• No external heat required');
+  });
+
+  test('should extract patent numbers, contacts and tables', () => {
+    const structure = analyzeDocument(readTextLines(layout));
+
+    expect(structure.patentNumbers).toEqual(['US 10,123,456 B2', 'PCT/US2021/054321']);
+    expect(structure.contacts).toEqual([
+      { name: 'Alex Kim', email: 'akim@university.edu', phone: '(555) 123-4567' }
+    ]);
+    expect(structure.tables).toEqual([{
+      page: 1,
+      headers: ['Patent', 'Status'],
+      rows: [['US 10,123,456 B2', 'Issued'], ['PCT/US2021/054321', 'Pending']]
+    }]);
+  });
+
+  test('should map the structure onto technology fields and metadata', () => {
+    const data = toTechnologyData(analyzeDocument(readTextLines(layout)));
+
+    expect(data.title).toBe('Self-Healing Polymer Coating');
+    expect(data.description).toBe('A coating that repairs scratches at room temperature.');
+    expect(data.inventors).toEqual(['Jane Doe', 'John Smith']);
+    expect(data.patentNumbers).toEqual(['US 10,123,456 B2', 'PCT/US2021/054321']);
+    expect(data.metadata.sections.advantages).toContain('No external heat required');
+    expect(data.metadata.contacts[0].email).toBe('akim@university.edu');
+  });
+
+  test('should fall back to plain text when the layout has no text', () => {
+    const lines = readPlainLines('Microfluidic Sorter\nSummary\nSorts cells by size.\nIP Status: US Patent Application No. 17/654,321');
+    const structure = analyzeDocument(lines);
+
+    expect(structure.title).toBe('Microfluidic Sorter');
+    expect(structure.sections.find(section => section.key === 'summary')?.text).toBe('Sorts cells by size.');
+    expect(structure.patentNumbers).toEqual(['US Patent Application No. 17/654,321']);
+  });
+
+  test('should take patent numbers only from the IP section', () => {
+    const lines = readPlainLines(
+      'Microfluidic Sorter\nBackground\nImproves on the sorter of US 9,876,543 B1.\nIP Status\nUS 10,123,456 B2'
+    );
+    const structure = analyzeDocument(lines);
+
+    expect(structure.patentNumbers).toEqual(['US 10,123,456 B2']);
+  });
+});
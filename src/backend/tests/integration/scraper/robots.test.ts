@@ -0,0 +1,192 @@
+/**
+ * @fileoverview Integration tests for the shared robots.txt compliance layer verifying
+ * rule matching, Crawl-delay spacing, institution overrides, fetch failure handling and
+ * recording of disallowed URLs.
+ * @version 1.0.0
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach, jest } from '@jest/globals';
+import nock from 'nock'; // v13.0.0
+import {
+  RobotsPolicy,
+  RobotsDisallowedError,
+  parseRobotsTxt,
+  matchRobotsRules
+} from '../../../src/scraper/robots';
+import { ScraperJob, RobotsOverride } from '../../../src/interfaces/scraper.interface';
+import { createScraperJob, ScraperJobOverrides } from '../../fixtures/scraperJob';
+import { ERROR_TYPES } from '../../../src/constants/scraper.constants';
+
+const BASE_URL = 'https://tto.example.edu';
+
+const ROBOTS_TXT = `
+User-agent: *
+Disallow: /private
+Crawl-delay: 1
+
+User-agent: TechTransfer-Scraper
+Disallow: /admin
+Allow: /admin/public
+Disallow: /*.pdf$
+`;
+
+const createJob = (overrides: ScraperJobOverrides = {}): ScraperJob => createScraperJob({
+  id: 'robots-job-1',
+  url: `${BASE_URL}/technologies`,
+  ...overrides
+});
+
+const createOverride = (overrides: Partial<RobotsOverride> = {}): RobotsOverride => ({
+  ignoreDisallow: true,
+  crawlDelay: null,
+  reason: 'Written permission from the licensing office',
+  grantedBy: 'admin-1',
+  grantedAt: new Date(),
+  ...overrides
+});
+
+describe('robots.txt parser', () => {
+  test('should prefer the group naming the user agent over the wildcard group', () => {
+    // Arrange
+    const ruleSet = parseRobotsTxt(ROBOTS_TXT, 'TechTransfer-Scraper');
+
+    // Act & Assert
+    expect(matchRobotsRules(ruleSet, '/private/tech')).toEqual({ allowed: true });
+    expect(matchRobotsRules(ruleSet, '/admin/settings')).toEqual({ allowed: false, rule: 'Disallow: /admin' });
+    expect(matchRobotsRules(ruleSet, '/admin/public/list').allowed).toBe(true);
+    expect(matchRobotsRules(ruleSet, '/files/brochure.pdf').allowed).toBe(false);
+    expect(matchRobotsRules(ruleSet, '/files/brochure.pdf?download=1').allowed).toBe(true);
+    expect(ruleSet.crawlDelay).toBeNull();
+  });
+
+  test('should fall back to the wildcard group and read its crawl delay', () => {
+    // Arrange
+    const ruleSet = parseRobotsTxt(ROBOTS_TXT, 'OtherBot');
+
+    // Act & Assert
+    expect(matchRobotsRules(ruleSet, '/private/tech').allowed).toBe(false);
+    expect(matchRobotsRules(ruleSet, '/admin').allowed).toBe(true);
+    expect(ruleSet.crawlDelay).toBe(1);
+  });
+});
+
+describe('RobotsPolicy Integration Tests', () => {
+  let policy: RobotsPolicy;
+  let scrapeLogRepository: { logDisallowed: jest.Mock };
+
+  beforeAll(() => {
+    nock.disableNetConnect();
+  });
+
+  afterAll(() => {
+    nock.enableNetConnect();
+    nock.cleanAll();
+  });
+
+  beforeEach(() => {
+    nock.cleanAll();
+    scrapeLogRepository = { logDisallowed: jest.fn().mockResolvedValue({} as never) };
+    policy = new RobotsPolicy(scrapeLogRepository as any);
+  });
+
+  test('should reject disallowed URLs and record them as robots_disallowed', async () => {
+    // Arrange
+    nock(BASE_URL).get('/robots.txt').reply(200, ROBOTS_TXT);
+    const job = createJob({ url: `${BASE_URL}/admin/settings` });
+
+    // Act
+    const error = await policy.enforce(job).catch(err => err);
+
+    // Assert
+    expect(error).toBeInstanceOf(RobotsDisallowedError);
+    expect(error.type).toBe(ERROR_TYPES.ROBOTS_DISALLOWED);
+    expect(scrapeLogRepository.logDisallowed).toHaveBeenCalledWith(
+      expect.objectContaining({ url: job.url, allowed: false, rule: 'Disallow: /admin' }),
+      expect.objectContaining({ jobId: job.id, institutionId: 'institution-1' })
+    );
+  });
+
+  test('should fetch robots.txt once per origin and reuse the cached copy', async () => {
+    // Arrange
+    const scope = nock(BASE_URL).get('/robots.txt').once().reply(200, ROBOTS_TXT);
+
+    // Act
+    await policy.check(`${BASE_URL}/technologies`);
+    const decision = await policy.check(`${BASE_URL}/admin/public`);
+
+    // Assert
+    expect(decision.allowed).toBe(true);
+    expect(scope.isDone()).toBe(true);
+  });
+
+  test('should space requests to one origin by its crawl delay', async () => {
+    // Arrange
+    nock(BASE_URL).get('/robots.txt').reply(200, 'User-agent: *\nCrawl-delay: 0.2\n');
+    const job = createJob();
+
+    // Act
+    const start = Date.now();
+    await policy.enforce(job);
+    await policy.enforce(job, `${BASE_URL}/technologies?page=2`);
+
+    // Assert
+    expect(Date.now() - start).toBeGreaterThanOrEqual(190);
+  });
+
+  test('should treat a missing robots.txt as allowing everything', async () => {
+    // Arrange
+    nock(BASE_URL).get('/robots.txt').reply(404);
+
+    // Act
+    const decision = await policy.check(`${BASE_URL}/admin`);
+
+    // Assert
+    expect(decision.allowed).toBe(true);
+    expect(decision.crawlDelay).toBeNull();
+  });
+
+  test('should block the origin when robots.txt fails with a server error', async () => {
+    // Arrange
+    nock(BASE_URL).get('/robots.txt').reply(503);
+
+    // Act
+    const decision = await policy.check(`${BASE_URL}/technologies`);
+
+    // Assert
+    expect(decision.allowed).toBe(false);
+    expect(decision.rule).toContain('503');
+  });
+
+  test('should apply an active institution override and its crawl delay', async () => {
+    // Arrange
+    nock(BASE_URL).get('/robots.txt').reply(200, ROBOTS_TXT);
+    const job = createJob({
+      url: `${BASE_URL}/admin/settings`,
+      robotsOverride: createOverride({ crawlDelay: 5 })
+    });
+
+    // Act
+    const decision = await policy.check(job.url, job.robotsOverride);
+
+    // Assert
+    expect(decision).toEqual(expect.objectContaining({
+      allowed: true,
+      overridden: true,
+      rule: 'Disallow: /admin',
+      crawlDelay: 5
+    }));
+  });
+
+  test('should ignore an expired institution override', async () => {
+    // Arrange
+    nock(BASE_URL).get('/robots.txt').reply(200, ROBOTS_TXT);
+    const override = createOverride({ expiresAt: new Date(Date.now() - 1000) });
+
+    // Act
+    const decision = await policy.check(`${BASE_URL}/admin/settings`, override);
+
+    // Assert
+    expect(decision.allowed).toBe(false);
+    expect(decision.overridden).toBe(false);
+  });
+});
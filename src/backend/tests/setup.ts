@@ -0,0 +1,26 @@
+/**
+ * @fileoverview Jest setup shared by every suite: loads the decorator metadata polyfill the
+ * dependency injection containers need, keeps Mongoose models from building indexes or queueing
+ * commands against a database the suites never connect to, and replaces the application logger so suites do not
+ * open log files or install process-wide error handlers.
+ * @version 1.0.0
+ */
+
+import 'reflect-metadata';
+import mongoose from 'mongoose';
+import { jest } from '@jest/globals';
+
+mongoose.set('autoIndex', false);
+mongoose.set('autoCreate', false);
+mongoose.set('bufferCommands', false);
+
+jest.mock('../src/utils/logger.util', () => ({
+  logger: {
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    critical: jest.fn(),
+    setContext: jest.fn(),
+    clearContext: jest.fn()
+  }
+}));
@@ -0,0 +1,189 @@
+/**
+ * @fileoverview Unit tests for snapshot backfills covering dry-run diff reports, committing
+ * dry runs through the technology upsert path and recording failed runs.
+ * @version 1.0.0
+ */
+
+import { describe, beforeEach, afterEach, test, expect, jest } from '@jest/globals';
+import { BackfillService } from '../../../src/services/backfill.service';
+
+const CAPTURED_AT = new Date('2026-09-01T00:00:00Z');
+
+const PAGE_HTML = `
+  <html><body>
+    <h1 class="tech-title">Solid-state   battery
+      electrolyte</h1>
+    <div class="tech-description">A ceramic electrolyte for lithium metal cells.</div>
+  </body></html>`;
+
+const createSnapshot = (overrides: Record<string, unknown> = {}) => ({
+  id: 'snapshot-1',
+  institutionId: 'institution-1',
+  institutionType: 'US_UNIVERSITIES',
+  url: 'https://techfinder.stanford.edu/technologies/1',
+  key: 'snapshots/ab/abc.gz',
+  sha256: 'abc',
+  contentType: 'text/html',
+  size: PAGE_HTML.length,
+  selectors: { title: '.old-title' },
+  capturedAt: CAPTURED_AT,
+  ...overrides
+});
+
+const INSTITUTION = {
+  id: 'institution-1',
+  name: 'Stanford University',
+  selectors: { title: '.tech-title', description: '.tech-description', pagination: '.next' }
+};
+
+describe('BackfillService', () => {
+  let service: BackfillService;
+  let runs: Record<string, any>;
+  let queueService: { publishToQueue: jest.Mock };
+  let snapshotService: { readBody: jest.Mock };
+  let technologyService: {
+    previewFromScraper: jest.Mock;
+    upsertFromScraper: jest.Mock;
+    listActiveByInstitution: jest.Mock;
+  };
+  let institutionRepository: { findOne: jest.Mock };
+  let runRepository: { create: jest.Mock; findById: jest.Mock; update: jest.Mock; markCommitted: jest.Mock };
+  let snapshotRepository: { findLatestPerPage: jest.Mock };
+
+  beforeEach(() => {
+    runs = {};
+    queueService = { publishToQueue: jest.fn().mockResolvedValue(true as never) };
+    snapshotService = { readBody: jest.fn().mockResolvedValue(Buffer.from(PAGE_HTML) as never) };
+    technologyService = {
+      previewFromScraper: jest.fn().mockImplementation(async (result: any) => ({
+        technology: { id: 'technology-1', title: result.data.title },
+        status: 'updated',
+        changedFields: { title: { previous: 'Solid state battery', current: result.data.title } }
+      })),
+      upsertFromScraper: jest.fn().mockImplementation(async (result: any) => ({
+        technology: { id: 'technology-1', title: result.data.title },
+        status: 'updated',
+        changedFields: {}
+      })),
+      listActiveByInstitution: jest.fn().mockResolvedValue([] as never)
+    };
+    institutionRepository = { findOne: jest.fn().mockResolvedValue(INSTITUTION as never) };
+    runRepository = {
+      create: jest.fn().mockImplementation(async (data: any) => {
+        const run = { ...data, id: `run-${Object.keys(runs).length + 1}`, committedRunId: null };
+        runs[run.id] = run;
+        return run;
+      }),
+      findById: jest.fn().mockImplementation(async (id: any) => runs[id] || null),
+      update: jest.fn().mockImplementation(async (id: any, update: any) => Object.assign(runs[id], update)),
+      markCommitted: jest.fn().mockImplementation(async (id: any, committedRunId: any) =>
+        Object.assign(runs[id], { committedRunId }))
+    };
+    snapshotRepository = { findLatestPerPage: jest.fn().mockResolvedValue([createSnapshot()] as never) };
+
+    service = new BackfillService(
+      queueService as any,
+      snapshotService as any,
+      technologyService as any,
+      institutionRepository as any,
+      runRepository as any,
+      snapshotRepository as any
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('request', () => {
+    test('should queue a dry run by default', async () => {
+      // Act
+      const run = await service.request({ institutionIds: ['institution-1'], from: null, to: null });
+
+      // Assert
+      expect(run.dryRun).toBe(true);
+      expect(queueService.publishToQueue).toHaveBeenCalledWith('scraper_backfill', { type: 'backfill', runId: run.id });
+    });
+  });
+
+  describe('execute', () => {
+    test('should replay pages with the current selectors and report changes without writing', async () => {
+      // Arrange
+      technologyService.listActiveByInstitution.mockResolvedValue([
+        { id: 'technology-1', title: 'Solid-state battery electrolyte', url: 'https://techfinder.stanford.edu/technologies/1' },
+        { id: 'technology-2', title: 'Perovskite coating', url: 'https://techfinder.stanford.edu/technologies/2' }
+      ] as never);
+      const run = await service.request({ institutionIds: ['institution-1'], from: null, to: null });
+
+      // Act
+      const report = await service.execute(run.id);
+
+      // Assert
+      const [result] = technologyService.previewFromScraper.mock.calls[0] as any[];
+      expect(result.data).toEqual({
+        title: 'Solid-state battery electrolyte',
+        description: 'A ceramic electrolyte for lithium metal cells.',
+        institution: 'Stanford University'
+      });
+      expect(result.timestamp).toBe(CAPTURED_AT);
+      expect(technologyService.upsertFromScraper).not.toHaveBeenCalled();
+      expect(report?.status).toBe('completed');
+      expect(report?.summary).toEqual({ snapshots: 1, added: 0, changed: 1, unchanged: 0, removed: 1, failed: 0 });
+      expect(report?.changes).toEqual([
+        expect.objectContaining({ type: 'changed', technologyId: 'technology-1', snapshotId: 'snapshot-1' }),
+        expect.objectContaining({ type: 'removed', technologyId: 'technology-2' })
+      ]);
+    });
+
+    test('should record snapshots that cannot be replayed as failures', async () => {
+      // Arrange
+      snapshotService.readBody.mockResolvedValue(Buffer.from('%PDF-1.4') as never);
+      const run = await service.request({ institutionIds: ['institution-1'], from: null, to: null });
+
+      // Act
+      const report = await service.execute(run.id);
+
+      // Assert
+      expect(report?.summary.failed).toBe(1);
+      expect(report?.changes[0]).toMatchObject({ type: 'failed', snapshotId: 'snapshot-1' });
+    });
+
+    test('should mark the run failed when snapshots cannot be listed', async () => {
+      // Arrange
+      snapshotRepository.findLatestPerPage.mockRejectedValue(new Error('connection lost') as never);
+      const run = await service.request({ institutionIds: [], from: CAPTURED_AT, to: null });
+
+      // Act
+      const report = await service.execute(run.id);
+
+      // Assert
+      expect(report).toMatchObject({ status: 'failed', error: 'connection lost' });
+    });
+  });
+
+  describe('commit', () => {
+    test('should replay a completed dry run through the upsert path', async () => {
+      // Arrange
+      const dryRun = await service.request({ institutionIds: ['institution-1'], from: null, to: null });
+      await service.execute(dryRun.id);
+
+      // Act
+      const committed = await service.commit(dryRun.id, 'user-1');
+      await service.execute(committed.id);
+
+      // Assert
+      expect(committed).toMatchObject({ dryRun: false, sourceRunId: dryRun.id, requestedBy: 'user-1' });
+      expect(runs[dryRun.id].committedRunId).toBe(committed.id);
+      expect(technologyService.upsertFromScraper).toHaveBeenCalledTimes(1);
+    });
+
+    test('should refuse to commit a dry run that has not completed', async () => {
+      // Arrange
+      const dryRun = await service.request({ institutionIds: ['institution-1'], from: null, to: null });
+
+      // Act & Assert
+      await expect(service.commit(dryRun.id)).rejects.toMatchObject({ statusCode: 409 });
+      expect(queueService.publishToQueue).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Unit tests for the dead-letter service covering capture of the message shapes
+ * found on the scraper dead-letter queue, replay with edited configs and purging.
+ * @version 1.0.0
+ */
+
+import { describe, beforeEach, afterEach, test, expect, jest } from '@jest/globals';
+import { DeadLetterService } from '../../../src/services/deadLetter.service';
+import { ScraperJob } from '../../../src/interfaces/scraper.interface';
+import { createScraperJob, ScraperJobOverrides } from '../../fixtures/scraperJob';
+import { ERROR_TYPES } from '../../../src/constants/scraper.constants';
+import { queueConfig } from '../../../src/config/queue.config';
+
+const createJob = (overrides: ScraperJobOverrides = {}): ScraperJob => createScraperJob({
+  id: 'failed-job-1',
+  status: 'failed',
+  retryCount: 3,
+  ...overrides
+});
+
+const createMessage = (payload: unknown, headers: Record<string, unknown> = {}) => ({
+  content: Buffer.from(typeof payload === 'string' ? payload : JSON.stringify(payload)),
+  properties: { headers },
+  fields: { routingKey: queueConfig.queues.scraper.deadLetter }
+});
+
+describe('DeadLetterService', () => {
+  let service: DeadLetterService;
+  let repository: {
+    create: jest.Mock;
+    findMany: jest.Mock;
+    findById: jest.Mock;
+    findByIds: jest.Mock;
+    markReplayed: jest.Mock;
+    deleteByIds: jest.Mock;
+    deleteMatching: jest.Mock;
+  };
+  let queueService: { consume: jest.Mock; publishToQueue: jest.Mock };
+  let capture: (msg: any) => Promise<void>;
+
+  beforeEach(async () => {
+    repository = {
+      create: jest.fn().mockResolvedValue({} as never),
+      findMany: jest.fn(),
+      findById: jest.fn(),
+      findByIds: jest.fn().mockResolvedValue([] as never),
+      markReplayed: jest.fn().mockResolvedValue({} as never),
+      deleteByIds: jest.fn().mockResolvedValue(2 as never),
+      deleteMatching: jest.fn().mockResolvedValue(5 as never)
+    };
+    queueService = {
+      consume: jest.fn().mockResolvedValue({} as never),
+      publishToQueue: jest.fn().mockResolvedValue(true as never)
+    };
+
+    service = new DeadLetterService(repository as any, queueService as any);
+    await service.start();
+    capture = queueService.consume.mock.calls[0][1] as (msg: any) => Promise<void>;
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('capture', () => {
+    test('should drain the scraper dead-letter queue and requeue messages it fails to store', () => {
+      expect(queueService.consume).toHaveBeenCalledWith(
+        queueConfig.queues.scraper.deadLetter,
+        expect.any(Function),
+        expect.objectContaining({ requeueOnError: true })
+      );
+    });
+
+    test('should store jobs published with their scraper error', async () => {
+      // Arrange
+      const job = createJob();
+      const message = createMessage({
+        job,
+        error: {
+          type: ERROR_TYPES.PARSE_ERROR,
+          message: 'No elements found for selector: .tech-title',
+          jobId: job.id,
+          url: job.url,
+          retryAttempt: 3,
+          recoverySuggestions: ['Verify selector validity']
+        },
+        source: 'worker',
+        timestamp: '2026-10-01T12:00:00.000Z'
+      });
+
+      // Act
+      await capture(message);
+
+      // Assert
+      expect(repository.create).toHaveBeenCalledWith(expect.objectContaining({
+        jobId: job.id,
+        institutionId: 'institution-1',
+        institutionType: 'US_UNIVERSITIES',
+        errorType: ERROR_TYPES.PARSE_ERROR,
+        source: 'worker',
+        status: 'pending',
+        deadLetteredAt: new Date('2026-10-01T12:00:00.000Z'),
+        error: expect.objectContaining({
+          retryAttempt: 3,
+          recoverySuggestions: ['Verify selector validity']
+        })
+      }));
+    });
+
+    test('should describe jobs the broker dead-lettered from the x-death header', async () => {
+      // Arrange
+      const job = createJob({ retryCount: 0 });
+      const message = createMessage(job, {
+        'x-death': [{ reason: 'expired', queue: queueConfig.queues.scraper.name, count: 1 }]
+      });
+
+      // Act
+      await capture(message);
+
+      // Assert
+      const entry = repository.create.mock.calls[0][0] as any;
+      expect(entry.source).toBe('broker');
+      expect(entry.errorType).toBe(ERROR_TYPES.QUEUE_REJECTED);
+      expect(entry.error.message).toBe('Dead-lettered by the broker (expired)');
+      expect(entry.error.recoverySuggestions[0]).toContain('consuming the job queue');
+    });
+
+    test('should discard messages that are not scraper jobs', async () => {
+      // Act
+      await capture(createMessage('not json'));
+      await capture(createMessage({ unrelated: true }));
+
+      // Assert
+      expect(repository.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replay', () => {
+    test('should republish jobs with a fresh retry budget and merged config edits', async () => {
+      // Arrange
+      const job = createJob();
+      repository.findByIds.mockResolvedValue([{ id: 'entry-1', job }] as never);
+
+      // Act
+      const result = await service.replay(['entry-1'], {
+        config: { selectors: { title: '.technology-title' } } as any,
+        actor: 'operator-1'
+      });
+
+      // Assert
+      expect(result).toEqual({ replayed: ['entry-1'], failed: [] });
+      const [queueName, replayedJob, options] = queueService.publishToQueue.mock.calls[0] as [string, ScraperJob, any];
+      expect(queueName).toBe(queueConfig.queues.scraper.name);
+      expect(replayedJob.retryCount).toBe(0);
+      expect(replayedJob.status).toBe('pending');
+      expect(replayedJob.config.selectors).toEqual({
+        title: '.technology-title',
+        description: '.tech-description'
+      });
+      expect(replayedJob.config.timeout).toBe(30000);
+      expect(options.headers).toEqual({ replayOf: 'entry-1', replayedBy: 'operator-1' });
+      expect(repository.markReplayed).toHaveBeenCalledWith('entry-1', 'operator-1');
+    });
+
+    test('should report missing entries and publish failures without stopping the batch', async () => {
+      // Arrange
+      repository.findByIds.mockResolvedValue([
+        { id: 'entry-1', job: createJob({ id: 'job-1' }) },
+        { id: 'entry-2', job: createJob({ id: 'job-2' }) }
+      ] as never);
+      queueService.publishToQueue
+        .mockRejectedValueOnce(new Error('Channel closed') as never)
+        .mockResolvedValueOnce(true as never);
+
+      // Act
+      const result = await service.replay(['entry-1', 'entry-2', 'entry-3']);
+
+      // Assert
+      expect(result.replayed).toEqual(['entry-2']);
+      expect(result.failed).toEqual([
+        { id: 'entry-1', reason: 'Channel closed' },
+        { id: 'entry-3', reason: 'Entry not found' }
+      ]);
+      expect(repository.markReplayed).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('purge', () => {
+    test('should delete entries by id or by filter', async () => {
+      // Act
+      const byId = await service.purge(['entry-1', 'entry-2'], 'admin-1');
+      const byFilter = await service.purgeMatching({ status: 'replayed' }, 'admin-1');
+
+      // Assert
+      expect(byId).toBe(2);
+      expect(byFilter).toBe(5);
+      expect(repository.deleteMatching).toHaveBeenCalledWith({ status: 'replayed' });
+    });
+  });
+
+  describe('get', () => {
+    test('should raise a not found error for unknown entries', async () => {
+      // Arrange
+      repository.findById.mockResolvedValue(null as never);
+
+      // Act & Assert
+      await expect(service.get('missing')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
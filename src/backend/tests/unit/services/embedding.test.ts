@@ -0,0 +1,101 @@
+/**
+ * @fileoverview Unit tests for the embedding stage behind semantic search
+ * @version 1.0.0
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  LocalEmbeddingProvider,
+  embedTexts,
+  technologyEmbeddingText
+} from '../../../src/lib/embedding';
+import { EmbeddingProvider } from '../../../src/interfaces/embedding.interface';
+import { EMBEDDING_CONFIG } from '../../../src/constants/embedding.constants';
+
+const cosine = (a: number[], b: number[]) => a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+const recording = (dimensions = 3): EmbeddingProvider & { calls: string[][] } => {
+  const calls: string[][] = [];
+  return {
+    name: 'recording',
+    dimensions,
+    calls,
+    embed: async (texts: string[]) => {
+      calls.push(texts);
+      return texts.map(text => (text === 'zero' ? [0, 0, 0] : [text.length, 1, 0]));
+    }
+  };
+};
+
+describe('LocalEmbeddingProvider', () => {
+  test('should place synonymous phrasings close together', async () => {
+    const provider = new LocalEmbeddingProvider();
+
+    const [query, synonym, unrelated] = await provider.embed([
+      'non-invasive glucose monitoring',
+      'Transdermal blood sugar sensing patch',
+      'Lithium-ion battery anode with improved capacity'
+    ]);
+
+    expect(cosine(query, synonym)).toBeGreaterThan(0.7);
+    expect(cosine(query, unrelated)).toBeLessThan(0.2);
+  });
+
+  test('should return the same unit vector for the same text', async () => {
+    const provider = new LocalEmbeddingProvider(64);
+
+    const [first] = await provider.embed(['Perovskite solar cell']);
+    const [second] = await new LocalEmbeddingProvider(64).embed(['Perovskite solar cell']);
+
+    expect(first).toHaveLength(64);
+    expect(first).toEqual(second);
+    expect(cosine(first, first)).toBeCloseTo(1);
+  });
+});
+
+describe('technologyEmbeddingText', () => {
+  test('should put the English translation before the original text', () => {
+    const text = technologyEmbeddingText({
+      title: 'Neuartige Batterie',
+      description: null,
+      translations: {
+        sourceLanguage: 'de',
+        targetLanguage: 'en',
+        title: 'Novel battery',
+        description: null,
+        provider: 'local',
+        translatedAt: '2024-01-01T00:00:00.000Z'
+      }
+    });
+
+    expect(text).toBe('Novel battery\nNeuartige Batterie');
+  });
+
+  test('should cut long text at a word boundary', () => {
+    const text = technologyEmbeddingText({ title: 'word '.repeat(EMBEDDING_CONFIG.MAX_TEXT_LENGTH) });
+
+    expect(text.length).toBeLessThanOrEqual(EMBEDDING_CONFIG.MAX_TEXT_LENGTH);
+    expect(text.endsWith('word')).toBe(true);
+  });
+});
+
+describe('embedTexts', () => {
+  test('should skip empty text and drop vectors that cannot be indexed', async () => {
+    const provider = recording();
+
+    const vectors = await embedTexts(['sensor', ' ', 'zero'], provider);
+
+    expect(provider.calls).toEqual([['sensor', 'zero']]);
+    expect(vectors).toEqual([[6, 1, 0], null, null]);
+  });
+
+  test('should send texts in provider-sized batches', async () => {
+    const provider = recording();
+    const texts = Array.from({ length: EMBEDDING_CONFIG.BATCH_SIZE + 1 }, (_, index) => `text ${index}`);
+
+    const vectors = await embedTexts(texts, provider);
+
+    expect(provider.calls.map(call => call.length)).toEqual([EMBEDDING_CONFIG.BATCH_SIZE, 1]);
+    expect(vectors.every(Boolean)).toBe(true);
+  });
+});
@@ -0,0 +1,57 @@
+/**
+ * @fileoverview Unit tests for the search query log behind suggestion popularity
+ * @version 1.0.0
+ */
+
+import { describe, beforeEach, test, expect, jest } from '@jest/globals';
+import { SearchQueryLog } from '../../../src/lib/search/queryLog';
+import { searchConfig } from '../../../src/config/search.config';
+
+const NOW = new Date('2024-03-10T12:00:00.000Z');
+const PREFIX = searchConfig.search.suggest.queryLogPrefix;
+
+describe('SearchQueryLog', () => {
+  let redisService: { eval: jest.Mock };
+  let queryLog: SearchQueryLog;
+
+  beforeEach(() => {
+    redisService = { eval: jest.fn().mockResolvedValue(1 as never) };
+    queryLog = new SearchQueryLog(redisService as any, () => NOW);
+  });
+
+  test('should count normalized queries in the day key', async () => {
+    await queryLog.record('  Glucose   Monitor ');
+
+    expect(redisService.eval).toHaveBeenCalledWith(
+      expect.any(String),
+      [`${PREFIX}2024-03-10`],
+      ['glucose monitor', (searchConfig.search.suggest.popularityWindowDays + 1) * 86400]
+    );
+  });
+
+  test('should not count queries shorter than a suggestion prefix', async () => {
+    await queryLog.record(' a ');
+
+    expect(redisService.eval).not.toHaveBeenCalled();
+  });
+
+  test('should sum popularity across the window for each distinct text', async () => {
+    redisService.eval.mockResolvedValue(['12', 0] as never);
+
+    const popularity = await queryLog.getPopularity(['Glucose monitor', 'glucose monitor', 'Battery']);
+
+    const [, keys, texts] = redisService.eval.mock.calls[0] as [string, string[], string[]];
+    expect(keys).toHaveLength(searchConfig.search.suggest.popularityWindowDays);
+    expect(keys[0]).toBe(`${PREFIX}2024-03-10`);
+    expect(keys[1]).toBe(`${PREFIX}2024-03-09`);
+    expect(texts).toEqual(['glucose monitor', 'battery']);
+    expect(popularity).toEqual(new Map([['glucose monitor', 12]]));
+  });
+
+  test('should fail open when Redis is unavailable', async () => {
+    redisService.eval.mockRejectedValue(new Error('connection refused') as never);
+
+    await expect(queryLog.record('glucose')).resolves.toBeUndefined();
+    await expect(queryLog.getPopularity(['glucose'])).resolves.toEqual(new Map());
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * @fileoverview Unit tests for the Redis-backed distributed rate limiter covering key
+ * derivation, limit resolution, strategy selection, permit waiting, shared cooldowns
+ * and failing open when Redis is unavailable.
+ * @version 1.0.0
+ */
+
+import { describe, beforeEach, afterEach, test, expect, jest } from '@jest/globals';
+import { DistributedRateLimiter } from '../../../src/scraper/rateLimit';
+import { ScraperJob } from '../../../src/interfaces/scraper.interface';
+import { createScraperJob, ScraperJobOverrides } from '../../fixtures/scraperJob';
+import { SCRAPER_RATE_LIMITS, DISTRIBUTED_RATE_LIMIT } from '../../../src/constants/scraper.constants';
+
+// Script replies are {allowed, remaining, waitMs, resetMs, currentBurst, inCooldown}
+const ALLOWED = [1, 4, 0, 500, 1, 0];
+const LIMITED = [0, 0, 40, 1000, 5, 0];
+
+const LIMITS = { requestsPerSecond: 2, burstLimit: 5, cooldownPeriod: 30 };
+
+const createJob = (overrides: ScraperJobOverrides = {}): ScraperJob => createScraperJob({
+  id: 'limiter-job-1',
+  url: 'https://TechFinder.Stanford.edu/technologies?page=2',
+  ...overrides
+});
+
+describe('DistributedRateLimiter', () => {
+  let redisService: { eval: jest.Mock; set: jest.Mock; delete: jest.Mock };
+  let limiter: DistributedRateLimiter;
+
+  beforeEach(() => {
+    redisService = {
+      eval: jest.fn().mockResolvedValue(ALLOWED as never),
+      set: jest.fn().mockResolvedValue(undefined as never),
+      delete: jest.fn().mockResolvedValue(undefined as never)
+    };
+    limiter = new DistributedRateLimiter(redisService as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('keyFor', () => {
+    test('should key requests by lower-cased domain', () => {
+      expect(DistributedRateLimiter.keyFor(createJob().url, 'institution-1'))
+        .toBe('domain:techfinder.stanford.edu');
+    });
+
+    test('should fall back to the institution for unparseable URLs', () => {
+      expect(DistributedRateLimiter.keyFor('not a url', 'institution-1')).toBe('institution:institution-1');
+    });
+  });
+
+  describe('resolveLimits', () => {
+    test('should prefer the job rate limit and its strategy', () => {
+      // Arrange
+      const job = createJob({
+        rateLimitConfig: { ...LIMITS, rateLimitingStrategy: 'leaky-bucket' } as any
+      });
+
+      // Act
+      const limits = DistributedRateLimiter.resolveLimits(job);
+
+      // Assert
+      expect(limits).toEqual({ ...LIMITS, strategy: 'leaky-bucket' });
+    });
+
+    test('should fall back to the institution type defaults', () => {
+      // Act
+      const limits = DistributedRateLimiter.resolveLimits(createJob({ institutionType: 'FEDERAL_LABS' }));
+
+      // Assert
+      expect(limits.requestsPerSecond).toBe(SCRAPER_RATE_LIMITS.FEDERAL_LABS.requestsPerSecond);
+      expect(limits.burstLimit).toBe(SCRAPER_RATE_LIMITS.FEDERAL_LABS.burstLimit);
+    });
+  });
+
+  describe('acquire', () => {
+    test('should run the configured strategy against hash-tagged keys', async () => {
+      // Act
+      const decision = await limiter.acquire('domain:tto.example.edu', { ...LIMITS, strategy: 'fixed-window' });
+
+      // Assert
+      const [script, keys, args] = redisService.eval.mock.calls[0] as [string, string[], unknown[]];
+      expect(script).toContain("'start', 'count'");
+      expect(keys).toEqual([
+        `${DISTRIBUTED_RATE_LIMIT.KEY_PREFIX}{domain:tto.example.edu}`,
+        `${DISTRIBUTED_RATE_LIMIT.KEY_PREFIX}{domain:tto.example.edu}:cooldown`
+      ]);
+      expect(args).toEqual([2, 5, DISTRIBUTED_RATE_LIMIT.STATE_TTL, '1']);
+      expect(decision).toEqual(expect.objectContaining({
+        strategy: 'fixed-window',
+        isLimited: false,
+        remainingRequests: 4,
+        currentBurst: 1,
+        inCooldown: false,
+        waitMs: 0
+      }));
+    });
+
+    test('should default to the token bucket strategy', async () => {
+      // Act
+      const decision = await limiter.acquire('domain:tto.example.edu', LIMITS);
+
+      // Assert
+      expect(decision.strategy).toBe('token-bucket');
+      expect(redisService.eval.mock.calls[0][0]).toContain("'tokens', 'ts'");
+    });
+
+    test('should allow requests when Redis is unavailable', async () => {
+      // Arrange
+      redisService.eval.mockRejectedValue(new Error('Connection refused') as never);
+
+      // Act
+      const decision = await limiter.acquire('domain:tto.example.edu', LIMITS);
+
+      // Assert
+      expect(decision.isLimited).toBe(false);
+      expect(decision.remainingRequests).toBe(LIMITS.burstLimit);
+    });
+  });
+
+  describe('getStatus', () => {
+    test('should peek at the limiter without consuming a permit', async () => {
+      // Arrange
+      redisService.eval.mockResolvedValue([0, 0, 12000, 12000, 5, 1] as never);
+
+      // Act
+      const status = await limiter.getStatus('domain:tto.example.edu', LIMITS);
+
+      // Assert
+      expect((redisService.eval.mock.calls[0][2] as unknown[])[3]).toBe('0');
+      expect(status.isLimited).toBe(true);
+      expect(status.inCooldown).toBe(true);
+      expect(status.resetTime.getTime()).toBeGreaterThan(Date.now() + 11000);
+    });
+  });
+
+  describe('waitForPermit', () => {
+    test('should retry once the limiter expects a permit to free up', async () => {
+      // Arrange
+      redisService.eval
+        .mockResolvedValueOnce(LIMITED as never)
+        .mockResolvedValueOnce(ALLOWED as never);
+
+      // Act
+      const start = Date.now();
+      const decision = await limiter.waitForPermit('domain:tto.example.edu', LIMITS);
+
+      // Assert
+      expect(decision.isLimited).toBe(false);
+      expect(redisService.eval).toHaveBeenCalledTimes(2);
+      expect(Date.now() - start).toBeGreaterThanOrEqual(35);
+    });
+
+    test('should give up when the next permit lies beyond the maximum wait', async () => {
+      // Arrange
+      redisService.eval.mockResolvedValue(LIMITED as never);
+
+      // Act
+      const decision = await limiter.waitForPermit('domain:tto.example.edu', LIMITS, 10);
+
+      // Assert
+      expect(decision.isLimited).toBe(true);
+      expect(decision.waitMs).toBe(40);
+      expect(redisService.eval).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('penalize', () => {
+    test('should set a shared cooldown key for the cooldown period', async () => {
+      // Act
+      await limiter.penalize('domain:tto.example.edu', 30);
+
+      // Assert
+      expect(redisService.set).toHaveBeenCalledWith(
+        `${DISTRIBUTED_RATE_LIMIT.KEY_PREFIX}{domain:tto.example.edu}:cooldown`,
+        expect.any(Number),
+        30
+      );
+    });
+  });
+});
@@ -0,0 +1,268 @@
+/**
+ * @fileoverview Unit tests for saved searches, covering validation, new-match alert runs with
+ * instant and digest delivery, failure handling and unsubscribing.
+ * @version 1.0.0
+ */
+
+import { describe, beforeEach, afterEach, test, expect, jest } from '@jest/globals';
+import { SavedSearchService } from '../../../src/services/savedSearch.service';
+import { LocalMailTransport } from '../../../src/lib/mail/local.transport';
+import { SAVED_SEARCH_ALERTS } from '../../../src/constants/savedSearch.constants';
+
+const NOW = new Date('2024-03-10T12:00:00.000Z');
+const LAST_RUN = new Date('2024-03-10T11:00:00.000Z');
+
+const savedSearch = (overrides: Record<string, unknown> = {}) => ({
+  id: 'search-1',
+  userId: 'user-1',
+  email: 'analyst@example.com',
+  name: 'Glucose sensors',
+  query: 'glucose sensor',
+  filters: { country: ['US'] },
+  frequency: 'instant',
+  alertsEnabled: true,
+  unsubscribeToken: 'token-1',
+  lastRunAt: LAST_RUN,
+  runLeaseUntil: null,
+  nextDigestAt: null,
+  lastNotifiedAt: null,
+  createdAt: LAST_RUN,
+  updatedAt: LAST_RUN,
+  ...overrides
+});
+
+const technology = (id: string) => ({
+  id,
+  title: `Technology ${id}`,
+  institution: 'Stanford University',
+  url: `https://techfinder.stanford.edu/${id}`
+});
+
+describe('SavedSearchService', () => {
+  let savedSearchRepository: {
+    count: jest.Mock;
+    save: jest.Mock;
+    findOwned: jest.Mock;
+    findByUnsubscribeToken: jest.Mock;
+    claimForRun: jest.Mock;
+    completeRun: jest.Mock;
+    recordMatches: jest.Mock;
+    findPendingMatches: jest.Mock;
+    countPendingMatches: jest.Mock;
+    markNotified: jest.Mock;
+  };
+  let technologyRepository: { findByIds: jest.Mock };
+  let queueRepository: { findOldestEnqueuedAt: jest.Mock };
+  let notificationService: { notify: jest.Mock };
+  let elasticsearch: { search: jest.Mock };
+  let mail: LocalMailTransport;
+  let service: SavedSearchService;
+
+  beforeEach(() => {
+    savedSearchRepository = {
+      count: jest.fn().mockResolvedValue(0 as never),
+      save: jest.fn().mockImplementation(async record => ({ id: 'search-new', ...(record as object) })),
+      findOwned: jest.fn().mockResolvedValue(null as never),
+      findByUnsubscribeToken: jest.fn().mockResolvedValue(null as never),
+      claimForRun: jest.fn().mockResolvedValue([] as never),
+      completeRun: jest.fn().mockResolvedValue(undefined as never),
+      recordMatches: jest.fn().mockImplementation(async (_id, ids) => ids),
+      findPendingMatches: jest.fn().mockResolvedValue({ matches: [], total: 0, latestMatchedAt: null } as never),
+      countPendingMatches: jest.fn().mockResolvedValue(new Map() as never),
+      markNotified: jest.fn().mockResolvedValue(undefined as never)
+    };
+    technologyRepository = {
+      findByIds: jest.fn().mockImplementation(async ids => (ids as string[]).map(technology))
+    };
+    queueRepository = { findOldestEnqueuedAt: jest.fn().mockResolvedValue(null as never) };
+    notificationService = { notify: jest.fn().mockResolvedValue({} as never) };
+    elasticsearch = { search: jest.fn().mockResolvedValue({ results: [] } as never) };
+    mail = new LocalMailTransport();
+
+    service = new SavedSearchService(
+      savedSearchRepository as any,
+      technologyRepository as any,
+      queueRepository as any,
+      notificationService as any,
+      elasticsearch as any,
+      mail,
+      'https://api.example.com/api/v1/'
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  const pending = (ids: string[]) => ({
+    matches: ids.map(technologyId => ({ technologyId, matchedAt: NOW })),
+    total: ids.length,
+    latestMatchedAt: NOW
+  });
+
+  describe('create', () => {
+    test('should start alerts from now and schedule the first digest', async () => {
+      const result = await service.create(
+        { userId: 'user-1', email: 'analyst@example.com' },
+        { name: ' Glucose sensors ', query: 'glucose sensor', filters: { country: ['US', 'US'], category: [] } },
+        NOW
+      );
+
+      const saved = savedSearchRepository.save.mock.calls[0][0] as Record<string, any>;
+      expect(saved).toMatchObject({
+        userId: 'user-1',
+        email: 'analyst@example.com',
+        name: 'Glucose sensors',
+        filters: { country: ['US'] },
+        frequency: 'daily',
+        lastRunAt: NOW
+      });
+      expect(saved.nextDigestAt.getTime()).toBeGreaterThan(NOW.getTime());
+      expect(saved.unsubscribeToken).toMatch(/^[A-Za-z0-9_-]{32}$/);
+      expect(result).not.toHaveProperty('unsubscribeToken');
+      expect(result.pendingMatches).toBe(0);
+    });
+
+    test('should reject invalid input and too many saved searches', async () => {
+      const owner = { userId: 'user-1', email: 'analyst@example.com' };
+
+      await expect(service.create(owner, { name: '', query: 'glucose' })).rejects.toMatchObject({ statusCode: 400 });
+      await expect(service.create(owner, { name: 'Glucose', query: 'glucose', frequency: 'hourly' as any }))
+        .rejects.toMatchObject({ statusCode: 400 });
+      await expect(service.create(owner, { name: 'Glucose', query: 'glucose', filters: { country: 'US' } as any }))
+        .rejects.toMatchObject({ statusCode: 400 });
+
+      savedSearchRepository.count.mockResolvedValue(SAVED_SEARCH_ALERTS.MAX_PER_USER as never);
+      await expect(service.create(owner, { name: 'Glucose', query: 'glucose' })).rejects.toMatchObject({ statusCode: 409 });
+      expect(savedSearchRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    test('should restart the search from now when its query changes', async () => {
+      savedSearchRepository.findOwned.mockResolvedValue(savedSearch() as never);
+
+      await service.update('user-1', 'search-1', { query: 'blood sugar monitor', frequency: 'weekly' }, NOW);
+
+      expect(savedSearchRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+        query: 'blood sugar monitor',
+        frequency: 'weekly',
+        lastRunAt: NOW,
+        nextDigestAt: expect.any(Date)
+      }));
+    });
+
+    test('should not change searches of other users', async () => {
+      await expect(service.update('user-2', 'search-1', { name: 'Mine' })).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  describe('runAlerts', () => {
+    test('should search since shortly before the last run and alert instant searches right away', async () => {
+      savedSearchRepository.claimForRun.mockResolvedValueOnce([savedSearch()] as never);
+      elasticsearch.search.mockResolvedValue({ results: [{ id: 'tech-1' }, { id: 'tech-2' }] } as never);
+      savedSearchRepository.recordMatches.mockResolvedValue(['tech-2'] as never);
+      savedSearchRepository.findPendingMatches.mockResolvedValue(pending(['tech-2']) as never);
+
+      const result = await service.runAlerts(NOW);
+
+      expect(result).toEqual({ searched: 1, newMatches: 1, delivered: 1, failed: 0 });
+      expect(elasticsearch.search).toHaveBeenCalledWith({
+        query: 'glucose sensor',
+        filters: {
+          institution: [],
+          category: [],
+          country: ['US'],
+          updatedSince: new Date(LAST_RUN.getTime() - SAVED_SEARCH_ALERTS.RUN_OVERLAP_SECONDS * 1000)
+        },
+        pagination: { page: 1, limit: SAVED_SEARCH_ALERTS.MAX_MATCHES_PER_RUN },
+        semanticWeight: 0
+      });
+
+      expect(mail.outbox).toHaveLength(1);
+      expect(mail.outbox[0].to).toBe('analyst@example.com');
+      expect(mail.outbox[0].subject).toBe('1 new technology matches "Glucose sensors"');
+      expect(mail.outbox[0].text).toContain('https://api.example.com/api/v1/search/saved/unsubscribe/token-1');
+      expect(notificationService.notify).toHaveBeenCalledWith(
+        'user-1',
+        'saved_search_matches',
+        expect.objectContaining({ title: 'New matches for "Glucose sensors"' }),
+        { savedSearchId: 'search-1', technologyIds: ['tech-2'], total: 1 }
+      );
+      expect(savedSearchRepository.markNotified).toHaveBeenCalledWith('search-1', NOW);
+      expect(savedSearchRepository.completeRun).toHaveBeenCalledWith('search-1', NOW, undefined);
+    });
+
+    test('should only search up to changes still waiting to be indexed', async () => {
+      const oldestQueued = new Date('2024-03-10T11:50:00.000Z');
+      queueRepository.findOldestEnqueuedAt.mockResolvedValue(oldestQueued as never);
+      savedSearchRepository.claimForRun.mockResolvedValueOnce([savedSearch()] as never);
+
+      await service.runAlerts(NOW);
+
+      expect(savedSearchRepository.claimForRun).toHaveBeenCalledWith(
+        oldestQueued,
+        SAVED_SEARCH_ALERTS.BATCH_SIZE,
+        SAVED_SEARCH_ALERTS.RUN_LEASE_SECONDS
+      );
+      expect(savedSearchRepository.completeRun).toHaveBeenCalledWith('search-1', oldestQueued, undefined);
+    });
+
+    test('should collect digest matches until the digest is due', async () => {
+      const tomorrow = new Date('2024-03-11T07:00:00.000Z');
+      savedSearchRepository.claimForRun.mockResolvedValueOnce([
+        savedSearch({ frequency: 'daily', nextDigestAt: tomorrow })
+      ] as never);
+      elasticsearch.search.mockResolvedValue({ results: [{ id: 'tech-1' }] } as never);
+
+      const result = await service.runAlerts(NOW);
+
+      expect(result).toEqual({ searched: 1, newMatches: 1, delivered: 0, failed: 0 });
+      expect(savedSearchRepository.findPendingMatches).not.toHaveBeenCalled();
+      expect(mail.outbox).toHaveLength(0);
+      expect(savedSearchRepository.completeRun).toHaveBeenCalledWith('search-1', NOW, undefined);
+    });
+
+    test('should send a due digest and schedule the next one', async () => {
+      savedSearchRepository.claimForRun.mockResolvedValueOnce([
+        savedSearch({ frequency: 'daily', nextDigestAt: new Date('2024-03-10T07:00:00.000Z') })
+      ] as never);
+      savedSearchRepository.findPendingMatches.mockResolvedValue(pending(['tech-1', 'tech-2']) as never);
+
+      const result = await service.runAlerts(NOW);
+
+      expect(result.delivered).toBe(1);
+      expect(mail.outbox[0].subject).toBe('2 new technologies match "Glucose sensors"');
+      const [, , nextDigest] = savedSearchRepository.completeRun.mock.calls[0] as [string, Date, Date];
+      expect(nextDigest.getTime()).toBeGreaterThan(NOW.getTime());
+    });
+
+    test('should keep matches pending and leave the search claimed when the email fails', async () => {
+      savedSearchRepository.claimForRun.mockResolvedValueOnce([savedSearch()] as never);
+      savedSearchRepository.findPendingMatches.mockResolvedValue(pending(['tech-1']) as never);
+      const send = jest.spyOn(mail, 'send').mockRejectedValue(new Error('SMTP unavailable') as never);
+
+      const result = await service.runAlerts(NOW);
+
+      expect(send).toHaveBeenCalled();
+      expect(result).toEqual({ searched: 1, newMatches: 0, delivered: 0, failed: 1 });
+      expect(notificationService.notify).not.toHaveBeenCalled();
+      expect(savedSearchRepository.markNotified).not.toHaveBeenCalled();
+      expect(savedSearchRepository.completeRun).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('unsubscribe', () => {
+    test('should turn alerts off for the token', async () => {
+      savedSearchRepository.findByUnsubscribeToken.mockResolvedValue(savedSearch() as never);
+
+      await expect(service.unsubscribe('token-1')).resolves.toEqual({ name: 'Glucose sensors' });
+
+      expect(savedSearchRepository.save).toHaveBeenCalledWith(expect.objectContaining({ alertsEnabled: false }));
+    });
+
+    test('should reject unknown tokens', async () => {
+      await expect(service.unsubscribe('unknown')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
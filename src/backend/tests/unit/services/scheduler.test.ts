@@ -0,0 +1,210 @@
+/**
+ * @fileoverview Unit tests for SchedulerService covering next-run spreading,
+ * per-profile enqueue caps, vendor default selectors and paused institutions
+ * @version 1.0.0
+ */
+
+import { describe, beforeEach, afterEach, test, expect, jest } from '@jest/globals';
+import { SchedulerService } from '../../../src/services/scheduler.service';
+import { RabbitMQService } from '../../../src/lib/queue/rabbitmq.service';
+import { InstitutionRepository } from '../../../src/db/repositories/institution.repository';
+import { Institution, InstitutionType } from '../../../src/db/models/institution.model';
+import { SCHEDULER_CONFIG, SCRAPER_RATE_LIMITS, PORTAL_VENDORS } from '../../../src/constants/scraper.constants';
+
+jest.mock('../../../src/lib/queue/rabbitmq.service');
+jest.mock('../../../src/db/repositories/institution.repository');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = new Date('2024-03-01T12:00:00Z');
+
+const buildInstitution = (overrides: Partial<Institution> = {}): Institution => ({
+  id: 'inst-1',
+  name: 'Stanford University',
+  type: InstitutionType.US_UNIVERSITY,
+  country: 'US',
+  baseUrl: 'https://techfinder.stanford.edu/',
+  selectors: { title: '.tech-title', description: '.tech-description' },
+  rateLimit: SCRAPER_RATE_LIMITS.US_UNIVERSITIES,
+  active: true,
+  lastScraped: null,
+  metadata: null,
+  nextScheduledScrape: new Date(NOW.getTime() - 1000),
+  schedulePaused: false,
+  ...overrides
+} as Institution);
+
+describe('SchedulerService', () => {
+  let schedulerService: SchedulerService;
+  let mockQueueService: jest.Mocked<RabbitMQService>;
+  let mockInstitutionRepository: jest.Mocked<InstitutionRepository>;
+
+  beforeEach(() => {
+    mockQueueService = {
+      publishToQueue: jest.fn().mockResolvedValue(true as never)
+    } as any;
+
+    mockInstitutionRepository = {
+      findOne: jest.fn(),
+      claimDueForScrape: jest.fn().mockResolvedValue([] as never),
+      findScheduledBefore: jest.fn().mockResolvedValue([] as never),
+      updateSchedule: jest.fn().mockImplementation((async (id: string, schedule: any) =>
+        buildInstitution({ id, ...schedule })) as never)
+    } as any;
+
+    schedulerService = new SchedulerService(mockInstitutionRepository, mockQueueService);
+  });
+
+  afterEach(() => {
+    schedulerService.stop();
+    jest.clearAllMocks();
+  });
+
+  describe('computeNextRun', () => {
+    test('should schedule one refresh interval later within the spread window', () => {
+      // Arrange
+      const institution = buildInstitution({ metadata: { refreshInterval: 7 } });
+
+      // Act
+      const nextRun = schedulerService.computeNextRun(institution, NOW);
+
+      // Assert
+      const earliest = NOW.getTime() + 7 * DAY_MS;
+      expect(nextRun.getTime()).toBeGreaterThanOrEqual(earliest);
+      expect(nextRun.getTime()).toBeLessThan(earliest + SCHEDULER_CONFIG.SPREAD_WINDOW);
+    });
+
+    test('should keep an institution in the same slot across runs', () => {
+      // Arrange
+      const institution = buildInstitution();
+
+      // Act
+      const first = schedulerService.computeNextRun(institution, NOW);
+      const second = schedulerService.computeNextRun(institution, first);
+
+      // Assert
+      expect(second.getTime() - first.getTime())
+        .toBe(SCHEDULER_CONFIG.DEFAULT_REFRESH_INTERVAL_DAYS * DAY_MS);
+    });
+  });
+
+  describe('tick', () => {
+    test('should assign a schedule to unscheduled institutions without enqueuing', async () => {
+      // Arrange
+      mockInstitutionRepository.claimDueForScrape.mockResolvedValue([
+        buildInstitution({ nextScheduledScrape: null })
+      ]);
+
+      // Act
+      const enqueued = await schedulerService.tick(NOW);
+
+      // Assert
+      expect(enqueued).toBe(0);
+      expect(mockQueueService.publishToQueue).not.toHaveBeenCalled();
+      const [, schedule] = mockInstitutionRepository.updateSchedule.mock.calls[0] as [string, any];
+      expect(schedule.nextScheduledScrape.getTime()).toBeGreaterThanOrEqual(NOW.getTime());
+    });
+
+    test('should claim due institutions for the lease so other replicas skip them', async () => {
+      // Act
+      await schedulerService.tick(NOW);
+
+      // Assert
+      expect(mockInstitutionRepository.claimDueForScrape).toHaveBeenCalledWith(
+        NOW,
+        SCHEDULER_CONFIG.MAX_DUE_PER_TICK,
+        SCHEDULER_CONFIG.CLAIM_LEASE_SECONDS
+      );
+    });
+
+    test('should cap enqueued jobs per rate limit profile', async () => {
+      // Arrange
+      const burstLimit = SCRAPER_RATE_LIMITS.US_UNIVERSITIES.burstLimit;
+      mockInstitutionRepository.claimDueForScrape.mockResolvedValue(
+        Array.from({ length: burstLimit + 3 }, (_, i) => buildInstitution({ id: `inst-${i}` }))
+      );
+
+      // Act
+      const enqueued = await schedulerService.tick(NOW);
+
+      // Assert
+      expect(enqueued).toBe(burstLimit);
+      expect(mockQueueService.publishToQueue).toHaveBeenCalledTimes(burstLimit);
+      expect(mockInstitutionRepository.updateSchedule).toHaveBeenCalledTimes(burstLimit);
+    });
+
+    test('should enqueue crawl jobs for institutions with link selectors', async () => {
+      // Arrange
+      mockInstitutionRepository.claimDueForScrape.mockResolvedValue([
+        buildInstitution({
+          selectors: { title: '.tech-title', description: '.tech-description', links: ['a.tech'] }
+        })
+      ]);
+
+      // Act
+      await schedulerService.tick(NOW);
+
+      // Assert
+      const [, job] = mockQueueService.publishToQueue.mock.calls[0] as [string, any];
+      expect(job).toMatchObject({
+        url: 'https://techfinder.stanford.edu/',
+        institutionType: 'US_UNIVERSITIES',
+        institutionId: 'inst-1',
+        mode: 'crawl'
+      });
+      expect(job.config.selectors.links).toBe('a.tech');
+    });
+
+    test('should fill blank selectors from the institution portal vendor', async () => {
+      // Arrange
+      mockInstitutionRepository.claimDueForScrape.mockResolvedValue([
+        buildInstitution({
+          baseUrl: 'https://stanford.technologypublisher.com/',
+          selectors: { title: '', description: '.abstract' },
+          vendor: 'TECHPUBLISHER'
+        })
+      ]);
+
+      // Act
+      await schedulerService.tick(NOW);
+
+      // Assert
+      const [, job] = mockQueueService.publishToQueue.mock.calls[0] as [string, any];
+      expect(job).toMatchObject({ mode: 'crawl', vendor: 'TECHPUBLISHER' });
+      expect(job.config.selectors).toMatchObject({
+        title: PORTAL_VENDORS.TECHPUBLISHER.SELECTORS.title,
+        description: '.abstract',
+        inventors: PORTAL_VENDORS.TECHPUBLISHER.SELECTORS.inventors,
+        links: PORTAL_VENDORS.TECHPUBLISHER.SELECTORS.links
+      });
+    });
+  });
+
+  describe('pause and resume', () => {
+    test('should report paused institutions as not overdue', async () => {
+      // Act
+      const schedule = await schedulerService.pause('inst-1');
+
+      // Assert
+      expect(mockInstitutionRepository.updateSchedule)
+        .toHaveBeenCalledWith('inst-1', { schedulePaused: true });
+      expect(schedule.paused).toBe(true);
+      expect(schedule.overdue).toBe(false);
+    });
+
+    test('should move an overdue institution to a future slot on resume', async () => {
+      // Arrange
+      mockInstitutionRepository.findOne.mockResolvedValue(buildInstitution({
+        schedulePaused: true,
+        lastScraped: new Date(Date.now() - 60 * DAY_MS)
+      }));
+
+      // Act
+      const schedule = await schedulerService.resume('inst-1');
+
+      // Assert
+      expect(schedule.paused).toBe(false);
+      expect(schedule.nextRunAt.getTime()).toBeGreaterThanOrEqual(Date.now() - 1000);
+      expect(schedule.overdue).toBe(false);
+    });
+  });
+});
\ No newline at end of file
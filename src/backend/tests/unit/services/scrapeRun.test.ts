@@ -0,0 +1,324 @@
+/**
+ * @fileoverview Unit tests for scrape runs covering job grouping across retries, item
+ * tallies from the technology upsert, run completion with catalog reconciliation, and the
+ * rolling institution health score.
+ * @version 1.0.0
+ */
+
+import { describe, beforeEach, afterEach, test, expect, jest } from '@jest/globals';
+import { ScrapeRunService } from '../../../src/services/scrapeRun.service';
+import { computeInstitutionHealth, RunHealthSample } from '../../../src/utils/scrapeHealth.util';
+import { ScraperJob, ScraperResult, ScraperError } from '../../../src/interfaces/scraper.interface';
+import { createScraperJob, ScraperJobOverrides } from '../../fixtures/scraperJob';
+import { ERROR_TYPES } from '../../../src/constants/scraper.constants';
+
+const createJob = (overrides: ScraperJobOverrides = {}): ScraperJob => createScraperJob({
+  id: 'run-job-1',
+  url: 'https://otl.stanford.edu/technologies',
+  ...overrides
+});
+
+const createResult = (url: string): ScraperResult => ({
+  jobId: 'run-job-1',
+  url,
+  data: { title: `Technology at ${url}`, description: 'Description' },
+  timestamp: new Date()
+} as unknown as ScraperResult);
+
+const createRun = (overrides: Record<string, unknown> = {}) => ({
+  runId: 'run-job-1',
+  institutionId: 'institution-1',
+  institutionType: 'US_UNIVERSITIES',
+  status: 'running',
+  jobs: [{ jobId: 'run-job-1', status: 'completed', listingComplete: true }],
+  attempts: 2,
+  errorCount: 1,
+  items: { found: 3, new: 1, updated: 1, unchanged: 0, removed: 0, withdrawn: 0, failed: 1 },
+  seenTechnologyIds: ['tech-1', 'tech-2'],
+  startedAt: new Date(Date.now() - 60000),
+  ...overrides
+});
+
+const timeoutError: ScraperError = {
+  type: ERROR_TYPES.NETWORK_TIMEOUT,
+  message: 'Request timed out',
+  jobId: 'run-job-1',
+  url: 'https://otl.stanford.edu/technologies',
+  timestamp: new Date(),
+  stack: '',
+  retryAttempt: 0,
+  rateLimitStatus: {} as ScraperError['rateLimitStatus'],
+  recoverySuggestions: []
+};
+
+const sample = (overrides: Partial<RunHealthSample> = {}): RunHealthSample => ({
+  status: 'completed',
+  itemsFound: 20,
+  attempts: 1,
+  errorCount: 0,
+  ...overrides
+});
+
+describe('ScrapeRunService', () => {
+  let service: ScrapeRunService;
+  let technologyService: { upsertFromScraper: jest.Mock; reconcileInstitution: jest.Mock };
+  let institutionRepository: { findOne: jest.Mock };
+  let runRepository: {
+    findByRunId: jest.Mock;
+    startJob: jest.Mock;
+    recordError: jest.Mock;
+    settleJob: jest.Mock;
+    finish: jest.Mock;
+    findRecentFinished: jest.Mock;
+  };
+
+  beforeEach(() => {
+    technologyService = {
+      upsertFromScraper: jest.fn(),
+      reconcileInstitution: jest.fn().mockResolvedValue({ missed: 1, withdrawn: 1, pagesGone: 1 } as never)
+    };
+    institutionRepository = {
+      findOne: jest.fn().mockResolvedValue({ id: 'institution-1', name: 'Stanford University' } as never)
+    };
+    runRepository = {
+      findByRunId: jest.fn().mockResolvedValue(null as never),
+      startJob: jest.fn().mockResolvedValue(undefined as never),
+      recordError: jest.fn().mockResolvedValue(undefined as never),
+      settleJob: jest.fn().mockResolvedValue(createRun() as never),
+      finish: jest.fn().mockImplementation(async (_runId, update) => ({ ...createRun(), ...(update as object) })),
+      findRecentFinished: jest.fn().mockResolvedValue([] as never)
+    };
+
+    service = new ScrapeRunService(
+      technologyService as any,
+      institutionRepository as any,
+      runRepository as any
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('startJob', () => {
+    test('should group a job under its own id when it carries no run id', async () => {
+      // Act
+      const runId = await service.startJob(createJob());
+
+      // Assert
+      expect(runId).toBe('run-job-1');
+      expect(runRepository.startJob).toHaveBeenCalledWith(expect.objectContaining({
+        runId: 'run-job-1',
+        institutionId: 'institution-1',
+        jobId: 'run-job-1'
+      }));
+    });
+
+    test('should start a new run when the job\'s run already finished', async () => {
+      // Arrange
+      runRepository.findByRunId.mockResolvedValue(createRun({ status: 'failed' }) as never);
+
+      // Act
+      const runId = await service.startJob(createJob({ runId: 'run-job-1' }));
+
+      // Assert
+      expect(runId).not.toBe('run-job-1');
+      expect(runRepository.startJob).toHaveBeenCalledWith(expect.objectContaining({ runId }));
+    });
+
+    test('should skip jobs that are not tied to an institution', async () => {
+      // Act
+      const runId = await service.startJob(createJob({ institutionId: undefined }));
+
+      // Assert
+      expect(runId).toBeNull();
+      expect(runRepository.startJob).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeJob', () => {
+    test('should tally upsert outcomes and settle the job with the technologies it produced', async () => {
+      // Arrange
+      technologyService.upsertFromScraper
+        .mockResolvedValueOnce({ technology: { id: 'tech-1' }, status: 'created' } as never)
+        .mockResolvedValueOnce({ technology: { id: 'tech-2' }, status: 'updated' } as never)
+        .mockRejectedValueOnce(new Error('Validation failed') as never);
+      const results = ['a', 'b', 'c'].map(path => createResult(`https://otl.stanford.edu/${path}`));
+
+      // Act
+      await service.completeJob(createJob({ runId: 'run-job-1' }), results);
+
+      // Assert
+      expect(runRepository.settleJob).toHaveBeenCalledWith('run-job-1', 'run-job-1', {
+        status: 'completed',
+        items: { found: 3, new: 1, updated: 1, unchanged: 0, removed: 0, withdrawn: 0, failed: 1 },
+        error: null,
+        technologyIds: ['tech-1', 'tech-2'],
+        truncated: false,
+        listingComplete: false
+      });
+    });
+
+    test.each<[string, ScraperJob['mode'], boolean, boolean]>([
+      ['a crawl that saw every listing page', 'crawl', true, true],
+      ['a crawl that skipped listing pages', 'crawl', false, false],
+      ['a single-page job', 'single', true, false]
+    ])('should record whether %s covered the whole listing', async (_case, mode, listingComplete, expected) => {
+      // Arrange
+      technologyService.upsertFromScraper.mockResolvedValue({ technology: { id: 'tech-1' }, status: 'unchanged' } as never);
+
+      // Act
+      await service.completeJob(
+        createJob({ runId: 'run-job-1', mode }),
+        [createResult('https://otl.stanford.edu/a')],
+        false,
+        listingComplete
+      );
+
+      // Assert
+      expect(runRepository.settleJob).toHaveBeenCalledWith('run-job-1', 'run-job-1', expect.objectContaining({
+        listingComplete: expected
+      }));
+    });
+
+    test('should pass every URL the crawl listed to each upsert', async () => {
+      // Arrange
+      technologyService.upsertFromScraper.mockResolvedValue({ technology: { id: 'tech-1' }, status: 'unchanged' } as never);
+      const results = ['a', 'b'].map(path => createResult(`https://otl.stanford.edu/${path}`));
+
+      // Act
+      await service.completeJob(createJob({ runId: 'run-job-1' }), results);
+
+      // Assert
+      const listedUrls = new Set(['https://otl.stanford.edu/a', 'https://otl.stanford.edu/b']);
+      expect(technologyService.upsertFromScraper).toHaveBeenCalledWith(results[0], listedUrls);
+      expect(technologyService.upsertFromScraper).toHaveBeenCalledWith(results[1], listedUrls);
+    });
+
+    test('should reconcile the catalog and score the run once no job is running', async () => {
+      // Arrange
+      technologyService.upsertFromScraper.mockResolvedValue({ technology: { id: 'tech-1' }, status: 'unchanged' } as never);
+      runRepository.settleJob.mockResolvedValue(createRun({ items: { ...createRun().items, failed: 0 } }) as never);
+
+      // Act
+      const run = await service.completeJob(createJob({ runId: 'run-job-1' }), [createResult('https://otl.stanford.edu/a')]);
+
+      // Assert
+      expect(technologyService.reconcileInstitution).toHaveBeenCalledWith('Stanford University', ['tech-1', 'tech-2']);
+      expect(runRepository.finish).toHaveBeenCalledWith('run-job-1', expect.objectContaining({
+        status: 'completed',
+        institutionName: 'Stanford University',
+        items: expect.objectContaining({ removed: 1, withdrawn: 1 }),
+        health: expect.objectContaining({ runs: 1, reliability: 1 })
+      }));
+      expect(run?.status).toBe('completed');
+    });
+
+    test.each([
+      ['a crawl stopped at a cap', { jobs: [{ jobId: 'run-job-1', status: 'completed', truncated: true, listingComplete: true }] }],
+      ['a job scraped a single page or skipped listing pages', { jobs: [{ jobId: 'run-job-1', status: 'completed', listingComplete: false }] }],
+      ['no technologies were found', { items: { ...createRun().items, found: 0, failed: 0 } }],
+      ['technologies failed to store', {}]
+    ])('should finish without reconciling the catalog when %s', async (_case, overrides) => {
+      // Arrange
+      technologyService.upsertFromScraper.mockResolvedValue({ technology: { id: 'tech-1' }, status: 'unchanged' } as never);
+      runRepository.settleJob.mockResolvedValue(createRun(overrides) as never);
+
+      // Act
+      await service.completeJob(createJob({ runId: 'run-job-1' }), [createResult('https://otl.stanford.edu/a')]);
+
+      // Assert
+      expect(technologyService.reconcileInstitution).not.toHaveBeenCalled();
+      expect(runRepository.finish).toHaveBeenCalledWith('run-job-1', expect.objectContaining({
+        status: 'completed',
+        items: expect.objectContaining({ removed: 0, withdrawn: 0 })
+      }));
+    });
+
+    test('should not reconcile the catalog when far fewer technologies were found than last run', async () => {
+      // Arrange
+      technologyService.upsertFromScraper.mockResolvedValue({ technology: { id: 'tech-1' }, status: 'unchanged' } as never);
+      runRepository.settleJob.mockResolvedValue(createRun({ items: { ...createRun().items, failed: 0 } }) as never);
+      runRepository.findRecentFinished.mockResolvedValue([
+        createRun({ status: 'completed', items: { ...createRun().items, found: 40 } })
+      ] as never);
+
+      // Act
+      await service.completeJob(createJob({ runId: 'run-job-1' }), [createResult('https://otl.stanford.edu/a')]);
+
+      // Assert
+      expect(technologyService.reconcileInstitution).not.toHaveBeenCalled();
+    });
+
+    test('should leave the run open while another job is still running', async () => {
+      // Arrange
+      technologyService.upsertFromScraper.mockResolvedValue({ technology: { id: 'tech-1' }, status: 'created' } as never);
+      runRepository.settleJob.mockResolvedValue(createRun({
+        jobs: [{ jobId: 'run-job-1', status: 'completed' }, { jobId: 'run-job-2', status: 'running' }]
+      }) as never);
+
+      // Act
+      await service.completeJob(createJob({ runId: 'run-job-1' }), [createResult('https://otl.stanford.edu/a')]);
+
+      // Assert
+      expect(runRepository.finish).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('failJob', () => {
+    test('should count the error and finish the run as failed without reconciling the catalog', async () => {
+      // Arrange
+      runRepository.settleJob.mockResolvedValue(createRun({
+        jobs: [{ jobId: 'run-job-1', status: 'failed' }],
+        items: { found: 0, new: 0, updated: 0, unchanged: 0, removed: 0, withdrawn: 0, failed: 0 }
+      }) as never);
+
+      // Act
+      await service.failJob(createJob({ runId: 'run-job-1' }), timeoutError);
+
+      // Assert
+      expect(runRepository.recordError).toHaveBeenCalledWith('run-job-1', ERROR_TYPES.NETWORK_TIMEOUT, 'Request timed out');
+      expect(technologyService.reconcileInstitution).not.toHaveBeenCalled();
+      expect(runRepository.finish).toHaveBeenCalledWith('run-job-1', expect.objectContaining({
+        status: 'failed',
+        items: expect.objectContaining({ removed: 0 })
+      }));
+    });
+  });
+});
+
+describe('computeInstitutionHealth', () => {
+  test('should score steady successful runs as healthy', () => {
+    const health = computeInstitutionHealth(Array.from({ length: 5 }, () => sample()));
+
+    expect(health).toEqual({
+      score: 100,
+      status: 'healthy',
+      reliability: 1,
+      yieldRatio: 1,
+      cleanliness: 1,
+      runs: 5
+    });
+  });
+
+  test('should weigh recent failures more than older ones', () => {
+    const recentFailure = computeInstitutionHealth([sample({ status: 'failed', itemsFound: 0 }), ...Array.from({ length: 4 }, () => sample())]);
+    const olderFailure = computeInstitutionHealth([...Array.from({ length: 4 }, () => sample()), sample({ status: 'failed', itemsFound: 0 })]);
+
+    expect(recentFailure.score).toBeLessThan(olderFailure.score);
+    expect(recentFailure.yieldRatio).toBe(1);
+  });
+
+  test('should flag a collapsed item yield as degraded', () => {
+    const health = computeInstitutionHealth([sample({ itemsFound: 2 }), ...Array.from({ length: 4 }, () => sample())]);
+
+    expect(health.yieldRatio).toBe(0.1);
+    expect(health.status).toBe('degraded');
+  });
+
+  test('should report failing institutions and institutions without runs', () => {
+    expect(computeInstitutionHealth(Array.from({ length: 3 }, () => sample({ status: 'failed', itemsFound: 0, errorCount: 4, attempts: 4 }))).status)
+      .toBe('failing');
+    expect(computeInstitutionHealth([]).status).toBe('unknown');
+  });
+});
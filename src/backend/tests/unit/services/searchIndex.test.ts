@@ -0,0 +1,313 @@
+/**
+ * @fileoverview Unit tests for writing technologies to the search index, covering queued
+ * batch settling and retries, deletes for removed rows, semantic embeddings, the alias swap
+ * of a full reindex and drift reports from the consistency checker.
+ * @version 1.0.0
+ */
+
+import { describe, beforeEach, afterEach, test, expect, jest } from '@jest/globals';
+import { SearchIndexService } from '../../../src/services/searchIndex.service';
+import { searchConfig } from '../../../src/config/search.config';
+
+const ALIAS = searchConfig.elasticsearch.indices.technology;
+
+const NO_PEOPLE = { inventorIds: [], inventorNames: [], licensingContactIds: [], licensingContactNames: [] };
+
+const technology = (id: string, title = `Technology ${id}`) => ({
+  id,
+  title,
+  toSearchDocument: (people = NO_PEOPLE) => ({
+    title,
+    institution: 'Stanford University',
+    active: true,
+    updatedAt: new Date(),
+    ...people
+  })
+});
+
+const change = (technologyId: string, operation: 'index' | 'delete' = 'index', attempts = 0) => ({
+  technologyId,
+  operation,
+  version: 1,
+  attempts
+});
+
+describe('SearchIndexService', () => {
+  let technologyRepository: {
+    findByIds: jest.Mock;
+    findSearchPeople: jest.Mock;
+    findPageAfter: jest.Mock;
+    findExistingIds: jest.Mock;
+  };
+  let queueRepository: {
+    claim: jest.Mock;
+    complete: jest.Mock;
+    fail: jest.Mock;
+    enqueue: jest.Mock;
+    enqueueChangedSince: jest.Mock;
+    findPending: jest.Mock;
+  };
+  let elasticsearch: {
+    bulk: jest.Mock;
+    createTechnologyIndex: jest.Mock;
+    getAliasTargets: jest.Mock;
+    swapAlias: jest.Mock;
+    deleteIndices: jest.Mock;
+    count: jest.Mock;
+    getDigests: jest.Mock;
+    scanIds: jest.Mock;
+  };
+  let service: SearchIndexService;
+
+  beforeEach(() => {
+    technologyRepository = {
+      findByIds: jest.fn().mockResolvedValue([] as never),
+      findSearchPeople: jest.fn().mockResolvedValue(new Map() as never),
+      findPageAfter: jest.fn().mockResolvedValue([] as never),
+      findExistingIds: jest.fn().mockResolvedValue(new Set() as never)
+    };
+    queueRepository = {
+      claim: jest.fn().mockResolvedValue([] as never),
+      complete: jest.fn().mockResolvedValue(undefined as never),
+      fail: jest.fn().mockResolvedValue(undefined as never),
+      enqueue: jest.fn().mockImplementation(async (ids) => (ids as string[]).length),
+      enqueueChangedSince: jest.fn().mockResolvedValue(0 as never),
+      findPending: jest.fn().mockResolvedValue(new Set() as never)
+    };
+    elasticsearch = {
+      bulk: jest.fn().mockImplementation(async (_index, writes) =>
+        (writes as Array<{ id: string }>).map(write => ({ id: write.id, status: 200 }))),
+      createTechnologyIndex: jest.fn().mockResolvedValue(undefined as never),
+      getAliasTargets: jest.fn().mockResolvedValue([`${ALIAS}_1`] as never),
+      swapAlias: jest.fn().mockResolvedValue(undefined as never),
+      deleteIndices: jest.fn().mockResolvedValue(undefined as never),
+      count: jest.fn().mockResolvedValue(0 as never),
+      getDigests: jest.fn().mockResolvedValue(new Map() as never),
+      scanIds: jest.fn().mockResolvedValue(undefined as never)
+    };
+
+    service = new SearchIndexService(technologyRepository as any, queueRepository as any, elasticsearch as any, null);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('processQueue', () => {
+    test('should index current rows and delete technologies whose row is gone', async () => {
+      // Arrange
+      const changes = [change('tech-1'), change('tech-2'), change('tech-3', 'delete')];
+      queueRepository.claim.mockResolvedValue(changes as never);
+      technologyRepository.findByIds.mockResolvedValue([technology('tech-1')] as never);
+      technologyRepository.findSearchPeople.mockResolvedValue(new Map([
+        ['tech-1', { inventorIds: ['person-1'], inventorNames: ['Ada Lovelace'], licensingContactIds: [], licensingContactNames: [] }]
+      ]) as never);
+      elasticsearch.bulk.mockResolvedValue([
+        { id: 'tech-1', status: 201 },
+        { id: 'tech-2', status: 404 },
+        { id: 'tech-3', status: 200 }
+      ] as never);
+
+      // Act
+      const result = await service.processQueue();
+
+      // Assert
+      expect(technologyRepository.findByIds).toHaveBeenCalledWith(['tech-1', 'tech-2']);
+      expect(elasticsearch.bulk).toHaveBeenCalledWith(ALIAS, [
+        { id: 'tech-1', operation: 'index', document: expect.objectContaining({ title: 'Technology tech-1', digest: expect.any(String) }) },
+        { id: 'tech-2', operation: 'delete' },
+        { id: 'tech-3', operation: 'delete' }
+      ]);
+      expect(queueRepository.complete).toHaveBeenCalledWith(changes);
+      expect(result).toEqual({ claimed: 3, indexed: 1, deleted: 2, failed: 0 });
+    });
+
+    test('should leave rejected documents queued with their error', async () => {
+      // Arrange
+      const changes = [change('tech-1'), change('tech-2')];
+      queueRepository.claim.mockResolvedValue(changes as never);
+      technologyRepository.findByIds.mockResolvedValue([technology('tech-1'), technology('tech-2')] as never);
+      elasticsearch.bulk.mockResolvedValue([
+        { id: 'tech-1', status: 200 },
+        { id: 'tech-2', status: 400, error: 'mapper_parsing_exception: failed to parse field [discoveredAt]' }
+      ] as never);
+
+      // Act
+      const result = await service.processQueue();
+
+      // Assert
+      expect(queueRepository.complete).toHaveBeenCalledWith([changes[0]]);
+      expect(queueRepository.fail).toHaveBeenCalledWith(
+        [changes[1]],
+        new Map([['tech-2', 'mapper_parsing_exception: failed to parse field [discoveredAt]']]),
+        searchConfig.indexing.retryBaseDelay,
+        searchConfig.indexing.retryMaxDelay
+      );
+      expect(result).toMatchObject({ indexed: 1, failed: 1 });
+    });
+
+    test('should requeue the whole batch without throwing when the cluster is unreachable', async () => {
+      // Arrange
+      const changes = [change('tech-1', 'delete'), change('tech-2', 'delete')];
+      queueRepository.claim.mockResolvedValue(changes as never);
+      elasticsearch.bulk.mockRejectedValue(new Error('ConnectionError: connect ECONNREFUSED') as never);
+
+      // Act
+      const result = await service.processQueue();
+
+      // Assert
+      expect(queueRepository.complete).toHaveBeenCalledWith([]);
+      expect(queueRepository.fail).toHaveBeenCalledWith(changes, expect.any(Map), expect.any(Number), expect.any(Number));
+      expect(result).toEqual({ claimed: 2, indexed: 0, deleted: 0, failed: 2 });
+    });
+  });
+
+  describe('embeddings', () => {
+    test('should index an embedding of each technology when a provider is configured', async () => {
+      // Arrange
+      const embeddingProvider = {
+        name: 'test',
+        dimensions: 2,
+        embed: jest.fn().mockImplementation(async (texts) => (texts as string[]).map(() => [0.6, 0.8]))
+      };
+      service = new SearchIndexService(
+        technologyRepository as any,
+        queueRepository as any,
+        elasticsearch as any,
+        embeddingProvider as any
+      );
+      queueRepository.claim.mockResolvedValue([change('tech-1')] as never);
+      technologyRepository.findByIds.mockResolvedValue([technology('tech-1', 'Transdermal glucose sensor')] as never);
+
+      // Act
+      await service.processQueue();
+
+      // Assert
+      expect(embeddingProvider.embed).toHaveBeenCalledWith(['Transdermal glucose sensor']);
+      expect(elasticsearch.bulk).toHaveBeenCalledWith(ALIAS, [
+        expect.objectContaining({ document: expect.objectContaining({ embedding: [0.6, 0.8] }) })
+      ]);
+    });
+
+    test('should requeue the batch when the provider fails', async () => {
+      // Arrange
+      const embeddingProvider = {
+        name: 'test',
+        dimensions: 2,
+        embed: jest.fn().mockRejectedValue(new Error('Request failed with status code 503') as never)
+      };
+      service = new SearchIndexService(
+        technologyRepository as any,
+        queueRepository as any,
+        elasticsearch as any,
+        embeddingProvider as any
+      );
+      queueRepository.claim.mockResolvedValue([change('tech-1')] as never);
+      technologyRepository.findByIds.mockResolvedValue([technology('tech-1')] as never);
+
+      // Act
+      const result = await service.processQueue();
+
+      // Assert
+      expect(elasticsearch.bulk).not.toHaveBeenCalled();
+      expect(queueRepository.fail).toHaveBeenCalledWith(
+        [change('tech-1')],
+        new Map([['tech-1', 'Request failed with status code 503']]),
+        expect.any(Number),
+        expect.any(Number)
+      );
+      expect(result.failed).toBe(1);
+    });
+  });
+
+  describe('reindex', () => {
+    test('should copy the catalog into a new index and swap the alias onto it', async () => {
+      // Arrange
+      technologyRepository.findPageAfter
+        .mockResolvedValueOnce([technology('tech-1'), technology('tech-2')] as never)
+        .mockResolvedValueOnce([] as never);
+      elasticsearch.bulk.mockResolvedValue([
+        { id: 'tech-1', status: 201 },
+        { id: 'tech-2', status: 400, error: 'illegal_argument_exception: bad value' }
+      ] as never);
+      queueRepository.enqueueChangedSince.mockResolvedValue(3 as never);
+
+      // Act
+      const result = await service.reindex();
+
+      // Assert
+      const index = elasticsearch.createTechnologyIndex.mock.calls[0][0] as string;
+      expect(index).toMatch(new RegExp(`^${ALIAS}_\\d+$`));
+      expect(elasticsearch.bulk).toHaveBeenCalledWith(index, expect.any(Array));
+      expect(elasticsearch.swapAlias).toHaveBeenCalledWith(ALIAS, index, [`${ALIAS}_1`]);
+      expect(elasticsearch.deleteIndices).toHaveBeenCalledWith([`${ALIAS}_1`]);
+      expect(queueRepository.enqueue).toHaveBeenCalledWith(['tech-2'], 'index');
+      expect(result).toMatchObject({ index, documents: 1, failed: 1, requeued: 4 });
+    });
+
+    test('should keep the current index when the copy fails', async () => {
+      // Arrange
+      technologyRepository.findPageAfter.mockResolvedValue([technology('tech-1')] as never);
+      elasticsearch.bulk.mockRejectedValue(new Error('cluster_block_exception') as never);
+
+      // Act & Assert
+      await expect(service.reindex()).rejects.toThrow('cluster_block_exception');
+      const index = elasticsearch.createTechnologyIndex.mock.calls[0][0];
+      expect(elasticsearch.swapAlias).not.toHaveBeenCalled();
+      expect(elasticsearch.deleteIndices).toHaveBeenCalledWith([index]);
+    });
+  });
+
+  describe('checkConsistency', () => {
+    test('should report missing, stale and orphaned documents and queue repairs', async () => {
+      // Arrange
+      const current = technology('tech-1');
+      const changed = technology('tech-2', 'Renamed technology');
+      technologyRepository.findPageAfter
+        .mockResolvedValueOnce([current, changed, technology('tech-3'), technology('tech-4')] as never)
+        .mockResolvedValueOnce([] as never);
+      queueRepository.findPending.mockResolvedValue(new Set(['tech-4']) as never);
+      elasticsearch.getDigests.mockResolvedValue(new Map([
+        ['tech-1', SearchIndexService.digest(current.toSearchDocument() as any)],
+        ['tech-2', SearchIndexService.digest(technology('tech-2').toSearchDocument() as any)]
+      ]) as never);
+      elasticsearch.scanIds.mockImplementation(async (_index, _size, onPage) => {
+        await (onPage as (ids: string[]) => Promise<void>)(['tech-1', 'tech-2', 'tech-9']);
+      });
+      technologyRepository.findExistingIds.mockResolvedValue(new Set(['tech-1', 'tech-2']) as never);
+      elasticsearch.count.mockResolvedValue(3 as never);
+
+      // Act
+      const report = await service.checkConsistency({ repair: true });
+
+      // Assert
+      expect(report).toMatchObject({
+        alias: ALIAS,
+        databaseCount: 4,
+        indexCount: 3,
+        pending: 1,
+        missing: { count: 1, sample: ['tech-3'] },
+        stale: { count: 1, sample: ['tech-2'] },
+        orphaned: { count: 1, sample: ['tech-9'] },
+        consistent: false,
+        repaired: 3
+      });
+      expect(queueRepository.enqueue).toHaveBeenCalledWith(['tech-3', 'tech-2'], 'index');
+      expect(queueRepository.enqueue).toHaveBeenCalledWith(['tech-9'], 'delete');
+    });
+
+    test('should only report drift when not repairing', async () => {
+      // Arrange
+      technologyRepository.findPageAfter
+        .mockResolvedValueOnce([technology('tech-1')] as never)
+        .mockResolvedValueOnce([] as never);
+
+      // Act
+      const report = await service.checkConsistency();
+
+      // Assert
+      expect(report).toMatchObject({ missing: { count: 1 }, consistent: false, repaired: 0 });
+      expect(queueRepository.enqueue).not.toHaveBeenCalled();
+    });
+  });
+});
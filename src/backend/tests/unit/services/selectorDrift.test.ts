@@ -0,0 +1,256 @@
+/**
+ * @fileoverview Unit tests for selector drift detection covering yield baselines, flags that
+ * outlast the history window, last-good snapshots and replacement selector suggestions.
+ * @version 1.0.0
+ */
+
+import { describe, beforeEach, afterEach, test, expect, jest } from '@jest/globals';
+import { SelectorDriftService } from '../../../src/services/selectorDrift.service';
+import { SelectorDriftDetector, SelectorTester } from '../../../src/scraper/drift';
+import { ScraperJob } from '../../../src/interfaces/scraper.interface';
+import { createScraperJob, ScraperJobOverrides } from '../../fixtures/scraperJob';
+
+const renderListing = (items: string[], itemClass: string, titleClass: string): string => `
+  <html><body>
+    <ul class="technology-list">
+      ${items.map(title => `
+        <li class="${itemClass}">
+          <h3 class="${titleClass}">${title}</h3>
+          <p class="tech-description">About ${title}</p>
+        </li>`).join('')}
+    </ul>
+  </body></html>`;
+
+const TITLES = [
+  'Solid-state battery electrolyte',
+  'CRISPR delivery vehicle',
+  'Low-power image sensor',
+  'Biodegradable stent coating',
+  'Quantum dot display film',
+  'Soil nitrogen biosensor'
+];
+
+const LAST_GOOD_HTML = renderListing(TITLES, 'tech-item', 'tech-title');
+const REDESIGNED_HTML = renderListing(TITLES, 'technology-card', 'technology-card__title');
+
+const createJob = (overrides: ScraperJobOverrides = {}): ScraperJob => createScraperJob({
+  id: 'drift-job-1',
+  ...overrides
+});
+
+const history = (title: number, description = title) =>
+  Array.from({ length: 5 }, () => ({ title, description }));
+
+describe('SelectorDriftService', () => {
+  let service: SelectorDriftService;
+  let scrapeLogRepository: { getSelectorYieldHistory: jest.Mock; logSelectorYield: jest.Mock };
+  let selectorDriftRepository: {
+    findByInstitution: jest.Mock;
+    findDrifted: jest.Mock;
+    markHealthy: jest.Mock;
+    markDrifted: jest.Mock;
+    dismiss: jest.Mock;
+  };
+
+  beforeEach(() => {
+    scrapeLogRepository = {
+      getSelectorYieldHistory: jest.fn().mockResolvedValue(history(6) as never),
+      logSelectorYield: jest.fn().mockResolvedValue({} as never)
+    };
+    selectorDriftRepository = {
+      findByInstitution: jest.fn().mockResolvedValue(null as never),
+      findDrifted: jest.fn().mockResolvedValue([] as never),
+      markHealthy: jest.fn().mockResolvedValue(undefined as never),
+      markDrifted: jest.fn().mockResolvedValue(undefined as never),
+      dismiss: jest.fn().mockResolvedValue(true as never)
+    };
+
+    service = new SelectorDriftService(scrapeLogRepository as any, selectorDriftRepository as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('record', () => {
+    test('should log the yield and keep healthy pages as the last-good snapshot', async () => {
+      // Act
+      const drifted = await service.record(createJob(), LAST_GOOD_HTML);
+
+      // Assert
+      expect(drifted).toEqual([]);
+      expect(scrapeLogRepository.logSelectorYield).toHaveBeenCalledWith(
+        { title: 6, description: 6 },
+        expect.objectContaining({ institutionId: 'institution-1', jobId: 'drift-job-1' })
+      );
+      expect(selectorDriftRepository.markHealthy).toHaveBeenCalledWith(
+        expect.objectContaining({ institutionId: 'institution-1' }),
+        expect.objectContaining({ html: LAST_GOOD_HTML, yields: { title: 6, description: 6 } })
+      );
+    });
+
+    test('should flag a selector that stopped matching and suggest replacements from the snapshot', async () => {
+      // Arrange
+      selectorDriftRepository.findByInstitution.mockResolvedValue({
+        status: 'healthy',
+        fields: [],
+        lastGood: {
+          url: createJob().url,
+          html: LAST_GOOD_HTML,
+          selectors: { title: '.tech-title', description: '.tech-description' },
+          yields: { title: 6, description: 6 },
+          capturedAt: new Date('2026-10-01T00:00:00.000Z')
+        }
+      } as never);
+
+      // Act
+      const drifted = await service.record(createJob(), REDESIGNED_HTML);
+
+      // Assert
+      expect(drifted).toHaveLength(1);
+      expect(drifted[0]).toMatchObject({ field: 'title', reason: 'missing', baseline: 6, current: 0 });
+      expect(drifted[0].suggestions[0]).toMatchObject({ selector: '.technology-card__title', matches: 6, score: 1 });
+      expect(selectorDriftRepository.markDrifted).toHaveBeenCalledWith(
+        expect.objectContaining({ institutionId: 'institution-1' }),
+        drifted
+      );
+      expect(selectorDriftRepository.markHealthy).not.toHaveBeenCalled();
+    });
+
+    test('should keep an open flag once the history window has filled with the low yield', async () => {
+      // Arrange
+      scrapeLogRepository.getSelectorYieldHistory.mockResolvedValue(history(0, 6) as never);
+      selectorDriftRepository.findByInstitution.mockResolvedValue({
+        status: 'drifted',
+        fields: [{ field: 'title', selector: '.tech-title', reason: 'missing', baseline: 6, current: 0, suggestions: [] }],
+        lastGood: null
+      } as never);
+
+      // Act
+      const drifted = await service.record(createJob(), REDESIGNED_HTML);
+
+      // Assert
+      expect(drifted.map(field => field.field)).toEqual(['title']);
+      expect(drifted[0].baseline).toBe(6);
+    });
+
+    test('should clear the flag once the yield recovers', async () => {
+      // Arrange
+      selectorDriftRepository.findByInstitution.mockResolvedValue({
+        status: 'drifted',
+        fields: [{ field: 'title', selector: '.tech-title', reason: 'missing', baseline: 6, current: 0, suggestions: [] }],
+        lastGood: null
+      } as never);
+      const job = createJob({
+        config: { selectors: { title: '.technology-card__title', description: '.tech-description' } }
+      });
+
+      // Act
+      const drifted = await service.record(job, REDESIGNED_HTML);
+
+      // Assert
+      expect(drifted).toEqual([]);
+      expect(selectorDriftRepository.markHealthy).toHaveBeenCalled();
+    });
+
+    test('should skip jobs that are not tied to an institution', async () => {
+      // Act
+      await service.record(createJob({ institutionId: undefined }), LAST_GOOD_HTML);
+
+      // Assert
+      expect(scrapeLogRepository.logSelectorYield).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dismiss', () => {
+    test('should raise a not found error when no flag is open', async () => {
+      // Arrange
+      selectorDriftRepository.dismiss.mockResolvedValue(false as never);
+
+      // Act & Assert
+      await expect(service.dismiss('institution-1', 'manager-1')).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+});
+
+describe('SelectorDriftDetector', () => {
+  const detector = new SelectorDriftDetector();
+  const selectors = { title: '.tech-title', description: '.tech-description' };
+
+  test('should wait for enough history before trusting a baseline', () => {
+    expect(detector.evaluate(selectors, { title: 0, description: 6 }, history(6).slice(0, 2))).toEqual([]);
+  });
+
+  test('should flag partial drops only for meaningful baselines', () => {
+    expect(detector.evaluate(selectors, { title: 2, description: 6 }, history(6))).toEqual([
+      expect.objectContaining({ field: 'title', reason: 'dropped', baseline: 6, current: 2 })
+    ]);
+    expect(detector.evaluate(selectors, { title: 1, description: 3 }, history(3))).toEqual([]);
+  });
+});
+
+describe('SelectorTester', () => {
+  const PUBLIC_URL = 'http://93.184.216.34/technologies';
+  let httpClient: { get: jest.Mock };
+  let robotsPolicy: { check: jest.Mock; waitForTurn: jest.Mock };
+  let tester: SelectorTester;
+
+  beforeEach(() => {
+    httpClient = { get: jest.fn() };
+    robotsPolicy = {
+      check: jest.fn().mockResolvedValue({ allowed: true } as never),
+      waitForTurn: jest.fn().mockResolvedValue(undefined as never)
+    };
+    tester = new SelectorTester(httpClient as any, robotsPolicy as any);
+  });
+
+  test('should refuse hosts on private, loopback and link-local addresses', async () => {
+    // Arrange
+    const internalUrls = [
+      'http://127.0.0.1/admin',
+      'http://10.0.0.5/',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://[::1]/',
+      'http://[::ffff:127.0.0.1]/'
+    ];
+
+    // Act & Assert
+    for (const url of internalUrls) {
+      await expect(tester.test(url, { title: '.tech-title' })).rejects.toThrow('non-public address');
+    }
+    expect(robotsPolicy.check).not.toHaveBeenCalled();
+    expect(httpClient.get).not.toHaveBeenCalled();
+  });
+
+  test('should not follow a redirect to an internal address', async () => {
+    // Arrange
+    httpClient.get.mockResolvedValueOnce({
+      status: 302,
+      headers: { location: 'http://169.254.169.254/latest/meta-data/' },
+      data: ''
+    } as never);
+
+    // Act
+    const result = await tester.test(PUBLIC_URL, { title: '.tech-title' });
+
+    // Assert
+    expect(result.accessible).toBe(false);
+    expect(result.errors[0]).toContain('non-public address');
+    expect(httpClient.get).toHaveBeenCalledTimes(1);
+  });
+
+  test('should follow redirects between public hosts', async () => {
+    // Arrange
+    httpClient.get
+      .mockResolvedValueOnce({ status: 301, headers: { location: '/technologies/' }, data: '' } as never)
+      .mockResolvedValueOnce({ status: 200, headers: {}, data: LAST_GOOD_HTML } as never);
+
+    // Act
+    const result = await tester.test(PUBLIC_URL, { title: '.tech-title' });
+
+    // Assert
+    expect(httpClient.get).toHaveBeenLastCalledWith('http://93.184.216.34/technologies/', expect.any(Object));
+    expect(result.selectorMatches).toEqual({ title: TITLES.length });
+    expect(result.validSelectors).toBe(true);
+  });
+});
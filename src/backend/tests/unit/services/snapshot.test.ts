@@ -0,0 +1,108 @@
+/**
+ * @fileoverview Unit tests for the raw snapshot archive covering content-addressed storage,
+ * re-upload of ageing content, header capture and re-parsing archived pages.
+ * @version 1.0.0
+ */
+
+import { describe, beforeEach, afterEach, test, expect, jest } from '@jest/globals';
+import { gzipSync } from 'zlib';
+import { SnapshotService } from '../../../src/services/snapshot.service';
+import { captureResponse } from '../../../src/scraper/snapshot';
+import { ScraperJob } from '../../../src/interfaces/scraper.interface';
+import { createScraperJob, ScraperJobOverrides } from '../../fixtures/scraperJob';
+
+const PAGE_HTML = '<html><body><h1 class="tech-title">Solid-state battery electrolyte</h1></body></html>';
+
+const createJob = (overrides: ScraperJobOverrides = {}): ScraperJob => createScraperJob({
+  id: 'snapshot-job-1',
+  url: 'https://techfinder.stanford.edu/technologies/1',
+  config: { selectors: { title: '.tech-title' } },
+  ...overrides
+});
+
+const createPage = (body: string = PAGE_HTML) => captureResponse({
+  data: Buffer.from(body),
+  headers: { 'Content-Type': 'text/html; charset=utf-8', 'Set-Cookie': ['session=secret'] },
+  status: 200
+} as any);
+
+describe('SnapshotService', () => {
+  let service: SnapshotService;
+  let storage: { uploadFile: jest.Mock; downloadFile: jest.Mock };
+  let snapshotRepository: { create: jest.Mock; findById: jest.Mock; findLatestByHash: jest.Mock };
+
+  beforeEach(() => {
+    storage = {
+      uploadFile: jest.fn().mockResolvedValue({ url: '', versionId: '' } as never),
+      downloadFile: jest.fn().mockResolvedValue(gzipSync(Buffer.from(PAGE_HTML)) as never)
+    };
+    snapshotRepository = {
+      create: jest.fn().mockImplementation(async (data: any) => ({ ...data, id: 'snapshot-1' })),
+      findById: jest.fn().mockResolvedValue(null as never),
+      findLatestByHash: jest.fn().mockResolvedValue(null as never)
+    };
+
+    service = new SnapshotService(storage as any, snapshotRepository as any);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('archive', () => {
+    test('should upload new content under a content-addressed key without credentials', async () => {
+      // Act
+      const reference = await service.archive(createJob(), createPage());
+
+      // Assert
+      expect(reference?.key).toMatch(/^snapshots\/[0-9a-f]{2}\/[0-9a-f]{64}\.gz$/);
+      expect(storage.uploadFile).toHaveBeenCalledWith(reference?.key, expect.any(Buffer), expect.anything());
+      expect(snapshotRepository.create).toHaveBeenCalledWith(expect.objectContaining({
+        contentType: 'text/html',
+        headers: { 'content-type': 'text/html; charset=utf-8' },
+        selectors: { title: '.tech-title' },
+        statusCode: 200
+      }));
+    });
+
+    test('should reuse stored content until it is due for a refresh', async () => {
+      // Arrange
+      snapshotRepository.findLatestByHash.mockResolvedValueOnce({ storedAt: new Date(), storedSize: 120 } as never);
+      snapshotRepository.findLatestByHash.mockResolvedValueOnce({
+        storedAt: new Date(Date.now() - 60 * 24 * 60 * 60 * 1000),
+        storedSize: 120
+      } as never);
+
+      // Act
+      await service.archive(createJob(), createPage());
+      await service.archive(createJob(), createPage());
+
+      // Assert
+      expect(storage.uploadFile).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('reparse', () => {
+    test('should run the HTML parser over the archived page with the original selectors', async () => {
+      // Arrange
+      snapshotRepository.findById.mockResolvedValue({
+        key: 'snapshots/ab/abc.gz',
+        contentType: 'text/html',
+        selectors: { title: '.tech-title' }
+      } as never);
+
+      // Act
+      const reparsed = await service.reparse('snapshot-1');
+
+      // Assert
+      expect(reparsed.parser).toBe('html');
+      expect((reparsed.result as any).data.title).toBe('Solid-state battery electrolyte');
+    });
+
+    test('should raise a not found error for unknown snapshots', async () => {
+      // Act & Assert
+      await expect(service.reparse('missing')).rejects.toMatchObject({ statusCode: 404 });
+      expect(storage.downloadFile).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Unit tests for the technology translation stage
+ * @version 1.0.0
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  LocalTranslationProvider,
+  detectTextLanguage,
+  getLanguageAnalyzer,
+  isTranslatable,
+  normalizeLanguageCode,
+  translateFields
+} from '../../../src/lib/translation';
+import { TranslationProvider } from '../../../src/interfaces/translation.interface';
+
+const recording = (): TranslationProvider & { calls: string[][] } => {
+  const calls: string[][] = [];
+  return {
+    name: 'recording',
+    calls,
+    translate: async (texts: string[]) => {
+      calls.push(texts);
+      return texts.map(text => `EN ${text}`);
+    }
+  };
+};
+
+describe('detectTextLanguage', () => {
+  test('should detect the language of undeclared technology text', () => {
+    expect(detectTextLanguage(
+      'Verfahren zur Herstellung von Solarzellen mit hohem Wirkungsgrad. Die Erfindung betrifft ein neues Verfahren.'
+    )).toBe('de');
+    expect(detectTextLanguage('Nuevo método para la detección temprana del cáncer de mama')).toBe('es');
+    expect(detectTextLanguage('高効率太陽電池の製造方法に関する発明です')).toBe('ja');
+    expect(detectTextLanguage('고효율 태양 전지 제조 방법에 관한 발명')).toBe('ko');
+  });
+
+  test('should not guess from text too short to tell', () => {
+    expect(detectTextLanguage('Solar Cell')).toBeNull();
+  });
+});
+
+describe('getLanguageAnalyzer', () => {
+  test('should index only non-English languages under their own analyzer', () => {
+    expect(getLanguageAnalyzer('de-DE')).toBe('german');
+    expect(getLanguageAnalyzer('zh')).toBe('cjk');
+    expect(getLanguageAnalyzer('en')).toBeNull();
+    expect(getLanguageAnalyzer('tr')).toBeNull();
+    expect(getLanguageAnalyzer(null)).toBeNull();
+  });
+});
+
+describe('normalizeLanguageCode', () => {
+  test('should reduce language tags to lowercase ISO 639-1 codes', () => {
+    expect(normalizeLanguageCode('de-DE')).toBe('de');
+    expect(normalizeLanguageCode('FR_ca')).toBe('fr');
+    expect(normalizeLanguageCode(' ja ')).toBe('ja');
+    expect(normalizeLanguageCode('')).toBeNull();
+    expect(normalizeLanguageCode(undefined)).toBeNull();
+  });
+
+  test('should only translate detected non-English languages', () => {
+    expect(isTranslatable('de')).toBe(true);
+    expect(isTranslatable('en-GB')).toBe(false);
+    expect(isTranslatable(null)).toBe(false);
+  });
+});
+
+describe('LocalTranslationProvider', () => {
+  test('should translate glossary terms and keep other words', async () => {
+    const provider = new LocalTranslationProvider();
+
+    await expect(provider.translate(
+      ['Neuartiges Verfahren zur Herstellung', 'Batterie und Sensor'],
+      'de',
+      'en'
+    )).resolves.toEqual(['Novel Method for Herstellung', 'Battery and Sensor']);
+  });
+
+  test('should return text unchanged for languages without a glossary', async () => {
+    const provider = new LocalTranslationProvider({});
+
+    await expect(provider.translate(['新しい電池'], 'ja', 'en')).resolves.toEqual(['新しい電池']);
+  });
+});
+
+describe('translateFields', () => {
+  test('should translate title and description in one request', async () => {
+    const provider = recording();
+
+    const translations = await translateFields(
+      { title: ' Neue Batterie ', description: 'Ein Verfahren' },
+      'de',
+      provider
+    );
+
+    expect(provider.calls).toEqual([['Neue Batterie', 'Ein Verfahren']]);
+    expect(translations).toMatchObject({
+      sourceLanguage: 'de',
+      targetLanguage: 'en',
+      title: 'EN Neue Batterie',
+      description: 'EN Ein Verfahren',
+      provider: 'recording'
+    });
+    expect(Date.parse(translations.translatedAt)).not.toBeNaN();
+  });
+
+  test('should skip empty fields and cut long text at a word boundary', async () => {
+    const provider = recording();
+
+    const translations = await translateFields(
+      { title: '', description: 'mot '.repeat(2000) },
+      'fr',
+      provider
+    );
+
+    expect(provider.calls).toHaveLength(1);
+    expect(provider.calls[0]).toHaveLength(1);
+    expect(provider.calls[0][0].length).toBeLessThanOrEqual(5000);
+    expect(provider.calls[0][0].endsWith('mot')).toBe(true);
+    expect(translations.title).toBeNull();
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @fileoverview Unit tests for withdrawing technologies that disappear from their
+ * institution's site, covering missed run thresholds and 404/410 detail page checks.
+ * @version 1.0.0
+ */
+
+import { describe, beforeEach, afterEach, test, expect, jest } from '@jest/globals';
+import { TechnologyService } from '../../../src/services/technology.service';
+import { DetailPageChecker } from '../../../src/scraper/crawler';
+import { WITHDRAWAL, WITHDRAWAL_REASONS } from '../../../src/constants/scraper.constants';
+
+jest.mock('opossum');
+
+const missedTechnology = (id: string, missedRuns: number) => ({
+  id,
+  url: `https://otl.stanford.edu/technologies/${id}`,
+  institution: 'Stanford University',
+  missedRuns
+});
+
+describe('TechnologyService.reconcileInstitution', () => {
+  let service: TechnologyService;
+  let repository: { recordMissedRun: jest.Mock; withdraw: jest.Mock };
+  let detailPageChecker: { check: jest.Mock };
+
+  beforeEach(() => {
+    repository = {
+      recordMissedRun: jest.fn().mockResolvedValue([] as never),
+      withdraw: jest.fn().mockResolvedValue(undefined as never)
+    };
+    detailPageChecker = {
+      check: jest.fn().mockImplementation(async (url) => ({ url, statusCode: 200, gone: false }))
+    };
+    const logger = { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+
+    service = new TechnologyService(
+      repository as any,
+      {} as any,
+      {} as any,
+      logger as any,
+      detailPageChecker as any
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  test('should withdraw technologies missing for the configured number of runs', async () => {
+    // Arrange
+    const stale = missedTechnology('tech-1', WITHDRAWAL.MISSED_RUNS);
+    const recent = missedTechnology('tech-2', 1);
+    repository.recordMissedRun.mockResolvedValue([stale, recent] as never);
+
+    // Act
+    const reconciliation = await service.reconcileInstitution('Stanford University', ['tech-3']);
+
+    // Assert
+    expect(repository.recordMissedRun).toHaveBeenCalledWith('Stanford University', ['tech-3']);
+    expect(repository.withdraw).toHaveBeenCalledWith([stale], WITHDRAWAL_REASONS.NOT_SEEN, expect.any(Date));
+    expect(repository.withdraw).toHaveBeenCalledWith([], WITHDRAWAL_REASONS.PAGE_GONE, expect.any(Date));
+    expect(detailPageChecker.check).toHaveBeenCalledTimes(1);
+    expect(detailPageChecker.check).toHaveBeenCalledWith(recent.url);
+    expect(reconciliation).toEqual({ missed: 2, withdrawn: 1, pagesGone: 0 });
+  });
+
+  test('should withdraw a missing technology at once when its detail page is gone', async () => {
+    // Arrange
+    const gone = missedTechnology('tech-1', 1);
+    repository.recordMissedRun.mockResolvedValue([gone] as never);
+    detailPageChecker.check.mockResolvedValue({ url: gone.url, statusCode: 410, gone: true } as never);
+
+    // Act
+    const reconciliation = await service.reconcileInstitution('Stanford University', []);
+
+    // Assert
+    expect(repository.withdraw).toHaveBeenCalledWith([gone], WITHDRAWAL_REASONS.PAGE_GONE, expect.any(Date));
+    expect(reconciliation).toEqual({ missed: 1, withdrawn: 1, pagesGone: 1 });
+  });
+
+  test('should leave the catalog alone when the run listed everything', async () => {
+    // Act
+    const reconciliation = await service.reconcileInstitution('Stanford University', ['tech-1']);
+
+    // Assert
+    expect(detailPageChecker.check).not.toHaveBeenCalled();
+    expect(reconciliation).toEqual({ missed: 0, withdrawn: 0, pagesGone: 0 });
+  });
+});
+
+describe('DetailPageChecker', () => {
+  let httpClient: { head: jest.Mock; get: jest.Mock };
+  let robotsPolicy: { check: jest.Mock; waitForTurn: jest.Mock };
+  let checker: DetailPageChecker;
+
+  beforeEach(() => {
+    httpClient = {
+      head: jest.fn().mockResolvedValue({ status: 200 } as never),
+      get: jest.fn().mockResolvedValue({ status: 200, data: null } as never)
+    };
+    robotsPolicy = {
+      check: jest.fn().mockResolvedValue({ allowed: true } as never),
+      waitForTurn: jest.fn().mockResolvedValue(undefined as never)
+    };
+    checker = new DetailPageChecker(httpClient as any, robotsPolicy as any);
+  });
+
+  test.each([404, 410])('should report a %i page as gone', async (status) => {
+    httpClient.head.mockResolvedValue({ status } as never);
+
+    await expect(checker.check('https://otl.stanford.edu/technologies/1'))
+      .resolves.toEqual({ url: 'https://otl.stanford.edu/technologies/1', statusCode: status, gone: true });
+  });
+
+  test('should retry with GET when HEAD is not allowed', async () => {
+    httpClient.head.mockResolvedValue({ status: 405 } as never);
+    httpClient.get.mockResolvedValue({ status: 404, data: null } as never);
+
+    const status = await checker.check('https://otl.stanford.edu/technologies/1');
+
+    expect(httpClient.get).toHaveBeenCalled();
+    expect(status.gone).toBe(true);
+  });
+
+  test('should not report pages as gone when they cannot be checked', async () => {
+    httpClient.head.mockRejectedValue(new Error('ECONNRESET') as never);
+    await expect(checker.check('https://otl.stanford.edu/technologies/1'))
+      .resolves.toMatchObject({ statusCode: null, gone: false });
+
+    robotsPolicy.check.mockResolvedValue({ allowed: false } as never);
+    await expect(checker.check('https://otl.stanford.edu/technologies/2'))
+      .resolves.toMatchObject({ statusCode: null, gone: false });
+  });
+});
@@ -0,0 +1,86 @@
+/**
+ * @fileoverview Unit tests for technology identity and change detection utilities
+ * @version 1.0.0
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  normalizeTechnologyUrl,
+  computeFingerprint,
+  computeContentHash,
+  diffTrackedFields
+} from '../../../src/utils/fingerprint.util';
+
+const TITLE = 'Low-Cost Perovskite Solar Cell';
+const DESCRIPTION = 'A scalable process for fabricating stable perovskite solar cells at room temperature.';
+
+describe('normalizeTechnologyUrl', () => {
+  test('should map equivalent listing URLs to the same canonical URL', () => {
+    const canonical = normalizeTechnologyUrl('https://tto.example.edu/techs/123?b=2&a=1');
+
+    expect(normalizeTechnologyUrl('http://WWW.tto.example.edu/techs/123/?a=1&b=2#details')).toBe(canonical);
+    expect(normalizeTechnologyUrl('https://tto.example.edu/techs/123?a=1&utm_source=mail&b=2')).toBe(canonical);
+  });
+
+  test('should keep identifying query parameters', () => {
+    expect(normalizeTechnologyUrl('https://tto.example.edu/tech?id=1'))
+      .not.toBe(normalizeTechnologyUrl('https://tto.example.edu/tech?id=2'));
+  });
+
+  test('should return unparseable input trimmed', () => {
+    expect(normalizeTechnologyUrl('  not a url ')).toBe('not a url');
+  });
+});
+
+describe('computeFingerprint', () => {
+  test('should ignore case, punctuation and stop words', () => {
+    const fingerprint = computeFingerprint(TITLE, DESCRIPTION);
+
+    expect(computeFingerprint('low cost perovskite solar cell', `${DESCRIPTION.toUpperCase()}  `))
+      .toBe(fingerprint);
+    expect(computeFingerprint(`The ${TITLE}`, DESCRIPTION)).toBe(fingerprint);
+  });
+
+  test('should differ for different technologies', () => {
+    expect(computeFingerprint('CRISPR Delivery Vector', DESCRIPTION))
+      .not.toBe(computeFingerprint(TITLE, DESCRIPTION));
+  });
+});
+
+describe('Content change detection', () => {
+  const stored = {
+    title: TITLE,
+    description: DESCRIPTION,
+    category: 'Energy',
+    country: 'US',
+    url: 'https://tto.example.edu/techs/123',
+    metadata: { patentStatus: 'pending', scrapedAt: new Date('2024-01-01') }
+  };
+
+  test('should ignore per-scrape metadata when hashing', () => {
+    const rescraped = {
+      ...stored,
+      metadata: { patentStatus: 'pending', scrapedAt: new Date('2024-02-01') }
+    };
+
+    expect(computeContentHash(rescraped)).toBe(computeContentHash(stored));
+    expect(diffTrackedFields(stored, rescraped)).toEqual({});
+  });
+
+  test('should report only the fields that changed', () => {
+    const rescraped = {
+      ...stored,
+      category: 'Materials',
+      metadata: { patentStatus: 'granted', scrapedAt: new Date('2024-02-01') }
+    };
+
+    expect(computeContentHash(rescraped)).not.toBe(computeContentHash(stored));
+    expect(diffTrackedFields(stored, rescraped)).toEqual({
+      category: { previous: 'Energy', current: 'Materials' },
+      metadata: {
+        previous: { patentStatus: 'pending' },
+        current: { patentStatus: 'granted' }
+      }
+    });
+  });
+});
\ No newline at end of file
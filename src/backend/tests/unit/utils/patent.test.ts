@@ -0,0 +1,98 @@
+/**
+ * @fileoverview Unit tests for patent number detection, normalization and IP status derivation
+ * @version 1.0.0
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  findPatentNumbers,
+  findOwnPatentNumbers,
+  normalizePatentNumber,
+  collectPatentIdentifiers,
+  derivePatentStatus
+} from '../../../src/utils/patent.util';
+
+describe('normalizePatentNumber', () => {
+  test('should map the ways a US grant is written to one identifier', () => {
+    const expected = { canonical: 'US10123456', jurisdiction: 'US', type: 'grant' };
+
+    expect(normalizePatentNumber('US 10,123,456 B2')).toEqual({ ...expected, kindCode: 'B2' });
+    expect(normalizePatentNumber('U.S. Patent No. 10123456')).toEqual({ ...expected, kindCode: null });
+    expect(normalizePatentNumber('US10123456B2')?.canonical).toBe('US10123456');
+  });
+
+  test('should normalize applications, publications and international filings', () => {
+    expect(normalizePatentNumber('U.S. Patent Application No. 16/123,456')?.canonical).toBe('US16/123456');
+    expect(normalizePatentNumber('US 2020/0123456 A1')).toMatchObject({ canonical: 'US2020/0123456', type: 'publication' });
+    expect(normalizePatentNumber('PCT/US20/12345')).toMatchObject({ canonical: 'PCT/US2020/012345', type: 'pct' });
+    expect(normalizePatentNumber('WO2021/123456')).toMatchObject({ canonical: 'WO2021/123456', type: 'publication' });
+    expect(normalizePatentNumber('EP 3 123 456 B1')).toMatchObject({ canonical: 'EP3123456', type: 'grant' });
+  });
+
+  test('should reject text that is not a patent number', () => {
+    expect(normalizePatentNumber('Patent pending')).toBeNull();
+    expect(normalizePatentNumber('Case 2021-045')).toBeNull();
+  });
+});
+
+describe('findPatentNumbers', () => {
+  test('should find numbers in order and skip repeats written differently', () => {
+    const text = 'Protected by US 10,123,456 B2 and PCT/US2020/012345. See also U.S. Patent No. 10123456.';
+
+    expect(findPatentNumbers(text)).toEqual(['US 10,123,456 B2', 'PCT/US2020/012345']);
+  });
+});
+
+describe('findOwnPatentNumbers', () => {
+  test('should take numbers introduced as the technology\'s own patents or applications', () => {
+    const text = 'A sorter for live cells. Protected by U.S. Patent No. 10,123,456; continuation ' +
+      'filed as U.S. Application No. 17/654,321.';
+
+    expect(findOwnPatentNumbers(text)).toEqual(['U.S. Patent No. 10,123,456', 'U.S. Application No. 17/654,321']);
+  });
+
+  test('should skip prior-art citations and numbers without IP wording', () => {
+    const text = 'Improves on the sorter of U.S. Patent No. 9,876,543. Unlike US 8,765,432 B1, it needs ' +
+      'no labels. Samples are coded US 10,123,456 in the lab.';
+
+    expect(findOwnPatentNumbers(text)).toEqual([]);
+  });
+});
+
+describe('collectPatentIdentifiers', () => {
+  test('should normalize scraped numbers once each and drop what is not a number', () => {
+    const identifiers = collectPatentIdentifiers(
+      ['US10123456', 'not a number', 'US 10,123,456 B2', 'WO 2021/123456 A1']
+    );
+
+    expect(identifiers.map(identifier => identifier.canonical)).toEqual(['US10123456', 'WO2021/123456']);
+  });
+
+  test('should add the description\'s own numbers but not the prior art it cites', () => {
+    const identifiers = collectPatentIdentifiers(
+      ['US10123456'],
+      ['Builds on U.S. Patent No. 9,876,543. A PCT application was filed as PCT/US2021/054321.']
+    );
+
+    expect(identifiers.map(identifier => identifier.canonical)).toEqual(['US10123456', 'PCT/US2021/054321']);
+  });
+});
+
+describe('derivePatentStatus', () => {
+  test('should report granted when any number is a grant', () => {
+    expect(derivePatentStatus(collectPatentIdentifiers(['PCT/US2020/012345', 'US 10,123,456 B2']))).toBe('granted');
+  });
+
+  test('should report pending for applications or pending wording', () => {
+    expect(derivePatentStatus(collectPatentIdentifiers(['US 2020/0123456 A1']))).toBe('pending');
+    expect(derivePatentStatus([], 'A provisional patent application has been filed.')).toBe('pending');
+  });
+
+  test('should ignore status wording in prior-art citations', () => {
+    expect(derivePatentStatus([], 'Unlike the patents issued for earlier sensors, it needs no calibration.')).toBe('unknown');
+  });
+
+  test('should report unknown without numbers or wording', () => {
+    expect(derivePatentStatus([], 'A low-cost sensor for soil moisture.')).toBe('unknown');
+  });
+});
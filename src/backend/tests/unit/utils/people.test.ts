@@ -0,0 +1,80 @@
+/**
+ * @fileoverview Unit tests for inventor and licensing contact extraction and name normalization
+ * @version 1.0.0
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  findContacts,
+  splitPersonNames,
+  normalizePersonName,
+  personNameKey,
+  collectPeople
+} from '../../../src/utils/people.util';
+
+describe('splitPersonNames', () => {
+  test('should split inventor lists and drop titles and degrees', () => {
+    expect(splitPersonNames('Dr. Jane Doe, PhD; John Smith')).toEqual(['Jane Doe', 'John Smith']);
+    expect(splitPersonNames('Alice Wong, Bob Lee and Carol King & Dan Ito')).toEqual(
+      ['Alice Wong', 'Bob Lee', 'Carol King', 'Dan Ito']
+    );
+  });
+
+  test('should keep names written "Last, First" together', () => {
+    expect(splitPersonNames('Doe, Jane; García, José A.')).toEqual(['Jane Doe', 'José A. García']);
+  });
+});
+
+describe('personNameKey', () => {
+  test('should match the ways one name is written', () => {
+    expect(personNameKey('Dr. José A. García')).toBe('jose garcia');
+    expect(personNameKey('Garcia, Jose')).toBe('jose garcia');
+    expect(normalizePersonName('Prof. Jane Doe, PhD')).toBe('Jane Doe');
+  });
+});
+
+describe('findContacts', () => {
+  test('should read names and phones next to each email without mixing contacts', () => {
+    const lines = [
+      'Jane Doe',
+      'Licensing Manager',
+      'jdoe@university.edu',
+      '(555) 123-4567',
+      'Bob Lee, Senior Licensing Associate | blee@university.edu | 555.987.6543',
+      'techtransfer@university.edu'
+    ];
+
+    expect(findContacts(lines)).toEqual([
+      { name: 'Jane Doe', email: 'jdoe@university.edu', phone: '(555) 123-4567' },
+      { name: 'Bob Lee', email: 'blee@university.edu', phone: '555.987.6543' },
+      { name: null, email: 'techtransfer@university.edu', phone: null }
+    ]);
+  });
+});
+
+describe('collectPeople', () => {
+  test('should deduplicate inventors and contacts from every source', () => {
+    const people = collectPeople({
+      inventors: ['Dr. Jane Doe', 'Doe, Jane; Smith, John'],
+      contacts: [{ name: 'Alex Kim', email: 'AKim@university.edu', phone: null }],
+      metadata: { contacts: [{ name: null, email: 'akim@university.edu', phone: '555-111-2222' }] },
+      contactInfo: 'Contact: Alex Kim | akim@university.edu | 555-111-2222'
+    });
+
+    expect(people).toEqual([
+      { name: 'Jane Doe', nameKey: 'jane doe', email: null, phone: null, role: 'inventor' },
+      { name: 'John Smith', nameKey: 'john smith', email: null, phone: null, role: 'inventor' },
+      {
+        name: 'Alex Kim',
+        nameKey: 'alex kim',
+        email: 'akim@university.edu',
+        phone: '555-111-2222',
+        role: 'licensing_contact'
+      }
+    ]);
+  });
+
+  test('should leave out contacts without a name', () => {
+    expect(collectPeople({ contactInfo: 'Email: techtransfer@university.edu' })).toEqual([]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Unit tests for saved search digest scheduling and alert wording
+ * @version 1.0.0
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { describeAlert, nextDigestAt, renderAlertEmail, AlertContent } from '../../../src/utils/savedSearch.util';
+import { SAVED_SEARCH_ALERTS } from '../../../src/constants/savedSearch.constants';
+
+const match = (n: number) => ({
+  technologyId: `tech-${n}`,
+  title: `Glucose sensor ${n}`,
+  institution: 'Stanford University',
+  url: `https://techfinder.stanford.edu/${n}`,
+  matchedAt: new Date('2024-03-10T12:00:00.000Z')
+});
+
+const content = (total: number, overrides: Partial<AlertContent> = {}): AlertContent => ({
+  name: 'Glucose <sensors>',
+  query: 'glucose sensor',
+  matches: Array.from({ length: Math.min(total, SAVED_SEARCH_ALERTS.MAX_DIGEST_ITEMS) }, (_, i) => match(i + 1)),
+  total,
+  unsubscribeUrl: 'http://localhost:3000/api/v1/search/saved/unsubscribe/token',
+  ...overrides
+});
+
+describe('nextDigestAt', () => {
+  test('should not schedule digests for instant alerts', () => {
+    expect(nextDigestAt('instant', new Date('2024-03-10T12:00:00.000Z'))).toBeNull();
+  });
+
+  test('should schedule daily digests for the digest hour today or tomorrow', () => {
+    const hour = String(SAVED_SEARCH_ALERTS.DIGEST_HOUR_UTC).padStart(2, '0');
+
+    expect(nextDigestAt('daily', new Date('2024-03-10T00:30:00.000Z'))?.toISOString())
+      .toBe(`2024-03-10T${hour}:00:00.000Z`);
+    expect(nextDigestAt('daily', new Date(`2024-03-10T${hour}:00:00.000Z`))?.toISOString())
+      .toBe(`2024-03-11T${hour}:00:00.000Z`);
+  });
+
+  test('should schedule weekly digests for the next digest day', () => {
+    const from = new Date('2024-03-10T12:00:00.000Z'); // a Sunday
+    const next = nextDigestAt('weekly', from) as Date;
+
+    expect(next.getUTCDay()).toBe(SAVED_SEARCH_ALERTS.WEEKLY_DIGEST_DAY);
+    expect(next.getUTCHours()).toBe(SAVED_SEARCH_ALERTS.DIGEST_HOUR_UTC);
+    expect(next.getTime()).toBeGreaterThan(from.getTime());
+    expect(next.getTime() - from.getTime()).toBeLessThanOrEqual(7 * 86400000);
+    expect(nextDigestAt('weekly', next)?.getTime()).toBe(next.getTime() + 7 * 86400000);
+  });
+});
+
+describe('renderAlertEmail', () => {
+  test('should list matches with links, escape HTML and add unsubscribe headers', () => {
+    const email = renderAlertEmail(content(2));
+
+    expect(email.subject).toBe('2 new technologies match "Glucose <sensors>"');
+    expect(email.text).toContain('- Glucose sensor 1 (Stanford University)\n  https://techfinder.stanford.edu/1');
+    expect(email.text).toContain('Unsubscribe from these alerts: http://localhost:3000/api/v1/search/saved/unsubscribe/token');
+    expect(email.html).toContain('Glucose &lt;sensors&gt;');
+    expect(email.html).not.toContain('<sensors>');
+    expect(email.headers).toEqual({
+      'List-Unsubscribe': '<http://localhost:3000/api/v1/search/saved/unsubscribe/token>',
+      'List-Unsubscribe-Post': 'List-Unsubscribe=One-Click'
+    });
+  });
+
+  test('should summarize matches beyond the listed ones as a count', () => {
+    const total = SAVED_SEARCH_ALERTS.MAX_DIGEST_ITEMS + 5;
+
+    const email = renderAlertEmail(content(total));
+
+    expect(email.text).toContain('...and 5 more.');
+    expect(email.text.match(/^- /gm)).toHaveLength(SAVED_SEARCH_ALERTS.MAX_DIGEST_ITEMS);
+  });
+});
+
+describe('describeAlert', () => {
+  test('should name the first matches in the notification', () => {
+    expect(describeAlert(content(1))).toEqual({
+      title: 'New matches for "Glucose <sensors>"',
+      body: '1 new technology matches your saved search: Glucose sensor 1.'
+    });
+    expect(describeAlert(content(5)).body)
+      .toBe('5 new technologies match your saved search: Glucose sensor 1, Glucose sensor 2, Glucose sensor 3 and 2 more.');
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * @fileoverview Unit tests for search result snippet generation
+ * @version 1.0.0
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { generateSnippet, stripTags } from '../../../src/utils/snippet.util';
+
+const OPTIONS = { maxLength: 120, preTag: '<mark>', postTag: '</mark>' };
+
+const DESCRIPTION = 'This invention relates to wearable devices. A transdermal patch measures glucose ' +
+  'levels continuously without needles. The patch uses microfluidic sensors. Manufacturing is ' +
+  'low cost and scales to consumer markets.';
+
+describe('generateSnippet', () => {
+  test('should prefer the fragment that matched the most distinct terms', () => {
+    const snippet = generateSnippet(DESCRIPTION, [
+      'A transdermal patch measures <mark>glucose</mark> levels continuously',
+      'The patch uses <mark>microfluidic</mark> <mark>sensors</mark>.'
+    ], 'glucose microfluidic sensors', OPTIONS);
+
+    expect(snippet).toBe('…The patch uses <mark>microfluidic</mark> <mark>sensors</mark>.…');
+  });
+
+  test('should highlight query words in the best sentences when nothing was highlighted', () => {
+    const snippet = generateSnippet(DESCRIPTION, [], 'microfluidic sensor', OPTIONS);
+
+    expect(snippet).toContain('uses <mark>microfluidic</mark> <mark>sensors</mark>.');
+    expect(snippet?.startsWith('…')).toBe(true);
+    expect(stripTags(snippet as string, OPTIONS).length).toBeLessThanOrEqual(OPTIONS.maxLength + 2);
+  });
+
+  test('should cut a long sentence around its first match', () => {
+    const text = `${'word '.repeat(100)}glucose sensing ${'tail '.repeat(100)}`;
+
+    const snippet = generateSnippet(text, [], 'glucose', OPTIONS) as string;
+
+    expect(snippet).toMatch(/^….*<mark>glucose<\/mark> sensing.*…$/);
+    expect(stripTags(snippet, OPTIONS).length).toBeLessThanOrEqual(OPTIONS.maxLength + 2);
+  });
+
+  test('should start from the beginning when no query word appears', () => {
+    expect(generateSnippet(DESCRIPTION, [], 'battery', OPTIONS)).toBe(
+      'This invention relates to wearable devices. A transdermal patch measures glucose levels continuously without needles.…'
+    );
+  });
+
+  test('should return null for empty text', () => {
+    expect(generateSnippet('  ', [], 'glucose', OPTIONS)).toBeNull();
+    expect(generateSnippet(null, [], 'glucose', OPTIONS)).toBeNull();
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Unit tests for typeahead suggestion inputs and popularity ranking
+ * @version 1.0.0
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildSuggestInputs,
+  normalizeQueryText,
+  rankSuggestions
+} from '../../../src/utils/suggestion.util';
+import { SearchDocument, Suggestion } from '../../../src/interfaces/search.interface';
+
+const document = (overrides: Partial<SearchDocument> = {}): SearchDocument => ({
+  title: 'Non-invasive glucose monitor',
+  description: 'Transdermal sensing patch',
+  institution: 'Stanford University',
+  category: 'Medical Devices',
+  subcategory: 'Diagnostics',
+  taxonomyId: 'medical-devices.diagnostics',
+  sourceCategory: null,
+  language: 'en',
+  localized: null,
+  translations: null,
+  country: 'US',
+  patentNumbers: [],
+  patentStatus: 'pending',
+  patentFamilyId: null,
+  inventorIds: ['person-1', 'person-2'],
+  inventorNames: ['Jane Doe', 'John Smith'],
+  licensingContactIds: [],
+  licensingContactNames: [],
+  active: true,
+  withdrawnAt: null,
+  withdrawnReason: null,
+  discoveredAt: new Date('2024-01-01T00:00:00.000Z'),
+  updatedAt: new Date('2024-01-01T00:00:00.000Z'),
+  ...overrides
+});
+
+const suggestion = (type: Suggestion['type'], text: string, score: number): Suggestion => ({ type, text, score });
+
+describe('normalizeQueryText', () => {
+  test('should count differently typed searches as one text', () => {
+    expect(normalizeQueryText('  Glucose   MONITOR ')).toBe('glucose monitor');
+  });
+});
+
+describe('buildSuggestInputs', () => {
+  test('should add an input per type, with titles also starting from later words', () => {
+    const inputs = buildSuggestInputs(document(), 4);
+
+    expect(inputs).toEqual([
+      {
+        input: ['Non-invasive glucose monitor', 'glucose monitor', 'monitor'],
+        contexts: { type: ['title'] }
+      },
+      { input: ['Stanford University'], contexts: { type: ['institution'] } },
+      { input: ['Medical Devices', 'Diagnostics'], contexts: { type: ['category'] } },
+      { input: ['Jane Doe', 'John Smith'], contexts: { type: ['inventor'] } }
+    ]);
+  });
+
+  test('should suggest the translated title of a foreign-language technology', () => {
+    const inputs = buildSuggestInputs(document({
+      title: 'Neuartige Batterie',
+      translations: {
+        sourceLanguage: 'de',
+        targetLanguage: 'en',
+        title: 'Novel battery',
+        description: null,
+        provider: 'local',
+        translatedAt: '2024-01-01T00:00:00.000Z'
+      }
+    }), 0);
+
+    expect(inputs[0].input).toEqual(['Neuartige Batterie', 'Novel battery']);
+  });
+
+  test('should stop suggesting withdrawn titles and skip unclassified categories', () => {
+    const inputs = buildSuggestInputs(document({
+      active: false,
+      category: 'Unclassified',
+      subcategory: null,
+      inventorNames: []
+    }), 4);
+
+    expect(inputs).toEqual([
+      { input: ['Stanford University'], contexts: { type: ['institution'] } }
+    ]);
+  });
+});
+
+describe('rankSuggestions', () => {
+  const options = { types: ['title', 'institution', 'category', 'inventor'] as const, size: 2, popularityWeight: 0.5 };
+
+  test('should lift often searched texts above slightly better completion matches', () => {
+    const groups = rankSuggestions([
+      suggestion('title', 'Glucose sensor', 10),
+      suggestion('title', 'Glucose monitor', 8)
+    ], new Map([['glucose monitor', 20]]), options);
+
+    expect(groups[0].suggestions.map(item => item.text)).toEqual(['Glucose monitor', 'Glucose sensor']);
+    expect(groups[0].suggestions[0].score).toBeCloseTo(8 * (1 + 0.5 * Math.log1p(20)));
+  });
+
+  test('should group by type in order, dropping repeats and empty types', () => {
+    const groups = rankSuggestions([
+      suggestion('inventor', 'Jane Doe', 3),
+      suggestion('title', 'Glucose monitor', 5),
+      suggestion('title', 'glucose  monitor', 4),
+      suggestion('title', 'Glucose sensor', 2),
+      suggestion('title', 'Glucose meter', 1)
+    ], new Map(), options);
+
+    expect(groups).toEqual([
+      {
+        type: 'title',
+        suggestions: [suggestion('title', 'Glucose monitor', 5), suggestion('title', 'Glucose sensor', 2)]
+      },
+      { type: 'inventor', suggestions: [suggestion('inventor', 'Jane Doe', 3)] }
+    ]);
+  });
+});
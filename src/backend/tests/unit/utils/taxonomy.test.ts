@@ -0,0 +1,94 @@
+/**
+ * @fileoverview Unit tests for technology taxonomy classification
+ * @version 1.0.0
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  listTaxonomy,
+  resolveTaxonomyId,
+  classifyByKeywords,
+  classifyTechnology,
+  TaxonomyPredictor
+} from '../../../src/utils/taxonomy.util';
+
+const predicting = (taxonomyId: string, confidence: number): TaxonomyPredictor => ({
+  predict: () => [{ taxonomyId, confidence }, { taxonomyId: 'unclassified', confidence: 1 - confidence }]
+});
+
+describe('resolveTaxonomyId', () => {
+  test('should resolve categories and subcategories to their labels', () => {
+    expect(resolveTaxonomyId('energy.storage')).toEqual({
+      taxonomyId: 'energy.storage',
+      category: 'Energy',
+      subcategory: 'Storage',
+      source: 'manual',
+      confidence: null
+    });
+    expect(resolveTaxonomyId('therapeutics')?.subcategory).toBeNull();
+  });
+
+  test('should reject ids outside the taxonomy', () => {
+    expect(resolveTaxonomyId('energy.fusion')).toBeNull();
+    expect(resolveTaxonomyId('energy.storage.lithium')).toBeNull();
+    expect(listTaxonomy().find(node => node.id === 'energy')?.children.map(child => child.id))
+      .toContain('energy.storage');
+  });
+});
+
+describe('classifyByKeywords', () => {
+  test('should place technologies in the best scoring subcategory', () => {
+    const classification = classifyByKeywords({
+      title: 'Solid-State Lithium Battery with Ceramic Electrolyte',
+      description: 'A rechargeable battery offering higher energy density.',
+      sourceCategory: 'Physical Sciences'
+    });
+
+    expect(classification?.taxonomyId).toBe('energy.storage');
+    expect(classification?.source).toBe('rules');
+  });
+
+  test('should weigh the source category and title above the description', () => {
+    const classification = classifyByKeywords({
+      title: 'Small Molecule Inhibitors of KRAS',
+      description: 'Compounds identified by screening a chemical library.',
+      sourceCategory: 'Therapeutics'
+    });
+
+    expect(classification).toMatchObject({ category: 'Therapeutics', subcategory: 'Small Molecules' });
+  });
+
+  test('should leave technologies without enough evidence unplaced', () => {
+    expect(classifyByKeywords({ title: 'Improved Widget', description: 'A better widget.' })).toBeNull();
+  });
+});
+
+describe('classifyTechnology', () => {
+  const vague = { title: 'Novel Platform', description: 'A new approach.', sourceCategory: null };
+
+  test('should fall back to a confident model prediction', () => {
+    expect(classifyTechnology(vague, predicting('computing.ai_ml', 0.8))).toMatchObject({
+      taxonomyId: 'computing.ai_ml',
+      source: 'model',
+      confidence: 0.8
+    });
+  });
+
+  test('should ignore unconfident predictions and mark the technology unclassified', () => {
+    expect(classifyTechnology(vague, predicting('computing.ai_ml', 0.4))).toMatchObject({
+      taxonomyId: 'unclassified',
+      category: 'Unclassified',
+      source: 'none'
+    });
+  });
+
+  test('should only refine a rule category with a model prediction inside it', () => {
+    const input = { title: 'Renewable Energy Harvesting', description: 'Power for remote sites.' };
+
+    expect(classifyTechnology(input, predicting('energy.solar', 0.9)).taxonomyId).toBe('energy.solar');
+    expect(classifyTechnology(input, predicting('materials.polymers', 0.9))).toMatchObject({
+      taxonomyId: 'energy',
+      source: 'rules'
+    });
+  });
+});
@@ -0,0 +1,403 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns'; // ^2.30.0
+
+import Card from '../common/Card';
+import Button from '../common/Button';
+import Input from '../common/Input';
+import Modal from '../common/Modal';
+import Pagination from '../common/Pagination';
+import { Select } from '../common/Select';
+import { TextArea } from '../common/TextArea';
+import { Table, type TableColumn } from '../common/Table';
+import { MonitoringService } from '../../services/monitoring.service';
+import useDebounce from '../../hooks/useDebounce';
+import type {
+  DeadLetterEntry,
+  DeadLetterFilters,
+  DeadLetterReplayResult,
+  DeadLetterStatus
+} from '../../interfaces/monitoring.interface';
+
+/**
+ * Props interface for the DeadLetterQueue component
+ */
+interface DeadLetterQueueProps {
+  className?: string;
+  pageSize?: number;
+  canReplay?: boolean;
+  canPurge?: boolean;
+}
+
+// Scraper error classifications offered as filters
+const ERROR_TYPE_OPTIONS = [
+  { value: '', label: 'All error types' },
+  { value: 'network_timeout', label: 'Network timeout' },
+  { value: 'rate_limited', label: 'Rate limited' },
+  { value: 'parse_error', label: 'Parse error' },
+  { value: 'auth_error', label: 'Authentication' },
+  { value: 'validation_error', label: 'Validation' },
+  { value: 'robots_disallowed', label: 'robots.txt disallowed' },
+  { value: 'queue_rejected', label: 'Rejected by queue' }
+];
+
+const STATUS_OPTIONS = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'replayed', label: 'Replayed' },
+  { value: '', label: 'All' }
+];
+
+/**
+ * Summarizes a replay or purge outcome for the status line
+ */
+const describeReplay = (result: DeadLetterReplayResult): string => {
+  const failures = result.failed.map(failure => failure.reason).join('; ');
+  return result.failed.length > 0
+    ? `Replayed ${result.replayed.length}, failed ${result.failed.length}: ${failures}`
+    : `Replayed ${result.replayed.length} job${result.replayed.length === 1 ? '' : 's'}`;
+};
+
+/**
+ * Custom hook for loading dead-letter entries and acting on them
+ */
+const useDeadLetters = (filters: DeadLetterFilters, page: number, pageSize: number) => {
+  const [entries, setEntries] = useState<DeadLetterEntry[]>([]);
+  const [total, setTotal] = useState<number>(0);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [busy, setBusy] = useState<boolean>(false);
+  const [error, setError] = useState<Error | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const monitoringService = useMemo(() => new MonitoringService(), []);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const result = await monitoringService.getDeadLetters(filters, page, pageSize);
+      setEntries(result.data);
+      setTotal(result.pagination.total);
+      setError(null);
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [monitoringService, filters, page, pageSize]);
+
+  const run = useCallback(async (action: () => Promise<string>) => {
+    setBusy(true);
+    try {
+      setNotice(await action());
+      setError(null);
+      await fetchEntries();
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setBusy(false);
+    }
+  }, [fetchEntries]);
+
+  const replay = useCallback((ids: string[]) => run(async () =>
+    describeReplay(await monitoringService.replayDeadLetters(ids))
+  ), [run, monitoringService]);
+
+  const replayWithConfig = useCallback((id: string, config: Record<string, unknown>) => run(async () =>
+    describeReplay(await monitoringService.replayDeadLetter(id, config))
+  ), [run, monitoringService]);
+
+  const purge = useCallback((ids: string[]) => run(async () => {
+    const removed = await monitoringService.purgeDeadLetters(ids);
+    return `Purged ${removed} job${removed === 1 ? '' : 's'}`;
+  }), [run, monitoringService]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  return { entries, total, loading, busy, error, notice, replay, replayWithConfig, purge };
+};
+
+/**
+ * DeadLetterQueue Component
+ * Lists failed scraper jobs from the dead-letter queue with replay and purge controls
+ */
+const DeadLetterQueue: React.FC<DeadLetterQueueProps> = ({
+  className,
+  pageSize = 25,
+  canReplay = false,
+  canPurge = false
+}) => {
+  const [institutionId, setInstitutionId] = useState<string>('');
+  const [errorType, setErrorType] = useState<string>('');
+  const [status, setStatus] = useState<string>('pending');
+  const [page, setPage] = useState<number>(1);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [editing, setEditing] = useState<DeadLetterEntry | null>(null);
+  const [configText, setConfigText] = useState<string>('');
+  const [configError, setConfigError] = useState<string | undefined>();
+
+  const debouncedInstitutionId = useDebounce(institutionId, 400);
+  const filters = useMemo<DeadLetterFilters>(() => ({
+    institutionId: debouncedInstitutionId.trim() || undefined,
+    errorType: errorType || undefined,
+    status: (status || undefined) as DeadLetterStatus | undefined
+  }), [debouncedInstitutionId, errorType, status]);
+
+  const {
+    entries,
+    total,
+    loading,
+    busy,
+    error,
+    notice,
+    replay,
+    replayWithConfig,
+    purge
+  } = useDeadLetters(filters, page, pageSize);
+
+  // Selections and paging refer to the previous result set once filters change
+  useEffect(() => {
+    setPage(1);
+  }, [filters]);
+
+  useEffect(() => {
+    setSelected([]);
+  }, [entries]);
+
+  const toggleSelected = useCallback((id: string) => {
+    setSelected(prev => prev.includes(id) ? prev.filter(item => item !== id) : [...prev, id]);
+  }, []);
+
+  const openEditor = useCallback((entry: DeadLetterEntry) => {
+    setEditing(entry);
+    setConfigText(JSON.stringify(entry.job.config ?? {}, null, 2));
+    setConfigError(undefined);
+  }, []);
+
+  const submitEdited = useCallback(async () => {
+    if (!editing) return;
+
+    let config: Record<string, unknown>;
+    try {
+      config = JSON.parse(configText);
+    } catch {
+      setConfigError('Config must be valid JSON');
+      return;
+    }
+    if (typeof config !== 'object' || config === null || Array.isArray(config)) {
+      setConfigError('Config must be a JSON object');
+      return;
+    }
+
+    setEditing(null);
+    await replayWithConfig(editing.id, config);
+  }, [editing, configText, replayWithConfig]);
+
+  const columns: TableColumn<DeadLetterEntry>[] = [
+    {
+      key: 'deadLetteredAt',
+      title: 'Failed',
+      width: '150px',
+      render: (_, entry) => format(new Date(entry.deadLetteredAt), 'yyyy-MM-dd HH:mm')
+    },
+    {
+      key: 'institutionType',
+      title: 'Institution',
+      width: '160px',
+      render: (_, entry) => entry.institutionId || entry.institutionType
+    },
+    {
+      key: 'errorType',
+      title: 'Error',
+      render: (_, entry) => (
+        <div>
+          <span className="font-medium">{entry.errorType}</span>
+          <span className="text-text-color-light"> · attempt {entry.error.retryAttempt}</span>
+          <div className="text-sm">{entry.error.message}</div>
+          <div className="text-sm text-text-color-light break-all">{entry.url}</div>
+          {entry.error.recoverySuggestions.length > 0 && (
+            <ul className="text-sm text-text-color-light list-disc ml-4">
+              {entry.error.recoverySuggestions.map(suggestion => (
+                <li key={suggestion}>{suggestion}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )
+    },
+    {
+      key: 'status',
+      title: 'Status',
+      width: '120px',
+      render: (_, entry) => entry.status === 'replayed'
+        ? `Replayed ×${entry.replayCount}`
+        : 'Pending'
+    }
+  ];
+
+  if (canReplay || canPurge) {
+    columns.unshift({
+      key: 'id',
+      title: '',
+      width: '40px',
+      render: (_, entry) => (
+        <input
+          type="checkbox"
+          checked={selected.includes(entry.id)}
+          onChange={() => toggleSelected(entry.id)}
+          aria-label={`Select failed job ${entry.jobId}`}
+        />
+      )
+    });
+  }
+
+  if (canReplay) {
+    columns.push({
+      key: 'actions',
+      title: '',
+      width: '200px',
+      render: (_, entry) => (
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={busy}
+            onClick={() => replay([entry.id])}
+            ariaLabel={`Replay failed job ${entry.jobId}`}
+          >
+            Replay
+          </Button>
+          <Button
+            variant="text"
+            size="sm"
+            disabled={busy}
+            onClick={() => openEditor(entry)}
+            ariaLabel={`Edit config and replay failed job ${entry.jobId}`}
+          >
+            Edit & replay
+          </Button>
+        </div>
+      )
+    });
+  }
+
+  return (
+    <Card
+      className={className}
+      variant="default"
+      header={
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-medium">Dead-Letter Queue</h3>
+          <span className="text-sm text-text-color-light">
+            {total} failed job{total === 1 ? '' : 's'}
+          </span>
+        </div>
+      }
+    >
+      <div className="flex flex-wrap gap-4 items-end mb-4">
+        <Input
+          id="dlq-institution"
+          name="institutionId"
+          type="text"
+          label="Institution ID"
+          value={institutionId}
+          onChange={setInstitutionId}
+        />
+        <Select
+          id="dlq-error-type"
+          name="errorType"
+          options={ERROR_TYPE_OPTIONS}
+          value={errorType}
+          onChange={setErrorType}
+          ariaLabel="Filter by error type"
+        />
+        <Select
+          id="dlq-status"
+          name="status"
+          options={STATUS_OPTIONS}
+          value={status}
+          onChange={setStatus}
+          ariaLabel="Filter by status"
+        />
+        {canReplay && (
+          <Button
+            variant="primary"
+            size="sm"
+            disabled={busy || selected.length === 0}
+            onClick={() => replay(selected)}
+          >
+            Replay selected
+          </Button>
+        )}
+        {canPurge && (
+          <Button
+            variant="secondary"
+            size="sm"
+            disabled={busy || selected.length === 0}
+            onClick={() => purge(selected)}
+          >
+            Purge selected
+          </Button>
+        )}
+      </div>
+
+      {error && (
+        <div className="py-4 px-3 bg-error-color bg-opacity-10 rounded-md text-error-color text-sm">
+          Dead-letter queue request failed: {error.message}
+        </div>
+      )}
+
+      {notice && !error && (
+        <div className="py-2 text-sm text-text-color-light" role="status">
+          {notice}
+        </div>
+      )}
+
+      {!loading && !error && entries.length === 0 ? (
+        <div className="py-8 text-center text-text-color-light">
+          No failed jobs match these filters.
+        </div>
+      ) : (
+        <Table<DeadLetterEntry>
+          columns={columns}
+          data={entries}
+          loading={loading}
+          ariaLabel="Dead-lettered scraper jobs"
+        />
+      )}
+
+      {total > pageSize && (
+        <Pagination
+          currentPage={page}
+          totalItems={total}
+          pageSize={pageSize}
+          onPageChange={setPage}
+          isLoading={loading}
+        />
+      )}
+
+      <Modal
+        isOpen={editing !== null}
+        onClose={() => setEditing(null)}
+        title={editing ? `Replay ${editing.jobId}` : undefined}
+        size="lg"
+        footer={
+          <div className="flex justify-end gap-2">
+            <Button variant="text" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button variant="primary" onClick={submitEdited}>Replay with config</Button>
+          </div>
+        }
+      >
+        <TextArea
+          name="config"
+          label="Scraper config (merged over the original)"
+          value={configText}
+          onChange={(e) => setConfigText(e.target.value)}
+          error={configError}
+          rows={14}
+        />
+      </Modal>
+    </Card>
+  );
+};
+
+export default DeadLetterQueue;
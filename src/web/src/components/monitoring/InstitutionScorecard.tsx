@@ -0,0 +1,205 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns'; // ^2.30.0
+
+import Card from '../common/Card';
+import { Table, type TableColumn } from '../common/Table';
+import { MonitoringService } from '../../services/monitoring.service';
+import type {
+  InstitutionHealthStatus,
+  InstitutionScorecardEntry
+} from '../../interfaces/monitoring.interface';
+
+/**
+ * Props interface for the InstitutionScorecard component
+ */
+interface InstitutionScorecardProps {
+  className?: string;
+  refreshInterval?: number;
+}
+
+const STATUS_FILTERS: Array<{ value: InstitutionHealthStatus | ''; label: string }> = [
+  { value: '', label: 'All institutions' },
+  { value: 'failing', label: 'Failing' },
+  { value: 'degraded', label: 'Degraded' },
+  { value: 'healthy', label: 'Healthy' }
+];
+
+const STATUS_CLASSES: Record<InstitutionHealthStatus, string> = {
+  healthy: 'text-success-color',
+  degraded: 'text-warning-color',
+  failing: 'text-error-color',
+  unknown: 'text-text-color-light'
+};
+
+/**
+ * Custom hook for loading the institution health scorecard
+ */
+const useInstitutionScorecard = (refreshInterval: number, status: InstitutionHealthStatus | '') => {
+  const [entries, setEntries] = useState<InstitutionScorecardEntry[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const monitoringService = useMemo(() => new MonitoringService(), []);
+
+  const fetchScorecard = useCallback(async () => {
+    try {
+      setEntries(await monitoringService.getInstitutionScorecard(status || undefined));
+      setError(null);
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [monitoringService, status]);
+
+  useEffect(() => {
+    fetchScorecard();
+    const interval = setInterval(fetchScorecard, refreshInterval);
+    return () => clearInterval(interval);
+  }, [fetchScorecard, refreshInterval]);
+
+  return { entries, loading, error };
+};
+
+const formatDuration = (ms: number): string => {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+/**
+ * InstitutionScorecard Component
+ * Ranks institutions by the rolling health score of their scrape runs, worst first, so
+ * degrading sources stand out among the hundreds being scraped
+ */
+const InstitutionScorecard: React.FC<InstitutionScorecardProps> = ({
+  className,
+  refreshInterval = 300000
+}) => {
+  const [status, setStatus] = useState<InstitutionHealthStatus | ''>('');
+  const { entries, loading, error } = useInstitutionScorecard(refreshInterval, status);
+
+  const columns: TableColumn<InstitutionScorecardEntry>[] = [
+    {
+      key: 'institutionName',
+      title: 'Institution',
+      render: (_, entry) => (
+        <div>
+          <div className="font-medium">{entry.institutionName || entry.institutionId}</div>
+          <div className="text-sm text-text-color-light">{entry.institutionType}</div>
+        </div>
+      )
+    },
+    {
+      key: 'health',
+      title: 'Health',
+      width: '150px',
+      render: (_, entry) => {
+        const trend = entry.previousScore === null ? 0 : entry.health.score - entry.previousScore;
+        return (
+          <div>
+            <span className={`font-medium ${STATUS_CLASSES[entry.health.status]}`}>
+              {entry.health.score}
+            </span>
+            {trend !== 0 && (
+              <span className={`text-sm ${trend < 0 ? 'text-error-color' : 'text-success-color'}`}>
+                {' '}{trend > 0 ? '▲' : '▼'} {Math.abs(trend)}
+              </span>
+            )}
+            <div className="text-sm text-text-color-light capitalize">{entry.health.status}</div>
+          </div>
+        );
+      }
+    },
+    {
+      key: 'lastRunAt',
+      title: 'Last Run',
+      render: (_, entry) => (
+        <div>
+          <span className={entry.lastRunStatus === 'completed' ? undefined : 'text-error-color'}>
+            {entry.lastRunStatus}
+          </span>{' '}
+          {formatDistanceToNow(new Date(entry.lastRunAt), { addSuffix: true })}
+          <div className="text-sm text-text-color-light">
+            {formatDuration(entry.durationMs)} · last success{' '}
+            {entry.lastSuccessAt
+              ? formatDistanceToNow(new Date(entry.lastSuccessAt), { addSuffix: true })
+              : 'never'}
+          </div>
+        </div>
+      )
+    },
+    {
+      key: 'items',
+      title: 'Items',
+      render: (_, entry) => (
+        <div>
+          {entry.items.found} found
+          <div className="text-sm text-text-color-light">
+            {entry.items.new} new · {entry.items.updated} updated · {entry.items.removed} removed
+            {entry.items.withdrawn > 0 && <> · {entry.items.withdrawn} withdrawn</>}
+            {entry.items.failed > 0 && <> · <span className="text-error-color">{entry.items.failed} failed</span></>}
+          </div>
+        </div>
+      )
+    },
+    {
+      key: 'errorsByType',
+      title: 'Errors',
+      render: (_, entry) => {
+        const errors = Object.entries(entry.errorsByType);
+        return errors.length === 0 ? (
+          <span className="text-sm text-text-color-light">None</span>
+        ) : (
+          <ul className="text-sm">
+            {errors.map(([type, count]) => (
+              <li key={type}>{type}: {count}</li>
+            ))}
+          </ul>
+        );
+      }
+    }
+  ];
+
+  return (
+    <Card
+      className={className}
+      variant="default"
+      header={
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-medium">Institution Health</h3>
+          <select
+            value={status}
+            onChange={(e) => setStatus(e.target.value as InstitutionHealthStatus | '')}
+            className="border rounded p-2 text-sm"
+            aria-label="Filter institutions by health"
+          >
+            {STATUS_FILTERS.map(filter => (
+              <option key={filter.value} value={filter.value}>{filter.label}</option>
+            ))}
+          </select>
+        </div>
+      }
+    >
+      {error && (
+        <div className="py-4 px-3 bg-error-color bg-opacity-10 rounded-md text-error-color text-sm">
+          Error loading institution health: {error.message}
+        </div>
+      )}
+
+      {!loading && !error && entries.length === 0 ? (
+        <div className="py-8 text-center text-text-color-light">
+          No finished scrape runs to score yet.
+        </div>
+      ) : (
+        <Table<InstitutionScorecardEntry>
+          columns={columns}
+          data={entries}
+          loading={loading}
+          ariaLabel="Institution health scorecard"
+        />
+      )}
+    </Card>
+  );
+};
+
+export default InstitutionScorecard;
@@ -0,0 +1,164 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns'; // ^2.30.0
+
+import Card from '../common/Card';
+import { Table, type TableColumn } from '../common/Table';
+import { MonitoringService } from '../../services/monitoring.service';
+import type { ProxyHealth, ProxyPoolHealth as PoolHealth } from '../../interfaces/monitoring.interface';
+
+/**
+ * Props interface for the ProxyPoolHealth component
+ */
+interface ProxyPoolHealthProps {
+  className?: string;
+  refreshInterval?: number;
+}
+
+/**
+ * Custom hook for loading the proxy pool health
+ */
+const useProxyPoolHealth = (refreshInterval: number) => {
+  const [health, setHealth] = useState<PoolHealth | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  const monitoringService = useMemo(() => new MonitoringService(), []);
+
+  const fetchHealth = useCallback(async () => {
+    try {
+      setHealth(await monitoringService.getProxyPoolHealth());
+      setError(null);
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [monitoringService]);
+
+  useEffect(() => {
+    fetchHealth();
+    const interval = setInterval(fetchHealth, refreshInterval);
+    return () => clearInterval(interval);
+  }, [fetchHealth, refreshInterval]);
+
+  return { health, loading, error };
+};
+
+/**
+ * ProxyPoolHealth Component
+ * Shows each scraper proxy's success rate, latency and quarantine state, with active
+ * proxies per region so pinned international sites are not left without an exit
+ */
+const ProxyPoolHealth: React.FC<ProxyPoolHealthProps> = ({
+  className,
+  refreshInterval = 60000
+}) => {
+  const { health, loading, error } = useProxyPoolHealth(refreshInterval);
+
+  const columns: TableColumn<ProxyHealth>[] = [
+    {
+      key: 'url',
+      title: 'Proxy',
+      render: (_, proxy) => (
+        <div>
+          <div className="font-medium">{proxy.id}</div>
+          <div className="text-sm text-text-color-light">{proxy.region || 'Any region'}</div>
+        </div>
+      )
+    },
+    {
+      key: 'state',
+      title: 'State',
+      width: '180px',
+      render: (_, proxy) => (
+        <div>
+          <span className={proxy.state === 'active' ? 'text-success-color' : 'text-error-color'}>
+            {proxy.state === 'active' ? 'Active' : 'Quarantined'}
+          </span>
+          {proxy.quarantinedUntil && (
+            <div className="text-sm text-text-color-light">
+              until {formatDistanceToNow(new Date(proxy.quarantinedUntil), { addSuffix: true })}
+            </div>
+          )}
+        </div>
+      )
+    },
+    {
+      key: 'successRate',
+      title: 'Success',
+      render: (_, proxy) => (
+        <div>
+          {proxy.successRate === null ? '—' : `${Math.round(proxy.successRate * 100)}%`}
+          <div className="text-sm text-text-color-light">
+            {proxy.successes} ok · {proxy.failures} failed
+          </div>
+        </div>
+      )
+    },
+    {
+      key: 'latencyMs',
+      title: 'Latency',
+      render: (_, proxy) => (proxy.latencyMs === null ? '—' : `${proxy.latencyMs} ms`)
+    },
+    {
+      key: 'lastError',
+      title: 'Last Error',
+      render: (_, proxy) => (
+        <div className="text-sm">
+          {proxy.lastError || <span className="text-text-color-light">None</span>}
+          {proxy.lastUsedAt && (
+            <div className="text-text-color-light">
+              used {formatDistanceToNow(new Date(proxy.lastUsedAt), { addSuffix: true })}
+            </div>
+          )}
+        </div>
+      )
+    }
+  ];
+
+  return (
+    <Card
+      className={className}
+      variant="default"
+      header={
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-medium">Proxy Pool</h3>
+          {health?.enabled && (
+            <span className="text-sm text-text-color-light">
+              {health.active} of {health.total} active
+              {Object.entries(health.regions).map(([region, counts]) => (
+                <span
+                  key={region}
+                  className={counts.active === 0 ? 'text-error-color' : undefined}
+                >
+                  {' '}· {region === 'any' ? 'Any' : region} {counts.active}/{counts.total}
+                </span>
+              ))}
+            </span>
+          )}
+        </div>
+      }
+    >
+      {error && (
+        <div className="py-4 px-3 bg-error-color bg-opacity-10 rounded-md text-error-color text-sm">
+          Error loading proxy pool health: {error.message}
+        </div>
+      )}
+
+      {!loading && !error && !health?.enabled ? (
+        <div className="py-8 text-center text-text-color-light">
+          No proxies configured; scrapers connect directly.
+        </div>
+      ) : (
+        <Table<ProxyHealth>
+          columns={columns}
+          data={health?.proxies || []}
+          loading={loading}
+          ariaLabel="Proxy pool health"
+        />
+      )}
+    </Card>
+  );
+};
+
+export default ProxyPoolHealth;
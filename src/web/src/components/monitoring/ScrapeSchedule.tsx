@@ -0,0 +1,170 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns'; // ^2.30.0
+
+import Card from '../common/Card';
+import Button from '../common/Button';
+import { Table, type TableColumn } from '../common/Table';
+import { MonitoringService } from '../../services/monitoring.service';
+import type { ScheduledScrape } from '../../interfaces/monitoring.interface';
+
+/**
+ * Props interface for the ScrapeSchedule component
+ */
+interface ScrapeScheduleProps {
+  className?: string;
+  refreshInterval?: number;
+  windowHours?: number;
+  canManage?: boolean;
+}
+
+/**
+ * Custom hook for loading the upcoming scrape schedule and toggling pauses
+ */
+const useScrapeSchedule = (refreshInterval: number, windowHours: number) => {
+  const [schedule, setSchedule] = useState<ScheduledScrape[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+
+  const monitoringService = useMemo(() => new MonitoringService(), []);
+
+  const fetchSchedule = useCallback(async () => {
+    try {
+      setSchedule(await monitoringService.getUpcomingSchedule(windowHours));
+      setError(null);
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [monitoringService, windowHours]);
+
+  const togglePaused = useCallback(async (entry: ScheduledScrape) => {
+    setPendingId(entry.institutionId);
+    try {
+      const updated = await monitoringService.setSchedulePaused(entry.institutionId, !entry.paused);
+      setSchedule(prev => prev.map(item =>
+        item.institutionId === updated.institutionId ? updated : item
+      ));
+      setError(null);
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setPendingId(null);
+    }
+  }, [monitoringService]);
+
+  useEffect(() => {
+    fetchSchedule();
+    const interval = setInterval(fetchSchedule, refreshInterval);
+
+    return () => clearInterval(interval);
+  }, [fetchSchedule, refreshInterval]);
+
+  return { schedule, loading, error, pendingId, togglePaused };
+};
+
+/**
+ * ScrapeSchedule Component
+ * Lists upcoming scheduled scrapes per institution with pause/resume controls
+ */
+const ScrapeSchedule: React.FC<ScrapeScheduleProps> = ({
+  className,
+  refreshInterval = 60000,
+  windowHours = 72,
+  canManage = false
+}) => {
+  const {
+    schedule,
+    loading,
+    error,
+    pendingId,
+    togglePaused
+  } = useScrapeSchedule(refreshInterval, windowHours);
+
+  const columns: TableColumn<ScheduledScrape>[] = [
+    { key: 'institutionName', title: 'Institution' },
+    {
+      key: 'nextRunAt',
+      title: 'Next Run',
+      render: (_, entry) => (
+        <span className={entry.overdue ? 'text-error-color' : undefined}>
+          {format(new Date(entry.nextRunAt), 'MMM d, HH:mm')}
+          {' '}({formatDistanceToNow(new Date(entry.nextRunAt), { addSuffix: true })})
+        </span>
+      )
+    },
+    {
+      key: 'lastScraped',
+      title: 'Last Scraped',
+      render: (_, entry) => entry.lastScraped
+        ? format(new Date(entry.lastScraped), 'MMM d, yyyy')
+        : 'Never'
+    },
+    {
+      key: 'refreshIntervalDays',
+      title: 'Interval',
+      render: (_, entry) => `${entry.refreshIntervalDays}d`
+    },
+    {
+      key: 'paused',
+      title: 'Status',
+      render: (_, entry) => entry.paused ? 'Paused' : entry.overdue ? 'Overdue' : 'Scheduled'
+    }
+  ];
+
+  if (canManage) {
+    columns.push({
+      key: 'actions',
+      title: '',
+      render: (_, entry) => (
+        <Button
+          variant="outline"
+          size="sm"
+          loading={pendingId === entry.institutionId}
+          disabled={pendingId !== null}
+          onClick={() => togglePaused(entry)}
+          ariaLabel={`${entry.paused ? 'Resume' : 'Pause'} scheduled scrapes for ${entry.institutionName}`}
+        >
+          {entry.paused ? 'Resume' : 'Pause'}
+        </Button>
+      )
+    });
+  }
+
+  return (
+    <Card
+      className={className}
+      variant="default"
+      header={
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-medium">Scrape Schedule</h3>
+          <span className="text-sm text-text-color-light">
+            Next {windowHours} hours
+          </span>
+        </div>
+      }
+    >
+      {error && (
+        <div className="py-4 px-3 bg-error-color bg-opacity-10 rounded-md text-error-color text-sm">
+          Error loading schedule: {error.message}
+        </div>
+      )}
+
+      {!loading && !error && schedule.length === 0 ? (
+        <div className="py-8 text-center text-text-color-light">
+          No scrapes scheduled in this window.
+        </div>
+      ) : (
+        <Table<ScheduledScrape>
+          columns={columns}
+          data={schedule}
+          loading={loading}
+          ariaLabel="Upcoming scheduled scrapes"
+        />
+      )}
+    </Card>
+  );
+};
+
+export default ScrapeSchedule;
\ No newline at end of file
@@ -0,0 +1,282 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns'; // ^2.30.0
+
+import Card from '../common/Card';
+import Button from '../common/Button';
+import { Table, type TableColumn } from '../common/Table';
+import { MonitoringService } from '../../services/monitoring.service';
+import ConfigService, { type URLTestResult } from '../../services/config.service';
+import type { URLConfig } from '../../interfaces/config.interface';
+import type {
+  SelectorDriftField,
+  SelectorDriftReport,
+  SelectorSuggestion
+} from '../../interfaces/monitoring.interface';
+
+/**
+ * Props interface for the SelectorDrift component
+ */
+interface SelectorDriftProps {
+  className?: string;
+  refreshInterval?: number;
+  canManage?: boolean;
+}
+
+/**
+ * One drifted field of a flagged institution, as shown in the table
+ */
+interface DriftRow extends SelectorDriftField {
+  report: SelectorDriftReport;
+}
+
+/**
+ * State of a suggested selector tested against the live page
+ */
+interface SuggestionTest {
+  loading: boolean;
+  result?: URLTestResult;
+  error?: string;
+}
+
+const testKey = (row: DriftRow, selector: string): string =>
+  `${row.report.institutionId}:${row.field}:${selector}`;
+
+/**
+ * Builds a URL configuration with one field's selector swapped for the suggestion
+ */
+const buildTestConfig = (report: SelectorDriftReport, field: string, selector: string): URLConfig => {
+  const { title = '', description = '', pagination = '', ...custom } = {
+    ...report.selectors,
+    [field]: selector
+  };
+
+  return {
+    url: report.url,
+    institution: { name: report.institutionId } as URLConfig['institution'],
+    scraping: { selectors: { title, description, pagination, custom } } as URLConfig['scraping'],
+    active: true
+  } as URLConfig;
+};
+
+/**
+ * Custom hook for loading selector drift flags, testing suggestions and dismissing flags
+ */
+const useSelectorDrift = (refreshInterval: number) => {
+  const [reports, setReports] = useState<SelectorDriftReport[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [pendingId, setPendingId] = useState<string | null>(null);
+  const [tests, setTests] = useState<Record<string, SuggestionTest>>({});
+
+  const monitoringService = useMemo(() => new MonitoringService(), []);
+
+  const fetchReports = useCallback(async () => {
+    try {
+      setReports(await monitoringService.getSelectorDrift());
+      setError(null);
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setLoading(false);
+    }
+  }, [monitoringService]);
+
+  const testSuggestion = useCallback(async (row: DriftRow, suggestion: SelectorSuggestion) => {
+    const key = testKey(row, suggestion.selector);
+    setTests(prev => ({ ...prev, [key]: { loading: true } }));
+    try {
+      const result = await ConfigService.testURLConfig(
+        buildTestConfig(row.report, row.field, suggestion.selector)
+      );
+      setTests(prev => ({ ...prev, [key]: { loading: false, result } }));
+    } catch (err) {
+      setTests(prev => ({ ...prev, [key]: { loading: false, error: (err as Error).message } }));
+    }
+  }, []);
+
+  const dismiss = useCallback(async (institutionId: string) => {
+    setPendingId(institutionId);
+    try {
+      await monitoringService.dismissSelectorDrift(institutionId);
+      setReports(prev => prev.filter(report => report.institutionId !== institutionId));
+      setError(null);
+    } catch (err) {
+      setError(err as Error);
+    } finally {
+      setPendingId(null);
+    }
+  }, [monitoringService]);
+
+  useEffect(() => {
+    fetchReports();
+    const interval = setInterval(fetchReports, refreshInterval);
+    return () => clearInterval(interval);
+  }, [fetchReports, refreshInterval]);
+
+  return { reports, loading, error, pendingId, tests, testSuggestion, dismiss };
+};
+
+/**
+ * SelectorDrift Component
+ * Lists institutions whose title or description selectors stopped matching, with
+ * suggested replacements that can be tested against the live page
+ */
+const SelectorDrift: React.FC<SelectorDriftProps> = ({
+  className,
+  refreshInterval = 300000,
+  canManage = false
+}) => {
+  const {
+    reports,
+    loading,
+    error,
+    pendingId,
+    tests,
+    testSuggestion,
+    dismiss
+  } = useSelectorDrift(refreshInterval);
+
+  const rows = useMemo<DriftRow[]>(() => reports.flatMap(report =>
+    report.fields.map(field => ({ ...field, report }))
+  ), [reports]);
+
+  const renderTest = (row: DriftRow, selector: string) => {
+    const test = tests[testKey(row, selector)];
+    if (!test || test.loading) {
+      return null;
+    }
+    if (test.error || !test.result) {
+      return <span className="text-error-color">{test.error}</span>;
+    }
+
+    const matches = test.result.selectorMatches?.[row.field];
+    return test.result.accessible && matches
+      ? <span className="text-success-color">Live page: {matches} match{matches === 1 ? '' : 'es'}</span>
+      : <span className="text-error-color">{test.result.errors?.join('; ') || 'No matches on live page'}</span>;
+  };
+
+  const columns: TableColumn<DriftRow>[] = [
+    {
+      key: 'institutionId',
+      title: 'Institution',
+      render: (_, row) => (
+        <div>
+          <div className="font-medium">{row.report.institutionId}</div>
+          <div className="text-sm text-text-color-light break-all">{row.report.url}</div>
+        </div>
+      )
+    },
+    {
+      key: 'field',
+      title: 'Selector',
+      render: (_, row) => (
+        <div>
+          <span className="font-medium">{row.field}</span>
+          <div className="text-sm"><code>{row.selector}</code></div>
+        </div>
+      )
+    },
+    {
+      key: 'current',
+      title: 'Yield',
+      width: '160px',
+      render: (_, row) => (
+        <div>
+          <span className="text-error-color">{row.current}</span> / {row.baseline} usual
+          <div className="text-sm text-text-color-light">
+            {row.reason === 'missing' ? 'Matches nothing' : 'Far fewer items'} since{' '}
+            {formatDistanceToNow(new Date(row.report.detectedAt), { addSuffix: true })}
+          </div>
+        </div>
+      )
+    },
+    {
+      key: 'suggestions',
+      title: 'Suggested Selectors',
+      render: (_, row) => row.suggestions.length === 0 ? (
+        <span className="text-sm text-text-color-light">
+          {row.report.lastGoodAt ? 'No candidates found' : 'No last-good snapshot yet'}
+        </span>
+      ) : (
+        <ul className="space-y-2">
+          {row.suggestions.map(suggestion => (
+            <li key={suggestion.selector} className="text-sm">
+              <code>{suggestion.selector}</code>
+              <span className="text-text-color-light">
+                {' '}· {suggestion.matches} matches · fit {Math.round(suggestion.score * 100)}%
+              </span>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="text"
+                  size="sm"
+                  loading={tests[testKey(row, suggestion.selector)]?.loading}
+                  onClick={() => testSuggestion(row, suggestion)}
+                  ariaLabel={`Test selector ${suggestion.selector} for ${row.field}`}
+                >
+                  Test
+                </Button>
+                {renderTest(row, suggestion.selector)}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )
+    }
+  ];
+
+  if (canManage) {
+    columns.push({
+      key: 'actions',
+      title: '',
+      width: '110px',
+      render: (_, row) => (
+        <Button
+          variant="outline"
+          size="sm"
+          loading={pendingId === row.report.institutionId}
+          disabled={pendingId !== null}
+          onClick={() => dismiss(row.report.institutionId)}
+          ariaLabel={`Dismiss selector drift for ${row.report.institutionId}`}
+        >
+          Dismiss
+        </Button>
+      )
+    });
+  }
+
+  return (
+    <Card
+      className={className}
+      variant="default"
+      header={
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-medium">Selector Drift</h3>
+          <span className="text-sm text-text-color-light">
+            {reports.length} institution{reports.length === 1 ? '' : 's'} flagged
+          </span>
+        </div>
+      }
+    >
+      {error && (
+        <div className="py-4 px-3 bg-error-color bg-opacity-10 rounded-md text-error-color text-sm">
+          Error loading selector drift: {error.message}
+        </div>
+      )}
+
+      {!loading && !error && rows.length === 0 ? (
+        <div className="py-8 text-center text-text-color-light">
+          All monitored selectors are matching as usual.
+        </div>
+      ) : (
+        <Table<DriftRow>
+          columns={columns}
+          data={rows}
+          loading={loading}
+          ariaLabel="Institutions flagged for selector drift"
+        />
+      )}
+    </Card>
+  );
+};
+
+export default SelectorDrift;
\ No newline at end of file
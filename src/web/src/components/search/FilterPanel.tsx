@@ -17,6 +17,8 @@ import styles from './FilterPanel.module.css';
 type FilterAction = 
   | { type: 'SET_INSTITUTIONS'; payload: string[] }
   | { type: 'SET_CATEGORIES'; payload: string[] }
+  | { type: 'SET_PATENT_STATUSES'; payload: string[] }
+  | { type: 'SET_INCLUDE_WITHDRAWN'; payload: boolean }
   | { type: 'SET_DATE_RANGE'; payload: DateRange }
   | { type: 'RESET_FILTERS' };
 
@@ -31,12 +33,21 @@ export interface FilterPanelProps {
   errorMessage?: string;
 }
 
+// Display labels for IP status facet values
+const PATENT_STATUS_LABELS: Record<string, string> = {
+  granted: 'Granted',
+  pending: 'Pending',
+  unknown: 'Not stated'
+};
+
 // Initial state factory for filter reducer
 const createInitialState = (filters: SearchFilters): SearchFilters => ({
   institutions: [...filters.institutions],
   categories: [...filters.categories],
   dateRange: { ...filters.dateRange },
-  tags: [...filters.tags]
+  tags: [...filters.tags],
+  patentStatuses: [...(filters.patentStatuses || [])],
+  includeWithdrawn: Boolean(filters.includeWithdrawn)
 });
 
 // Filter state reducer with immutable updates
@@ -46,6 +57,10 @@ const filterReducer = (state: SearchFilters, action: FilterAction): SearchFilter
       return { ...state, institutions: action.payload };
     case 'SET_CATEGORIES':
       return { ...state, categories: action.payload };
+    case 'SET_PATENT_STATUSES':
+      return { ...state, patentStatuses: action.payload };
+    case 'SET_INCLUDE_WITHDRAWN':
+      return { ...state, includeWithdrawn: action.payload };
     case 'SET_DATE_RANGE':
       return { ...state, dateRange: action.payload };
     case 'RESET_FILTERS':
@@ -53,7 +68,8 @@ const filterReducer = (state: SearchFilters, action: FilterAction): SearchFilter
         institutions: [],
         categories: [],
         dateRange: { start: '', end: '' },
-        tags: []
+        tags: [],
+        patentStatuses: []
       });
     default:
       return state;
@@ -98,6 +114,17 @@ export const FilterPanel: React.FC<FilterPanelProps> = React.memo(({
     dispatch({ type: 'SET_CATEGORIES', payload: newCategories });
   }, [filterState.categories]);
 
+  const handlePatentStatusChange = useCallback((patentStatus: string, checked: boolean) => {
+    const newPatentStatuses = checked
+      ? [...filterState.patentStatuses, patentStatus]
+      : filterState.patentStatuses.filter(s => s !== patentStatus);
+    dispatch({ type: 'SET_PATENT_STATUSES', payload: newPatentStatuses });
+  }, [filterState.patentStatuses]);
+
+  const handleIncludeWithdrawnChange = useCallback((checked: boolean) => {
+    dispatch({ type: 'SET_INCLUDE_WITHDRAWN', payload: checked });
+  }, []);
+
   const handleDateRangeChange = useCallback((dateRange: DateRange) => {
     dispatch({ type: 'SET_DATE_RANGE', payload: dateRange });
   }, []);
@@ -203,6 +230,41 @@ export const FilterPanel: React.FC<FilterPanelProps> = React.memo(({
         </div>
       </section>
 
+      {/* Only a handful of IP statuses exist, so this list is not virtualized */}
+      <section className={styles['filter-panel__section']}>
+        <h3 className={styles['filter-panel__section-title']}>
+          Patent Status
+        </h3>
+        <div role="group" aria-label="Patent status filters">
+          {(facets.patentStatuses || []).map(patentStatus => (
+            <div key={patentStatus.key} className={styles['filter-panel__checkbox-item']}>
+              <Checkbox
+                name={`patent-status-${patentStatus.key}`}
+                label={`${PATENT_STATUS_LABELS[patentStatus.key] || patentStatus.key} (${patentStatus.count})`}
+                checked={filterState.patentStatuses.includes(patentStatus.key)}
+                onChange={(e) => handlePatentStatusChange(patentStatus.key, e.target.checked)}
+                className={styles['filter-panel__checkbox']}
+              />
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className={styles['filter-panel__section']}>
+        <h3 className={styles['filter-panel__section-title']}>
+          Availability
+        </h3>
+        <div className={styles['filter-panel__checkbox-item']}>
+          <Checkbox
+            name="include-withdrawn"
+            label="Include withdrawn technologies"
+            checked={Boolean(filterState.includeWithdrawn)}
+            onChange={(e) => handleIncludeWithdrawnChange(e.target.checked)}
+            className={styles['filter-panel__checkbox']}
+          />
+        </div>
+      </section>
+
       <section className={styles['filter-panel__section']}>
         <h3 className={styles['filter-panel__section-title']}>
           Date Range
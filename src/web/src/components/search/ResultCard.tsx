@@ -1,7 +1,8 @@
-import React, { useCallback, useMemo } from 'react';
+import React, { useCallback, useMemo, useState } from 'react';
 import { format } from 'date-fns';
 import Card from '../common/Card';
 import type { SearchResult } from '../../interfaces/search.interface';
+import { formatLanguageName, splitHighlight } from '../../utils/format.util';
 
 /**
  * Props interface for the ResultCard component with accessibility and loading states
@@ -31,6 +32,34 @@ const resultCardStyles = {
   skeleton: 'animate-pulse bg-gray-200 dark:bg-gray-700 rounded',
   tags: 'flex flex-wrap gap-2 mt-2',
   tag: 'text-xs bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 px-2 py-1 rounded-full',
+  translation: 'text-xs text-gray-500 dark:text-gray-400 flex items-center gap-1 mt-1',
+  translationToggle: 'text-primary-600 dark:text-primary-300 hover:underline focus-visible:ring-2 focus-visible:ring-primary-500 rounded',
+  withdrawn: 'bg-gray-200 dark:bg-gray-700 text-gray-700 dark:text-gray-200 px-2 py-1 rounded-full text-xs',
+  mark: 'bg-yellow-200 dark:bg-yellow-800 rounded px-1',
+  matches: 'text-xs text-gray-500 dark:text-gray-400 space-y-1 mt-2',
+  matchLabel: 'font-medium text-gray-600 dark:text-gray-300',
+};
+
+/**
+ * Highlighted fields shown in the title and description rather than under "Matched in"
+ */
+const DISPLAYED_FIELDS = new Set(['title', 'description', 'translations.title', 'translations.description']);
+
+/**
+ * Labels of other fields the search may highlight
+ */
+const MATCH_FIELD_LABELS: Record<string, string> = {
+  inventorNames: 'Inventors',
+  licensingContactNames: 'Licensing contacts',
+};
+
+/**
+ * Label for a highlighted field without one, e.g. "documentText" becomes "Document text"
+ */
+const matchFieldLabel = (field: string): string => {
+  if (MATCH_FIELD_LABELS[field]) return MATCH_FIELD_LABELS[field];
+  const words = field.replace(/\./g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
 };
 
 /**
@@ -55,6 +84,11 @@ const ResultCard: React.FC<ResultCardProps> = React.memo(({
   isLoading = false,
   highlightTerm,
 }) => {
+  // Non-English results show their English translation until the original is requested
+  const [showOriginal, setShowOriginal] = useState(false);
+  const translations = result.translations;
+  const showTranslation = Boolean(translations) && !showOriginal;
+
   // Memoize date formatting to prevent unnecessary recalculations
   const formattedDate = useMemo(() => {
     return format(new Date(result.discoveredAt), 'MMM d, yyyy');
@@ -73,6 +107,12 @@ const ResultCard: React.FC<ResultCardProps> = React.memo(({
     }
   }, [onSelect, result.id]);
 
+  // Toggle between original and translated text without selecting the card
+  const handleToggleTranslation = useCallback((event: React.MouseEvent) => {
+    event.stopPropagation();
+    setShowOriginal((current) => !current);
+  }, []);
+
   // Render loading skeleton
   if (isLoading) {
     return (
@@ -90,6 +130,25 @@ const ResultCard: React.FC<ResultCardProps> = React.memo(({
     );
   }
 
+  // Render a search highlight fragment with its matched terms marked
+  const renderHighlight = (fragment: string): React.ReactNode =>
+    splitHighlight(fragment).map((segment, index) => (
+      segment.highlighted ? (
+        <mark key={index} className={resultCardStyles.mark}>
+          {segment.text}
+        </mark>
+      ) : segment.text
+    ));
+
+  const highlights = result.highlights;
+
+  // The snippet is taken from the English description, so it fits whichever text shows it
+  const showSnippet = Boolean(result.snippet) && (showTranslation || !translations?.description);
+
+  // Matches in fields that are not displayed, such as inventors or document text
+  const otherMatches = Object.entries(highlights || {})
+    .filter((entry): entry is [string, string[]] => !DISPLAYED_FIELDS.has(entry[0]) && Boolean(entry[1]?.length));
+
   // Highlight matching text if search term is provided
   const highlightText = (text: string): React.ReactNode => {
     if (!highlightTerm) return text;
@@ -97,7 +156,7 @@ const ResultCard: React.FC<ResultCardProps> = React.memo(({
     const parts = text.split(new RegExp(`(${highlightTerm})`, 'gi'));
     return parts.map((part, index) => 
       part.toLowerCase() === highlightTerm?.toLowerCase() ? (
-        <mark key={index} className="bg-yellow-200 dark:bg-yellow-800 rounded px-1">
+        <mark key={index} className={resultCardStyles.mark}>
           {part}
         </mark>
       ) : part
@@ -115,19 +174,64 @@ const ResultCard: React.FC<ResultCardProps> = React.memo(({
       data-testid="result-card"
     >
       {/* Title Section */}
-      <h3 className={resultCardStyles.header}>
-        {result.highlights.title.length > 0
-          ? <span dangerouslySetInnerHTML={{ __html: result.highlights.title[0] }} />
-          : highlightText(result.title)}
+      <h3 className={resultCardStyles.header} lang={showTranslation ? 'en' : result.language ?? undefined}>
+        {showTranslation
+          ? highlights?.['translations.title']?.length
+            ? renderHighlight(highlights['translations.title'][0])
+            : highlightText(translations?.title || result.title)
+          : highlights?.title.length
+            ? renderHighlight(highlights.title[0])
+            : highlightText(result.title)}
       </h3>
 
       {/* Description Section */}
-      <p className={resultCardStyles.description}>
-        {result.highlights.description.length > 0
-          ? <span dangerouslySetInnerHTML={{ __html: result.highlights.description[0] }} />
-          : highlightText(result.description)}
+      <p className={resultCardStyles.description} lang={showTranslation ? 'en' : result.language ?? undefined}>
+        {showSnippet
+          ? renderHighlight(result.snippet as string)
+          : showTranslation
+            ? highlightText(translations?.description || result.description)
+            : highlights?.description.length
+              ? renderHighlight(highlights.description[0])
+              : highlightText(result.description)}
       </p>
 
+      {/* Matches in other fields */}
+      {otherMatches.length > 0 && (
+        <ul className={resultCardStyles.matches} aria-label="Matched in" data-testid="result-card-matches">
+          {otherMatches.map(([field, fragments]) => (
+            <li key={field}>
+              <span className={resultCardStyles.matchLabel}>{matchFieldLabel(field)}: </span>
+              {fragments.map((fragment, index) => (
+                <React.Fragment key={index}>
+                  {index > 0 && ' … '}
+                  {renderHighlight(fragment)}
+                </React.Fragment>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {/* Translation Section */}
+      {translations && (
+        <div className={resultCardStyles.translation} data-testid="result-card-translation">
+          <span>
+            {showTranslation
+              ? `Translated from ${formatLanguageName(translations.sourceLanguage)}`
+              : `Original ${formatLanguageName(translations.sourceLanguage)} text`}
+          </span>
+          <span>·</span>
+          <button
+            type="button"
+            className={resultCardStyles.translationToggle}
+            onClick={handleToggleTranslation}
+            aria-pressed={showOriginal}
+          >
+            {showTranslation ? 'Show original' : 'Show translation'}
+          </button>
+        </div>
+      )}
+
       {/* Tags Section */}
       {result.tags.length > 0 && (
         <div className={resultCardStyles.tags}>
@@ -144,9 +248,22 @@ const ResultCard: React.FC<ResultCardProps> = React.memo(({
         <div className="flex items-center gap-2">
           <span>{result.institution}</span>
           <span>•</span>
-          <span>{result.category}</span>
+          <span>
+            {result.subcategory ? `${result.category} › ${result.subcategory}` : result.category}
+          </span>
         </div>
         <div className="flex items-center gap-4">
+          {result.active === false && (
+            <span
+              className={resultCardStyles.withdrawn}
+              title={result.withdrawnAt
+                ? `No longer listed by the institution since ${format(new Date(result.withdrawnAt), 'MMM d, yyyy')}`
+                : 'No longer listed by the institution'}
+              data-testid="result-card-withdrawn"
+            >
+              Withdrawn
+            </span>
+          )}
           <time dateTime={result.discoveredAt}>{formattedDate}</time>
           <span className={resultCardStyles.score} title="Relevance score">
             {Math.round(result.score * 100)}%
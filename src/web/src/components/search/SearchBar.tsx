@@ -3,7 +3,17 @@ import classNames from 'classnames'; // v2.3.1
 import useDebounce from '../../hooks/useDebounce';
 import Input from '../common/Input';
 import SearchService from '../../services/search.service';
-import { SearchFilters } from '../../interfaces/search.interface';
+import { SearchFilters, Suggestion, SuggestionType } from '../../interfaces/search.interface';
+
+/**
+ * Heading shown above each group of suggestions
+ */
+const SUGGESTION_GROUP_LABELS: Record<SuggestionType, string> = {
+  title: 'Technologies',
+  institution: 'Institutions',
+  category: 'Categories',
+  inventor: 'Inventors'
+};
 
 /**
  * Props interface for SearchBar component with comprehensive type definitions
@@ -19,7 +29,7 @@ export interface SearchBarProps {
   autoFocus?: boolean;
   /** Custom debounce timing in milliseconds */
   debounceTime?: number;
-  /** Maximum number of suggestions to display */
+  /** Maximum number of suggestions to display per type */
   maxSuggestions?: number;
 }
 
@@ -36,7 +46,7 @@ const SearchBar: React.FC<SearchBarProps> = React.memo(({
 }) => {
   // State management
   const [inputValue, setInputValue] = useState('');
-  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSuggestions, setShowSuggestions] = useState(false);
@@ -68,7 +78,12 @@ const SearchBar: React.FC<SearchBarProps> = React.memo(({
         setError(null);
 
         const suggestionResults = await SearchService.getSuggestions(debouncedSearchValue);
-        setSuggestions(suggestionResults.slice(0, maxSuggestions));
+        const shownPerType = new Map<SuggestionType, number>();
+        setSuggestions(suggestionResults.filter(suggestion => {
+          const shown = shownPerType.get(suggestion.type) || 0;
+          shownPerType.set(suggestion.type, shown + 1);
+          return shown < maxSuggestions;
+        }));
         setShowSuggestions(true);
       } catch (err) {
         if (err.name !== 'AbortError') {
@@ -98,10 +113,10 @@ const SearchBar: React.FC<SearchBarProps> = React.memo(({
   }, []);
 
   // Handle suggestion selection
-  const handleSuggestionClick = useCallback((suggestion: string) => {
-    setInputValue(suggestion);
+  const handleSuggestionClick = useCallback((suggestion: Suggestion) => {
+    setInputValue(suggestion.text);
     setShowSuggestions(false);
-    onSearch(suggestion);
+    onSearch(suggestion.text);
   }, [onSearch]);
 
   // Handle form submission
@@ -165,6 +180,20 @@ const SearchBar: React.FC<SearchBarProps> = React.memo(({
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
+  // Group suggestions by type, keeping each one's position in the flat list for keyboard navigation
+  const suggestionGroups = suggestions.reduce<Array<{ type: SuggestionType; items: Array<{ suggestion: Suggestion; index: number }> }>>(
+    (groups, suggestion, index) => {
+      const group = groups.find(candidate => candidate.type === suggestion.type);
+      if (group) {
+        group.items.push({ suggestion, index });
+      } else {
+        groups.push({ type: suggestion.type, items: [{ suggestion, index }] });
+      }
+      return groups;
+    },
+    []
+  );
+
   // Compose class names
   const containerClasses = classNames(
     'search-container',
@@ -231,18 +260,37 @@ const SearchBar: React.FC<SearchBarProps> = React.memo(({
             className="suggestions-dropdown"
             role="listbox"
           >
-            {suggestions.map((suggestion, index) => (
+            {suggestionGroups.map(group => (
               <li
-                key={suggestion}
-                id={`suggestion-${index}`}
-                className={classNames('suggestion-item', {
-                  'suggestion-item--selected': index === selectedSuggestionIndex
-                })}
-                role="option"
-                aria-selected={index === selectedSuggestionIndex}
-                onClick={() => handleSuggestionClick(suggestion)}
+                key={group.type}
+                className="suggestion-group"
+                role="presentation"
               >
-                {suggestion}
+                <span
+                  id={`suggestion-group-${group.type}`}
+                  className="suggestion-group__label"
+                >
+                  {SUGGESTION_GROUP_LABELS[group.type]}
+                </span>
+                <ul
+                  role="group"
+                  aria-labelledby={`suggestion-group-${group.type}`}
+                >
+                  {group.items.map(({ suggestion, index }) => (
+                    <li
+                      key={`${suggestion.type}:${suggestion.text}`}
+                      id={`suggestion-${index}`}
+                      className={classNames('suggestion-item', `suggestion-item--${suggestion.type}`, {
+                        'suggestion-item--selected': index === selectedSuggestionIndex
+                      })}
+                      role="option"
+                      aria-selected={index === selectedSuggestionIndex}
+                      onClick={() => handleSuggestionClick(suggestion)}
+                    >
+                      {suggestion.text}
+                    </li>
+                  ))}
+                </ul>
               </li>
             ))}
           </ul>
@@ -47,6 +47,7 @@ type APIEndpoints = {
   readonly SEARCH: EndpointConfig;
   readonly GRANT: EndpointConfig;
   readonly CONFIG: EndpointConfig;
+  readonly NOTIFICATIONS: EndpointConfig;
 };
 
 // API Endpoints configuration
@@ -68,6 +69,11 @@ export const API_ENDPOINTS: APIEndpoints = {
     LOGS: '/scraper/logs',
     STOP: '/scraper/stop',
     SCHEDULE: '/scraper/schedule',
+    DEAD_LETTER: '/scraper/dlq',
+    SELECTOR_DRIFT: '/scraper/drift',
+    RUNS: '/scraper/runs',
+    SCORECARD: '/scraper/scorecard',
+    PROXIES: '/scraper/proxies',
     METRICS: '/scraper/metrics',
     HISTORY: '/scraper/history',
   },
@@ -106,6 +112,11 @@ export const API_ENDPOINTS: APIEndpoints = {
     SETTINGS: '/config/settings',
     BACKUP: '/config/backup',
   },
+
+  NOTIFICATIONS: {
+    LIST: '/notifications',
+    READ_ALL: '/notifications/read-all',
+  },
 } as const;
 
 // Helper function to construct full API URLs
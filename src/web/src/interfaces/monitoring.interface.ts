@@ -119,6 +119,197 @@ export interface ScraperMetrics {
     rateLimitHits: number;        // Number of rate limit violations
 }
 
+/**
+ * Interface for upcoming scheduled scrapes
+ * Mirrors the scheduler's per-institution schedule entry
+ */
+export interface ScheduledScrape {
+    institutionId: string;        // Institution identifier
+    institutionName: string;      // Institution display name
+    institutionType: string;      // Institution category
+    refreshIntervalDays: number;  // Days between scheduled scrapes
+    lastScraped: string | null;   // ISO timestamp of last scrape
+    nextRunAt: string;            // ISO timestamp of next scheduled scrape
+    paused: boolean;              // Whether scheduled scrapes are paused
+    overdue: boolean;             // Whether the next run is in the past
+}
+
+/**
+ * Type for dead-letter entry review state
+ */
+export type DeadLetterStatus = 'pending' | 'replayed';
+
+/**
+ * Interface for failed scraper jobs held in the dead-letter queue
+ * Mirrors the backend dead-letter entry
+ */
+export interface DeadLetterEntry {
+    id: string;                   // Entry identifier
+    jobId: string;                // Failed job identifier
+    url: string;                  // Target URL of the failed job
+    institutionId?: string;       // Institution identifier
+    institutionType: string;      // Institution category
+    errorType: string;            // Scraper error classification
+    error: {
+        type: string;
+        message: string;
+        retryAttempt: number;     // Retry attempt the job failed on
+        recoverySuggestions: string[];
+    };
+    job: {
+        config?: Record<string, unknown>;  // Scraper config replayed with the job
+        [key: string]: unknown;
+    };
+    source: 'service' | 'worker' | 'broker';  // Where the job was dead-lettered
+    status: DeadLetterStatus;     // Whether the job has been replayed
+    replayCount: number;          // Times the job has been replayed
+    lastReplayedAt: string | null; // ISO timestamp of the last replay
+    lastReplayedBy: string | null; // User who last replayed the job
+    deadLetteredAt: string;       // ISO timestamp the job was dead-lettered
+}
+
+/**
+ * Interface for dead-letter queue filters
+ */
+export interface DeadLetterFilters {
+    institutionId?: string;
+    errorType?: string;
+    status?: DeadLetterStatus;
+}
+
+/**
+ * Interface for a page of dead-letter entries
+ */
+export interface DeadLetterPage {
+    data: DeadLetterEntry[];
+    pagination: {
+        page: number;
+        limit: number;
+        total: number;
+        pages: number;
+    };
+}
+
+/**
+ * Interface for the outcome of replaying dead-letter entries
+ */
+export interface DeadLetterReplayResult {
+    replayed: string[];
+    failed: Array<{ id: string; reason: string }>;
+}
+
+/**
+ * Interface for a candidate replacement selector
+ */
+export interface SelectorSuggestion {
+    selector: string;
+    matches: number;              // Elements matched on the latest page
+    score: number;                // 0-1 fit against the last-good snapshot
+}
+
+/**
+ * Interface for a selector field whose yield collapsed
+ */
+export interface SelectorDriftField {
+    field: string;                // Selector field, e.g. title or description
+    selector: string;             // Selector currently configured
+    reason: 'missing' | 'dropped'; // Nothing matched, or far fewer items than usual
+    baseline: number;             // Typical matches on recent runs
+    current: number;              // Matches on the latest run
+    suggestions: SelectorSuggestion[];
+}
+
+/**
+ * Interface for an institution flagged for selector drift
+ * Mirrors the backend selector drift report
+ */
+export interface SelectorDriftReport {
+    institutionId: string;
+    institutionType: string;
+    url: string;                  // Page the selectors ran against
+    selectors: Record<string, string>; // Selectors used on the latest run
+    fields: SelectorDriftField[];
+    detectedAt: string;           // ISO timestamp the drift was first detected
+    lastCheckedAt: string;        // ISO timestamp of the latest run
+    lastGoodAt: string | null;    // ISO timestamp of the last-good snapshot
+}
+
+/**
+ * Type for an institution's health band on the scorecard
+ */
+export type InstitutionHealthStatus = 'healthy' | 'degraded' | 'failing' | 'unknown';
+
+/**
+ * Interface for an institution's rolling health score
+ */
+export interface InstitutionHealth {
+    score: number;                // 0-100, higher is healthier
+    status: InstitutionHealthStatus;
+    reliability: number;          // 0-1 weighted share of successful runs
+    yieldRatio: number;           // 0-1 latest item count against the usual count
+    cleanliness: number;          // 0-1 share of attempts without errors
+    runs: number;                 // Runs the score was computed over
+}
+
+/**
+ * Interface for one institution's row on the health scorecard
+ * Mirrors the backend scorecard entry
+ */
+export interface InstitutionScorecardEntry {
+    institutionId: string;
+    institutionName: string | null;
+    institutionType: string;
+    health: InstitutionHealth;
+    previousScore: number | null; // Score after the run before the latest
+    lastRunId: string;
+    lastRunStatus: 'running' | 'completed' | 'partial' | 'failed';
+    lastRunAt: string;            // ISO timestamp the latest run finished
+    lastSuccessAt: string | null; // ISO timestamp of the last fully successful run
+    items: {
+        found: number;
+        new: number;
+        updated: number;
+        unchanged: number;
+        removed: number;          // Active technologies the run no longer found
+        withdrawn: number;        // Technologies withdrawn from the catalog after the run
+        failed: number;
+    };
+    durationMs: number;
+    errorsByType: Record<string, number>;
+}
+
+/**
+ * Interface for the health of one scraper proxy
+ * Credentials are masked in the URL by the backend
+ */
+export interface ProxyHealth {
+    id: string;                     // host:port
+    url: string;
+    region: string | null;          // Country code the proxy exits from
+    state: 'active' | 'quarantined';
+    successes: number;
+    failures: number;
+    consecutiveFailures: number;
+    successRate: number | null;     // Null until the proxy has been used
+    latencyMs: number | null;       // Moving average response time
+    quarantinedUntil: string | null; // ISO timestamp the quarantine ends
+    lastError: string | null;
+    lastUsedAt: string | null;      // ISO timestamp
+}
+
+/**
+ * Interface for the health of the scraper proxy pool
+ * Mirrors the backend proxy pool health
+ */
+export interface ProxyPoolHealth {
+    enabled: boolean;               // False when scraping connects directly
+    total: number;
+    active: number;
+    quarantined: number;
+    regions: Record<string, { total: number; active: number }>; // 'any' for untagged proxies
+    proxies: ProxyHealth[];
+}
+
 /**
  * Type for historical metric data points
  * Used for tracking metric history and trend analysis
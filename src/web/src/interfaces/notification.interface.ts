@@ -0,0 +1,33 @@
+/**
+ * In-app notification interfaces
+ * @version 1.0.0
+ */
+
+/**
+ * Kinds of in-app notification
+ */
+export type NotificationType = 'saved_search_matches';
+
+/**
+ * Entry in the signed-in user's notification list
+ * @interface AppNotification
+ */
+export interface AppNotification {
+  id: string;
+  type: NotificationType;
+  title: string;
+  body: string;
+  /** Type-specific details; saved search alerts carry savedSearchId, technologyIds and total */
+  data: Record<string, unknown>;
+  readAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Page of notifications with the unread count
+ * @interface NotificationPage
+ */
+export interface NotificationPage {
+  notifications: AppNotification[];
+  unread: number;
+}
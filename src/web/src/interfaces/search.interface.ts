@@ -16,6 +16,8 @@ export interface SearchParams {
   pagination: PaginationParams;
   /** Sort configuration */
   sort: SortOptions;
+  /** Share of the score from semantic similarity, 0 (keyword only) to 1 (semantic only) */
+  semanticWeight?: number;
 }
 
 /**
@@ -31,6 +33,10 @@ export interface SearchFilters {
   dateRange: DateRange;
   /** List of semantic tags to filter by */
   tags: string[];
+  /** IP statuses to filter by (granted, pending, unknown) */
+  patentStatuses: string[];
+  /** Include technologies the institution no longer lists */
+  includeWithdrawn?: boolean;
 }
 
 /**
@@ -107,16 +113,43 @@ export interface SearchResult {
   description: string;
   /** Source institution name */
   institution: string;
-  /** Technology category */
+  /** Top-level taxonomy category */
   category: string;
+  /** Taxonomy subcategory, when the technology was placed that precisely */
+  subcategory?: string | null;
+  /** ISO 639-1 code of the original title and description */
+  language?: string | null;
+  /** English translations of the title and description, for non-English technologies */
+  translations?: ResultTranslations | null;
   /** Discovery timestamp in ISO format */
   discoveredAt: string;
+  /** Whether the institution still lists the technology */
+  active?: boolean;
+  /** Withdrawal timestamp in ISO format, when the technology was withdrawn */
+  withdrawnAt?: string | null;
   /** Relevance score from search engine */
   score: number;
   /** Associated semantic tags */
   tags: string[];
   /** Search term highlighting */
-  highlights: Highlights;
+  highlights?: Highlights;
+  /** Best passage of the English description, with matched terms highlighted */
+  snippet?: string | null;
+}
+
+/**
+ * Machine translations stored next to a result's original text
+ * @interface ResultTranslations
+ */
+export interface ResultTranslations {
+  /** ISO 639-1 code of the original text */
+  sourceLanguage: string;
+  /** Translated title, null when the original was empty */
+  title: string | null;
+  /** Translated description, null when the original was empty */
+  description: string | null;
+  /** Translation provider name */
+  provider: string;
 }
 
 /**
@@ -128,6 +161,8 @@ export interface Highlights {
   title: string[];
   /** Highlighted matches in description */
   description: string[];
+  /** Highlighted matches in other fields, e.g. translations.title or inventorNames */
+  [field: string]: string[] | undefined;
 }
 
 /**
@@ -141,6 +176,8 @@ export interface SearchFacets {
   categories: FacetBucket[];
   /** Tag facets with counts */
   tags: FacetBucket[];
+  /** IP status facets with counts */
+  patentStatuses: FacetBucket[];
 }
 
 /**
@@ -152,4 +189,107 @@ export interface FacetBucket {
   key: string;
   /** Number of documents matching this facet */
   count: number;
-}
\ No newline at end of file
+}
+/**
+ * Kinds of typeahead suggestion, in the order they are grouped
+ */
+export type SuggestionType = 'title' | 'institution' | 'category' | 'inventor';
+
+/**
+ * Typeahead suggestion for a search query prefix
+ * @interface Suggestion
+ */
+export interface Suggestion {
+  /** Kind of suggestion */
+  type: SuggestionType;
+  /** Text shown and searched for when the suggestion is picked */
+  text: string;
+  /** Completion score boosted by how often the text was searched */
+  score: number;
+  /** Technology a title suggestion belongs to */
+  technologyId?: string;
+  /** Filter an institution, category or inventor suggestion can apply */
+  filter?: { field: string; value: string };
+}
+
+/**
+ * Suggestions of one type, best first
+ * @interface SuggestionGroup
+ */
+export interface SuggestionGroup {
+  /** Kind of the grouped suggestions */
+  type: SuggestionType;
+  /** Suggestions of this type */
+  suggestions: Suggestion[];
+}
+
+/**
+ * Typeahead suggestions for a query prefix, grouped by type
+ * @interface SuggestionResponse
+ */
+export interface SuggestionResponse {
+  /** Normalized query prefix */
+  query: string;
+  /** Groups in display order; types without matches are left out */
+  groups: SuggestionGroup[];
+}
+
+/**
+ * How often new matches of a saved search are delivered
+ */
+export type SavedSearchFrequency = 'instant' | 'daily' | 'weekly';
+
+/**
+ * Filters kept with a saved search, named as the API filters them; omitted dimensions are
+ * not filtered
+ * @interface SavedSearchFilters
+ */
+export interface SavedSearchFilters {
+  institution?: string[];
+  category?: string[];
+  subcategory?: string[];
+  country?: string[];
+  patentStatus?: string[];
+  inventor?: string[];
+  licensingContact?: string[];
+  includeWithdrawn?: boolean;
+}
+
+/**
+ * Search saved to be alerted, by email and in the app, when new technologies match it
+ * @interface SavedSearch
+ */
+export interface SavedSearch {
+  id: string;
+  name: string;
+  query: string;
+  filters: SavedSearchFilters;
+  frequency: SavedSearchFrequency;
+  /** False once alerts were turned off or unsubscribed from */
+  alertsEnabled: boolean;
+  /** Matches found since the last alert was sent */
+  pendingMatches: number;
+  lastNotifiedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Fields sent when saving a search
+ * @interface SavedSearchInput
+ */
+export interface SavedSearchInput {
+  name: string;
+  query: string;
+  filters?: SavedSearchFilters;
+  /** Defaults to daily */
+  frequency?: SavedSearchFrequency;
+}
+
+/**
+ * Fields sent when changing a saved search
+ * @interface SavedSearchUpdate
+ */
+export interface SavedSearchUpdate extends Partial<SavedSearchInput> {
+  alertsEnabled?: boolean;
+}
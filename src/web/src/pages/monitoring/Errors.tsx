@@ -3,10 +3,12 @@ import styled from '@emotion/styled';
 import { Chart, Line, XAxis, YAxis, Tooltip, Legend } from 'recharts';
 import DashboardLayout from '../../layouts/DashboardLayout';
 import ErrorLog from '../../components/monitoring/ErrorLog';
+import DeadLetterQueue from '../../components/monitoring/DeadLetterQueue';
 import MonitoringService from '../../services/monitoring.service';
 import { useAuth } from '../../hooks/useAuth';
 import { ErrorType, AlertSeverity } from '../../interfaces/monitoring.interface';
 import { TOAST } from '../../constants/ui.constants';
+import { USER_ROLES } from '../../constants/auth.constants';
 
 // Styled components for error monitoring dashboard
 const ErrorsContainer = styled.div`
@@ -226,6 +228,11 @@ const ErrorsPage: React.FC = () => {
             responseTimeThreshold: alertThresholds.responseTimeThreshold
           }}
         />
+
+        <DeadLetterQueue
+          canReplay={user?.role === USER_ROLES.ADMIN || user?.role === USER_ROLES.MANAGER}
+          canPurge={user?.role === USER_ROLES.ADMIN}
+        />
       </ErrorsContainer>
     </DashboardLayout>
   );
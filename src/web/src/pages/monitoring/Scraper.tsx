@@ -14,6 +14,10 @@ import { debounce } from 'lodash'; // ^4.17.21
 
 import DashboardLayout from '../../layouts/DashboardLayout';
 import ScraperStatus from '../../components/monitoring/ScraperStatus';
+import ScrapeSchedule from '../../components/monitoring/ScrapeSchedule';
+import SelectorDrift from '../../components/monitoring/SelectorDrift';
+import InstitutionScorecard from '../../components/monitoring/InstitutionScorecard';
+import ProxyPoolHealth from '../../components/monitoring/ProxyPoolHealth';
 import MetricsChart from '../../components/monitoring/MetricsChart';
 import { useAuth } from '../../hooks/useAuth';
 import { USER_ROLES } from '../../constants/auth.constants';
@@ -169,6 +173,25 @@ const ScraperPage: React.FC = () => {
           alertThresholds={state.alertThresholds.scraping}
         />
 
+        {/* Per-Institution Health Scorecard */}
+        <InstitutionScorecard className="mb-6" />
+
+        {/* Proxy Pool Health */}
+        <ProxyPoolHealth className="mb-6" />
+
+        {/* Upcoming Scheduled Scrapes */}
+        <ScrapeSchedule
+          className="mb-6"
+          windowHours={72}
+          canManage={user.role === USER_ROLES.ADMIN || user.role === USER_ROLES.MANAGER}
+        />
+
+        {/* Institutions Flagged for Selector Drift */}
+        <SelectorDrift
+          className="mb-6"
+          canManage={user.role === USER_ROLES.ADMIN || user.role === USER_ROLES.MANAGER}
+        />
+
         {/* Metrics Tabs */}
         <Tabs
           value={state.selectedTab}
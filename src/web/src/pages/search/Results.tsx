@@ -90,7 +90,8 @@ const ResultsPage: React.FC = () => {
       institutions: [],
       categories: [],
       dateRange: { start: '', end: '' },
-      tags: []
+      tags: [],
+      patentStatuses: []
     },
     loading: true,
     error: null,
@@ -210,7 +211,7 @@ const ResultsPage: React.FC = () => {
         <FilterPanel
           filters={state.filters}
           onFilterChange={handleFilterChange}
-          facets={state.searchResponse?.facets || { institutions: [], categories: [], tags: [] }}
+          facets={state.searchResponse?.facets || { institutions: [], categories: [], tags: [], patentStatuses: [] }}
           loading={state.loading}
           error={!!state.error}
           errorMessage={state.error || undefined}
@@ -64,7 +64,8 @@ const initialFilters: SearchFilters = {
   institutions: [],
   categories: [],
   dateRange: { start: '', end: '' },
-  tags: []
+  tags: [],
+  patentStatuses: []
 };
 
 /**
@@ -186,7 +187,7 @@ const Search: React.FC = () => {
         <FilterPanel
           filters={filters}
           onFilterChange={handleFilterChange}
-          facets={facets || { institutions: [], categories: [], tags: [] }}
+          facets={facets || { institutions: [], categories: [], tags: [], patentStatuses: [] }}
           loading={loading}
           error={!!error}
           errorMessage={error || undefined}
@@ -207,7 +208,7 @@ const Search: React.FC = () => {
             searchResponse={searchResponse || {
               results: [],
               total: 0,
-              facets: { institutions: [], categories: [], tags: [] },
+              facets: { institutions: [], categories: [], tags: [], patentStatuses: [] },
               metadata: { took: 0, queryComplexity: 0 }
             }}
             loading={loading}
@@ -57,10 +57,11 @@ interface ImportOptions {
 /**
  * Interface for URL test results
  */
-interface URLTestResult {
+export interface URLTestResult {
   accessible: boolean;
   responseTime: number;
   validSelectors: boolean;
+  selectorMatches?: Record<string, number>;
   errors?: string[];
   warnings?: string[];
 }
@@ -20,8 +20,17 @@ import {
   SecurityMetrics,
   Alert,
   AlertSeverity,
-  MonitoringThresholds
+  MonitoringThresholds,
+  ScheduledScrape,
+  DeadLetterFilters,
+  DeadLetterPage,
+  DeadLetterReplayResult,
+  SelectorDriftReport,
+  InstitutionHealthStatus,
+  InstitutionScorecardEntry,
+  ProxyPoolHealth
 } from '../interfaces/monitoring.interface';
+import { API_ENDPOINTS } from '../constants/api.constants';
 
 /**
  * Default monitoring thresholds based on technical specifications
@@ -144,6 +153,123 @@ export class MonitoringService {
     return response.data;
   }
 
+  /**
+   * Retrieve scheduled scrapes due within the look-ahead window
+   */
+  public async getUpcomingSchedule(hours = 72): Promise<ScheduledScrape[]> {
+    const response = await this.apiService.get<{ data: ScheduledScrape[] }>(
+      API_ENDPOINTS.SCRAPER.SCHEDULE,
+      { hours }
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Pause or resume scheduled scrapes for an institution
+   */
+  public async setSchedulePaused(
+    institutionId: string,
+    paused: boolean
+  ): Promise<ScheduledScrape> {
+    const response = await this.apiService.post<{ data: ScheduledScrape }>(
+      `${API_ENDPOINTS.SCRAPER.SCHEDULE}/${institutionId}/${paused ? 'pause' : 'resume'}`
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Retrieve a page of dead-lettered scraper jobs
+   */
+  public async getDeadLetters(
+    filters: DeadLetterFilters,
+    page = 1,
+    limit = 25
+  ): Promise<DeadLetterPage> {
+    const response = await this.apiService.get<DeadLetterPage>(
+      API_ENDPOINTS.SCRAPER.DEAD_LETTER,
+      { ...filters, page, limit }
+    );
+    return response.data;
+  }
+
+  /**
+   * Replay a dead-lettered job, optionally with an edited scraper config
+   */
+  public async replayDeadLetter(
+    entryId: string,
+    config?: Record<string, unknown>
+  ): Promise<DeadLetterReplayResult> {
+    const response = await this.apiService.post<{ data: DeadLetterReplayResult }>(
+      `${API_ENDPOINTS.SCRAPER.DEAD_LETTER}/${entryId}/replay`,
+      config ? { config } : {}
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Replay several dead-lettered jobs back onto the scraper queue
+   */
+  public async replayDeadLetters(ids: string[]): Promise<DeadLetterReplayResult> {
+    const response = await this.apiService.post<{ data: DeadLetterReplayResult }>(
+      `${API_ENDPOINTS.SCRAPER.DEAD_LETTER}/replay`,
+      { ids }
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Purge dead-lettered jobs, returning how many were removed
+   */
+  public async purgeDeadLetters(ids: string[]): Promise<number> {
+    const response = await this.apiService.post<{ data: { removed: number } }>(
+      `${API_ENDPOINTS.SCRAPER.DEAD_LETTER}/purge`,
+      { ids }
+    );
+    return response.data.data.removed;
+  }
+
+  /**
+   * Retrieve institutions flagged for selector drift
+   */
+  public async getSelectorDrift(): Promise<SelectorDriftReport[]> {
+    const response = await this.apiService.get<{ data: SelectorDriftReport[] }>(
+      API_ENDPOINTS.SCRAPER.SELECTOR_DRIFT
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Dismiss an institution's selector drift flag
+   */
+  public async dismissSelectorDrift(institutionId: string): Promise<void> {
+    await this.apiService.post(
+      `${API_ENDPOINTS.SCRAPER.SELECTOR_DRIFT}/${institutionId}/dismiss`
+    );
+  }
+
+  /**
+   * Retrieve the per-institution health scorecard, worst score first
+   */
+  public async getInstitutionScorecard(
+    status?: InstitutionHealthStatus
+  ): Promise<InstitutionScorecardEntry[]> {
+    const response = await this.apiService.get<{ data: InstitutionScorecardEntry[] }>(
+      API_ENDPOINTS.SCRAPER.SCORECARD,
+      status ? { status } : {}
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Retrieve the health of the scraper proxy pool
+   */
+  public async getProxyPoolHealth(): Promise<ProxyPoolHealth> {
+    const response = await this.apiService.get<{ data: ProxyPoolHealth }>(
+      API_ENDPOINTS.SCRAPER.PROXIES
+    );
+    return response.data.data;
+  }
+
   /**
    * Report system error with classification
    */
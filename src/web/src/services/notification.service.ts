@@ -0,0 +1,49 @@
+/**
+ * Notification Service
+ * Reads and marks read the signed-in user's in-app notifications, such as saved search
+ * alerts.
+ *
+ * @version 1.0.0
+ */
+
+import { ApiService } from './api.service';
+import { API_ENDPOINTS } from '../constants/api.constants';
+import type { NotificationPage } from '../interfaces/notification.interface';
+
+/**
+ * Client for the in-app notification list
+ */
+export class NotificationService {
+  constructor(private readonly apiService: ApiService) {}
+
+  /**
+   * List notifications, newest first, with the unread count
+   */
+  public async getNotifications(page = 1, limit = 20, unreadOnly = false): Promise<NotificationPage> {
+    const response = await this.apiService.get<{ data: NotificationPage }>(
+      API_ENDPOINTS.NOTIFICATIONS.LIST,
+      { limit, offset: (page - 1) * limit, unread: unreadOnly || undefined }
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Mark a notification as read
+   */
+  public async markRead(notificationId: string): Promise<void> {
+    await this.apiService.post(`${API_ENDPOINTS.NOTIFICATIONS.LIST}/${notificationId}/read`);
+  }
+
+  /**
+   * Mark every notification as read, returning how many were unread
+   */
+  public async markAllRead(): Promise<number> {
+    const response = await this.apiService.post<{ data: { marked: number } }>(
+      API_ENDPOINTS.NOTIFICATIONS.READ_ALL
+    );
+    return response.data.data.marked;
+  }
+}
+
+// Export singleton instance
+export default new NotificationService(new ApiService());
@@ -12,7 +12,12 @@ import {
   SearchParams,
   SearchResponse,
   SearchFilters,
-  SearchResult
+  SearchResult,
+  Suggestion,
+  SuggestionResponse,
+  SavedSearch,
+  SavedSearchInput,
+  SavedSearchUpdate
 } from '../interfaces/search.interface';
 import CircuitBreaker from 'opossum'; // ^6.0.0
 import { debounce } from 'lodash'; // ^4.17.21
@@ -130,25 +135,26 @@ export class SearchService {
   }
 
   /**
-   * Get search suggestions with debouncing
+   * Get search suggestions with debouncing, in group order and best first within each type
    */
   public getSuggestions = debounce(
-    async (query: string): Promise<string[]> => {
+    async (query: string): Promise<Suggestion[]> => {
       const cacheKey = `suggestions:${query}`;
-      const cachedSuggestions = this.getCachedResult<string[]>(cacheKey);
+      const cachedSuggestions = this.getCachedResult<Suggestion[]>(cacheKey);
 
       if (cachedSuggestions) {
         return cachedSuggestions;
       }
 
       try {
-        const response = await this.apiService.get<string[]>(
+        const response = await this.apiService.get<SuggestionResponse>(
           API_ENDPOINTS.SEARCH.SUGGESTIONS,
           { query }
         );
+        const suggestions = response.data.groups.flatMap(group => group.suggestions);
         
-        this.cacheResult(cacheKey, response.data);
-        return response.data;
+        this.cacheResult(cacheKey, suggestions);
+        return suggestions;
       } catch (error) {
         console.error('Suggestions error:', error);
         return [];
@@ -181,6 +187,40 @@ export class SearchService {
     }
   }
 
+  /**
+   * List the user's saved searches
+   */
+  public async getSavedSearches(): Promise<SavedSearch[]> {
+    const response = await this.apiService.get<{ data: SavedSearch[] }>(API_ENDPOINTS.SEARCH.SAVED);
+    return response.data.data;
+  }
+
+  /**
+   * Save a search to be alerted when new technologies match it
+   */
+  public async saveSearch(input: SavedSearchInput): Promise<SavedSearch> {
+    const response = await this.apiService.post<{ data: SavedSearch }>(API_ENDPOINTS.SEARCH.SAVED, input);
+    return response.data.data;
+  }
+
+  /**
+   * Change a saved search, e.g. its alert frequency or whether alerts are on
+   */
+  public async updateSavedSearch(id: string, changes: SavedSearchUpdate): Promise<SavedSearch> {
+    const response = await this.apiService.put<{ data: SavedSearch }>(
+      `${API_ENDPOINTS.SEARCH.SAVED}/${id}`,
+      changes
+    );
+    return response.data.data;
+  }
+
+  /**
+   * Delete a saved search
+   */
+  public async deleteSavedSearch(id: string): Promise<void> {
+    await this.apiService.delete(`${API_ENDPOINTS.SEARCH.SAVED}/${id}`);
+  }
+
   /**
    * Generate cache key from search parameters
    */
@@ -152,6 +152,63 @@ export const formatBytes = memoize((bytes: number): string => {
   }
 });
 
+/**
+ * Formats an ISO 639-1 language code as its English name, e.g. "de" as "German"
+ * @param code - Language code
+ * @returns Language name, or the uppercase code when it cannot be named
+ */
+export const formatLanguageName = memoize((code: string): string => {
+  try {
+    if (!code) {
+      return '';
+    }
+
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) || code.toUpperCase();
+  } catch (error) {
+    console.error('Error formatting language name:', error);
+    return code.toUpperCase();
+  }
+});
+
+/**
+ * Tags the search API wraps matched terms in
+ */
+export const HIGHLIGHT_TAGS = {
+  pre: '<mark>',
+  post: '</mark>',
+} as const;
+
+/**
+ * Part of a highlighted fragment, matched or not
+ */
+export interface HighlightSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Splits a search highlight fragment into plain and matched segments, so it can be
+ * rendered as text nodes instead of injected as HTML
+ * @param fragment - Fragment with matched terms wrapped in HIGHLIGHT_TAGS
+ * @returns Segments in order, without the tags
+ */
+export const splitHighlight = (fragment: string): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+
+  fragment.split(HIGHLIGHT_TAGS.pre).forEach((part, index) => {
+    const end = index === 0 ? -1 : part.indexOf(HIGHLIGHT_TAGS.post);
+    if (end >= 0) {
+      segments.push({ text: part.slice(0, end), highlighted: true });
+    }
+    const rest = part.slice(end >= 0 ? end + HIGHLIGHT_TAGS.post.length : 0);
+    if (rest) {
+      segments.push({ text: rest, highlighted: false });
+    }
+  });
+
+  return segments.filter((segment) => segment.text.length > 0);
+};
+
 // Type guard for runtime type checking
 const isValidNumber = (value: any): value is number => {
   return typeof value === 'number' && !isNaN(value) && isFinite(value);
@@ -163,6 +220,7 @@ setInterval(() => {
   formatPercentage.cache.clear?.();
   formatNumber.cache.clear?.();
   formatBytes.cache.clear?.();
+  formatLanguageName.cache.clear?.();
 }, 3600000); // Clear every hour
 
 // Export type definitions for external use
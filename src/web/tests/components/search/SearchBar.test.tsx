@@ -130,7 +130,11 @@ describe('SearchBar', () => {
   });
 
   describe('Suggestions Display', () => {
-    const mockSuggestions = ['suggestion 1', 'suggestion 2', 'suggestion 3'];
+    const mockSuggestions = [
+      { type: 'title', text: 'suggestion 1', score: 3 },
+      { type: 'title', text: 'suggestion 2', score: 2 },
+      { type: 'institution', text: 'suggestion 3', score: 1 }
+    ];
 
     beforeEach(() => {
       (SearchService.getSuggestions as jest.Mock).mockResolvedValue(mockSuggestions);
@@ -146,12 +150,27 @@ describe('SearchBar', () => {
       await waitFor(() => {
         const suggestions = screen.getByRole('listbox');
         expect(suggestions).toBeInTheDocument();
-        expect(suggestions.children).toHaveLength(3);
+        expect(within(suggestions).getAllByRole('option')).toHaveLength(3);
       });
     });
 
-    it('should limit suggestions to maxSuggestions prop', async () => {
-      render(<SearchBar {...defaultProps} maxSuggestions={2} />);
+    it('should group suggestions under their type', async () => {
+      render(<SearchBar {...defaultProps} />);
+      const input = screen.getByRole('textbox');
+
+      fireEvent.change(input, { target: { value: 'te' } });
+      jest.advanceTimersByTime(300);
+
+      await waitFor(() => {
+        const technologies = screen.getByRole('group', { name: 'Technologies' });
+        const institutions = screen.getByRole('group', { name: 'Institutions' });
+        expect(within(technologies).getAllByRole('option')).toHaveLength(2);
+        expect(within(institutions).getByRole('option')).toHaveTextContent('suggestion 3');
+      });
+    });
+
+    it('should limit suggestions per type to maxSuggestions prop', async () => {
+      render(<SearchBar {...defaultProps} maxSuggestions={1} />);
       const input = screen.getByRole('textbox');
       
       fireEvent.change(input, { target: { value: 'test' } });
@@ -159,13 +178,16 @@ describe('SearchBar', () => {
       
       await waitFor(() => {
         const suggestions = screen.getByRole('listbox');
-        expect(suggestions.children).toHaveLength(2);
+        expect(within(suggestions).getAllByRole('option')).toHaveLength(2);
       });
     });
   });
 
   describe('Keyboard Navigation', () => {
-    const mockSuggestions = ['suggestion 1', 'suggestion 2'];
+    const mockSuggestions = [
+      { type: 'title', text: 'suggestion 1', score: 2 },
+      { type: 'inventor', text: 'suggestion 2', score: 1 }
+    ];
 
     beforeEach(() => {
       (SearchService.getSuggestions as jest.Mock).mockResolvedValue(mockSuggestions);